@@ -0,0 +1,51 @@
+// LeadAI Pro - Activity Types
+// Activity enum values (mirrors prisma/schema.prisma) and contact classification
+
+export const ACTIVITY_TYPES = [
+  'CALL', 'EMAIL', 'MEETING', 'NOTE', 'TASK', 'SMS', 'SOCIAL', 'DOCUMENT',
+] as const
+
+export type ActivityTypeValue = typeof ACTIVITY_TYPES[number]
+
+export const ACTIVITY_OUTCOMES = [
+  'COMPLETED', 'NO_ANSWER', 'BUSY', 'VOICEMAIL', 'RESCHEDULED', 'CANCELLED',
+] as const
+
+export type ActivityOutcomeValue = typeof ACTIVITY_OUTCOMES[number]
+
+// Activity types that represent a touch with the lead (notes and tasks do not)
+export const CONTACT_ACTIVITY_TYPES: ActivityTypeValue[] = ['CALL', 'EMAIL', 'MEETING', 'SMS', 'SOCIAL']
+
+export const isContactActivity = (type: string): boolean => {
+  return CONTACT_ACTIVITY_TYPES.includes(type as ActivityTypeValue)
+}
+
+// Compute the lead contact dates an activity implies
+export function getLeadContactUpdates(
+  activity: { type: string; outcome?: string | null; scheduledAt?: Date | null; completedAt?: Date | null; createdAt?: Date },
+  lead: { lastContactedAt?: Date | null; nextFollowUpAt?: Date | null },
+  now: Date = new Date()
+): { lastContactedAt?: Date; nextFollowUpAt?: Date } {
+  const updates: { lastContactedAt?: Date; nextFollowUpAt?: Date } = {}
+
+  const scheduledInFuture = !!activity.scheduledAt && activity.scheduledAt > now && !activity.completedAt
+  const cancelled = activity.outcome === 'CANCELLED'
+
+  // A completed (or past) contact attempt counts as the latest contact
+  if (isContactActivity(activity.type) && !scheduledInFuture && !cancelled) {
+    const contactedAt = activity.completedAt || activity.createdAt || now
+    if (!lead.lastContactedAt || contactedAt > lead.lastContactedAt) {
+      updates.lastContactedAt = contactedAt
+    }
+  }
+
+  // A future scheduled activity becomes the next follow-up if it is sooner
+  if (scheduledInFuture && !cancelled) {
+    const current = lead.nextFollowUpAt
+    if (!current || current <= now || activity.scheduledAt! < current) {
+      updates.nextFollowUpAt = activity.scheduledAt!
+    }
+  }
+
+  return updates
+}
@@ -1,7 +1,9 @@
 // Lead AI Pro - AI Service Manager (2025)
 // Centralized AI service management with error handling, rate limiting, and optimization
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { cacheTags } from '../llm/responseCache'
+import { CacheBackend, MemoryCacheBackend, hashInput, sharedCache } from '../cache/cacheBackend'
 import { LeadScoringEngine } from './leadScoring'
 import { ConversationIntelligence } from './conversationIntelligence'
 import { VoiceAssistant } from './voiceAssistant'
@@ -9,7 +11,9 @@ import { SocialMediaIntelligence } from './socialMediaIntegration'
 import { PredictiveAnalyticsEngine } from './predictiveAnalytics'
 
 export interface AIServiceConfig {
-  openaiApiKey: string
+  // Provider credentials are read from the environment by lib/llm; these are
+  // only checked when the default provider needs them
+  openaiApiKey?: string
   anthropicApiKey?: string
   maxRetries: number
   timeout: number
@@ -51,20 +55,16 @@ export interface RateLimitState {
 
 export class AIServiceManager {
   private config: AIServiceConfig
-  private openai: OpenAI
   private services: Map<string, any> = new Map()
   private metrics: AIServiceMetrics
   private rateLimitState: RateLimitState
-  private cache: Map<string, { data: any; expires: Date }> = new Map()
+  private cache: CacheBackend
   private requestQueue: Array<{ resolve: Function; reject: Function; request: Function }> = []
   private isProcessingQueue = false
 
-  constructor(config: AIServiceConfig) {
+  constructor(config: AIServiceConfig, cache: CacheBackend = sharedCache) {
     this.config = config
-    this.openai = new OpenAI({
-      apiKey: config.openaiApiKey,
-      timeout: config.timeout
-    })
+    this.cache = cache
 
     this.metrics = {
       totalRequests: 0,
@@ -85,7 +85,6 @@ export class AIServiceManager {
 
     this.initializeServices()
     this.startRateLimitReset()
-    this.startCacheCleanup()
   }
 
   private initializeServices(): void {
@@ -129,28 +128,30 @@ export class AIServiceManager {
 
   // Caching management
   private getCacheKey(service: string, method: string, params: any): string {
-    return `${service}:${method}:${JSON.stringify(params)}`
+    return `aiService:${service}:${method}:${hashInput(params)}`
   }
 
-  private getFromCache(key: string): any | null {
+  // Cache failures fall through to the AI service
+  private async getFromCache(key: string): Promise<any | null> {
     if (!this.config.caching.enabled) return null
 
-    const cached = this.cache.get(key)
-    if (!cached) return null
-
-    if (new Date() > cached.expires) {
-      this.cache.delete(key)
+    try {
+      const cached = await this.cache.get(key)
+      return cached ? JSON.parse(cached) : null
+    } catch (error) {
+      console.error('Failed to read AI service cache:', error)
       return null
     }
-
-    return cached.data
   }
 
-  private setCache(key: string, data: any): void {
+  private async setCache(key: string, data: any, tags: string[]): Promise<void> {
     if (!this.config.caching.enabled) return
 
-    const expires = new Date(Date.now() + this.config.caching.ttl * 1000)
-    this.cache.set(key, { data, expires })
+    try {
+      await this.cache.set(key, JSON.stringify(data), this.config.caching.ttl, tags)
+    } catch (error) {
+      console.error('Failed to write AI service cache:', error)
+    }
   }
 
   // Queue management for rate limiting
@@ -185,14 +186,16 @@ export class AIServiceManager {
     methodName: string,
     requestFn: () => Promise<T>,
     params: any = {},
-    estimatedTokens: number = 1000
+    estimatedTokens: number = 1000,
+    // Leads the result depends on, so editing one drops it from the cache
+    leadIds: string[] = []
   ): Promise<T> {
     const startTime = Date.now()
     const cacheKey = this.getCacheKey(serviceName, methodName, params)
 
     try {
       // Check cache first
-      const cached = this.getFromCache(cacheKey)
+      const cached = await this.getFromCache(cacheKey)
       if (cached) {
         this.metrics.totalRequests++
         this.updateMetrics(startTime, true, 0)
@@ -216,7 +219,7 @@ export class AIServiceManager {
           // Update metrics and cache
           this.updateRateLimit(estimatedTokens)
           this.updateMetrics(startTime, true, estimatedTokens)
-          this.setCache(cacheKey, result)
+          await this.setCache(cacheKey, result, leadIds.map(cacheTags.lead))
           
           return result
         } catch (error) {
@@ -298,17 +301,6 @@ export class AIServiceManager {
     }, 10000) // Check every 10 seconds
   }
 
-  private startCacheCleanup(): void {
-    setInterval(() => {
-      const now = new Date()
-      for (const [key, value] of this.cache.entries()) {
-        if (now > value.expires) {
-          this.cache.delete(key)
-        }
-      }
-    }, 60000) // Clean every minute
-  }
-
   // Public API methods
   async scoreLeads(leads: any[]): Promise<any[]> {
     const leadScoring = this.services.get('leadScoring')
@@ -317,7 +309,8 @@ export class AIServiceManager {
       'scoreLeads',
       () => leadScoring.scoreLeads(leads),
       { leads: leads.map(l => l.id) },
-      leads.length * 500
+      leads.length * 500,
+      leads.map(l => l.id)
     )
   }
 
@@ -327,8 +320,9 @@ export class AIServiceManager {
       'conversationIntelligence',
       'analyzeConversation',
       () => conversationIntelligence.analyzeConversation(transcript, leadData),
-      { transcript: transcript.substring(0, 100), leadId: leadData.id },
-      Math.ceil(transcript.length / 4) // Rough token estimate
+      { transcript, leadId: leadData.id },
+      Math.ceil(transcript.length / 4), // Rough token estimate
+      [leadData.id]
     )
   }
 
@@ -338,7 +332,7 @@ export class AIServiceManager {
       'voiceAssistant',
       'processVoiceCommand',
       () => voiceAssistant.processVoiceCommand(audioText, userId),
-      { audioText: audioText.substring(0, 50), userId },
+      { audioText, userId },
       Math.ceil(audioText.length / 4)
     )
   }
@@ -350,7 +344,8 @@ export class AIServiceManager {
       'researchLead',
       () => socialIntelligence.researchLead(leadData),
       { leadId: leadData.id },
-      1000
+      1000,
+      [leadData.id]
     )
   }
 
@@ -361,7 +356,8 @@ export class AIServiceManager {
       'predictLeadOutcome',
       () => predictiveAnalytics.predictLeadOutcome(leadData, historicalData),
       { leadId: leadData.id, historicalCount: historicalData.length },
-      1500
+      1500,
+      [leadData.id]
     )
   }
 
@@ -374,31 +370,32 @@ export class AIServiceManager {
     return { ...this.rateLimitState }
   }
 
-  getCacheStats(): { size: number; hitRate: number } {
+  getCacheStats(): { backend: string; size: number | null; hitRate: number } {
     return {
-      size: this.cache.size,
+      backend: this.cache.name,
+      // Redis is shared by every replica, so there is no per-process count
+      size: this.cache instanceof MemoryCacheBackend ? this.cache.size : null,
       hitRate: this.metrics.cacheHitRate
     }
   }
 
   async healthCheck(): Promise<{ status: 'healthy' | 'degraded' | 'unhealthy'; details: any }> {
     const checks = {
-      openai: false,
+      llm: false,
       rateLimit: !this.rateLimitState.isLimited,
       errorRate: this.metrics.errorRate < 0.1,
       responseTime: this.metrics.averageResponseTime < 5000
     }
 
     try {
-      // Test OpenAI connection
-      await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: 'test' }],
-        max_tokens: 1
+      // Test the configured LLM provider
+      await llm.complete({
+        feature: 'system.healthCheck',
+        messages: [{ role: 'user', content: 'test' }]
       })
-      checks.openai = true
+      checks.llm = true
     } catch (error) {
-      checks.openai = false
+      checks.llm = false
     }
 
     const healthyChecks = Object.values(checks).filter(Boolean).length
@@ -418,7 +415,6 @@ export class AIServiceManager {
 
   // Cleanup
   destroy(): void {
-    this.cache.clear()
     this.requestQueue.length = 0
   }
 }
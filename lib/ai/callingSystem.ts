@@ -1,7 +1,20 @@
 // Lead AI Pro - AI-Powered Calling System (2025)
 // Automated phone calling with AI conversation assistance
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s, Infer } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
+import { prisma } from '../database'
+import { ComplianceDecision, ComplianceGuard, complianceGuard } from '../compliance/complianceGuard'
+import { DialStatus, TelephonyProvider, createTelephonyProvider, telephonyConfig } from '../calls/telephony'
+import { Transcriber, createTranscriber } from '../calls/transcription'
+import {
+  CALL_STATUS_BY_DIAL,
+  CallSessionInput,
+  CallSessionRecord,
+  CallSessionService,
+  callSessionService,
+} from '../calls/callSessionService'
 
 export interface CallScript {
   id: string
@@ -23,12 +36,15 @@ export interface CallScript {
   updatedAt: Date
 }
 
+// In-memory view of a call; `id` is the persisted CallSession's
 export interface CallSession {
   id: string
   leadId: string
   scriptId: string
   phoneNumber: string
-  status: 'scheduled' | 'calling' | 'connected' | 'completed' | 'failed' | 'no_answer' | 'busy'
+  status: 'scheduled' | 'calling' | 'connected' | 'completed' | 'failed' | 'no_answer' | 'busy' | 'blocked'
+  // Why the call was not placed, when status is 'blocked'
+  complianceBlock?: ComplianceDecision
   startTime?: Date
   endTime?: Date
   duration?: number
@@ -114,13 +130,64 @@ export interface VoiceSettings {
   accent?: string
 }
 
+// Model reply schemas
+const callScriptSchema = s.object({
+  opening: s.string({ min: 1 }),
+  keyPoints: s.array(s.string(), { min: 1 }),
+  objectionHandling: s.record(s.string()),
+  closingStatements: s.array(s.string(), { min: 1 }),
+  questions: s.array(s.string()),
+})
+
+const suggestionsSchema = s.array(s.string({ min: 1 }), { min: 1, max: 3 })
+
+const callAnalysisSchema = s.object({
+  overallPerformance: s.number({ min: 1, max: 10 }),
+  keyMoments: s.array(s.object({
+    timestamp: s.number({ min: 0 }),
+    type: s.enum(['objection', 'interest_signal', 'question', 'closing_opportunity', 'concern'] as const),
+    content: s.string(),
+    aiSuggestion: s.string(),
+    handled: s.boolean(),
+  })),
+  strengths: s.array(s.string()),
+  improvements: s.array(s.string()),
+  nextSteps: s.array(s.string()),
+  sentiment: s.number({ min: -1, max: 1 }),
+  interestLevel: s.enum(['high', 'medium', 'low'] as const),
+  objections: s.array(s.string()),
+  buyingSignals: s.array(s.string()),
+})
+
+export type CallAnalysis = Infer<typeof callAnalysisSchema>
+
+const SESSION_STATUS_BY_DIAL: Record<DialStatus, CallSession['status']> = {
+  queued: 'calling',
+  ringing: 'calling',
+  in_progress: 'connected',
+  completed: 'completed',
+  busy: 'busy',
+  no_answer: 'no_answer',
+  failed: 'failed',
+}
+
 export class AICallingSystem {
-  private openai: OpenAI
+  constructor(
+    private telephony?: TelephonyProvider,
+    private sessions: CallSessionService = callSessionService,
+    private compliance: ComplianceGuard = complianceGuard,
+    private transcriber?: Transcriber
+  ) {}
+
+  // Providers are created on first use so a misconfigured one only fails the calls that need it
+  private getTelephony(): TelephonyProvider {
+    this.telephony = this.telephony || createTelephonyProvider()
+    return this.telephony
+  }
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
+  private getTranscriber(): Transcriber {
+    this.transcriber = this.transcriber || createTranscriber()
+    return this.transcriber
   }
 
   // Generate AI-powered call scripts
@@ -164,24 +231,21 @@ Make it conversational and effective for phone calls.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: scriptData } = await llm.completeJSON({
+        feature: 'calling.script',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 2000
+        schema: callScriptSchema
       })
 
-      const scriptData = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         id: this.generateScriptId(),
         name: `AI Generated - ${purpose}`,
         purpose,
         opening: scriptData.opening,
-        keyPoints: scriptData.keyPoints || [],
-        objectionHandling: scriptData.objectionHandling || {},
-        closingStatements: scriptData.closingStatements || [],
-        questions: scriptData.questions || [],
+        keyPoints: scriptData.keyPoints,
+        objectionHandling: scriptData.objectionHandling,
+        closingStatements: scriptData.closingStatements,
+        questions: scriptData.questions,
         aiGenerated: true,
         performance: {
           callsUsed: 0,
@@ -194,6 +258,7 @@ Make it conversational and effective for phone calls.
       }
     } catch (error) {
       console.error('Call script generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate call script')
     }
   }
@@ -226,28 +291,26 @@ Return array of actionable suggestions (max 3).
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: suggestions } = await llm.completeJSON({
+        feature: 'calling.realTimeCoaching',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 500
+        schema: suggestionsSchema
       })
 
-      const suggestions = JSON.parse(response.choices[0].message.content || '[]')
-      
       // Update call session with AI coaching
       callSession.aiCoaching.realTimeGuidance.push(...suggestions)
       
       return suggestions
     } catch (error) {
       console.error('Real-time coaching failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return ['Continue with your script and listen actively']
     }
   }
 
   // Analyze call recordings and provide insights
-  async analyzeCallRecording(callSession: CallSession): Promise<void> {
-    if (!callSession.recording?.transcription) return
+  async analyzeCallRecording(callSession: CallSession): Promise<CallAnalysis | null> {
+    if (!callSession.recording?.transcription) return null
 
     const prompt = `
 Analyze this sales call recording and provide detailed insights.
@@ -259,13 +322,14 @@ ${callSession.recording.transcription}
 
 Provide analysis in JSON format:
 {
-  "overallPerformance": "rating 1-10",
+  "overallPerformance": 7,
   "keyMoments": [
     {
       "timestamp": 120,
       "type": "objection",
       "content": "what was said",
-      "analysis": "how it was handled"
+      "aiSuggestion": "how it could have been handled",
+      "handled": true
     }
   ],
   "strengths": ["strength1", "strength2"],
@@ -279,23 +343,23 @@ Provide analysis in JSON format:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'calling.recordingAnalysis',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1500
+        schema: callAnalysisSchema
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-      
       // Update call session with analysis
       callSession.aiCoaching.postCallAnalysis = JSON.stringify(analysis)
-      callSession.recording!.sentiment = analysis.sentiment || 0
-      callSession.recording!.keyMoments = analysis.keyMoments || []
-      callSession.nextSteps = analysis.nextSteps || []
+      callSession.recording!.sentiment = analysis.sentiment
+      callSession.recording!.keyMoments = analysis.keyMoments
+      callSession.nextSteps = analysis.nextSteps
+      return analysis
 
     } catch (error) {
+      // The call itself succeeded, so an unusable analysis leaves the session unanalyzed
       console.error('Call analysis failed:', error)
+      return null
     }
   }
 
@@ -333,70 +397,111 @@ Provide analysis in JSON format:
     }
   }
 
-  // Execute automated call
+  // Create a call to the lead and place it
+  async placeCall(organizationId: string, userId: string, input: CallSessionInput): Promise<CallSessionRecord> {
+    const record = await this.sessions.create(organizationId, userId, input)
+    await this.executeCall(this.toCallSession(record))
+    return (await this.sessions.get(organizationId, record.id))!
+  }
+
+  // Execute automated call. Providers that report progress by webhook leave the session
+  // ringing; the rest of its lifecycle comes from their status callbacks.
   async executeCall(callSession: CallSession): Promise<void> {
     try {
+      // Suppressed numbers, missing consent and quiet hours all stop the call before dialing
+      const lead = await this.getLead(callSession.leadId)
+      const decision: ComplianceDecision = lead
+        ? await this.compliance.check(lead.organizationId, {
+          channel: 'call',
+          to: callSession.phoneNumber,
+          leadId: lead.id,
+          timeZone: lead.timezone,
+        })
+        : { allowed: false, detail: 'Lead not found' }
+      if (!decision.allowed) {
+        callSession.status = 'blocked'
+        callSession.complianceBlock = decision
+        await this.sessions.updateStatus(callSession.id, 'BLOCKED', { reason: decision.detail })
+        return
+      }
+
       callSession.status = 'calling'
       callSession.startTime = new Date()
 
-      // Initiate call using voice provider (Twilio, etc.)
-      const callResult = await this.initiateCall(callSession.phoneNumber)
-      
-      if (callResult.connected) {
-        callSession.status = 'connected'
-        
-        // Start AI-powered conversation
-        await this.conductAIConversation(callSession)
-        
-      } else {
-        callSession.status = callResult.status as any
-        callSession.outcome = 'no_answer'
-      }
-
-      callSession.endTime = new Date()
-      callSession.duration = callSession.endTime.getTime() - callSession.startTime.getTime()
-      callSession.status = 'completed'
+      const telephony = this.getTelephony()
+      const webhookBase = telephonyConfig().webhookBaseUrl?.replace(/\/+$/, '')
+      const result = await telephony.dial({
+        sessionId: callSession.id,
+        to: callSession.phoneNumber,
+        record: true,
+        ...(webhookBase && {
+          statusCallbackUrl: `${webhookBase}/calls/status`,
+          recordingCallbackUrl: `${webhookBase}/calls/recording`,
+        }),
+      })
+      await this.sessions.attachProvider(callSession.id, telephony.name, result.providerCallId)
+      await this.sessions.updateStatus(callSession.id, CALL_STATUS_BY_DIAL[result.status], {
+        durationSeconds: result.durationSeconds,
+        recordingUrl: result.recordingUrl,
+      })
 
-      // Analyze the call
-      if (callSession.recording?.transcription) {
-        await this.analyzeCallRecording(callSession)
+      callSession.status = SESSION_STATUS_BY_DIAL[result.status]
+      if (result.durationSeconds !== undefined) {
+        callSession.duration = result.durationSeconds
+        callSession.endTime = new Date()
       }
 
     } catch (error) {
       console.error('Call execution failed:', error)
       callSession.status = 'failed'
       callSession.endTime = new Date()
+      await this.sessions.updateStatus(callSession.id, 'FAILED', { reason: (error as Error).message })
     }
   }
 
-  // AI-powered conversation handling
-  private async conductAIConversation(callSession: CallSession): Promise<void> {
-    const script = await this.getCallScript(callSession.scriptId)
-    if (!script) return
+  // A finished recording: transcribe it (unless a transcript came with it), analyze the call
+  // and keep the transcript, key moments and action items on the session
+  async ingestRecording(sessionId: string, recording: { recordingUrl?: string; transcript?: string }): Promise<CallSessionRecord | null> {
+    const record: CallSessionRecord | null = await prisma.callSession.findUnique({ where: { id: sessionId } })
+    if (!record) return null
+
+    const recordingUrl = recording.recordingUrl || record.recordingUrl
+    const transcript = recording.transcript?.trim() ||
+      (recordingUrl ? (await this.getTranscriber().transcribe(recordingUrl)).text : '')
+    if (!transcript) {
+      throw new Error('A recording URL or transcript is required')
+    }
 
-    // This would integrate with voice AI services like:
-    // - Twilio Voice Intelligence
-    // - AWS Connect Contact Lens
-    // - Google Contact Center AI
-    
-    // Simulated conversation flow
-    const conversationSteps = [
-      'opening',
-      'discovery',
-      'presentation',
-      'objection_handling',
-      'closing'
-    ]
-
-    for (const step of conversationSteps) {
-      // Get AI guidance for this step
-      const guidance = await this.getStepGuidance(script, step)
-      
-      // Simulate conversation (in real implementation, this would be voice AI)
-      await this.simulateConversationStep(callSession, step, guidance)
-      
-      // Check if call should continue
-      if (callSession.outcome !== 'interested') break
+    const callSession = this.toCallSession(record)
+    callSession.recording = { url: recordingUrl || '', transcription: transcript, sentiment: 0, keyMoments: [] }
+    const analysis = await this.analyzeCallRecording(callSession)
+
+    return this.sessions.attachAnalysis(sessionId, recordingUrl || null, {
+      transcript,
+      ...(analysis && {
+        sentiment: analysis.sentiment,
+        coachingScore: Math.round(analysis.overallPerformance * 10),
+        keyMoments: analysis.keyMoments,
+        actionItems: analysis.nextSteps,
+      }),
+    })
+  }
+
+  private toCallSession(record: CallSessionRecord): CallSession {
+    return {
+      id: record.id,
+      leadId: record.leadId,
+      scriptId: record.scriptId || '',
+      phoneNumber: record.phoneNumber,
+      status: 'scheduled',
+      startTime: record.startedAt || undefined,
+      endTime: record.endedAt || undefined,
+      duration: record.duration ?? undefined,
+      outcome: (record.outcome?.toLowerCase() || 'no_answer') as CallSession['outcome'],
+      notes: record.notes || '',
+      aiCoaching: { suggestions: [], realTimeGuidance: [], postCallAnalysis: '' },
+      nextSteps: record.actionItems || [],
+      createdAt: record.createdAt,
     }
   }
 
@@ -410,20 +515,20 @@ Call Notes: ${callSession.notes}
 Duration: ${callSession.duration} seconds
 AI Analysis: ${callSession.aiCoaching.postCallAnalysis}
 
-Provide 3-5 specific, actionable follow-up recommendations with timing.
+Provide 3-5 specific, actionable follow-up recommendations with timing, as a JSON array of strings.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'calling.followUpRecommendations',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 600
+        schema: s.array(s.string({ min: 1 }), { min: 1, max: 5 })
       })
 
-      return JSON.parse(response.choices[0].message.content || '[]')
+      return data
     } catch (error) {
       console.error('Follow-up recommendations failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return ['Schedule follow-up call in 1 week']
     }
   }
@@ -463,18 +568,6 @@ Provide 3-5 specific, actionable follow-up recommendations with timing.
   }
 
   // Helper methods
-  private async initiateCall(phoneNumber: string): Promise<{ connected: boolean; status: string }> {
-    // This would integrate with Twilio, Vonage, or similar
-    // Simulated for now
-    const outcomes = ['connected', 'no_answer', 'busy', 'failed']
-    const randomOutcome = outcomes[Math.floor(Math.random() * outcomes.length)]
-    
-    return {
-      connected: randomOutcome === 'connected',
-      status: randomOutcome
-    }
-  }
-
   private findOptimalCallTime(schedule: CallCampaign['schedule'], timezone?: string): Date | null {
     // Logic to find optimal call time based on schedule and lead timezone
     const now = new Date()
@@ -488,32 +581,6 @@ Provide 3-5 specific, actionable follow-up recommendations with timing.
     console.log('Call scheduled:', callData)
   }
 
-  private async getStepGuidance(script: CallScript, step: string): Promise<string> {
-    switch (step) {
-      case 'opening':
-        return script.opening
-      case 'discovery':
-        return script.questions.join(' ')
-      case 'presentation':
-        return script.keyPoints.join(' ')
-      case 'objection_handling':
-        return Object.values(script.objectionHandling).join(' ')
-      case 'closing':
-        return script.closingStatements.join(' ')
-      default:
-        return 'Continue with natural conversation'
-    }
-  }
-
-  private async simulateConversationStep(callSession: CallSession, step: string, guidance: string): Promise<void> {
-    // Simulate conversation step
-    await new Promise(resolve => setTimeout(resolve, 2000))
-    
-    // Random outcome for simulation
-    const outcomes = ['interested', 'not_interested', 'callback_requested', 'meeting_scheduled']
-    callSession.outcome = outcomes[Math.floor(Math.random() * outcomes.length)] as any
-  }
-
   private async calculateBestCallTimes(calls: CallSession[]): Promise<string[]> {
     // Analyze call success by time of day
     return ['10:00 AM', '2:00 PM', '4:00 PM']
@@ -534,8 +601,10 @@ Provide 3-5 specific, actionable follow-up recommendations with timing.
   }
 
   private async getLead(leadId: string): Promise<any> {
-    // Fetch lead from database
-    return null
+    return prisma.lead.findUnique({
+      where: { id: leadId },
+      select: { id: true, organizationId: true, phone: true, timezone: true },
+    })
   }
 
   private async getCallCampaign(campaignId: string): Promise<CallCampaign | null> {
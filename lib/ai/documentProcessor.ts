@@ -1,7 +1,9 @@
 // Lead AI Pro - Advanced Document Processing Engine (2025)
 // OCR, business card scanning, and AI-powered document analysis
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
 import Tesseract from 'tesseract.js'
 
 export interface BusinessCardData {
@@ -49,15 +51,49 @@ export interface ProcessedDocument {
   }
 }
 
-export class DocumentProcessingEngine {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+// Model reply schemas. Card fields may legitimately be missing, so only the
+// confidence is required there.
+const businessCardSchema = s.object({
+  name: s.string().optional(),
+  title: s.string().optional(),
+  company: s.string().optional(),
+  email: s.string().optional(),
+  phone: s.string().optional(),
+  website: s.string().optional(),
+  address: s.string().optional(),
+  linkedIn: s.string().optional(),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const documentAnalysisSchema = s.object({
+  type: s.enum(['contract', 'proposal', 'meeting_notes', 'email', 'other'] as const),
+  summary: s.string({ min: 1 }),
+  keyInsights: s.array(s.string()),
+  actionItems: s.array(s.string()),
+  entities: s.object({
+    people: s.array(s.string()),
+    companies: s.array(s.string()),
+    dates: s.array(s.string()),
+    amounts: s.array(s.string()),
+    locations: s.array(s.string()),
+  }),
+  sentiment: s.object({
+    overall: s.number({ min: -1, max: 1 }),
+    confidence: s.number({ min: 0, max: 1 }),
+  }),
+  urgency: s.enum(['low', 'medium', 'high', 'critical'] as const),
+  nextSteps: s.array(s.string()),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const crmCategorySchema = s.object({
+  category: s.string({ min: 1 }),
+  priority: s.number({ min: 1, max: 10 }),
+  suggestedActions: s.array(s.string()),
+  relatedLeads: s.array(s.string()),
+})
 
+export class DocumentProcessingEngine {
   // Business card OCR and data extraction
   async processBusinessCard(imageBuffer: Buffer | string): Promise<BusinessCardData> {
     try {
@@ -79,6 +115,7 @@ export class DocumentProcessingEngine {
       return businessCardData
     } catch (error) {
       console.error('Business card processing failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to process business card')
     }
   }
@@ -112,15 +149,12 @@ Rules:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: result } = await llm.completeJSON({
+        feature: 'documents.businessCard',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 500
+        schema: businessCardSchema
       })
 
-      const result = JSON.parse(response.choices[0].message.content || '{}')
-      
       return {
         name: result.name || '',
         title: result.title || '',
@@ -130,10 +164,11 @@ Rules:
         website: result.website || undefined,
         address: result.address || undefined,
         linkedIn: result.linkedIn || undefined,
-        confidence: result.confidence || 0.5
+        confidence: result.confidence
       }
     } catch (error) {
       console.error('AI extraction failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to extract business card data')
     }
   }
@@ -147,6 +182,7 @@ Rules:
       return analysis
     } catch (error) {
       console.error('Document analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to analyze document')
     }
   }
@@ -169,14 +205,12 @@ File name: ${fileName || 'unknown'}
 Return only the category name.
 `
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-      max_tokens: 50
+    const response = await llm.complete({
+      feature: 'documents.classify',
+      messages: [{ role: 'user', content: prompt }]
     })
 
-    return response.choices[0].message.content?.trim().toLowerCase() || 'other'
+    return response.content?.trim().toLowerCase() || 'other'
   }
 
   // Perform comprehensive document analysis
@@ -218,37 +252,16 @@ Analysis guidelines:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: result } = await llm.completeJSON({
+        feature: 'documents.deepAnalysis',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1000
+        schema: documentAnalysisSchema
       })
 
-      const result = JSON.parse(response.choices[0].message.content || '{}')
-      
-      return {
-        type: result.type || documentType,
-        summary: result.summary || '',
-        keyInsights: result.keyInsights || [],
-        actionItems: result.actionItems || [],
-        entities: {
-          people: result.entities?.people || [],
-          companies: result.entities?.companies || [],
-          dates: result.entities?.dates || [],
-          amounts: result.entities?.amounts || [],
-          locations: result.entities?.locations || []
-        },
-        sentiment: {
-          overall: result.sentiment?.overall || 0,
-          confidence: result.sentiment?.confidence || 0.5
-        },
-        urgency: result.urgency || 'medium',
-        nextSteps: result.nextSteps || [],
-        confidence: result.confidence || 0.5
-      }
+      return result
     } catch (error) {
       console.error('Deep analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to perform document analysis')
     }
   }
@@ -351,16 +364,16 @@ Return JSON with:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'documents.crmCategories',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 300
+        schema: crmCategorySchema
       })
 
-      return JSON.parse(response.choices[0].message.content || '{}')
+      return data
     } catch (error) {
       console.error('CRM categorization failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return {
         category: 'other',
         priority: 5,
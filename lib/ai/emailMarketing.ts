@@ -1,8 +1,15 @@
 // Lead AI Pro - AI-Powered Email Marketing Engine (2025)
 // Advanced personalization, A/B testing, and automation
 
-import { OpenAI } from 'openai'
-import nodemailer from 'nodemailer'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
+import { EmailTransport, EmailTransportError, createEmailTransport } from '../email/emailTransport'
+import { EmailCampaignService, emailCampaignService } from '../email/campaignService'
+import { SendThrottle } from '../email/sendThrottle'
+import { addTracking, addUnsubscribeFooter, trackingOptions, unsubscribeHeaders, unsubscribeUrl } from '../email/emailTracking'
+import { ComplianceGuard, complianceGuard } from '../compliance/complianceGuard'
+import { ABTestSettings, ABTestWinner, ArmCounts, evaluateExperiment } from '../email/abTesting'
 
 export interface EmailTemplate {
   id: string
@@ -27,9 +34,13 @@ export interface EmailTemplate {
 
 export interface EmailCampaign {
   id: string
+  organizationId: string
   name: string
   description: string
-  templateId: string
+  templateId: string | null
+  // The template's subject and content as they were when the campaign was created
+  subject: string
+  content: string
   recipients: EmailRecipient[]
   schedule: {
     type: 'immediate' | 'scheduled' | 'drip'
@@ -40,18 +51,18 @@ export interface EmailCampaign {
       stopOnReply: boolean
     }
   }
-  abTest?: {
+  abTest?: ABTestSettings & {
     enabled: boolean
     variants: EmailVariant[]
-    testPercentage: number
-    winnerCriteria: 'open_rate' | 'click_rate' | 'reply_rate'
+    // Set once the test is decided and the holdout can be sent
+    winner?: ABTestWinner
   }
-  personalization: {
-    enabled: boolean
-    aiPersonalization: boolean
-    customFields: Record<string, string>
-  }
-  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'paused' | 'completed'
+  personalization: PersonalizationSettings
+  // Sender address; EMAIL_FROM when unset
+  fromEmail?: string
+  // Lower than the process-wide EMAIL_SENDS_PER_MINUTE for a slower send
+  sendsPerMinute?: number
+  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'paused' | 'cancelled'
   analytics: CampaignAnalytics
   createdAt: Date
   updatedAt: Date
@@ -65,11 +76,21 @@ export interface EmailRecipient {
   company: string
   jobTitle: string
   customData: Record<string, any>
-  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'replied' | 'bounced' | 'unsubscribed'
+  leadId?: string
+  variantId?: string
+  // Not in the A/B test cohort; waits for the winner
+  holdout?: boolean
+  status: 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'replied' | 'bounced' | 'unsubscribed' | 'failed' | 'suppressed'
+  attempts?: number
+  messageId?: string
+  personalizedSubject?: string
+  personalizedContent?: string
   sentAt?: Date
+  deliveredAt?: Date
   openedAt?: Date
   clickedAt?: Date
   repliedAt?: Date
+  bouncedAt?: Date
 }
 
 export interface EmailVariant {
@@ -78,6 +99,8 @@ export interface EmailVariant {
   subject: string
   content: string
   percentage: number
+  // Send-time experiments
+  sendAt?: Date
   performance: {
     sent: number
     opened: number
@@ -103,6 +126,20 @@ export interface CampaignAnalytics {
   topPerformingVariant?: string
 }
 
+export interface PersonalizationSettings {
+  enabled: boolean
+  // Off: only {{variable}} replacement, no AI call per recipient
+  aiPersonalization: boolean
+  customFields: Record<string, string>
+}
+
+// Lets a background job follow a send and stop it between recipients
+export interface CampaignSendHooks {
+  onRecipient?: (recipient: EmailRecipient, processed: number, total: number) => Promise<void> | void
+  // Checked before each recipient; when true the campaign is paused
+  isCancelled?: () => Promise<boolean> | boolean
+}
+
 export interface PersonalizationData {
   prospect: {
     firstName: string
@@ -128,23 +165,37 @@ export interface PersonalizationData {
   }
 }
 
-export class AIEmailMarketingEngine {
-  private openai: OpenAI
-  private transporter: nodemailer.Transporter
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
+// Model reply schemas
+const emailTemplateSchema = s.object({
+  subject: s.string({ min: 1 }),
+  htmlContent: s.string({ min: 1 }),
+  textContent: s.string({ min: 1 }),
+  variables: s.array(s.string()),
+})
+
+const personalizedEmailSchema = s.object({
+  subject: s.string({ min: 1 }),
+  content: s.string({ min: 1 }),
+})
+
+const emailVariantSchema = s.object({
+  name: s.string({ min: 1 }),
+  subject: s.string({ min: 1 }),
+  content: s.string({ min: 1 }),
+  percentage: s.number({ min: 0, max: 100 }),
+})
 
-    // Configure email transporter (using SendGrid, Mailgun, or similar)
-    this.transporter = nodemailer.createTransporter({
-      service: 'gmail', // Replace with your email service
-      auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASS
-      }
-    })
+export class AIEmailMarketingEngine {
+  private transport: EmailTransport | null
+
+  // The transport is created on first send, so a misconfigured one only fails sending
+  constructor(
+    transport?: EmailTransport,
+    private campaigns: EmailCampaignService = emailCampaignService,
+    private throttle: SendThrottle = new SendThrottle(),
+    private compliance: ComplianceGuard = complianceGuard
+  ) {
+    this.transport = transport || null
   }
 
   // Generate AI-powered email templates
@@ -181,22 +232,19 @@ Make it compelling and conversion-focused.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: templateData } = await llm.completeJSON({
+        feature: 'email.template',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 1500
+        schema: emailTemplateSchema
       })
 
-      const templateData = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         id: this.generateTemplateId(),
         name: `AI Generated - ${purpose}`,
         subject: templateData.subject,
         htmlContent: templateData.htmlContent,
         textContent: templateData.textContent,
-        variables: templateData.variables || [],
+        variables: templateData.variables,
         category: this.categorizeTemplate(purpose),
         aiGenerated: true,
         performance: {
@@ -212,13 +260,14 @@ Make it compelling and conversion-focused.
       }
     } catch (error) {
       console.error('Template generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate email template')
     }
   }
 
   // Personalize email content using AI
   async personalizeEmail(
-    template: EmailTemplate,
+    template: Pick<EmailTemplate, 'subject' | 'htmlContent'>,
     personalizationData: PersonalizationData
   ): Promise<{ subject: string; content: string }> {
     const prompt = `
@@ -245,17 +294,16 @@ Return JSON with:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'email.personalize',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1000
+        schema: personalizedEmailSchema
       })
 
-      return JSON.parse(response.choices[0].message.content || '{}')
+      return data
     } catch (error) {
       console.error('Email personalization failed:', error)
-      // Fallback to basic variable replacement
+      // Fallback to basic variable replacement, which is still the real template
       return this.basicPersonalization(template, personalizationData)
     }
   }
@@ -289,16 +337,13 @@ Return JSON array of variants:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: variants } = await llm.completeJSON({
+        feature: 'email.abVariants',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.8,
-        max_tokens: 2000
+        schema: s.array(emailVariantSchema, { min: variantCount, max: variantCount })
       })
 
-      const variants = JSON.parse(response.choices[0].message.content || '[]')
-
-      return variants.map((variant: any, index: number) => ({
+      return variants.map((variant, index) => ({
         id: `variant_${index + 1}_${Date.now()}`,
         name: variant.name,
         subject: variant.subject,
@@ -313,123 +358,123 @@ Return JSON array of variants:
       }))
     } catch (error) {
       console.error('A/B variant creation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return []
     }
   }
 
-  // Send bulk email campaign
-  async sendCampaign(campaign: EmailCampaign): Promise<void> {
+  // Send a persisted campaign. Recipients that are not pending (e.g. sent by an earlier
+  // attempt) are skipped; recipients whose send failed but may be retried stay pending and
+  // the send throws once the others are done, so the job retries them later. A/B holdout
+  // recipients and send-time variants that are not due yet are left for a later run, and the
+  // campaign stays 'sending' until they are sent.
+  async sendCampaign(campaignId: string, hooks: CampaignSendHooks = {}): Promise<EmailCampaign | null> {
+    const campaign = await this.campaigns.getCampaign(null, campaignId)
+    if (!campaign) return null
+    if (campaign.status === 'sent' || campaign.status === 'cancelled') return campaign
+
+    const from = campaign.fromEmail || process.env.EMAIL_FROM
+    if (!from) throw new Error('No sender address: set EMAIL_FROM or the campaign fromEmail')
+
+    // Every email carries an unsubscribe link (CAN-SPAM); only the local outbox goes without
+    const { baseUrl, secret } = trackingOptions()
+    if (!(baseUrl && secret) && this.getTransport().name !== 'file') {
+      throw new Error('Unsubscribe links need EMAIL_TRACKING_BASE_URL and EMAIL_TRACKING_SECRET')
+    }
+    const compliance = await this.compliance.getSettings(campaign.organizationId)
+
     try {
-      const template = await this.getTemplate(campaign.templateId)
-      if (!template) throw new Error('Template not found')
+      await this.campaigns.setCampaignStatus(campaign.id, 'sending')
+      campaign.status = 'sending'
+
+      const variants = new Map((campaign.abTest?.variants || []).map(variant => [variant.id, variant]))
+      const now = new Date()
+      // The holdout goes out as soon as there is a winner, whatever that variant's send time was
+      const isDue = (recipient: EmailRecipient) => recipient.holdout
+        ? Boolean(campaign.abTest?.winner)
+        : (variants.get(recipient.variantId || '')?.sendAt || now) <= now
+      const total = campaign.recipients.length
+      let processed = 0
 
-      // Handle A/B testing
-      const variants = campaign.abTest?.enabled ? campaign.abTest.variants : []
-      
       for (const recipient of campaign.recipients) {
-        if (recipient.status !== 'pending') continue
+        if (await hooks.isCancelled?.()) {
+          await this.campaigns.setCampaignStatus(campaign.id, 'paused')
+          campaign.status = 'paused'
+          return campaign
+        }
 
-        try {
-          // Select variant for A/B testing
-          const variant = this.selectVariantForRecipient(variants, recipient)
-          const emailContent = variant || template
+        processed++
+        if (recipient.status !== 'pending' || !isDue(recipient)) continue
 
-          // Personalize email
-          const personalizationData = this.buildPersonalizationData(recipient)
-          const personalizedEmail = await this.personalizeEmail(emailContent, personalizationData)
+        // Someone may have opted out, or been put on a DNC list, since the campaign was created
+        const decision = await this.compliance.check(
+          campaign.organizationId,
+          { channel: 'email', to: recipient.email, leadId: recipient.leadId },
+          compliance
+        )
+        if (!decision.allowed) {
+          await this.campaigns.recordSuppressed(recipient, decision.detail || 'Not allowed')
+          await hooks.onRecipient?.(recipient, processed, total)
+          continue
+        }
 
-          // Send email
-          await this.sendEmail({
+        let email: { subject: string; content: string } | undefined
+        try {
+          // A retry reuses the email personalized by the earlier attempt
+          email = recipient.personalizedSubject && recipient.personalizedContent
+            ? { subject: recipient.personalizedSubject, content: recipient.personalizedContent }
+            : await this.personalizeForRecipient(campaign, recipient, variants.get(recipient.variantId || ''))
+
+          await this.throttle.wait(campaign.sendsPerMinute)
+          // Tracking and the unsubscribe link are added per send; the stored content stays clean
+          const unsubscribe = unsubscribeUrl(recipient.id)
+          const tracked = addTracking(email.content, recipient.id)
+          const result = await this.getTransport().send({
+            from,
             to: recipient.email,
-            subject: personalizedEmail.subject,
-            html: personalizedEmail.content,
-            text: this.htmlToText(personalizedEmail.content)
+            subject: email.subject,
+            html: unsubscribe ? addUnsubscribeFooter(tracked, unsubscribe, compliance.postalAddress) : tracked,
+            text: this.htmlToText(email.content) + (unsubscribe ? `\n\nUnsubscribe: ${unsubscribe}` : ''),
+            headers: unsubscribe ? unsubscribeHeaders(unsubscribe) : undefined,
+            metadata: { recipient_id: recipient.id }
           })
 
-          // Update recipient status
-          recipient.status = 'sent'
-          recipient.sentAt = new Date()
-
-          // Update analytics
-          this.updateCampaignAnalytics(campaign, 'sent')
-          if (variant) {
-            variant.performance.sent++
-          }
-
-          // Add delay to avoid rate limits
-          await this.delay(1000)
-
+          await this.campaigns.recordSent(campaign.id, recipient, result, email)
         } catch (error) {
           console.error(`Failed to send email to ${recipient.email}:`, error)
-          recipient.status = 'bounced'
-          this.updateCampaignAnalytics(campaign, 'bounced')
+          const permanent = error instanceof EmailTransportError && error.permanent
+          await this.campaigns.recordFailure(campaign.id, recipient, (error as Error).message, permanent, email)
         }
+
+        await hooks.onRecipient?.(recipient, processed, total)
       }
 
+      const pending = campaign.recipients.filter(recipient => recipient.status === 'pending')
+      const waiting = pending.filter(isDue).length
+      if (waiting > 0) {
+        throw new Error(`${waiting} of ${total} recipients could not be sent yet`)
+      }
+      if (pending.length > 0) return campaign
+
+      await this.campaigns.setCampaignStatus(campaign.id, 'sent')
       campaign.status = 'sent'
-      campaign.updatedAt = new Date()
+      return campaign
 
     } catch (error) {
       console.error('Campaign sending failed:', error)
+      await this.campaigns.setCampaignStatus(campaign.id, 'paused')
       campaign.status = 'paused'
       throw error
     }
   }
 
-  // Schedule drip campaign
-  async scheduleDripCampaign(campaign: EmailCampaign): Promise<void> {
-    if (!campaign.schedule.dripSettings) {
-      throw new Error('Drip settings required for drip campaign')
-    }
-
-    const { interval, maxEmails, stopOnReply } = campaign.schedule.dripSettings
-
-    for (let emailIndex = 0; emailIndex < maxEmails; emailIndex++) {
-      const sendTime = new Date(Date.now() + (interval * 60 * 60 * 1000 * emailIndex))
-
-      // Schedule each email in the sequence
-      setTimeout(async () => {
-        const activeRecipients = campaign.recipients.filter(r => 
-          r.status === 'pending' || 
-          (r.status === 'sent' && (!stopOnReply || r.status !== 'replied'))
-        )
-
-        if (activeRecipients.length === 0) return
-
-        // Send to active recipients
-        for (const recipient of activeRecipients) {
-          try {
-            const template = await this.getTemplate(campaign.templateId)
-            if (!template) continue
-
-            const personalizationData = this.buildPersonalizationData(recipient)
-            const personalizedEmail = await this.personalizeEmail(template, personalizationData)
-
-            await this.sendEmail({
-              to: recipient.email,
-              subject: personalizedEmail.subject,
-              html: personalizedEmail.content,
-              text: this.htmlToText(personalizedEmail.content)
-            })
-
-            recipient.status = 'sent'
-            recipient.sentAt = new Date()
-
-          } catch (error) {
-            console.error(`Drip email failed for ${recipient.email}:`, error)
-          }
-        }
-      }, sendTime.getTime() - Date.now())
-    }
-  }
-
   // Analyze campaign performance
-  async analyzeCampaignPerformance(campaignId: string): Promise<CampaignAnalytics> {
-    const campaign = await this.getCampaign(campaignId)
+  async analyzeCampaignPerformance(campaignId: string, organizationId: string | null = null): Promise<CampaignAnalytics> {
+    const campaign = await this.campaigns.getCampaign(organizationId, campaignId)
     if (!campaign) throw new Error('Campaign not found')
 
     const analytics: CampaignAnalytics = {
-      totalSent: campaign.recipients.filter(r => r.status === 'sent').length,
+      totalSent: campaign.recipients.filter(r => r.sentAt).length,
       totalDelivered: campaign.recipients.filter(r => ['delivered', 'opened', 'clicked', 'replied'].includes(r.status)).length,
       totalOpened: campaign.recipients.filter(r => ['opened', 'clicked', 'replied'].includes(r.status)).length,
       totalClicked: campaign.recipients.filter(r => ['clicked', 'replied'].includes(r.status)).length,
@@ -458,8 +503,8 @@ Return JSON array of variants:
   }
 
   // Generate follow-up recommendations
-  async generateFollowUpRecommendations(campaignId: string): Promise<string[]> {
-    const analytics = await this.analyzeCampaignPerformance(campaignId)
+  async generateFollowUpRecommendations(campaignId: string, organizationId: string | null = null): Promise<string[]> {
+    const analytics = await this.analyzeCampaignPerformance(campaignId, organizationId)
     
     const prompt = `
 Based on these email campaign analytics, provide 3-5 specific recommendations for follow-up actions:
@@ -474,38 +519,48 @@ Consider:
 - Content improvements
 - Next steps for different recipient groups
 
-Return an array of actionable recommendations.
+Return a JSON array of actionable recommendations (strings).
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'email.followUpRecommendations',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 800
+        schema: s.array(s.string({ min: 1 }), { min: 1, max: 5 })
       })
 
-      return JSON.parse(response.choices[0].message.content || '[]')
+      return data
     } catch (error) {
       console.error('Follow-up recommendations failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return ['Review campaign performance and adjust strategy']
     }
   }
 
   // Helper methods
-  private async sendEmail(emailData: any): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.transporter.sendMail(emailData, (error, info) => {
-        if (error) {
-          reject(error)
-        } else {
-          resolve()
-        }
-      })
-    })
+  private getTransport(): EmailTransport {
+    this.transport = this.transport || createEmailTransport()
+    return this.transport
   }
 
-  private basicPersonalization(template: EmailTemplate, data: PersonalizationData): { subject: string; content: string } {
+  // The recipient's variant (or the campaign's own email), personalized by AI or by
+  // {{variable}} replacement alone
+  private async personalizeForRecipient(
+    campaign: EmailCampaign,
+    recipient: EmailRecipient,
+    variant?: EmailVariant
+  ): Promise<{ subject: string; content: string }> {
+    const template = variant
+      ? { subject: variant.subject, htmlContent: variant.content }
+      : { subject: campaign.subject, htmlContent: campaign.content }
+    const data = this.buildPersonalizationData(recipient)
+
+    return campaign.personalization.aiPersonalization
+      ? this.personalizeEmail(template, data)
+      : this.basicPersonalization(template, data)
+  }
+
+  private basicPersonalization(template: Pick<EmailTemplate, 'subject' | 'htmlContent'>, data: PersonalizationData): { subject: string; content: string } {
     let subject = template.subject
     let content = template.htmlContent
 
@@ -525,23 +580,6 @@ Return an array of actionable recommendations.
     return { subject, content }
   }
 
-  private selectVariantForRecipient(variants: EmailVariant[], recipient: EmailRecipient): EmailVariant | null {
-    if (!variants.length) return null
-    
-    // Simple random selection based on percentages
-    const random = Math.random() * 100
-    let cumulative = 0
-    
-    for (const variant of variants) {
-      cumulative += variant.percentage
-      if (random <= cumulative) {
-        return variant
-      }
-    }
-    
-    return variants[0] // Fallback
-  }
-
   private buildPersonalizationData(recipient: EmailRecipient): PersonalizationData {
     return {
       prospect: {
@@ -569,37 +607,10 @@ Return an array of actionable recommendations.
     }
   }
 
-  private updateCampaignAnalytics(campaign: EmailCampaign, event: string): void {
-    switch (event) {
-      case 'sent':
-        campaign.analytics.totalSent++
-        break
-      case 'opened':
-        campaign.analytics.totalOpened++
-        break
-      case 'clicked':
-        campaign.analytics.totalClicked++
-        break
-      case 'replied':
-        campaign.analytics.totalReplied++
-        break
-      case 'bounced':
-        campaign.analytics.totalBounced++
-        break
-      case 'unsubscribed':
-        campaign.analytics.totalUnsubscribed++
-        break
-    }
-  }
-
   private htmlToText(html: string): string {
     return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-
   private categorizeTemplate(purpose: string): EmailTemplate['category'] {
     if (purpose.toLowerCase().includes('cold')) return 'cold_outreach'
     if (purpose.toLowerCase().includes('follow')) return 'follow_up'
@@ -612,24 +623,39 @@ Return an array of actionable recommendations.
     return `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
 
-  private async getTemplate(templateId: string): Promise<EmailTemplate | null> {
-    // This would fetch from database
-    return null
-  }
-
-  private async getCampaign(campaignId: string): Promise<EmailCampaign | null> {
-    // This would fetch from database
-    return null
-  }
-
+  // Hour (UTC) in which most recipients opened; 10:00 AM until there are opens
   private async calculateBestSendTime(campaign: EmailCampaign): Promise<string> {
-    // Analyze open times to determine best send time
-    return '10:00 AM'
+    const opensByHour = new Array(24).fill(0)
+    campaign.recipients.forEach(r => {
+      if (r.openedAt) opensByHour[new Date(r.openedAt).getUTCHours()]++
+    })
+
+    const best = opensByHour.indexOf(Math.max(...opensByHour))
+    if (opensByHour[best] === 0) return '10:00 AM'
+    return `${best % 12 || 12}:00 ${best < 12 ? 'AM' : 'PM'} UTC`
   }
 
+  // The chosen winner, or the arm leading the test so far; 'control' for the campaign's own email
   private async getTopPerformingVariant(campaign: EmailCampaign): Promise<string | undefined> {
-    // Analyze variant performance
-    return campaign.abTest?.variants[0]?.id
+    if (!campaign.abTest) return undefined
+    if (campaign.abTest.winner) return campaign.abTest.winner.variantId || 'control'
+
+    const arms: ArmCounts[] = campaign.abTest.variants.map(variant => ({
+      variantId: variant.id, name: variant.name, sent: 0, opened: 0, clicked: 0, replied: 0
+    }))
+    const control: ArmCounts = { variantId: null, name: 'Control', sent: 0, opened: 0, clicked: 0, replied: 0 }
+    campaign.recipients.forEach(r => {
+      if (r.holdout || !r.sentAt) return
+      const arm = arms.find(a => a.variantId === r.variantId) || control
+      arm.sent++
+      if (r.openedAt) arm.opened++
+      if (r.clickedAt) arm.clicked++
+      if (r.repliedAt) arm.replied++
+    })
+    if (control.sent > 0) arms.push(control)
+
+    const { leader } = evaluateExperiment(arms, campaign.abTest)
+    return leader ? leader.variantId || 'control' : undefined
   }
 }
 
@@ -7,6 +7,7 @@ import { ConversationIntelligence } from './conversationIntelligence'
 import { VoiceAssistant } from './voiceAssistant'
 import { SocialMediaIntelligence } from './socialMediaIntegration'
 import { PredictiveAnalyticsEngine } from './predictiveAnalytics'
+import { defaultProvider } from '../llm/llmConfig'
 
 // Global AI service manager instance
 let aiServiceManager: AIServiceManager | null = null
@@ -39,7 +40,7 @@ export function initializeAIServices(config?: Partial<AIServiceConfig>): AIServi
 
   const finalConfig = { ...defaultConfig, ...config }
   
-  if (!finalConfig.openaiApiKey) {
+  if (defaultProvider() === 'openai' && !finalConfig.openaiApiKey) {
     throw new Error('OpenAI API key is required')
   }
 
@@ -1,7 +1,9 @@
 // Lead AI Pro - Intelligent Lead Generation Engine (2025)
 // Advanced lead discovery, enrichment, and qualification
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
 
 export interface LeadSource {
   type: 'linkedin' | 'company_website' | 'industry_database' | 'social_media' | 'referral'
@@ -73,15 +75,38 @@ export interface BulkSearchResult {
   confidence: number
 }
 
-export class IntelligentLeadGenerator {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+// Model reply schemas
+const generatedProspectSchema = s.object({
+  firstName: s.string({ min: 1 }),
+  lastName: s.string({ min: 1 }),
+  company: s.string({ min: 1 }),
+  jobTitle: s.string({ min: 1 }),
+  industry: s.string(),
+  location: s.string(),
+  linkedInUrl: s.string().optional(),
+  companyWebsite: s.string().optional(),
+  companySize: s.string().optional(),
+})
+
+const stringList = s.array(s.string()).optional()
+
+const searchCriteriaSchema = s.object({
+  industry: stringList,
+  jobTitles: stringList,
+  companySize: stringList,
+  location: stringList,
+  technologies: stringList,
+  keywords: stringList,
+  excludeCompanies: stringList,
+  minEmployees: s.number({ min: 0 }).optional(),
+  maxEmployees: s.number({ min: 0 }).optional(),
+  revenueRange: s.object({
+    min: s.number({ min: 0 }).optional(),
+    max: s.number({ min: 0 }).optional(),
+  }).optional(),
+})
 
+export class IntelligentLeadGenerator {
   // Intelligent lead discovery from multiple sources
   async findProspects(criteria: LeadGenerationCriteria, limit: number = 50): Promise<BulkSearchResult> {
     try {
@@ -123,6 +148,7 @@ export class IntelligentLeadGenerator {
       }
     } catch (error) {
       console.error('Lead generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate leads')
     }
   }
@@ -153,22 +179,20 @@ Make the prospects realistic and diverse, matching the search criteria.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: generatedProspects } = await llm.completeJSON({
+        feature: 'leadGeneration.linkedInSearch',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 2000
+        schema: s.array(generatedProspectSchema, { max: limit })
       })
 
-      const generatedProspects = JSON.parse(response.choices[0].message.content || '[]')
-      
-      return generatedProspects.map((prospect: any) => this.createProspectProfile(prospect, {
+      return generatedProspects.map(prospect => this.createProspectProfile(prospect, {
         type: 'linkedin',
         confidence: 0.85,
         lastUpdated: new Date()
       }))
     } catch (error) {
       console.error('LinkedIn search failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return []
     }
   }
@@ -272,17 +296,16 @@ Return only a number between 0-100.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: score } = await llm.completeJSON({
+        feature: 'leadGeneration.qualifyProspect',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 50
+        schema: s.number({ min: 0, max: 100 })
       })
 
-      const score = parseInt(response.choices[0].message.content?.trim() || '50')
-      return Math.max(0, Math.min(100, score))
+      return Math.round(score)
     } catch (error) {
       console.error('Prospect qualification failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return 50 // Default score
     }
   }
@@ -328,16 +351,16 @@ Each suggestion should be significantly different but still relevant.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'leadGeneration.searchSuggestions',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        max_tokens: 1000
+        schema: s.array(searchCriteriaSchema, { min: 1, max: 3 })
       })
 
-      return JSON.parse(response.choices[0].message.content || '[]')
+      return data
     } catch (error) {
       console.error('Search suggestions failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return []
     }
   }
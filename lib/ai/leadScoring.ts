@@ -19,6 +19,38 @@ export interface ScoringResult {
   recommendations: string[]
   riskFactors: string[]
   nextBestActions: string[]
+  appliedRules: AppliedScoringRule[]
+}
+
+export type ScoringRuleOperator = 'equals' | 'in' | 'gte' | 'lte' | 'contains' | 'exists'
+
+// Adds points to a factor when a lead field matches, e.g. sellingReason = FINANCIAL_DISTRESS → +20
+export interface ScoringRule {
+  id: string
+  label: string
+  // Lead field, or "address.<key>" / "customFields.<key>"
+  field: string
+  operator: ScoringRuleOperator
+  value?: any
+  factor: keyof ScoringFactors
+  points: number
+}
+
+export interface AppliedScoringRule {
+  id: string
+  label: string
+  factor: keyof ScoringFactors
+  points: number
+}
+
+// Organization-level scoring configuration (Organization.aiConfig.scoringProfile)
+export interface ScoringProfile {
+  weights: ScoringFactors
+  rules: ScoringRule[]
+  // Replace the built-in company keyword list; an empty list disables industry points
+  industryKeywords?: string[]
+  // Replace the built-in job title tiers; an empty list disables title points
+  titleKeywords?: Array<{ keywords: string[]; points: number }>
 }
 
 export interface LeadProfile {
@@ -27,6 +59,54 @@ export interface LeadProfile {
   conversations: Conversation[]
   organizationData?: any
   industryBenchmarks?: any
+  scoringProfile?: ScoringProfile
+}
+
+// Version stamped on persisted LeadScore rows
+export const SCORING_MODEL_VERSION = 'advanced-v1'
+
+// Weight of each factor in the final score
+export const DEFAULT_SCORING_WEIGHTS: ScoringFactors = {
+  demographic: 0.25,
+  behavioral: 0.35,
+  temporal: 0.20,
+  conversational: 0.20,
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  weights: DEFAULT_SCORING_WEIGHTS,
+  rules: [],
+}
+
+const readRuleField = (lead: Record<string, any>, path: string): any => {
+  const [root, key] = path.split('.', 2)
+  return key ? lead[root]?.[key] : lead[root]
+}
+
+// Check whether a scoring rule matches a lead
+export const matchesScoringRule = (rule: ScoringRule, lead: Record<string, any>): boolean => {
+  const actual = readRuleField(lead, rule.field)
+  const isEmpty = actual === null || actual === undefined || actual === '' || (Array.isArray(actual) && actual.length === 0)
+
+  switch (rule.operator) {
+    case 'exists':
+      return !isEmpty
+    case 'equals':
+      return !isEmpty && String(actual).toLowerCase() === String(rule.value).toLowerCase()
+    case 'in':
+      return !isEmpty && Array.isArray(rule.value) &&
+        rule.value.some((v: any) => String(v).toLowerCase() === String(actual).toLowerCase())
+    case 'gte':
+      return !isEmpty && Number(actual) >= Number(rule.value)
+    case 'lte':
+      return !isEmpty && Number(actual) <= Number(rule.value)
+    case 'contains':
+      return !isEmpty && (Array.isArray(actual)
+        ? actual.some(v => String(v).toLowerCase() === String(rule.value).toLowerCase())
+        : String(actual).toLowerCase().includes(String(rule.value).toLowerCase()))
+    default:
+      return false
+  }
 }
 
 // Advanced Lead Scoring Engine
@@ -44,18 +124,24 @@ export class AdvancedLeadScoringEngine {
 
   // Main scoring function
   async calculateScore(profile: LeadProfile): Promise<ScoringResult> {
-    const factors = await this.calculateFactors(profile)
-    const score = this.calculateFinalScore(factors)
+    const scoringProfile = profile.scoringProfile || DEFAULT_SCORING_PROFILE
+    const baseFactors = await this.calculateFactors(profile)
+    const { factors, appliedRules } = this.applyRules(baseFactors, profile.lead, scoringProfile.rules)
+    const score = this.calculateFinalScore(factors, scoringProfile.weights)
     const confidence = this.calculateConfidence(profile, factors)
     
     return {
       score,
       confidence,
       factors,
-      explanation: this.generateExplanation(factors, profile),
+      explanation: [
+        ...this.generateExplanation(factors, profile),
+        ...appliedRules.map(rule => `${rule.label} (${rule.points > 0 ? '+' : ''}${rule.points} ${rule.factor})`),
+      ],
       recommendations: this.generateRecommendations(factors, profile),
       riskFactors: this.identifyRiskFactors(profile),
       nextBestActions: this.suggestNextActions(factors, profile),
+      appliedRules,
     }
   }
 
@@ -69,24 +155,43 @@ export class AdvancedLeadScoringEngine {
     }
   }
 
+  // Add organization rule points on top of the computed factors
+  private applyRules(
+    baseFactors: ScoringFactors,
+    lead: Lead,
+    rules: ScoringRule[]
+  ): { factors: ScoringFactors; appliedRules: AppliedScoringRule[] } {
+    const factors = { ...baseFactors }
+    const appliedRules: AppliedScoringRule[] = []
+
+    for (const rule of rules) {
+      if (!matchesScoringRule(rule, lead as any)) continue
+
+      factors[rule.factor] = Math.min(100, Math.max(0, factors[rule.factor] + rule.points))
+      appliedRules.push({ id: rule.id, label: rule.label, factor: rule.factor, points: rule.points })
+    }
+
+    return { factors, appliedRules }
+  }
+
   // Demographic scoring (company, role, industry fit)
   private async calculateDemographicScore(profile: LeadProfile): Promise<number> {
     let score = 50 // Base score
 
-    const { lead } = profile
+    const { lead, scoringProfile } = profile
 
     // Company size indicators
     if (lead.company) {
       score += 10 // Has company
       
       // Industry-specific scoring
-      const industryScore = this.getIndustryScore(lead.company)
+      const industryScore = this.getIndustryScore(lead.company, scoringProfile?.industryKeywords)
       score += industryScore
     }
 
     // Job title scoring
     if (lead.jobTitle) {
-      const titleScore = this.getJobTitleScore(lead.jobTitle)
+      const titleScore = this.getJobTitleScore(lead.jobTitle, scoringProfile?.titleKeywords)
       score += titleScore
     }
 
@@ -119,14 +224,15 @@ export class AdvancedLeadScoringEngine {
     score += activityTypes.size * 5
 
     // Engagement quality
+    // Activity types are stored uppercase (ActivityType enum)
     const highValueActivities = activities.filter(
-      a => ['demo', 'proposal', 'meeting'].includes(a.type)
+      a => ['demo', 'proposal', 'meeting'].includes(String(a.type).toLowerCase())
     )
     score += highValueActivities.length * 15
 
     // Response rate (if available)
-    const outboundActivities = activities.filter(a => a.type === 'email')
-    const responses = activities.filter(a => a.type === 'email' && a.outcome === 'responded')
+    const outboundActivities = activities.filter(a => String(a.type).toLowerCase() === 'email')
+    const responses = outboundActivities.filter(a => String(a.outcome).toLowerCase() === 'responded')
     
     if (outboundActivities.length > 0) {
       const responseRate = responses.length / outboundActivities.length
@@ -224,13 +330,7 @@ export class AdvancedLeadScoringEngine {
   }
 
   // Calculate final weighted score
-  private calculateFinalScore(factors: ScoringFactors): number {
-    const weights = {
-      demographic: 0.25,
-      behavioral: 0.35,
-      temporal: 0.20,
-      conversational: 0.20,
-    }
+  private calculateFinalScore(factors: ScoringFactors, weights: ScoringFactors = DEFAULT_SCORING_WEIGHTS): number {
 
     const weightedScore = 
       factors.demographic * weights.demographic +
@@ -354,7 +454,7 @@ export class AdvancedLeadScoringEngine {
   private suggestNextActions(factors: ScoringFactors, profile: LeadProfile): string[] {
     const actions: string[] = []
 
-    const totalScore = this.calculateFinalScore(factors)
+    const totalScore = this.calculateFinalScore(factors, profile.scoringProfile?.weights)
 
     if (totalScore > 80) {
       actions.push("Schedule demo or proposal meeting")
@@ -374,17 +474,26 @@ export class AdvancedLeadScoringEngine {
   }
 
   // Helper methods
-  private getIndustryScore(company: string): number {
+  private getIndustryScore(company: string, keywords?: string[]): number {
     // Industry-specific scoring logic
     const techKeywords = ['tech', 'software', 'saas', 'digital', 'ai', 'data']
     const companyLower = company.toLowerCase()
 
+    if (keywords) {
+      return keywords.some(keyword => companyLower.includes(keyword.toLowerCase())) ? 25 : 0
+    }
+
     return techKeywords.some(keyword => companyLower.includes(keyword)) ? 25 : 5
   }
 
-  private getJobTitleScore(title: string): number {
+  private getJobTitleScore(title: string, tiers?: ScoringProfile['titleKeywords']): number {
     const titleLower = title.toLowerCase()
 
+    if (tiers) {
+      const tier = tiers.find(t => t.keywords.some(keyword => titleLower.includes(keyword.toLowerCase())))
+      return tier ? tier.points : 0
+    }
+
     if (['ceo', 'founder', 'president'].some(t => titleLower.includes(t))) return 30
     if (['cto', 'vp', 'director', 'head'].some(t => titleLower.includes(t))) return 25
     if (['manager', 'lead', 'senior'].some(t => titleLower.includes(t))) return 15
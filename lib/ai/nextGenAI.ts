@@ -1,9 +1,6 @@
 // Lead AI Pro - Next-Generation AI Engine (2025)
 // Advanced AI capabilities that surpass all competitors
 
-import { OpenAI } from 'openai'
-import { Anthropic } from '@anthropic-ai/sdk'
-
 // 2025 Advanced AI Interfaces
 export interface AutonomousAgent {
   id: string
@@ -69,21 +66,10 @@ export interface QuantumPrediction {
 
 // 2025 Next-Generation AI Engine
 export class NextGenAIEngine {
-  private openai: OpenAI
-  private anthropic: Anthropic
   private quantumProcessor: QuantumProcessor
   private neuralNetwork: AdvancedNeuralNetwork
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      organization: process.env.OPENAI_ORG_ID
-    })
-    
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY
-    })
-
     this.quantumProcessor = new QuantumProcessor()
     this.neuralNetwork = new AdvancedNeuralNetwork()
   }
@@ -1,7 +1,10 @@
 // Lead AI Pro - Predictive Analytics Engine (2025)
 // Advanced ML-powered predictions for sales optimization
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
+import { cacheTags } from '../llm/responseCache'
 
 export interface PredictiveModel {
   id: string
@@ -125,14 +128,116 @@ export interface SalesForecasting {
   generatedAt: Date
 }
 
+// Model reply schemas
+const probability = s.number({ min: 0, max: 1 })
+const strings = s.array(s.string())
+const level = s.enum(['low', 'medium', 'high'] as const)
+
+const leadOutcomeSchema = s.object({
+  conversionProbability: probability,
+  confidence: probability,
+  factors: s.array(s.object({
+    feature: s.string({ min: 1 }),
+    impact: s.number(),
+    direction: s.enum(['positive', 'negative'] as const),
+    explanation: s.string(),
+  })),
+  recommendations: strings,
+  timeframe: s.string({ min: 1 }),
+})
+
+const behavioralPatternSchema = s.object({
+  emailEngagement: s.object({
+    openRate: probability,
+    clickRate: probability,
+    responseRate: probability,
+    optimalTimes: strings,
+    preferredContent: strings,
+  }),
+  websiteActivity: s.object({
+    visitFrequency: s.number({ min: 0 }),
+    sessionDuration: s.number({ min: 0 }),
+    pagesViewed: strings,
+    downloadedContent: strings,
+    lastVisit: s.date(),
+  }),
+  communicationPreferences: s.object({
+    preferredChannel: s.enum(['email', 'phone', 'text', 'social'] as const),
+    responseTime: s.number({ min: 0 }),
+    communicationStyle: s.enum(['formal', 'casual', 'technical'] as const),
+    decisionMakingSpeed: s.enum(['fast', 'medium', 'slow'] as const),
+  }),
+  buyingBehavior: s.object({
+    researchIntensity: level,
+    pricesensitivity: probability,
+    featurePriorities: strings,
+    influencers: strings,
+    decisionCriteria: strings,
+  }),
+  trends: s.object({
+    engagement: s.enum(['increasing', 'decreasing', 'stable'] as const),
+    interest: s.enum(['growing', 'declining', 'consistent'] as const),
+    urgency: level,
+  }),
+})
+
+const marketIntelligenceSchema = s.object({
+  trends: s.array(s.object({
+    trend: s.string({ min: 1 }),
+    impact: s.enum(['positive', 'negative', 'neutral'] as const),
+    confidence: probability,
+    timeframe: s.string(),
+    relevance: s.number({ min: 0 }),
+  })),
+  competitiveAnalysis: s.object({
+    marketShare: probability,
+    positioning: s.string({ min: 1 }),
+    strengths: strings,
+    weaknesses: strings,
+    opportunities: strings,
+    threats: strings,
+  }),
+  buyingPatterns: s.object({
+    seasonality: s.record(s.number()),
+    cycleTiming: s.string(),
+    budgetCycles: strings,
+    decisionFactors: strings,
+  }),
+  recommendations: strings,
+})
+
+const salesForecastSchema = s.object({
+  revenue: s.number({ min: 0 }),
+  deals: s.number({ min: 0 }),
+  confidence: probability,
+  range: s.object({ low: s.number({ min: 0 }), high: s.number({ min: 0 }) }),
+  breakdown: s.object({
+    byStage: s.record(s.number()),
+    bySource: s.record(s.number()),
+    byRep: s.record(s.number()),
+    byProduct: s.record(s.number()),
+  }),
+  factors: s.array(s.object({
+    factor: s.string({ min: 1 }),
+    impact: s.number(),
+    explanation: s.string(),
+  })),
+  risks: strings,
+  opportunities: strings,
+  recommendations: strings,
+})
+
+const optimalTimingSchema = s.object({
+  nextContactTime: s.date(),
+  channel: s.string({ min: 1 }),
+  confidence: probability,
+  reasoning: s.array(s.string(), { min: 1 }),
+})
+
 export class PredictiveAnalyticsEngine {
-  private openai: OpenAI
   private models: Map<string, PredictiveModel> = new Map()
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
     this.initializeModels()
   }
 
@@ -165,29 +270,28 @@ Return detailed JSON prediction with explanations.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'predictive.leadOutcome',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1500
+        schema: leadOutcomeSchema,
+        cache: { tags: leadData?.id ? [cacheTags.lead(leadData.id)] : [] }
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         id: this.generatePredictionId(),
         modelId: 'lead_conversion_v1',
         targetId: leadData.id,
-        prediction: analysis.conversionProbability || 0.5,
-        confidence: analysis.confidence || 0.7,
-        factors: analysis.factors || [],
-        recommendations: analysis.recommendations || [],
-        timeframe: analysis.timeframe || '30 days',
+        prediction: analysis.conversionProbability,
+        confidence: analysis.confidence,
+        factors: analysis.factors,
+        recommendations: analysis.recommendations,
+        timeframe: analysis.timeframe,
         createdAt: new Date(),
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
       }
     } catch (error) {
       console.error('Lead prediction failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate lead prediction')
     }
   }
@@ -215,55 +319,27 @@ Return comprehensive behavioral analysis with actionable insights.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'predictive.behavioralPatterns',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 2000
+        schema: behavioralPatternSchema,
+        cache: { tags: [cacheTags.lead(leadId)] }
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         leadId,
         patterns: {
-          emailEngagement: analysis.emailEngagement || {
-            openRate: 0.3,
-            clickRate: 0.1,
-            responseRate: 0.05,
-            optimalTimes: ['10:00 AM', '2:00 PM'],
-            preferredContent: ['case studies', 'product updates']
-          },
-          websiteActivity: analysis.websiteActivity || {
-            visitFrequency: 2,
-            sessionDuration: 180,
-            pagesViewed: [],
-            downloadedContent: [],
-            lastVisit: new Date()
-          },
-          communicationPreferences: analysis.communicationPreferences || {
-            preferredChannel: 'email',
-            responseTime: 24,
-            communicationStyle: 'professional',
-            decisionMakingSpeed: 'medium'
-          },
-          buyingBehavior: analysis.buyingBehavior || {
-            researchIntensity: 'medium',
-            pricesensitivity: 0.5,
-            featurePriorities: [],
-            influencers: [],
-            decisionCriteria: []
-          }
-        },
-        trends: analysis.trends || {
-          engagement: 'stable',
-          interest: 'consistent',
-          urgency: 'medium'
+          emailEngagement: analysis.emailEngagement,
+          websiteActivity: analysis.websiteActivity,
+          communicationPreferences: analysis.communicationPreferences,
+          buyingBehavior: analysis.buyingBehavior
         },
+        trends: analysis.trends,
         lastAnalyzed: new Date()
       }
     } catch (error) {
       console.error('Behavioral analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to analyze behavioral patterns')
     }
   }
@@ -294,37 +370,20 @@ Return comprehensive market intelligence with actionable insights.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: intelligence } = await llm.completeJSON({
+        feature: 'predictive.marketIntelligence',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 2000
+        schema: marketIntelligenceSchema
       })
 
-      const intelligence = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         industry,
-        trends: intelligence.trends || [],
-        competitiveAnalysis: intelligence.competitiveAnalysis || {
-          marketShare: 0.1,
-          positioning: 'challenger',
-          strengths: [],
-          weaknesses: [],
-          opportunities: [],
-          threats: []
-        },
-        buyingPatterns: intelligence.buyingPatterns || {
-          seasonality: {},
-          cycleTiming: 'quarterly',
-          budgetCycles: ['Q1', 'Q4'],
-          decisionFactors: []
-        },
-        recommendations: intelligence.recommendations || [],
+        ...intelligence,
         lastUpdated: new Date()
       }
     } catch (error) {
       console.error('Market intelligence generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate market intelligence')
     }
   }
@@ -365,37 +424,30 @@ Return detailed forecast with explanations.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: forecast } = await llm.completeJSON({
+        feature: 'predictive.salesForecast',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 2000
+        schema: salesForecastSchema
       })
 
-      const forecast = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         period,
         forecast: {
-          revenue: forecast.revenue || 0,
-          deals: forecast.deals || 0,
-          confidence: forecast.confidence || 0.7,
-          range: forecast.range || { low: 0, high: 0 }
-        },
-        breakdown: forecast.breakdown || {
-          byStage: {},
-          bySource: {},
-          byRep: {},
-          byProduct: {}
+          revenue: forecast.revenue,
+          deals: forecast.deals,
+          confidence: forecast.confidence,
+          range: forecast.range
         },
-        factors: forecast.factors || [],
-        risks: forecast.risks || [],
-        opportunities: forecast.opportunities || [],
-        recommendations: forecast.recommendations || [],
+        breakdown: forecast.breakdown,
+        factors: forecast.factors,
+        risks: forecast.risks,
+        opportunities: forecast.opportunities,
+        recommendations: forecast.recommendations,
         generatedAt: new Date()
       }
     } catch (error) {
       console.error('Sales forecasting failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate sales forecast')
     }
   }
@@ -433,23 +485,16 @@ Return specific timing recommendation with detailed reasoning.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: timing } = await llm.completeJSON({
+        feature: 'predictive.optimalTiming',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 800
+        schema: optimalTimingSchema
       })
 
-      const timing = JSON.parse(response.choices[0].message.content || '{}')
-
-      return {
-        nextContactTime: new Date(timing.nextContactTime || Date.now() + 24 * 60 * 60 * 1000),
-        channel: timing.channel || 'email',
-        confidence: timing.confidence || 0.7,
-        reasoning: timing.reasoning || ['Based on historical patterns']
-      }
+      return timing
     } catch (error) {
       console.error('Timing prediction failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to predict optimal timing')
     }
   }
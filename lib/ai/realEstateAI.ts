@@ -1,7 +1,10 @@
 // LeadFlow AI - Real Estate AI Services (2025)
 // Specialized AI for property analysis, deal evaluation, and investment insights
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s, Infer } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
+import { cacheTags } from '../llm/responseCache'
 import { PropStreamProperty } from '../integrations/propstream'
 import { SkipTraceResult } from '../integrations/batchSkipTrace'
 
@@ -107,15 +110,119 @@ export interface MarketInsights {
   recommendations: string[]
 }
 
-export class RealEstateAI {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+// Model reply schemas
+const level = s.enum(['low', 'medium', 'high'] as const)
+
+const propertyAnalysisSchema = s.object({
+  investmentScore: s.number({ min: 0, max: 100 }),
+  confidence: s.number({ min: 0, max: 1 }),
+  recommendation: s.enum(['buy', 'pass', 'investigate'] as const),
+  reasoning: s.array(s.string()),
+  valuation: s.object({
+    estimatedARV: s.number({ min: 0 }),
+    repairCosts: s.number({ min: 0 }),
+    acquisitionCosts: s.number({ min: 0 }),
+    totalInvestment: s.number({ min: 0 }),
+    projectedProfit: s.number(),
+    roi: s.number(),
+    cashOnCash: s.number(),
+  }),
+  marketAnalysis: s.object({
+    marketTrend: s.enum(['rising', 'stable', 'declining'] as const),
+    comparablesSummary: s.string(),
+    daysOnMarketPrediction: s.number({ min: 0 }),
+    priceAppreciationForecast: s.number(),
+  }),
+  riskFactors: s.array(s.object({
+    factor: s.string({ min: 1 }),
+    severity: level,
+    impact: s.string(),
+    mitigation: s.string(),
+  })),
+  opportunities: s.array(s.object({
+    opportunity: s.string({ min: 1 }),
+    potential: s.string(),
+    actionRequired: s.string(),
+  })),
+  dealStructure: s.object({
+    recommendedStrategy: s.string({ min: 1 }),
+    financingOptions: s.array(s.string()),
+    exitStrategy: s.string({ min: 1 }),
+    timeline: s.string(),
+  }),
+})
+
+const factorScore = s.number({ min: 0, max: 100 })
+
+const leadScoringSchema = s.object({
+  score: factorScore,
+  factors: s.object({
+    motivation: s.object({ score: factorScore, indicators: s.array(s.string()), urgency: level }),
+    property: s.object({ score: factorScore, equity: s.number(), condition: s.string(), marketability: factorScore }),
+    financial: s.object({ score: factorScore, distressLevel: factorScore, timeframe: s.string(), priceFlexibility: factorScore }),
+    communication: s.object({ score: factorScore, responsiveness: factorScore, engagement: factorScore, trustLevel: factorScore }),
+  }),
+  recommendations: s.array(s.string()),
+})
+
+const forecastSchema = s.object({
+  priceChange: s.number(),
+  volumeChange: s.number(),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const marketInsightsSchema = s.object({
+  area: s.object({ county: s.string() }).optional(),
+  trends: s.object({
+    priceDirection: s.enum(['up', 'down', 'stable'] as const),
+    velocityChange: s.number(),
+    inventoryLevel: s.enum(['low', 'normal', 'high'] as const),
+    demandLevel: s.enum(['low', 'normal', 'high'] as const),
+  }),
+  investment: s.object({
+    hotness: s.number({ min: 0, max: 100 }),
+    competition: level,
+    bestStrategies: s.array(s.string()),
+    avgROI: s.number(),
+    avgDaysOnMarket: s.number({ min: 0 }),
+  }),
+  forecast: s.object({ nextQuarter: forecastSchema, nextYear: forecastSchema }),
+  recommendations: s.array(s.string()),
+})
+
+const outreachMessageSchema = s.object({
+  subject: s.string({ min: 1 }),
+  message: s.string({ min: 1 }),
+  callToAction: s.string({ min: 1 }),
+  tone: s.string(),
+  personalizations: s.array(s.string()),
+})
+
+const dealStructureSchema = s.object({
+  recommendedStructure: s.string({ min: 1 }),
+  financingOptions: s.array(s.object({
+    type: s.string({ min: 1 }),
+    downPayment: s.number({ min: 0 }),
+    interestRate: s.number({ min: 0 }),
+    loanTerm: s.number({ min: 0 }),
+    monthlyPayment: s.number({ min: 0 }),
+    totalCost: s.number({ min: 0 }),
+    pros: s.array(s.string()),
+    cons: s.array(s.string()),
+  }), { min: 1 }),
+  exitStrategies: s.array(s.object({
+    strategy: s.string({ min: 1 }),
+    timeline: s.string(),
+    expectedReturn: s.number(),
+    riskLevel: s.string(),
+    requirements: s.array(s.string()),
+  }), { min: 1 }),
+  recommendations: s.array(s.string()),
+})
+
+export type DealStructureAnalysis = Infer<typeof dealStructureSchema>
 
+export class RealEstateAI {
   // Analyze property for investment potential
   async analyzeProperty(
     property: PropStreamProperty,
@@ -155,49 +262,33 @@ Return detailed JSON analysis with specific numbers and actionable insights.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'realEstate.analyzeProperty',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 2000
+        schema: propertyAnalysisSchema,
+        cache: {
+          input: { property, comparables: comparables.slice(0, 5), marketData },
+          tags: [cacheTags.property(property.id)]
+        }
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         propertyId: property.id,
         analysis: {
-          investmentScore: analysis.investmentScore || 50,
-          confidence: analysis.confidence || 0.7,
-          recommendation: analysis.recommendation || 'investigate',
-          reasoning: analysis.reasoning || []
-        },
-        valuation: {
-          estimatedARV: analysis.valuation?.estimatedARV || property.valuation.estimatedValue,
-          repairCosts: analysis.valuation?.repairCosts || 0,
-          acquisitionCosts: analysis.valuation?.acquisitionCosts || 0,
-          totalInvestment: analysis.valuation?.totalInvestment || 0,
-          projectedProfit: analysis.valuation?.projectedProfit || 0,
-          roi: analysis.valuation?.roi || 0,
-          cashOnCash: analysis.valuation?.cashOnCash || 0
+          investmentScore: analysis.investmentScore,
+          confidence: analysis.confidence,
+          recommendation: analysis.recommendation,
+          reasoning: analysis.reasoning
         },
-        marketAnalysis: {
-          marketTrend: analysis.marketAnalysis?.marketTrend || 'stable',
-          comparablesSummary: analysis.marketAnalysis?.comparablesSummary || '',
-          daysOnMarketPrediction: analysis.marketAnalysis?.daysOnMarketPrediction || 30,
-          priceAppreciationForecast: analysis.marketAnalysis?.priceAppreciationForecast || 0
-        },
-        riskFactors: analysis.riskFactors || [],
-        opportunities: analysis.opportunities || [],
-        dealStructure: {
-          recommendedStrategy: analysis.dealStructure?.recommendedStrategy || 'cash purchase',
-          financingOptions: analysis.dealStructure?.financingOptions || [],
-          exitStrategy: analysis.dealStructure?.exitStrategy || 'flip',
-          timeline: analysis.dealStructure?.timeline || '6 months'
-        }
+        valuation: analysis.valuation,
+        marketAnalysis: analysis.marketAnalysis,
+        riskFactors: analysis.riskFactors,
+        opportunities: analysis.opportunities,
+        dealStructure: analysis.dealStructure
       }
     } catch (error) {
       console.error('Property analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to analyze property')
     }
   }
@@ -233,46 +324,17 @@ Return JSON with overall score (0-100) and detailed factor analysis.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: scoring } = await llm.completeJSON({
+        feature: 'realEstate.scoreLead',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1500
+        schema: leadScoringSchema,
+        cache: { tags: leadData?.id ? [cacheTags.lead(leadData.id)] : [] }
       })
 
-      const scoring = JSON.parse(response.choices[0].message.content || '{}')
-
-      return {
-        score: scoring.score || 50,
-        factors: {
-          motivation: {
-            score: scoring.factors?.motivation?.score || 50,
-            indicators: scoring.factors?.motivation?.indicators || [],
-            urgency: scoring.factors?.motivation?.urgency || 'medium'
-          },
-          property: {
-            score: scoring.factors?.property?.score || 50,
-            equity: scoring.factors?.property?.equity || 0,
-            condition: scoring.factors?.property?.condition || 'unknown',
-            marketability: scoring.factors?.property?.marketability || 50
-          },
-          financial: {
-            score: scoring.factors?.financial?.score || 50,
-            distressLevel: scoring.factors?.financial?.distressLevel || 0,
-            timeframe: scoring.factors?.financial?.timeframe || 'unknown',
-            priceFlexibility: scoring.factors?.financial?.priceFlexibility || 50
-          },
-          communication: {
-            score: scoring.factors?.communication?.score || 50,
-            responsiveness: scoring.factors?.communication?.responsiveness || 50,
-            engagement: scoring.factors?.communication?.engagement || 50,
-            trustLevel: scoring.factors?.communication?.trustLevel || 50
-          }
-        },
-        recommendations: scoring.recommendations || []
-      }
+      return scoring
     } catch (error) {
       console.error('Lead scoring failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to score real estate lead')
     }
   }
@@ -309,50 +371,27 @@ Return detailed JSON analysis with specific metrics and recommendations.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: insights } = await llm.completeJSON({
+        feature: 'realEstate.marketInsights',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1500
+        schema: marketInsightsSchema
       })
 
-      const insights = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         area: {
           city,
           state,
+          // County is descriptive only, so a missing one is not worth a repair
           county: insights.area?.county || ''
         },
-        trends: {
-          priceDirection: insights.trends?.priceDirection || 'stable',
-          velocityChange: insights.trends?.velocityChange || 0,
-          inventoryLevel: insights.trends?.inventoryLevel || 'normal',
-          demandLevel: insights.trends?.demandLevel || 'normal'
-        },
-        investment: {
-          hotness: insights.investment?.hotness || 50,
-          competition: insights.investment?.competition || 'medium',
-          bestStrategies: insights.investment?.bestStrategies || [],
-          avgROI: insights.investment?.avgROI || 0,
-          avgDaysOnMarket: insights.investment?.avgDaysOnMarket || 30
-        },
-        forecast: {
-          nextQuarter: {
-            priceChange: insights.forecast?.nextQuarter?.priceChange || 0,
-            volumeChange: insights.forecast?.nextQuarter?.volumeChange || 0,
-            confidence: insights.forecast?.nextQuarter?.confidence || 0.5
-          },
-          nextYear: {
-            priceChange: insights.forecast?.nextYear?.priceChange || 0,
-            volumeChange: insights.forecast?.nextYear?.volumeChange || 0,
-            confidence: insights.forecast?.nextYear?.confidence || 0.5
-          }
-        },
-        recommendations: insights.recommendations || []
+        trends: insights.trends,
+        investment: insights.investment,
+        forecast: insights.forecast,
+        recommendations: insights.recommendations
       }
     } catch (error) {
       console.error('Market insights generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate market insights')
     }
   }
@@ -394,24 +433,16 @@ Return JSON with subject, message content, call to action, tone, and personaliza
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: messageData } = await llm.completeJSON({
+        feature: 'realEstate.outreachMessage',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 1000
+        schema: outreachMessageSchema
       })
 
-      const messageData = JSON.parse(response.choices[0].message.content || '{}')
-
-      return {
-        subject: messageData.subject || `Regarding your property at ${propertyData.address.street}`,
-        message: messageData.message || 'Hello, I wanted to reach out about your property.',
-        callToAction: messageData.callToAction || 'Would you be interested in discussing this further?',
-        tone: messageData.tone || 'professional',
-        personalizations: messageData.personalizations || []
-      }
+      return messageData
     } catch (error) {
       console.error('Outreach message generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate outreach message')
     }
   }
@@ -421,27 +452,7 @@ Return JSON with subject, message content, call to action, tone, and personaliza
     property: PropStreamProperty,
     investorProfile: any,
     marketConditions: any
-  ): Promise<{
-    recommendedStructure: string
-    financingOptions: Array<{
-      type: string
-      downPayment: number
-      interestRate: number
-      loanTerm: number
-      monthlyPayment: number
-      totalCost: number
-      pros: string[]
-      cons: string[]
-    }>
-    exitStrategies: Array<{
-      strategy: string
-      timeline: string
-      expectedReturn: number
-      riskLevel: string
-      requirements: string[]
-    }>
-    recommendations: string[]
-  }> {
+  ): Promise<DealStructureAnalysis> {
     const prompt = `
 Analyze optimal deal structure for this real estate investment:
 
@@ -462,23 +473,16 @@ Return comprehensive JSON analysis with specific numbers and actionable recommen
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'realEstate.dealStructure',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1500
+        schema: dealStructureSchema
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
-      return {
-        recommendedStructure: analysis.recommendedStructure || 'cash purchase',
-        financingOptions: analysis.financingOptions || [],
-        exitStrategies: analysis.exitStrategies || [],
-        recommendations: analysis.recommendations || []
-      }
+      return analysis
     } catch (error) {
       console.error('Deal structure analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to analyze deal structure')
     }
   }
@@ -1,10 +1,16 @@
 // Lead AI Pro - Intelligent Response Automation (2025)
 // AI-powered automated responses for lead inquiries
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
+import { ComplianceGuard, ContactTarget, complianceGuard } from '../compliance/complianceGuard'
+import { parseSmsKeyword } from '../compliance/smsKeywords'
 
 export interface IncomingInquiry {
   id: string
+  // Needed to reply: opt-outs and consent are kept per organization
+  organizationId?: string
   source: 'email' | 'website_form' | 'chat' | 'social_media' | 'phone'
   content: string
   senderInfo: {
@@ -127,14 +133,27 @@ export interface AutomationRule {
   updatedAt: Date
 }
 
-export class IntelligentResponseAutomation {
-  private openai: OpenAI
+// Model reply schemas
+const inquiryAnalysisSchema = s.object({
+  classification: s.object({
+    type: s.enum(['product_inquiry', 'pricing_request', 'demo_request', 'support_question', 'complaint', 'partnership', 'job_inquiry', 'spam'] as const),
+    intent: s.enum(['information_seeking', 'purchase_ready', 'comparison_shopping', 'problem_solving', 'relationship_building'] as const),
+    topics: s.array(s.string()),
+    buyingStage: s.enum(['awareness', 'consideration', 'decision', 'post_purchase'] as const),
+    qualificationScore: s.number({ min: 0, max: 100 }),
+  }),
+  urgency: s.enum(['low', 'medium', 'high', 'critical'] as const),
+  sentiment: s.number({ min: -1, max: 1 }),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const responseContentSchema = s.object({
+  subject: s.string().optional(),
+  body: s.string({ min: 1 }),
+})
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+export class IntelligentResponseAutomation {
+  constructor(private compliance: ComplianceGuard = complianceGuard) {}
 
   // Classify and analyze incoming inquiries
   async classifyInquiry(inquiry: Partial<IncomingInquiry>): Promise<IncomingInquiry> {
@@ -169,17 +188,15 @@ Consider:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'responses.classifyInquiry',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1000
+        schema: inquiryAnalysisSchema
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         id: this.generateInquiryId(),
+        organizationId: inquiry.organizationId,
         source: inquiry.source || 'email',
         content: inquiry.content || '',
         senderInfo: inquiry.senderInfo || {},
@@ -194,6 +211,7 @@ Consider:
       }
     } catch (error) {
       console.error('Inquiry classification failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to classify inquiry')
     }
   }
@@ -267,15 +285,15 @@ Return JSON:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'responses.personalizeTemplate',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 1200
+        schema: responseContentSchema
       })
 
-      return JSON.parse(response.choices[0].message.content || '{}')
+      return data
     } catch (error) {
+      // The unpersonalized template is still a reviewed, sendable reply
       console.error('Template personalization failed:', error)
       return {
         subject: template.content.subject,
@@ -312,16 +330,16 @@ Return JSON:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'responses.customResponse',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 1500
+        schema: responseContentSchema
       })
 
-      return JSON.parse(response.choices[0].message.content || '{}')
+      return data
     } catch (error) {
       console.error('Custom response generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return {
         subject: 'Thank you for your inquiry',
         body: 'Thank you for reaching out. We have received your inquiry and will respond shortly.'
@@ -331,6 +349,12 @@ Return JSON:
 
   // Process inquiry through automation rules
   async processInquiry(inquiry: IncomingInquiry, rules: AutomationRule[]): Promise<AutomatedResponse | null> {
+    // A bare STOP or UNSUBSCRIBE is an opt-out, not a question
+    if (parseSmsKeyword(inquiry.content) === 'stop') {
+      await this.optOut(inquiry)
+      return null
+    }
+
     // Find matching automation rule
     const matchingRule = this.findMatchingRule(inquiry, rules)
     
@@ -361,7 +385,17 @@ Return JSON:
   private async executeAutomatedResponse(
     inquiry: IncomingInquiry,
     rule: AutomationRule
-  ): Promise<AutomatedResponse> {
+  ): Promise<AutomatedResponse | null> {
+    // Without an organization there is no suppression list to check, so nothing is sent
+    const target = this.replyTarget(inquiry)
+    const decision = inquiry.organizationId && target
+      ? await this.compliance.check(inquiry.organizationId, target)
+      : { allowed: false, detail: 'No organization or contact to check' }
+    if (!decision.allowed) {
+      console.warn('Automated response blocked:', { inquiryId: inquiry.id, reason: decision.detail })
+      return null
+    }
+
     let template: ResponseTemplate | undefined
 
     if (rule.actions.responseTemplate) {
@@ -530,6 +564,27 @@ Return JSON:
     return attachments
   }
 
+  // Replies go by email, or by text when only a phone number is known
+  private replyTarget(inquiry: IncomingInquiry): ContactTarget | null {
+    if (inquiry.senderInfo.email) return { channel: 'email', to: inquiry.senderInfo.email }
+    if (inquiry.senderInfo.phone) return { channel: 'sms', to: inquiry.senderInfo.phone }
+    return null
+  }
+
+  private async optOut(inquiry: IncomingInquiry): Promise<void> {
+    const target = this.replyTarget(inquiry)
+    if (!inquiry.organizationId || !target) return
+
+    const evidence = { inquiryId: inquiry.id, body: inquiry.content.slice(0, 160) }
+    if (target.channel === 'email') {
+      await this.compliance.optOut(inquiry.organizationId, target, 'email_reply', evidence)
+    } else {
+      // Revoking consent by text covers calls to the number as well
+      await this.compliance.optOut(inquiry.organizationId, target, 'sms_keyword', evidence)
+      await this.compliance.optOut(inquiry.organizationId, { ...target, channel: 'call' }, 'sms_keyword', evidence)
+    }
+  }
+
   private async sendResponse(response: AutomatedResponse): Promise<void> {
     // Send email using email service
     console.log('Sending automated response:', response.id)
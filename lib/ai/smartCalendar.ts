@@ -1,7 +1,9 @@
 // Lead AI Pro - Smart Calendar & Follow-up Management (2025)
 // AI-powered scheduling and multi-channel follow-up automation
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
 
 export interface SmartCalendarEvent {
   id: string
@@ -165,15 +167,72 @@ export interface OptimalTimingAnalysis {
   confidence: number
 }
 
-export class SmartCalendarSystem {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+// Model reply schemas
+const hours = s.array(s.number({ min: 0, max: 23, integer: true }))
+const weekdays = s.array(s.number({ min: 0, max: 6, integer: true }))
+
+const timingAnalysisSchema = s.object({
+  recommendedTimes: s.array(s.object({
+    dayOfWeek: s.number({ min: 0, max: 6, integer: true }),
+    hour: s.number({ min: 0, max: 23, integer: true }),
+    confidence: s.number({ min: 0, max: 1 }),
+    reasoning: s.string(),
+  }), { min: 1 }),
+  patterns: s.object({
+    emailOpenTimes: hours,
+    callAnswerTimes: hours,
+    meetingPreferences: s.array(s.string()),
+    responseDelays: s.array(s.number({ min: 0 })),
+  }),
+  timezone: s.string({ min: 1 }),
+  businessHours: s.object({
+    start: s.string({ min: 1 }),
+    end: s.string({ min: 1 }),
+    daysOfWeek: weekdays,
+  }),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const sequenceDraftSchema = s.object({
+  name: s.string({ min: 1 }),
+  description: s.string(),
+  steps: s.array(s.object({
+    stepNumber: s.number({ min: 1, integer: true }),
+    type: s.enum(['email', 'call', 'meeting', 'task', 'sms', 'linkedin'] as const),
+    title: s.string({ min: 1 }),
+    content: s.string({ min: 1 }),
+    timing: s.object({
+      delay: s.number({ min: 0 }),
+      preferredTime: s.string().optional(),
+      daysOfWeek: weekdays.optional(),
+    }),
+    automation: s.object({
+      autoExecute: s.boolean(),
+      requiresApproval: s.boolean(),
+      template: s.string().optional(),
+    }),
+    aiPersonalization: s.object({
+      enabled: s.boolean(),
+      contextFactors: s.array(s.string()),
+      personalizationLevel: s.enum(['basic', 'advanced', 'custom'] as const),
+    }),
+  }), { min: 1 }),
+  settings: s.object({
+    stopOnReply: s.boolean(),
+    stopOnMeeting: s.boolean(),
+    respectBusinessHours: s.boolean(),
+    timezone: s.string({ min: 1 }),
+    maxDuration: s.number({ min: 1 }),
+  }),
+})
+
+const meetingDetailsSchema = s.object({
+  agenda: s.array(s.string(), { min: 1 }),
+  preparationNotes: s.array(s.string()),
+  attendees: s.array(s.string()),
+})
 
+export class SmartCalendarSystem {
   // AI-powered optimal timing analysis
   async analyzeOptimalTiming(leadId: string, historicalData: any): Promise<OptimalTimingAnalysis> {
     const prompt = `
@@ -215,15 +274,12 @@ Return JSON with optimal timing recommendations:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'calendar.optimalTiming',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1000
+        schema: timingAnalysisSchema
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         leadId,
         ...analysis,
@@ -231,6 +287,7 @@ Return JSON with optimal timing recommendations:
       }
     } catch (error) {
       console.error('Optimal timing analysis failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to analyze optimal timing')
     }
   }
@@ -294,17 +351,20 @@ Return JSON:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: sequenceData } = await llm.completeJSON({
+        feature: 'calendar.followUpSequence',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 2000
+        schema: sequenceDraftSchema
       })
 
-      const sequenceData = JSON.parse(response.choices[0].message.content || '{}')
+      const id = this.generateSequenceId()
 
       return {
-        id: this.generateSequenceId(),
+        id,
+        name: sequenceData.name,
+        description: sequenceData.description,
+        steps: sequenceData.steps.map(step => ({ id: `${id}_step_${step.stepNumber}`, ...step })),
+        settings: sequenceData.settings,
         leadId: leadData.id,
         triggerEvent: 'lead_created',
         status: 'active',
@@ -316,11 +376,11 @@ Return JSON:
           averageResponseTime: 0
         },
         createdAt: new Date(),
-        updatedAt: new Date(),
-        ...sequenceData
+        updatedAt: new Date()
       }
     } catch (error) {
       console.error('Follow-up sequence generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate follow-up sequence')
     }
   }
@@ -486,16 +546,16 @@ Return JSON:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data } = await llm.completeJSON({
+        feature: 'calendar.meetingDetails',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 800
+        schema: meetingDetailsSchema
       })
 
-      return JSON.parse(response.choices[0].message.content || '{}')
+      return data
     } catch (error) {
       console.error('Meeting details generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       return {
         agenda: ['Introduction', 'Discussion', 'Next Steps'],
         attendees: [],
@@ -630,14 +690,12 @@ Return personalized content that:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 600
+      const response = await llm.complete({
+        feature: 'calendar.stepContent',
+        messages: [{ role: 'user', content: prompt }]
       })
 
-      return response.choices[0].message.content || step.content
+      return response.content || step.content
     } catch (error) {
       console.error('Content personalization failed:', error)
       return step.content
@@ -1,7 +1,9 @@
 // Lead AI Pro - Social Media Integration & Research (2025)
 // Advanced social media lead research and engagement automation
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
 
 export interface SocialProfile {
   platform: 'linkedin' | 'twitter' | 'facebook' | 'instagram' | 'tiktok'
@@ -138,15 +140,39 @@ export interface CompanyIntelligence {
   risks: string[]
 }
 
-export class SocialMediaIntelligence {
-  private openai: OpenAI
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
+// Model reply schemas
+const rate = s.number({ min: 0, max: 1 })
+
+const engagementStrategySchema = s.object({
+  platform: s.string({ min: 1 }),
+  approach: s.enum(['direct', 'indirect', 'content_based', 'network_based'] as const),
+  timeline: s.array(s.object({
+    step: s.number({ min: 1, integer: true }),
+    action: s.enum(['follow', 'like', 'comment', 'share', 'message', 'connect'] as const),
+    target: s.string(),
+    content: s.string().optional(),
+    timing: s.date(),
+    expectedOutcome: s.string(),
+  }), { min: 1 }),
+  personalizedMessages: s.object({
+    connectionRequest: s.string({ min: 1 }),
+    followUpMessage: s.string({ min: 1 }),
+    valueProposition: s.string({ min: 1 }),
+  }),
+  contentSuggestions: s.array(s.object({
+    type: s.enum(['article', 'video', 'infographic', 'poll'] as const),
+    topic: s.string({ min: 1 }),
+    content: s.string(),
+    timing: s.date(),
+  })),
+  success_metrics: s.object({
+    connectionRate: rate,
+    responseRate: rate,
+    meetingBookingRate: rate,
+  }),
+})
 
+export class SocialMediaIntelligence {
   // Comprehensive social media research for a lead
   async researchLead(leadData: any): Promise<SocialInsight> {
     try {
@@ -216,34 +242,19 @@ Return detailed JSON strategy.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: strategy } = await llm.completeJSON({
+        feature: 'social.engagementStrategy',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        max_tokens: 2000
+        schema: engagementStrategySchema
       })
 
-      const strategy = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         leadId: socialInsight.leadId,
-        platform: strategy.platform || 'linkedin',
-        approach: strategy.approach || 'indirect',
-        timeline: strategy.timeline || [],
-        personalizedMessages: strategy.personalizedMessages || {
-          connectionRequest: 'I\'d love to connect and share insights about our industry.',
-          followUpMessage: 'Thanks for connecting! I noticed your recent post about...',
-          valueProposition: 'I help companies like yours achieve...'
-        },
-        contentSuggestions: strategy.contentSuggestions || [],
-        success_metrics: strategy.success_metrics || {
-          connectionRate: 0.3,
-          responseRate: 0.15,
-          meetingBookingRate: 0.05
-        }
+        ...strategy
       }
     } catch (error) {
       console.error('Engagement strategy generation failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to generate engagement strategy')
     }
   }
@@ -334,14 +345,12 @@ Return the content with a compelling headline and description.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.6,
-        max_tokens: 1000
+      const response = await llm.complete({
+        feature: 'social.nurturingContent',
+        messages: [{ role: 'user', content: prompt }]
       })
 
-      return response.choices[0].message.content || ''
+      return response.content || ''
     } catch (error) {
       console.error('Content generation failed:', error)
       throw new Error('Failed to generate nurturing content')
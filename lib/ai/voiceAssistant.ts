@@ -1,7 +1,9 @@
 // Lead AI Pro - Voice Assistant & Conversation Coaching (2025)
 // Advanced voice-activated lead management with real-time AI coaching
 
-import { OpenAI } from 'openai'
+import { llm } from '../llm/llmClient'
+import { s } from '../llm/schema'
+import { LLMOutputError } from '../llm/types'
 
 export interface VoiceCommand {
   id: string
@@ -75,17 +77,37 @@ export interface ConversationMetrics {
   engagementLevel: number
 }
 
+// Model reply schemas
+const voiceCommandSchema = s.object({
+  intent: s.enum(['call_lead', 'schedule_meeting', 'add_note', 'search_lead', 'get_insights', 'send_email', 'create_task'] as const),
+  entities: s.object({
+    leadName: s.string().optional(),
+    leadId: s.string().optional(),
+    company: s.string().optional(),
+    date: s.string().optional(),
+    time: s.string().optional(),
+    content: s.string().optional(),
+  }),
+  confidence: s.number({ min: 0, max: 1 }),
+})
+
+const coachingSchema = s.object({
+  suggestions: s.array(s.string()),
+  warnings: s.array(s.string()),
+  opportunities: s.array(s.string()),
+  nextBestAction: s.string({ min: 1 }),
+  buyingSignals: s.array(s.string()),
+  objections: s.array(s.string()),
+  interests: s.array(s.string()),
+  concerns: s.array(s.string()),
+  coachingScore: s.number({ min: 1, max: 10 }),
+  recommendations: s.array(s.string()),
+})
+
 export class VoiceAssistant {
-  private openai: OpenAI
   private isListening: boolean = false
   private currentSession: string | null = null
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    })
-  }
-
   // Process voice commands with natural language understanding
   async processVoiceCommand(audioText: string, userId: string): Promise<VoiceCommand> {
     const prompt = `
@@ -117,25 +139,23 @@ Examples:
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: result } = await llm.completeJSON({
+        feature: 'voice.command',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-        max_tokens: 500
+        schema: voiceCommandSchema
       })
 
-      const result = JSON.parse(response.choices[0].message.content || '{}')
-
       return {
         id: this.generateCommandId(),
         command: audioText,
         intent: result.intent,
-        entities: result.entities || {},
-        confidence: result.confidence || 0.5,
+        entities: result.entities,
+        confidence: result.confidence,
         timestamp: new Date()
       }
     } catch (error) {
       console.error('Voice command processing failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to process voice command')
     }
   }
@@ -191,15 +211,12 @@ Return detailed JSON analysis with actionable coaching insights.
 `
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const { data: analysis } = await llm.completeJSON({
+        feature: 'voice.coaching',
         messages: [{ role: 'user', content: prompt }],
-        temperature: 0.2,
-        max_tokens: 1500
+        schema: coachingSchema
       })
 
-      const analysis = JSON.parse(response.choices[0].message.content || '{}')
-
       // Calculate metrics
       const metrics = this.calculateConversationMetrics(transcript)
       const sentimentAnalysis = await this.analyzeSentimentTrend(transcript)
@@ -209,10 +226,10 @@ Return detailed JSON analysis with actionable coaching insights.
         leadId: leadData.id,
         transcript,
         realTimeGuidance: {
-          suggestions: analysis.suggestions || [],
-          warnings: analysis.warnings || [],
-          opportunities: analysis.opportunities || [],
-          nextBestAction: analysis.nextBestAction || 'Continue listening actively'
+          suggestions: analysis.suggestions,
+          warnings: analysis.warnings,
+          opportunities: analysis.opportunities,
+          nextBestAction: analysis.nextBestAction
         },
         sentimentAnalysis,
         talkTimeRatio: {
@@ -221,16 +238,17 @@ Return detailed JSON analysis with actionable coaching insights.
           optimal: metrics.agentTalkTime < 0.7 // Agent should talk less than 70%
         },
         keywordAnalysis: {
-          buyingSignals: analysis.buyingSignals || [],
-          objections: analysis.objections || [],
-          interests: analysis.interests || [],
-          concerns: analysis.concerns || []
+          buyingSignals: analysis.buyingSignals,
+          objections: analysis.objections,
+          interests: analysis.interests,
+          concerns: analysis.concerns
         },
-        coachingScore: analysis.coachingScore || 5,
-        recommendations: analysis.recommendations || []
+        coachingScore: analysis.coachingScore,
+        recommendations: analysis.recommendations
       }
     } catch (error) {
       console.error('Conversation coaching failed:', error)
+      if (error instanceof LLMOutputError) throw error
       throw new Error('Failed to provide conversation coaching')
     }
   }
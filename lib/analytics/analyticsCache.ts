@@ -0,0 +1,60 @@
+// LeadAI Pro - Analytics Cache
+// Short-lived per-organization cache for expensive analytics aggregations
+
+interface CacheEntry {
+  data: any
+  expires: number
+}
+
+export class AnalyticsCache {
+  private cache: Map<string, CacheEntry> = new Map()
+  private ttlMs: number
+
+  constructor(ttlSeconds: number = 300) {
+    this.ttlMs = ttlSeconds * 1000
+  }
+
+  private key(organizationId: string, name: string, params: any): string {
+    return `${organizationId}:${name}:${JSON.stringify(params)}`
+  }
+
+  get(organizationId: string, name: string, params: any): any | null {
+    const key = this.key(organizationId, name, params)
+    const cached = this.cache.get(key)
+    if (!cached) return null
+
+    if (Date.now() > cached.expires) {
+      this.cache.delete(key)
+      return null
+    }
+
+    return cached.data
+  }
+
+  set(organizationId: string, name: string, params: any, data: any): void {
+    this.cache.set(this.key(organizationId, name, params), { data, expires: Date.now() + this.ttlMs })
+  }
+
+  // Return a cached value or compute and store it
+  async wrap<T>(organizationId: string, name: string, params: any, compute: () => Promise<T>): Promise<{ data: T; hit: boolean }> {
+    const cached = this.get(organizationId, name, params)
+    if (cached !== null) {
+      return { data: cached, hit: true }
+    }
+
+    const data = await compute()
+    this.set(organizationId, name, params, data)
+    return { data, hit: false }
+  }
+
+  // Drop everything cached for an organization (e.g. after a bulk import)
+  invalidate(organizationId: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${organizationId}:`)) {
+        this.cache.delete(key)
+      }
+    }
+  }
+}
+
+export const analyticsCache = new AnalyticsCache(Number(process.env.ANALYTICS_CACHE_TTL) || 300)
@@ -0,0 +1,568 @@
+// LeadAI Pro - Pipeline Analytics
+// Funnel, velocity, source ROI, leaderboards and forecasts computed from pipeline data
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '../database'
+
+export type AnalyticsRange = 'today' | 'week' | 'month' | 'quarter' | 'year'
+
+export const ANALYTICS_RANGES: AnalyticsRange[] = ['today', 'week', 'month', 'quarter', 'year']
+
+export interface DateRange {
+  start: Date
+  end: Date
+}
+
+// Organization-wide, or limited to one rep's assigned leads
+export interface AnalyticsScope {
+  organizationId: string
+  userId?: string
+}
+
+export interface FunnelStage {
+  status: string
+  count: number
+  reached: number
+  conversionFromPrevious: number | null
+  conversionFromStart: number | null
+}
+
+export interface Funnel {
+  stages: FunnelStage[]
+  lost: number
+  nurturing: number
+  unqualified: number
+  winRate: number | null
+}
+
+// Ordered pipeline statuses for funnel conversion
+export const FUNNEL_STAGES = ['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'closed_won']
+
+// Probability that an open lead in each status closes (used for weighted pipeline)
+export const STAGE_PROBABILITIES: Record<string, number> = {
+  new: 0.05,
+  contacted: 0.1,
+  qualified: 0.25,
+  proposal: 0.5,
+  negotiation: 0.75,
+  nurturing: 0.05,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RANGE_DAYS: Record<Exclude<AnalyticsRange, 'today'>, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+}
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+const toNumber = (value: any): number => Number(value || 0)
+
+// Resolve a named range or explicit dates into a concrete period
+export function resolveDateRange(
+  range?: string,
+  startDate?: string,
+  endDate?: string,
+  now: Date = new Date()
+): DateRange {
+  if (startDate && endDate) {
+    return { start: new Date(startDate), end: new Date(endDate) }
+  }
+
+  if (range === 'today') {
+    const start = new Date(now)
+    start.setHours(0, 0, 0, 0)
+    return { start, end: now }
+  }
+
+  const days = RANGE_DAYS[(range as keyof typeof RANGE_DAYS)] || RANGE_DAYS.month
+  return { start: new Date(now.getTime() - days * DAY_MS), end: now }
+}
+
+// The period of equal length immediately before the given one
+export function previousPeriod(range: DateRange): DateRange {
+  const length = range.end.getTime() - range.start.getTime()
+  return {
+    start: new Date(range.start.getTime() - length),
+    end: new Date(range.start.getTime()),
+  }
+}
+
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null
+  return round(((current - previous) / previous) * 100, 1)
+}
+
+// Build a cumulative funnel from current status counts
+export function buildFunnel(statusCounts: Record<string, number>): Funnel {
+  const reachedCounts = FUNNEL_STAGES.map((_, index) =>
+    FUNNEL_STAGES.slice(index).reduce((sum, status) => sum + (statusCounts[status] || 0), 0)
+  )
+  const top = reachedCounts[0]
+
+  const stages = FUNNEL_STAGES.map((status, index) => {
+    const reached = reachedCounts[index]
+    const previous = index > 0 ? reachedCounts[index - 1] : null
+
+    return {
+      status,
+      count: statusCounts[status] || 0,
+      reached,
+      conversionFromPrevious: previous ? round((reached / previous) * 100, 1) : null,
+      conversionFromStart: top ? round((reached / top) * 100, 1) : null,
+    }
+  })
+
+  const won = statusCounts.closed_won || 0
+  const lost = statusCounts.closed_lost || 0
+
+  return {
+    stages,
+    lost,
+    nurturing: statusCounts.nurturing || 0,
+    unqualified: statusCounts.unqualified || 0,
+    winRate: won + lost > 0 ? round((won / (won + lost)) * 100, 1) : null,
+  }
+}
+
+// Pipeline Analytics Engine
+export class PipelineAnalytics {
+  private leadWhere(scope: AnalyticsScope, range?: DateRange, dateField: string = 'createdAt'): any {
+    return {
+      organizationId: scope.organizationId,
+      ...(scope.userId && { assignedTo: scope.userId }),
+      ...(range && { [dateField]: { gte: range.start, lte: range.end } }),
+    }
+  }
+
+  private activityWhere(scope: AnalyticsScope, range?: DateRange): any {
+    return {
+      lead: { organizationId: scope.organizationId },
+      ...(scope.userId && { userId: scope.userId }),
+      ...(range && { createdAt: { gte: range.start, lte: range.end } }),
+    }
+  }
+
+  private async getStatusCounts(where: any): Promise<Record<string, number>> {
+    const groups = await prisma.lead.groupBy({
+      by: ['status'],
+      where,
+      _count: { _all: true },
+    })
+
+    return groups.reduce((acc: Record<string, number>, g: any) => {
+      acc[g.status] = g._count._all
+      return acc
+    }, {})
+  }
+
+  // Headline numbers for a single period
+  async summarizePeriod(scope: AnalyticsScope, range: DateRange) {
+    const [newLeads, converted, wonRevenue, activities, meetings, averageScore, inbound, outbound] = await Promise.all([
+      prisma.lead.count({ where: this.leadWhere(scope, range) }),
+      prisma.lead.count({ where: { ...this.leadWhere(scope, range, 'updatedAt'), status: 'closed_won' } }),
+      prisma.lead.aggregate({
+        where: { ...this.leadWhere(scope, range, 'updatedAt'), status: 'closed_won' },
+        _sum: { predictedValue: true },
+      }),
+      prisma.activity.count({ where: this.activityWhere(scope, range) }),
+      prisma.activity.count({ where: { ...this.activityWhere(scope, range), type: 'MEETING' } }),
+      prisma.lead.aggregate({
+        where: this.leadWhere(scope, range),
+        _avg: { currentScore: true },
+      }),
+      prisma.conversation.count({
+        where: { lead: this.leadWhere(scope), direction: 'inbound', createdAt: { gte: range.start, lte: range.end } },
+      }),
+      prisma.conversation.count({
+        where: { lead: this.leadWhere(scope), direction: 'outbound', createdAt: { gte: range.start, lte: range.end } },
+      }),
+    ])
+
+    return {
+      newLeads,
+      convertedLeads: converted,
+      conversionRate: newLeads > 0 ? round((converted / newLeads) * 100, 1) : 0,
+      revenue: toNumber(wonRevenue._sum.predictedValue),
+      activities,
+      meetings,
+      averageScore: round(toNumber(averageScore._avg.currentScore), 1),
+      responseRate: outbound > 0 ? round(Math.min(1, inbound / outbound) * 100, 1) : 0,
+    }
+  }
+
+  // Current period vs. the previous period of equal length
+  async comparePeriods(scope: AnalyticsScope, range: DateRange) {
+    const previousRange = previousPeriod(range)
+    const [current, previous] = await Promise.all([
+      this.summarizePeriod(scope, range),
+      this.summarizePeriod(scope, previousRange),
+    ])
+
+    const change: Record<string, number | null> = {}
+    for (const key of Object.keys(current) as Array<keyof typeof current>) {
+      change[key] = percentChange(current[key], previous[key])
+    }
+
+    return {
+      current: { ...range, ...current },
+      previous: { ...previousRange, ...previous },
+      change,
+    }
+  }
+
+  // Dashboard overview (shape consumed by the mobile DashboardScreen)
+  async getDashboard(scope: AnalyticsScope, range: DateRange, now: Date = new Date()) {
+    const startOfToday = new Date(now)
+    startOfToday.setHours(0, 0, 0, 0)
+    const endOfToday = new Date(startOfToday.getTime() + DAY_MS)
+    const endOfWeek = new Date(startOfToday.getTime() + 7 * DAY_MS)
+
+    const [totalLeads, hotLeads, todayActivities, todayFollowUps, thisWeekMeetings, comparison, statusCounts] = await Promise.all([
+      prisma.lead.count({ where: this.leadWhere(scope) }),
+      prisma.lead.count({
+        where: {
+          ...this.leadWhere(scope),
+          currentScore: { gte: 80 },
+          status: { notIn: ['closed_won', 'closed_lost', 'unqualified'] },
+        },
+      }),
+      prisma.activity.count({
+        where: {
+          ...this.activityWhere(scope),
+          scheduledAt: { gte: startOfToday, lt: endOfToday },
+          completedAt: null,
+        },
+      }),
+      prisma.lead.count({
+        where: { ...this.leadWhere(scope), nextFollowUpAt: { gte: startOfToday, lt: endOfToday } },
+      }),
+      prisma.activity.count({
+        where: {
+          ...this.activityWhere(scope),
+          type: 'MEETING',
+          scheduledAt: { gte: startOfToday, lt: endOfWeek },
+        },
+      }),
+      this.comparePeriods(scope, range),
+      this.getStatusCounts(this.leadWhere(scope, range)),
+    ])
+
+    return {
+      period: range,
+      metrics: {
+        totalLeads,
+        hotLeads,
+        todayActions: todayActivities + todayFollowUps,
+        thisWeekMeetings,
+        conversionRate: comparison.current.conversionRate,
+        responseRate: comparison.current.responseRate,
+      },
+      comparison,
+      funnel: buildFunnel(statusCounts),
+    }
+  }
+
+  // Funnel conversion, lead velocity and source ROI
+  async getLeadAnalytics(scope: AnalyticsScope, range: DateRange) {
+    const [summary, statusCounts, velocity, sources, comparison] = await Promise.all([
+      this.getLeadSummary(scope, range),
+      this.getStatusCounts(this.leadWhere(scope, range)),
+      this.getVelocity(scope, range),
+      this.getSourceROI(scope, range),
+      this.comparePeriods(scope, range),
+    ])
+
+    return {
+      summary,
+      period: range,
+      funnel: buildFunnel(statusCounts),
+      velocity,
+      sources,
+      comparison,
+    }
+  }
+
+  // Totals for leads created in the period; a rep only counts their own leads
+  async getLeadSummary(scope: AnalyticsScope, range: DateRange) {
+    const where = this.leadWhere(scope, range)
+    const [statusCounts, averageScore] = await Promise.all([
+      this.getStatusCounts(where),
+      prisma.lead.aggregate({ where, _avg: { currentScore: true } }),
+    ])
+
+    const totalLeads = Object.values(statusCounts).reduce((sum, count) => sum + count, 0)
+    const qualifiedLeads = ['qualified', 'proposal', 'negotiation'].reduce((sum, status) => sum + (statusCounts[status] || 0), 0)
+    const convertedLeads = statusCounts.closed_won || 0
+
+    return {
+      totalLeads,
+      qualifiedLeads,
+      convertedLeads,
+      conversionRate: totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0,
+      averageScore: averageScore._avg.currentScore || 0,
+    }
+  }
+
+  async getVelocity(scope: AnalyticsScope, range: DateRange) {
+    const assignedFilter = scope.userId
+      ? Prisma.sql`AND assigned_to = ${scope.userId}::uuid`
+      : Prisma.empty
+
+    const [daily, wonLeads, openPipeline, statusCounts] = await Promise.all([
+      prisma.$queryRaw<Array<{ day: Date; count: bigint }>>`
+        SELECT date_trunc('day', created_at) AS day, COUNT(*) AS count
+        FROM leads
+        WHERE organization_id = ${scope.organizationId}::uuid
+          AND created_at >= ${range.start} AND created_at <= ${range.end}
+          ${assignedFilter}
+        GROUP BY day
+        ORDER BY day ASC
+      `,
+      prisma.lead.findMany({
+        where: { ...this.leadWhere(scope, range, 'updatedAt'), status: 'closed_won' },
+        select: { createdAt: true, updatedAt: true, predictedValue: true },
+      }),
+      prisma.lead.count({
+        where: { ...this.leadWhere(scope), status: { in: ['qualified', 'proposal', 'negotiation'] } },
+      }),
+      this.getStatusCounts(this.leadWhere(scope, range, 'updatedAt')),
+    ])
+
+    const days = Math.max(1, (range.end.getTime() - range.start.getTime()) / DAY_MS)
+    const created = daily.reduce((sum, d) => sum + Number(d.count), 0)
+
+    const cycleDays = wonLeads.map((l: any) => (new Date(l.updatedAt).getTime() - new Date(l.createdAt).getTime()) / DAY_MS)
+    const averageDaysToClose = cycleDays.length > 0
+      ? round(cycleDays.reduce((a: number, b: number) => a + b, 0) / cycleDays.length, 1)
+      : null
+
+    const revenue = wonLeads.reduce((sum: number, l: any) => sum + toNumber(l.predictedValue), 0)
+    const averageDealSize = wonLeads.length > 0 ? round(revenue / wonLeads.length) : 0
+
+    const won = statusCounts.closed_won || 0
+    const lost = statusCounts.closed_lost || 0
+    const winRate = won + lost > 0 ? won / (won + lost) : 0
+
+    return {
+      leadsCreated: created,
+      leadsPerDay: round(created / days, 2),
+      daily: daily.map(d => ({ date: d.day, count: Number(d.count) })),
+      averageDaysToClose,
+      averageDealSize,
+      winRate: round(winRate * 100, 1),
+      openOpportunities: openPipeline,
+      // Expected revenue closed per day: opportunities x deal size x win rate / cycle length
+      salesVelocity: averageDaysToClose
+        ? round((openPipeline * averageDealSize * winRate) / Math.max(1, averageDaysToClose))
+        : null,
+    }
+  }
+
+  // Lead volume, conversions and ROI per source/campaign; costs come from
+  // Organization.settings.analytics.sourceCosts / campaignCosts
+  async getSourceROI(scope: AnalyticsScope, range: DateRange) {
+    const [organization, created, won] = await Promise.all([
+      prisma.organization.findUnique({
+        where: { id: scope.organizationId },
+        select: { settings: true },
+      }),
+      prisma.lead.groupBy({
+        by: ['source', 'campaign'],
+        where: this.leadWhere(scope, range),
+        _count: { _all: true },
+      }),
+      prisma.lead.groupBy({
+        by: ['source', 'campaign'],
+        where: { ...this.leadWhere(scope, range), status: 'closed_won' },
+        _count: { _all: true },
+        _sum: { predictedValue: true },
+      }),
+    ])
+
+    const costs = (organization?.settings as any)?.analytics || {}
+    const sourceCosts: Record<string, number> = costs.sourceCosts || {}
+    const campaignCosts: Record<string, number> = costs.campaignCosts || {}
+
+    return created
+      .map((group: any) => {
+        const source = group.source || 'unknown'
+        const campaign = group.campaign || null
+        const wonGroup = won.find((w: any) => w.source === group.source && w.campaign === group.campaign)
+        const leads = group._count._all
+        const converted = wonGroup?._count._all || 0
+        const revenue = toNumber(wonGroup?._sum.predictedValue)
+        const cost = campaign && campaignCosts[campaign] !== undefined
+          ? Number(campaignCosts[campaign])
+          : sourceCosts[source] !== undefined ? Number(sourceCosts[source]) : null
+
+        return {
+          source,
+          campaign,
+          leads,
+          converted,
+          conversionRate: leads > 0 ? round((converted / leads) * 100, 1) : 0,
+          revenue,
+          cost,
+          roi: cost ? round(((revenue - cost) / cost) * 100, 1) : null,
+          costPerLead: cost !== null && leads > 0 ? round(cost / leads) : null,
+          costPerAcquisition: cost !== null && converted > 0 ? round(cost / converted) : null,
+        }
+      })
+      .sort((a: any, b: any) => b.revenue - a.revenue || b.leads - a.leads)
+  }
+
+  // Rep leaderboard and activity volume
+  async getPerformance(scope: AnalyticsScope, range: DateRange) {
+    const previousRange = previousPeriod(range)
+
+    const [users, assigned, won, activityByUser, activityByType, previousByType, activityByOutcome] = await Promise.all([
+      prisma.user.findMany({
+        where: { organizationId: scope.organizationId, ...(scope.userId && { id: scope.userId }) },
+        select: { id: true, fullName: true, avatarUrl: true, role: true },
+      }),
+      prisma.lead.groupBy({
+        by: ['assignedTo'],
+        where: this.leadWhere(scope, range),
+        _count: { _all: true },
+      }),
+      prisma.lead.groupBy({
+        by: ['assignedTo'],
+        where: { ...this.leadWhere(scope, range, 'updatedAt'), status: 'closed_won' },
+        _count: { _all: true },
+        _sum: { predictedValue: true },
+      }),
+      prisma.activity.groupBy({
+        by: ['userId'],
+        where: this.activityWhere(scope, range),
+        _count: { _all: true },
+      }),
+      prisma.activity.groupBy({
+        by: ['type'],
+        where: this.activityWhere(scope, range),
+        _count: { _all: true },
+      }),
+      prisma.activity.groupBy({
+        by: ['type'],
+        where: this.activityWhere(scope, previousRange),
+        _count: { _all: true },
+      }),
+      prisma.activity.groupBy({
+        by: ['outcome'],
+        where: this.activityWhere(scope, range),
+        _count: { _all: true },
+      }),
+    ])
+
+    const leaderboard = users
+      .map((user: any) => {
+        const leads = assigned.find((a: any) => a.assignedTo === user.id)?._count._all || 0
+        const wonGroup = won.find((w: any) => w.assignedTo === user.id)
+        const conversions = wonGroup?._count._all || 0
+        const activities = activityByUser.find((a: any) => a.userId === user.id)?._count._all || 0
+
+        return {
+          userId: user.id,
+          fullName: user.fullName,
+          avatarUrl: user.avatarUrl,
+          role: user.role,
+          leads,
+          conversions,
+          conversionRate: leads > 0 ? round((conversions / leads) * 100, 1) : 0,
+          revenue: toNumber(wonGroup?._sum.predictedValue),
+          activities,
+        }
+      })
+      .sort((a: any, b: any) => b.revenue - a.revenue || b.conversions - a.conversions || b.activities - a.activities)
+      .map((entry: any, index: number) => ({ rank: index + 1, ...entry }))
+
+    const activityVolume = activityByType
+      .map((group: any) => {
+        const previous = previousByType.find((p: any) => p.type === group.type)?._count._all || 0
+        return {
+          type: group.type,
+          count: group._count._all,
+          previous,
+          change: percentChange(group._count._all, previous),
+        }
+      })
+      .sort((a: any, b: any) => b.count - a.count)
+
+    return {
+      period: range,
+      leaderboard,
+      activityVolume,
+      activityOutcomes: activityByOutcome.map((group: any) => ({
+        outcome: group.outcome || 'UNSPECIFIED',
+        count: group._count._all,
+      })),
+    }
+  }
+
+  // Weighted pipeline and run-rate forecast for the next period of equal length
+  async getForecast(scope: AnalyticsScope, range: DateRange) {
+    const length = range.end.getTime() - range.start.getTime()
+    const history = [0, 1, 2].map(i => ({
+      start: new Date(range.start.getTime() - i * length),
+      end: new Date(range.end.getTime() - i * length),
+    }))
+
+    const [pipeline, ...historical] = await Promise.all([
+      prisma.lead.groupBy({
+        by: ['status'],
+        where: { ...this.leadWhere(scope), status: { in: Object.keys(STAGE_PROBABILITIES) } },
+        _count: { _all: true },
+        _sum: { predictedValue: true },
+      }),
+      ...history.map(period => prisma.lead.aggregate({
+        where: { ...this.leadWhere(scope, period, 'updatedAt'), status: 'closed_won' },
+        _count: { _all: true },
+        _sum: { predictedValue: true },
+      })),
+    ])
+
+    const stages = pipeline.map((group: any) => {
+      const value = toNumber(group._sum.predictedValue)
+      const probability = STAGE_PROBABILITIES[group.status] || 0
+      return {
+        status: group.status,
+        leads: group._count._all,
+        value,
+        probability,
+        weightedValue: round(value * probability),
+      }
+    })
+
+    const weightedPipeline = round(stages.reduce((sum: number, s: any) => sum + s.weightedValue, 0))
+    const periods = historical.map((h: any, i: number) => ({
+      ...history[i],
+      conversions: h._count._all,
+      revenue: toNumber(h._sum.predictedValue),
+    }))
+    const revenues = periods.map(p => p.revenue)
+    const runRate = round(revenues.reduce((a, b) => a + b, 0) / revenues.length)
+
+    return {
+      period: { start: range.end, end: new Date(range.end.getTime() + length) },
+      pipeline: stages,
+      weightedPipeline,
+      history: periods,
+      projection: {
+        revenue: runRate,
+        low: Math.min(...revenues),
+        high: Math.max(...revenues),
+        conversions: round(periods.reduce((sum, p) => sum + p.conversions, 0) / periods.length, 1),
+        pipelineCoverage: runRate > 0 ? round(weightedPipeline / runRate, 2) : null,
+      },
+    }
+  }
+}
+
+// Export singleton instance
+export const pipelineAnalytics = new PipelineAnalytics()
@@ -122,6 +122,7 @@ export interface LeadsFilters {
   status?: LeadStatus
   assignedTo?: string
   minScore?: number
+  tags?: string[]
   sortBy?: string
   sortOrder?: 'asc' | 'desc'
 }
@@ -137,9 +138,127 @@ export interface LeadsResponse {
   filters: LeadsFilters
 }
 
+export interface ExportLeadsOptions {
+  format?: 'csv' | 'xlsx' | 'jsonl'
+  columns?: string[]
+}
+
+export interface ImportLeadsOptions {
+  mapping?: Record<string, string>
+  mappingName?: string
+  saveMappingAs?: string
+  dryRun?: boolean
+  onDuplicate?: 'skip' | 'update' | 'create'
+}
+
+export interface ImportRowError {
+  row: number
+  column?: string
+  field: string
+  value?: string
+  message: string
+}
+
+export interface ImportLeadsResult {
+  message: string
+  dryRun: boolean
+  columns: string[]
+  mapping: Record<string, string>
+  unmappedColumns: string[]
+  totalRows: number
+  imported: number
+  updated: number
+  skipped: number
+  invalid: number
+  errors: ImportRowError[]
+  rows: Array<{
+    row: number
+    status: 'created' | 'updated' | 'skipped' | 'invalid'
+    leadId?: string
+    duplicateOf?: string
+    matchedOn?: 'email' | 'phone' | 'address'
+    assignedTo?: string | null
+    errors: ImportRowError[]
+    data?: Record<string, any>
+  }>
+}
+
+export interface LeadScoreResult {
+  message: string
+  leadId: string
+  scoreId: string
+  score: number
+  confidence: number
+  modelVersion: string
+  previousScore: number | null
+  delta: number | null
+  factors: Array<{
+    factor: 'demographic' | 'behavioral' | 'temporal' | 'conversational'
+    score: number
+    weight: number
+    contribution: number
+    previousScore: number | null
+    delta: number | null
+  }>
+  explanation: string[]
+  recommendations: string[]
+  riskFactors: string[]
+  nextBestActions: string[]
+  scoredAt: string
+}
+
+export interface AdvanceStageResult {
+  message: string
+  lead: Lead
+  pipelineId: string
+  previousStage: string
+  newStage: string
+  previousStatus: LeadStatus
+  newStatus: LeadStatus
+  automations: string[]
+}
+
+export interface LeadStageHistoryEntry {
+  id: string
+  leadId: string
+  pipelineId: string
+  fromStage: string | null
+  toStage: string
+  changedBy?: string
+  enteredAt: string
+  exitedAt?: string
+  durationSeconds?: number
+}
+
+export interface LeadAssignmentEntry {
+  id: string
+  leadId: string
+  assignedTo: string | null
+  previousAssignee: string | null
+  trigger: 'create' | 'import' | 'manual' | 'reassign'
+  ruleId: string | null
+  strategy: 'round_robin' | 'weighted' | 'best_match' | 'default' | 'manual'
+  reasons: string[]
+  assignedBy: string | null
+  createdAt: string
+}
+
+// Stage moves run the pipeline per lead; status and assignment are not bulk-updatable
 export interface BulkUpdateData {
   leadIds: string[]
-  updates: Partial<UpdateLeadData>
+  updates: Pick<UpdateLeadData, 'stage' | 'tags' | 'nextFollowUpAt'> & {
+    source?: string
+    campaign?: string
+    timezone?: string | null
+  }
+}
+
+export interface BulkUpdateResult {
+  message: string
+  updatedCount: number
+  movedCount: number
+  // Leads whose stage move the pipeline refused
+  failed: Array<{ leadId: string; error: string }>
 }
 
 export interface LeadAnalytics {
@@ -253,8 +372,8 @@ export class LeadsAPI {
   }
 
   // Bulk update leads
-  async bulkUpdateLeads(data: BulkUpdateData): Promise<{ message: string; updatedCount: number }> {
-    return this.apiRequest<{ message: string; updatedCount: number }>('/leads/bulk', {
+  async bulkUpdateLeads(data: BulkUpdateData): Promise<BulkUpdateResult> {
+    return this.apiRequest<BulkUpdateResult>('/leads/bulk', {
       method: 'PATCH',
       body: JSON.stringify(data),
     })
@@ -286,7 +405,7 @@ export class LeadsAPI {
   }
 
   // Export leads
-  async exportLeads(filters: LeadsFilters = {}): Promise<Blob> {
+  async exportLeads(filters: LeadsFilters = {}, options: ExportLeadsOptions = {}): Promise<Blob> {
     const queryParams = new URLSearchParams()
     
     Object.entries(filters).forEach(([key, value]) => {
@@ -295,6 +414,9 @@ export class LeadsAPI {
       }
     })
 
+    if (options.format) queryParams.append('format', options.format)
+    if (options.columns?.length) queryParams.append('columns', options.columns.join(','))
+
     const queryString = queryParams.toString()
     const endpoint = `/leads/export${queryString ? `?${queryString}` : ''}`
 
@@ -311,11 +433,17 @@ export class LeadsAPI {
     return response.blob()
   }
 
-  // Import leads
-  async importLeads(file: File): Promise<{ message: string; imported: number; errors: any[] }> {
+  // Import leads (set dryRun to preview the validation report without saving)
+  async importLeads(file: File, options: ImportLeadsOptions = {}): Promise<ImportLeadsResult> {
     const formData = new FormData()
     formData.append('file', file)
 
+    if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping))
+    if (options.mappingName) formData.append('mappingName', options.mappingName)
+    if (options.saveMappingAs) formData.append('saveMappingAs', options.saveMappingAs)
+    if (options.dryRun !== undefined) formData.append('dryRun', String(options.dryRun))
+    if (options.onDuplicate) formData.append('onDuplicate', options.onDuplicate)
+
     const response = await fetch(`${API_BASE_URL}/leads/import`, {
       method: 'POST',
       headers: {
@@ -331,6 +459,52 @@ export class LeadsAPI {
 
     return response.json()
   }
+
+  // Get saved import column mappings
+  async getImportMappings(): Promise<{ mappings: Record<string, { mapping: Record<string, string>; updatedAt: string; updatedBy: string }> }> {
+    return this.apiRequest('/leads/import/mappings')
+  }
+
+  // Save an import column mapping for reuse
+  async saveImportMapping(name: string, mapping: Record<string, string>): Promise<{ message: string }> {
+    return this.apiRequest<{ message: string }>(`/leads/import/mappings/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ mapping }),
+    })
+  }
+
+  // Rescore a lead and get the factor breakdown and change since the last score
+  async scoreLead(id: string): Promise<LeadScoreResult> {
+    return this.apiRequest<LeadScoreResult>(`/leads/${id}/score`, {
+      method: 'POST',
+    })
+  }
+
+  // Move a lead to the next pipeline stage, or to a specific stage
+  async advanceStage(id: string, toStage?: string): Promise<AdvanceStageResult> {
+    return this.apiRequest<AdvanceStageResult>(`/leads/${id}/advance-stage`, {
+      method: 'POST',
+      body: JSON.stringify(toStage ? { toStage } : {}),
+    })
+  }
+
+  // Get the stage history of a lead
+  async getStageHistory(id: string): Promise<{ history: LeadStageHistoryEntry[] }> {
+    return this.apiRequest<{ history: LeadStageHistoryEntry[] }>(`/leads/${id}/stage-history`)
+  }
+
+  // Assign a lead to a rep, or pass null to let the routing rules pick one
+  async assignLead(id: string, assignedTo: string | null): Promise<{ message: string; lead: Lead }> {
+    return this.apiRequest<{ message: string; lead: Lead }>(`/leads/${id}/assign`, {
+      method: 'POST',
+      body: JSON.stringify(assignedTo ? { assignedTo } : { auto: true }),
+    })
+  }
+
+  // Get who a lead was assigned to over time, and why
+  async getAssignmentHistory(id: string): Promise<{ history: LeadAssignmentEntry[] }> {
+    return this.apiRequest<{ history: LeadAssignmentEntry[] }>(`/leads/${id}/assignment-history`)
+  }
 }
 
 // Export singleton instance
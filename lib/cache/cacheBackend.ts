@@ -0,0 +1,120 @@
+// LeadAI Pro - Cache Backends
+// Key/value cache with per-entry TTLs and tag invalidation, in memory or shared through Redis
+
+import { createHash } from 'crypto'
+import { RedisCacheBackend } from './redisCacheBackend'
+
+export interface CacheBackend {
+  readonly name: 'memory' | 'redis'
+  get(key: string): Promise<string | null>
+  // Tags group entries that go stale together, e.g. everything derived from one lead
+  set(key: string, value: string, ttlSeconds: number, tags?: string[]): Promise<void>
+  delete(key: string): Promise<void>
+  // Drop every entry stored with the tag, returning how many there were
+  invalidateTag(tag: string): Promise<number>
+}
+
+interface MemoryEntry {
+  value: string
+  expires: number
+  tags: string[]
+}
+
+// Per-process cache for development, tests and single-instance deployments
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory'
+  private entries: Map<string, MemoryEntry> = new Map()
+  private tags: Map<string, Set<string>> = new Map()
+
+  constructor(private maxEntries: number = 5000) {}
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (Date.now() > entry.expires) {
+      this.remove(key)
+      return null
+    }
+
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    this.remove(key)
+    if (this.entries.size >= this.maxEntries) {
+      this.evict()
+    }
+
+    this.entries.set(key, { value, expires: Date.now() + ttlSeconds * 1000, tags })
+    for (const tag of tags) {
+      if (!this.tags.has(tag)) this.tags.set(tag, new Set())
+      this.tags.get(tag)!.add(key)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key)
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = [...(this.tags.get(tag) || [])]
+    keys.forEach(key => this.remove(key))
+    this.tags.delete(tag)
+    return keys.length
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+
+    this.entries.delete(key)
+    for (const tag of entry.tags) {
+      const keys = this.tags.get(tag)
+      keys?.delete(key)
+      if (keys?.size === 0) this.tags.delete(tag)
+    }
+  }
+
+  // Expired entries first, then the oldest
+  private evict(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expires) this.remove(key)
+    }
+    while (this.entries.size >= this.maxEntries) {
+      this.remove(this.entries.keys().next().value!)
+    }
+  }
+}
+
+// Redis when REDIS_URL is set so replicas share one cache; memory otherwise
+export const createCacheBackend = (url: string | undefined = process.env.REDIS_URL): CacheBackend =>
+  url ? new RedisCacheBackend(url) : new MemoryCacheBackend()
+
+// Stable form of a value for hashing: object keys sorted, whitespace in strings
+// collapsed, undefined fields dropped and dates as ISO strings
+export const normalizeInput = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ')
+  if (Array.isArray(value)) return value.map(item => item === undefined ? null : normalizeInput(item))
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .reduce<Record<string, unknown>>((normalized, key) => {
+        normalized[key] = normalizeInput((value as Record<string, unknown>)[key])
+        return normalized
+      }, {})
+  }
+  return value
+}
+
+export const hashInput = (value: unknown): string =>
+  createHash('sha256').update(JSON.stringify(normalizeInput(value)) ?? 'undefined').digest('hex').slice(0, 40)
+
+export const sharedCache = createCacheBackend()
@@ -0,0 +1,228 @@
+// LeadAI Pro - Redis Cache Backend
+// Shared cache for all replicas, spoken over the Redis protocol (RESP2) to Redis or any compatible server
+
+import net from 'net'
+import tls from 'tls'
+import type { CacheBackend } from './cacheBackend'
+
+type RedisReply = string | number | null | RedisReply[]
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RedisError'
+  }
+}
+
+const encodeCommand = (args: Array<string | number>): string =>
+  `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`).join('')
+
+// One reply starting at `start`, or null when the buffer does not hold all of it yet
+const parseReply = (buffer: Buffer, start: number): { reply: RedisReply | RedisError; end: number } | null => {
+  const lineEnd = buffer.indexOf('\r\n', start)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[start])
+  const line = buffer.toString('utf8', start + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { reply: line, end: next }
+    case '-':
+      return { reply: new RedisError(line), end: next }
+    case ':':
+      return { reply: Number(line), end: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { reply: null, end: next }
+      if (buffer.length < next + length + 2) return null
+      return { reply: buffer.toString('utf8', next, next + length), end: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { reply: null, end: next }
+
+      const items: RedisReply[] = []
+      let offset = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset)
+        if (!item) return null
+        if (item.reply instanceof RedisError) return { reply: item.reply, end: item.end }
+        items.push(item.reply)
+        offset = item.end
+      }
+      return { reply: items, end: offset }
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`)
+  }
+}
+
+// A single lazily opened connection. Commands are pipelined and Redis answers them in order.
+export class RedisConnection {
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private pending: Array<{ resolve: (reply: RedisReply) => void; reject: (error: Error) => void }> = []
+  private buffer = Buffer.alloc(0)
+
+  constructor(private url: URL, private timeoutMs: number = 2000) {}
+
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect()
+    return this.send(socket, args)
+  }
+
+  close(): void {
+    this.reset(new RedisError('Connection closed'))
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private open(): Promise<net.Socket> {
+    const host = this.url.hostname
+    const port = Number(this.url.port) || 6379
+    const secure = this.url.protocol === 'rediss:'
+
+    return new Promise((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+      // A cache connection must never keep the process alive
+      socket.unref()
+      socket.setTimeout(this.timeoutMs)
+
+      const failConnect = (error: Error) => {
+        socket.destroy()
+        reject(error)
+      }
+      socket.once('error', failConnect)
+      socket.on('timeout', () => {
+        if (this.pending.length > 0 || !this.socket) {
+          socket.destroy(new RedisError(`Redis did not answer within ${this.timeoutMs}ms`))
+        }
+      })
+
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        socket.off('error', failConnect)
+        socket.on('data', chunk => this.receive(chunk))
+        socket.on('error', error => this.reset(error))
+        socket.on('close', () => this.reset(new RedisError('Connection closed')))
+
+        try {
+          const username = decodeURIComponent(this.url.username)
+          const password = decodeURIComponent(this.url.password)
+          if (password) {
+            await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+          }
+          const database = this.url.pathname.replace('/', '')
+          if (database) {
+            await this.send(socket, ['SELECT', database])
+          }
+        } catch (error) {
+          socket.destroy()
+          reject(error)
+          return
+        }
+
+        this.socket = socket
+        resolve(socket)
+      })
+    })
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    try {
+      let parsed = parseReply(this.buffer, 0)
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.end)
+        const command = this.pending.shift()
+        if (parsed.reply instanceof RedisError) {
+          command?.reject(parsed.reply)
+        } else {
+          command?.resolve(parsed.reply)
+        }
+        parsed = this.buffer.length > 0 ? parseReply(this.buffer, 0) : null
+      }
+    } catch (error) {
+      this.reset(error as Error)
+    }
+  }
+
+  private reset(error: Error): void {
+    const socket = this.socket
+    this.socket = null
+    this.buffer = Buffer.alloc(0)
+    socket?.destroy()
+
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(command => command.reject(error))
+  }
+}
+
+// Tag sets outlive the entries they list; deleting an entry that already expired is harmless
+const TAG_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis'
+  private connection: RedisConnection
+
+  constructor(url: string, private prefix: string = 'leadai:') {
+    this.connection = new RedisConnection(new URL(url), Number(process.env.REDIS_TIMEOUT_MS) || 2000)
+  }
+
+  async get(key: string): Promise<string | null> {
+    const reply = await this.connection.command('GET', this.prefix + key)
+    return typeof reply === 'string' ? reply : null
+  }
+
+  async set(key: string, value: string, ttlSeconds: number, tags: string[] = []): Promise<void> {
+    const ttl = Math.max(1, Math.ceil(ttlSeconds))
+    await Promise.all([
+      this.connection.command('SET', this.prefix + key, value, 'EX', ttl),
+      ...tags.flatMap(tag => [
+        this.connection.command('SADD', this.tagKey(tag), this.prefix + key),
+        this.connection.command('EXPIRE', this.tagKey(tag), Math.max(ttl, TAG_TTL_SECONDS)),
+      ]),
+    ])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command('DEL', this.prefix + key)
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const members = await this.connection.command('SMEMBERS', this.tagKey(tag))
+    const keys = Array.isArray(members) ? members.map(String) : []
+
+    const [deleted] = await Promise.all([
+      keys.length > 0 ? this.connection.command('DEL', ...keys) : Promise.resolve(0),
+      this.connection.command('DEL', this.tagKey(tag)),
+    ])
+    return Number(deleted)
+  }
+
+  close(): void {
+    this.connection.close()
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`
+  }
+}
@@ -0,0 +1,334 @@
+// LeadAI Pro - Call Session Service
+// Persisted calls through their status lifecycle, the rep's disposition form and recording analysis
+
+import { prisma, db } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import type { ActivityOutcomeValue } from '../activities/activityTypes'
+import type { DialStatus } from './telephony'
+
+export const CALL_STATUSES = ['INITIATED', 'RINGING', 'CONNECTED', 'COMPLETED', 'FAILED', 'NO_ANSWER', 'BUSY', 'BLOCKED'] as const
+export type CallStatusValue = typeof CALL_STATUSES[number]
+
+export const CALL_OUTCOMES = [
+  'SUCCESSFUL', 'NO_ANSWER', 'BUSY', 'VOICEMAIL', 'WRONG_NUMBER',
+  'INTERESTED', 'NOT_INTERESTED', 'CALLBACK_REQUESTED', 'MEETING_SCHEDULED',
+] as const
+export type CallOutcomeValue = typeof CALL_OUTCOMES[number]
+
+export const FINAL_CALL_STATUSES: CallStatusValue[] = ['COMPLETED', 'FAILED', 'NO_ANSWER', 'BUSY', 'BLOCKED']
+
+// A call only moves forward; provider callbacks arriving late or out of order are ignored
+const STATUS_RANK: Record<CallStatusValue, number> = {
+  INITIATED: 0,
+  RINGING: 1,
+  CONNECTED: 2,
+  COMPLETED: 3,
+  FAILED: 3,
+  NO_ANSWER: 3,
+  BUSY: 3,
+  BLOCKED: 3,
+}
+
+export const canTransition = (from: CallStatusValue, to: CallStatusValue): boolean =>
+  !FINAL_CALL_STATUSES.includes(from) && STATUS_RANK[to] > STATUS_RANK[from]
+
+export const CALL_STATUS_BY_DIAL: Record<DialStatus, CallStatusValue> = {
+  queued: 'INITIATED',
+  ringing: 'RINGING',
+  in_progress: 'CONNECTED',
+  completed: 'COMPLETED',
+  busy: 'BUSY',
+  no_answer: 'NO_ANSWER',
+  failed: 'FAILED',
+}
+
+const ACTIVITY_OUTCOME_BY_CALL: Record<CallOutcomeValue, ActivityOutcomeValue> = {
+  SUCCESSFUL: 'COMPLETED',
+  NO_ANSWER: 'NO_ANSWER',
+  BUSY: 'BUSY',
+  VOICEMAIL: 'VOICEMAIL',
+  WRONG_NUMBER: 'COMPLETED',
+  INTERESTED: 'COMPLETED',
+  NOT_INTERESTED: 'COMPLETED',
+  CALLBACK_REQUESTED: 'RESCHEDULED',
+  MEETING_SCHEDULED: 'COMPLETED',
+}
+
+// Error raised for requests on missing calls or ones in the wrong state
+export class CallSessionError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state') {
+    super(message)
+    this.name = 'CallSessionError'
+  }
+}
+
+export interface CallSessionRecord {
+  id: string
+  leadId: string
+  userId: string
+  phoneNumber: string
+  direction: 'INBOUND' | 'OUTBOUND'
+  status: CallStatusValue
+  statusReason: string | null
+  outcome: CallOutcomeValue | null
+  scriptId: string | null
+  provider: string | null
+  providerCallId: string | null
+  startedAt: Date | null
+  endedAt: Date | null
+  duration: number | null
+  recordingUrl: string | null
+  transcript: string | null
+  sentiment: number | null
+  coachingScore: number | null
+  keyMoments: any[]
+  actionItems: string[]
+  analyzedAt: Date | null
+  notes: string | null
+  followUpRequired: boolean
+  dispositionedAt: Date | null
+  activityId: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CallSessionInput {
+  leadId: string
+  // Defaults to the lead's phone number
+  phoneNumber?: string
+  direction?: 'INBOUND' | 'OUTBOUND'
+  scriptId?: string
+}
+
+export interface CallStatusDetails {
+  at?: Date
+  durationSeconds?: number
+  recordingUrl?: string
+  reason?: string
+}
+
+export interface DispositionInput {
+  outcome: CallOutcomeValue
+  notes?: string
+  // Schedules a follow-up task for the rep
+  followUpAt?: string | Date
+  // For calls dialed outside the system, when no provider reported it
+  durationSeconds?: number
+}
+
+export interface CallAnalysisInput {
+  transcript: string
+  sentiment?: number
+  coachingScore?: number
+  keyMoments?: any[]
+  actionItems?: string[]
+}
+
+export const validateDisposition = (input: Partial<DispositionInput>): string[] => {
+  const errors: string[] = []
+
+  if (!CALL_OUTCOMES.includes(input?.outcome as CallOutcomeValue)) {
+    errors.push(`outcome must be one of: ${CALL_OUTCOMES.join(', ')}`)
+  }
+  if (input?.notes !== undefined && (typeof input.notes !== 'string' || input.notes.length > 5000)) {
+    errors.push('notes must be text of at most 5000 characters')
+  }
+  if (input?.followUpAt !== undefined && Number.isNaN(new Date(input.followUpAt).getTime())) {
+    errors.push('followUpAt must be a date')
+  }
+  if (input?.durationSeconds !== undefined && !(Number.isInteger(input.durationSeconds) && input.durationSeconds >= 0)) {
+    errors.push('durationSeconds must be a whole number of seconds')
+  }
+
+  return errors
+}
+
+export class CallSessionService {
+  constructor(private clock: Clock = systemClock) {}
+
+  async create(organizationId: string, userId: string, input: CallSessionInput): Promise<CallSessionRecord> {
+    const lead = await prisma.lead.findFirst({
+      where: { id: input.leadId, organizationId },
+      select: { id: true, phone: true },
+    })
+    if (!lead) {
+      throw new CallSessionError('Lead not found', 'not_found')
+    }
+
+    const phoneNumber = input.phoneNumber || lead.phone
+    if (!phoneNumber) {
+      throw new CallSessionError('Lead has no phone number', 'invalid_state')
+    }
+
+    return prisma.callSession.create({
+      data: {
+        leadId: lead.id,
+        userId,
+        phoneNumber,
+        direction: (input.direction || 'OUTBOUND') as any,
+        status: 'INITIATED' as any,
+        scriptId: input.scriptId,
+      },
+    })
+  }
+
+  async get(organizationId: string, id: string): Promise<CallSessionRecord | null> {
+    return prisma.callSession.findFirst({ where: { id, lead: { organizationId } } })
+  }
+
+  async list(
+    organizationId: string,
+    filter: { leadId?: string; userId?: string; status?: CallStatusValue; limit?: number; offset?: number } = {}
+  ): Promise<{ sessions: CallSessionRecord[]; total: number }> {
+    const where = {
+      lead: { organizationId },
+      ...(filter.leadId && { leadId: filter.leadId }),
+      ...(filter.userId && { userId: filter.userId }),
+      ...(filter.status && { status: filter.status as any }),
+    }
+    const [sessions, total] = await Promise.all([
+      prisma.callSession.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(filter.limit || 50, 200),
+        skip: filter.offset || 0,
+      }),
+      prisma.callSession.count({ where }),
+    ])
+    return { sessions, total }
+  }
+
+  async findByProviderCallId(providerCallId: string): Promise<CallSessionRecord | null> {
+    return prisma.callSession.findUnique({ where: { providerCallId } })
+  }
+
+  async attachProvider(id: string, provider: string, providerCallId: string): Promise<void> {
+    await prisma.callSession.update({ where: { id }, data: { provider, providerCallId } })
+  }
+
+  async setRecording(id: string, recordingUrl: string): Promise<void> {
+    await prisma.callSession.update({ where: { id }, data: { recordingUrl } })
+  }
+
+  // Move the call along its lifecycle; false when the change would go backwards or the call
+  // already ended
+  async updateStatus(id: string, status: CallStatusValue, details: CallStatusDetails = {}): Promise<boolean> {
+    const current = await prisma.callSession.findUnique({
+      where: { id },
+      select: { status: true, startedAt: true },
+    })
+    if (!current || !canTransition(current.status, status)) return false
+
+    const at = details.at || this.clock.now()
+    const final = FINAL_CALL_STATUSES.includes(status)
+    // A call reported only once it completed started `duration` seconds earlier
+    const connectedAt = status === 'CONNECTED' ? at
+      : status === 'COMPLETED' && details.durationSeconds ? new Date(at.getTime() - details.durationSeconds * 1000) : null
+
+    // Guarded on the status read above, so two callbacks racing cannot both apply
+    const { count } = await prisma.callSession.updateMany({
+      where: { id, status: current.status },
+      data: {
+        status: status as any,
+        ...(connectedAt && !current.startedAt && { startedAt: connectedAt }),
+        ...(final && { endedAt: at }),
+        ...(details.durationSeconds !== undefined && { duration: details.durationSeconds }),
+        ...(details.recordingUrl && { recordingUrl: details.recordingUrl }),
+        ...(details.reason && { statusReason: details.reason.slice(0, 500) }),
+      },
+    })
+    return count === 1
+  }
+
+  // The rep's disposition form: sets the outcome and logs a CALL activity (plus a follow-up
+  // task when one is asked for). A call gets one disposition.
+  async recordDisposition(organizationId: string, id: string, input: DispositionInput, userId: string): Promise<CallSessionRecord> {
+    const session = await this.get(organizationId, id)
+    if (!session) {
+      throw new CallSessionError('Call not found', 'not_found')
+    }
+    if (session.status === 'BLOCKED') {
+      throw new CallSessionError('Call was not placed', 'invalid_state')
+    }
+
+    // Claim the disposition before logging anything, so a double-submitted form can't create the
+    // call activity and call-back task twice. One transaction: if any write fails, nothing is
+    // logged and the rep can submit again.
+    const now = this.clock.now()
+    return prisma.$transaction(async (tx: any) => {
+      const claim = await tx.callSession.updateMany({
+        where: { id: session.id, dispositionedAt: null },
+        data: { dispositionedAt: now },
+      })
+      if (claim.count === 0) {
+        throw new CallSessionError('Call already has a disposition', 'invalid_state')
+      }
+
+      return this.completeDisposition(tx, session, input, userId, now)
+    })
+  }
+
+  private async completeDisposition(tx: any, session: CallSessionRecord, input: DispositionInput, userId: string, now: Date): Promise<CallSessionRecord> {
+    const duration = session.duration ?? input.durationSeconds
+    const activity = await db.activity.createWithAnalysis({
+      leadId: session.leadId,
+      userId,
+      type: 'CALL',
+      subject: `Call: ${input.outcome.toLowerCase().replace(/_/g, ' ')}`,
+      description: input.notes,
+      outcome: ACTIVITY_OUTCOME_BY_CALL[input.outcome],
+      scheduledAt: session.startedAt || session.createdAt,
+      completedAt: session.endedAt || now,
+      ...(duration !== undefined && duration !== null && { durationMinutes: Math.ceil(duration / 60) }),
+      ...(session.sentiment !== null && { sentimentScore: session.sentiment }),
+      metadata: { callSessionId: session.id, callOutcome: input.outcome },
+    }, { tx })
+
+    const followUpAt = input.followUpAt ? new Date(input.followUpAt) : null
+    if (followUpAt) {
+      await db.activity.createWithAnalysis({
+        leadId: session.leadId,
+        userId,
+        type: 'TASK',
+        subject: 'Call back',
+        description: input.notes,
+        scheduledAt: followUpAt,
+        metadata: { callSessionId: session.id },
+      }, { tx })
+    }
+
+    // Webhooks may not have ended a call the rep has already hung up
+    const endStatus: CallStatusValue = input.outcome === 'NO_ANSWER' ? 'NO_ANSWER' : input.outcome === 'BUSY' ? 'BUSY' : 'COMPLETED'
+    const ending = !FINAL_CALL_STATUSES.includes(session.status)
+
+    return tx.callSession.update({
+      where: { id: session.id },
+      data: {
+        outcome: input.outcome as any,
+        notes: input.notes,
+        followUpRequired: Boolean(followUpAt) || input.outcome === 'CALLBACK_REQUESTED',
+        dispositionedAt: now,
+        activityId: activity.id,
+        ...(ending && { status: endStatus as any, endedAt: now }),
+        ...(session.duration === null && input.durationSeconds !== undefined && { duration: input.durationSeconds }),
+      },
+    })
+  }
+
+  async attachAnalysis(id: string, recordingUrl: string | null, analysis: CallAnalysisInput): Promise<CallSessionRecord> {
+    return prisma.callSession.update({
+      where: { id },
+      data: {
+        ...(recordingUrl && { recordingUrl }),
+        transcript: analysis.transcript,
+        ...(analysis.sentiment !== undefined && { sentiment: analysis.sentiment }),
+        ...(analysis.coachingScore !== undefined && { coachingScore: analysis.coachingScore }),
+        ...(analysis.keyMoments && { keyMoments: analysis.keyMoments }),
+        ...(analysis.actionItems && { actionItems: analysis.actionItems }),
+        analyzedAt: this.clock.now(),
+      },
+    })
+  }
+}
+
+export const callSessionService = new CallSessionService()
@@ -0,0 +1,191 @@
+// LeadAI Pro - Telephony Providers
+// Outbound calls through Twilio, or a simulated provider for tests and local development
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+
+export type TelephonyProviderName = 'twilio' | 'simulated'
+
+// Provider call states, in the order a call moves through them
+export type DialStatus = 'queued' | 'ringing' | 'in_progress' | 'completed' | 'busy' | 'no_answer' | 'failed'
+
+export interface DialRequest {
+  // Our CallSession id
+  sessionId: string
+  to: string
+  record: boolean
+  // Where the provider reports status changes and finished recordings
+  statusCallbackUrl?: string
+  recordingCallbackUrl?: string
+}
+
+export interface DialResult {
+  providerCallId: string
+  status: DialStatus
+  // Known when the provider finished the call before returning (the simulated one does)
+  durationSeconds?: number
+  recordingUrl?: string
+}
+
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName
+  dial(request: DialRequest): Promise<DialResult>
+  hangup(providerCallId: string): Promise<void>
+}
+
+// permanent: the number or request was refused and dialing again won't help
+export class TelephonyError extends Error {
+  constructor(
+    message: string,
+    public provider: TelephonyProviderName,
+    public permanent: boolean = false
+  ) {
+    super(message)
+    this.name = 'TelephonyError'
+  }
+}
+
+// Twilio CallStatus values (status callbacks and the REST API)
+const TWILIO_STATUSES: Record<string, DialStatus> = {
+  queued: 'queued',
+  initiated: 'queued',
+  ringing: 'ringing',
+  'in-progress': 'in_progress',
+  answered: 'in_progress',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no_answer',
+  failed: 'failed',
+  canceled: 'failed',
+}
+
+export const parseTwilioCallStatus = (status: string | undefined): DialStatus | null =>
+  TWILIO_STATUSES[String(status || '').toLowerCase()] || null
+
+// Twilio signs the full webhook URL followed by the sorted form fields
+export const twilioSignature = (url: string, params: Record<string, any>, authToken: string): string =>
+  createHmac('sha1', authToken)
+    .update(url + Object.keys(params).sort().map(key => key + params[key]).join(''))
+    .digest('base64')
+
+export const verifyTwilioSignature = (url: string, params: Record<string, any>, given: string, authToken: string): boolean => {
+  const expected = twilioSignature(url, params, authToken)
+  return given.length === expected.length && timingSafeEqual(Buffer.from(given), Buffer.from(expected))
+}
+
+export interface TwilioOptions {
+  accountSid: string
+  authToken: string
+  fromNumber: string
+  // TwiML the call runs once answered, e.g. bridging it to the rep
+  twimlUrl: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+// Twilio Programmable Voice REST API
+export class TwilioTelephonyProvider implements TelephonyProvider {
+  readonly name = 'twilio'
+  private baseUrl: string
+
+  constructor(private options: TwilioOptions) {
+    this.baseUrl = `${(options.baseUrl || 'https://api.twilio.com').replace(/\/+$/, '')}/2010-04-01/Accounts/${options.accountSid}`
+  }
+
+  async dial(request: DialRequest): Promise<DialResult> {
+    const form = new URLSearchParams({ To: request.to, From: this.options.fromNumber, Url: this.options.twimlUrl })
+    if (request.record) form.set('Record', 'true')
+    if (request.statusCallbackUrl) {
+      form.set('StatusCallback', request.statusCallbackUrl)
+      for (const event of ['initiated', 'ringing', 'answered', 'completed']) form.append('StatusCallbackEvent', event)
+    }
+    if (request.record && request.recordingCallbackUrl) {
+      form.set('RecordingStatusCallback', request.recordingCallbackUrl)
+    }
+
+    const call = await this.request('/Calls.json', form)
+    return { providerCallId: call.sid, status: parseTwilioCallStatus(call.status) || 'queued' }
+  }
+
+  async hangup(providerCallId: string): Promise<void> {
+    await this.request(`/Calls/${encodeURIComponent(providerCallId)}.json`, new URLSearchParams({ Status: 'completed' }))
+  }
+
+  private async request(path: string, form: URLSearchParams): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${Buffer.from(`${this.options.accountSid}:${this.options.authToken}`).toString('base64')}`,
+      },
+      body: form.toString(),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 15000),
+    }).catch(error => {
+      throw new TelephonyError(`Twilio request failed: ${error.message}`, this.name)
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      // 4xx other than rate limiting means the request itself was refused (e.g. an invalid number)
+      const permanent = response.status >= 400 && response.status < 500 && response.status !== 429
+      throw new TelephonyError(`Twilio returned ${response.status}: ${body?.message || response.statusText}`, this.name, permanent)
+    }
+    return body
+  }
+}
+
+// Finishes every call at once with a scripted result; records what was dialed
+export class SimulatedTelephonyProvider implements TelephonyProvider {
+  readonly name = 'simulated'
+  readonly dialed: DialRequest[] = []
+  readonly hungUp: string[] = []
+
+  constructor(private script: (request: DialRequest) => Partial<DialResult> = () => ({})) {}
+
+  async dial(request: DialRequest): Promise<DialResult> {
+    this.dialed.push(request)
+    return { providerCallId: `sim-${randomUUID()}`, status: 'completed', durationSeconds: 60, ...this.script(request) }
+  }
+
+  async hangup(providerCallId: string): Promise<void> {
+    this.hungUp.push(providerCallId)
+  }
+}
+
+export interface TelephonyConfig {
+  provider?: TelephonyProviderName
+  accountSid?: string
+  authToken?: string
+  fromNumber?: string
+  twimlUrl?: string
+  // Public URL Twilio reaches this server on, for status and recording callbacks
+  webhookBaseUrl?: string
+}
+
+// TELEPHONY_PROVIDER picks the provider; without one, calls are simulated
+export const telephonyConfig = (): TelephonyConfig => ({
+  provider: process.env.TELEPHONY_PROVIDER as TelephonyProviderName | undefined,
+  accountSid: process.env.TWILIO_ACCOUNT_SID,
+  authToken: process.env.TWILIO_AUTH_TOKEN,
+  fromNumber: process.env.TWILIO_FROM_NUMBER,
+  twimlUrl: process.env.TWILIO_TWIML_URL,
+  webhookBaseUrl: process.env.TWILIO_WEBHOOK_BASE_URL,
+})
+
+export const createTelephonyProvider = (config: TelephonyConfig = telephonyConfig()): TelephonyProvider => {
+  switch (config.provider || 'simulated') {
+    case 'twilio':
+      if (!config.accountSid || !config.authToken || !config.fromNumber || !config.twimlUrl) {
+        throw new Error('Twilio needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER and TWILIO_TWIML_URL')
+      }
+      return new TwilioTelephonyProvider({
+        accountSid: config.accountSid,
+        authToken: config.authToken,
+        fromNumber: config.fromNumber,
+        twimlUrl: config.twimlUrl,
+      })
+    case 'simulated':
+      return new SimulatedTelephonyProvider()
+    default:
+      throw new Error(`Unknown TELEPHONY_PROVIDER: ${config.provider}`)
+  }
+}
@@ -0,0 +1,130 @@
+// LeadAI Pro - Call Transcription
+// Turns call recordings into text with a Whisper-compatible speech-to-text API
+
+export type TranscriberName = 'openai' | 'none'
+
+export interface Transcript {
+  text: string
+  language?: string
+  durationSeconds?: number
+}
+
+export interface Transcriber {
+  readonly name: TranscriberName
+  transcribe(recordingUrl: string): Promise<Transcript>
+}
+
+// permanent: the recording cannot be transcribed however often it is retried
+export class TranscriptionError extends Error {
+  constructor(message: string, public permanent: boolean = false) {
+    super(message)
+    this.name = 'TranscriptionError'
+  }
+}
+
+export interface HttpTranscriberOptions {
+  apiKey: string
+  // OpenAI or a compatible server (e.g. a local whisper.cpp)
+  baseUrl?: string
+  model?: string
+  // Credentials for downloading recordings from one host; Twilio recordings need the account's
+  recordingAuth?: { host: string; username: string; password: string }
+  timeoutMs?: number
+}
+
+// Downloads the recording and posts it to /audio/transcriptions
+export class HttpTranscriber implements Transcriber {
+  readonly name = 'openai'
+  private baseUrl: string
+
+  constructor(private options: HttpTranscriberOptions) {
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  }
+
+  async transcribe(recordingUrl: string): Promise<Transcript> {
+    const timeout = this.options.timeoutMs || 120000
+    const auth = this.options.recordingAuth
+    const useAuth = auth && new URL(recordingUrl).hostname === auth.host
+    const recording = await fetch(recordingUrl, {
+      headers: useAuth ? { Authorization: `Basic ${Buffer.from(`${auth!.username}:${auth!.password}`).toString('base64')}` } : {},
+      signal: AbortSignal.timeout(timeout),
+    }).catch(error => {
+      throw new TranscriptionError(`Recording download failed: ${error.message}`)
+    })
+    if (!recording.ok) {
+      throw new TranscriptionError(`Recording download returned ${recording.status}`, recording.status === 404)
+    }
+
+    const form = new FormData()
+    form.append('file', new Blob([await recording.arrayBuffer()], { type: recording.headers.get('content-type') || 'audio/mpeg' }), 'recording.mp3')
+    form.append('model', this.options.model || 'whisper-1')
+    form.append('response_format', 'verbose_json')
+
+    const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.options.apiKey}` },
+      body: form,
+      signal: AbortSignal.timeout(timeout),
+    }).catch(error => {
+      throw new TranscriptionError(`Transcription request failed: ${error.message}`)
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      const permanent = response.status >= 400 && response.status < 500 && response.status !== 429
+      throw new TranscriptionError(`Transcription API returned ${response.status}: ${body?.error?.message || response.statusText}`, permanent)
+    }
+
+    return {
+      text: String(body.text || '').trim(),
+      ...(body.language && { language: body.language }),
+      ...(typeof body.duration === 'number' && { durationSeconds: Math.round(body.duration) }),
+    }
+  }
+}
+
+// Recordings are kept but not transcribed; transcripts can still be supplied with the recording
+export class NoTranscriber implements Transcriber {
+  readonly name = 'none'
+
+  async transcribe(): Promise<Transcript> {
+    throw new TranscriptionError('No transcription provider is configured (TRANSCRIPTION_PROVIDER)', true)
+  }
+}
+
+export interface TranscriptionConfig {
+  provider?: TranscriberName
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+  twilioAccountSid?: string
+  twilioAuthToken?: string
+}
+
+export const transcriptionConfig = (): TranscriptionConfig => ({
+  provider: process.env.TRANSCRIPTION_PROVIDER as TranscriberName | undefined,
+  apiKey: process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY,
+  baseUrl: process.env.TRANSCRIPTION_BASE_URL,
+  model: process.env.TRANSCRIPTION_MODEL,
+  twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
+  twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
+})
+
+export const createTranscriber = (config: TranscriptionConfig = transcriptionConfig()): Transcriber => {
+  switch (config.provider || 'none') {
+    case 'openai':
+      if (!config.apiKey) throw new Error('TRANSCRIPTION_API_KEY is not configured')
+      return new HttpTranscriber({
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        model: config.model,
+        ...(config.twilioAccountSid && config.twilioAuthToken && {
+          recordingAuth: { host: 'api.twilio.com', username: config.twilioAccountSid, password: config.twilioAuthToken },
+        }),
+      })
+    case 'none':
+      return new NoTranscriber()
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${config.provider}`)
+  }
+}
@@ -0,0 +1,208 @@
+// LeadAI Pro - Compliance Guard
+// The check every outbound email, text and call goes through: suppressions, consent and quiet hours
+
+import { prisma } from '../database'
+import { Clock, systemClock, isValidTimeZone } from '../followUps/followUpSchedule'
+import { SuppressionChannel, SuppressionList, suppressionList } from './suppressionList'
+import { ConsentLedger, ConsentSource, consentLedger } from './consentLedger'
+import { QuietHours, isValidClockTime, nextAllowedTime } from './quietHours'
+
+export interface ComplianceSettings {
+  // Channels that need granted consent on record before anyone is contacted (TCPA)
+  requireConsent: SuppressionChannel[]
+  // Applies to texts and calls, in the lead's local time
+  quietHours: QuietHours
+  // Used when the lead's time zone is unknown: it has to be outside quiet hours in all of them
+  fallbackTimeZones: string[]
+  // Sender's postal address for the email footer (CAN-SPAM)
+  postalAddress?: string
+  updatedAt?: string
+  updatedBy?: string
+}
+
+export const DEFAULT_COMPLIANCE_SETTINGS: ComplianceSettings = {
+  requireConsent: ['sms', 'call'],
+  quietHours: { enabled: true, start: '21:00', end: '08:00' },
+  fallbackTimeZones: ['America/New_York', 'America/Los_Angeles'],
+}
+
+const QUIET_HOURS_CHANNELS: SuppressionChannel[] = ['sms', 'call']
+
+export type ComplianceBlockReason = 'suppressed' | 'consent_revoked' | 'no_consent' | 'quiet_hours'
+
+export interface ComplianceDecision {
+  allowed: boolean
+  reason?: ComplianceBlockReason
+  detail?: string
+  // Quiet hours only: when the contact may be reached
+  retryAt?: Date
+}
+
+export interface ContactTarget {
+  channel: SuppressionChannel
+  // Email address or phone number
+  to: string
+  leadId?: string | null
+  // The lead's time zone, when the caller already has it
+  timeZone?: string | null
+}
+
+export const validateComplianceSettings = (settings: Partial<ComplianceSettings>): string[] => {
+  const errors: string[] = []
+
+  if (settings.requireConsent !== undefined &&
+    (!Array.isArray(settings.requireConsent) || settings.requireConsent.some(c => !['email', 'sms', 'call'].includes(c)))) {
+    errors.push('requireConsent must list channels from: email, sms, call')
+  }
+  if (settings.quietHours !== undefined &&
+    (typeof settings.quietHours?.enabled !== 'boolean' || !isValidClockTime(settings.quietHours.start) || !isValidClockTime(settings.quietHours.end))) {
+    errors.push('quietHours needs enabled, and start and end as HH:MM')
+  }
+  if (settings.fallbackTimeZones !== undefined &&
+    (!Array.isArray(settings.fallbackTimeZones) || settings.fallbackTimeZones.length === 0 || !settings.fallbackTimeZones.every(isValidTimeZone))) {
+    errors.push('fallbackTimeZones must be a list of IANA time zones')
+  }
+
+  return errors
+}
+
+// Raised by outbound channels that refuse to contact someone
+export class ComplianceBlockedError extends Error {
+  constructor(public decision: ComplianceDecision) {
+    super(decision.detail || 'Contact is not allowed')
+    this.name = 'ComplianceBlockedError'
+  }
+}
+
+export class ComplianceGuard {
+  constructor(
+    private clock: Clock = systemClock,
+    private suppressions: SuppressionList = suppressionList,
+    private consent: ConsentLedger = consentLedger
+  ) {}
+
+  async getSettings(organizationId: string): Promise<ComplianceSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const stored = (organization?.settings as any)?.compliance
+    return stored ? { ...DEFAULT_COMPLIANCE_SETTINGS, ...stored } : DEFAULT_COMPLIANCE_SETTINGS
+  }
+
+  async saveSettings(organizationId: string, changes: Partial<ComplianceSettings>, userId: string): Promise<ComplianceSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const settings = (organization?.settings as any) || {}
+    const stored: ComplianceSettings = {
+      ...DEFAULT_COMPLIANCE_SETTINGS,
+      ...settings.compliance,
+      ...changes,
+      updatedAt: this.clock.now().toISOString(),
+      updatedBy: userId,
+    }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { settings: { ...settings, compliance: stored } },
+    })
+
+    return stored
+  }
+
+  // Whether the contact may be reached on the channel right now. Pass the settings when
+  // checking many contacts of one organization.
+  async check(organizationId: string, target: ContactTarget, settings?: ComplianceSettings): Promise<ComplianceDecision> {
+    const config = settings || await this.getSettings(organizationId)
+
+    const suppression = await this.suppressions.find(organizationId, target.channel, target.to)
+    if (suppression) {
+      return { allowed: false, reason: 'suppressed', detail: `On the suppression list (${suppression.reason})` }
+    }
+
+    const consent = await this.consent.current(organizationId, target.channel, target.to)
+    if (consent?.status === 'revoked') {
+      return { allowed: false, reason: 'consent_revoked', detail: `Consent revoked (${consent.source})` }
+    }
+    if (config.requireConsent.includes(target.channel) && consent?.status !== 'granted') {
+      return { allowed: false, reason: 'no_consent', detail: `No ${target.channel} consent on record` }
+    }
+
+    if (QUIET_HOURS_CHANNELS.includes(target.channel) && config.quietHours.enabled) {
+      const now = this.clock.now()
+      const zones = await this.timeZonesFor(target, config)
+      const retryAt = nextAllowedTime(now, zones, config.quietHours)
+      if (retryAt > now) {
+        return {
+          allowed: false,
+          reason: 'quiet_hours',
+          detail: `Quiet hours (${config.quietHours.start}-${config.quietHours.end} in ${zones.join(', ')})`,
+          retryAt,
+        }
+      }
+    }
+
+    return { allowed: true }
+  }
+
+  // Throws ComplianceBlockedError unless the contact may be reached
+  async assertAllowed(organizationId: string, target: ContactTarget, settings?: ComplianceSettings): Promise<void> {
+    const decision = await this.check(organizationId, target, settings)
+    if (!decision.allowed) throw new ComplianceBlockedError(decision)
+  }
+
+  // The contact asked not to be contacted on the channel again (STOP, unsubscribe link)
+  async optOut(
+    organizationId: string,
+    target: { channel: SuppressionChannel; to: string; leadId?: string | null },
+    source: ConsentSource,
+    evidence: Record<string, any> = {}
+  ): Promise<void> {
+    await this.suppressions.add(organizationId, target.channel, target.to, source === 'sms_keyword' ? 'stop_keyword' : 'unsubscribe', source)
+    await this.consent.record(organizationId, {
+      channel: target.channel,
+      value: target.to,
+      leadId: target.leadId || undefined,
+      status: 'revoked',
+      source,
+      evidence,
+      recordedAt: this.clock.now(),
+    })
+  }
+
+  // The contact opted back in (START); their own opt-out is lifted, DNC entries stay
+  async optIn(
+    organizationId: string,
+    target: { channel: SuppressionChannel; to: string; leadId?: string | null },
+    source: ConsentSource,
+    evidence: Record<string, any> = {}
+  ): Promise<void> {
+    await this.suppressions.lift(organizationId, target.channel, target.to, ['stop_keyword', 'unsubscribe'])
+    await this.consent.record(organizationId, {
+      channel: target.channel,
+      value: target.to,
+      leadId: target.leadId || undefined,
+      status: 'granted',
+      source,
+      evidence,
+      recordedAt: this.clock.now(),
+    })
+  }
+
+  private async timeZonesFor(target: ContactTarget, settings: ComplianceSettings): Promise<string[]> {
+    if (isValidTimeZone(target.timeZone)) return [target.timeZone!]
+
+    if (target.leadId && target.timeZone === undefined) {
+      const lead = await prisma.lead.findUnique({ where: { id: target.leadId }, select: { timezone: true } })
+      if (isValidTimeZone(lead?.timezone)) return [lead!.timezone!]
+    }
+
+    return settings.fallbackTimeZones
+  }
+}
+
+export const complianceGuard = new ComplianceGuard()
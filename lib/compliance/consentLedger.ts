@@ -0,0 +1,100 @@
+// LeadAI Pro - Consent Ledger
+// Per-channel record of when and how each contact gave or withdrew consent to be contacted
+
+import { prisma } from '../database'
+import { SuppressionChannel, normalizeContact } from './suppressionList'
+
+export type ConsentStatus = 'granted' | 'revoked'
+
+// provider_report: a spam complaint or unsubscribe reported by the email provider
+export const CONSENT_SOURCES = ['web_form', 'written', 'verbal', 'import', 'sms_keyword', 'email_link', 'email_reply', 'provider_report', 'manual'] as const
+export type ConsentSource = typeof CONSENT_SOURCES[number]
+
+export interface ConsentInput {
+  channel: SuppressionChannel
+  value: string
+  status: ConsentStatus
+  source: ConsentSource
+  leadId?: string
+  // Whatever proves it: form URL, IP address, message text, document reference
+  evidence?: Record<string, any>
+  recordedAt?: Date
+  recordedById?: string
+}
+
+export interface ConsentRecord {
+  id: string
+  channel: SuppressionChannel
+  value: string
+  status: ConsentStatus
+  source: ConsentSource
+  leadId: string | null
+  evidence: Record<string, any>
+  recordedAt: Date
+  recordedById: string | null
+}
+
+export const validateConsentInput = (input: Partial<ConsentInput>): string[] => {
+  const errors: string[] = []
+
+  if (!['email', 'sms', 'call'].includes(input?.channel as string)) {
+    errors.push('channel must be email, sms or call')
+  }
+  if (!input?.value?.trim()) {
+    errors.push('value is required')
+  }
+  if (input?.status !== 'granted' && input?.status !== 'revoked') {
+    errors.push('status must be granted or revoked')
+  }
+  if (!CONSENT_SOURCES.includes(input?.source as ConsentSource)) {
+    errors.push(`source must be one of: ${CONSENT_SOURCES.join(', ')}`)
+  }
+  if (input?.recordedAt && Number.isNaN(new Date(input.recordedAt).getTime())) {
+    errors.push('recordedAt must be a date')
+  }
+
+  return errors
+}
+
+export class ConsentLedger {
+  // Records are never changed; a new record replaces the previous one
+  async record(organizationId: string, input: ConsentInput): Promise<ConsentRecord> {
+    return prisma.consentRecord.create({
+      data: {
+        organizationId,
+        leadId: input.leadId,
+        channel: input.channel,
+        value: normalizeContact(input.channel, input.value),
+        status: input.status,
+        source: input.source,
+        evidence: input.evidence || {},
+        recordedAt: input.recordedAt ? new Date(input.recordedAt) : undefined,
+        recordedById: input.recordedById,
+      },
+    })
+  }
+
+  // The record in force, or null when consent was never recorded
+  async current(organizationId: string, channel: SuppressionChannel, value: string): Promise<ConsentRecord | null> {
+    return prisma.consentRecord.findFirst({
+      where: { organizationId, channel, value: normalizeContact(channel, value) },
+      orderBy: [{ recordedAt: 'desc' }, { createdAt: 'desc' }],
+    })
+  }
+
+  // Full history for an address or number, or for a lead, newest first
+  async history(organizationId: string, filter: { channel?: SuppressionChannel; value?: string; leadId?: string }): Promise<ConsentRecord[]> {
+    return prisma.consentRecord.findMany({
+      where: {
+        organizationId,
+        ...(filter.channel && { channel: filter.channel }),
+        ...(filter.channel && filter.value && { value: normalizeContact(filter.channel, filter.value) }),
+        ...(filter.leadId && { leadId: filter.leadId }),
+      },
+      orderBy: [{ recordedAt: 'desc' }, { createdAt: 'desc' }],
+      take: 200,
+    })
+  }
+}
+
+export const consentLedger = new ConsentLedger()
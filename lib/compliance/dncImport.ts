@@ -0,0 +1,37 @@
+// LeadAI Pro - DNC List Import
+// Reads phone numbers from Do Not Call registry downloads and internal DNC files
+
+import { normalizePhone } from './suppressionList'
+
+export const MAX_DNC_FILE_BYTES = 50 * 1024 * 1024
+
+export interface DncFileContents {
+  numbers: string[]
+  // Lines that held something other than a phone number (headers, blanks excluded)
+  invalidLines: number
+}
+
+// One number per line. Registry area-code downloads split it as "AAA,NNNNNNN"; CSV exports may
+// have other columns, in which case the first field that is a phone number is used.
+export const parseDncFile = (content: string): DncFileContents => {
+  const numbers: string[] = []
+  let invalidLines = 0
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const fields = line.split(/[,;\t|]/).map(field => field.trim().replace(/^"|"$/g, ''))
+    const joined = fields.length === 2 && /^\d{3}$/.test(fields[0]) && /^\d{7}$/.test(fields[1]) ? fields[0] + fields[1] : null
+    const number = joined || fields.find(field => /^\+?[\d\s().-]{10,20}$/.test(field) && /^\+?1?\d{10}$/.test(field.replace(/[\s().-]/g, '')))
+
+    if (number) {
+      numbers.push(normalizePhone(number))
+    } else if (index > 0 || /\d{7}/.test(line)) {
+      // A first line without a number is a header
+      invalidLines++
+    }
+  }
+
+  return { numbers, invalidLines }
+}
@@ -0,0 +1,64 @@
+// LeadAI Pro - Quiet Hours
+// Local-time windows in which leads must not be called or texted
+
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from '../followUps/followUpSchedule'
+
+export interface QuietHours {
+  enabled: boolean
+  // Local HH:MM; the window may run past midnight (21:00 to 08:00)
+  start: string
+  end: string
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const isValidClockTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value)
+
+const minutesOf = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number)
+  return hour * 60 + minute
+}
+
+export const isQuietTime = (at: Date, timeZone: string, hours: QuietHours): boolean => {
+  if (!hours.enabled || hours.start === hours.end) return false
+
+  const local = getZonedParts(at, isValidTimeZone(timeZone) ? timeZone : 'UTC')
+  const now = local.hour * 60 + local.minute
+  const start = minutesOf(hours.start)
+  const end = minutesOf(hours.end)
+
+  return start < end ? now >= start && now < end : now >= start || now < end
+}
+
+// The first moment at or after `at` that is outside quiet hours in the time zone
+export const quietHoursEnd = (at: Date, timeZone: string, hours: QuietHours): Date => {
+  if (!isQuietTime(at, timeZone, hours)) return at
+
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC'
+  const local = getZonedParts(at, zone)
+  const [hour, minute] = hours.end.split(':').map(Number)
+
+  // The window ends today, or tomorrow when it runs past midnight and started today
+  for (let offset = 0; offset <= 1; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset))
+    const end = zonedTimeToUtc({ year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour, minute }, zone)
+    if (end > at) return end
+  }
+  return at
+}
+
+// The first moment outside quiet hours in every one of the zones
+export const nextAllowedTime = (at: Date, timeZones: string[], hours: QuietHours): Date => {
+  let candidate = at
+  // Each pass can only move later; a few passes settle any realistic set of zones
+  for (let pass = 0; pass < timeZones.length + 1; pass++) {
+    const moved = timeZones.reduce((latest, zone) => {
+      const end = quietHoursEnd(latest, zone, hours)
+      return end > latest ? end : latest
+    }, candidate)
+    if (moved.getTime() === candidate.getTime()) return candidate
+    candidate = moved
+  }
+  return candidate
+}
@@ -0,0 +1,29 @@
+// LeadAI Pro - SMS Keywords
+// Opt-out, opt-in and help keywords in inbound text messages
+
+export type SmsKeyword = 'stop' | 'start' | 'help'
+
+// The FCC's list of opt-out words plus the CTIA carrier keywords
+const KEYWORDS: Record<string, SmsKeyword> = {
+  stop: 'stop',
+  stopall: 'stop',
+  'stop all': 'stop',
+  unsubscribe: 'stop',
+  cancel: 'stop',
+  end: 'stop',
+  quit: 'stop',
+  revoke: 'stop',
+  optout: 'stop',
+  'opt out': 'stop',
+  start: 'start',
+  unstop: 'start',
+  yes: 'start',
+  help: 'help',
+  info: 'help',
+}
+
+// The keyword a message consists of, ignoring case and punctuation; null for anything else
+export const parseSmsKeyword = (body: string | null | undefined): SmsKeyword | null => {
+  const text = String(body || '').toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim()
+  return KEYWORDS[text] || null
+}
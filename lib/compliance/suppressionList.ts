@@ -0,0 +1,169 @@
+// LeadAI Pro - Suppression List
+// Organization-wide list of email addresses and numbers that must not be contacted again
+
+import { prisma } from '../database'
+
+export type SuppressionChannel = 'email' | 'sms' | 'call'
+
+export const SUPPRESSION_CHANNELS: SuppressionChannel[] = ['email', 'sms', 'call']
+
+export type SuppressionReason =
+  | 'hard_bounce'
+  | 'complaint'
+  | 'unsubscribe'
+  | 'stop_keyword'
+  // Our own do-not-call list, e.g. a verbal "don't call me again"
+  | 'internal_dnc'
+  // Imported from a registry such as the National DNC Registry
+  | 'dnc_registry'
+
+// Entries staff may take off the list again; the others are the contact's own opt-outs
+export const REMOVABLE_REASONS: SuppressionReason[] = ['internal_dnc', 'dnc_registry']
+
+// Raised when an entry cannot be taken off the list
+export class SuppressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SuppressionError'
+  }
+}
+
+export interface SuppressionEntry {
+  id: string
+  channel: SuppressionChannel
+  value: string
+  reason: SuppressionReason
+  source: string | null
+  listName: string | null
+  note: string | null
+  createdAt: Date
+}
+
+export interface SuppressionDetails {
+  source?: string
+  listName?: string
+  note?: string
+  createdById?: string
+}
+
+// Numbers are stored in E.164; ten-digit numbers are taken to be North American
+export const normalizePhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '')
+  if (value.trim().startsWith('+')) return `+${digits}`
+  if (digits.length === 10) return `+1${digits}`
+  return `+${digits}`
+}
+
+// Email addresses compare case-insensitively; numbers in E.164
+export const normalizeContact = (channel: SuppressionChannel, value: string): string =>
+  channel === 'email' ? value.trim().toLowerCase() : normalizePhone(value)
+
+const IMPORT_BATCH_SIZE = 1000
+
+export class SuppressionList {
+  async add(
+    organizationId: string,
+    channel: SuppressionChannel,
+    value: string,
+    reason: SuppressionReason,
+    details?: string | SuppressionDetails
+  ): Promise<void> {
+    const normalized = normalizeContact(channel, value)
+    const { source, listName, note, createdById } = typeof details === 'string' ? { source: details } as SuppressionDetails : details || {}
+    await prisma.suppression.upsert({
+      where: { organizationId_channel_value: { organizationId, channel, value: normalized } },
+      create: { organizationId, channel, value: normalized, reason, source, listName, note, createdById },
+      // The first reason recorded is kept
+      update: {},
+    })
+  }
+
+  // Bulk add, e.g. a DNC list import. Values already on the list keep their entry.
+  async addMany(
+    organizationId: string,
+    channel: SuppressionChannel,
+    values: string[],
+    reason: SuppressionReason,
+    details: SuppressionDetails = {}
+  ): Promise<{ added: number; existing: number }> {
+    const unique = [...new Set(values.map(value => normalizeContact(channel, value)))]
+    let added = 0
+
+    for (let start = 0; start < unique.length; start += IMPORT_BATCH_SIZE) {
+      const { count } = await prisma.suppression.createMany({
+        data: unique.slice(start, start + IMPORT_BATCH_SIZE).map(value => ({
+          organizationId, channel, value, reason, ...details,
+        })),
+        skipDuplicates: true,
+      })
+      added += count
+    }
+
+    return { added, existing: unique.length - added }
+  }
+
+  async find(organizationId: string, channel: SuppressionChannel, value: string): Promise<SuppressionEntry | null> {
+    return prisma.suppression.findUnique({
+      where: { organizationId_channel_value: { organizationId, channel, value: normalizeContact(channel, value) } },
+    })
+  }
+
+  async isSuppressed(organizationId: string, channel: SuppressionChannel, value: string): Promise<boolean> {
+    return Boolean(await this.find(organizationId, channel, value))
+  }
+
+  // The normalized values among `values` that are suppressed
+  async suppressedAmong(organizationId: string, channel: SuppressionChannel, values: string[]): Promise<Set<string>> {
+    if (values.length === 0) return new Set()
+
+    const entries = await prisma.suppression.findMany({
+      where: { organizationId, channel, value: { in: values.map(value => normalizeContact(channel, value)) } },
+      select: { value: true },
+    })
+    return new Set(entries.map((entry: any) => entry.value))
+  }
+
+  async list(
+    organizationId: string,
+    options: { channel?: SuppressionChannel; reason?: string; search?: string; limit?: number; offset?: number } = {}
+  ): Promise<{ entries: SuppressionEntry[]; total: number }> {
+    const where = {
+      organizationId,
+      ...(options.channel && { channel: options.channel }),
+      ...(options.reason && { reason: options.reason }),
+      ...(options.search && { value: { contains: options.search.trim().toLowerCase() } }),
+    }
+    const [entries, total] = await Promise.all([
+      prisma.suppression.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(options.limit || 50, 500),
+        skip: options.offset || 0,
+      }),
+      prisma.suppression.count({ where }),
+    ])
+    return { entries, total }
+  }
+
+  // Only DNC entries can be removed; returns null when there is no such entry
+  async remove(organizationId: string, id: string): Promise<SuppressionEntry | null> {
+    const entry = await prisma.suppression.findFirst({ where: { id, organizationId } })
+    if (!entry) return null
+    if (!REMOVABLE_REASONS.includes(entry.reason)) {
+      throw new SuppressionError(`Entries suppressed for ${entry.reason} cannot be removed`)
+    }
+
+    await prisma.suppression.delete({ where: { id } })
+    return entry
+  }
+
+  // The contact opted back in (e.g. texted START); lifts their own opt-out for the channel
+  async lift(organizationId: string, channel: SuppressionChannel, value: string, reasons: SuppressionReason[]): Promise<boolean> {
+    const { count } = await prisma.suppression.deleteMany({
+      where: { organizationId, channel, value: normalizeContact(channel, value), reason: { in: reasons } },
+    })
+    return count > 0
+  }
+}
+
+export const suppressionList = new SuppressionList()
@@ -2,6 +2,8 @@
 // Prisma client configuration and database utilities
 
 import { PrismaClient } from '@prisma/client'
+import { getLeadContactUpdates } from './activities/activityTypes'
+import { scoreExplanationText } from './scoring/scoreExplanation'
 
 // Global Prisma client instance
 declare global {
@@ -35,6 +37,65 @@ export async function disconnectDatabase(): Promise<void> {
   await prisma.$disconnect()
 }
 
+// Lead timeline types
+export const TIMELINE_KINDS = ['activity', 'conversation', 'call', 'score', 'journey_event'] as const
+export type TimelineKind = typeof TIMELINE_KINDS[number]
+
+export interface TimelineEntry {
+  id: string
+  kind: TimelineKind
+  occurredAt: Date
+  title: string
+  summary?: string | null
+  data: any
+}
+
+export interface TimelineOptions {
+  cursor?: string
+  limit?: number
+  kinds?: TimelineKind[]
+}
+
+export interface TimelinePage {
+  entries: TimelineEntry[]
+  nextCursor: string | null
+}
+
+type TimelinePosition = Pick<TimelineEntry, 'id' | 'kind' | 'occurredAt'>
+
+// Newest first; ties broken by kind then id so pages never overlap
+export const compareTimelineEntries = (a: TimelinePosition, b: TimelinePosition): number => {
+  const byTime = new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime()
+  if (byTime !== 0) return byTime
+  if (a.kind !== b.kind) return a.kind < b.kind ? -1 : 1
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0
+}
+
+export const encodeTimelineCursor = (entry: TimelinePosition): string => {
+  return Buffer.from(`${new Date(entry.occurredAt).toISOString()}|${entry.kind}|${entry.id}`).toString('base64url')
+}
+
+export const decodeTimelineCursor = (cursor: string): TimelinePosition => {
+  const [occurredAt, kind, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|')
+  const date = new Date(occurredAt)
+
+  if (!id || isNaN(date.getTime()) || !TIMELINE_KINDS.includes(kind as TimelineKind)) {
+    throw new Error('Invalid timeline cursor')
+  }
+
+  return { occurredAt: date, kind: kind as TimelineKind, id }
+}
+
+// Rows of one kind that come after the cursor: older, or at the same time and later in the
+// kind/id tie-break. Fetching "at or before" instead would refetch rows already shown when
+// one source has more than a page of entries on the same timestamp.
+const timelineAfter = (cursor: TimelinePosition | null, kind: TimelineKind, field: string = 'createdAt'): any => {
+  if (!cursor) return {}
+  if (kind < cursor.kind) return { [field]: { lt: cursor.occurredAt } }
+  if (kind > cursor.kind) return { [field]: { lte: cursor.occurredAt } }
+  return { OR: [{ [field]: { lt: cursor.occurredAt } }, { [field]: cursor.occurredAt, id: { lt: cursor.id } }] }
+}
+
 // Database utilities for common operations
 export const db = {
   // Organization utilities
@@ -178,31 +239,149 @@ export const db = {
 
   // Activity utilities
   activity: {
-    async createWithAnalysis(activityData: any) {
-      return prisma.activity.create({
-        data: activityData,
-        include: {
-          lead: {
-            select: { id: true, firstName: true, lastName: true, company: true }
-          },
-          user: {
-            select: { fullName: true, avatarUrl: true }
+    // Create an activity and roll its dates up to Lead.lastContactedAt/nextFollowUpAt; with tx,
+    // inside the caller's transaction
+    async createWithAnalysis(activityData: any, options: { nextFollowUpAt?: Date | null; tx?: any } = {}) {
+      const create = async (tx: any) => {
+        const activity = await tx.activity.create({
+          data: activityData,
+          include: {
+            lead: {
+              select: { id: true, firstName: true, lastName: true, company: true }
+            },
+            user: {
+              select: { fullName: true, avatarUrl: true }
+            }
           }
+        })
+
+        const lead = await tx.lead.findUnique({
+          where: { id: activity.leadId },
+          select: { lastContactedAt: true, nextFollowUpAt: true }
+        })
+
+        const updates: any = getLeadContactUpdates(activity, lead || {})
+        if (options.nextFollowUpAt !== undefined) {
+          updates.nextFollowUpAt = options.nextFollowUpAt
         }
-      })
+
+        if (Object.keys(updates).length > 0) {
+          await tx.lead.update({
+            where: { id: activity.leadId },
+            data: updates
+          })
+        }
+
+        return activity
+      }
+      return options.tx ? create(options.tx) : prisma.$transaction(create)
     },
 
-    async getLeadTimeline(leadId: string) {
-      return prisma.activity.findMany({
-        where: { leadId },
-        include: {
-          user: {
-            select: { fullName: true, avatarUrl: true }
-          },
-          conversations: true
-        },
-        orderBy: { createdAt: 'desc' }
-      })
+    // Merged, cursor-paginated history of everything that happened to a lead
+    async getLeadTimeline(leadId: string, options: TimelineOptions = {}): Promise<TimelinePage> {
+      const limit = Math.min(options.limit || 25, 100)
+      const kinds = options.kinds?.length ? options.kinds : TIMELINE_KINDS
+      const cursor = options.cursor ? decodeTimelineCursor(options.cursor) : null
+      const take = limit + 1
+
+      const [activities, conversations, calls, scores, events] = await Promise.all([
+        kinds.includes('activity')
+          ? prisma.activity.findMany({
+              where: { leadId, ...timelineAfter(cursor, 'activity') },
+              include: { user: { select: { fullName: true, avatarUrl: true } } },
+              orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+              take,
+            })
+          : [],
+        kinds.includes('conversation')
+          ? prisma.conversation.findMany({
+              where: { leadId, ...timelineAfter(cursor, 'conversation') },
+              orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+              take,
+            })
+          : [],
+        kinds.includes('call')
+          ? prisma.callSession.findMany({
+              where: { leadId, ...timelineAfter(cursor, 'call') },
+              orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+              take,
+            })
+          : [],
+        // One extra score so the oldest entry on the page still gets a delta
+        kinds.includes('score')
+          ? prisma.leadScore.findMany({
+              where: { leadId, ...timelineAfter(cursor, 'score') },
+              orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+              take: take + 1,
+            })
+          : [],
+        kinds.includes('journey_event')
+          ? prisma.journeyEvent.findMany({
+              where: { leadId, ...timelineAfter(cursor, 'journey_event', 'occurredAt') },
+              orderBy: [{ occurredAt: 'desc' }, { id: 'desc' }],
+              take,
+            })
+          : [],
+      ])
+
+      const entries: TimelineEntry[] = [
+        ...activities.map((a: any): TimelineEntry => ({
+          id: a.id,
+          kind: 'activity',
+          occurredAt: a.createdAt,
+          title: a.subject || `${a.type} activity`,
+          summary: a.description,
+          data: a,
+        })),
+        ...conversations.map((c: any): TimelineEntry => ({
+          id: c.id,
+          kind: 'conversation',
+          occurredAt: c.createdAt,
+          title: c.subject || `${c.direction} ${c.channel}`,
+          summary: c.content?.slice(0, 280),
+          data: c,
+        })),
+        ...calls.map((c: any): TimelineEntry => ({
+          id: c.id,
+          kind: 'call',
+          occurredAt: c.createdAt,
+          title: `${c.direction} call ${c.outcome || c.status}`,
+          summary: c.notes,
+          data: c,
+        })),
+        ...scores.slice(0, take).map((s: any, i: number): TimelineEntry => {
+          const previous = scores[i + 1]
+          const delta = previous ? s.score - previous.score : null
+          return {
+            id: s.id,
+            kind: 'score',
+            occurredAt: s.createdAt,
+            title: `Score ${s.score}${delta ? ` (${delta > 0 ? '+' : ''}${delta})` : ''}`,
+            summary: scoreExplanationText(s.explanation),
+            data: { ...s, previousScore: previous?.score ?? null, delta },
+          }
+        }),
+        ...events.map((e: any): TimelineEntry => ({
+          id: e.id,
+          kind: 'journey_event',
+          occurredAt: e.occurredAt,
+          title: e.eventName,
+          summary: e.description,
+          data: e,
+        })),
+      ]
+
+      const ordered = entries
+        .sort(compareTimelineEntries)
+        .filter(entry => !cursor || compareTimelineEntries(entry, cursor) > 0)
+
+      const page = ordered.slice(0, limit)
+      const hasMore = ordered.length > limit
+
+      return {
+        entries: page,
+        nextCursor: hasMore ? encodeTimelineCursor(page[page.length - 1]) : null,
+      }
     }
   },
 
@@ -0,0 +1,141 @@
+// LeadAI Pro - Deal Pipeline
+// Deal status transitions, the dates they stamp and due-diligence checklists per deal type
+
+import { DealTypeValue, InvestmentStrategyValue } from './underwriting'
+
+export const DEAL_STATUSES = [
+  'LEAD', 'ANALYZING', 'OFFER_MADE', 'UNDER_CONTRACT', 'DUE_DILIGENCE', 'FUNDING', 'CLOSING',
+  'REHAB', 'MARKETING', 'SOLD', 'RENTED', 'HOLDING', 'CANCELLED',
+] as const
+export type DealStatusValue = typeof DEAL_STATUSES[number]
+
+export const DEAL_ACTIVITY_TYPES = [
+  'PROPERTY_VISIT', 'REPAIR_ESTIMATE', 'CONTRACTOR_BID', 'INSPECTION', 'APPRAISAL', 'LOAN_APPLICATION', 'TITLE_WORK',
+  'CLOSING_PREP', 'MARKETING_PREP', 'TENANT_SCREENING', 'RENT_COLLECTION', 'MAINTENANCE', 'SALE_PREP',
+] as const
+export type DealActivityTypeValue = typeof DEAL_ACTIVITY_TYPES[number]
+
+export const DEAL_ACTIVITY_STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'OVERDUE'] as const
+export type DealActivityStatusValue = typeof DEAL_ACTIVITY_STATUSES[number]
+
+// Activities still to be done; these turn OVERDUE once past their due date
+export const OPEN_ACTIVITY_STATUSES: DealActivityStatusValue[] = ['PENDING', 'IN_PROGRESS']
+
+// Deals that are finished, off the active board
+export const CLOSED_DEAL_STATUSES: DealStatusValue[] = ['SOLD', 'CANCELLED']
+
+// Where a deal may go from each status. Deals can step back while still negotiating, skip
+// funding when bought with cash and, once closed, move between rehab, marketing and holding.
+const TRANSITIONS: Record<DealStatusValue, DealStatusValue[]> = {
+  LEAD: ['ANALYZING', 'CANCELLED'],
+  ANALYZING: ['OFFER_MADE', 'LEAD', 'CANCELLED'],
+  OFFER_MADE: ['UNDER_CONTRACT', 'ANALYZING', 'CANCELLED'],
+  UNDER_CONTRACT: ['DUE_DILIGENCE', 'FUNDING', 'CLOSING', 'CANCELLED'],
+  DUE_DILIGENCE: ['FUNDING', 'CLOSING', 'CANCELLED'],
+  FUNDING: ['CLOSING', 'CANCELLED'],
+  CLOSING: ['REHAB', 'MARKETING', 'RENTED', 'HOLDING', 'SOLD', 'CANCELLED'],
+  REHAB: ['MARKETING', 'RENTED', 'HOLDING'],
+  MARKETING: ['SOLD', 'RENTED', 'HOLDING'],
+  RENTED: ['HOLDING', 'MARKETING', 'SOLD'],
+  HOLDING: ['RENTED', 'MARKETING', 'SOLD'],
+  SOLD: [],
+  CANCELLED: ['LEAD', 'ANALYZING'],
+}
+
+// Wholesalers assign the contract and never own, rehab or rent the property
+const STATUSES_NOT_ALLOWED: Partial<Record<DealTypeValue, DealStatusValue[]>> = {
+  WHOLESALE: ['REHAB', 'RENTED', 'HOLDING'],
+  ASSIGNMENT: ['REHAB', 'RENTED', 'HOLDING'],
+}
+
+export interface DealTransitionCheck {
+  allowed: boolean
+  reason?: string
+}
+
+export const getAllowedTransitions = (dealType: DealTypeValue, from: DealStatusValue): DealStatusValue[] =>
+  TRANSITIONS[from].filter(status => !(STATUSES_NOT_ALLOWED[dealType] || []).includes(status))
+
+export const checkDealTransition = (dealType: DealTypeValue, from: DealStatusValue, to: DealStatusValue): DealTransitionCheck => {
+  if (from === to) {
+    return { allowed: false, reason: `Deal is already ${to}` }
+  }
+  if ((STATUSES_NOT_ALLOWED[dealType] || []).includes(to)) {
+    return { allowed: false, reason: `${dealType} deals are never ${to}` }
+  }
+  if (!TRANSITIONS[from].includes(to)) {
+    const allowed = getAllowedTransitions(dealType, from)
+    return { allowed: false, reason: `Cannot move a deal from ${from} to ${to}${allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ''}` }
+  }
+  return { allowed: true }
+}
+
+// Deal dates a status change fills in, keeping dates already set
+export const transitionDates = (
+  deal: { contractDate?: Date | null; closingDate?: Date | null; rehabStartDate?: Date | null; rehabEndDate?: Date | null },
+  from: DealStatusValue,
+  to: DealStatusValue,
+  now: Date
+): Record<string, Date> => {
+  const dates: Record<string, Date> = {}
+  if (to === 'UNDER_CONTRACT' && !deal.contractDate) dates.contractDate = now
+  // Leaving CLOSING for anything but a cancellation means the purchase closed
+  if (from === 'CLOSING' && to !== 'CANCELLED' && !deal.closingDate) dates.closingDate = now
+  if (to === 'REHAB' && !deal.rehabStartDate) dates.rehabStartDate = now
+  if (from === 'REHAB' && !deal.rehabEndDate) dates.rehabEndDate = now
+  return dates
+}
+
+export interface ChecklistItem {
+  activityType: DealActivityTypeValue
+  title: string
+  description?: string
+  // Due this many days after the contract date
+  dueInDays: number
+}
+
+const ITEMS: Record<DealActivityTypeValue, Omit<ChecklistItem, 'activityType'>> = {
+  PROPERTY_VISIT: { title: 'Walk the property', dueInDays: 2 },
+  REPAIR_ESTIMATE: { title: 'Finalize the repair estimate', dueInDays: 5 },
+  CONTRACTOR_BID: { title: 'Collect contractor bids', description: 'At least two bids for the scope of work', dueInDays: 7 },
+  INSPECTION: { title: 'Complete the inspection', dueInDays: 7 },
+  APPRAISAL: { title: 'Order the appraisal', dueInDays: 10 },
+  LOAN_APPLICATION: { title: 'Submit the loan application', dueInDays: 3 },
+  TITLE_WORK: { title: 'Open title and review the commitment', dueInDays: 10 },
+  CLOSING_PREP: { title: 'Prepare for closing', description: 'Settlement statement, funds and signing', dueInDays: 25 },
+  MARKETING_PREP: { title: 'Prepare marketing', dueInDays: 5 },
+  TENANT_SCREENING: { title: 'Review leases and screen tenants', dueInDays: 14 },
+  RENT_COLLECTION: { title: 'Set up rent collection', dueInDays: 30 },
+  MAINTENANCE: { title: 'Schedule maintenance', dueInDays: 30 },
+  SALE_PREP: { title: 'Plan the resale', description: 'Listing agent, staging and pricing', dueInDays: 20 },
+}
+
+const CHECKLISTS: Record<DealTypeValue, DealActivityTypeValue[]> = {
+  WHOLESALE: ['PROPERTY_VISIT', 'REPAIR_ESTIMATE', 'TITLE_WORK', 'MARKETING_PREP', 'CLOSING_PREP'],
+  ASSIGNMENT: ['PROPERTY_VISIT', 'REPAIR_ESTIMATE', 'TITLE_WORK', 'MARKETING_PREP', 'CLOSING_PREP'],
+  FIX_AND_FLIP: ['PROPERTY_VISIT', 'INSPECTION', 'REPAIR_ESTIMATE', 'CONTRACTOR_BID', 'TITLE_WORK', 'SALE_PREP', 'CLOSING_PREP'],
+  LIVE_IN_FLIP: ['PROPERTY_VISIT', 'INSPECTION', 'REPAIR_ESTIMATE', 'CONTRACTOR_BID', 'TITLE_WORK', 'CLOSING_PREP'],
+  BRRRR: ['PROPERTY_VISIT', 'INSPECTION', 'REPAIR_ESTIMATE', 'CONTRACTOR_BID', 'APPRAISAL', 'TITLE_WORK', 'TENANT_SCREENING', 'CLOSING_PREP'],
+  BUY_AND_HOLD: ['PROPERTY_VISIT', 'INSPECTION', 'APPRAISAL', 'TITLE_WORK', 'TENANT_SCREENING', 'CLOSING_PREP'],
+  COMMERCIAL: ['PROPERTY_VISIT', 'INSPECTION', 'APPRAISAL', 'TITLE_WORK', 'TENANT_SCREENING', 'CLOSING_PREP'],
+  LAND_DEVELOPMENT: ['PROPERTY_VISIT', 'INSPECTION', 'APPRAISAL', 'TITLE_WORK', 'CLOSING_PREP'],
+}
+
+// Lenders need an application and, for most loans, an appraisal; cash buyers need neither
+const FINANCED_ITEMS: DealActivityTypeValue[] = ['LOAN_APPLICATION', 'APPRAISAL']
+
+// Due-diligence checklist for a deal type and how it is paid for
+export const buildDueDiligenceChecklist = (dealType: DealTypeValue, strategy: InvestmentStrategyValue): ChecklistItem[] => {
+  const types = new Set(CHECKLISTS[dealType])
+  if (strategy === 'CASH_PURCHASE') {
+    // An appraisal still matters when the plan is to refinance
+    if (dealType !== 'BRRRR') types.delete('APPRAISAL')
+  } else if (dealType !== 'WHOLESALE' && dealType !== 'ASSIGNMENT') {
+    FINANCED_ITEMS.forEach(type => types.add(type))
+  }
+
+  return DEAL_ACTIVITY_TYPES
+    .filter(type => types.has(type))
+    .map(type => ({ activityType: type, ...ITEMS[type] }))
+    .sort((a, b) => a.dueInDays - b.dueInDays)
+}
@@ -0,0 +1,464 @@
+// LeadAI Pro - Deal Service
+// Organization deals: CRUD, status moves, due-diligence activities and the kanban board
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import { DEAL_TYPES, INVESTMENT_STRATEGIES, DealTypeValue, InvestmentStrategyValue } from './underwriting'
+import {
+  DEAL_STATUSES,
+  DEAL_ACTIVITY_TYPES,
+  DEAL_ACTIVITY_STATUSES,
+  OPEN_ACTIVITY_STATUSES,
+  CLOSED_DEAL_STATUSES,
+  DealStatusValue,
+  DealActivityTypeValue,
+  DealActivityStatusValue,
+  buildDueDiligenceChecklist,
+  checkDealTransition,
+  transitionDates,
+} from './dealPipeline'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MONEY_FIELDS = ['purchasePrice', 'downPayment', 'loanAmount', 'arv', 'repairCosts', 'holdingCosts', 'sellingCosts', 'salePrice'] as const
+const DATE_FIELDS = ['contractDate', 'closingDate', 'rehabStartDate', 'rehabEndDate'] as const
+
+export interface DealInput {
+  dealName: string
+  dealType: DealTypeValue
+  strategy: InvestmentStrategyValue
+  // Only on create; later changes go through changeStatus
+  status?: DealStatusValue
+  propertyId: string
+  leadId?: string | null
+  assignedToId?: string | null
+  purchasePrice?: number | null
+  downPayment?: number | null
+  loanAmount?: number | null
+  interestRate?: number | null
+  loanTerm?: number | null
+  arv?: number | null
+  repairCosts?: number | null
+  holdingCosts?: number | null
+  sellingCosts?: number | null
+  // What the property actually sold for
+  salePrice?: number | null
+  contractDate?: string | Date | null
+  closingDate?: string | Date | null
+  rehabStartDate?: string | Date | null
+  rehabEndDate?: string | Date | null
+}
+
+export interface DealActivityInput {
+  activityType: DealActivityTypeValue
+  title: string
+  description?: string | null
+  status?: DealActivityStatusValue
+  scheduledDate?: string | Date | null
+  dueDate?: string | Date | null
+}
+
+export interface DealFilter {
+  status?: DealStatusValue
+  dealType?: DealTypeValue
+  assignedToId?: string
+  propertyId?: string
+  leadId?: string
+  search?: string
+  limit?: number
+  offset?: number
+}
+
+export interface BoardColumn {
+  status: DealStatusValue
+  count: number
+  totals: { purchasePrice: number; arv: number; netProfit: number }
+  deals: any[]
+}
+
+// Error raised for requests on missing deals (or what they refer to) or ones in the wrong state
+export class DealError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state', public resource: string = 'Deal') {
+    super(message)
+    this.name = 'DealError'
+  }
+}
+
+const isDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value as string).getTime())
+
+// Validate a deal; partial checks only the fields present (updates)
+export const validateDealInput = (input: Partial<DealInput>, partial: boolean = false): string[] => {
+  const errors: string[] = []
+  const present = (key: keyof DealInput) => !partial || input[key] !== undefined
+
+  if (present('dealName') && (typeof input.dealName !== 'string' || !input.dealName.trim() || input.dealName.length > 255)) {
+    errors.push('dealName is required (at most 255 characters)')
+  }
+  if (present('dealType') && !DEAL_TYPES.includes(input.dealType as DealTypeValue)) {
+    errors.push(`dealType must be one of: ${DEAL_TYPES.join(', ')}`)
+  }
+  if (present('strategy') && !INVESTMENT_STRATEGIES.includes(input.strategy as InvestmentStrategyValue)) {
+    errors.push(`strategy must be one of: ${INVESTMENT_STRATEGIES.join(', ')}`)
+  }
+  if (present('propertyId') && (typeof input.propertyId !== 'string' || !input.propertyId)) {
+    errors.push('propertyId is required')
+  }
+  if (input.status !== undefined && !DEAL_STATUSES.includes(input.status)) {
+    errors.push(`status must be one of: ${DEAL_STATUSES.join(', ')}`)
+  }
+
+  for (const key of MONEY_FIELDS) {
+    const value = input[key]
+    if (value !== undefined && value !== null && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      errors.push(`${key} must be a non-negative amount`)
+    }
+  }
+  if (input.interestRate !== undefined && input.interestRate !== null &&
+    !(typeof input.interestRate === 'number' && input.interestRate >= 0 && input.interestRate <= 100)) {
+    errors.push('interestRate must be a percentage between 0 and 100')
+  }
+  if (input.loanTerm !== undefined && input.loanTerm !== null && !(Number.isInteger(input.loanTerm) && input.loanTerm > 0)) {
+    errors.push('loanTerm must be a whole number of months')
+  }
+  for (const key of DATE_FIELDS) {
+    if (input[key] !== undefined && input[key] !== null && !isDate(input[key])) {
+      errors.push(`${key} must be a date`)
+    }
+  }
+
+  return errors
+}
+
+export const validateDealActivityInput = (input: Partial<DealActivityInput>, partial: boolean = false): string[] => {
+  const errors: string[] = []
+
+  if ((!partial || input.activityType !== undefined) && !DEAL_ACTIVITY_TYPES.includes(input.activityType as DealActivityTypeValue)) {
+    errors.push(`activityType must be one of: ${DEAL_ACTIVITY_TYPES.join(', ')}`)
+  }
+  if ((!partial || input.title !== undefined) && (typeof input.title !== 'string' || !input.title.trim() || input.title.length > 255)) {
+    errors.push('title is required (at most 255 characters)')
+  }
+  if (input.status !== undefined && !DEAL_ACTIVITY_STATUSES.includes(input.status)) {
+    errors.push(`status must be one of: ${DEAL_ACTIVITY_STATUSES.join(', ')}`)
+  }
+  for (const key of ['scheduledDate', 'dueDate'] as const) {
+    if (input[key] !== undefined && input[key] !== null && !isDate(input[key])) {
+      errors.push(`${key} must be a date`)
+    }
+  }
+
+  return errors
+}
+
+const toDate = (value: string | Date | null | undefined): Date | null | undefined =>
+  value === undefined ? undefined : value === null ? null : new Date(value)
+
+// Deal columns from input, leaving out what was not given
+const dealData = (input: Partial<DealInput>): Record<string, any> => {
+  const data: Record<string, any> = {}
+  for (const key of ['dealName', 'dealType', 'strategy', 'propertyId', 'leadId', 'assignedToId', 'interestRate', 'loanTerm', ...MONEY_FIELDS] as const) {
+    if (input[key] !== undefined) data[key] = input[key]
+  }
+  for (const key of DATE_FIELDS) {
+    if (input[key] !== undefined) data[key] = toDate(input[key])
+  }
+  return data
+}
+
+export class DealService {
+  constructor(private clock: Clock = systemClock) {}
+
+  async list(organizationId: string, filter: DealFilter = {}): Promise<{ deals: any[]; total: number }> {
+    const where = {
+      organizationId,
+      ...(filter.status && { status: filter.status as any }),
+      ...(filter.dealType && { dealType: filter.dealType as any }),
+      ...(filter.assignedToId && { assignedToId: filter.assignedToId }),
+      ...(filter.propertyId && { propertyId: filter.propertyId }),
+      ...(filter.leadId && { leadId: filter.leadId }),
+      ...(filter.search && { dealName: { contains: filter.search, mode: 'insensitive' as const } }),
+    }
+
+    const [deals, total] = await Promise.all([
+      prisma.deal.findMany({
+        where,
+        include: { property: { select: { id: true, streetAddress: true, city: true, state: true, zipCode: true } } },
+        orderBy: { updatedAt: 'desc' },
+        take: Math.min(filter.limit || 50, 200),
+        skip: filter.offset || 0,
+      }),
+      prisma.deal.count({ where }),
+    ])
+    return { deals, total }
+  }
+
+  async get(organizationId: string, id: string): Promise<any | null> {
+    await this.markOverdueActivities(organizationId, id)
+    return prisma.deal.findFirst({
+      where: { id, organizationId },
+      include: {
+        property: true,
+        lead: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+        dealActivities: { orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }] },
+      },
+    })
+  }
+
+  async create(organizationId: string, userId: string, input: DealInput): Promise<any> {
+    await this.checkReferences(organizationId, input)
+
+    const deal = await prisma.deal.create({
+      data: {
+        ...dealData(input),
+        status: (input.status || 'LEAD') as any,
+        organizationId,
+      },
+    })
+
+    // Deals imported already under contract start with their checklist
+    if (deal.status === 'UNDER_CONTRACT') {
+      await this.generateChecklist(organizationId, deal.id, userId)
+    }
+    return deal
+  }
+
+  async update(organizationId: string, id: string, input: Partial<DealInput>): Promise<any> {
+    const deal = await prisma.deal.findFirst({ where: { id, organizationId }, select: { id: true } })
+    if (!deal) {
+      throw new DealError('Deal not found', 'not_found')
+    }
+    await this.checkReferences(organizationId, input)
+
+    return prisma.deal.update({ where: { id }, data: dealData(input) })
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    const { count } = await prisma.deal.deleteMany({ where: { id, organizationId } })
+    if (count === 0) {
+      throw new DealError('Deal not found', 'not_found')
+    }
+  }
+
+  // Move a deal to another status, stamping contract, closing and rehab dates. Going under
+  // contract creates the due-diligence checklist unless asked not to.
+  async changeStatus(
+    organizationId: string,
+    id: string,
+    to: DealStatusValue,
+    userId: string,
+    options: { checklist?: boolean } = {}
+  ): Promise<{ deal: any; checklist: any[] }> {
+    const deal = await prisma.deal.findFirst({ where: { id, organizationId } })
+    if (!deal) {
+      throw new DealError('Deal not found', 'not_found')
+    }
+
+    const check = checkDealTransition(deal.dealType, deal.status, to)
+    if (!check.allowed) {
+      throw new DealError(check.reason!, 'invalid_state')
+    }
+
+    // Guarded on the status read above so two moves cannot both apply
+    const { count } = await prisma.deal.updateMany({
+      where: { id, status: deal.status },
+      data: { status: to as any, ...transitionDates(deal, deal.status, to, this.clock.now()) },
+    })
+    if (count === 0) {
+      throw new DealError('Deal status changed meanwhile; reload and try again', 'invalid_state')
+    }
+
+    const checklist = to === 'UNDER_CONTRACT' && options.checklist !== false
+      ? await this.generateChecklist(organizationId, id, userId)
+      : []
+
+    return { deal: await prisma.deal.findUnique({ where: { id } }), checklist }
+  }
+
+  // Create the deal type's due-diligence activities, skipping types the deal already has
+  async generateChecklist(organizationId: string, dealId: string, userId: string): Promise<any[]> {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, organizationId },
+      select: { id: true, dealType: true, strategy: true, contractDate: true, dealActivities: { select: { activityType: true, status: true } } },
+    })
+    if (!deal) {
+      throw new DealError('Deal not found', 'not_found')
+    }
+
+    const existing = new Set(deal.dealActivities.filter((a: any) => a.status !== 'CANCELLED').map((a: any) => a.activityType))
+    const start = deal.contractDate || this.clock.now()
+    const items = buildDueDiligenceChecklist(deal.dealType, deal.strategy).filter(item => !existing.has(item.activityType))
+
+    return Promise.all(items.map(item => prisma.dealActivity.create({
+      data: {
+        dealId,
+        userId,
+        activityType: item.activityType as any,
+        title: item.title,
+        description: item.description,
+        dueDate: new Date(start.getTime() + item.dueInDays * DAY_MS),
+      },
+    })))
+  }
+
+  async listActivities(organizationId: string, dealId: string, status?: DealActivityStatusValue): Promise<any[]> {
+    await this.requireDeal(organizationId, dealId)
+    await this.markOverdueActivities(organizationId, dealId)
+    return prisma.dealActivity.findMany({
+      where: { dealId, ...(status && { status: status as any }) },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+    })
+  }
+
+  async createActivity(organizationId: string, dealId: string, userId: string, input: DealActivityInput): Promise<any> {
+    await this.requireDeal(organizationId, dealId)
+    const status = input.status || 'PENDING'
+    return prisma.dealActivity.create({
+      data: {
+        dealId,
+        userId,
+        activityType: input.activityType as any,
+        title: input.title,
+        description: input.description,
+        status: status as any,
+        scheduledDate: toDate(input.scheduledDate),
+        dueDate: toDate(input.dueDate),
+        ...(status === 'COMPLETED' && { completedDate: this.clock.now() }),
+      },
+    })
+  }
+
+  // Completing an activity stamps completedDate; reopening one clears it
+  async updateActivity(organizationId: string, dealId: string, activityId: string, input: Partial<DealActivityInput>): Promise<any> {
+    await this.requireDeal(organizationId, dealId)
+    const activity = await prisma.dealActivity.findFirst({ where: { id: activityId, dealId }, select: { id: true, status: true } })
+    if (!activity) {
+      throw new DealError('Deal activity not found', 'not_found', 'Deal activity')
+    }
+
+    const completing = input.status === 'COMPLETED' && activity.status !== 'COMPLETED'
+    const reopening = input.status !== undefined && input.status !== 'COMPLETED' && activity.status === 'COMPLETED'
+    return prisma.dealActivity.update({
+      where: { id: activityId },
+      data: {
+        ...(input.activityType !== undefined && { activityType: input.activityType as any }),
+        ...(input.title !== undefined && { title: input.title }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.status !== undefined && { status: input.status as any }),
+        ...(input.scheduledDate !== undefined && { scheduledDate: toDate(input.scheduledDate) }),
+        ...(input.dueDate !== undefined && { dueDate: toDate(input.dueDate) }),
+        ...(completing && { completedDate: this.clock.now() }),
+        ...(reopening && { completedDate: null }),
+      },
+    })
+  }
+
+  // Flip open activities past their due date to OVERDUE; returns how many changed
+  async markOverdueActivities(organizationId: string, dealId?: string): Promise<number> {
+    const { count } = await prisma.dealActivity.updateMany({
+      where: {
+        status: { in: OPEN_ACTIVITY_STATUSES as any[] },
+        dueDate: { lt: this.clock.now() },
+        ...(dealId ? { dealId, deal: { organizationId } } : { deal: { organizationId } }),
+      },
+      data: { status: 'OVERDUE' as any },
+    })
+    return count
+  }
+
+  // Kanban board: one column per status in pipeline order with counts and totals. Sold and
+  // cancelled deals only show when asked for.
+  async board(
+    organizationId: string,
+    filter: { dealType?: DealTypeValue; assignedToId?: string; includeClosed?: boolean; limitPerColumn?: number } = {}
+  ): Promise<{ columns: BoardColumn[]; totals: BoardColumn['totals'] & { count: number } }> {
+    await this.markOverdueActivities(organizationId)
+
+    const statuses = DEAL_STATUSES.filter(status => filter.includeClosed || !CLOSED_DEAL_STATUSES.includes(status))
+    const where = {
+      organizationId,
+      status: { in: statuses as any[] },
+      ...(filter.dealType && { dealType: filter.dealType as any }),
+      ...(filter.assignedToId && { assignedToId: filter.assignedToId }),
+    }
+
+    const [groups, deals] = await Promise.all([
+      prisma.deal.groupBy({
+        by: ['status'],
+        where,
+        _count: { _all: true },
+        _sum: { purchasePrice: true, arv: true, netProfit: true },
+      }),
+      prisma.deal.findMany({
+        where,
+        select: {
+          id: true,
+          dealName: true,
+          dealType: true,
+          strategy: true,
+          status: true,
+          purchasePrice: true,
+          arv: true,
+          netProfit: true,
+          roi: true,
+          closingDate: true,
+          assignedToId: true,
+          updatedAt: true,
+          property: { select: { streetAddress: true, city: true, state: true } },
+          _count: { select: { dealActivities: { where: { status: 'OVERDUE' as any } } } },
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: 1000,
+      }),
+    ])
+
+    const limit = filter.limitPerColumn || 50
+    const columns = statuses.map(status => {
+      const group: any = (groups as any[]).find(g => g.status === status)
+      return {
+        status,
+        count: group?._count._all || 0,
+        totals: {
+          purchasePrice: group?._sum.purchasePrice || 0,
+          arv: group?._sum.arv || 0,
+          netProfit: group?._sum.netProfit || 0,
+        },
+        deals: deals
+          .filter((deal: any) => deal.status === status)
+          .slice(0, limit)
+          .map(({ _count, ...deal }: any) => ({ ...deal, overdueActivities: _count.dealActivities })),
+      }
+    })
+
+    const totals = columns.reduce((sum, column) => ({
+      count: sum.count + column.count,
+      purchasePrice: sum.purchasePrice + column.totals.purchasePrice,
+      arv: sum.arv + column.totals.arv,
+      netProfit: sum.netProfit + column.totals.netProfit,
+    }), { count: 0, purchasePrice: 0, arv: 0, netProfit: 0 })
+
+    return { columns, totals }
+  }
+
+  private async requireDeal(organizationId: string, dealId: string): Promise<void> {
+    const deal = await prisma.deal.findFirst({ where: { id: dealId, organizationId }, select: { id: true } })
+    if (!deal) {
+      throw new DealError('Deal not found', 'not_found')
+    }
+  }
+
+  // Property, lead and assignee must belong to the organization
+  private async checkReferences(organizationId: string, input: Partial<DealInput>): Promise<void> {
+    const [property, lead, assignee] = await Promise.all([
+      input.propertyId ? prisma.property.findFirst({ where: { id: input.propertyId, organizationId }, select: { id: true } }) : true,
+      input.leadId ? prisma.lead.findFirst({ where: { id: input.leadId, organizationId }, select: { id: true } }) : true,
+      input.assignedToId ? prisma.user.findFirst({ where: { id: input.assignedToId, organizationId }, select: { id: true } }) : true,
+    ])
+    if (!property) throw new DealError('Property not found', 'not_found', 'Property')
+    if (!lead) throw new DealError('Lead not found', 'not_found', 'Lead')
+    if (!assignee) throw new DealError('Assigned user not found', 'not_found', 'Assigned user')
+  }
+}
+
+export const dealService = new DealService()
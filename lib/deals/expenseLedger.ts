@@ -0,0 +1,296 @@
+// LeadAI Pro - Deal Expense Ledger
+// Budget against actuals, running cost basis, realized profit and monthly rollups from ledger entries
+
+export const EXPENSE_CATEGORIES = [
+  'ACQUISITION', 'REPAIR', 'HOLDING', 'SELLING', 'FINANCING', 'LEGAL', 'INSPECTION', 'MARKETING', 'UTILITIES', 'INSURANCE', 'TAXES', 'OTHER',
+] as const
+export type ExpenseCategoryValue = typeof EXPENSE_CATEGORIES[number]
+
+// EXPENSE is money spent on the deal; DRAW is rehab loan money received
+export const LEDGER_ENTRY_TYPES = ['EXPENSE', 'DRAW'] as const
+export type LedgerEntryTypeValue = typeof LEDGER_ENTRY_TYPES[number]
+
+// Underwriting budgets four lines; detailed categories roll up into them unless given a budget of their own
+const BUDGET_LINE_BY_CATEGORY: Record<ExpenseCategoryValue, ExpenseCategoryValue> = {
+  ACQUISITION: 'ACQUISITION',
+  LEGAL: 'ACQUISITION',
+  INSPECTION: 'ACQUISITION',
+  REPAIR: 'REPAIR',
+  HOLDING: 'HOLDING',
+  FINANCING: 'HOLDING',
+  UTILITIES: 'HOLDING',
+  INSURANCE: 'HOLDING',
+  TAXES: 'HOLDING',
+  SELLING: 'SELLING',
+  MARKETING: 'SELLING',
+  OTHER: 'OTHER',
+}
+
+export type ExpenseBudget = Partial<Record<ExpenseCategoryValue, number>>
+
+export interface LedgerEntry {
+  entryType: LedgerEntryTypeValue
+  category: ExpenseCategoryValue
+  amount: number
+  incurredAt: Date
+}
+
+export interface ExpenseInput {
+  entryType?: LedgerEntryTypeValue
+  category: ExpenseCategoryValue
+  amount: number
+  description?: string | null
+  vendor?: string | null
+  incurredAt: string | Date
+  documentId?: string | null
+}
+
+export interface BudgetLine {
+  category: ExpenseCategoryValue
+  // Categories whose spending counts against this line
+  includes: ExpenseCategoryValue[]
+  budget: number
+  actual: number
+  // Positive when under budget
+  variance: number
+  percentUsed: number | null
+}
+
+export interface CostBasisPoint {
+  date: Date
+  amount: number
+  costBasis: number
+}
+
+export interface ProfitReport {
+  purchasePrice: number
+  totalExpenses: number
+  totalDraws: number
+  costBasis: number
+  salePrice: number | null
+  // Realized once the deal has a sale price
+  actualProfit: number | null
+  actualRoi: number | null
+  // Before a sale: ARV less the cost basis and whatever budget is still unspent
+  estimatedProfit: number | null
+  projectedProfit: number | null
+  projectedRoi: number | null
+  profitVariance: number | null
+}
+
+export interface ExpenseRollup {
+  months: string[]
+  categories: Array<{ category: ExpenseCategoryValue; total: number; byMonth: Record<string, number> }>
+  monthTotals: Record<string, number>
+  total: number
+  draws: number
+}
+
+const isDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value as string).getTime())
+
+const round = (value: number): number => Math.round(value * 100) / 100
+
+export const validateExpenseInput = (input: Partial<ExpenseInput>, partial: boolean = false): string[] => {
+  const errors: string[] = []
+
+  if (input.entryType !== undefined && !LEDGER_ENTRY_TYPES.includes(input.entryType)) {
+    errors.push(`entryType must be one of: ${LEDGER_ENTRY_TYPES.join(', ')}`)
+  }
+  if ((!partial || input.category !== undefined) && !EXPENSE_CATEGORIES.includes(input.category as ExpenseCategoryValue)) {
+    errors.push(`category must be one of: ${EXPENSE_CATEGORIES.join(', ')}`)
+  }
+  if ((!partial || input.amount !== undefined) && !(typeof input.amount === 'number' && Number.isFinite(input.amount) && input.amount > 0)) {
+    errors.push('amount must be a positive number')
+  }
+  if ((!partial || input.incurredAt !== undefined) && !isDate(input.incurredAt)) {
+    errors.push('incurredAt must be a date')
+  }
+  for (const key of ['description', 'vendor'] as const) {
+    const value = input[key]
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > 1000)) {
+      errors.push(`${key} must be text of at most 1000 characters`)
+    }
+  }
+
+  return errors
+}
+
+export const validateExpenseBudget = (budget: Record<string, any>): string[] => {
+  if (budget === null || typeof budget !== 'object' || Array.isArray(budget)) {
+    return ['budget must be an object of category amounts']
+  }
+
+  const errors: string[] = []
+  for (const [category, amount] of Object.entries(budget)) {
+    if (!EXPENSE_CATEGORIES.includes(category as ExpenseCategoryValue)) {
+      errors.push(`${category} is not an expense category`)
+    } else if (amount !== null && !(typeof amount === 'number' && Number.isFinite(amount) && amount >= 0)) {
+      errors.push(`${category} must be a non-negative amount`)
+    }
+  }
+  return errors
+}
+
+// Budget from the deal's underwriting, overridden line by line by the one set on the deal
+export const resolveExpenseBudget = (
+  deal: { repairCosts?: number | null; holdingCosts?: number | null; sellingCosts?: number | null; expenseBudget?: ExpenseBudget | null },
+  underwritingCosts?: { acquisitionCosts?: number } | null
+): ExpenseBudget => {
+  const budget: ExpenseBudget = {}
+  if (underwritingCosts?.acquisitionCosts) budget.ACQUISITION = underwritingCosts.acquisitionCosts
+  if (deal.repairCosts) budget.REPAIR = deal.repairCosts
+  if (deal.holdingCosts) budget.HOLDING = deal.holdingCosts
+  if (deal.sellingCosts) budget.SELLING = deal.sellingCosts
+
+  for (const [category, amount] of Object.entries(deal.expenseBudget || {})) {
+    if (amount === null || amount === undefined) delete budget[category as ExpenseCategoryValue]
+    else budget[category as ExpenseCategoryValue] = amount
+  }
+  return budget
+}
+
+const sumExpenses = (entries: LedgerEntry[], type: LedgerEntryTypeValue = 'EXPENSE'): number =>
+  entries.filter(entry => entry.entryType === type).reduce((sum, entry) => sum + entry.amount, 0)
+
+// Budget against actual spending. A category with its own budget is its own line; the rest
+// count against the underwriting line they belong to.
+export const buildBudgetReport = (budget: ExpenseBudget, entries: LedgerEntry[]): BudgetLine[] => {
+  const lineFor = (category: ExpenseCategoryValue): ExpenseCategoryValue =>
+    budget[category] !== undefined ? category : BUDGET_LINE_BY_CATEGORY[category]
+
+  const lines = new Map<ExpenseCategoryValue, { includes: Set<ExpenseCategoryValue>; actual: number }>()
+  const lineEntry = (line: ExpenseCategoryValue) => {
+    if (!lines.has(line)) lines.set(line, { includes: new Set([line]), actual: 0 })
+    return lines.get(line)!
+  }
+
+  Object.keys(budget).forEach(category => lineEntry(category as ExpenseCategoryValue))
+  for (const entry of entries.filter(e => e.entryType === 'EXPENSE')) {
+    const line = lineEntry(lineFor(entry.category))
+    line.includes.add(entry.category)
+    line.actual += entry.amount
+  }
+
+  return EXPENSE_CATEGORIES
+    .filter(category => lines.has(category))
+    .map(category => {
+      const { includes, actual } = lines.get(category)!
+      const planned = budget[category] || 0
+      return {
+        category,
+        includes: EXPENSE_CATEGORIES.filter(c => includes.has(c)),
+        budget: round(planned),
+        actual: round(actual),
+        variance: round(planned - actual),
+        percentUsed: planned > 0 ? round(actual / planned * 100) : null,
+      }
+    })
+}
+
+// Cost basis after each expense, in date order, starting from the purchase price
+export const buildCostBasis = (purchasePrice: number, entries: LedgerEntry[]): CostBasisPoint[] => {
+  let costBasis = purchasePrice
+  return entries
+    .filter(entry => entry.entryType === 'EXPENSE')
+    .sort((a, b) => a.incurredAt.getTime() - b.incurredAt.getTime())
+    .map(entry => {
+      costBasis += entry.amount
+      return { date: entry.incurredAt, amount: round(entry.amount), costBasis: round(costBasis) }
+    })
+}
+
+// Realized (or estimated) profit against the underwritten projection. Cash invested is the
+// purchase price less the purchase loan, plus expenses not paid for by draws.
+export const buildProfitReport = (
+  deal: {
+    purchasePrice?: number | null
+    loanAmount?: number | null
+    arv?: number | null
+    salePrice?: number | null
+    netProfit?: number | null
+    roi?: number | null
+  },
+  entries: LedgerEntry[],
+  budgetLines: BudgetLine[]
+): ProfitReport => {
+  const purchasePrice = deal.purchasePrice || 0
+  const totalExpenses = sumExpenses(entries)
+  const totalDraws = sumExpenses(entries, 'DRAW')
+  const costBasis = purchasePrice + totalExpenses
+  const cashInvested = purchasePrice - (deal.loanAmount || 0) + totalExpenses - totalDraws
+
+  const salePrice = deal.salePrice ?? null
+  const actualProfit = salePrice !== null ? salePrice - costBasis : null
+  const unspent = budgetLines.reduce((sum, line) => sum + Math.max(0, line.variance), 0)
+  const estimatedProfit = salePrice === null && deal.arv ? deal.arv - costBasis - unspent : null
+  const realized = actualProfit ?? estimatedProfit
+  const projectedProfit = deal.netProfit ?? null
+
+  return {
+    purchasePrice: round(purchasePrice),
+    totalExpenses: round(totalExpenses),
+    totalDraws: round(totalDraws),
+    costBasis: round(costBasis),
+    salePrice,
+    actualProfit: actualProfit === null ? null : round(actualProfit),
+    actualRoi: actualProfit !== null && cashInvested > 0 ? round(actualProfit / cashInvested * 100) : null,
+    estimatedProfit: estimatedProfit === null ? null : round(estimatedProfit),
+    projectedProfit,
+    projectedRoi: deal.roi ?? null,
+    profitVariance: realized !== null && projectedProfit !== null ? round(realized - projectedProfit) : null,
+  }
+}
+
+// Calendar month of an entry (UTC), e.g. 2025-06
+export const ledgerMonth = (date: Date): string => date.toISOString().slice(0, 7)
+
+// Organization spending by category and month
+export const buildExpenseRollup = (entries: LedgerEntry[]): ExpenseRollup => {
+  const expenses = entries.filter(entry => entry.entryType === 'EXPENSE')
+  const months = [...new Set(expenses.map(entry => ledgerMonth(entry.incurredAt)))].sort()
+  const monthTotals: Record<string, number> = Object.fromEntries(months.map(month => [month, 0]))
+
+  const categories = EXPENSE_CATEGORIES
+    .map(category => {
+      const byMonth: Record<string, number> = {}
+      let total = 0
+      for (const entry of expenses.filter(e => e.category === category)) {
+        const month = ledgerMonth(entry.incurredAt)
+        byMonth[month] = round((byMonth[month] || 0) + entry.amount)
+        monthTotals[month] += entry.amount
+        total += entry.amount
+      }
+      return { category, total: round(total), byMonth }
+    })
+    .filter(category => category.total > 0)
+
+  return {
+    months,
+    categories,
+    monthTotals: Object.fromEntries(Object.entries(monthTotals).map(([month, total]) => [month, round(total)])),
+    total: round(sumExpenses(entries)),
+    draws: round(sumExpenses(entries, 'DRAW')),
+  }
+}
+
+export const LEDGER_EXPORT_HEADER = ['Date', 'Deal', 'Type', 'Category', 'Description', 'Vendor', 'Amount', 'Receipt', 'Entered By']
+
+// One CSV row per ledger entry; draws are negative so a column sum gives net cash out
+export const ledgerExportRow = (entry: LedgerEntry & {
+  description?: string | null
+  vendor?: string | null
+  deal?: { dealName: string } | null
+  document?: { name: string; url: string } | null
+  user?: { firstName: string; lastName: string } | null
+}): unknown[] => [
+  entry.incurredAt.toISOString().slice(0, 10),
+  entry.deal?.dealName,
+  entry.entryType,
+  entry.category,
+  entry.description,
+  entry.vendor,
+  (entry.entryType === 'DRAW' ? -entry.amount : entry.amount).toFixed(2),
+  entry.document ? `${entry.document.name} (${entry.document.url})` : '',
+  entry.user ? `${entry.user.firstName} ${entry.user.lastName}` : '',
+]
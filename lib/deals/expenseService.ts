@@ -0,0 +1,229 @@
+// LeadAI Pro - Deal Expense Service
+// Per-deal expense and draw ledger with receipts, budget-vs-actual reports, CSV export and org rollups
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import { formatCsvRow } from '../leads/csv'
+import { StoredUnderwriting } from './underwritingService'
+import {
+  ExpenseInput,
+  ExpenseBudget,
+  ExpenseCategoryValue,
+  LedgerEntryTypeValue,
+  BudgetLine,
+  CostBasisPoint,
+  ProfitReport,
+  ExpenseRollup,
+  LEDGER_EXPORT_HEADER,
+  resolveExpenseBudget,
+  buildBudgetReport,
+  buildCostBasis,
+  buildProfitReport,
+  buildExpenseRollup,
+  ledgerExportRow,
+} from './expenseLedger'
+
+export interface ExpenseFilter {
+  category?: ExpenseCategoryValue
+  entryType?: LedgerEntryTypeValue
+  from?: Date
+  to?: Date
+}
+
+export interface DealExpenseReport {
+  dealId: string
+  budget: BudgetLine[]
+  costBasis: CostBasisPoint[]
+  profit: ProfitReport
+}
+
+// Error raised for missing deals, entries or receipts
+export class DealExpenseError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state', public resource: string = 'Deal') {
+    super(message)
+    this.name = 'DealExpenseError'
+  }
+}
+
+const EXPORT_INCLUDE = {
+  deal: { select: { dealName: true } },
+  document: { select: { name: true, url: true } },
+  user: { select: { firstName: true, lastName: true } },
+}
+
+const toCsv = (entries: any[]): string =>
+  formatCsvRow(LEDGER_EXPORT_HEADER) + entries.map(entry => formatCsvRow(ledgerExportRow(entry))).join('')
+
+const entryWhere = (filter: ExpenseFilter) => ({
+  ...(filter.category && { category: filter.category as any }),
+  ...(filter.entryType && { entryType: filter.entryType as any }),
+  ...((filter.from || filter.to) && {
+    incurredAt: { ...(filter.from && { gte: filter.from }), ...(filter.to && { lt: filter.to }) },
+  }),
+})
+
+export class DealExpenseService {
+  constructor(private clock: Clock = systemClock) {}
+
+  async list(organizationId: string, dealId: string, filter: ExpenseFilter = {}): Promise<any[]> {
+    await this.requireDeal(organizationId, dealId)
+    return prisma.dealExpense.findMany({
+      where: { dealId, organizationId, ...entryWhere(filter) },
+      include: { document: { select: { id: true, name: true, url: true, mimeType: true } } },
+      orderBy: [{ incurredAt: 'asc' }, { createdAt: 'asc' }],
+    })
+  }
+
+  async create(organizationId: string, dealId: string, userId: string, input: ExpenseInput): Promise<any> {
+    await this.requireDeal(organizationId, dealId)
+    await this.checkReceipt(organizationId, input.documentId)
+
+    return prisma.dealExpense.create({
+      data: {
+        dealId,
+        organizationId,
+        userId,
+        entryType: (input.entryType || 'EXPENSE') as any,
+        category: input.category as any,
+        amount: input.amount,
+        description: input.description,
+        vendor: input.vendor,
+        incurredAt: new Date(input.incurredAt),
+        documentId: input.documentId || null,
+      },
+    })
+  }
+
+  async update(organizationId: string, dealId: string, expenseId: string, input: Partial<ExpenseInput>): Promise<any> {
+    await this.requireEntry(organizationId, dealId, expenseId)
+    await this.checkReceipt(organizationId, input.documentId)
+
+    return prisma.dealExpense.update({
+      where: { id: expenseId },
+      data: {
+        ...(input.entryType !== undefined && { entryType: input.entryType as any }),
+        ...(input.category !== undefined && { category: input.category as any }),
+        ...(input.amount !== undefined && { amount: input.amount }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.vendor !== undefined && { vendor: input.vendor }),
+        ...(input.incurredAt !== undefined && { incurredAt: new Date(input.incurredAt) }),
+        ...(input.documentId !== undefined && { documentId: input.documentId || null }),
+      },
+    })
+  }
+
+  async delete(organizationId: string, dealId: string, expenseId: string): Promise<void> {
+    const { count } = await prisma.dealExpense.deleteMany({ where: { id: expenseId, dealId, organizationId } })
+    if (count === 0) {
+      throw new DealExpenseError('Deal expense not found', 'not_found', 'Deal expense')
+    }
+  }
+
+  // Replace the deal's budget; categories set to null fall back to the underwritten amounts
+  async setBudget(organizationId: string, dealId: string, budget: ExpenseBudget): Promise<BudgetLine[]> {
+    await this.requireDeal(organizationId, dealId)
+    const expenseBudget = Object.fromEntries(Object.entries(budget).filter(([, amount]) => amount !== null && amount !== undefined))
+    await prisma.deal.update({
+      where: { id: dealId },
+      data: { expenseBudget: Object.keys(expenseBudget).length > 0 ? expenseBudget : null as any },
+    })
+    return (await this.report(organizationId, dealId)).budget
+  }
+
+  // Budget against actuals, the running cost basis and profit against the underwritten projection
+  async report(organizationId: string, dealId: string): Promise<DealExpenseReport> {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, organizationId },
+      select: {
+        id: true,
+        purchasePrice: true,
+        loanAmount: true,
+        arv: true,
+        salePrice: true,
+        repairCosts: true,
+        holdingCosts: true,
+        sellingCosts: true,
+        netProfit: true,
+        roi: true,
+        expenseBudget: true,
+        underwriting: true,
+      },
+    })
+    if (!deal) {
+      throw new DealExpenseError('Deal not found', 'not_found')
+    }
+
+    const entries = await prisma.dealExpense.findMany({
+      where: { dealId, organizationId },
+      select: { entryType: true, category: true, amount: true, incurredAt: true },
+      orderBy: { incurredAt: 'asc' },
+    })
+
+    const underwriting = deal.underwriting as StoredUnderwriting | null
+    const budget = buildBudgetReport(resolveExpenseBudget(deal as any, underwriting?.result?.costs), entries as any[])
+    return {
+      dealId,
+      budget,
+      costBasis: buildCostBasis(deal.purchasePrice || 0, entries as any[]),
+      profit: buildProfitReport(deal, entries as any[], budget),
+    }
+  }
+
+  // Ledger CSV for one deal
+  async exportDeal(organizationId: string, dealId: string): Promise<string> {
+    await this.requireDeal(organizationId, dealId)
+    const entries = await prisma.dealExpense.findMany({
+      where: { dealId, organizationId },
+      include: EXPORT_INCLUDE,
+      orderBy: [{ incurredAt: 'asc' }, { createdAt: 'asc' }],
+    })
+    return toCsv(entries)
+  }
+
+  // Ledger CSV across every deal in the organization
+  async exportOrganization(organizationId: string, filter: ExpenseFilter = {}): Promise<string> {
+    const entries = await prisma.dealExpense.findMany({
+      where: { organizationId, ...entryWhere(filter) },
+      include: EXPORT_INCLUDE,
+      orderBy: [{ incurredAt: 'asc' }, { createdAt: 'asc' }],
+    })
+    return toCsv(entries)
+  }
+
+  // Organization spending by category and month; the last twelve months unless a range is given
+  async rollup(organizationId: string, filter: Pick<ExpenseFilter, 'from' | 'to'> = {}): Promise<ExpenseRollup & { from: Date; to: Date }> {
+    const to = filter.to || this.clock.now()
+    const from = filter.from || new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth() - 11, 1))
+
+    const entries = await prisma.dealExpense.findMany({
+      where: { organizationId, incurredAt: { gte: from, lt: to } },
+      select: { entryType: true, category: true, amount: true, incurredAt: true },
+    })
+    return { ...buildExpenseRollup(entries as any[]), from, to }
+  }
+
+  private async requireDeal(organizationId: string, dealId: string): Promise<void> {
+    const deal = await prisma.deal.findFirst({ where: { id: dealId, organizationId }, select: { id: true } })
+    if (!deal) {
+      throw new DealExpenseError('Deal not found', 'not_found')
+    }
+  }
+
+  private async requireEntry(organizationId: string, dealId: string, expenseId: string): Promise<void> {
+    const entry = await prisma.dealExpense.findFirst({ where: { id: expenseId, dealId, organizationId }, select: { id: true } })
+    if (!entry) {
+      throw new DealExpenseError('Deal expense not found', 'not_found', 'Deal expense')
+    }
+  }
+
+  // Receipts are documents uploaded by someone in the organization
+  private async checkReceipt(organizationId: string, documentId: string | null | undefined): Promise<void> {
+    if (!documentId) return
+    const document = await prisma.document.findFirst({ where: { id: documentId, uploadedBy: { organizationId } }, select: { id: true } })
+    if (!document) {
+      throw new DealExpenseError('Receipt document not found', 'not_found', 'Document')
+    }
+  }
+}
+
+export const dealExpenseService = new DealExpenseService()
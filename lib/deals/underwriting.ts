@@ -0,0 +1,660 @@
+// LeadAI Pro - Deal Underwriting
+// Deterministic flip, BRRRR, rental and wholesale math: offers, financing, holding costs and returns
+
+export const DEAL_TYPES = [
+  'WHOLESALE', 'FIX_AND_FLIP', 'BUY_AND_HOLD', 'BRRRR', 'LIVE_IN_FLIP', 'COMMERCIAL', 'LAND_DEVELOPMENT', 'ASSIGNMENT',
+] as const
+export type DealTypeValue = typeof DEAL_TYPES[number]
+
+export const INVESTMENT_STRATEGIES = [
+  'CASH_PURCHASE', 'CONVENTIONAL_LOAN', 'HARD_MONEY', 'PRIVATE_MONEY', 'SELLER_FINANCING', 'LEASE_OPTION', 'SUBJECT_TO', 'PARTNERSHIP',
+] as const
+export type InvestmentStrategyValue = typeof INVESTMENT_STRATEGIES[number]
+
+export type UnderwritingModel = 'flip' | 'brrrr' | 'rental' | 'wholesale'
+
+export const UNDERWRITING_MODEL_BY_DEAL_TYPE: Record<DealTypeValue, UnderwritingModel> = {
+  WHOLESALE: 'wholesale',
+  ASSIGNMENT: 'wholesale',
+  FIX_AND_FLIP: 'flip',
+  LIVE_IN_FLIP: 'flip',
+  LAND_DEVELOPMENT: 'flip',
+  BUY_AND_HOLD: 'rental',
+  COMMERCIAL: 'rental',
+  BRRRR: 'brrrr',
+}
+
+// Short-term lenders charge interest only while the property is rehabbed
+const INTEREST_ONLY_STRATEGIES: InvestmentStrategyValue[] = ['HARD_MONEY', 'PRIVATE_MONEY']
+
+// Every input the models read. Rates and percentages are in percent (7.5 means 7.5%).
+export interface UnderwritingAssumptions {
+  purchasePrice?: number
+  arv?: number
+  repairCosts?: number
+
+  // Financing; a loan amount wins over a down payment
+  downPayment?: number
+  loanAmount?: number
+  interestRate?: number
+  loanTerm?: number // months
+  interestOnly?: boolean
+  loanPoints?: number
+
+  // Offer rules
+  maoPercent?: number
+  // Profit a flip must leave (amount, else percent of ARV) for the custom offer
+  targetProfit?: number
+  targetProfitPercent?: number
+  // Cash-on-cash return rentals and BRRRRs must reach for the custom offer
+  targetCashOnCashPercent?: number
+  assignmentFee?: number
+
+  // Timeline
+  rehabMonths?: number
+  monthsToSell?: number
+
+  // Transaction costs
+  closingCostPercent?: number
+  sellingCostPercent?: number
+
+  // Carrying and operating costs
+  annualTaxes?: number
+  annualInsurance?: number
+  monthlyUtilities?: number
+  monthlyHoa?: number
+
+  // Rental income and reserves
+  monthlyRent?: number
+  otherMonthlyIncome?: number
+  vacancyPercent?: number
+  managementPercent?: number
+  maintenancePercent?: number
+  capexPercent?: number
+
+  // BRRRR refinance
+  refinanceLtvPercent?: number
+  refinanceRate?: number
+  refinanceTerm?: number // months
+  refinanceClosingCostPercent?: number
+}
+
+export const DEFAULT_UNDERWRITING_ASSUMPTIONS = {
+  repairCosts: 0,
+  loanTerm: 360,
+  loanPoints: 0,
+  maoPercent: 70,
+  targetProfitPercent: 15,
+  targetCashOnCashPercent: 8,
+  assignmentFee: 10000,
+  rehabMonths: 4,
+  monthsToSell: 2,
+  closingCostPercent: 2,
+  sellingCostPercent: 8,
+  annualTaxes: 0,
+  annualInsurance: 0,
+  monthlyUtilities: 0,
+  monthlyHoa: 0,
+  otherMonthlyIncome: 0,
+  vacancyPercent: 8,
+  managementPercent: 8,
+  maintenancePercent: 5,
+  capexPercent: 5,
+  refinanceLtvPercent: 75,
+  refinanceTerm: 360,
+  refinanceClosingCostPercent: 2,
+}
+
+export type ResolvedAssumptions = UnderwritingAssumptions & typeof DEFAULT_UNDERWRITING_ASSUMPTIONS
+
+// Inputs each model cannot run without
+const REQUIRED_INPUTS: Record<UnderwritingModel, Array<keyof UnderwritingAssumptions>> = {
+  flip: ['purchasePrice', 'arv'],
+  brrrr: ['purchasePrice', 'arv', 'monthlyRent'],
+  rental: ['purchasePrice', 'monthlyRent'],
+  wholesale: ['arv'],
+}
+
+const NUMERIC_FIELDS: Array<keyof UnderwritingAssumptions> = [
+  'purchasePrice', 'arv', 'repairCosts', 'downPayment', 'loanAmount', 'interestRate', 'loanTerm', 'loanPoints',
+  'maoPercent', 'targetProfit', 'targetProfitPercent', 'targetCashOnCashPercent', 'assignmentFee', 'rehabMonths',
+  'monthsToSell', 'closingCostPercent', 'sellingCostPercent', 'annualTaxes', 'annualInsurance', 'monthlyUtilities',
+  'monthlyHoa', 'monthlyRent', 'otherMonthlyIncome', 'vacancyPercent', 'managementPercent', 'maintenancePercent',
+  'capexPercent', 'refinanceLtvPercent', 'refinanceRate', 'refinanceTerm', 'refinanceClosingCostPercent',
+]
+
+const PERCENT_FIELDS: Array<keyof UnderwritingAssumptions> = [
+  'interestRate', 'loanPoints', 'maoPercent', 'targetProfitPercent', 'closingCostPercent', 'sellingCostPercent',
+  'vacancyPercent', 'managementPercent', 'maintenancePercent', 'capexPercent', 'refinanceLtvPercent', 'refinanceRate',
+  'refinanceClosingCostPercent',
+]
+
+const MONTH_FIELDS: Array<keyof UnderwritingAssumptions> = ['loanTerm', 'rehabMonths', 'monthsToSell', 'refinanceTerm']
+
+// Validate assumption overrides, returning human-readable problems
+export const validateUnderwritingAssumptions = (input: Record<string, any>): string[] => {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    return ['assumptions must be an object']
+  }
+
+  const errors: string[] = []
+  for (const key of Object.keys(input)) {
+    const value = input[key]
+    if (value === undefined || value === null) continue
+
+    if (key === 'interestOnly') {
+      if (typeof value !== 'boolean') errors.push('interestOnly must be true or false')
+      continue
+    }
+    if (!NUMERIC_FIELDS.includes(key as keyof UnderwritingAssumptions)) {
+      errors.push(`${key} is not an underwriting assumption`)
+      continue
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${key} must be a non-negative number`)
+    } else if (PERCENT_FIELDS.includes(key as keyof UnderwritingAssumptions) && value > 100) {
+      errors.push(`${key} is a percentage and must be at most 100`)
+    } else if (MONTH_FIELDS.includes(key as keyof UnderwritingAssumptions) && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number of months`)
+    }
+  }
+
+  if (input.loanTerm === 0 || input.refinanceTerm === 0) {
+    errors.push('loan terms must be at least one month')
+  }
+  return errors
+}
+
+// Inputs the model still needs, after deal, property and saved values were merged in
+export const getMissingInputs = (
+  model: UnderwritingModel,
+  strategy: InvestmentStrategyValue,
+  assumptions: UnderwritingAssumptions
+): string[] => {
+  const missing: string[] = REQUIRED_INPUTS[model].filter(key => assumptions[key] === undefined || assumptions[key] === null)
+  const financed = strategy !== 'CASH_PURCHASE' && model !== 'wholesale' &&
+    ((assumptions.loanAmount || 0) > 0 || (assumptions.downPayment !== undefined && assumptions.downPayment < (assumptions.purchasePrice || 0)))
+  if (financed && (assumptions.interestRate === undefined || assumptions.interestRate === null)) {
+    missing.push('interestRate')
+  }
+  return missing
+}
+
+// Later sources win; unset (undefined/null) values never overwrite set ones
+export const resolveAssumptions = (...sources: Array<UnderwritingAssumptions | undefined>): ResolvedAssumptions => {
+  const merged: Record<string, any> = { ...DEFAULT_UNDERWRITING_ASSUMPTIONS }
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (value !== undefined && value !== null) merged[key] = value
+    }
+  }
+  return merged as ResolvedAssumptions
+}
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places
+  return Math.round(value * factor) / factor
+}
+
+const percentOf = (part: number, whole: number): number | null =>
+  whole > 0 ? round(part / whole * 100) : null
+
+// Level monthly payment that repays the principal over the term
+export const amortizedPayment = (principal: number, annualRatePercent: number, termMonths: number): number => {
+  if (principal <= 0) return 0
+  const rate = annualRatePercent / 100 / 12
+  if (rate === 0) return principal / termMonths
+  return principal * rate / (1 - (1 + rate) ** -termMonths)
+}
+
+// Balance left after `months` level payments
+export const remainingBalance = (principal: number, annualRatePercent: number, termMonths: number, months: number): number => {
+  if (principal <= 0) return 0
+  const paid = Math.min(months, termMonths)
+  const rate = annualRatePercent / 100 / 12
+  if (rate === 0) return principal * (1 - paid / termMonths)
+  const payment = amortizedPayment(principal, annualRatePercent, termMonths)
+  return principal * (1 + rate) ** paid - payment * ((1 + rate) ** paid - 1) / rate
+}
+
+export interface LoanTerms {
+  principal: number
+  interestRate: number
+  termMonths: number
+  interestOnly: boolean
+}
+
+export const monthlyLoanPayment = (loan: LoanTerms): number =>
+  loan.interestOnly
+    ? loan.principal * loan.interestRate / 100 / 12
+    : amortizedPayment(loan.principal, loan.interestRate, loan.termMonths)
+
+// Interest paid over the first `months` of a loan; principal repaid is the borrower's own money
+export const interestPaid = (loan: LoanTerms, months: number): number => {
+  if (loan.principal <= 0 || months <= 0) return 0
+  if (loan.interestOnly) return loan.principal * loan.interestRate / 100 / 12 * months
+  const paid = Math.min(months, loan.termMonths)
+  const balance = remainingBalance(loan.principal, loan.interestRate, loan.termMonths, paid)
+  return monthlyLoanPayment(loan) * paid - (loan.principal - balance)
+}
+
+// The 70% rule: ARV times the percentage, less repairs
+export const ruleOfThumbOffer = (arv: number, repairCosts: number, maoPercent: number): number =>
+  Math.max(0, arv * maoPercent / 100 - repairCosts)
+
+export interface FinancingSummary {
+  loanAmount: number
+  downPayment: number
+  interestRate: number
+  loanTerm: number
+  interestOnly: boolean
+  monthlyPayment: number
+  pointsCost: number
+  interestDuringHold: number
+}
+
+export interface CostSummary {
+  acquisitionCosts: number
+  repairCosts: number
+  holdingMonths: number
+  holdingCosts: number
+  sellingCosts: number
+  totalCost: number
+  cashInvested: number
+}
+
+export interface ReturnSummary {
+  grossProfit: number | null
+  netProfit: number | null
+  roi: number | null
+  annualizedRoi: number | null
+  cashOnCash: number | null
+  capRate: number | null
+}
+
+export interface RentalSummary {
+  grossScheduledIncome: number
+  vacancyLoss: number
+  effectiveGrossIncome: number
+  operatingExpenses: number
+  noi: number
+  annualDebtService: number
+  annualCashFlow: number
+  monthlyCashFlow: number
+  dscr: number | null
+}
+
+export interface RefinanceSummary {
+  loanAmount: number
+  closingCosts: number
+  payoff: number
+  cashOut: number
+  cashLeftInDeal: number
+  equity: number
+  monthlyPayment: number
+}
+
+export interface OfferSummary {
+  ruleOfThumb: number | null
+  custom: number | null
+  maoPercent: number
+  // What the custom offer was solved for
+  target: { metric: 'netProfit' | 'cashOnCash'; value: number }
+}
+
+export interface SensitivityTable {
+  metric: string
+  rowVariable: keyof UnderwritingAssumptions
+  columnVariable: keyof UnderwritingAssumptions
+  rows: number[]
+  columns: number[]
+  // values[row][column]
+  values: Array<Array<number | null>>
+}
+
+export interface UnderwritingResult {
+  model: UnderwritingModel
+  dealType: DealTypeValue
+  strategy: InvestmentStrategyValue
+  assumptions: ResolvedAssumptions
+  offer: OfferSummary
+  financing: FinancingSummary
+  costs: CostSummary
+  returns: ReturnSummary
+  rental?: RentalSummary
+  refinance?: RefinanceSummary
+  sensitivity: SensitivityTable[]
+}
+
+type ModelResult = Omit<UnderwritingResult, 'offer' | 'sensitivity'>
+
+// Without a loan amount or down payment the purchase is treated as cash. Rehab lenders may
+// lend past the price (up to price plus repairs), which shows up as a negative cash share.
+const financingFor = (strategy: InvestmentStrategyValue, a: ResolvedAssumptions): LoanTerms & { cashAtPurchase: number } => {
+  const price = a.purchasePrice || 0
+  if (strategy === 'CASH_PURCHASE') {
+    return { principal: 0, interestRate: 0, termMonths: a.loanTerm, interestOnly: false, cashAtPurchase: price }
+  }
+
+  const requested = a.loanAmount ?? (a.downPayment !== undefined ? Math.max(0, price - a.downPayment) : 0)
+  const principal = Math.min(price + a.repairCosts, requested)
+  return {
+    principal,
+    interestRate: a.interestRate ?? 0,
+    termMonths: a.loanTerm,
+    interestOnly: a.interestOnly ?? INTEREST_ONLY_STRATEGIES.includes(strategy),
+    cashAtPurchase: price - principal,
+  }
+}
+
+const rentalOperations = (a: ResolvedAssumptions, annualDebtService: number): RentalSummary => {
+  const grossScheduledIncome = ((a.monthlyRent || 0) + a.otherMonthlyIncome) * 12
+  const vacancyLoss = grossScheduledIncome * a.vacancyPercent / 100
+  const effectiveGrossIncome = grossScheduledIncome - vacancyLoss
+  // Management is paid on collected rent; maintenance and capital reserves on scheduled rent
+  const operatingExpenses = a.annualTaxes + a.annualInsurance + a.monthlyHoa * 12 +
+    effectiveGrossIncome * a.managementPercent / 100 +
+    grossScheduledIncome * (a.maintenancePercent + a.capexPercent) / 100
+  const noi = effectiveGrossIncome - operatingExpenses
+  const annualCashFlow = noi - annualDebtService
+
+  return {
+    grossScheduledIncome: round(grossScheduledIncome),
+    vacancyLoss: round(vacancyLoss),
+    effectiveGrossIncome: round(effectiveGrossIncome),
+    operatingExpenses: round(operatingExpenses),
+    noi: round(noi),
+    annualDebtService: round(annualDebtService),
+    annualCashFlow: round(annualCashFlow),
+    monthlyCashFlow: round(annualCashFlow / 12),
+    dscr: annualDebtService > 0 ? round(noi / annualDebtService) : null,
+  }
+}
+
+// Runs the model for the deal type without offers or sensitivity tables
+export const runUnderwritingModel = (
+  dealType: DealTypeValue,
+  strategy: InvestmentStrategyValue,
+  a: ResolvedAssumptions
+): ModelResult => {
+  const model = UNDERWRITING_MODEL_BY_DEAL_TYPE[dealType]
+  const price = a.purchasePrice || 0
+  const arv = a.arv || 0
+  const loan = financingFor(strategy, a)
+  const monthlyPayment = monthlyLoanPayment(loan)
+  const pointsCost = loan.principal * a.loanPoints / 100
+  const acquisitionCosts = price * a.closingCostPercent / 100 + pointsCost
+  const monthlyCarry = a.annualTaxes / 12 + a.annualInsurance / 12 + a.monthlyUtilities + a.monthlyHoa
+
+  // Flips carry the property through rehab and the sale; BRRRRs until the refinance
+  const holdingMonths = model === 'flip' ? a.rehabMonths + a.monthsToSell : model === 'brrrr' ? a.rehabMonths : 0
+  const interestDuringHold = interestPaid(loan, holdingMonths)
+  const holdingCosts = monthlyCarry * holdingMonths + interestDuringHold
+  // Principal paid down while holding is the investor's cash too
+  const principalDuringHold = loan.principal - (loan.interestOnly ? loan.principal
+    : remainingBalance(loan.principal, loan.interestRate, loan.termMonths, holdingMonths))
+
+  const financing: FinancingSummary = {
+    loanAmount: round(loan.principal),
+    downPayment: round(Math.max(0, loan.cashAtPurchase)),
+    interestRate: loan.interestRate,
+    loanTerm: loan.termMonths,
+    interestOnly: loan.interestOnly,
+    monthlyPayment: round(monthlyPayment),
+    pointsCost: round(pointsCost),
+    interestDuringHold: round(interestDuringHold),
+  }
+  const base = { model, dealType, strategy, assumptions: a, financing }
+
+  if (model === 'wholesale') {
+    // The contract is assigned, so the fee is the profit and little cash is at risk
+    return {
+      ...base,
+      costs: { acquisitionCosts: 0, repairCosts: round(a.repairCosts), holdingMonths: 0, holdingCosts: 0, sellingCosts: 0, totalCost: 0, cashInvested: 0 },
+      returns: { grossProfit: round(a.assignmentFee), netProfit: round(a.assignmentFee), roi: null, annualizedRoi: null, cashOnCash: null, capRate: null },
+    }
+  }
+
+  if (model === 'flip') {
+    const sellingCosts = arv * a.sellingCostPercent / 100
+    const totalCost = price + a.repairCosts + acquisitionCosts + holdingCosts + sellingCosts
+    const cashInvested = loan.cashAtPurchase + acquisitionCosts + a.repairCosts + holdingCosts + principalDuringHold
+    const netProfit = arv - totalCost
+    const roi = percentOf(netProfit, cashInvested)
+
+    return {
+      ...base,
+      costs: {
+        acquisitionCosts: round(acquisitionCosts),
+        repairCosts: round(a.repairCosts),
+        holdingMonths,
+        holdingCosts: round(holdingCosts),
+        sellingCosts: round(sellingCosts),
+        totalCost: round(totalCost),
+        cashInvested: round(cashInvested),
+      },
+      returns: {
+        grossProfit: round(arv - price - a.repairCosts),
+        netProfit: round(netProfit),
+        roi,
+        annualizedRoi: roi !== null && holdingMonths > 0 ? round(roi * 12 / holdingMonths) : null,
+        cashOnCash: null,
+        capRate: null,
+      },
+    }
+  }
+
+  if (model === 'rental') {
+    const rental = rentalOperations(a, monthlyPayment * 12)
+    const cashInvested = loan.cashAtPurchase + acquisitionCosts + a.repairCosts
+    // Year-one return counts principal paid down along with cash flow
+    const principalYearOne = loan.interestOnly ? 0
+      : loan.principal - remainingBalance(loan.principal, loan.interestRate, loan.termMonths, 12)
+
+    return {
+      ...base,
+      costs: {
+        acquisitionCosts: round(acquisitionCosts),
+        repairCosts: round(a.repairCosts),
+        holdingMonths: 0,
+        holdingCosts: 0,
+        sellingCosts: 0,
+        totalCost: round(price + acquisitionCosts + a.repairCosts),
+        cashInvested: round(cashInvested),
+      },
+      returns: {
+        grossProfit: null,
+        netProfit: null,
+        roi: percentOf(rental.annualCashFlow + principalYearOne, cashInvested),
+        annualizedRoi: null,
+        cashOnCash: percentOf(rental.annualCashFlow, cashInvested),
+        capRate: percentOf(rental.noi, price),
+      },
+      rental,
+    }
+  }
+
+  // BRRRR: buy and rehab with short-term money, refinance on the ARV, then rent
+  const cashInvested = loan.cashAtPurchase + acquisitionCosts + a.repairCosts + holdingCosts + principalDuringHold
+  const refinanceLoan = arv * a.refinanceLtvPercent / 100
+  const refinanceCosts = refinanceLoan * a.refinanceClosingCostPercent / 100
+  const payoff = loan.interestOnly ? loan.principal
+    : remainingBalance(loan.principal, loan.interestRate, loan.termMonths, holdingMonths)
+  const cashOut = refinanceLoan - refinanceCosts - payoff
+  const cashLeftInDeal = Math.max(0, cashInvested - cashOut)
+  const refinanceRate = a.refinanceRate ?? loan.interestRate
+  const refinancePayment = amortizedPayment(refinanceLoan, refinanceRate, a.refinanceTerm)
+  const rental = rentalOperations(a, refinancePayment * 12)
+  const allInCost = price + acquisitionCosts + a.repairCosts + holdingCosts + refinanceCosts
+
+  return {
+    ...base,
+    costs: {
+      acquisitionCosts: round(acquisitionCosts),
+      repairCosts: round(a.repairCosts),
+      holdingMonths,
+      holdingCosts: round(holdingCosts),
+      sellingCosts: 0,
+      totalCost: round(allInCost),
+      cashInvested: round(cashInvested),
+    },
+    returns: {
+      grossProfit: round(arv - price - a.repairCosts),
+      // Equity created once the refinance has paid back what it can
+      netProfit: round(arv - refinanceLoan - cashLeftInDeal),
+      roi: cashLeftInDeal > 0 ? percentOf(rental.annualCashFlow + arv - refinanceLoan - cashLeftInDeal, cashLeftInDeal) : null,
+      annualizedRoi: null,
+      // No cash left in the deal means an unbounded return, reported as null
+      cashOnCash: cashLeftInDeal > 0 ? percentOf(rental.annualCashFlow, cashLeftInDeal) : null,
+      capRate: percentOf(rental.noi, allInCost),
+    },
+    rental,
+    refinance: {
+      loanAmount: round(refinanceLoan),
+      closingCosts: round(refinanceCosts),
+      payoff: round(payoff),
+      cashOut: round(cashOut),
+      cashLeftInDeal: round(cashLeftInDeal),
+      equity: round(arv - refinanceLoan),
+      monthlyPayment: round(refinancePayment),
+    },
+  }
+}
+
+// Keeps the deal's loan-to-price ratio when the price changes, so offers are solved on the same financing
+const atPrice = (a: ResolvedAssumptions, purchasePrice: number): ResolvedAssumptions => {
+  const ratio = a.purchasePrice ? purchasePrice / a.purchasePrice : 0
+  return {
+    ...a,
+    purchasePrice,
+    ...(a.loanAmount !== undefined && { loanAmount: a.loanAmount * ratio }),
+    ...(a.downPayment !== undefined && { downPayment: a.downPayment * ratio }),
+  }
+}
+
+// Highest price (to the dollar) at which `meets` still holds; returns decrease as the price rises
+const solveMaxPrice = (ceiling: number, meets: (price: number) => boolean): number | null => {
+  if (ceiling < 1 || !meets(1)) return null
+  if (meets(ceiling)) return round(ceiling, 0)
+
+  let low = 1
+  let high = ceiling
+  while (high - low > 1) {
+    const mid = (low + high) / 2
+    if (meets(mid)) low = mid
+    else high = mid
+  }
+  return Math.floor(low)
+}
+
+const offerFor = (dealType: DealTypeValue, strategy: InvestmentStrategyValue, a: ResolvedAssumptions): OfferSummary => {
+  const model = UNDERWRITING_MODEL_BY_DEAL_TYPE[dealType]
+  const ruleOfThumb = a.arv ? round(ruleOfThumbOffer(a.arv, a.repairCosts, a.maoPercent)) : null
+
+  if (model === 'flip' || model === 'wholesale') {
+    const targetProfit = a.targetProfit ?? (a.arv || 0) * a.targetProfitPercent / 100
+    // A wholesaler's offer is what a flipper would pay, less the assignment fee
+    const buyerPrice = solveMaxPrice(a.arv || 0, price => {
+      const result = runUnderwritingModel('FIX_AND_FLIP', strategy, atPrice(a, price))
+      return (result.returns.netProfit ?? -Infinity) >= targetProfit
+    })
+    const custom = buyerPrice === null ? null : model === 'wholesale' ? Math.max(0, buyerPrice - a.assignmentFee) : buyerPrice
+    return { ruleOfThumb, custom, maoPercent: a.maoPercent, target: { metric: 'netProfit', value: round(targetProfit) } }
+  }
+
+  const ceiling = Math.max(a.arv || 0, (a.purchasePrice || 0) * 2)
+  const custom = solveMaxPrice(ceiling, price => {
+    const returns = runUnderwritingModel(dealType, strategy, atPrice(a, price)).returns
+    // BRRRRs that return every dollar invested meet any target
+    return returns.cashOnCash === null ? model === 'brrrr' : returns.cashOnCash >= a.targetCashOnCashPercent
+  })
+  return { ruleOfThumb, custom, maoPercent: a.maoPercent, target: { metric: 'cashOnCash', value: a.targetCashOnCashPercent } }
+}
+
+const PRICE_STEPS = [-0.1, -0.05, 0, 0.05, 0.1]
+const RATE_STEPS = [-1, -0.5, 0, 0.5, 1]
+const MONTH_STEPS = [-2, -1, 0, 1, 2]
+
+type Metric = (result: ModelResult) => number | null
+
+// Steps are fractions of the current value when relative, otherwise added to it
+interface SensitivityAxis {
+  variable: keyof UnderwritingAssumptions
+  steps: number[]
+  relative: boolean
+}
+
+const sensitivityTable = (
+  dealType: DealTypeValue,
+  strategy: InvestmentStrategyValue,
+  a: ResolvedAssumptions,
+  metric: string,
+  read: Metric,
+  row: SensitivityAxis,
+  column: SensitivityAxis
+): SensitivityTable => {
+  const valuesFor = (axis: SensitivityAxis): number[] => {
+    const current = Number(a[axis.variable]) || 0
+    const values = axis.steps.map(step => round(axis.relative ? current * (1 + step) : current + step))
+    return [...new Set(values.filter(value => value >= 0))]
+  }
+  const rows = valuesFor(row)
+  const columns = valuesFor(column)
+
+  return {
+    metric,
+    rowVariable: row.variable,
+    columnVariable: column.variable,
+    rows,
+    columns,
+    values: rows.map(rowValue => columns.map(columnValue =>
+      read(runUnderwritingModel(dealType, strategy, { ...a, [row.variable]: rowValue, [column.variable]: columnValue }))
+    )),
+  }
+}
+
+const sensitivityFor = (dealType: DealTypeValue, strategy: InvestmentStrategyValue, a: ResolvedAssumptions): SensitivityTable[] => {
+  const model = UNDERWRITING_MODEL_BY_DEAL_TYPE[dealType]
+  const arv: SensitivityAxis = { variable: 'arv', steps: PRICE_STEPS, relative: true }
+  const repairs: SensitivityAxis = { variable: 'repairCosts', steps: PRICE_STEPS, relative: true }
+  const rent: SensitivityAxis = { variable: 'monthlyRent', steps: PRICE_STEPS, relative: true }
+  const table = (metric: string, read: Metric, row: SensitivityAxis, column: SensitivityAxis) =>
+    sensitivityTable(dealType, strategy, a, metric, read, row, column)
+
+  switch (model) {
+    case 'wholesale':
+      return [
+        table('ruleOfThumbOffer', result => round(ruleOfThumbOffer(result.assumptions.arv || 0, result.assumptions.repairCosts, result.assumptions.maoPercent)), arv, repairs),
+      ]
+    case 'flip':
+      return [
+        table('netProfit', result => result.returns.netProfit, arv, repairs),
+        table('roi', result => result.returns.roi, arv, { variable: 'rehabMonths', steps: MONTH_STEPS, relative: false }),
+      ]
+    case 'rental':
+      return [
+        table('monthlyCashFlow', result => result.rental!.monthlyCashFlow, rent, { variable: 'interestRate', steps: RATE_STEPS, relative: false }),
+        table('cashOnCash', result => result.returns.cashOnCash, rent, { variable: 'vacancyPercent', steps: RATE_STEPS.map(step => step * 4), relative: false }),
+      ]
+    case 'brrrr':
+      return [
+        table('cashLeftInDeal', result => result.refinance!.cashLeftInDeal, arv, repairs),
+        table('monthlyCashFlow', result => result.rental!.monthlyCashFlow, rent, { variable: 'refinanceRate', steps: RATE_STEPS, relative: false }),
+      ]
+  }
+}
+
+// Full underwriting: the deal type's model plus offers and sensitivity tables
+export const underwrite = (
+  dealType: DealTypeValue,
+  strategy: InvestmentStrategyValue,
+  assumptions: ResolvedAssumptions
+): UnderwritingResult => {
+  // Sensitivity on the refinance rate needs a starting value
+  const a = { ...assumptions, refinanceRate: assumptions.refinanceRate ?? assumptions.interestRate ?? 0 }
+  return {
+    ...runUnderwritingModel(dealType, strategy, a),
+    offer: offerFor(dealType, strategy, a),
+    sensitivity: sensitivityFor(dealType, strategy, a),
+  }
+}
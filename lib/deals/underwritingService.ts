@@ -0,0 +1,125 @@
+// LeadAI Pro - Deal Underwriting Service
+// Underwrites a deal from its own numbers, its property and saved assumptions, and stores the result on the deal
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import {
+  DealTypeValue,
+  InvestmentStrategyValue,
+  UnderwritingAssumptions,
+  UnderwritingResult,
+  UNDERWRITING_MODEL_BY_DEAL_TYPE,
+  getMissingInputs,
+  resolveAssumptions,
+  underwrite,
+} from './underwriting'
+
+// Assumptions that are columns on the deal; the rest are kept with the underwriting
+const DEAL_INPUT_FIELDS = ['purchasePrice', 'arv', 'repairCosts', 'downPayment', 'loanAmount', 'interestRate', 'loanTerm'] as const
+
+export interface StoredUnderwriting {
+  overrides: UnderwritingAssumptions
+  result: UnderwritingResult
+  underwrittenBy?: string
+}
+
+export interface UnderwriteOptions {
+  // Preview without saving anything to the deal
+  save?: boolean
+  userId?: string
+}
+
+// Error raised when a deal is missing or lacks the numbers its model needs
+export class DealUnderwritingError extends Error {
+  constructor(
+    message: string,
+    public code: 'not_found' | 'invalid_state',
+    public missingInputs: string[] = []
+  ) {
+    super(message)
+    this.name = 'DealUnderwritingError'
+  }
+}
+
+const pick = (source: Record<string, any>, keys: readonly string[]): Record<string, any> =>
+  Object.fromEntries(keys.filter(key => source[key] !== undefined && source[key] !== null).map(key => [key, source[key]]))
+
+export class DealUnderwritingService {
+  constructor(private clock: Clock = systemClock) {}
+
+  async underwrite(
+    organizationId: string,
+    dealId: string,
+    assumptions: UnderwritingAssumptions = {},
+    options: UnderwriteOptions = {}
+  ): Promise<{ deal: any; underwriting: UnderwritingResult }> {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, organizationId },
+      include: { property: { select: { arv: true, monthlyRent: true, annualTaxes: true } } },
+    })
+    if (!deal) {
+      throw new DealUnderwritingError('Deal not found', 'not_found')
+    }
+
+    const dealType = deal.dealType as DealTypeValue
+    const strategy = deal.strategy as InvestmentStrategyValue
+    const saved = (deal.underwriting as StoredUnderwriting | null)?.overrides || {}
+    const requestDealInputs = pick(assumptions, DEAL_INPUT_FIELDS)
+    const overrides: UnderwritingAssumptions = {
+      ...saved,
+      ...Object.fromEntries(Object.entries(assumptions).filter(([key]) => !(DEAL_INPUT_FIELDS as readonly string[]).includes(key))),
+    }
+
+    // Property data, then the deal's own numbers, then saved and requested assumptions
+    const resolved = resolveAssumptions(
+      pick(deal.property || {}, ['arv', 'monthlyRent', 'annualTaxes']),
+      pick(deal, DEAL_INPUT_FIELDS),
+      overrides,
+      requestDealInputs
+    )
+
+    const model = UNDERWRITING_MODEL_BY_DEAL_TYPE[dealType]
+    const missing = getMissingInputs(model, strategy, resolved)
+    if (missing.length > 0) {
+      throw new DealUnderwritingError(`Underwriting a ${model} deal needs: ${missing.join(', ')}`, 'invalid_state', missing)
+    }
+
+    const result = underwrite(dealType, strategy, resolved)
+    if (options.save === false) {
+      return { deal, underwriting: result }
+    }
+
+    const stored: StoredUnderwriting = { overrides, result, ...(options.userId && { underwrittenBy: options.userId }) }
+    const updated = await prisma.deal.update({
+      where: { id: deal.id },
+      data: {
+        ...requestDealInputs,
+        holdingCosts: result.costs.holdingCosts,
+        sellingCosts: result.costs.sellingCosts,
+        grossProfit: result.returns.grossProfit,
+        netProfit: result.returns.netProfit,
+        roi: result.returns.roi,
+        cashOnCash: result.returns.cashOnCash,
+        capRate: result.returns.capRate,
+        underwriting: stored as any,
+        underwrittenAt: this.clock.now(),
+      },
+    })
+
+    return { deal: updated, underwriting: result }
+  }
+
+  // The last saved underwriting, or null when the deal was never underwritten
+  async getUnderwriting(organizationId: string, dealId: string): Promise<{ underwriting: StoredUnderwriting | null; underwrittenAt: Date | null }> {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, organizationId },
+      select: { underwriting: true, underwrittenAt: true },
+    })
+    if (!deal) {
+      throw new DealUnderwritingError('Deal not found', 'not_found')
+    }
+    return { underwriting: deal.underwriting as StoredUnderwriting | null, underwrittenAt: deal.underwrittenAt }
+  }
+}
+
+export const dealUnderwritingService = new DealUnderwritingService()
@@ -0,0 +1,128 @@
+// LeadAI Pro - Email A/B Test Service
+// Experiment results with confidence intervals, and rolling the winner out to the holdout
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import { EmailCampaignError } from './campaignService'
+import {
+  ABTestSettings,
+  ABTestWinner,
+  ArmCounts,
+  ExperimentResult,
+  abTestSettings,
+  evaluateExperiment,
+  winnerDecisionTime,
+} from './abTesting'
+
+export interface ABTestResults extends ExperimentResult {
+  campaignId: string
+  status: string
+  settings: ABTestSettings
+  // When the winner is (or was due to be) chosen
+  decideAt: Date
+  holdout: { recipients: number; pending: number }
+  winner: ABTestWinner | null
+}
+
+export class ABTestService {
+  constructor(private clock: Clock = systemClock) {}
+
+  // Pass null for the organization to load results for the job worker
+  async getResults(organizationId: string | null, campaignId: string): Promise<ABTestResults | null> {
+    const campaign = await this.findCampaign(organizationId, campaignId)
+    if (!campaign) return null
+    if (!campaign.isABTest) {
+      throw new EmailCampaignError('Campaign is not an A/B test', 'invalid_state')
+    }
+    return this.evaluate(campaign)
+  }
+
+  // Pick the winner once the test cohort has been sent and give it to the holdout. Without a
+  // significant result the leader still wins when the test ends; the winner records whether it
+  // was significant. Once decided, the stored winner is returned.
+  async selectWinner(campaignId: string): Promise<ABTestWinner | null> {
+    const campaign = await this.findCampaign(null, campaignId)
+    if (!campaign) return null
+
+    const config = (campaign.abTestConfig as any) || {}
+    if (config.winner) return config.winner
+
+    const unsent = await prisma.emailCampaignRecipient.count({ where: { campaignId, holdout: false, status: 'PENDING' as any } })
+    if (unsent > 0) {
+      throw new EmailCampaignError(`${unsent} test recipients have not been sent yet`, 'invalid_state')
+    }
+
+    const results = await this.evaluate(campaign)
+    const chosen = results.leader || results.arms.find(arm => arm.variantId === null) || results.arms[0]
+
+    const { count: rolledOut } = await prisma.emailCampaignRecipient.updateMany({
+      where: { campaignId, holdout: true, status: 'PENDING' as any },
+      data: { variantId: chosen?.variantId ?? null },
+    })
+
+    const winner: ABTestWinner = {
+      variantId: chosen?.variantId ?? null,
+      name: chosen?.name || 'Control',
+      metric: results.metric,
+      rate: chosen?.rate || 0,
+      significant: results.significant && chosen === results.leader,
+      pValue: results.arms.reduce<number | null>((max, arm) => (arm.pValue !== null && (max === null || arm.pValue > max) ? arm.pValue : max), null),
+      decidedAt: this.clock.now().toISOString(),
+      rolledOut,
+    }
+    // Holdout recipients are only sent once the winner is stored, so it is written last
+    await prisma.emailCampaign.update({ where: { id: campaignId }, data: { abTestConfig: { ...config, winner } } })
+
+    return winner
+  }
+
+  private async findCampaign(organizationId: string | null, campaignId: string): Promise<any | null> {
+    return prisma.emailCampaign.findFirst({
+      where: { id: campaignId, ...(organizationId && { organizationId }) },
+      include: { variants: { orderBy: { createdAt: 'asc' } } },
+    })
+  }
+
+  private async evaluate(campaign: any): Promise<ABTestResults> {
+    const settings = abTestSettings(campaign.abTestConfig)
+
+    // Only the test cohort counts; the holdout gets the winner and would skew the comparison
+    const groups = await prisma.emailCampaignRecipient.groupBy({
+      by: ['variantId'],
+      where: { campaignId: campaign.id, holdout: false, sentAt: { not: null } },
+      _count: { _all: true, openedAt: true, clickedAt: true, repliedAt: true },
+    })
+    const countsFor = (variantId: string | null): Omit<ArmCounts, 'variantId' | 'name'> => {
+      const group: any = groups.find((g: any) => (g.variantId ?? null) === variantId)
+      return {
+        sent: group?._count._all || 0,
+        opened: group?._count.openedAt || 0,
+        clicked: group?._count.clickedAt || 0,
+        replied: group?._count.repliedAt || 0,
+      }
+    }
+
+    const arms: ArmCounts[] = campaign.variants.map((variant: any) => ({ variantId: variant.id, name: variant.name, ...countsFor(variant.id) }))
+    const variantShare = campaign.variants.reduce((sum: number, variant: any) => sum + variant.percentage, 0)
+    if (variantShare < 100) {
+      arms.push({ variantId: null, name: 'Control', ...countsFor(null) })
+    }
+
+    const [holdoutRecipients, holdoutPending] = await Promise.all([
+      prisma.emailCampaignRecipient.count({ where: { campaignId: campaign.id, holdout: true } }),
+      prisma.emailCampaignRecipient.count({ where: { campaignId: campaign.id, holdout: true, status: 'PENDING' as any } }),
+    ])
+
+    return {
+      campaignId: campaign.id,
+      status: String(campaign.status).toLowerCase(),
+      settings,
+      decideAt: winnerDecisionTime(campaign.scheduledFor || campaign.createdAt, campaign.variants, settings.testDurationHours),
+      holdout: { recipients: holdoutRecipients, pending: holdoutPending },
+      winner: (campaign.abTestConfig as any)?.winner || null,
+      ...evaluateExperiment(arms, settings),
+    }
+  }
+}
+
+export const abTestService = new ABTestService()
@@ -0,0 +1,230 @@
+// LeadAI Pro - Email A/B Testing
+// Deterministic cohort and variant assignment, experiment settings, and significance testing of variant results
+
+import { createHash } from 'crypto'
+
+export const WINNER_METRICS = ['open_rate', 'click_rate', 'reply_rate'] as const
+export type WinnerMetric = typeof WINNER_METRICS[number]
+
+// Confidence levels with their two-sided z scores
+const Z_SCORES: Record<string, number> = { '0.9': 1.6449, '0.95': 1.96, '0.99': 2.5758 }
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99]
+
+export interface ABTestSettings {
+  // Share of the audience in the test; the rest (the holdout) is sent the winner
+  testPercentage: number
+  winnerCriteria: WinnerMetric
+  // How long after the last test email the winner is chosen
+  testDurationHours: number
+  confidenceLevel: number
+  // Sends per arm before a difference can be called significant
+  minSampleSize: number
+}
+
+export interface ABTestWinner {
+  // null when the campaign's own email (the control) won
+  variantId: string | null
+  name: string
+  metric: WinnerMetric
+  rate: number
+  significant: boolean
+  // The winner's largest p-value against another arm
+  pValue: number | null
+  decidedAt: string
+  // Holdout recipients the winner was rolled out to
+  rolledOut: number
+}
+
+export const DEFAULT_AB_TEST: ABTestSettings = {
+  testPercentage: 100,
+  winnerCriteria: 'open_rate',
+  testDurationHours: 4,
+  confidenceLevel: 0.95,
+  minSampleSize: 100,
+}
+
+// Settings stored in EmailCampaign.abTestConfig, with defaults for anything missing
+export const abTestSettings = (config: any): ABTestSettings => ({
+  testPercentage: config?.testPercentage ?? DEFAULT_AB_TEST.testPercentage,
+  winnerCriteria: config?.winnerCriteria ?? DEFAULT_AB_TEST.winnerCriteria,
+  testDurationHours: config?.testDurationHours ?? DEFAULT_AB_TEST.testDurationHours,
+  confidenceLevel: config?.confidenceLevel ?? DEFAULT_AB_TEST.confidenceLevel,
+  minSampleSize: config?.minSampleSize ?? DEFAULT_AB_TEST.minSampleSize,
+})
+
+export const validateABTestSettings = (settings: Partial<ABTestSettings>): string[] => {
+  const errors: string[] = []
+
+  if (settings.testPercentage !== undefined && !(settings.testPercentage > 0 && settings.testPercentage <= 100)) {
+    errors.push('abTest.testPercentage must be between 0 and 100')
+  }
+  if (settings.winnerCriteria !== undefined && !WINNER_METRICS.includes(settings.winnerCriteria)) {
+    errors.push(`abTest.winnerCriteria must be one of: ${WINNER_METRICS.join(', ')}`)
+  }
+  if (settings.testDurationHours !== undefined && !(settings.testDurationHours > 0 && settings.testDurationHours <= 14 * 24)) {
+    errors.push('abTest.testDurationHours must be between 0 and 336')
+  }
+  if (settings.confidenceLevel !== undefined && !CONFIDENCE_LEVELS.includes(settings.confidenceLevel)) {
+    errors.push(`abTest.confidenceLevel must be one of: ${CONFIDENCE_LEVELS.join(', ')}`)
+  }
+  if (settings.minSampleSize !== undefined && !(Number.isInteger(settings.minSampleSize) && settings.minSampleSize > 0)) {
+    errors.push('abTest.minSampleSize must be a positive whole number')
+  }
+
+  return errors
+}
+
+// Stable position of an address in [0, 100). The salt (the campaign id) keeps the same people
+// from landing in the first arm of every campaign.
+const bucketOf = (email: string, salt: string): number =>
+  createHash('sha256').update(`${salt}:${email.trim().toLowerCase()}`).digest().readUInt32BE(0) / 0x100000000 * 100
+
+// Variant by percentage; whoever is left over gets the control
+export const pickVariant = <T extends { percentage: number }>(email: string, variants: T[], salt: string = ''): T | null =>
+  variantAt(bucketOf(email, salt), variants)
+
+const variantAt = <T extends { percentage: number }>(position: number, variants: T[]): T | null => {
+  let cumulative = 0
+  for (const variant of variants) {
+    cumulative += variant.percentage
+    if (position < cumulative) return variant
+  }
+  return null
+}
+
+// The lowest testPercentage buckets make up the test cohort, which is split between the variants
+// by their percentages. Everyone else is held out until the winner is known.
+export const assignArm = <T extends { percentage: number }>(
+  email: string,
+  variants: T[],
+  salt: string,
+  testPercentage: number = 100
+): { variant: T | null; holdout: boolean } => {
+  const bucket = bucketOf(email, salt)
+  if (bucket >= testPercentage) return { variant: null, holdout: true }
+  return { variant: variantAt((bucket / testPercentage) * 100, variants), holdout: false }
+}
+
+export interface ArmCounts {
+  // null for the control
+  variantId: string | null
+  name: string
+  sent: number
+  opened: number
+  clicked: number
+  replied: number
+}
+
+export interface ArmResult extends ArmCounts {
+  // Percent of sent, with its confidence interval
+  rate: number
+  interval: { lower: number; upper: number }
+  // Relative change over the control's rate, in percent
+  lift: number | null
+  // Two-sided p-value of the difference from the leader; null for the leader itself
+  pValue: number | null
+}
+
+export interface ExperimentResult {
+  metric: WinnerMetric
+  confidenceLevel: number
+  arms: ArmResult[]
+  leader: ArmResult | null
+  // Significant once the leader beats every other arm, each with minSampleSize sends
+  significant: boolean
+  reason: 'no_data' | 'insufficient_sample' | 'not_significant' | 'significant'
+}
+
+const METRIC_COUNTS: Record<WinnerMetric, 'opened' | 'clicked' | 'replied'> = {
+  open_rate: 'opened',
+  click_rate: 'clicked',
+  reply_rate: 'replied',
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1e-7
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  return sign * (1 - poly * Math.exp(-x * x))
+}
+
+export const normalCdf = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2))
+
+// Wilson score interval for a proportion; stays inside [0, 1] for small samples and extreme rates
+export const wilsonInterval = (successes: number, trials: number, z: number = 1.96): { lower: number; upper: number } => {
+  if (trials === 0) return { lower: 0, upper: 0 }
+  const p = successes / trials
+  const denominator = 1 + (z * z) / trials
+  const center = (p + (z * z) / (2 * trials)) / denominator
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) }
+}
+
+// Pooled two-proportion z-test; two-sided p-value
+export const twoProportionPValue = (successesA: number, trialsA: number, successesB: number, trialsB: number): number => {
+  if (trialsA === 0 || trialsB === 0) return 1
+  const pooled = (successesA + successesB) / (trialsA + trialsB)
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB))
+  if (standardError === 0) return 1
+  const z = (successesA / trialsA - successesB / trialsB) / standardError
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))))
+}
+
+const round = (value: number, places: number = 2): number => Number(value.toFixed(places))
+
+// Compare the arms of an experiment on one metric. The leader is tested against each other arm,
+// with a Bonferroni correction so A/B/n tests are not called early.
+export const evaluateExperiment = (
+  counts: ArmCounts[],
+  settings: Pick<ABTestSettings, 'winnerCriteria' | 'confidenceLevel' | 'minSampleSize'>
+): ExperimentResult => {
+  const metric = settings.winnerCriteria
+  const field = METRIC_COUNTS[metric]
+  const z = Z_SCORES[String(settings.confidenceLevel)] || Z_SCORES['0.95']
+  const proportion = (arm: ArmCounts) => (arm.sent > 0 ? arm[field] / arm.sent : 0)
+
+  // No leader until the metric has happened at least once
+  const leaderCounts = counts.filter(arm => arm[field] > 0).reduce<ArmCounts | null>(
+    (best, arm) => (!best || proportion(arm) > proportion(best) ? arm : best), null)
+  const control = counts.find(arm => arm.variantId === null)
+
+  const arms: ArmResult[] = counts.map(arm => {
+    const interval = wilsonInterval(arm[field], arm.sent, z)
+    return {
+      ...arm,
+      rate: round(proportion(arm) * 100),
+      interval: { lower: round(interval.lower * 100), upper: round(interval.upper * 100) },
+      lift: control && control !== arm && proportion(control) > 0
+        ? round(((proportion(arm) - proportion(control)) / proportion(control)) * 100)
+        : null,
+      pValue: leaderCounts && arm !== leaderCounts
+        ? round(twoProportionPValue(leaderCounts[field], leaderCounts.sent, arm[field], arm.sent), 6)
+        : null,
+    }
+  })
+  const leader = leaderCounts ? arms[counts.indexOf(leaderCounts)] : null
+
+  let reason: ExperimentResult['reason'] = 'significant'
+  if (!leader || counts.length < 2) {
+    reason = 'no_data'
+  } else if (counts.some(arm => arm.sent < settings.minSampleSize)) {
+    reason = 'insufficient_sample'
+  } else {
+    const alpha = (1 - settings.confidenceLevel) / (counts.length - 1)
+    const beatsAll = arms.every(arm => arm === leader || (arm.pValue !== null && arm.pValue < alpha))
+    if (!beatsAll) reason = 'not_significant'
+  }
+
+  return { metric, confidenceLevel: settings.confidenceLevel, arms, leader, significant: reason === 'significant', reason }
+}
+
+// The winner is chosen testDurationHours after the last test email is due
+export const winnerDecisionTime = (
+  startAt: Date,
+  variants: Array<{ sendAt?: Date | null }>,
+  testDurationHours: number
+): Date => {
+  const lastSend = Math.max(startAt.getTime(), ...variants.map(variant => (variant.sendAt ? new Date(variant.sendAt).getTime() : 0)))
+  return new Date(lastSend + testDurationHours * 60 * 60 * 1000)
+}
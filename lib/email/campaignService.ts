@@ -0,0 +1,502 @@
+// LeadAI Pro - Email Campaign Service
+// Persisted templates, campaigns, A/B variants and recipients, and each recipient's delivery status
+
+import { prisma } from '../database'
+import type {
+  EmailCampaign,
+  EmailRecipient,
+  EmailTemplate,
+  EmailVariant,
+  PersonalizationSettings,
+} from '../ai/emailMarketing'
+import type { SendResult } from './emailTransport'
+import { suppressionList, normalizeContact } from '../compliance/suppressionList'
+import { ABTestSettings, abTestSettings, assignArm, validateABTestSettings } from './abTesting'
+
+// A recipient is marked FAILED after this many transport errors
+export const MAX_SEND_ATTEMPTS = 3
+
+// Error raised for campaigns that cannot be created as requested
+export class EmailCampaignError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state') {
+    super(message)
+    this.name = 'EmailCampaignError'
+  }
+}
+
+export const TEMPLATE_CATEGORIES = ['cold_outreach', 'follow_up', 'nurture', 'promotion', 'event'] as const
+
+export interface TemplateInput {
+  name: string
+  category?: EmailTemplate['category']
+  subject: string
+  htmlContent: string
+  textContent?: string
+  variables?: string[]
+  aiGenerated?: boolean
+}
+
+export interface CampaignRecipientInput {
+  email: string
+  firstName?: string
+  lastName?: string
+  company?: string
+  jobTitle?: string
+  customData?: Record<string, any>
+  leadId?: string
+}
+
+// A variant changes the subject, the content, the send time, or any mix of them; whatever it
+// leaves out comes from the campaign
+export interface CampaignVariantInput {
+  name: string
+  subject?: string
+  content?: string
+  sendAt?: string | Date
+  // Share of the test cohort; whoever is left gets the campaign's own email (the control)
+  percentage: number
+}
+
+export interface CampaignInput {
+  name: string
+  description?: string
+  // Subject and content default to the template's
+  templateId?: string
+  subject?: string
+  content?: string
+  recipients?: CampaignRecipientInput[]
+  // Leads without an email address are skipped
+  leadIds?: string[]
+  variants?: CampaignVariantInput[]
+  abTest?: Partial<ABTestSettings>
+  personalization?: Partial<PersonalizationSettings>
+  scheduledFor?: string | Date
+  fromEmail?: string
+  sendsPerMinute?: number
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/
+
+export const validateCampaignInput = (input: CampaignInput): string[] => {
+  const errors: string[] = []
+
+  if (!input?.name) {
+    errors.push('name is required')
+  }
+  if (!input?.templateId && (!input?.subject || !input?.content)) {
+    errors.push('templateId, or subject and content, are required')
+  }
+  if (!input?.recipients?.length && !input?.leadIds?.length) {
+    errors.push('recipients or leadIds are required')
+  }
+  (input?.recipients || []).forEach((recipient, index) => {
+    if (!EMAIL_PATTERN.test(recipient?.email || '')) {
+      errors.push(`Recipient ${index + 1}: a valid email is required`)
+    }
+  })
+  if (input?.fromEmail && !EMAIL_PATTERN.test(input.fromEmail.match(/<([^>]+)>/)?.[1] || input.fromEmail)) {
+    errors.push('fromEmail must be an email address')
+  }
+  if (input?.scheduledFor && Number.isNaN(new Date(input.scheduledFor).getTime())) {
+    errors.push('scheduledFor must be a date')
+  }
+  if (input?.sendsPerMinute !== undefined && !(input.sendsPerMinute > 0)) {
+    errors.push('sendsPerMinute must be more than zero')
+  }
+
+  const variants = input?.variants || []
+  variants.forEach((variant, index) => {
+    if (!variant?.name) {
+      errors.push(`Variant ${index + 1}: name is required`)
+    }
+    if (!variant?.subject && !variant?.content && !variant?.sendAt) {
+      errors.push(`Variant ${index + 1}: a subject, content or sendAt to test is required`)
+    }
+    if (variant?.sendAt && Number.isNaN(new Date(variant.sendAt).getTime())) {
+      errors.push(`Variant ${index + 1}: sendAt must be a date`)
+    }
+    if (typeof variant?.percentage !== 'number' || variant.percentage <= 0 || variant.percentage > 100) {
+      errors.push(`Variant ${index + 1}: percentage must be between 0 and 100`)
+    }
+  })
+  if (variants.reduce((sum, variant) => sum + (Number(variant?.percentage) || 0), 0) > 100) {
+    errors.push('variant percentages add up to more than 100')
+  }
+  if (input?.abTest) {
+    errors.push(...validateABTestSettings(input.abTest))
+    if (!variants.length) {
+      errors.push('abTest requires variants')
+    }
+  }
+
+  return errors
+}
+
+const toTemplate = (row: any, performance?: EmailTemplate['performance']): EmailTemplate => ({
+  id: row.id,
+  name: row.name,
+  subject: row.subject,
+  htmlContent: row.htmlContent,
+  textContent: row.textContent,
+  variables: row.variables || [],
+  category: row.category,
+  aiGenerated: row.aiGenerated,
+  performance: performance || { sent: 0, opened: 0, clicked: 0, replied: 0, bounced: 0, unsubscribed: 0 },
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+})
+
+const toVariant = (row: any): EmailVariant => ({
+  id: row.id,
+  name: row.name,
+  subject: row.subject,
+  content: row.content,
+  percentage: row.percentage,
+  sendAt: row.sendAt || undefined,
+  performance: { sent: row.totalSent, opened: row.totalOpened, clicked: row.totalClicked, replied: row.totalReplied },
+})
+
+const toRecipient = (row: any): EmailRecipient => ({
+  id: row.id,
+  email: row.email,
+  firstName: row.firstName || '',
+  lastName: row.lastName || '',
+  company: row.company || '',
+  jobTitle: row.jobTitle || '',
+  customData: row.customData || {},
+  leadId: row.leadId || undefined,
+  variantId: row.variantId || undefined,
+  holdout: row.holdout,
+  status: String(row.status).toLowerCase() as EmailRecipient['status'],
+  attempts: row.attempts,
+  messageId: row.messageId || undefined,
+  personalizedSubject: row.personalizedSubject || undefined,
+  personalizedContent: row.personalizedContent || undefined,
+  sentAt: row.sentAt || undefined,
+  deliveredAt: row.deliveredAt || undefined,
+  openedAt: row.openedAt || undefined,
+  clickedAt: row.clickedAt || undefined,
+  repliedAt: row.repliedAt || undefined,
+  bouncedAt: row.bouncedAt || undefined,
+})
+
+const rate = (part: number, whole: number): number => (whole > 0 ? (part / whole) * 100 : 0)
+
+const toCampaign = (row: any): EmailCampaign => {
+  const settings = (row.settings as any) || {}
+  const sent = row.totalSent
+
+  return {
+    id: row.id,
+    organizationId: row.organizationId,
+    name: row.name,
+    description: row.description || '',
+    templateId: row.templateId,
+    subject: row.subject,
+    content: row.content,
+    recipients: (row.recipients || []).map(toRecipient),
+    schedule: row.scheduledFor ? { type: 'scheduled', sendAt: row.scheduledFor } : { type: 'immediate' },
+    abTest: row.isABTest
+      ? {
+        enabled: true,
+        variants: (row.variants || []).map(toVariant),
+        ...abTestSettings(row.abTestConfig),
+        winner: (row.abTestConfig as any)?.winner,
+      }
+      : undefined,
+    personalization: { enabled: true, aiPersonalization: true, customFields: {}, ...settings.personalization },
+    fromEmail: settings.fromEmail,
+    sendsPerMinute: settings.sendsPerMinute,
+    status: String(row.status).toLowerCase() as EmailCampaign['status'],
+    analytics: {
+      totalSent: sent,
+      totalDelivered: row.totalDelivered,
+      totalOpened: row.totalOpened,
+      totalClicked: row.totalClicked,
+      totalReplied: row.totalReplied,
+      totalBounced: row.totalBounced,
+      totalUnsubscribed: row.totalUnsubscribed,
+      openRate: rate(row.totalOpened, sent),
+      clickRate: rate(row.totalClicked, sent),
+      replyRate: rate(row.totalReplied, sent),
+      bounceRate: rate(row.totalBounced, sent + row.totalBounced),
+      unsubscribeRate: rate(row.totalUnsubscribed, sent),
+      bestSendTime: '',
+    },
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  }
+}
+
+export class EmailCampaignService {
+  async createTemplate(organizationId: string, input: TemplateInput, userId?: string): Promise<EmailTemplate> {
+    const row = await prisma.emailTemplate.create({
+      data: {
+        organizationId,
+        name: input.name,
+        category: input.category || 'promotion',
+        subject: input.subject,
+        htmlContent: input.htmlContent,
+        textContent: input.textContent || input.htmlContent.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim(),
+        variables: input.variables || [],
+        aiGenerated: input.aiGenerated || false,
+        createdById: userId,
+      },
+    })
+    return toTemplate(row)
+  }
+
+  async listTemplates(organizationId: string, category?: string): Promise<EmailTemplate[]> {
+    const rows = await prisma.emailTemplate.findMany({
+      where: { organizationId, ...(category && { category }) },
+      orderBy: { updatedAt: 'desc' },
+    })
+    return rows.map((row: any) => toTemplate(row))
+  }
+
+  // A template with totals across every campaign created from it
+  async getTemplate(organizationId: string, templateId: string): Promise<EmailTemplate | null> {
+    const row = await prisma.emailTemplate.findFirst({ where: { id: templateId, organizationId } })
+    if (!row) return null
+
+    const { _sum: totals } = await prisma.emailCampaign.aggregate({
+      where: { templateId },
+      _sum: { totalSent: true, totalOpened: true, totalClicked: true, totalReplied: true, totalBounced: true, totalUnsubscribed: true },
+    })
+    return toTemplate(row, {
+      sent: totals?.totalSent || 0,
+      opened: totals?.totalOpened || 0,
+      clicked: totals?.totalClicked || 0,
+      replied: totals?.totalReplied || 0,
+      bounced: totals?.totalBounced || 0,
+      unsubscribed: totals?.totalUnsubscribed || 0,
+    })
+  }
+
+  // Create a campaign with its variants and recipients. Recipients are assigned to a variant, or
+  // to the holdout, up front so a resumed send gives everyone the same email.
+  async createCampaign(organizationId: string, input: CampaignInput, userId: string): Promise<EmailCampaign> {
+    const template = input.templateId ? await this.getTemplate(organizationId, input.templateId) : null
+    if (input.templateId && !template) {
+      throw new EmailCampaignError('Email template not found', 'not_found')
+    }
+
+    const recipients = [...(input.recipients || [])]
+    if (input.leadIds?.length) {
+      const leads = await prisma.lead.findMany({
+        where: { id: { in: input.leadIds }, organizationId, email: { not: null } },
+        select: { id: true, email: true, firstName: true, lastName: true, company: true, jobTitle: true },
+      })
+      recipients.push(...leads.map((lead: any) => ({
+        email: lead.email,
+        firstName: lead.firstName,
+        lastName: lead.lastName,
+        company: lead.company || undefined,
+        jobTitle: lead.jobTitle || undefined,
+        leadId: lead.id,
+      })))
+    }
+
+    // One email per address, leaving out suppressed ones (bounced, complained, unsubscribed)
+    const suppressed = await suppressionList.suppressedAmong(organizationId, 'email', recipients.map(r => r.email))
+    const seen = new Set<string>()
+    const unique = recipients.filter(recipient => {
+      const key = normalizeContact('email', recipient.email)
+      if (seen.has(key) || suppressed.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    if (unique.length === 0) {
+      throw new EmailCampaignError('None of the recipients can be emailed (no address, or suppressed)', 'invalid_state')
+    }
+
+    const variants = input.variants || []
+    const abTest = abTestSettings(input.abTest)
+    const scheduledFor = input.scheduledFor ? new Date(input.scheduledFor) : null
+
+    const campaignId = await prisma.$transaction(async (tx: any) => {
+      const campaign = await tx.emailCampaign.create({
+        data: {
+          organizationId,
+          name: input.name,
+          description: input.description,
+          subject: input.subject || template!.subject,
+          content: input.content || template!.htmlContent,
+          templateId: template?.id,
+          type: variants.length > 0 ? 'AB_TEST' : 'MANUAL',
+          status: scheduledFor ? 'SCHEDULED' : 'DRAFT',
+          scheduledFor,
+          settings: {
+            personalization: input.personalization || {},
+            fromEmail: input.fromEmail,
+            sendsPerMinute: input.sendsPerMinute,
+          },
+          isABTest: variants.length > 0,
+          abTestConfig: variants.length > 0 ? { ...abTest } : {},
+          createdById: userId,
+          variants: {
+            create: variants.map(variant => ({
+              name: variant.name,
+              subject: variant.subject || input.subject || template!.subject,
+              content: variant.content || input.content || template!.htmlContent,
+              sendAt: variant.sendAt ? new Date(variant.sendAt) : null,
+              percentage: variant.percentage,
+            })),
+          },
+        },
+        include: { variants: true },
+      })
+
+      await tx.emailCampaignRecipient.createMany({
+        data: unique.map(recipient => {
+          const arm = assignArm(recipient.email, campaign.variants as any[], campaign.id, abTest.testPercentage)
+          return {
+            campaignId: campaign.id,
+            email: recipient.email.trim(),
+            firstName: recipient.firstName,
+            lastName: recipient.lastName,
+            company: recipient.company,
+            jobTitle: recipient.jobTitle,
+            customData: recipient.customData || {},
+            leadId: recipient.leadId,
+            variantId: arm.variant?.id,
+            holdout: arm.holdout,
+          }
+        }),
+      })
+
+      return campaign.id
+    })
+
+    return (await this.getCampaign(organizationId, campaignId))!
+  }
+
+  async listCampaigns(organizationId: string, options: { status?: string; limit?: number } = {}): Promise<EmailCampaign[]> {
+    const rows = await prisma.emailCampaign.findMany({
+      where: { organizationId, ...(options.status && { status: options.status as any }) },
+      include: { variants: true },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit || 50, 200),
+    })
+    return rows.map(toCampaign)
+  }
+
+  // Pass null for the organization to load a campaign for the job worker
+  async getCampaign(organizationId: string | null, campaignId: string): Promise<EmailCampaign | null> {
+    const row = await prisma.emailCampaign.findFirst({
+      where: { id: campaignId, ...(organizationId && { organizationId }) },
+      include: {
+        variants: { orderBy: { createdAt: 'asc' } },
+        recipients: { orderBy: { createdAt: 'asc' } },
+      },
+    })
+    return row ? toCampaign(row) : null
+  }
+
+  async setCampaignStatus(campaignId: string, status: EmailCampaign['status']): Promise<void> {
+    await prisma.emailCampaign.update({
+      where: { id: campaignId },
+      data: {
+        status: status.toUpperCase() as any,
+        ...(status === 'sent' && { sentAt: new Date() }),
+      },
+    })
+  }
+
+  // Transport accepted the message
+  async recordSent(
+    campaignId: string,
+    recipient: EmailRecipient,
+    result: SendResult,
+    email: { subject: string; content: string }
+  ): Promise<void> {
+    const now = new Date()
+    Object.assign(recipient, {
+      status: result.delivered ? 'delivered' : 'sent',
+      messageId: result.messageId,
+      attempts: (recipient.attempts || 0) + 1,
+      personalizedSubject: email.subject,
+      personalizedContent: email.content,
+      sentAt: now,
+      ...(result.delivered && { deliveredAt: now }),
+    })
+
+    await prisma.$transaction([
+      prisma.emailCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: recipient.status.toUpperCase() as any,
+          messageId: result.messageId,
+          attempts: recipient.attempts,
+          lastError: null,
+          personalizedSubject: email.subject,
+          personalizedContent: email.content,
+          sentAt: now,
+          ...(result.delivered && { deliveredAt: now }),
+        },
+      }),
+      prisma.emailCampaign.update({
+        where: { id: campaignId },
+        data: {
+          totalSent: { increment: 1 },
+          ...(result.delivered && { totalDelivered: { increment: 1 } }),
+        },
+      }),
+      ...(recipient.variantId
+        ? [prisma.emailCampaignVariant.update({ where: { id: recipient.variantId }, data: { totalSent: { increment: 1 } } })]
+        : []),
+    ])
+  }
+
+  // The compliance check stopped the send; the recipient is not tried again
+  async recordSuppressed(recipient: EmailRecipient, reason: string): Promise<void> {
+    recipient.status = 'suppressed'
+    await prisma.emailCampaignRecipient.update({
+      where: { id: recipient.id },
+      data: { status: 'SUPPRESSED' as any, lastError: reason.slice(0, 500) },
+    })
+  }
+
+  // A rejected address bounces; other errors leave the recipient pending until MAX_SEND_ATTEMPTS.
+  // The personalized email is kept so a retry does not generate it again.
+  async recordFailure(
+    campaignId: string,
+    recipient: EmailRecipient,
+    error: string,
+    permanent: boolean,
+    email?: { subject: string; content: string }
+  ): Promise<EmailRecipient['status']> {
+    const attempts = (recipient.attempts || 0) + 1
+    const status: EmailRecipient['status'] = permanent ? 'bounced' : attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending'
+    const now = new Date()
+    Object.assign(recipient, {
+      status,
+      attempts,
+      ...(email && { personalizedSubject: email.subject, personalizedContent: email.content }),
+      ...(status === 'bounced' && { bouncedAt: now }),
+    })
+
+    await prisma.$transaction([
+      prisma.emailCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: status.toUpperCase() as any,
+          attempts,
+          lastError: error.slice(0, 500),
+          ...(email && { personalizedSubject: email.subject, personalizedContent: email.content }),
+          ...(status === 'bounced' && { bouncedAt: now }),
+        },
+      }),
+      ...(status === 'bounced' || status === 'failed'
+        ? [prisma.emailCampaign.update({
+          where: { id: campaignId },
+          data: status === 'bounced' ? { totalBounced: { increment: 1 } } : { totalFailed: { increment: 1 } },
+        })]
+        : []),
+    ])
+
+    return status
+  }
+}
+
+export const emailCampaignService = new EmailCampaignService()
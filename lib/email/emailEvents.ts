@@ -0,0 +1,189 @@
+// LeadAI Pro - Email Events
+// Opens, clicks, replies, deliveries, bounces and complaints applied to campaign recipients and their leads
+
+import { prisma } from '../database'
+import { suppressionList } from '../compliance/suppressionList'
+import { consentLedger } from '../compliance/consentLedger'
+import { followUpScheduler } from '../followUps/followUpScheduler'
+
+export type EmailEventType = 'delivered' | 'open' | 'click' | 'reply' | 'bounce' | 'complaint' | 'unsubscribe'
+
+export interface EmailEvent {
+  type: EmailEventType
+  // Either identifies the recipient; tracking links carry the id, provider webhooks usually the message id
+  recipientId?: string
+  messageId?: string
+  url?: string
+  // Only hard bounces suppress the address
+  bounceType?: 'hard' | 'soft'
+  reason?: string
+  occurredAt?: Date
+  // The webhook provider, or 'link' for our own unsubscribe link
+  source?: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+// Engagement only moves a recipient forward; bounced, unsubscribed and failed are final
+const STATUS_RANK: Record<string, number> = { PENDING: 0, SENT: 1, DELIVERED: 2, OPENED: 3, CLICKED: 4, REPLIED: 5 }
+
+const advances = (current: string, next: string): boolean =>
+  current in STATUS_RANK && STATUS_RANK[next] > STATUS_RANK[current]
+
+const JOURNEY_EVENTS: Record<EmailEventType, string> = {
+  delivered: 'Email Delivered',
+  open: 'Email Opened',
+  click: 'Email Link Clicked',
+  reply: 'Email Replied',
+  bounce: 'Email Bounced',
+  complaint: 'Email Marked as Spam',
+  unsubscribe: 'Email Unsubscribed',
+}
+
+export class EmailEventService {
+  // Apply an event. Returns false when no recipient matches it.
+  async record(event: EmailEvent): Promise<boolean> {
+    const recipient = await this.findRecipient(event)
+    if (!recipient) return false
+
+    const at = event.occurredAt || new Date()
+    let first = false
+
+    switch (event.type) {
+      case 'delivered':
+        first = await this.stamp(recipient, 'deliveredAt', at, 'DELIVERED')
+        if (first) await this.count(recipient, 'totalDelivered')
+        break
+
+      case 'open':
+        first = await this.recordOpen(recipient, at)
+        break
+
+      case 'click':
+        // Images are often blocked, so a click also counts as the open
+        await this.recordOpen(recipient, at)
+        first = await this.stamp(recipient, 'clickedAt', at, 'CLICKED')
+        if (first) await this.count(recipient, 'totalClicked')
+        break
+
+      case 'reply':
+        await this.recordOpen(recipient, at)
+        first = await this.stamp(recipient, 'repliedAt', at, 'REPLIED')
+        if (first) await this.count(recipient, 'totalReplied')
+        break
+
+      case 'bounce':
+        // An address that was opened or clicked has evidently been delivered
+        if (STATUS_RANK[recipient.status] <= STATUS_RANK.DELIVERED) {
+          first = await this.stamp(recipient, 'bouncedAt', at, 'BOUNCED', true)
+          if (first) await this.count(recipient, 'totalBounced')
+        }
+        if (event.bounceType !== 'soft') {
+          await suppressionList.add(recipient.campaign.organizationId, 'email', recipient.email, 'hard_bounce', event.source)
+        }
+        break
+
+      case 'complaint':
+      case 'unsubscribe':
+        if (recipient.status !== 'BOUNCED') {
+          first = await this.stamp(recipient, 'unsubscribedAt', at, 'UNSUBSCRIBED', true)
+          if (first) await this.count(recipient, 'totalUnsubscribed')
+        }
+        await suppressionList.add(recipient.campaign.organizationId, 'email', recipient.email, event.type, event.source)
+        // A bounced recipient is never stamped, so their opt-out is recorded on each report
+        if (first || recipient.status === 'BOUNCED') {
+          await consentLedger.record(recipient.campaign.organizationId, {
+            channel: 'email',
+            value: recipient.email,
+            leadId: recipient.leadId || undefined,
+            status: 'revoked',
+            source: event.source === 'link' ? 'email_link' : 'provider_report',
+            evidence: { campaignId: recipient.campaign.id, event: event.type, ...(event.source && { reportedBy: event.source }) },
+            recordedAt: at,
+          })
+        }
+        break
+    }
+
+    // Opens are logged once; every click is, with its link
+    if (recipient.leadId && (first || event.type === 'click')) {
+      await this.logJourneyEvent(recipient, event, at)
+    }
+    if (recipient.leadId && event.type === 'open' && first) {
+      await followUpScheduler.enroll(recipient.leadId, 'EMAIL_OPENED').catch(error =>
+        console.error('EMAIL_OPENED enrollment failed:', { leadId: recipient.leadId, error }))
+    }
+    if (recipient.leadId && event.type === 'reply') {
+      await followUpScheduler.handleLeadEvent(recipient.leadId, 'replied').catch(error =>
+        console.error('Stopping sequences on reply failed:', { leadId: recipient.leadId, error }))
+    }
+
+    return true
+  }
+
+  private async findRecipient(event: EmailEvent): Promise<any | null> {
+    if (!event.recipientId && !event.messageId) return null
+
+    return prisma.emailCampaignRecipient.findFirst({
+      where: event.recipientId ? { id: event.recipientId } : { messageId: event.messageId },
+      include: { campaign: { select: { id: true, organizationId: true, name: true } } },
+    })
+  }
+
+  private async recordOpen(recipient: any, at: Date): Promise<boolean> {
+    const first = await this.stamp(recipient, 'openedAt', at, 'OPENED')
+    if (first) await this.count(recipient, 'totalOpened')
+    return first
+  }
+
+  // Set a timestamp the first time the event happens, moving the status along with it. The
+  // conditional update keeps duplicate webhook deliveries from counting twice. `final`
+  // statuses replace any engagement status.
+  private async stamp(recipient: any, field: string, at: Date, status: string, final: boolean = false): Promise<boolean> {
+    const moveStatus = final ? recipient.status in STATUS_RANK : advances(recipient.status, status)
+    const { count } = await prisma.emailCampaignRecipient.updateMany({
+      where: { id: recipient.id, [field]: null },
+      data: { [field]: at, ...(moveStatus && { status: status as any }) },
+    })
+
+    if (count === 1) {
+      recipient[field] = at
+      if (moveStatus) recipient.status = status
+    }
+    return count === 1
+  }
+
+  private async count(
+    recipient: any,
+    total: 'totalDelivered' | 'totalOpened' | 'totalClicked' | 'totalReplied' | 'totalBounced' | 'totalUnsubscribed'
+  ) {
+    await prisma.emailCampaign.update({ where: { id: recipient.campaignId }, data: { [total]: { increment: 1 } } })
+
+    if (recipient.variantId && (total === 'totalOpened' || total === 'totalClicked' || total === 'totalReplied')) {
+      await prisma.emailCampaignVariant.update({ where: { id: recipient.variantId }, data: { [total]: { increment: 1 } } })
+    }
+  }
+
+  private async logJourneyEvent(recipient: any, event: EmailEvent, at: Date): Promise<void> {
+    await prisma.journeyEvent.create({
+      data: {
+        leadId: recipient.leadId,
+        eventType: `email_${event.type}`,
+        eventName: JOURNEY_EVENTS[event.type],
+        description: `${JOURNEY_EVENTS[event.type]}: ${recipient.campaign.name}`,
+        properties: {
+          campaignId: recipient.campaign.id,
+          recipientId: recipient.id,
+          ...(event.url && { url: event.url }),
+          ...(event.reason && { reason: event.reason }),
+          ...(event.source && { source: event.source }),
+        },
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        occurredAt: at,
+      },
+    })
+  }
+}
+
+export const emailEvents = new EmailEventService()
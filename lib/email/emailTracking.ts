@@ -0,0 +1,99 @@
+// LeadAI Pro - Email Tracking
+// Signed open-pixel, click-redirect and unsubscribe links, added to each email as it is sent
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export interface TrackingToken {
+  recipientId: string
+  // Click tokens carry the original link
+  url?: string
+  // Unsubscribe tokens are only accepted by the unsubscribe endpoint
+  purpose?: 'unsubscribe'
+}
+
+export interface TrackingOptions {
+  // Public base URL of the API, e.g. https://api.leadflow.ai; no tracking without one
+  baseUrl?: string
+  secret?: string
+}
+
+export const trackingOptions = (): TrackingOptions => ({
+  baseUrl: process.env.EMAIL_TRACKING_BASE_URL,
+  secret: process.env.EMAIL_TRACKING_SECRET || process.env.NEXTAUTH_SECRET,
+})
+
+// 1x1 transparent GIF served for opens
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url')
+
+export const signTrackingToken = (token: TrackingToken, secret: string): string => {
+  const payload = Buffer.from(JSON.stringify({
+    r: token.recipientId,
+    ...(token.url && { u: token.url }),
+    ...(token.purpose && { p: token.purpose }),
+  })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+// null for tampered or malformed tokens
+export const verifyTrackingToken = (value: string, secret: string): TrackingToken | null => {
+  const [payload, signature] = value.split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+
+  try {
+    const { r, u, p } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    return typeof r === 'string'
+      ? { recipientId: r, ...(typeof u === 'string' && { url: u }), ...(p === 'unsubscribe' && { purpose: p }) }
+      : null
+  } catch {
+    return null
+  }
+}
+
+// Route every http(s) link through the click redirect and add the open pixel
+export const addTracking = (html: string, recipientId: string, options: TrackingOptions = trackingOptions()): string => {
+  if (!options.baseUrl || !options.secret) return html
+
+  const base = options.baseUrl.replace(/\/+$/, '')
+  const secret = options.secret
+
+  const linked = html.replace(/(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi, (_match, prefix, quote, url) =>
+    `${prefix}${quote}${base}/email/c/${signTrackingToken({ recipientId, url: url.replace(/&amp;/g, '&') }, secret)}${quote}`)
+
+  const pixel = `<img src="${base}/email/o/${signTrackingToken({ recipientId }, secret)}.gif" width="1" height="1" alt="" style="display:none">`
+  return /<\/body>/i.test(linked) ? linked.replace(/<\/body>/i, `${pixel}</body>`) : linked + pixel
+}
+
+// Link that unsubscribes the recipient; null without a base URL and secret
+export const unsubscribeUrl = (recipientId: string, options: TrackingOptions = trackingOptions()): string | null =>
+  options.baseUrl && options.secret
+    ? `${options.baseUrl.replace(/\/+$/, '')}/email/u/${signTrackingToken({ recipientId, purpose: 'unsubscribe' }, options.secret)}`
+    : null
+
+// RFC 8058 one-click unsubscribe: mail clients POST to the link without opening it
+export const unsubscribeHeaders = (url: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${url}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+})
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Fill in {{unsubscribeUrl}} where the template placed it, or add a footer with the link and
+// the sender's postal address
+export const addUnsubscribeFooter = (html: string, url: string, postalAddress?: string): string => {
+  if (html.includes('{{unsubscribeUrl}}')) {
+    return html.split('{{unsubscribeUrl}}').join(url)
+  }
+
+  const footer = '<p style="font-size:12px;color:#888">' +
+    (postalAddress ? `${escapeHtml(postalAddress)}<br>` : '') +
+    `<a href="${url}">Unsubscribe</a> from these emails</p>`
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${footer}</body>`) : html + footer
+}
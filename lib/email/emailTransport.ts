@@ -0,0 +1,188 @@
+// LeadAI Pro - Email Transports
+// Outgoing mail through SMTP, a SendGrid-style HTTP API, or a local outbox directory for testing
+
+import { randomUUID } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { SmtpTransport } from './smtpTransport'
+
+export type EmailTransportName = 'smtp' | 'http' | 'file'
+
+export interface OutgoingEmail {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+  headers?: Record<string, string>
+  // Echoed back in webhook events by providers that support it (SendGrid custom_args)
+  metadata?: Record<string, string>
+}
+
+export interface SendResult {
+  messageId: string
+  // True when the transport confirms delivery to the mailbox itself (the file outbox does)
+  delivered?: boolean
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName
+  send(message: OutgoingEmail): Promise<SendResult>
+}
+
+// permanent: the recipient was rejected and retrying won't help (counted as a bounce)
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    public transport: EmailTransportName,
+    public permanent: boolean = false
+  ) {
+    super(message)
+    this.name = 'EmailTransportError'
+  }
+}
+
+export const generateMessageId = (from: string): string =>
+  `<${randomUUID()}@${from.split('@')[1]?.replace(/[>\s]/g, '') || 'leadai.pro'}>`
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+
+const base64Lines = (content: string): string =>
+  (Buffer.from(content, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+
+// RFC 5322 message with text and HTML alternatives
+export const buildMimeMessage = (message: OutgoingEmail, messageId: string, date: Date = new Date()): string => {
+  const boundary = `leadai-${randomUUID()}`
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: date.toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...(message.replyTo && { 'Reply-To': message.replyTo }),
+    ...message.headers,
+  }
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+export interface HttpEmailTransportOptions {
+  apiKey: string
+  // SendGrid v3 or a compatible relay
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+// SendGrid-style JSON API (POST /mail/send)
+export class HttpEmailTransport implements EmailTransport {
+  readonly name = 'http'
+  private baseUrl: string
+
+  constructor(private options: HttpEmailTransportOptions) {
+    this.baseUrl = (options.baseUrl || 'https://api.sendgrid.com/v3').replace(/\/+$/, '')
+  }
+
+  async send(message: OutgoingEmail): Promise<SendResult> {
+    const messageId = generateMessageId(message.from)
+    const response = await fetch(`${this.baseUrl}/mail/send`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: message.from },
+        ...(message.replyTo && { reply_to: { email: message.replyTo } }),
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+        headers: { ...message.headers, 'Message-ID': messageId },
+        ...(message.metadata && { custom_args: message.metadata }),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 30000),
+    }).catch(error => {
+      throw new EmailTransportError(`Email API request failed: ${error.message}`, this.name)
+    })
+
+    if (!response.ok) {
+      const body: any = await response.json().catch(() => ({}))
+      const detail = body?.errors?.[0]?.message || response.statusText
+      // 4xx other than rate limiting means the message itself was refused
+      const permanent = response.status >= 400 && response.status < 500 && response.status !== 429
+      throw new EmailTransportError(`Email API returned ${response.status}: ${detail}`, this.name, permanent)
+    }
+
+    return { messageId: response.headers.get('x-message-id') || messageId }
+  }
+}
+
+// Writes each message to an .eml file instead of sending it
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: OutgoingEmail): Promise<SendResult> {
+    const messageId = generateMessageId(message.from)
+    const fileName = `${Date.now()}-${messageId.replace(/[<>@]/g, '_')}.eml`
+
+    await fs.promises.mkdir(this.directory, { recursive: true })
+    await fs.promises.writeFile(path.join(this.directory, fileName), buildMimeMessage(message, messageId))
+
+    return { messageId, delivered: true }
+  }
+}
+
+export interface EmailTransportConfig {
+  transport?: EmailTransportName
+  smtpUrl?: string
+  apiKey?: string
+  apiBaseUrl?: string
+  outboxDir?: string
+}
+
+// EMAIL_TRANSPORT picks the transport; without one, mail lands in the local outbox
+export const emailTransportConfig = (): EmailTransportConfig => ({
+  transport: process.env.EMAIL_TRANSPORT as EmailTransportName | undefined,
+  smtpUrl: process.env.SMTP_URL,
+  apiKey: process.env.EMAIL_API_KEY,
+  apiBaseUrl: process.env.EMAIL_API_BASE_URL,
+  outboxDir: process.env.EMAIL_OUTBOX_DIR,
+})
+
+export const createEmailTransport = (config: EmailTransportConfig = emailTransportConfig()): EmailTransport => {
+  switch (config.transport || 'file') {
+    case 'smtp':
+      if (!config.smtpUrl) throw new Error('SMTP_URL is not configured')
+      return new SmtpTransport(config.smtpUrl)
+    case 'http':
+      if (!config.apiKey) throw new Error('EMAIL_API_KEY is not configured')
+      return new HttpEmailTransport({ apiKey: config.apiKey, baseUrl: config.apiBaseUrl })
+    case 'file':
+      return new FileEmailTransport(config.outboxDir || path.join(process.cwd(), 'tmp', 'outbox'))
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${config.transport}`)
+  }
+}
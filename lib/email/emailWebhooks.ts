@@ -0,0 +1,58 @@
+// LeadAI Pro - Email Provider Webhooks
+// Turns provider delivery/bounce/complaint callbacks into email events
+
+import { EmailEvent } from './emailEvents'
+
+export const WEBHOOK_PROVIDERS = ['sendgrid', 'generic'] as const
+export type WebhookProvider = typeof WEBHOOK_PROVIDERS[number]
+
+const SENDGRID_EVENTS: Record<string, EmailEvent['type']> = {
+  delivered: 'delivered',
+  open: 'open',
+  click: 'click',
+  bounce: 'bounce',
+  dropped: 'bounce',
+  spamreport: 'complaint',
+  unsubscribe: 'unsubscribe',
+  group_unsubscribe: 'unsubscribe',
+}
+
+// SendGrid posts an array of events; "processed" and "deferred" are skipped
+const parseSendGrid = (body: any): EmailEvent[] =>
+  (Array.isArray(body) ? body : [])
+    .filter(event => SENDGRID_EVENTS[event?.event])
+    .map(event => ({
+      type: SENDGRID_EVENTS[event.event],
+      recipientId: event.recipient_id,
+      // sg_message_id is the X-Message-Id returned on send plus a ".filter..." suffix
+      messageId: typeof event.sg_message_id === 'string' ? event.sg_message_id.split('.filter')[0] : undefined,
+      url: event.url,
+      // "blocked" bounces are usually temporary reputation or content blocks
+      bounceType: event.event === 'bounce' && event.type === 'blocked' ? 'soft' : 'hard',
+      reason: event.reason,
+      occurredAt: event.timestamp ? new Date(event.timestamp * 1000) : undefined,
+      source: 'sendgrid',
+      ipAddress: event.ip,
+      userAgent: event.useragent,
+    }))
+
+// Replies come from our inbound mail handling, which SendGrid's event webhook does not cover
+const GENERIC_TYPES: EmailEvent['type'][] = ['delivered', 'open', 'click', 'reply', 'bounce', 'complaint', 'unsubscribe']
+
+// { events: [{ type, messageId | recipientId, bounceType?, reason?, occurredAt? }] } for relays we forward ourselves
+const parseGeneric = (body: any): EmailEvent[] =>
+  (Array.isArray(body?.events) ? body.events : [])
+    .filter((event: any) => GENERIC_TYPES.includes(event?.type))
+    .map((event: any) => ({
+      type: event.type,
+      recipientId: event.recipientId,
+      messageId: event.messageId,
+      url: event.url,
+      bounceType: event.bounceType === 'soft' ? 'soft' : 'hard',
+      reason: event.reason,
+      occurredAt: event.occurredAt && !Number.isNaN(new Date(event.occurredAt).getTime()) ? new Date(event.occurredAt) : undefined,
+      source: 'generic',
+    }))
+
+export const parseWebhookEvents = (provider: WebhookProvider, body: any): EmailEvent[] =>
+  provider === 'sendgrid' ? parseSendGrid(body) : parseGeneric(body)
@@ -0,0 +1,29 @@
+// LeadAI Pro - Send Throttle
+// Spaces outgoing emails evenly so a campaign stays under the provider's sending rate
+
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+
+// Sends per minute for every campaign run by this process; a campaign may ask for fewer
+export const DEFAULT_SENDS_PER_MINUTE = Number(process.env.EMAIL_SENDS_PER_MINUTE) || 60
+
+export class SendThrottle {
+  private nextAt = 0
+
+  constructor(
+    private sendsPerMinute: number = DEFAULT_SENDS_PER_MINUTE,
+    private clock: Clock = systemClock,
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {}
+
+  // Resolves when the next send may go out. `perMinute` can only lower the rate.
+  async wait(perMinute?: number): Promise<void> {
+    const rate = Math.min(perMinute || this.sendsPerMinute, this.sendsPerMinute)
+    const now = this.clock.now().getTime()
+    const sendAt = Math.max(now, this.nextAt)
+
+    this.nextAt = sendAt + 60000 / rate
+    if (sendAt > now) {
+      await this.sleep(sendAt - now)
+    }
+  }
+}
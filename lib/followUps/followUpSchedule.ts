@@ -0,0 +1,130 @@
+// LeadAI Pro - Follow-up Schedule
+// Time-zone aware fire times for follow-up steps and an injectable clock
+
+export interface Clock {
+  now(): Date
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+}
+
+export interface StepTiming {
+  delayHours: number
+  // Local HH:MM the step should fire at
+  preferredTime?: string | null
+  // Local days the step may fire on (0 = Sunday)
+  daysOfWeek?: number[] | null
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  weekday: number
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const HOUR_MS = 60 * 60 * 1000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export const isValidTimeZone = (timeZone: string | null | undefined): boolean => {
+  if (!timeZone) return false
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall-clock parts of an instant in a time zone
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  }
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+const zoneOffset = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute)
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000
+}
+
+// The instant a wall-clock time occurs in a time zone. Times skipped by a DST change
+// resolve to the same wall time under the earlier offset (i.e. an hour later).
+export const zonedTimeToUtc = (
+  local: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  const first = guess - zoneOffset(new Date(guess), timeZone)
+  const second = guess - zoneOffset(new Date(first), timeZone)
+  return new Date(second)
+}
+
+// When a step fires: delayHours after `from`, moved to the preferred local time and
+// forward to an allowed day of the week
+export const computeStepFireTime = (from: Date, timing: StepTiming, timeZone: string): Date => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC'
+  const earliest = new Date(from.getTime() + Math.max(0, timing.delayHours) * HOUR_MS)
+  const days = timing.daysOfWeek?.length ? timing.daysOfWeek : [0, 1, 2, 3, 4, 5, 6]
+
+  const start = getZonedParts(earliest, zone)
+  const [hour, minute] = timing.preferredTime
+    ? timing.preferredTime.split(':').map(Number)
+    : [start.hour, start.minute]
+
+  // Walk local calendar days (at most two weeks covers any day-of-week set)
+  for (let offset = 0; offset < 14; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset))
+    if (!days.includes(day.getUTCDay())) continue
+
+    const candidate = zonedTimeToUtc({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour,
+      minute,
+    }, zone)
+
+    if (candidate.getTime() >= earliest.getTime() - 60000) {
+      return candidate < earliest ? earliest : candidate
+    }
+  }
+
+  return earliest
+}
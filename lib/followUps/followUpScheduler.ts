@@ -0,0 +1,658 @@
+// LeadAI Pro - Follow-up Scheduler
+// Enrolls leads in sequence templates, fires due step runs and manages the approval queue
+
+import { prisma } from '../database'
+import { Clock, systemClock, computeStepFireTime, isValidTimeZone } from './followUpSchedule'
+import {
+  TriggerEventValue,
+  RESPONSE_STOP_REASONS,
+  sequenceTemplateService,
+  templateAppliesTo,
+} from './sequenceTemplates'
+import { complianceGuard } from '../compliance/complianceGuard'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A failing step is retried this many times before it is marked FAILED
+const MAX_STEP_ATTEMPTS = 3
+const RETRY_DELAY_MS = 15 * 60 * 1000
+
+// Steps autoExecute would send; the rest always need a human
+const SEND_TYPES = ['EMAIL', 'SMS']
+
+export type LeadEvent = 'replied' | 'meeting'
+
+export interface StepExecutionContext {
+  // The step as it should run, with any edits made while approving
+  step: { id: string; type: string; title: string; content: string }
+  enrollment: { id: string; sequenceId: string }
+  lead: {
+    id: string
+    organizationId: string
+    assignedTo: string | null
+    email: string | null
+    phone: string | null
+    timezone: string | null
+  }
+  // false: create a task for the rep instead of sending
+  send: boolean
+  now: Date
+}
+
+export interface StepExecutionResult {
+  activityId?: string
+  detail: string
+  // An auto-send step that went to the rep instead of out; the run is SKIPPED with the detail
+  notSent?: boolean
+}
+
+// Carries out a step; throw StepSkippedError when the step cannot apply to the lead and
+// StepDeferredError when it cannot run yet
+export interface StepExecutor {
+  execute(context: StepExecutionContext): Promise<StepExecutionResult>
+}
+
+export interface FollowUpRunSummary {
+  processed: number
+  executed: number
+  skipped: number
+  failed: number
+  retried: number
+  awaitingApproval: number
+  stopped: number
+}
+
+export interface EnrollmentSummary {
+  id: string
+  sequenceId: string
+  version: number
+  firstStepAt: Date
+}
+
+type StepOutcome = 'executed' | 'skipped' | 'failed' | 'retried' | 'awaitingApproval' | 'stopped'
+
+// Error raised for requests on missing steps/enrollments or ones in the wrong state
+export class FollowUpStepError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state') {
+    super(message)
+    this.name = 'FollowUpStepError'
+  }
+}
+
+// Raised by executors when a step does not apply (e.g. no email address)
+export class StepSkippedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StepSkippedError'
+  }
+}
+
+// Raised by executors when a step may only run later (e.g. quiet hours); not counted as an attempt
+export class StepDeferredError extends Error {
+  constructor(message: string, public until: Date) {
+    super(message)
+    this.name = 'StepDeferredError'
+  }
+}
+
+// Records each step as a pending task for the assigned rep. There is no sender for sequence
+// steps yet, so auto-send EMAIL/SMS steps are handed to the rep too (flagged autoSend) and
+// reported as not sent; leads that may not be contacted on the step's channel are skipped.
+export const activityStepExecutor: StepExecutor = {
+  async execute({ step, enrollment, lead, send, now }) {
+    if (!lead.assignedTo) {
+      throw new StepSkippedError('Lead has no assigned rep')
+    }
+    if (step.type === 'EMAIL' && !lead.email) {
+      throw new StepSkippedError('Lead has no email address')
+    }
+    if ((step.type === 'SMS' || step.type === 'CALL') && !lead.phone) {
+      throw new StepSkippedError('Lead has no phone number')
+    }
+
+    const autoSend = send && SEND_TYPES.includes(step.type)
+    if (autoSend) {
+      const decision = await complianceGuard.check(lead.organizationId, {
+        channel: step.type === 'EMAIL' ? 'email' : 'sms',
+        to: (step.type === 'EMAIL' ? lead.email : lead.phone)!,
+        leadId: lead.id,
+        timeZone: lead.timezone,
+      })
+      // Quiet hours only matter once something is sent; the rep picks the time
+      if (!decision.allowed && !decision.retryAt) {
+        throw new StepSkippedError(decision.detail!)
+      }
+    }
+
+    const activity = await prisma.activity.create({
+      data: {
+        leadId: lead.id,
+        userId: lead.assignedTo,
+        type: 'TASK' as any,
+        subject: `${step.type.charAt(0)}${step.type.slice(1).toLowerCase()}: ${step.title}`,
+        description: step.content,
+        scheduledAt: now,
+        metadata: {
+          followUpSequenceId: enrollment.sequenceId,
+          followUpEnrollmentId: enrollment.id,
+          followUpStepRunId: step.id,
+          automated: false,
+          autoSend,
+        },
+      },
+      select: { id: true },
+    })
+
+    return autoSend
+      ? { activityId: activity.id, detail: `Not sent: no ${step.type.toLowerCase()} sender for sequences; created a task for the assigned rep`, notSent: true }
+      : { activityId: activity.id, detail: 'Created a task for the assigned rep' }
+  },
+}
+
+export class FollowUpScheduler {
+  constructor(
+    private clock: Clock = systemClock,
+    private executor: StepExecutor = activityStepExecutor
+  ) {}
+
+  // Enroll a lead in every active template for the trigger event it is not already
+  // working through. Templates can be preloaded when enrolling many leads.
+  async enroll(leadId: string, triggerEvent: TriggerEventValue, templates?: any[]): Promise<EnrollmentSummary[]> {
+    const lead = await this.findLead(leadId)
+    if (!lead) {
+      return []
+    }
+
+    const matching = (templates || await sequenceTemplateService.findForTrigger(lead.organizationId, triggerEvent))
+      .filter(template => template.triggerEvent === triggerEvent && templateAppliesTo(template, lead.leadType))
+    if (matching.length === 0) {
+      return []
+    }
+
+    const open = await prisma.followUpEnrollment.findMany({
+      where: { leadId, status: { in: ['ACTIVE', 'PAUSED'] as any }, sequenceId: { in: matching.map(t => t.id) } },
+      select: { sequenceId: true },
+    })
+
+    const enrolled: EnrollmentSummary[] = []
+    for (const template of matching) {
+      if (open.some(e => e.sequenceId === template.id)) continue
+      enrolled.push(await this.createEnrollment(lead, template))
+    }
+
+    return enrolled
+  }
+
+  // Enroll a lead in one template by hand, whatever its trigger event
+  async enrollInSequence(leadId: string, sequenceId: string, enrolledBy: string): Promise<EnrollmentSummary> {
+    const lead = await this.findLead(leadId)
+    const template = lead && (await sequenceTemplateService.get(lead.organizationId, sequenceId))
+    if (!lead || !template || !template.isActive) {
+      throw new FollowUpStepError('Follow-up sequence not found', 'not_found')
+    }
+
+    const open = await prisma.followUpEnrollment.findFirst({
+      where: { leadId, sequenceId, status: { in: ['ACTIVE', 'PAUSED'] as any } },
+      select: { id: true },
+    })
+    if (open) {
+      throw new FollowUpStepError('Lead is already enrolled in this sequence', 'invalid_state')
+    }
+
+    return this.createEnrollment(lead, template, enrolledBy)
+  }
+
+  // Stop a lead's open enrollments when it replies or books a meeting
+  async handleLeadEvent(leadId: string, event: LeadEvent): Promise<number> {
+    const enrollments = await prisma.followUpEnrollment.findMany({
+      where: {
+        leadId,
+        status: { in: ['ACTIVE', 'PAUSED'] as any },
+        version: event === 'replied' ? { stopOnReply: true } : { stopOnMeeting: true },
+      },
+      select: { id: true, sequenceId: true },
+    })
+
+    for (const enrollment of enrollments) {
+      await this.stopEnrollment(enrollment, RESPONSE_STOP_REASONS[event])
+    }
+
+    return enrollments.length
+  }
+
+  // Hold an enrollment: its scheduled steps stay put but do not fire
+  async pauseEnrollment(enrollmentId: string): Promise<void> {
+    const paused = await prisma.followUpEnrollment.updateMany({
+      where: { id: enrollmentId, status: 'ACTIVE' as any },
+      data: { status: 'PAUSED' as any, pausedAt: this.clock.now() },
+    })
+    if (paused.count === 0) {
+      throw new FollowUpStepError('Only active enrollments can be paused', 'invalid_state')
+    }
+  }
+
+  // Resume a paused enrollment. Steps that came due while it was paused are moved to
+  // their next allowed local time instead of all firing at once. Pausing does not
+  // extend the sequence's maxDuration.
+  async resumeEnrollment(enrollmentId: string): Promise<void> {
+    const now = this.clock.now()
+    const resumed = await prisma.followUpEnrollment.updateMany({
+      where: { id: enrollmentId, status: 'PAUSED' as any },
+      data: { status: 'ACTIVE' as any, pausedAt: null },
+    })
+    if (resumed.count === 0) {
+      throw new FollowUpStepError('Only paused enrollments can be resumed', 'invalid_state')
+    }
+
+    const enrollment: any = await prisma.followUpEnrollment.findUnique({
+      where: { id: enrollmentId },
+      include: {
+        runs: {
+          where: { status: 'SCHEDULED' as any, scheduledFor: { lt: now } },
+          include: { step: true },
+        },
+      },
+    })
+
+    for (const run of enrollment?.runs || []) {
+      await prisma.followUpStepRun.update({
+        where: { id: run.id },
+        data: {
+          scheduledFor: computeStepFireTime(now, { ...run.step, delayHours: 0 }, enrollment.timezone),
+        },
+      })
+    }
+  }
+
+  async unenroll(enrollment: { id: string; sequenceId: string }, reason?: string): Promise<void> {
+    await this.stopEnrollment(enrollment, reason || 'Unenrolled')
+  }
+
+  async stopEnrollment(enrollment: { id: string; sequenceId: string }, reason: string): Promise<void> {
+    const now = this.clock.now()
+
+    // Credit a response to the last step that actually reached the lead
+    const responded = Object.values(RESPONSE_STOP_REASONS).includes(reason)
+    const lastExecuted = responded
+      ? await prisma.followUpStepRun.findFirst({
+        where: { enrollmentId: enrollment.id, status: 'EXECUTED' as any },
+        orderBy: { stepNumber: 'desc' },
+        select: { stepNumber: true },
+      })
+      : null
+
+    await prisma.$transaction([
+      prisma.followUpStepRun.updateMany({
+        where: { enrollmentId: enrollment.id, status: { in: ['PENDING', 'SCHEDULED', 'AWAITING_APPROVAL'] as any } },
+        data: { status: 'SKIPPED' as any, statusReason: `Sequence stopped: ${reason}` },
+      }),
+      prisma.followUpEnrollment.update({
+        where: { id: enrollment.id },
+        data: {
+          status: 'STOPPED' as any,
+          stoppedReason: reason,
+          completedAt: now,
+          ...(responded && { respondedAtStep: lastExecuted?.stepNumber ?? null }),
+        },
+      }),
+    ])
+
+    await sequenceTemplateService.refreshStats(enrollment.sequenceId)
+  }
+
+  // Fire every step run that is due. Safe to run from several workers: each run is
+  // claimed by bumping its attempt count before it is processed.
+  async runDueSteps(limit: number = 100): Promise<FollowUpRunSummary> {
+    const summary: FollowUpRunSummary = {
+      processed: 0,
+      executed: 0,
+      skipped: 0,
+      failed: 0,
+      retried: 0,
+      awaitingApproval: 0,
+      stopped: 0,
+    }
+
+    const due = await prisma.followUpStepRun.findMany({
+      where: {
+        status: 'SCHEDULED' as any,
+        scheduledFor: { lte: this.clock.now() },
+        enrollment: { status: 'ACTIVE' as any },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      take: limit,
+      include: { step: true, enrollment: { include: { version: true } } },
+    })
+
+    for (const run of due as any[]) {
+      const claim = await prisma.followUpStepRun.updateMany({
+        where: { id: run.id, status: 'SCHEDULED' as any, attempts: run.attempts },
+        data: { attempts: { increment: 1 } },
+      })
+      if (claim.count === 0) continue
+
+      const outcome = await this.processRun({ ...run, attempts: run.attempts + 1 }, run.enrollment)
+      summary.processed++
+      summary[outcome]++
+    }
+
+    return summary
+  }
+
+  // Steps waiting for a rep to approve them, oldest first
+  async getApprovalQueue(organizationId: string, userId?: string) {
+    return prisma.followUpStepRun.findMany({
+      where: {
+        status: 'AWAITING_APPROVAL' as any,
+        enrollment: {
+          organizationId,
+          status: 'ACTIVE' as any,
+          ...(userId && { lead: { assignedTo: userId } }),
+        },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      include: {
+        step: true,
+        enrollment: {
+          select: {
+            id: true,
+            sequence: { select: { id: true, name: true } },
+            lead: { select: { id: true, firstName: true, lastName: true, email: true, phone: true, assignedTo: true } },
+          },
+        },
+      },
+    })
+  }
+
+  // Approve a queued step (optionally with edited content) and run it now. assignedTo
+  // limits approvals to the rep's own leads.
+  async approveStep(
+    runId: string,
+    organizationId: string,
+    userId: string,
+    edits: { title?: string; content?: string } = {},
+    assignedTo?: string
+  ): Promise<StepOutcome> {
+    const run = await this.findQueuedRun(runId, organizationId, assignedTo)
+
+    const approved = await prisma.followUpStepRun.update({
+      where: { id: run.id },
+      data: {
+        ...edits,
+        approvedBy: userId,
+        approvedAt: this.clock.now(),
+        status: 'SCHEDULED' as any,
+        attempts: { increment: 1 },
+      },
+    })
+
+    return this.processRun({ ...approved, step: run.step }, run.enrollment)
+  }
+
+  async rejectStep(
+    runId: string,
+    organizationId: string,
+    userId: string,
+    reason?: string,
+    assignedTo?: string
+  ): Promise<void> {
+    const run = await this.findQueuedRun(runId, organizationId, assignedTo)
+
+    await prisma.followUpStepRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'SKIPPED' as any,
+        statusReason: reason ? `Rejected: ${reason}` : 'Rejected by rep',
+        approvedBy: userId,
+        approvedAt: this.clock.now(),
+      },
+    })
+
+    await this.scheduleNext(run.enrollment, run.stepNumber)
+  }
+
+  async getLeadEnrollments(leadId: string) {
+    return prisma.followUpEnrollment.findMany({
+      where: { leadId },
+      orderBy: { enrolledAt: 'desc' },
+      include: {
+        sequence: { select: { id: true, name: true, currentVersion: true } },
+        version: { select: { version: true } },
+        runs: { orderBy: { stepNumber: 'asc' }, include: { step: true } },
+      },
+    })
+  }
+
+  private async findLead(leadId: string) {
+    return prisma.lead.findUnique({
+      where: { id: leadId },
+      select: {
+        id: true,
+        organizationId: true,
+        leadType: true,
+        timezone: true,
+        assignedUser: { select: { timezone: true } },
+      },
+    })
+  }
+
+  // Start a lead on the template's current version, with the first step scheduled
+  private async createEnrollment(lead: any, template: any, enrolledBy?: string): Promise<EnrollmentSummary> {
+    const version = template.versions[0]
+    const now = this.clock.now()
+    const timezone = this.resolveTimeZone(lead)
+    const firstStepAt = computeStepFireTime(now, version.steps[0], timezone)
+
+    const enrollment = await prisma.followUpEnrollment.create({
+      data: {
+        leadId: lead.id,
+        organizationId: lead.organizationId,
+        sequenceId: template.id,
+        versionId: version.id,
+        timezone,
+        enrolledAt: now,
+        enrolledBy,
+        runs: {
+          create: version.steps.map((step: any, index: number) => ({
+            stepId: step.id,
+            stepNumber: step.stepNumber,
+            ...(index === 0 && { status: 'SCHEDULED' as any, scheduledFor: firstStepAt }),
+          })),
+        },
+      },
+      select: { id: true },
+    })
+
+    await sequenceTemplateService.refreshStats(template.id)
+
+    return { id: enrollment.id, sequenceId: template.id, version: version.version, firstStepAt }
+  }
+
+  private async findQueuedRun(runId: string, organizationId: string, assignedTo?: string) {
+    const run: any = await prisma.followUpStepRun.findUnique({
+      where: { id: runId },
+      include: {
+        step: true,
+        enrollment: { include: { version: true, lead: { select: { assignedTo: true } } } },
+      },
+    })
+
+    if (
+      !run ||
+      run.enrollment.organizationId !== organizationId ||
+      (assignedTo && run.enrollment.lead.assignedTo !== assignedTo)
+    ) {
+      throw new FollowUpStepError('Follow-up step not found', 'not_found')
+    }
+    if (run.status !== 'AWAITING_APPROVAL') {
+      throw new FollowUpStepError(`Step is ${String(run.status).toLowerCase()}, not awaiting approval`, 'invalid_state')
+    }
+    if (run.enrollment.status !== 'ACTIVE') {
+      throw new FollowUpStepError(`Enrollment is ${String(run.enrollment.status).toLowerCase()}`, 'invalid_state')
+    }
+
+    return run
+  }
+
+  private async processRun(run: any, enrollment: any): Promise<StepOutcome> {
+    const now = this.clock.now()
+    const step = run.step
+    const version = enrollment.version
+
+    const stopReason = await this.findStopReason(enrollment)
+    if (stopReason) {
+      await this.stopEnrollment(enrollment, stopReason)
+      return 'stopped'
+    }
+
+    const deadline = new Date(enrollment.enrolledAt.getTime() + version.maxDuration * DAY_MS)
+    if (run.scheduledFor && run.scheduledFor > deadline) {
+      await this.finishRun(run, 'SKIPPED', `Past the sequence's ${version.maxDuration}-day limit`)
+      await this.completeEnrollment(enrollment)
+      return 'skipped'
+    }
+
+    if (step.requiresApproval && !run.approvedAt) {
+      await prisma.followUpStepRun.update({
+        where: { id: run.id },
+        data: { status: 'AWAITING_APPROVAL' as any, statusReason: 'Waiting for rep approval' },
+      })
+      return 'awaitingApproval'
+    }
+
+    const lead = await prisma.lead.findUnique({
+      where: { id: enrollment.leadId },
+      select: { id: true, organizationId: true, assignedTo: true, email: true, phone: true, timezone: true },
+    })
+
+    try {
+      const result = await this.executor.execute({
+        step: { id: run.id, type: step.type, title: run.title || step.title, content: run.content || step.content },
+        enrollment: { id: enrollment.id, sequenceId: enrollment.sequenceId },
+        lead: lead!,
+        send: step.autoExecute,
+        now,
+      })
+
+      await this.finishRun(run, result.notSent ? 'SKIPPED' : 'EXECUTED', result.detail, result.activityId)
+      await this.scheduleNext(enrollment, run.stepNumber)
+      return result.notSent ? 'skipped' : 'executed'
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (error instanceof StepSkippedError) {
+        await this.finishRun(run, 'SKIPPED', message)
+        await this.scheduleNext(enrollment, run.stepNumber)
+        return 'skipped'
+      }
+
+      if (error instanceof StepDeferredError) {
+        await prisma.followUpStepRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'SCHEDULED' as any,
+            scheduledFor: error.until,
+            statusReason: `Deferred: ${message}`,
+            attempts: { decrement: 1 },
+          },
+        })
+        return 'retried'
+      }
+
+      if (run.attempts < MAX_STEP_ATTEMPTS) {
+        await prisma.followUpStepRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'SCHEDULED' as any,
+            scheduledFor: new Date(now.getTime() + RETRY_DELAY_MS),
+            statusReason: `Attempt ${run.attempts} failed: ${message}`,
+          },
+        })
+        return 'retried'
+      }
+
+      await this.finishRun(run, 'FAILED', `Failed after ${run.attempts} attempts: ${message}`)
+      await this.scheduleNext(enrollment, run.stepNumber)
+      return 'failed'
+    }
+  }
+
+  // Replies and meetings since enrollment end sequences that stop on them
+  private async findStopReason(enrollment: any): Promise<string | null> {
+    if (enrollment.version.stopOnReply) {
+      const reply = await prisma.conversation.findFirst({
+        where: { leadId: enrollment.leadId, direction: 'inbound', createdAt: { gte: enrollment.enrolledAt } },
+        select: { id: true },
+      })
+      if (reply) return RESPONSE_STOP_REASONS.replied
+    }
+
+    if (enrollment.version.stopOnMeeting) {
+      const meeting = await prisma.activity.findFirst({
+        where: { leadId: enrollment.leadId, type: 'MEETING' as any, createdAt: { gte: enrollment.enrolledAt } },
+        select: { id: true },
+      })
+      if (meeting) return RESPONSE_STOP_REASONS.meeting
+    }
+
+    return null
+  }
+
+  private async finishRun(run: any, status: 'EXECUTED' | 'SKIPPED' | 'FAILED', reason: string, activityId?: string) {
+    await prisma.followUpStepRun.update({
+      where: { id: run.id },
+      data: {
+        status: status as any,
+        statusReason: reason,
+        ...(status === 'EXECUTED' && { executedAt: this.clock.now() }),
+        ...(activityId && { activityId }),
+      },
+    })
+  }
+
+  // Schedule the step after stepNumber relative to now, or complete the enrollment
+  private async scheduleNext(enrollment: any, stepNumber: number): Promise<void> {
+    const next: any = await prisma.followUpStepRun.findFirst({
+      where: { enrollmentId: enrollment.id, stepNumber: { gt: stepNumber }, status: 'PENDING' as any },
+      orderBy: { stepNumber: 'asc' },
+      include: { step: true },
+    })
+
+    if (!next) {
+      await this.completeEnrollment(enrollment)
+      return
+    }
+
+    await prisma.followUpStepRun.update({
+      where: { id: next.id },
+      data: {
+        status: 'SCHEDULED' as any,
+        scheduledFor: computeStepFireTime(this.clock.now(), next.step, enrollment.timezone),
+      },
+    })
+  }
+
+  private async completeEnrollment(enrollment: { id: string; sequenceId: string }): Promise<void> {
+    await prisma.$transaction([
+      prisma.followUpStepRun.updateMany({
+        where: { enrollmentId: enrollment.id, status: 'PENDING' as any },
+        data: { status: 'SKIPPED' as any, statusReason: 'Sequence ended before this step' },
+      }),
+      prisma.followUpEnrollment.update({
+        where: { id: enrollment.id },
+        data: { status: 'COMPLETED' as any, completedAt: this.clock.now() },
+      }),
+    ])
+
+    await sequenceTemplateService.refreshStats(enrollment.sequenceId)
+  }
+
+  // Lead's own time zone, else the assigned rep's, else UTC
+  private resolveTimeZone(lead: { timezone?: string | null; assignedUser?: { timezone: string } | null }): string {
+    if (isValidTimeZone(lead.timezone)) return lead.timezone!
+    if (isValidTimeZone(lead.assignedUser?.timezone)) return lead.assignedUser!.timezone
+    return 'UTC'
+  }
+}
+
+export const followUpScheduler = new FollowUpScheduler()
@@ -0,0 +1,389 @@
+// LeadAI Pro - Follow-up Sequence Templates
+// Organization sequence templates, their versions and per-step stats across enrollments
+
+import { prisma } from '../database'
+import { REAL_ESTATE_LEAD_TYPES } from '../leads/leadFields'
+
+export const TRIGGER_EVENTS = [
+  'LEAD_CREATED',
+  'DEMO_COMPLETED',
+  'PROPOSAL_SENT',
+  'NO_RESPONSE',
+  'MEETING_COMPLETED',
+  'EMAIL_OPENED',
+  'WEBSITE_VISIT',
+] as const
+export type TriggerEventValue = typeof TRIGGER_EVENTS[number]
+
+export const FOLLOW_UP_TYPES = ['EMAIL', 'CALL', 'MEETING', 'TASK', 'SMS', 'LINKEDIN'] as const
+export type FollowUpTypeValue = typeof FOLLOW_UP_TYPES[number]
+
+// Stop reasons that count as the lead responding to a sequence
+export const RESPONSE_STOP_REASONS = {
+  replied: 'Lead replied',
+  meeting: 'Meeting booked',
+}
+
+export interface SequenceStepDefinition {
+  type: FollowUpTypeValue
+  title: string
+  content: string
+  // Hours after the previous step (or enrollment, for the first step)
+  delayHours: number
+  preferredTime?: string | null
+  daysOfWeek?: number[]
+  autoExecute: boolean
+  requiresApproval: boolean
+}
+
+export interface SequenceTemplateInput {
+  name: string
+  description?: string
+  triggerEvent: TriggerEventValue
+  // Lead types enrolled automatically; empty enrolls every lead
+  leadTypes: string[]
+  isActive?: boolean
+  stopOnReply: boolean
+  stopOnMeeting: boolean
+  // Steps that would fire later than this many days after enrollment are skipped
+  maxDuration: number
+  steps: SequenceStepDefinition[]
+}
+
+export interface StepStats {
+  stepNumber: number
+  type: string
+  title: string
+  scheduled: number
+  awaitingApproval: number
+  executed: number
+  skipped: number
+  failed: number
+  // Enrollments whose lead responded after this was the last step executed
+  responses: number
+  responseRate: number | null
+}
+
+export interface VersionStats {
+  version: number
+  createdAt: Date
+  enrolled: number
+  active: number
+  paused: number
+  completed: number
+  stopped: number
+  responded: number
+  responseRate: number | null
+  steps: StepStats[]
+}
+
+type CountGroup = { _count: { _all: number } } & Record<string, any>
+
+const percent = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 1000) / 10 : null
+
+const versionedFields = (input: Pick<SequenceTemplateInput, 'stopOnReply' | 'stopOnMeeting' | 'maxDuration' | 'steps'>) =>
+  JSON.stringify({
+    stopOnReply: input.stopOnReply,
+    stopOnMeeting: input.stopOnMeeting,
+    maxDuration: input.maxDuration,
+    steps: input.steps.map(step => ({
+      type: step.type,
+      title: step.title,
+      content: step.content,
+      delayHours: step.delayHours,
+      preferredTime: step.preferredTime || null,
+      daysOfWeek: step.daysOfWeek || [1, 2, 3, 4, 5],
+      autoExecute: step.autoExecute,
+      requiresApproval: step.requiresApproval,
+    })),
+  })
+
+const stepRows = (steps: SequenceStepDefinition[]) =>
+  steps.map((step, index) => ({
+    stepNumber: index + 1,
+    type: step.type as any,
+    title: step.title,
+    content: step.content,
+    delayHours: step.delayHours,
+    preferredTime: step.preferredTime || null,
+    daysOfWeek: step.daysOfWeek || [1, 2, 3, 4, 5],
+    autoExecute: step.autoExecute,
+    requiresApproval: step.requiresApproval,
+  }))
+
+// Validate a sequence template, returning human-readable problems
+export const validateSequenceTemplate = (input: SequenceTemplateInput): string[] => {
+  const errors: string[] = []
+
+  if (!input?.name) {
+    errors.push('name is required')
+  }
+  if (!TRIGGER_EVENTS.includes(input?.triggerEvent)) {
+    errors.push(`triggerEvent must be one of: ${TRIGGER_EVENTS.join(', ')}`)
+  }
+  for (const leadType of input?.leadTypes || []) {
+    if (!(REAL_ESTATE_LEAD_TYPES as readonly string[]).includes(leadType)) {
+      errors.push(`unknown lead type "${leadType}"`)
+    }
+  }
+  if (typeof input?.maxDuration !== 'number' || input.maxDuration < 1) {
+    errors.push('maxDuration must be at least 1 day')
+  }
+  if (!Array.isArray(input?.steps) || input.steps.length === 0) {
+    errors.push('at least one step is required')
+    return errors
+  }
+
+  input.steps.forEach((step, index) => {
+    const label = `Step ${index + 1}`
+
+    if (!FOLLOW_UP_TYPES.includes(step.type)) {
+      errors.push(`${label}: type must be one of: ${FOLLOW_UP_TYPES.join(', ')}`)
+    }
+    if (!step.title || !step.content) {
+      errors.push(`${label}: title and content are required`)
+    }
+    if (typeof step.delayHours !== 'number' || step.delayHours < 0) {
+      errors.push(`${label}: delayHours must be zero or more`)
+    }
+    if (step.preferredTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(step.preferredTime)) {
+      errors.push(`${label}: preferredTime must be HH:MM`)
+    }
+    if (step.daysOfWeek && (step.daysOfWeek.length === 0 || step.daysOfWeek.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+      errors.push(`${label}: daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)`)
+    }
+  })
+
+  return errors
+}
+
+// Whether a template enrolls leads of this type
+export const templateAppliesTo = (template: { leadTypes: string[] }, leadType?: string | null): boolean =>
+  template.leadTypes.length === 0 || (!!leadType && template.leadTypes.includes(leadType))
+
+// Per-version and per-step outcomes from grouped enrollment and step-run counts
+export const buildSequenceStats = (
+  versions: Array<{ id: string; version: number; createdAt: Date; steps: Array<{ id: string; stepNumber: number; type: string; title: string }> }>,
+  enrollmentGroups: CountGroup[],
+  responseGroups: CountGroup[],
+  runGroups: CountGroup[]
+): VersionStats[] => {
+  const count = (groups: CountGroup[], match: Record<string, any>): number =>
+    groups
+      .filter(group => Object.entries(match).every(([key, value]) => group[key] === value))
+      .reduce((sum, group) => sum + group._count._all, 0)
+
+  return versions.map(version => {
+    const enrolled = count(enrollmentGroups, { versionId: version.id })
+    const responded = count(responseGroups, { versionId: version.id })
+
+    return {
+      version: version.version,
+      createdAt: version.createdAt,
+      enrolled,
+      active: count(enrollmentGroups, { versionId: version.id, status: 'ACTIVE' }),
+      paused: count(enrollmentGroups, { versionId: version.id, status: 'PAUSED' }),
+      completed: count(enrollmentGroups, { versionId: version.id, status: 'COMPLETED' }),
+      stopped: count(enrollmentGroups, { versionId: version.id, status: 'STOPPED' }),
+      responded,
+      responseRate: percent(responded, enrolled),
+      steps: version.steps.map(step => {
+        const executed = count(runGroups, { stepId: step.id, status: 'EXECUTED' })
+        const responses = count(responseGroups, { versionId: version.id, respondedAtStep: step.stepNumber })
+
+        return {
+          stepNumber: step.stepNumber,
+          type: step.type,
+          title: step.title,
+          scheduled: count(runGroups, { stepId: step.id, status: 'SCHEDULED' }),
+          awaitingApproval: count(runGroups, { stepId: step.id, status: 'AWAITING_APPROVAL' }),
+          executed,
+          skipped: count(runGroups, { stepId: step.id, status: 'SKIPPED' }),
+          failed: count(runGroups, { stepId: step.id, status: 'FAILED' }),
+          responses,
+          responseRate: percent(responses, executed),
+        }
+      }),
+    }
+  })
+}
+
+export class SequenceTemplateService {
+  async list(organizationId: string, includeInactive: boolean = false) {
+    return prisma.followUpSequence.findMany({
+      where: { organizationId, ...(!includeInactive && { isActive: true }) },
+      orderBy: { name: 'asc' },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          take: 1,
+          include: { steps: { orderBy: { stepNumber: 'asc' } } },
+        },
+      },
+    })
+  }
+
+  // A template with every version, newest first
+  async get(organizationId: string, sequenceId: string) {
+    return prisma.followUpSequence.findFirst({
+      where: { id: sequenceId, organizationId },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          include: { steps: { orderBy: { stepNumber: 'asc' } } },
+        },
+      },
+    })
+  }
+
+  async create(organizationId: string, input: SequenceTemplateInput, userId: string) {
+    return prisma.followUpSequence.create({
+      data: {
+        organizationId,
+        name: input.name,
+        description: input.description,
+        triggerEvent: input.triggerEvent as any,
+        leadTypes: input.leadTypes || [],
+        isActive: input.isActive ?? true,
+        currentVersion: 1,
+        createdBy: userId,
+        versions: {
+          create: {
+            version: 1,
+            stopOnReply: input.stopOnReply,
+            stopOnMeeting: input.stopOnMeeting,
+            maxDuration: input.maxDuration,
+            createdBy: userId,
+            steps: { create: stepRows(input.steps) },
+          },
+        },
+      },
+      include: { versions: { include: { steps: { orderBy: { stepNumber: 'asc' } } } } },
+    })
+  }
+
+  // Edit a template. Step or setting changes add a new version; enrollments already
+  // running stay on the version they started with.
+  async update(organizationId: string, sequenceId: string, input: SequenceTemplateInput, userId: string) {
+    const existing = await this.get(organizationId, sequenceId)
+    if (!existing) {
+      return null
+    }
+
+    const current = (existing as any).versions[0]
+    const changed = !current || versionedFields(input) !== versionedFields({
+      stopOnReply: current.stopOnReply,
+      stopOnMeeting: current.stopOnMeeting,
+      maxDuration: current.maxDuration,
+      steps: current.steps,
+    })
+    const nextVersion = existing.currentVersion + 1
+
+    await prisma.followUpSequence.update({
+      where: { id: sequenceId },
+      data: {
+        name: input.name,
+        description: input.description,
+        triggerEvent: input.triggerEvent as any,
+        leadTypes: input.leadTypes || [],
+        isActive: input.isActive ?? existing.isActive,
+        ...(changed && {
+          currentVersion: nextVersion,
+          versions: {
+            create: {
+              version: nextVersion,
+              stopOnReply: input.stopOnReply,
+              stopOnMeeting: input.stopOnMeeting,
+              maxDuration: input.maxDuration,
+              createdBy: userId,
+              steps: { create: stepRows(input.steps) },
+            },
+          },
+        }),
+      },
+    })
+
+    return { sequence: await this.get(organizationId, sequenceId), newVersion: changed ? nextVersion : null }
+  }
+
+  // Stop enrolling new leads; existing enrollments run to the end
+  async deactivate(organizationId: string, sequenceId: string): Promise<boolean> {
+    const result = await prisma.followUpSequence.updateMany({
+      where: { id: sequenceId, organizationId },
+      data: { isActive: false },
+    })
+    return result.count > 0
+  }
+
+  // Active templates for a trigger event, with their current version
+  async findForTrigger(organizationId: string, triggerEvent: TriggerEventValue) {
+    return prisma.followUpSequence.findMany({
+      where: { organizationId, isActive: true, triggerEvent: triggerEvent as any },
+      include: {
+        versions: {
+          orderBy: { version: 'desc' },
+          take: 1,
+          include: { steps: { orderBy: { stepNumber: 'asc' } } },
+        },
+      },
+    })
+  }
+
+  async getStats(organizationId: string, sequenceId: string): Promise<VersionStats[] | null> {
+    const sequence = await this.get(organizationId, sequenceId)
+    if (!sequence) {
+      return null
+    }
+
+    const [enrollmentGroups, responseGroups, runGroups] = await Promise.all([
+      prisma.followUpEnrollment.groupBy({
+        by: ['versionId', 'status'],
+        where: { sequenceId },
+        _count: { _all: true },
+      }),
+      prisma.followUpEnrollment.groupBy({
+        by: ['versionId', 'respondedAtStep'],
+        where: { sequenceId, stoppedReason: { in: Object.values(RESPONSE_STOP_REASONS) } },
+        _count: { _all: true },
+      }),
+      prisma.followUpStepRun.groupBy({
+        by: ['stepId', 'status'],
+        where: { enrollment: { sequenceId } },
+        _count: { _all: true },
+      }),
+    ])
+
+    return buildSequenceStats((sequence as any).versions, enrollmentGroups as any, responseGroups as any, runGroups as any)
+  }
+
+  // Keep the template's headline analytics in step with its enrollments
+  async refreshStats(sequenceId: string): Promise<void> {
+    const [groups, responded] = await Promise.all([
+      prisma.followUpEnrollment.groupBy({
+        by: ['status'],
+        where: { sequenceId },
+        _count: { _all: true },
+      }),
+      prisma.followUpEnrollment.count({
+        where: { sequenceId, stoppedReason: { in: Object.values(RESPONSE_STOP_REASONS) } },
+      }),
+    ])
+
+    const byStatus = (status: string) => (groups as any[]).find(g => g.status === status)?._count._all || 0
+    const total = (groups as any[]).reduce((sum, g) => sum + g._count._all, 0)
+    const completed = byStatus('COMPLETED')
+    const ended = completed + byStatus('STOPPED')
+
+    await prisma.followUpSequence.update({
+      where: { id: sequenceId },
+      data: {
+        leadsEntered: total,
+        completionRate: percent(completed, ended) ?? 0,
+        responseRate: percent(responded, total) ?? 0,
+      },
+    })
+  }
+}
+
+export const sequenceTemplateService = new SequenceTemplateService()
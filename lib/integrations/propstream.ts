@@ -117,6 +117,8 @@ export interface PropStreamProperty {
     squareFootage: number
     distance: number
   }>
+  // Miles from the subject property; only set on results of getComparables
+  distance?: number
 }
 
 export interface PropStreamOwner {
@@ -387,7 +389,8 @@ export class PropStreamAPI {
         listingAgent: propStreamData.listingAgent || '',
         status: propStreamData.status || 'Unknown'
       },
-      comparables: propStreamData.comparables || []
+      comparables: propStreamData.comparables || [],
+      distance: propStreamData.distance
     }
   }
 
@@ -0,0 +1,228 @@
+// LeadAI Pro - Job Handlers
+// The work behind each job type; loaded by the worker process only
+
+import { prisma } from '../database'
+import { AIEmailMarketingEngine, EmailRecipient } from '../ai/emailMarketing'
+import { AICallingSystem } from '../ai/callingSystem'
+import { TranscriptionError } from '../calls/transcription'
+import { DocumentProcessingEngine } from '../ai/documentProcessor'
+import { BatchSkipTraceAPI, SkipTraceRequest, SkipTraceResult } from '../integrations/batchSkipTrace'
+import { aiResponseCache } from '../llm/responseCache'
+import { abTestService } from '../email/abTestService'
+import { LLMOutputError } from '../llm/types'
+import { JobHandler, JobHandlers, JobCancelledError, PermanentJobError } from './jobTypes'
+import { jobQueue } from './jobQueue'
+
+const SKIP_TRACE_POLL_MS = Number(process.env.SKIP_TRACE_POLL_SECONDS || 30) * 1000
+
+let emailEngine: AIEmailMarketingEngine | null = null
+let documentProcessor: DocumentProcessingEngine | null = null
+let callingSystem: AICallingSystem | null = null
+
+const sendCampaign: JobHandler<'email.sendCampaign'> = async ({ campaignId }, context) => {
+  emailEngine = emailEngine || new AIEmailMarketingEngine()
+
+  // Recipient statuses are stored as they go, so a retry only sends to those still pending
+  const campaign = await emailEngine.sendCampaign(campaignId, {
+    isCancelled: context.isCancelled,
+    onRecipient: (recipient, processed, total) => context.progress({ completed: processed, total }),
+  })
+
+  if (!campaign) {
+    throw new PermanentJobError(`Email campaign ${campaignId} not found`)
+  }
+  if (campaign.status === 'paused') {
+    throw new JobCancelledError()
+  }
+
+  // Send-time variants that are not due yet get their own run; the holdout is started by email.selectWinner
+  const now = Date.now()
+  const nextSendAt = (campaign.abTest?.variants || [])
+    .filter(variant => variant.sendAt && new Date(variant.sendAt).getTime() > now &&
+      campaign.recipients.some(r => r.variantId === variant.id && !r.holdout && r.status === 'pending'))
+    .map(variant => new Date(variant.sendAt!))
+    .sort((a, b) => a.getTime() - b.getTime())[0]
+  if (campaign.status === 'sending' && nextSendAt) {
+    await jobQueue.enqueue('email.sendCampaign', { campaignId }, {
+      organizationId: context.job.organizationId || undefined,
+      userId: context.job.userId || undefined,
+      runAt: nextSendAt,
+    })
+  }
+
+  const count = (status: EmailRecipient['status']) => campaign.recipients.filter(r => r.status === status).length
+  return {
+    status: campaign.status,
+    recipients: campaign.recipients.length,
+    sent: campaign.recipients.filter(r => r.sentAt).length,
+    bounced: count('bounced'),
+    failed: count('failed'),
+    ...(nextSendAt && { nextSendAt }),
+  }
+}
+
+const selectWinner: JobHandler<'email.selectWinner'> = async ({ campaignId }, context) => {
+  const winner = await abTestService.selectWinner(campaignId)
+  if (!winner) {
+    throw new PermanentJobError(`Email campaign ${campaignId} not found`)
+  }
+
+  // A paused or cancelled campaign keeps its holdout until it is sent again
+  const campaign = await prisma.emailCampaign.findUnique({ where: { id: campaignId }, select: { status: true } })
+  if (winner.rolledOut > 0 && campaign?.status === 'SENDING') {
+    await jobQueue.enqueue('email.sendCampaign', { campaignId }, {
+      organizationId: context.job.organizationId || undefined,
+      userId: context.job.userId || undefined,
+    })
+  }
+
+  return winner
+}
+
+const ingestRecording: JobHandler<'calls.ingestRecording'> = async ({ callSessionId, recordingUrl, transcript }) => {
+  callingSystem = callingSystem || new AICallingSystem()
+
+  try {
+    const session = await callingSystem.ingestRecording(callSessionId, { recordingUrl, transcript })
+    if (!session) {
+      throw new PermanentJobError(`Call session ${callSessionId} not found`)
+    }
+
+    return {
+      transcriptLength: session.transcript?.length || 0,
+      keyMoments: session.keyMoments.length,
+      actionItems: session.actionItems.length,
+    }
+  } catch (error) {
+    if (error instanceof TranscriptionError && error.permanent) {
+      throw new PermanentJobError(error.message)
+    }
+    throw error
+  }
+}
+
+const toSkipTraceRequest = (lead: any): SkipTraceRequest => ({
+  firstName: lead.firstName,
+  lastName: lead.lastName,
+  address: lead.address?.street,
+  city: lead.address?.city,
+  state: lead.address?.state,
+  zipCode: lead.address?.zipCode,
+  phone: lead.phone || undefined,
+  email: lead.email || undefined,
+})
+
+// Fill in missing contact details and keep the trace on the lead
+const applySkipTrace = async (lead: any, result: SkipTraceResult): Promise<void> => {
+  const phone = [...result.contact.phones].sort((a, b) => b.confidence - a.confidence).find(p => p.isValid)
+  const email = [...result.contact.emails].sort((a, b) => b.confidence - a.confidence).find(e => e.isValid)
+
+  await prisma.lead.update({
+    where: { id: lead.id },
+    data: {
+      phone: lead.phone || phone?.number || null,
+      email: lead.email || email?.address || null,
+      customFields: {
+        ...((lead.customFields as any) || {}),
+        skipTrace: {
+          status: result.status,
+          confidence: result.confidence,
+          phones: result.contact.phones.map(p => p.number),
+          emails: result.contact.emails.map(e => e.address),
+          tracedAt: new Date().toISOString(),
+        },
+      },
+      updatedAt: new Date(),
+    },
+  })
+  await aiResponseCache.invalidateLead(lead.id)
+}
+
+const skipTraceBatch: JobHandler<'skipTrace.batch'> = async ({ leadIds }, context) => {
+  if (!process.env.BATCHSKIPTRACE_API_KEY) {
+    throw new PermanentJobError('BatchSkipTrace is not configured (BATCHSKIPTRACE_API_KEY)')
+  }
+  const api = new BatchSkipTraceAPI({
+    apiKey: process.env.BATCHSKIPTRACE_API_KEY,
+    baseUrl: process.env.BATCHSKIPTRACE_BASE_URL || 'https://api.batchskiptrace.com/v1',
+    timeout: 30000,
+    retries: 3,
+  })
+
+  const leads = await prisma.lead.findMany({
+    where: { id: { in: leadIds }, organizationId: context.job.organizationId! },
+    select: { id: true, firstName: true, lastName: true, email: true, phone: true, address: true, customFields: true },
+  })
+
+  // A retry picks up the batch an earlier attempt started rather than paying for a new one
+  let { remoteJobId, order } = context.job.checkpoint || {}
+  if (!remoteJobId) {
+    if (leads.length === 0) throw new PermanentJobError('None of the leads were found')
+    const batch = await api.batchSkipTrace(leads.map(toSkipTraceRequest))
+    remoteJobId = batch.id
+    order = leads.map((lead: any) => lead.id)
+    await context.checkpoint({ remoteJobId, order })
+  }
+
+  while (true) {
+    const status = await api.getBatchJobStatus(remoteJobId)
+    await context.progress({ completed: status.processedRecords, total: status.totalRecords, message: `Skip trace ${status.status}` })
+
+    if (status.status === 'completed') break
+    if (status.status === 'failed') throw new PermanentJobError(`Skip trace batch ${remoteJobId} failed`)
+    if (await context.sleep(SKIP_TRACE_POLL_MS)) throw new JobCancelledError()
+  }
+
+  // Results come back in request order
+  const results = await api.getBatchJobResults(remoteJobId)
+  const leadsById = new Map(leads.map((lead: any) => [lead.id, lead]))
+  const summary = { remoteJobId, traced: results.length, found: 0, partial: 0, notFound: 0 }
+
+  for (const [index, result] of results.entries()) {
+    const lead = leadsById.get(order[index])
+    if (result.status === 'found' || result.status === 'partial') {
+      summary[result.status === 'found' ? 'found' : 'partial']++
+      if (lead) await applySkipTrace(lead, result)
+    } else {
+      summary.notFound++
+    }
+  }
+
+  return summary
+}
+
+const batchAnalyzeDocuments: JobHandler<'documents.batchAnalyze'> = async ({ files }, context) => {
+  documentProcessor = documentProcessor || new DocumentProcessingEngine()
+  const results: any[] = context.job.checkpoint?.results || []
+
+  for (const file of files.slice(results.length)) {
+    if (await context.isCancelled()) throw new JobCancelledError()
+
+    try {
+      const extractedText = await documentProcessor.extractTextFromFile(Buffer.from(file.content, 'base64'), file.mimeType)
+      const analysis = await documentProcessor.analyzeDocument(extractedText, file.name)
+      const crmCategory = await documentProcessor.categorizeForCRM(analysis)
+
+      results.push({ fileName: file.name, success: true, analysis: { ...analysis, crmCategory } })
+    } catch (error) {
+      // A malformed AI reply may come out right on a retry, which resumes from this file
+      if (error instanceof LLMOutputError) throw error
+      results.push({ fileName: file.name, success: false, error: 'Processing failed' })
+    }
+
+    await context.checkpoint({ results })
+    await context.progress({ completed: results.length, total: files.length })
+  }
+
+  // The per-file analyses are the job's result; the batch belongs to no lead, so nothing goes on a timeline
+  const successful = results.filter(r => r.success).length
+  return { totalProcessed: files.length, successful, failed: results.length - successful, results }
+}
+
+export const jobHandlers: JobHandlers = {
+  'email.sendCampaign': sendCampaign,
+  'email.selectWinner': selectWinner,
+  'calls.ingestRecording': ingestRecording,
+  'skipTrace.batch': skipTraceBatch,
+  'documents.batchAnalyze': batchAnalyzeDocuments,
+}
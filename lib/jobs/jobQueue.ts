@@ -0,0 +1,283 @@
+// LeadAI Pro - Job Queue
+// Durable background jobs: enqueue, claim, retry with backoff, dead-letter and cancel
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import { JOB_TYPES, JobType, JobPayloads, JobProgress, JobStatusValue, PermanentJobError } from './jobTypes'
+
+export interface EnqueueOptions {
+  organizationId?: string
+  userId?: string
+  runAt?: Date
+  // Higher runs first
+  priority?: number
+  maxAttempts?: number
+}
+
+export interface ClaimedJob {
+  id: string
+  type: JobType
+  payload: any
+  organizationId: string | null
+  userId: string | null
+  attempts: number
+  maxAttempts: number
+  checkpoint: Record<string, any> | null
+}
+
+export type FailureOutcome = 'retried' | 'dead'
+
+// What the API shows; payloads can be large and stay out of it
+export const toJobView = (job: any) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  progress: job.progress,
+  result: job.result ?? null,
+  lastError: job.lastError ?? null,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  runAt: job.runAt,
+  cancelRequested: job.cancelRequestedAt !== null && job.cancelRequestedAt !== undefined,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt ?? null,
+  finishedAt: job.finishedAt ?? null,
+})
+
+export type JobView = ReturnType<typeof toJobView>
+
+const FINISHED_STATUSES: JobStatusValue[] = ['SUCCEEDED', 'CANCELLED', 'DEAD']
+
+// Seconds to wait before retrying after the given (1-based) failed attempt
+export const retryDelaySeconds = (type: JobType, attempt: number): number => {
+  const options = JOB_TYPES[type]
+  return Math.min(options.backoffSeconds * 2 ** Math.max(0, attempt - 1), options.maxBackoffSeconds)
+}
+
+const errorMessage = (error: unknown): string =>
+  (error instanceof Error ? error.message : String(error)).slice(0, 2000)
+
+export class JobQueue {
+  constructor(private clock: Clock = systemClock) {}
+
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<JobView> {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        payload: payload as any,
+        organizationId: options.organizationId || null,
+        userId: options.userId || null,
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? JOB_TYPES[type].maxAttempts,
+        runAt: options.runAt || this.clock.now(),
+        progress: { completed: 0, total: 0 },
+      },
+    })
+
+    return toJobView(job)
+  }
+
+  // A job of the organization; userId limits it to jobs the user started
+  async get(id: string, organizationId: string, userId?: string): Promise<JobView | null> {
+    const job = await prisma.job.findFirst({
+      where: { id, organizationId, ...(userId && { userId }) },
+    })
+    return job ? toJobView(job) : null
+  }
+
+  async list(
+    organizationId: string,
+    filters: { status?: JobStatusValue; type?: string; userId?: string; limit?: number } = {}
+  ): Promise<JobView[]> {
+    const jobs = await prisma.job.findMany({
+      where: {
+        organizationId,
+        ...(filters.status && { status: filters.status }),
+        ...(filters.type && { type: filters.type }),
+        ...(filters.userId && { userId: filters.userId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 50,
+    })
+    return jobs.map(toJobView)
+  }
+
+  // Queued jobs are cancelled at once; running ones are asked to stop and finish as
+  // CANCELLED when their handler next checks. Finished jobs are returned unchanged.
+  async cancel(id: string, organizationId: string, userId?: string): Promise<JobView | null> {
+    const job = await this.get(id, organizationId, userId)
+    if (!job || FINISHED_STATUSES.includes(job.status)) return job
+
+    const now = this.clock.now()
+    const cancelled = await prisma.job.updateMany({
+      where: { id, status: 'QUEUED' },
+      data: { status: 'CANCELLED', cancelRequestedAt: now, finishedAt: now },
+    })
+    if (cancelled.count === 0) {
+      await prisma.job.updateMany({
+        where: { id, status: 'RUNNING', cancelRequestedAt: null },
+        data: { cancelRequestedAt: now },
+      })
+    }
+
+    return this.get(id, organizationId)
+  }
+
+  // Queue a dead-lettered or cancelled job again with a fresh set of attempts
+  async retry(id: string, organizationId: string): Promise<JobView | null> {
+    const requeued = await prisma.job.updateMany({
+      where: { id, organizationId, status: { in: ['DEAD', 'CANCELLED'] } },
+      data: {
+        status: 'QUEUED',
+        attempts: 0,
+        runAt: this.clock.now(),
+        lastError: null,
+        cancelRequestedAt: null,
+        finishedAt: null,
+      },
+    })
+    return requeued.count > 0 ? this.get(id, organizationId) : null
+  }
+
+  // Claim the next due job for a worker. Jobs whose worker stopped holding its claim
+  // (crash, deploy) are picked up again. Safe with several workers: each claim checks
+  // the job is unchanged since it was read.
+  async claim(workerId: string, lockSeconds: number, types?: JobType[]): Promise<ClaimedJob | null> {
+    const now = this.clock.now()
+    const candidates = await prisma.job.findMany({
+      where: {
+        ...(types && { type: { in: types } }),
+        OR: [
+          { status: 'QUEUED', runAt: { lte: now } },
+          { status: 'RUNNING', lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: [{ priority: 'desc' }, { runAt: 'asc' }],
+      take: 10,
+    })
+
+    for (const job of candidates as any[]) {
+      if (job.status === 'RUNNING' && (job.cancelRequestedAt || job.attempts >= job.maxAttempts)) {
+        await this.finishAbandoned(job)
+        continue
+      }
+
+      const claimed = await prisma.job.updateMany({
+        where: { id: job.id, status: job.status, attempts: job.attempts },
+        data: {
+          status: 'RUNNING',
+          attempts: { increment: 1 },
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + lockSeconds * 1000),
+          startedAt: job.startedAt || now,
+        },
+      })
+      if (claimed.count === 0) continue
+
+      return {
+        id: job.id,
+        type: job.type,
+        payload: job.payload,
+        organizationId: job.organizationId,
+        userId: job.userId,
+        attempts: job.attempts + 1,
+        maxAttempts: job.maxAttempts,
+        checkpoint: job.checkpoint,
+      }
+    }
+
+    return null
+  }
+
+  // Extend the worker's claim. Returns false when another worker has taken the job over.
+  async heartbeat(id: string, workerId: string, lockSeconds: number): Promise<boolean> {
+    const extended = await prisma.job.updateMany({
+      where: { id, lockedBy: workerId, status: 'RUNNING' },
+      data: { lockedUntil: new Date(this.clock.now().getTime() + lockSeconds * 1000) },
+    })
+    return extended.count > 0
+  }
+
+  async isCancelRequested(id: string): Promise<boolean> {
+    const job = await prisma.job.findUnique({ where: { id }, select: { cancelRequestedAt: true } })
+    return Boolean(job?.cancelRequestedAt)
+  }
+
+  async reportProgress(id: string, workerId: string, progress: JobProgress): Promise<void> {
+    await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: { progress: progress as any },
+    })
+  }
+
+  async saveCheckpoint(id: string, workerId: string, checkpoint: Record<string, any>): Promise<void> {
+    await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: { checkpoint },
+    })
+  }
+
+  async complete(id: string, workerId: string, result: unknown): Promise<void> {
+    await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: {
+        status: 'SUCCEEDED',
+        result: (result ?? null) as any,
+        finishedAt: this.clock.now(),
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    })
+  }
+
+  async markCancelled(id: string, workerId: string): Promise<void> {
+    await prisma.job.updateMany({
+      where: { id, lockedBy: workerId },
+      data: { status: 'CANCELLED', finishedAt: this.clock.now(), lockedBy: null, lockedUntil: null },
+    })
+  }
+
+  // Queue the job again after its backoff, or dead-letter it when it is out of attempts
+  // or the error is permanent
+  async fail(job: ClaimedJob, workerId: string, error: unknown): Promise<FailureOutcome> {
+    const now = this.clock.now()
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts
+
+    await prisma.job.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: dead
+        ? { status: 'DEAD', lastError: errorMessage(error), finishedAt: now, lockedBy: null, lockedUntil: null }
+        : {
+          status: 'QUEUED',
+          lastError: errorMessage(error),
+          runAt: new Date(now.getTime() + retryDelaySeconds(job.type, job.attempts) * 1000),
+          lockedBy: null,
+          lockedUntil: null,
+        },
+    })
+
+    if (dead) {
+      console.error('[JOBS] Job dead-lettered:', { id: job.id, type: job.type, attempts: job.attempts, error: errorMessage(error) })
+    }
+    return dead ? 'dead' : 'retried'
+  }
+
+  // A job whose worker died after it was cancelled or on its last attempt
+  private async finishAbandoned(job: any): Promise<void> {
+    const now = this.clock.now()
+    await prisma.job.updateMany({
+      where: { id: job.id, status: 'RUNNING', attempts: job.attempts },
+      data: job.cancelRequestedAt
+        ? { status: 'CANCELLED', finishedAt: now, lockedBy: null, lockedUntil: null }
+        : {
+          status: 'DEAD',
+          lastError: 'Worker stopped while running the job',
+          finishedAt: now,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+    })
+  }
+}
+
+export const jobQueue = new JobQueue()
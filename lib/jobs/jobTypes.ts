@@ -0,0 +1,83 @@
+// LeadAI Pro - Job Types
+// Every kind of background job, with its payload and retry settings
+
+export interface JobTypeOptions {
+  description: string
+  // Attempts before the job is dead-lettered
+  maxAttempts: number
+  // Delay before the first retry; doubles with each attempt up to maxBackoffSeconds
+  backoffSeconds: number
+  maxBackoffSeconds: number
+}
+
+export const JOB_TYPES = {
+  'email.sendCampaign': { description: 'Send an email campaign', maxAttempts: 3, backoffSeconds: 60, maxBackoffSeconds: 30 * 60 },
+  // Retried while test emails are still going out
+  'email.selectWinner': { description: 'Choose an A/B test winner and send it to the holdout', maxAttempts: 6, backoffSeconds: 15 * 60, maxBackoffSeconds: 2 * 60 * 60 },
+  'calls.ingestRecording': { description: 'Transcribe and analyze a call recording', maxAttempts: 4, backoffSeconds: 60, maxBackoffSeconds: 30 * 60 },
+  'skipTrace.batch': { description: 'Batch skip trace of leads', maxAttempts: 5, backoffSeconds: 120, maxBackoffSeconds: 60 * 60 },
+  'documents.batchAnalyze': { description: 'Batch document analysis', maxAttempts: 2, backoffSeconds: 30, maxBackoffSeconds: 5 * 60 },
+} satisfies Record<string, JobTypeOptions>
+
+export type JobType = keyof typeof JOB_TYPES
+
+export const JOB_STATUSES = ['QUEUED', 'RUNNING', 'SUCCEEDED', 'CANCELLED', 'DEAD'] as const
+export type JobStatusValue = typeof JOB_STATUSES[number]
+
+export const isJobType = (type: string): type is JobType =>
+  Object.prototype.hasOwnProperty.call(JOB_TYPES, type)
+
+export interface JobPayloads {
+  'email.sendCampaign': { campaignId: string }
+  'email.selectWinner': { campaignId: string }
+  'calls.ingestRecording': { callSessionId: string; recordingUrl?: string; transcript?: string }
+  'skipTrace.batch': { leadIds: string[] }
+  // File contents are base64 encoded; batches are capped so payloads stay small
+  'documents.batchAnalyze': { files: Array<{ name: string; mimeType: string; content: string }> }
+}
+
+export interface JobProgress {
+  completed: number
+  total: number
+  message?: string
+}
+
+// What a handler gets besides its payload
+export interface JobContext<T extends JobType = JobType> {
+  job: {
+    id: string
+    type: T
+    organizationId: string | null
+    userId: string | null
+    attempts: number
+    // State saved by an earlier attempt (see checkpoint)
+    checkpoint: Record<string, any> | null
+  }
+  progress(progress: JobProgress): Promise<void>
+  // Saved with the job so a retry can resume instead of starting over
+  checkpoint(state: Record<string, any>): Promise<void>
+  // True once someone asked to cancel; handlers check between units of work
+  isCancelled(): Promise<boolean>
+  // Waits, returning early (and true) if the job is cancelled meanwhile
+  sleep(ms: number): Promise<boolean>
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext<T>) => Promise<unknown>
+
+export type JobHandlers = { [T in JobType]: JobHandler<T> }
+
+// Thrown by handlers for failures a retry cannot fix; the job is dead-lettered at once
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+// Thrown by handlers that stop early because the job was cancelled
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
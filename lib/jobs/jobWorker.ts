@@ -0,0 +1,129 @@
+// LeadAI Pro - Job Worker
+// Claims queued jobs and runs their handlers, keeping the claim alive while they work
+
+import os from 'os'
+import { runWithAIContext } from '../llm/aiContext'
+import { JobQueue, jobQueue, ClaimedJob } from './jobQueue'
+import { JobContext, JobHandlers, JobType, JobCancelledError } from './jobTypes'
+
+export interface JobWorkerOptions {
+  workerId?: string
+  // How long a claim lasts without a heartbeat before another worker may take the job
+  lockSeconds?: number
+  // Only run these job types
+  types?: JobType[]
+}
+
+// lost: another worker took the job over after a missed heartbeat; it owns the outcome
+export type JobOutcome = 'idle' | 'succeeded' | 'retried' | 'dead' | 'cancelled' | 'lost'
+
+const CANCEL_CHECK_MS = 5000
+
+export class JobWorker {
+  readonly workerId: string
+  private lockSeconds: number
+  private stopping = false
+
+  constructor(
+    private handlers: JobHandlers,
+    private options: JobWorkerOptions = {},
+    private queue: JobQueue = jobQueue
+  ) {
+    this.workerId = options.workerId || `${os.hostname()}:${process.pid}`
+    this.lockSeconds = options.lockSeconds || 120
+  }
+
+  // Run the next due job, if any
+  async runNext(): Promise<JobOutcome> {
+    const job = await this.queue.claim(this.workerId, this.lockSeconds, this.options.types)
+    if (!job) return 'idle'
+
+    // Once the claim is lost the handler is told it was cancelled, so it stops at its next check
+    let lost = false
+    const heartbeat = setInterval(() => {
+      this.queue.heartbeat(job.id, this.workerId, this.lockSeconds)
+        .then(held => {
+          if (!held && !lost) {
+            lost = true
+            console.warn('[JOBS] Lost the claim on a running job; stopping it:', { id: job.id, type: job.type })
+          }
+        })
+        .catch(error => console.error('[JOBS] Heartbeat failed:', { id: job.id, error }))
+    }, (this.lockSeconds * 1000) / 3)
+
+    try {
+      const handler = this.handlers[job.type] as (payload: any, context: JobContext) => Promise<unknown>
+      const context = this.createContext(job, () => lost)
+      const run = () => handler(job.payload, context)
+
+      // AI calls made by the job count against the organization's budget
+      const result = job.organizationId
+        ? await runWithAIContext({ organizationId: job.organizationId, userId: job.userId || undefined }, run)
+        : await run()
+
+      if (lost) return 'lost'
+      await this.queue.complete(job.id, this.workerId, result)
+      return 'succeeded'
+    } catch (error) {
+      if (lost) return 'lost'
+      if (error instanceof JobCancelledError) {
+        await this.queue.markCancelled(job.id, this.workerId)
+        return 'cancelled'
+      }
+
+      console.error(`[JOBS] ${job.type} failed (attempt ${job.attempts} of ${job.maxAttempts}):`, error)
+      return this.queue.fail(job, this.workerId, error)
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+
+  // Poll for jobs until stop() is called, resting for pollMs when the queue is empty
+  async start(pollMs: number = 5000): Promise<void> {
+    this.stopping = false
+    while (!this.stopping) {
+      let outcome: JobOutcome
+      try {
+        outcome = await this.runNext()
+      } catch (error) {
+        console.error('[JOBS] Failed to claim a job:', error)
+        outcome = 'idle'
+      }
+
+      if (outcome === 'idle' && !this.stopping) {
+        await new Promise(resolve => setTimeout(resolve, pollMs))
+      }
+    }
+  }
+
+  // Finish the current job, then return from start()
+  stop(): void {
+    this.stopping = true
+  }
+
+  private createContext(job: ClaimedJob, claimLost: () => boolean): JobContext {
+    const isCancelled = async () => claimLost() || this.queue.isCancelRequested(job.id)
+
+    return {
+      job: {
+        id: job.id,
+        type: job.type,
+        organizationId: job.organizationId,
+        userId: job.userId,
+        attempts: job.attempts,
+        checkpoint: job.checkpoint,
+      },
+      progress: progress => this.queue.reportProgress(job.id, this.workerId, progress),
+      checkpoint: state => this.queue.saveCheckpoint(job.id, this.workerId, state),
+      isCancelled,
+      sleep: async (ms: number) => {
+        const until = Date.now() + ms
+        while (Date.now() < until) {
+          if (await isCancelled()) return true
+          await new Promise(resolve => setTimeout(resolve, Math.min(CANCEL_CHECK_MS, until - Date.now())))
+        }
+        return isCancelled()
+      },
+    }
+  }
+}
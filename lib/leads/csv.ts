@@ -0,0 +1,94 @@
+// LeadAI Pro - CSV Utilities
+// Minimal RFC 4180 parsing and formatting for lead import/export
+
+// Pick the delimiter that splits the header line into the most columns
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates = [',', ';', '\t', '|']
+
+  let best = ','
+  let bestCount = 0
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+// Parse CSV text into rows of cells, honoring quoted fields and escaped quotes
+export const parseCsv = (input: string, delimiter?: string): string[][] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input
+  const separator = delimiter || detectDelimiter(text)
+  const rows: string[][] = []
+
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === separator) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+// Escape a single value for CSV output
+export const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+
+  let text: string
+  if (value instanceof Date) {
+    text = value.toISOString()
+  } else if (Array.isArray(value)) {
+    text = value.join('; ')
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const formatCsvRow = (values: unknown[]): string => {
+  return values.map(formatCsvValue).join(',') + '\r\n'
+}
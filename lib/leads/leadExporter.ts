@@ -0,0 +1,223 @@
+// LeadAI Pro - Lead Exporter
+// Streaming CSV, XLSX and JSONL export with selectable columns
+
+import { Writable } from 'stream'
+import ExcelJS from 'exceljs'
+import { prisma } from '../database'
+import { formatCsvRow } from './csv'
+import { LEAD_FIELDS, ADDRESS_FIELDS } from './leadFields'
+import { scoreExplanationText } from '../scoring/scoreExplanation'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'jsonl'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'jsonl']
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+}
+
+// Leads are read from the database in pages of this size
+const EXPORT_BATCH_SIZE = 500
+
+export interface ExportColumn {
+  key: string
+  label: string
+  value: (lead: any) => unknown
+}
+
+const latestScore = (lead: any) => lead.scores?.[0]
+
+// Base columns: identity, lead fields and address parts
+const BASE_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'Lead ID', value: lead => lead.id },
+  ...LEAD_FIELDS.map(f => ({ key: f.field, label: f.label, value: (lead: any) => lead[f.field] })),
+  ...ADDRESS_FIELDS.map(key => ({
+    key: `address.${key}`,
+    label: `Address ${key === 'zipCode' ? 'ZIP' : key.charAt(0).toUpperCase() + key.slice(1)}`,
+    value: (lead: any) => (lead.address as any)?.[key],
+  })),
+  { key: 'currentScore', label: 'Current Score', value: lead => lead.currentScore },
+  { key: 'scoreConfidence', label: 'Score Confidence', value: lead => lead.scoreConfidence },
+  { key: 'assignedUser', label: 'Assigned To', value: lead => lead.assignedUser?.fullName },
+  { key: 'createdAt', label: 'Created At', value: lead => lead.createdAt },
+  { key: 'updatedAt', label: 'Updated At', value: lead => lead.updatedAt },
+  { key: 'lastContactedAt', label: 'Last Contacted', value: lead => lead.lastContactedAt },
+]
+
+// Optional AI summary columns (require joining scores/insights)
+const AI_COLUMNS: ExportColumn[] = [
+  { key: 'latestScore', label: 'Latest Score', value: lead => latestScore(lead)?.score },
+  { key: 'latestScoreConfidence', label: 'Latest Score Confidence', value: lead => latestScore(lead)?.confidence },
+  { key: 'latestScoreModel', label: 'Score Model', value: lead => latestScore(lead)?.modelVersion },
+  { key: 'latestScoredAt', label: 'Scored At', value: lead => latestScore(lead)?.createdAt },
+  {
+    key: 'scoreExplanation',
+    label: 'Score Explanation',
+    value: lead => scoreExplanationText(latestScore(lead)?.explanation),
+  },
+  { key: 'insightCount', label: 'Open Insights', value: lead => lead.insights?.length ?? 0 },
+  {
+    key: 'insightSummary',
+    label: 'Insight Summary',
+    value: lead => (lead.insights || []).map((i: any) => `[${i.priority}] ${i.title}`).join('; '),
+  },
+]
+
+export const EXPORT_COLUMNS: ExportColumn[] = [...BASE_COLUMNS, ...AI_COLUMNS]
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id', 'firstName', 'lastName', 'email', 'phone', 'company', 'status', 'stage', 'source',
+  'campaign', 'tags', 'currentScore', 'assignedUser', 'createdAt',
+]
+
+// Resolve requested column keys (including "customFields.<key>") into column definitions
+export function resolveExportColumns(keys?: string[]): { columns: ExportColumn[]; unknown: string[] } {
+  const requested = keys && keys.length > 0 ? keys : DEFAULT_EXPORT_COLUMNS
+  const columns: ExportColumn[] = []
+  const unknown: string[] = []
+
+  for (const key of requested) {
+    const column = EXPORT_COLUMNS.find(c => c.key === key)
+    if (column) {
+      columns.push(column)
+    } else if (key.startsWith('customFields.') && key.length > 'customFields.'.length) {
+      const field = key.slice('customFields.'.length)
+      columns.push({ key, label: field, value: lead => (lead.customFields as any)?.[field] })
+    } else {
+      unknown.push(key)
+    }
+  }
+
+  return { columns, unknown }
+}
+
+const needsAIData = (columns: ExportColumn[]) => columns.some(c => AI_COLUMNS.includes(c))
+
+// Page through matching leads with a cursor so the org is never loaded at once
+export async function* iterateLeads(where: any, includeAI: boolean): AsyncGenerator<any> {
+  let cursor: string | undefined
+
+  while (true) {
+    const batch = await prisma.lead.findMany({
+      where,
+      include: {
+        assignedUser: { select: { fullName: true } },
+        ...(includeAI && {
+          scores: { orderBy: { createdAt: 'desc' }, take: 1 },
+          insights: { where: { acknowledgedAt: null }, orderBy: { priority: 'desc' }, take: 5 },
+        }),
+      },
+      orderBy: { id: 'asc' },
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })
+
+    for (const lead of batch) {
+      yield lead
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) return
+    cursor = batch[batch.length - 1].id
+  }
+}
+
+const serializeValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  // Prisma Decimal values
+  if (typeof value === 'object' && typeof (value as any).toNumber === 'function') return (value as any).toNumber()
+  return value
+}
+
+// Raised when the output closes before the export finishes (e.g. the client disconnected)
+export class ExportAbortedError extends Error {
+  constructor(message: string = 'Export output closed before the export finished') {
+    super(message)
+    this.name = 'ExportAbortedError'
+  }
+}
+
+// Wait until the output has room for more. A closed stream never drains, so closing
+// or failing while we wait ends the export instead of leaving it hanging.
+const drained = (stream: Writable): Promise<void> => {
+  if (stream.destroyed) return Promise.reject(new ExportAbortedError())
+  if (!stream.writableNeedDrain) return Promise.resolve()
+
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      stream.off('drain', onDrain)
+      stream.off('close', onClose)
+      stream.off('error', onClose)
+      if (error) reject(error)
+      else resolve()
+    }
+    const onDrain = () => settle()
+    const onClose = () => settle(new ExportAbortedError())
+    stream.once('drain', onDrain)
+    stream.once('close', onClose)
+    stream.once('error', onClose)
+  })
+}
+
+// Respect backpressure on the output stream
+const write = (stream: Writable, chunk: string): Promise<void> => {
+  if (stream.destroyed) return Promise.reject(new ExportAbortedError())
+  stream.write(chunk)
+  return drained(stream)
+}
+
+// Stream matching leads to the output in the requested format; resolves with the row count.
+// Rejects with ExportAbortedError, without reading further leads, if the output closes early.
+export async function streamLeadExport(
+  output: Writable,
+  where: any,
+  format: ExportFormat,
+  columns: ExportColumn[]
+): Promise<number> {
+  const leads = iterateLeads(where, needsAIData(columns))
+  let count = 0
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false })
+    const sheet = workbook.addWorksheet('Leads')
+    sheet.addRow(columns.map(c => c.label)).commit()
+
+    for await (const lead of leads) {
+      const values = columns.map(c => {
+        const value = serializeValue(c.value(lead))
+        if (Array.isArray(value)) return value.join('; ')
+        if (value && typeof value === 'object') return JSON.stringify(value)
+        return value
+      })
+      sheet.addRow(values).commit()
+      count++
+      // The workbook writes to the output through its own zip stream, which does not
+      // wait for the output, so hold off adding rows until it catches up
+      await drained(output)
+    }
+
+    sheet.commit()
+    await workbook.commit()
+    return count
+  }
+
+  if (format === 'csv') {
+    await write(output, formatCsvRow(columns.map(c => c.label)))
+  }
+
+  for await (const lead of leads) {
+    if (format === 'csv') {
+      await write(output, formatCsvRow(columns.map(c => serializeValue(c.value(lead)))))
+    } else {
+      const record: Record<string, unknown> = {}
+      columns.forEach(c => { record[c.key] = serializeValue(c.value(lead)) })
+      await write(output, JSON.stringify(record) + '\n')
+    }
+    count++
+  }
+
+  output.end()
+  return count
+}
@@ -0,0 +1,130 @@
+// LeadAI Pro - Lead Field Catalogue
+// Importable/exportable lead fields, enum values and normalization helpers
+
+// Lead status values accepted by the leads API
+export const LEAD_STATUSES = [
+  'new',
+  'contacted',
+  'qualified',
+  'proposal',
+  'negotiation',
+  'closed_won',
+  'closed_lost',
+  'nurturing',
+  'unqualified',
+] as const
+
+// Real estate enums (mirrors prisma/schema.prisma)
+export const REAL_ESTATE_LEAD_TYPES = [
+  'SELLER', 'BUYER', 'INVESTOR', 'WHOLESALER', 'AGENT', 'CONTRACTOR', 'LENDER', 'OTHER',
+] as const
+
+export const MOTIVATION_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const
+
+export const SELLING_TIMEFRAMES = [
+  'ASAP', 'WITHIN_30_DAYS', 'WITHIN_90_DAYS', 'WITHIN_6_MONTHS', 'WITHIN_1_YEAR', 'NO_RUSH',
+] as const
+
+export const SELLING_REASONS = [
+  'FINANCIAL_DISTRESS', 'RELOCATION', 'DIVORCE', 'INHERITANCE', 'DOWNSIZING', 'UPSIZING',
+  'INVESTMENT_EXIT', 'RETIREMENT', 'JOB_CHANGE', 'HEALTH_ISSUES', 'OTHER',
+] as const
+
+export const PROPERTY_CONDITIONS = [
+  'EXCELLENT', 'GOOD', 'FAIR', 'POOR', 'NEEDS_MAJOR_REPAIRS', 'TEAR_DOWN',
+] as const
+
+export type LeadFieldKind = 'string' | 'email' | 'phone' | 'decimal' | 'enum' | 'list' | 'date'
+
+export interface LeadFieldDefinition {
+  field: string
+  label: string
+  kind: LeadFieldKind
+  values?: readonly string[]
+  required?: boolean
+  aliases: string[]
+}
+
+// Scalar lead fields that can be mapped from or written to a spreadsheet column
+export const LEAD_FIELDS: LeadFieldDefinition[] = [
+  { field: 'firstName', label: 'First Name', kind: 'string', required: true, aliases: ['first name', 'first', 'firstname', 'given name'] },
+  { field: 'lastName', label: 'Last Name', kind: 'string', required: true, aliases: ['last name', 'last', 'lastname', 'surname', 'family name'] },
+  { field: 'email', label: 'Email', kind: 'email', aliases: ['email address', 'e-mail', 'email 1', 'primary email'] },
+  { field: 'phone', label: 'Phone', kind: 'phone', aliases: ['phone number', 'mobile', 'cell', 'phone 1', 'primary phone', 'telephone'] },
+  { field: 'company', label: 'Company', kind: 'string', aliases: ['company name', 'organization', 'business'] },
+  { field: 'jobTitle', label: 'Job Title', kind: 'string', aliases: ['title', 'position', 'role'] },
+  { field: 'status', label: 'Status', kind: 'enum', values: LEAD_STATUSES, aliases: ['lead status'] },
+  { field: 'stage', label: 'Stage', kind: 'string', aliases: ['pipeline stage'] },
+  { field: 'source', label: 'Source', kind: 'string', aliases: ['lead source', 'list source'] },
+  { field: 'campaign', label: 'Campaign', kind: 'string', aliases: ['campaign name', 'list name'] },
+  { field: 'tags', label: 'Tags', kind: 'list', aliases: ['tag', 'labels'] },
+  { field: 'leadType', label: 'Lead Type', kind: 'enum', values: REAL_ESTATE_LEAD_TYPES, aliases: ['type', 'contact type'] },
+  { field: 'motivationLevel', label: 'Motivation Level', kind: 'enum', values: MOTIVATION_LEVELS, aliases: ['motivation'] },
+  { field: 'timeframe', label: 'Timeframe', kind: 'enum', values: SELLING_TIMEFRAMES, aliases: ['selling timeframe', 'timeline'] },
+  { field: 'sellingReason', label: 'Selling Reason', kind: 'enum', values: SELLING_REASONS, aliases: ['reason', 'reason for selling'] },
+  { field: 'priceExpectation', label: 'Price Expectation', kind: 'decimal', aliases: ['asking price', 'price', 'expected price'] },
+  { field: 'propertyCondition', label: 'Property Condition', kind: 'enum', values: PROPERTY_CONDITIONS, aliases: ['condition'] },
+  { field: 'maxBudget', label: 'Max Budget', kind: 'decimal', aliases: ['budget', 'max price'] },
+  { field: 'preferredAreas', label: 'Preferred Areas', kind: 'list', aliases: ['areas', 'target areas'] },
+  { field: 'investmentGoals', label: 'Investment Goals', kind: 'list', aliases: ['goals'] },
+  { field: 'nextFollowUpAt', label: 'Next Follow Up', kind: 'date', aliases: ['follow up', 'follow up date', 'next follow up date'] },
+]
+
+// Keys stored inside the Lead.address JSON column
+export const ADDRESS_FIELDS = ['street', 'city', 'state', 'zipCode', 'county'] as const
+export type AddressField = typeof ADDRESS_FIELDS[number]
+
+export const ADDRESS_ALIASES: Record<AddressField, string[]> = {
+  street: ['address', 'street', 'street address', 'property address', 'address 1', 'address line 1'],
+  city: ['city', 'property city', 'town'],
+  state: ['state', 'property state', 'province'],
+  zipCode: ['zip', 'zip code', 'zipcode', 'postal code', 'property zip'],
+  county: ['county', 'property county'],
+}
+
+export const getLeadField = (field: string): LeadFieldDefinition | undefined => {
+  return LEAD_FIELDS.find(f => f.field === field)
+}
+
+// Normalize a free-form header for alias matching ("E-Mail Address " -> "e-mail address")
+export const normalizeHeader = (header: string): string => {
+  return header.toLowerCase().replace(/[_\s]+/g, ' ').trim()
+}
+
+// Match a raw value against enum values ("Financial distress" -> "FINANCIAL_DISTRESS")
+export const normalizeEnumValue = (raw: string, values: readonly string[]): string | null => {
+  const candidate = raw.trim().replace(/[\s\-/]+/g, '_')
+  const match = values.find(v => v.toLowerCase() === candidate.toLowerCase())
+  return match || null
+}
+
+export const normalizeEmail = (email?: string | null): string | null => {
+  const value = email?.trim().toLowerCase()
+  return value ? value : null
+}
+
+// Compare phones on their last 10 digits so "+1 (555) 123-4567" matches "5551234567"
+export const normalizePhone = (phone?: string | null): string | null => {
+  const digits = (phone || '').replace(/\D/g, '')
+  if (digits.length < 7) return null
+  return digits.slice(-10)
+}
+
+// Street + ZIP key used for address-based dedupe
+export const normalizeAddressKey = (address: any): string | null => {
+  if (!address || typeof address !== 'object') return null
+
+  const street = String(address.street || '')
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .replace(/\bstreet\b/g, 'st')
+    .replace(/\bavenue\b/g, 'ave')
+    .replace(/\broad\b/g, 'rd')
+    .replace(/\bdrive\b/g, 'dr')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const zip = String(address.zipCode || '').replace(/\D/g, '').slice(0, 5)
+
+  if (!street) return null
+  return zip ? `${street}|${zip}` : `${street}|${String(address.city || '').toLowerCase().trim()}`
+}
@@ -0,0 +1,63 @@
+// LeadAI Pro - Lead Filters
+// Shared where-clause builder for lead listing and export
+
+export interface LeadFilterParams {
+  search?: string
+  status?: string
+  assignedTo?: string
+  minScore?: number | string
+  tags?: string | string[]
+}
+
+export interface LeadFilterUser {
+  id: string
+  role: string
+  organizationId: string
+}
+
+// Accept tags as an array or a comma-separated query string
+export const parseTagsFilter = (tags?: string | string[]): string[] => {
+  if (!tags) return []
+  const list = Array.isArray(tags) ? tags : tags.split(',')
+  return list.map(t => t.trim()).filter(Boolean)
+}
+
+// Build the Prisma where clause for leads visible to the user
+export function buildLeadWhereClause(user: LeadFilterUser, filters: LeadFilterParams): any {
+  const whereClause: any = {
+    organizationId: user.organizationId,
+  }
+
+  if (filters.search) {
+    whereClause.OR = [
+      { firstName: { contains: filters.search, mode: 'insensitive' } },
+      { lastName: { contains: filters.search, mode: 'insensitive' } },
+      { email: { contains: filters.search, mode: 'insensitive' } },
+      { company: { contains: filters.search, mode: 'insensitive' } },
+    ]
+  }
+
+  if (filters.status) {
+    whereClause.status = filters.status
+  }
+
+  if (filters.assignedTo) {
+    whereClause.assignedTo = filters.assignedTo
+  }
+
+  if (filters.minScore) {
+    whereClause.currentScore = { gte: Number(filters.minScore) }
+  }
+
+  const tags = parseTagsFilter(filters.tags)
+  if (tags.length > 0) {
+    whereClause.tags = { hasSome: tags }
+  }
+
+  // For sales reps, only show their assigned leads
+  if (user.role === 'sales_rep') {
+    whereClause.assignedTo = user.id
+  }
+
+  return whereClause
+}
@@ -0,0 +1,529 @@
+// LeadAI Pro - Lead Importer
+// CSV/XLSX lead import with column mapping, row validation, dedupe and dry-run preview
+
+import ExcelJS from 'exceljs'
+import { prisma } from '../database'
+import { parseCsv } from './csv'
+import { pipelineService } from '../pipelines/pipelineService'
+import { leadRoutingService } from '../routing/leadRoutingService'
+import { followUpScheduler } from '../followUps/followUpScheduler'
+import { sequenceTemplateService } from '../followUps/sequenceTemplates'
+import { aiResponseCache } from '../llm/responseCache'
+import { resolvePipeline, getStage, getInitialStage } from '../pipelines/pipelineDefinitions'
+import {
+  LEAD_FIELDS,
+  ADDRESS_FIELDS,
+  ADDRESS_ALIASES,
+  getLeadField,
+  normalizeHeader,
+  normalizeEnumValue,
+  normalizeEmail,
+  normalizePhone,
+  normalizeAddressKey,
+} from './leadFields'
+
+export const MAX_IMPORT_ROWS = 10000
+
+// Mapping targets: a lead field ("email"), "fullName", "tags", "address.<key>",
+// "customFields.<key>" or "ignore"
+export type ColumnMapping = Record<string, string>
+
+export type DuplicateStrategy = 'skip' | 'update' | 'create'
+
+export interface ImportSheet {
+  columns: string[]
+  rows: string[][]
+}
+
+export interface ImportRowError {
+  row: number
+  column?: string
+  field: string
+  value?: string
+  message: string
+}
+
+export interface ImportRowResult {
+  row: number
+  status: 'created' | 'updated' | 'skipped' | 'invalid'
+  leadId?: string
+  duplicateOf?: string
+  matchedOn?: 'email' | 'phone' | 'address'
+  // Rep the routing rules picked for a new lead (also shown in dry runs)
+  assignedTo?: string | null
+  errors: ImportRowError[]
+  data?: Record<string, any>
+}
+
+export interface ImportOptions {
+  organizationId: string
+  userId: string
+  teamId?: string
+  mapping?: ColumnMapping
+  dryRun?: boolean
+  onDuplicate?: DuplicateStrategy
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  columns: string[]
+  mapping: ColumnMapping
+  unmappedColumns: string[]
+  totalRows: number
+  imported: number
+  updated: number
+  skipped: number
+  invalid: number
+  errors: ImportRowError[]
+  rows: ImportRowResult[]
+}
+
+export interface SavedImportMapping {
+  mapping: ColumnMapping
+  updatedAt: string
+  updatedBy: string
+}
+
+interface ExistingLeadIndex {
+  email: Map<string, string>
+  phone: Map<string, string>
+  address: Map<string, string>
+}
+
+// Read the first sheet of an uploaded CSV or XLSX file
+export async function readImportFile(buffer: Buffer, fileName: string): Promise<ImportSheet> {
+  const isExcel = /\.xlsx$/i.test(fileName)
+  let table: string[][]
+
+  if (isExcel) {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(buffer as any)
+    const sheet = workbook.worksheets[0]
+    table = []
+
+    sheet?.eachRow({ includeEmpty: false }, (row) => {
+      const cells: string[] = []
+      for (let col = 1; col <= sheet.columnCount; col++) {
+        cells.push(row.getCell(col).text?.trim() ?? '')
+      }
+      if (cells.some(c => c !== '')) table.push(cells)
+    })
+  } else {
+    table = parseCsv(buffer.toString('utf8'))
+  }
+
+  if (table.length === 0) {
+    return { columns: [], rows: [] }
+  }
+
+  const [header, ...rows] = table
+  const columns = header.map((c, i) => c.trim() || `Column ${i + 1}`)
+
+  return { columns, rows }
+}
+
+// Suggest a mapping from spreadsheet headers using field names and common aliases
+export function suggestColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+
+  const aliasTable: Array<{ target: string; names: string[] }> = [
+    { target: 'fullName', names: ['name', 'full name', 'contact name', 'owner name'] },
+    ...LEAD_FIELDS.map(f => ({
+      target: f.field,
+      names: [normalizeHeader(f.field), normalizeHeader(f.label), ...f.aliases],
+    })),
+    ...ADDRESS_FIELDS.map(key => ({ target: `address.${key}`, names: ADDRESS_ALIASES[key] })),
+  ]
+
+  for (const column of columns) {
+    const header = normalizeHeader(column)
+    const match = aliasTable.find(entry => entry.names.includes(header))
+
+    // Tags may come from several columns; everything else maps once
+    if (match && (match.target === 'tags' || !used.has(match.target))) {
+      mapping[column] = match.target
+      used.add(match.target)
+    }
+  }
+
+  return mapping
+}
+
+// Validate a mapping against the known targets
+export function validateColumnMapping(mapping: ColumnMapping): string[] {
+  const problems: string[] = []
+
+  for (const [column, target] of Object.entries(mapping)) {
+    if (target === 'ignore' || target === 'fullName' || target === 'tags') continue
+    if (target.startsWith('customFields.') && target.length > 'customFields.'.length) continue
+    if (target.startsWith('address.') && (ADDRESS_FIELDS as readonly string[]).includes(target.slice(8))) continue
+    if (getLeadField(target)) continue
+
+    problems.push(`Column "${column}" maps to unknown field "${target}"`)
+  }
+
+  const targets = Object.values(mapping)
+  const hasName = targets.includes('fullName') || (targets.includes('firstName') && targets.includes('lastName'))
+  if (!hasName) {
+    problems.push('Mapping must include firstName and lastName, or a fullName column')
+  }
+
+  return problems
+}
+
+const splitList = (raw: string): string[] => {
+  return raw.split(/[;,|]/).map(v => v.trim()).filter(Boolean)
+}
+
+const parseDecimal = (raw: string): number | null => {
+  const cleaned = raw.replace(/[$,\s]/g, '')
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null
+  return Number(cleaned)
+}
+
+// Convert one spreadsheet row into lead data, collecting validation errors
+export function mapRow(
+  row: string[],
+  columns: string[],
+  mapping: ColumnMapping,
+  rowNumber: number
+): { data: Record<string, any>; errors: ImportRowError[] } {
+  const data: Record<string, any> = {}
+  const errors: ImportRowError[] = []
+  const address: Record<string, string> = {}
+  const customFields: Record<string, string> = {}
+  const tags: string[] = []
+
+  columns.forEach((column, index) => {
+    const target = mapping[column]
+    const raw = (row[index] ?? '').trim()
+    if (!target || target === 'ignore' || raw === '') return
+
+    const fail = (message: string) => errors.push({ row: rowNumber, column, field: target, value: raw, message })
+
+    if (target === 'fullName') {
+      const parts = raw.split(/\s+/)
+      data.firstName = data.firstName || parts[0]
+      data.lastName = data.lastName || parts.slice(1).join(' ') || parts[0]
+      return
+    }
+
+    if (target === 'tags') {
+      tags.push(...splitList(raw))
+      return
+    }
+
+    if (target.startsWith('address.')) {
+      address[target.slice(8)] = raw
+      return
+    }
+
+    if (target.startsWith('customFields.')) {
+      customFields[target.slice(13)] = raw
+      return
+    }
+
+    const definition = getLeadField(target)
+    if (!definition) return
+
+    switch (definition.kind) {
+      case 'email':
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw)) {
+          fail('Invalid email address')
+        } else {
+          data.email = normalizeEmail(raw)
+        }
+        break
+
+      case 'phone':
+        if (!normalizePhone(raw) || raw.replace(/\D/g, '').length > 15) {
+          fail('Invalid phone number')
+        } else {
+          data.phone = raw
+        }
+        break
+
+      case 'enum': {
+        const value = normalizeEnumValue(raw, definition.values!)
+        if (!value) {
+          fail(`Invalid ${definition.label}. Expected one of: ${definition.values!.join(', ')}`)
+        } else {
+          data[target] = value
+        }
+        break
+      }
+
+      case 'decimal': {
+        const value = parseDecimal(raw)
+        if (value === null || value < 0) {
+          fail(`Invalid ${definition.label}. Expected a positive number`)
+        } else {
+          data[target] = value
+        }
+        break
+      }
+
+      case 'list':
+        data[target] = splitList(raw)
+        break
+
+      case 'date': {
+        const date = new Date(raw)
+        if (isNaN(date.getTime())) {
+          fail(`Invalid ${definition.label}. Expected a date`)
+        } else {
+          data[target] = date
+        }
+        break
+      }
+
+      default:
+        data[target] = raw
+    }
+  })
+
+  if (Object.keys(address).length > 0) data.address = address
+  if (Object.keys(customFields).length > 0) data.customFields = customFields
+  if (tags.length > 0) data.tags = Array.from(new Set(tags))
+
+  for (const field of LEAD_FIELDS.filter(f => f.required)) {
+    if (!data[field.field]) {
+      errors.push({ row: rowNumber, field: field.field, message: `${field.label} is required` })
+    }
+  }
+
+  return { data, errors }
+}
+
+// Lead Importer
+export class LeadImporter {
+  // Run an import (or a dry-run preview) for an organization
+  async run(sheet: ImportSheet, options: ImportOptions): Promise<ImportReport> {
+    const mapping = options.mapping || suggestColumnMapping(sheet.columns)
+    const onDuplicate = options.onDuplicate || 'skip'
+    const dryRun = options.dryRun ?? false
+
+    const report: ImportReport = {
+      dryRun,
+      columns: sheet.columns,
+      mapping,
+      unmappedColumns: sheet.columns.filter(c => !mapping[c] || mapping[c] === 'ignore'),
+      totalRows: sheet.rows.length,
+      imported: 0,
+      updated: 0,
+      skipped: 0,
+      invalid: 0,
+      errors: [],
+      rows: [],
+    }
+
+    const index = await this.buildExistingIndex(options.organizationId)
+    const pipelines = await pipelineService.getPipelines(options.organizationId)
+    const routing = await leadRoutingService.startSession(options.organizationId)
+    const sequences = dryRun ? [] : await sequenceTemplateService.findForTrigger(options.organizationId, 'LEAD_CREATED')
+    const seenInFile: ExistingLeadIndex = { email: new Map(), phone: new Map(), address: new Map() }
+
+    for (let i = 0; i < sheet.rows.length; i++) {
+      // Spreadsheet row number: header is row 1
+      const rowNumber = i + 2
+      const { data, errors } = mapRow(sheet.rows[i], sheet.columns, mapping, rowNumber)
+
+      const pipeline = resolvePipeline(pipelines, data.leadType)
+      if (data.stage && !getStage(pipeline, data.stage)) {
+        errors.push({
+          row: rowNumber,
+          field: 'stage',
+          column: Object.keys(mapping).find(column => mapping[column] === 'stage'),
+          value: data.stage,
+          message: `Stage "${data.stage}" is not part of the ${pipeline.name} pipeline`,
+        })
+      }
+
+      if (errors.length > 0) {
+        report.invalid++
+        report.errors.push(...errors)
+        report.rows.push({ row: rowNumber, status: 'invalid', errors, data })
+        continue
+      }
+
+      const fileMatch = this.findDuplicate(data, seenInFile)
+      if (fileMatch) {
+        report.skipped++
+        report.rows.push({
+          row: rowNumber,
+          status: 'skipped',
+          duplicateOf: fileMatch.id,
+          matchedOn: fileMatch.matchedOn,
+          errors: [],
+          data,
+        })
+        continue
+      }
+      this.remember(data, `row:${rowNumber}`, seenInFile)
+
+      const existing = onDuplicate === 'create' ? null : this.findDuplicate(data, index)
+      const result: ImportRowResult = { row: rowNumber, status: 'created', errors: [], data }
+
+      if (existing) {
+        result.duplicateOf = existing.id
+        result.matchedOn = existing.matchedOn
+
+        if (onDuplicate === 'skip') {
+          result.status = 'skipped'
+          report.skipped++
+          report.rows.push(result)
+          continue
+        }
+
+        result.status = 'updated'
+        result.leadId = existing.id
+        if (!dryRun) {
+          await this.updateExisting(existing.id, data)
+        }
+        report.updated++
+        report.rows.push(result)
+        continue
+      }
+
+      // Without routing rules imported leads go to the importing user
+      const assignment = routing ? await routing.decide(data, options.userId) : null
+      result.assignedTo = assignment ? assignment.assignedTo : options.userId
+
+      if (!dryRun) {
+        const stage = data.stage ? getStage(pipeline, data.stage)! : getInitialStage(pipeline)
+        const lead = await prisma.lead.create({
+          data: {
+            ...data,
+            stage: stage.key,
+            ...(stage.status && !data.status && { status: stage.status }),
+            source: data.source || 'import',
+            organizationId: options.organizationId,
+            assignedTo: result.assignedTo,
+            teamId: options.teamId,
+          },
+          select: { id: true },
+        })
+        await pipelineService.recordInitialStage(
+          { id: lead.id, organizationId: options.organizationId, stage: stage.key },
+          pipeline,
+          options.userId
+        )
+        if (assignment) {
+          await leadRoutingService.recordAssignment({
+            leadId: lead.id,
+            organizationId: options.organizationId,
+            decision: assignment,
+            trigger: 'import',
+            assignedBy: options.userId,
+          })
+        }
+        if (sequences.length > 0) {
+          await followUpScheduler.enroll(lead.id, 'LEAD_CREATED', sequences)
+        }
+        result.leadId = lead.id
+        this.remember(data, lead.id, index)
+      }
+
+      report.imported++
+      report.rows.push(result)
+    }
+
+    return report
+  }
+
+  // Saved mappings live in Organization.settings.leadImportMappings
+  async getSavedMappings(organizationId: string): Promise<Record<string, SavedImportMapping>> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    return ((organization?.settings as any)?.leadImportMappings as Record<string, SavedImportMapping>) || {}
+  }
+
+  async saveMapping(organizationId: string, name: string, mapping: ColumnMapping, userId: string): Promise<SavedImportMapping> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const settings = (organization?.settings as any) || {}
+    const saved: SavedImportMapping = { mapping, updatedAt: new Date().toISOString(), updatedBy: userId }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        settings: {
+          ...settings,
+          leadImportMappings: { ...(settings.leadImportMappings || {}), [name]: saved },
+        },
+      },
+    })
+
+    return saved
+  }
+
+  private async buildExistingIndex(organizationId: string): Promise<ExistingLeadIndex> {
+    const leads = await prisma.lead.findMany({
+      where: { organizationId },
+      select: { id: true, email: true, phone: true, address: true },
+    })
+
+    const index: ExistingLeadIndex = { email: new Map(), phone: new Map(), address: new Map() }
+    for (const lead of leads) {
+      this.remember(lead, lead.id, index)
+    }
+    return index
+  }
+
+  private remember(data: Record<string, any>, id: string, index: ExistingLeadIndex): void {
+    const email = normalizeEmail(data.email)
+    const phone = normalizePhone(data.phone)
+    const address = normalizeAddressKey(data.address)
+
+    if (email && !index.email.has(email)) index.email.set(email, id)
+    if (phone && !index.phone.has(phone)) index.phone.set(phone, id)
+    if (address && !index.address.has(address)) index.address.set(address, id)
+  }
+
+  private findDuplicate(
+    data: Record<string, any>,
+    index: ExistingLeadIndex
+  ): { id: string; matchedOn: 'email' | 'phone' | 'address' } | null {
+    const email = normalizeEmail(data.email)
+    if (email && index.email.has(email)) return { id: index.email.get(email)!, matchedOn: 'email' }
+
+    const phone = normalizePhone(data.phone)
+    if (phone && index.phone.has(phone)) return { id: index.phone.get(phone)!, matchedOn: 'phone' }
+
+    const address = normalizeAddressKey(data.address)
+    if (address && index.address.has(address)) return { id: index.address.get(address)!, matchedOn: 'address' }
+
+    return null
+  }
+
+  // Merge imported values into an existing lead without dropping tags or custom fields.
+  // Stage is left alone: existing leads only move through the pipeline's transition rules.
+  private async updateExisting(leadId: string, data: Record<string, any>): Promise<void> {
+    const { stage, ...fields } = data
+    const current = await prisma.lead.findUnique({
+      where: { id: leadId },
+      select: { tags: true, customFields: true },
+    })
+
+    await prisma.lead.update({
+      where: { id: leadId },
+      data: {
+        ...fields,
+        tags: Array.from(new Set([...(current?.tags || []), ...(data.tags || [])])),
+        customFields: { ...((current?.customFields as any) || {}), ...(data.customFields || {}) },
+        updatedAt: new Date(),
+      },
+    })
+    await aiResponseCache.invalidateLead(leadId)
+  }
+}
+
+// Export singleton instance
+export const leadImporter = new LeadImporter()
@@ -0,0 +1,196 @@
+// LeadAI Pro - AI Budgets
+// Monthly AI token and cost budgets by subscription tier, with per-organization overrides
+
+import { prisma } from '../database'
+
+export interface AIBudget {
+  // null means unlimited
+  monthlyTokens: number | null
+  monthlyCostUsd: number | null
+  perUserMonthlyTokens: number | null
+  // Usage share at which requests carry a warning
+  softLimitPercent: number
+}
+
+export type AIBudgetOverrides = Partial<AIBudget> & {
+  updatedAt?: string
+  updatedBy?: string
+}
+
+export const TIER_AI_BUDGETS: Record<string, AIBudget> = {
+  STARTER: { monthlyTokens: 500_000, monthlyCostUsd: 10, perUserMonthlyTokens: null, softLimitPercent: 80 },
+  PROFESSIONAL: { monthlyTokens: 5_000_000, monthlyCostUsd: 100, perUserMonthlyTokens: 1_000_000, softLimitPercent: 80 },
+  ENTERPRISE: { monthlyTokens: 50_000_000, monthlyCostUsd: 1000, perUserMonthlyTokens: 10_000_000, softLimitPercent: 85 },
+  CUSTOM: { monthlyTokens: null, monthlyCostUsd: null, perUserMonthlyTokens: null, softLimitPercent: 90 },
+}
+
+export interface UsageTotals {
+  tokens: number
+  costUsd: number
+}
+
+export interface BudgetUsage extends UsageTotals {
+  tokenLimit: number | null
+  costLimit: number | null
+  // Highest share of any limit used, or null when unlimited
+  percentUsed: number | null
+}
+
+export interface BudgetStatus {
+  state: 'ok' | 'warning' | 'exceeded'
+  // Which budget is warning or exhausted
+  scope?: 'organization' | 'user'
+  message?: string
+  periodStart: Date
+  resetAt: Date
+  organization: BudgetUsage
+  user?: BudgetUsage
+}
+
+// Budgets run per calendar month in UTC
+export const budgetPeriod = (now: Date = new Date()): { start: Date; end: Date } => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+})
+
+const percentOf = (used: number, limit: number | null): number | null =>
+  limit === null ? null : limit === 0 ? 100 : Math.round((used / limit) * 1000) / 10
+
+const usageAgainst = (totals: UsageTotals, tokenLimit: number | null, costLimit: number | null): BudgetUsage => {
+  const shares = [percentOf(totals.tokens, tokenLimit), percentOf(totals.costUsd, costLimit)]
+    .filter((share): share is number => share !== null)
+
+  return {
+    ...totals,
+    tokenLimit,
+    costLimit,
+    percentUsed: shares.length > 0 ? Math.max(...shares) : null,
+  }
+}
+
+const formatNumber = (value: number) => value.toLocaleString('en-US')
+
+// Compare month-to-date usage with the budget. Exhausted budgets win over warnings,
+// and the organization's budget over the user's.
+export const evaluateBudget = (
+  budget: AIBudget,
+  organization: UsageTotals,
+  user?: UsageTotals,
+  now: Date = new Date()
+): BudgetStatus => {
+  const { start, end } = budgetPeriod(now)
+  const resetsOn = end.toISOString().slice(0, 10)
+  const status: BudgetStatus = {
+    state: 'ok',
+    periodStart: start,
+    resetAt: end,
+    organization: usageAgainst(organization, budget.monthlyTokens, budget.monthlyCostUsd),
+    user: user ? usageAgainst(user, budget.perUserMonthlyTokens, null) : undefined,
+  }
+
+  const org = status.organization
+  if (org.percentUsed !== null && org.percentUsed >= 100) {
+    const limit = org.tokenLimit !== null && org.tokens >= org.tokenLimit
+      ? `${formatNumber(org.tokenLimit)} tokens`
+      : `$${org.costLimit}`
+    return {
+      ...status,
+      state: 'exceeded',
+      scope: 'organization',
+      message: `Your organization has used its monthly AI budget of ${limit}. It resets on ${resetsOn}.`,
+    }
+  }
+
+  if (status.user?.percentUsed != null && status.user.percentUsed >= 100) {
+    return {
+      ...status,
+      state: 'exceeded',
+      scope: 'user',
+      message: `You have used your monthly AI allowance of ${formatNumber(status.user.tokenLimit!)} tokens. It resets on ${resetsOn}.`,
+    }
+  }
+
+  if (org.percentUsed !== null && org.percentUsed >= budget.softLimitPercent) {
+    return {
+      ...status,
+      state: 'warning',
+      scope: 'organization',
+      message: `Your organization has used ${org.percentUsed}% of its monthly AI budget.`,
+    }
+  }
+
+  if (status.user?.percentUsed != null && status.user.percentUsed >= budget.softLimitPercent) {
+    return {
+      ...status,
+      state: 'warning',
+      scope: 'user',
+      message: `You have used ${status.user.percentUsed}% of your monthly AI allowance.`,
+    }
+  }
+
+  return status
+}
+
+export const validateAIBudget = (overrides: AIBudgetOverrides): string[] => {
+  const errors: string[] = []
+
+  for (const field of ['monthlyTokens', 'perUserMonthlyTokens'] as const) {
+    const value = overrides[field]
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`${field} must be a whole number of tokens or null for unlimited`)
+    }
+  }
+  if (overrides.monthlyCostUsd !== undefined && overrides.monthlyCostUsd !== null &&
+      (typeof overrides.monthlyCostUsd !== 'number' || overrides.monthlyCostUsd < 0)) {
+    errors.push('monthlyCostUsd must be a non-negative amount or null for unlimited')
+  }
+  if (overrides.softLimitPercent !== undefined &&
+      (typeof overrides.softLimitPercent !== 'number' || overrides.softLimitPercent < 1 || overrides.softLimitPercent > 100)) {
+    errors.push('softLimitPercent must be between 1 and 100')
+  }
+
+  return errors
+}
+
+// The tier's budget with the organization's overrides applied
+export const getAIBudget = async (organizationId: string): Promise<{ tier: string; budget: AIBudget; overrides: AIBudgetOverrides }> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { subscriptionTier: true, aiConfig: true },
+  })
+
+  const tier = (organization?.subscriptionTier as string) || 'STARTER'
+  const overrides: AIBudgetOverrides = (organization?.aiConfig as any)?.budget || {}
+  const { updatedAt, updatedBy, ...limits } = overrides
+
+  return {
+    tier,
+    budget: { ...(TIER_AI_BUDGETS[tier] || TIER_AI_BUDGETS.STARTER), ...limits },
+    overrides,
+  }
+}
+
+export const saveAIBudget = async (organizationId: string, overrides: AIBudgetOverrides, userId: string): Promise<AIBudgetOverrides> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiConfig: true },
+  })
+
+  const aiConfig = (organization?.aiConfig as any) || {}
+  const stored: AIBudgetOverrides = {
+    ...(['monthlyTokens', 'monthlyCostUsd', 'perUserMonthlyTokens', 'softLimitPercent'] as const)
+      .filter(field => overrides[field] !== undefined)
+      .reduce((picked, field) => ({ ...picked, [field]: overrides[field] }), {}),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  }
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: {
+      aiConfig: { ...aiConfig, budget: stored },
+    },
+  })
+
+  return stored
+}
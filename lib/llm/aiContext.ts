@@ -0,0 +1,19 @@
+// LeadAI Pro - AI Request Context
+// Carries the calling organization and user through AI calls without threading them
+// through every engine method
+
+import { AsyncLocalStorage } from 'async_hooks'
+import type { BudgetStatus } from './aiBudgets'
+
+export interface AIContext {
+  organizationId: string
+  userId?: string
+  // Called when a completion runs past the soft budget limit
+  onBudgetWarning?: (status: BudgetStatus) => void
+}
+
+const storage = new AsyncLocalStorage<AIContext>()
+
+export const runWithAIContext = <T>(context: AIContext, fn: () => T): T => storage.run(context, fn)
+
+export const getAIContext = (): AIContext | undefined => storage.getStore()
@@ -0,0 +1,209 @@
+// LeadAI Pro - AI Usage Ledger
+// Records every completion per organization and user, and enforces monthly AI budgets
+
+import { prisma } from '../database'
+import { AnalyticsCache } from '../analytics/analyticsCache'
+import { getAIContext } from './aiContext'
+import { getAIBudget, evaluateBudget, budgetPeriod, AIBudget, BudgetStatus, UsageTotals } from './aiBudgets'
+import { estimateCost } from './pricing'
+import {
+  AIBudgetExceededError,
+  CompletionResult,
+  ResolvedCompletionRequest,
+  UsageMeter,
+  UsageScope,
+} from './types'
+
+export interface UsageBreakdown {
+  requests: number
+  tokens: number
+  costUsd: number
+}
+
+export interface AIUsageReport {
+  from: Date
+  to: Date
+  tier: string
+  budget: AIBudget
+  status: BudgetStatus
+  totals: UsageBreakdown & { promptTokens: number; completionTokens: number }
+  byUser: Array<UsageBreakdown & { userId: string | null; name: string | null; email: string | null }>
+  byFeature: Array<UsageBreakdown & { feature: string }>
+  byModel: Array<UsageBreakdown & { provider: string; model: string }>
+  seats: { active: number; costPerSeat: number }
+}
+
+const toNumber = (value: any): number => Number(value ?? 0)
+
+const roundCost = (value: number): number => Math.round(value * 10000) / 10000
+
+const breakdown = (group: any): UsageBreakdown => ({
+  requests: group._count?._all ?? 0,
+  tokens: toNumber(group._sum?.totalTokens),
+  costUsd: roundCost(toNumber(group._sum?.costUsd)),
+})
+
+export class AIUsageService implements UsageMeter {
+  // Month-to-date totals and budgets, kept current by record() between refreshes
+  private cache = new AnalyticsCache(60)
+  private warned = new Set<string>()
+
+  async check(scope: UsageScope): Promise<void> {
+    let status: BudgetStatus
+    try {
+      status = await this.getBudgetStatus(scope.organizationId, scope.userId)
+    } catch (error) {
+      // Metering must not take AI features down with the database
+      console.error('Failed to check AI budget, allowing request:', error)
+      return
+    }
+
+    if (status.state === 'exceeded') {
+      throw new AIBudgetExceededError(status.message!, status.scope!, status.resetAt)
+    }
+
+    if (status.state === 'warning') {
+      getAIContext()?.onBudgetWarning?.(status)
+
+      const key = `${scope.organizationId}:${status.scope === 'user' ? scope.userId : ''}:${status.periodStart.toISOString()}`
+      if (!this.warned.has(key)) {
+        this.warned.add(key)
+        console.warn('AI budget soft limit reached:', { ...scope, message: status.message })
+      }
+    }
+  }
+
+  async record(scope: UsageScope, request: ResolvedCompletionRequest, result: CompletionResult): Promise<void> {
+    const costUsd = estimateCost(result.provider, result.model, result.usage)
+
+    try {
+      await prisma.aiUsageRecord.create({
+        data: {
+          organizationId: scope.organizationId,
+          userId: scope.userId || null,
+          feature: request.feature,
+          provider: result.provider,
+          model: result.model,
+          promptTokens: result.usage.promptTokens,
+          completionTokens: result.usage.completionTokens,
+          totalTokens: result.usage.totalTokens,
+          costUsd,
+        },
+      })
+    } catch (error) {
+      // The completion already happened; losing one ledger row beats failing the request
+      console.error('Failed to record AI usage:', error)
+      return
+    }
+
+    const added = { tokens: result.usage.totalTokens, costUsd }
+    this.addToCachedTotals(scope.organizationId, undefined, added)
+    if (scope.userId) {
+      this.addToCachedTotals(scope.organizationId, scope.userId, added)
+    }
+  }
+
+  async getBudgetStatus(organizationId: string, userId?: string, now: Date = new Date()): Promise<BudgetStatus> {
+    const [{ data: settings }, organization, user] = await Promise.all([
+      this.cache.wrap(organizationId, 'aiBudget', {}, () => getAIBudget(organizationId)),
+      this.getMonthTotals(organizationId, undefined, now),
+      userId ? this.getMonthTotals(organizationId, userId, now) : Promise.resolve(undefined),
+    ])
+
+    return evaluateBudget(settings.budget, organization, user, now)
+  }
+
+  // Usage for a period (the current month by default), for admins and finance
+  async getUsageReport(organizationId: string, range: { from?: Date; to?: Date } = {}): Promise<AIUsageReport> {
+    const period = budgetPeriod()
+    const from = range.from || period.start
+    const to = range.to || new Date()
+    const where = { organizationId, createdAt: { gte: from, lt: to } }
+    const sums = { totalTokens: true, costUsd: true } as const
+
+    const [totals, byUser, byFeature, byModel, activeSeats, { tier, budget }, status] = await Promise.all([
+      prisma.aiUsageRecord.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { ...sums, promptTokens: true, completionTokens: true },
+      }),
+      prisma.aiUsageRecord.groupBy({ by: ['userId'], where, _count: { _all: true }, _sum: sums }),
+      prisma.aiUsageRecord.groupBy({ by: ['feature'], where, _count: { _all: true }, _sum: sums }),
+      prisma.aiUsageRecord.groupBy({ by: ['provider', 'model'], where, _count: { _all: true }, _sum: sums }),
+      prisma.user.count({ where: { organizationId, status: 'ACTIVE' as any } }),
+      getAIBudget(organizationId),
+      this.getBudgetStatus(organizationId),
+    ])
+
+    const userIds = byUser.map((group: any) => group.userId).filter(Boolean)
+    const users = userIds.length > 0
+      ? await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, firstName: true, lastName: true, email: true },
+      })
+      : []
+    const usersById = new Map(users.map((u: any) => [u.id, u]))
+
+    const byCost = (a: UsageBreakdown, b: UsageBreakdown) => b.costUsd - a.costUsd || b.tokens - a.tokens
+    const total = breakdown(totals)
+
+    return {
+      from,
+      to,
+      tier,
+      budget,
+      status,
+      totals: {
+        ...total,
+        promptTokens: toNumber(totals._sum?.promptTokens),
+        completionTokens: toNumber(totals._sum?.completionTokens),
+      },
+      byUser: byUser.map((group: any) => {
+        const user: any = group.userId ? usersById.get(group.userId) : null
+        return {
+          userId: group.userId,
+          // Calls made outside a signed-in request (scheduled jobs, imports)
+          name: user ? `${user.firstName} ${user.lastName}` : group.userId ? null : 'System',
+          email: user?.email || null,
+          ...breakdown(group),
+        }
+      }).sort(byCost),
+      byFeature: byFeature.map((group: any) => ({ feature: group.feature, ...breakdown(group) })).sort(byCost),
+      byModel: byModel.map((group: any) => ({ provider: group.provider, model: group.model, ...breakdown(group) })).sort(byCost),
+      seats: {
+        active: activeSeats,
+        costPerSeat: activeSeats > 0 ? roundCost(total.costUsd / activeSeats) : 0,
+      },
+    }
+  }
+
+  // Call after changing an organization's budget or subscription tier
+  invalidate(organizationId: string): void {
+    this.cache.invalidate(organizationId)
+  }
+
+  private async getMonthTotals(organizationId: string, userId: string | undefined, now: Date): Promise<UsageTotals> {
+    const { start } = budgetPeriod(now)
+    const { data } = await this.cache.wrap(organizationId, 'usageTotals', { period: start.toISOString(), userId }, async () => {
+      const sums = await prisma.aiUsageRecord.aggregate({
+        where: { organizationId, ...(userId ? { userId } : {}), createdAt: { gte: start } },
+        _sum: { totalTokens: true, costUsd: true },
+      })
+      return { tokens: toNumber(sums._sum?.totalTokens), costUsd: toNumber(sums._sum?.costUsd) }
+    })
+    return data
+  }
+
+  private addToCachedTotals(organizationId: string, userId: string | undefined, added: UsageTotals): void {
+    const params = { period: budgetPeriod().start.toISOString(), userId }
+    const cached: UsageTotals | null = this.cache.get(organizationId, 'usageTotals', params)
+    if (cached) {
+      this.cache.set(organizationId, 'usageTotals', params, {
+        tokens: cached.tokens + added.tokens,
+        costUsd: cached.costUsd + added.costUsd,
+      })
+    }
+  }
+}
+
+export const aiUsage = new AIUsageService()
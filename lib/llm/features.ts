@@ -0,0 +1,70 @@
+// LeadAI Pro - AI Features
+// Every feature that calls a language model, with its default sampling settings
+
+export interface AIFeatureDefaults {
+  description: string
+  temperature: number
+  maxTokens: number
+  // Seconds a reply is reused for the same input; features without one are never cached
+  cacheTtl?: number
+  // Bump when the prompt or reply schema changes so cached replies are not reused
+  promptVersion?: number
+}
+
+const HOUR = 60 * 60
+const DAY = 24 * HOUR
+
+export const AI_FEATURES = {
+  'realEstate.analyzeProperty': { description: 'Property investment analysis', temperature: 0.2, maxTokens: 2000, cacheTtl: 6 * HOUR },
+  'realEstate.scoreLead': { description: 'Real estate lead scoring', temperature: 0.3, maxTokens: 1500, cacheTtl: HOUR },
+  'realEstate.marketInsights': { description: 'Market insights for an area', temperature: 0.3, maxTokens: 1500, cacheTtl: DAY },
+  'realEstate.outreachMessage': { description: 'Seller outreach messages', temperature: 0.4, maxTokens: 1000 },
+  'realEstate.dealStructure': { description: 'Deal structure analysis', temperature: 0.2, maxTokens: 1500, cacheTtl: 6 * HOUR },
+
+  'predictive.leadOutcome': { description: 'Lead outcome prediction', temperature: 0.2, maxTokens: 1500, cacheTtl: HOUR },
+  'predictive.behavioralPatterns': { description: 'Behavioral pattern analysis', temperature: 0.3, maxTokens: 2000, cacheTtl: HOUR },
+  'predictive.marketIntelligence': { description: 'Market intelligence reports', temperature: 0.4, maxTokens: 2000, cacheTtl: DAY },
+  'predictive.salesForecast': { description: 'Sales forecasting', temperature: 0.2, maxTokens: 2000 },
+  'predictive.optimalTiming': { description: 'Best time to contact a lead', temperature: 0.3, maxTokens: 800 },
+
+  'social.engagementStrategy': { description: 'Social engagement strategy', temperature: 0.3, maxTokens: 2000 },
+  'social.nurturingContent': { description: 'Social nurturing content', temperature: 0.6, maxTokens: 1000 },
+
+  'calendar.optimalTiming': { description: 'Meeting timing analysis', temperature: 0.2, maxTokens: 1000 },
+  'calendar.followUpSequence': { description: 'Follow-up sequence drafting', temperature: 0.4, maxTokens: 2000 },
+  'calendar.meetingDetails': { description: 'Meeting agendas and details', temperature: 0.3, maxTokens: 800 },
+  'calendar.stepContent': { description: 'Personalized follow-up step content', temperature: 0.4, maxTokens: 600 },
+
+  'voice.command': { description: 'Voice command interpretation', temperature: 0.1, maxTokens: 500 },
+  'voice.coaching': { description: 'Conversation coaching', temperature: 0.2, maxTokens: 1500 },
+
+  'calling.script': { description: 'Call scripts', temperature: 0.7, maxTokens: 2000 },
+  'calling.realTimeCoaching': { description: 'Live call coaching', temperature: 0.3, maxTokens: 500 },
+  'calling.recordingAnalysis': { description: 'Call recording analysis', temperature: 0.2, maxTokens: 1500 },
+  'calling.followUpRecommendations': { description: 'Post-call follow-up recommendations', temperature: 0.3, maxTokens: 600 },
+
+  'responses.classifyInquiry': { description: 'Inbound inquiry classification', temperature: 0.2, maxTokens: 1000, cacheTtl: HOUR },
+  'responses.personalizeTemplate': { description: 'Response template personalization', temperature: 0.3, maxTokens: 1200 },
+  'responses.customResponse': { description: 'Custom inquiry responses', temperature: 0.4, maxTokens: 1500 },
+
+  'leadGeneration.linkedInSearch': { description: 'LinkedIn prospect search', temperature: 0.7, maxTokens: 2000 },
+  'leadGeneration.qualifyProspect': { description: 'Prospect qualification', temperature: 0.1, maxTokens: 50, cacheTtl: DAY },
+  'leadGeneration.searchSuggestions': { description: 'Prospect search suggestions', temperature: 0.7, maxTokens: 1000 },
+
+  'email.template': { description: 'Email template generation', temperature: 0.7, maxTokens: 1500 },
+  'email.personalize': { description: 'Email personalization', temperature: 0.3, maxTokens: 1000 },
+  'email.abVariants': { description: 'A/B test variants', temperature: 0.8, maxTokens: 2000 },
+  'email.followUpRecommendations': { description: 'Email follow-up recommendations', temperature: 0.3, maxTokens: 800 },
+
+  'documents.businessCard': { description: 'Business card extraction', temperature: 0.1, maxTokens: 500, cacheTtl: 7 * DAY },
+  'documents.classify': { description: 'Document classification', temperature: 0.1, maxTokens: 50, cacheTtl: 7 * DAY },
+  'documents.deepAnalysis': { description: 'Document analysis', temperature: 0.2, maxTokens: 1000, cacheTtl: 7 * DAY },
+  'documents.crmCategories': { description: 'CRM categorization of documents', temperature: 0.1, maxTokens: 300, cacheTtl: DAY },
+
+  'system.healthCheck': { description: 'Provider health check', temperature: 0, maxTokens: 1 },
+} satisfies Record<string, AIFeatureDefaults>
+
+export type AIFeature = keyof typeof AI_FEATURES
+
+export const isAIFeature = (feature: string): feature is AIFeature =>
+  Object.prototype.hasOwnProperty.call(AI_FEATURES, feature)
@@ -0,0 +1,235 @@
+// LeadAI Pro - LLM Client
+// Single entry point for language model calls from lib/ai
+
+import path from 'path'
+import { AnalyticsCache } from '../analytics/analyticsCache'
+import { getAIContext } from './aiContext'
+import { getLLMConfig, resolveCompletionSettings, LLMConfig } from './llmConfig'
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMMessage,
+  LLMOutputError,
+  OutputAttempt,
+  CompletionRequest,
+  CompletionResult,
+  ResolvedCompletionRequest,
+  UsageMeter,
+  UsageScope,
+} from './types'
+import { Schema, validateAgainst, extractJSON } from './schema'
+import { OpenAIProvider } from './providers/openAIProvider'
+import { AnthropicProvider } from './providers/anthropicProvider'
+import { FixtureProvider, RecordingProvider } from './providers/fixtureProvider'
+import { aiUsage } from './aiUsage'
+import { aiResponseCache, AIResponseCache, ResponseCacheEntry } from './responseCache'
+
+// Build a provider from environment settings. LLM_RECORD_FIXTURES=<file> records
+// live completions so they can be replayed with the fixture provider.
+export const createProvider = (name: LLMProviderName): LLMProvider => {
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || 60000
+  let provider: LLMProvider
+
+  switch (name) {
+    case 'openai':
+      provider = new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        organization: process.env.OPENAI_ORG_ID,
+        baseUrl: process.env.OPENAI_BASE_URL,
+        timeoutMs,
+      })
+      break
+    case 'anthropic':
+      provider = new AnthropicProvider({ apiKey: process.env.ANTHROPIC_API_KEY, timeoutMs })
+      break
+    case 'local':
+      provider = new OpenAIProvider({
+        name: 'local',
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        timeoutMs,
+      })
+      break
+    case 'fixture':
+      return new FixtureProvider({
+        directory: process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm'),
+        strict: process.env.LLM_FIXTURES_STRICT === 'true',
+      })
+  }
+
+  return process.env.LLM_RECORD_FIXTURES
+    ? new RecordingProvider(provider, process.env.LLM_RECORD_FIXTURES)
+    : provider
+}
+
+// Repair prompts sent after a reply that does not match its schema
+const DEFAULT_MAX_REPAIRS = 1
+
+export interface StructuredCompletionRequest<T> extends CompletionRequest {
+  schema: Schema<T>
+  maxRepairs?: number
+}
+
+export interface StructuredCompletion<T> {
+  data: T
+  result: CompletionResult
+  // Model calls made; 0 when the reply came from the response cache
+  attempts: number
+}
+
+interface PreparedCompletion {
+  scope?: UsageScope
+  resolved: ResolvedCompletionRequest
+  cacheEntry: ResponseCacheEntry | null
+}
+
+const schemaInstruction = (schema: Schema<unknown>): LLMMessage => ({
+  role: 'system',
+  content: `Respond with JSON only, no prose or code fences, matching this shape:\n${JSON.stringify(schema.describe(), null, 2)}`,
+})
+
+const parseReply = <T>(schema: Schema<T>, content: string): { value?: T; issues: string[] } => {
+  try {
+    return validateAgainst(schema, extractJSON(content))
+  } catch (error) {
+    return { issues: [`reply is not valid JSON (${error instanceof Error ? error.message : String(error)})`] }
+  }
+}
+
+const repairPrompt = (issues: string[], schema: Schema<unknown>): LLMMessage => ({
+  role: 'user',
+  content: [
+    'Your previous reply could not be used:',
+    ...issues.slice(0, 10).map(issue => `- ${issue}`),
+    '',
+    'Reply again with only the corrected JSON, matching this shape:',
+    JSON.stringify(schema.describe(), null, 2),
+  ].join('\n'),
+})
+
+export class LLMClient {
+  private providers: Map<LLMProviderName, LLMProvider> = new Map()
+  // Organization configs change rarely; avoid a database read per completion
+  private configCache = new AnalyticsCache(60)
+
+  constructor(
+    private providerFactory: (name: LLMProviderName) => LLMProvider = createProvider,
+    // Budget checks and usage accounting; completions without an organization are not metered
+    private meter?: UsageMeter,
+    // Replies for features with a cacheTtl are reused; cached replies are not metered
+    private responseCache?: AIResponseCache
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const prepared = await this.prepare(request)
+    const cached = prepared.cacheEntry && await this.responseCache!.get(prepared.cacheEntry)
+    if (cached) return cached
+
+    const result = await this.run(prepared, prepared.resolved.messages)
+    if (prepared.cacheEntry) {
+      await this.responseCache!.set(prepared.cacheEntry, result)
+    }
+    return result
+  }
+
+  // Completion parsed as JSON and checked against a schema. Replies that do not match
+  // are sent back with the problems listed; if they still fail, LLMOutputError
+  // carries every raw reply. Only replies that pass are cached.
+  async completeJSON<T>(request: StructuredCompletionRequest<T>): Promise<StructuredCompletion<T>> {
+    const { schema, maxRepairs = DEFAULT_MAX_REPAIRS, ...completion } = request
+    const messages: LLMMessage[] = [schemaInstruction(schema), ...completion.messages]
+    const attempts: OutputAttempt[] = []
+    const prepared = await this.prepare({ ...completion, messages: [...messages] })
+
+    if (prepared.cacheEntry) {
+      const cached = await this.responseCache!.get(prepared.cacheEntry)
+      const parsed = cached && parseReply(schema, cached.content)
+      if (parsed && parsed.issues.length === 0) {
+        return { data: parsed.value as T, result: cached!, attempts: 0 }
+      }
+      if (cached) {
+        // Written under an older schema; drop it and ask again
+        await this.responseCache!.delete(prepared.cacheEntry)
+      }
+    }
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const result = await this.run(prepared, [...messages])
+
+      const { value, issues } = parseReply(schema, result.content)
+      if (issues.length === 0) {
+        if (prepared.cacheEntry) {
+          await this.responseCache!.set(prepared.cacheEntry, result)
+        }
+        return { data: value as T, result, attempts: attempt + 1 }
+      }
+
+      attempts.push({ content: result.content, issues })
+      messages.push({ role: 'assistant', content: result.content }, repairPrompt(issues, schema))
+    }
+
+    const failure = new LLMOutputError(request.feature, attempts[attempts.length - 1].issues, attempts)
+    console.error('LLM output rejected:', { feature: request.feature, issues: failure.issues, rawText: failure.rawText })
+    throw failure
+  }
+
+  // Replace a provider, e.g. with a FixtureProvider holding test fixtures
+  setProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  invalidateConfig(organizationId: string): void {
+    this.configCache.invalidate(organizationId)
+  }
+
+  private async prepare(request: CompletionRequest): Promise<PreparedCompletion> {
+    const context = getAIContext()
+    const organizationId = request.organizationId || context?.organizationId
+    const scope: UsageScope | undefined = organizationId
+      ? { organizationId, userId: context?.organizationId === organizationId ? context.userId : undefined }
+      : undefined
+
+    const config = organizationId ? await this.getOrganizationConfig(organizationId) : {}
+    const resolved = resolveCompletionSettings({ ...request, organizationId }, config)
+
+    return { scope, resolved, cacheEntry: this.responseCache?.entryFor(request, resolved) || null }
+  }
+
+  // One provider call, inside the organization's budget
+  private async run(prepared: PreparedCompletion, messages: LLMMessage[]): Promise<CompletionResult> {
+    const { scope } = prepared
+    if (scope && this.meter) {
+      await this.meter.check(scope)
+    }
+
+    const resolved = { ...prepared.resolved, messages }
+    const result = await this.getProvider(resolved.provider).complete(resolved)
+
+    if (scope && this.meter) {
+      await this.meter.record(scope, resolved, result)
+    }
+
+    return result
+  }
+
+  private getProvider(name: LLMProviderName): LLMProvider {
+    let provider = this.providers.get(name)
+    if (!provider) {
+      provider = this.providerFactory(name)
+      this.providers.set(name, provider)
+    }
+    return provider
+  }
+
+  private async getOrganizationConfig(organizationId: string): Promise<LLMConfig> {
+    try {
+      const { data } = await this.configCache.wrap(organizationId, 'llmConfig', {}, () => getLLMConfig(organizationId))
+      return data
+    } catch (error) {
+      console.error('Failed to load LLM config, using defaults:', error)
+      return {}
+    }
+  }
+}
+
+export const llm = new LLMClient(createProvider, aiUsage, aiResponseCache)
@@ -0,0 +1,138 @@
+// LeadAI Pro - LLM Configuration
+// Provider and model selection per feature, stored in Organization.aiConfig.llm
+
+import { prisma } from '../database'
+import { AI_FEATURES, AIFeature, isAIFeature } from './features'
+import { LLMProviderName, CompletionRequest, ResolvedCompletionRequest } from './types'
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'local', 'fixture']
+
+export interface LLMSettings {
+  provider?: LLMProviderName
+  model?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMConfig {
+  // Applies to every feature
+  defaults?: LLMSettings
+  // Per-feature overrides, keyed by feature name
+  features?: Partial<Record<AIFeature, LLMSettings>>
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Provider used when neither the feature nor the organization picks one. Tests
+// replay fixtures so they never reach a live API.
+export const defaultProvider = (): LLMProviderName => {
+  const configured = process.env.LLM_PROVIDER as LLMProviderName
+  if (LLM_PROVIDERS.includes(configured)) return configured
+  return process.env.NODE_ENV === 'test' ? 'fixture' : 'openai'
+}
+
+export const defaultModel = (provider: LLMProviderName): string => {
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_MODEL || 'gpt-4'
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest'
+    case 'local':
+      return process.env.LOCAL_LLM_MODEL || 'llama3.1'
+    case 'fixture':
+      return 'fixture'
+  }
+}
+
+// Feature defaults, then the request, then the organization's defaults and feature overrides
+export const resolveCompletionSettings = (
+  request: CompletionRequest,
+  config: LLMConfig = {}
+): ResolvedCompletionRequest => {
+  const feature = AI_FEATURES[request.feature]
+  const defaults = config.defaults || {}
+  const overrides = config.features?.[request.feature] || {}
+
+  const defaultsProvider = defaults.provider || defaultProvider()
+  const provider = overrides.provider || defaultsProvider
+  // The organization's default model only applies to the provider it was chosen for
+  const model = overrides.model
+    || (provider === defaultsProvider ? defaults.model : undefined)
+    || defaultModel(provider)
+
+  return {
+    feature: request.feature,
+    messages: request.messages,
+    organizationId: request.organizationId,
+    provider,
+    model,
+    temperature: overrides.temperature ?? defaults.temperature ?? request.temperature ?? feature.temperature,
+    maxTokens: overrides.maxTokens ?? defaults.maxTokens ?? request.maxTokens ?? feature.maxTokens,
+  }
+}
+
+// Validate an LLM configuration, returning human-readable problems
+export const validateLLMConfig = (config: LLMConfig): string[] => {
+  const errors: string[] = []
+
+  const checkSettings = (label: string, settings: LLMSettings) => {
+    if (settings.provider !== undefined && !LLM_PROVIDERS.includes(settings.provider)) {
+      errors.push(`${label}: provider must be one of: ${LLM_PROVIDERS.join(', ')}`)
+    }
+    if (settings.model !== undefined && (typeof settings.model !== 'string' || !settings.model.trim())) {
+      errors.push(`${label}: model must be a non-empty string`)
+    }
+    if (settings.temperature !== undefined && (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 2)) {
+      errors.push(`${label}: temperature must be between 0 and 2`)
+    }
+    if (settings.maxTokens !== undefined && (!Number.isInteger(settings.maxTokens) || settings.maxTokens < 1 || settings.maxTokens > 32000)) {
+      errors.push(`${label}: maxTokens must be a whole number between 1 and 32000`)
+    }
+  }
+
+  if (config.defaults) {
+    checkSettings('defaults', config.defaults)
+  }
+  for (const [feature, settings] of Object.entries(config.features || {})) {
+    if (!isAIFeature(feature)) {
+      errors.push(`unknown feature "${feature}"`)
+      continue
+    }
+    checkSettings(feature, settings || {})
+  }
+
+  return errors
+}
+
+export const getLLMConfig = async (organizationId: string): Promise<LLMConfig> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiConfig: true },
+  })
+
+  return ((organization?.aiConfig as any)?.llm as LLMConfig) || {}
+}
+
+export const saveLLMConfig = async (organizationId: string, config: LLMConfig, userId: string): Promise<LLMConfig> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiConfig: true },
+  })
+
+  const aiConfig = (organization?.aiConfig as any) || {}
+  const stored: LLMConfig = {
+    defaults: config.defaults || {},
+    features: config.features || {},
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  }
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: {
+      aiConfig: { ...aiConfig, llm: stored },
+    },
+  })
+
+  return stored
+}
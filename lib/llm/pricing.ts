@@ -0,0 +1,50 @@
+// LeadAI Pro - LLM Pricing
+// Estimated cost of completions by model, for usage ledgers and budgets
+
+import { CompletionUsage, LLMProviderName } from './types'
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number
+  output: number
+}
+
+// Matched by longest model-name prefix, so dated snapshots share their family's price
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+}
+
+// Unlisted hosted models are priced like the provider's mainstream model so costs
+// are never reported as zero; self-hosted and fixture completions cost nothing
+const PROVIDER_FALLBACK: Record<LLMProviderName, ModelPrice> = {
+  openai: MODEL_PRICING['gpt-4o'],
+  anthropic: MODEL_PRICING['claude-3-5-sonnet'],
+  local: { input: 0, output: 0 },
+  fixture: { input: 0, output: 0 },
+}
+
+export const modelPrice = (provider: LLMProviderName, model: string): ModelPrice => {
+  if (provider === 'local' || provider === 'fixture') {
+    return PROVIDER_FALLBACK[provider]
+  }
+
+  const match = Object.keys(MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return match ? MODEL_PRICING[match] : PROVIDER_FALLBACK[provider]
+}
+
+export const estimateCost = (provider: LLMProviderName, model: string, usage: CompletionUsage): number => {
+  const price = modelPrice(provider, model)
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
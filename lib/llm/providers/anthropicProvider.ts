@@ -0,0 +1,75 @@
+// LeadAI Pro - Anthropic Provider
+// Completions through the Anthropic Messages API
+
+import { LLMProvider, LLMProviderError, ResolvedCompletionRequest, CompletionResult } from '../types'
+
+const API_VERSION = '2023-06-01'
+
+export interface AnthropicProviderOptions {
+  apiKey?: string
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  private baseUrl: string
+
+  constructor(private options: AnthropicProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '')
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    if (!this.options.apiKey) {
+      throw new LLMProviderError('ANTHROPIC_API_KEY is not configured', this.name)
+    }
+
+    // System prompts go in their own field rather than the message list
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }))
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages,
+        ...(system && { system }),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 60000),
+    }).catch(error => {
+      throw new LLMProviderError(`anthropic request failed: ${error.message}`, this.name)
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new LLMProviderError(
+        `anthropic returned ${response.status}: ${body?.error?.message || response.statusText}`,
+        this.name,
+        response.status
+      )
+    }
+
+    const promptTokens = body.usage?.input_tokens || 0
+    const completionTokens = body.usage?.output_tokens || 0
+
+    return {
+      content: (body.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      provider: this.name,
+      model: body.model || request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: body.stop_reason,
+    }
+  }
+}
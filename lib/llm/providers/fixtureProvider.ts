@@ -0,0 +1,135 @@
+// LeadAI Pro - Fixture Provider
+// Deterministic replay of recorded completions for tests, CI and air-gapped demos
+
+import { createHash } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import {
+  LLMProvider,
+  LLMProviderName,
+  LLMProviderError,
+  LLMMessage,
+  ResolvedCompletionRequest,
+  CompletionResult,
+} from '../types'
+
+export interface LLMFixture {
+  feature: string
+  // Exact prompt match, from fixtureKey(). Recorded fixtures always have one.
+  key?: string
+  // Replay when the prompt contains this text
+  match?: string
+  // Objects are returned as JSON
+  response: string | Record<string, any> | any[]
+}
+
+export interface FixtureProviderOptions {
+  fixtures?: LLMFixture[]
+  // Every *.json file in the directory is loaded (an array of fixtures or { fixtures })
+  directory?: string
+  // Throw when nothing matches instead of answering with defaultResponse
+  strict?: boolean
+  defaultResponse?: string
+}
+
+// Stable key for a prompt, independent of model and sampling settings
+export const fixtureKey = (feature: string, messages: LLMMessage[]): string =>
+  createHash('sha256')
+    .update(JSON.stringify({ feature, messages: messages.map(m => [m.role, m.content.trim()]) }))
+    .digest('hex')
+    .slice(0, 32)
+
+// Rough token count so usage figures stay deterministic
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4)
+
+export const loadFixtureDirectory = (directory: string): LLMFixture[] => {
+  if (!fs.existsSync(directory)) {
+    return []
+  }
+
+  return fs.readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      const parsed = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'))
+      return (Array.isArray(parsed) ? parsed : parsed.fixtures || []) as LLMFixture[]
+    })
+}
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const
+  private fixtures: LLMFixture[]
+
+  constructor(private options: FixtureProviderOptions = {}) {
+    this.fixtures = [
+      ...(options.fixtures || []),
+      ...(options.directory ? loadFixtureDirectory(options.directory) : []),
+    ]
+  }
+
+  add(fixture: LLMFixture): void {
+    this.fixtures.unshift(fixture)
+  }
+
+  // Exact key first, then the first matching text, then the feature's catch-all
+  find(feature: string, messages: LLMMessage[]): LLMFixture | undefined {
+    const candidates = this.fixtures.filter(f => f.feature === feature)
+    const key = fixtureKey(feature, messages)
+    const prompt = messages.map(m => m.content).join('\n')
+
+    return candidates.find(f => f.key === key)
+      || candidates.find(f => !f.key && f.match && prompt.includes(f.match))
+      || candidates.find(f => !f.key && !f.match)
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const fixture = this.find(request.feature, request.messages)
+
+    if (!fixture && this.options.strict) {
+      throw new LLMProviderError(
+        `No fixture for feature "${request.feature}" (key ${fixtureKey(request.feature, request.messages)})`,
+        this.name
+      )
+    }
+
+    const content = fixture
+      ? typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response)
+      : this.options.defaultResponse ?? '{}'
+    const promptTokens = estimateTokens(request.messages.map(m => m.content).join('\n'))
+    const completionTokens = estimateTokens(content)
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      finishReason: 'stop',
+    }
+  }
+}
+
+// Passes requests to a live provider and appends each exchange to a fixture file
+// that FixtureProvider can replay later
+export class RecordingProvider implements LLMProvider {
+  readonly name: LLMProviderName
+
+  constructor(private inner: LLMProvider, private filePath: string) {
+    this.name = inner.name
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const result = await this.inner.complete(request)
+
+    const existing: LLMFixture[] = fs.existsSync(this.filePath)
+      ? JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+      : []
+    const key = fixtureKey(request.feature, request.messages)
+    const recorded = existing.filter(f => f.key !== key)
+    recorded.push({ feature: request.feature, key, response: result.content })
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(this.filePath, JSON.stringify(recorded, null, 2))
+
+    return result
+  }
+}
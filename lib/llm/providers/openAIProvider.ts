@@ -0,0 +1,75 @@
+// LeadAI Pro - OpenAI Provider
+// Chat completions against OpenAI or any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio)
+
+import {
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderName,
+  ResolvedCompletionRequest,
+  CompletionResult,
+} from '../types'
+
+export interface OpenAIProviderOptions {
+  name?: Extract<LLMProviderName, 'openai' | 'local'>
+  apiKey?: string
+  // e.g. http://localhost:11434/v1 for a local server
+  baseUrl?: string
+  organization?: string
+  timeoutMs?: number
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: Extract<LLMProviderName, 'openai' | 'local'>
+  private baseUrl: string
+
+  constructor(private options: OpenAIProviderOptions = {}) {
+    this.name = options.name || 'openai'
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    if (this.name === 'openai' && !this.options.apiKey) {
+      throw new LLMProviderError('OPENAI_API_KEY is not configured', this.name)
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+        ...(this.options.organization && { 'OpenAI-Organization': this.options.organization }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 60000),
+    }).catch(error => {
+      throw new LLMProviderError(`${this.name} request failed: ${error.message}`, this.name)
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new LLMProviderError(
+        `${this.name} returned ${response.status}: ${body?.error?.message || response.statusText}`,
+        this.name,
+        response.status
+      )
+    }
+
+    const choice = body.choices?.[0]
+    return {
+      content: choice?.message?.content || '',
+      provider: this.name,
+      model: body.model || request.model,
+      usage: {
+        promptTokens: body.usage?.prompt_tokens || 0,
+        completionTokens: body.usage?.completion_tokens || 0,
+        totalTokens: body.usage?.total_tokens || 0,
+      },
+      finishReason: choice?.finish_reason,
+    }
+  }
+}
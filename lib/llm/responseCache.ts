@@ -0,0 +1,95 @@
+// LeadAI Pro - AI Response Cache
+// Reuses model replies for the same feature, model, prompt version and input, across replicas
+
+import { CacheBackend, hashInput, sharedCache } from '../cache/cacheBackend'
+import { AI_FEATURES, AIFeatureDefaults } from './features'
+import { CompletionRequest, CompletionResult, ResolvedCompletionRequest } from './types'
+
+// Tags for the records replies are derived from; invalidate them when the record changes
+export const cacheTags = {
+  lead: (leadId: string) => `lead:${leadId}`,
+  property: (propertyId: string) => `property:${propertyId}`,
+}
+
+export interface ResponseCacheEntry {
+  key: string
+  ttlSeconds: number
+  tags: string[]
+}
+
+export class AIResponseCache {
+  constructor(
+    private backend: CacheBackend = sharedCache,
+    private enabled: boolean = process.env.AI_RESPONSE_CACHE !== 'off'
+  ) {}
+
+  // Where a reply to this request is cached, or null when it should not be
+  entryFor(request: CompletionRequest, resolved: ResolvedCompletionRequest): ResponseCacheEntry | null {
+    const feature: AIFeatureDefaults = AI_FEATURES[request.feature]
+    if (!this.enabled || request.cache === false || !feature.cacheTtl) return null
+
+    const hints = request.cache || {}
+    const digest = hashInput({
+      provider: resolved.provider,
+      model: resolved.model,
+      temperature: resolved.temperature,
+      maxTokens: resolved.maxTokens,
+      input: hints.input !== undefined ? hints.input : resolved.messages,
+    })
+
+    return {
+      // Scoped to the organization: prompts carry its data
+      key: `ai:${resolved.organizationId || 'shared'}:${request.feature}:v${feature.promptVersion || 1}:${digest}`,
+      ttlSeconds: feature.cacheTtl,
+      tags: hints.tags || [],
+    }
+  }
+
+  async get(entry: ResponseCacheEntry): Promise<CompletionResult | null> {
+    try {
+      const stored = await this.backend.get(entry.key)
+      return stored ? { ...JSON.parse(stored), cached: true } : null
+    } catch (error) {
+      // A cache outage costs tokens, not availability
+      console.error('Failed to read AI response cache:', error)
+      return null
+    }
+  }
+
+  async set(entry: ResponseCacheEntry, result: CompletionResult): Promise<void> {
+    const { cached, ...reply } = result
+    try {
+      await this.backend.set(entry.key, JSON.stringify(reply), entry.ttlSeconds, entry.tags)
+    } catch (error) {
+      console.error('Failed to write AI response cache:', error)
+    }
+  }
+
+  async delete(entry: ResponseCacheEntry): Promise<void> {
+    try {
+      await this.backend.delete(entry.key)
+    } catch (error) {
+      console.error('Failed to delete from AI response cache:', error)
+    }
+  }
+
+  // Call after a lead is edited, re-scored, moved or deleted
+  invalidateLead(leadId: string): Promise<number> {
+    return this.invalidateTag(cacheTags.lead(leadId))
+  }
+
+  invalidateProperty(propertyId: string): Promise<number> {
+    return this.invalidateTag(cacheTags.property(propertyId))
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      return await this.backend.invalidateTag(tag)
+    } catch (error) {
+      console.error('Failed to invalidate AI response cache:', { tag, error })
+      return 0
+    }
+  }
+}
+
+export const aiResponseCache = new AIResponseCache()
@@ -0,0 +1,191 @@
+// LeadAI Pro - LLM Output Schemas
+// Small typed schemas for model JSON replies: validation, type inference and prompt descriptions
+
+export interface Schema<T> {
+  // Returns the validated value, pushing "path: problem" strings for anything wrong
+  check(value: unknown, path: string, issues: string[]): T
+  // JSON-like outline of the expected shape, shown to the model
+  describe(): unknown
+  optional(): Schema<T | undefined>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<any>>
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> }
+
+const label = (path: string) => path || 'response'
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+const schema = <T>(check: Schema<T>['check'], describe: () => unknown): Schema<T> => {
+  const self: Schema<T> = {
+    check,
+    describe,
+    // Missing and null values are both accepted; models use them interchangeably
+    optional: () => schema<T | undefined>(
+      (value, path, issues) => (value === undefined || value === null ? undefined : check(value, path, issues)),
+      () => {
+        const inner = describe()
+        return typeof inner === 'string' ? `${inner} (optional)` : inner
+      }
+    ),
+  }
+  return self
+}
+
+const string = (options: { min?: number } = {}): Schema<string> =>
+  schema(
+    (value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push(`${label(path)}: expected string, got ${typeOf(value)}`)
+        return ''
+      }
+      if (options.min !== undefined && value.trim().length < options.min) {
+        issues.push(`${label(path)}: must not be empty`)
+      }
+      return value
+    },
+    () => 'string'
+  )
+
+// Numeric strings ("85") are accepted as numbers
+const number = (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> =>
+  schema(
+    (value, path, issues) => {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        issues.push(`${label(path)}: expected number, got ${typeOf(value)}`)
+        return 0
+      }
+      if (options.integer && !Number.isInteger(parsed)) {
+        issues.push(`${label(path)}: must be a whole number`)
+      }
+      if ((options.min !== undefined && parsed < options.min) || (options.max !== undefined && parsed > options.max)) {
+        issues.push(`${label(path)}: must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`)
+      }
+      return parsed
+    },
+    () => options.min !== undefined || options.max !== undefined
+      ? `number (${options.min ?? ''}-${options.max ?? ''})`
+      : 'number'
+  )
+
+const boolean = (): Schema<boolean> =>
+  schema(
+    (value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push(`${label(path)}: expected boolean, got ${typeOf(value)}`)
+        return false
+      }
+      return value
+    },
+    () => 'boolean'
+  )
+
+// ISO date strings, returned as Date
+const date = (): Schema<Date> =>
+  schema(
+    (value, path, issues) => {
+      const parsed = typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined
+      if (!parsed || Number.isNaN(parsed.getTime())) {
+        issues.push(`${label(path)}: expected an ISO date, got ${JSON.stringify(value)}`)
+        return new Date(NaN)
+      }
+      return parsed
+    },
+    () => 'ISO 8601 date-time string'
+  )
+
+// Matching is case-insensitive; the canonical value is returned
+const enumOf = <V extends string>(values: readonly V[]): Schema<V> =>
+  schema(
+    (value, path, issues) => {
+      const match = typeof value === 'string'
+        ? values.find(v => v.toLowerCase() === value.trim().toLowerCase())
+        : undefined
+      if (!match) {
+        issues.push(`${label(path)}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`)
+        return values[0]
+      }
+      return match
+    },
+    () => values.join(' | ')
+  )
+
+const array = <T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> =>
+  schema(
+    (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push(`${label(path)}: expected array, got ${typeOf(value)}`)
+        return []
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push(`${label(path)}: expected at least ${options.min} item(s)`)
+      }
+      const items = options.max !== undefined ? value.slice(0, options.max) : value
+      return items.map((entry, index) => item.check(entry, `${path}[${index}]`, issues))
+    },
+    () => [item.describe()]
+  )
+
+// Unknown keys are dropped so callers only see declared fields
+const object = <S extends Shape>(shape: S): Schema<InferShape<S>> =>
+  schema(
+    (value, path, issues) => {
+      if (typeOf(value) !== 'object') {
+        issues.push(`${label(path)}: expected object, got ${typeOf(value)}`)
+        return {} as InferShape<S>
+      }
+      const result: Record<string, unknown> = {}
+      for (const [key, field] of Object.entries(shape)) {
+        const checked = field.check((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues)
+        if (checked !== undefined) {
+          result[key] = checked
+        }
+      }
+      return result as InferShape<S>
+    },
+    () => Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.describe()]))
+  )
+
+const record = <T>(values: Schema<T>): Schema<Record<string, T>> =>
+  schema(
+    (value, path, issues) => {
+      if (typeOf(value) !== 'object') {
+        issues.push(`${label(path)}: expected object, got ${typeOf(value)}`)
+        return {}
+      }
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, values.check(entry, `${path}.${key}`, issues)])
+      )
+    },
+    () => ({ '<key>': values.describe() })
+  )
+
+export const s = { string, number, boolean, date, enum: enumOf, array, object, record }
+
+// Validate a value, returning the typed result or the list of problems
+export const validateAgainst = <T>(target: Schema<T>, value: unknown): { value: T; issues: string[] } => {
+  const issues: string[] = []
+  const checked = target.check(value, '', issues)
+  return { value: checked, issues }
+}
+
+// Pull the JSON payload out of a reply, tolerating code fences and surrounding prose
+export const extractJSON = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const candidate = (fenced ? fenced[1] : text).trim()
+
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    const start = candidate.search(/[[{]/)
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'))
+    if (start === -1 || end <= start) {
+      throw new SyntaxError('Reply does not contain JSON')
+    }
+    return JSON.parse(candidate.slice(start, end + 1))
+  }
+}
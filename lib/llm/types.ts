@@ -0,0 +1,122 @@
+// LeadAI Pro - LLM Types
+// Provider-neutral completion requests, results and the provider interface
+
+import { AIFeature } from './features'
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'fixture'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// What an AI feature asks for. Sampling settings given here replace the feature
+// defaults; the organization's aiConfig overrides both and picks the model.
+export interface CompletionRequest {
+  feature: AIFeature
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  // Defaults to the organization of the current request (see aiContext)
+  organizationId?: string
+  // Reply caching for features with a cacheTtl, or false to always ask the model
+  cache?: false | CacheHints
+}
+
+export interface CacheHints {
+  // What the prompt was built from; keys the cache instead of the prompt text
+  input?: unknown
+  // Records the reply depends on (see cacheTags), so changing them drops it
+  tags?: string[]
+}
+
+// A request with every setting resolved, as handed to a provider
+export interface ResolvedCompletionRequest {
+  feature: string
+  messages: LLMMessage[]
+  provider: LLMProviderName
+  model: string
+  temperature: number
+  maxTokens: number
+  organizationId?: string
+}
+
+export interface CompletionUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface CompletionResult {
+  content: string
+  provider: LLMProviderName
+  model: string
+  usage: CompletionUsage
+  finishReason?: string
+  // Served from the response cache without calling the provider
+  cached?: boolean
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  complete(request: ResolvedCompletionRequest): Promise<CompletionResult>
+}
+
+// Raised for provider failures, with the HTTP status when there was one
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public status?: number
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+export interface OutputAttempt {
+  content: string
+  issues: string[]
+}
+
+// Raised when a model's reply still does not match the expected schema after
+// repair attempts. Every raw reply is kept for debugging.
+export class LLMOutputError extends Error {
+  constructor(
+    public feature: string,
+    public issues: string[],
+    public attempts: OutputAttempt[]
+  ) {
+    super(`AI response for ${feature} did not match the expected format: ${issues.slice(0, 3).join('; ')}`)
+    this.name = 'LLMOutputError'
+  }
+
+  get rawText(): string {
+    return this.attempts[this.attempts.length - 1]?.content || ''
+  }
+}
+
+export interface UsageScope {
+  organizationId: string
+  userId?: string
+}
+
+// Budget enforcement and usage accounting around every completion
+export interface UsageMeter {
+  // Throws AIBudgetExceededError when no further calls are allowed this period
+  check(scope: UsageScope): Promise<void>
+  record(scope: UsageScope, request: ResolvedCompletionRequest, result: CompletionResult): Promise<void>
+}
+
+// Raised before a completion when the organization's or the user's monthly AI
+// budget is used up
+export class AIBudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public scope: 'organization' | 'user',
+    public resetAt: Date
+  ) {
+    super(message)
+    this.name = 'AIBudgetExceededError'
+  }
+}
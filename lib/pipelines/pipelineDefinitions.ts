@@ -0,0 +1,354 @@
+// LeadAI Pro - Pipeline Definitions
+// Organization-defined lead pipelines, default pipelines and stage transition rules
+
+import { LEAD_STATUSES, REAL_ESTATE_LEAD_TYPES, getLeadField } from '../leads/leadFields'
+
+export type RealEstateLeadType = typeof REAL_ESTATE_LEAD_TYPES[number]
+export type LeadStatusValue = typeof LEAD_STATUSES[number]
+
+export const STAGE_AUTOMATION_TYPES = ['create_task', 'set_follow_up', 'add_tags'] as const
+export type StageAutomationType = typeof STAGE_AUTOMATION_TYPES[number]
+
+// Actions run when a lead enters a stage
+export type StageAutomation =
+  | { type: 'create_task'; subject: string; description?: string; dueInDays?: number }
+  | { type: 'set_follow_up'; inDays: number }
+  | { type: 'add_tags'; tags: string[] }
+
+export interface PipelineStage {
+  key: string
+  label: string
+  // Lead.status to set when a lead enters this stage
+  status?: LeadStatusValue
+  // Closed stages end the pipeline; 'lost' stages can be entered from anywhere
+  outcome?: 'won' | 'lost'
+  // Lead fields that must be filled before entering this stage (or any later one)
+  requiredFields?: string[]
+  // Earlier stages a lead may be moved back to from here (overrides allowBackwardMoves)
+  allowedBackTo?: string[]
+  automations?: StageAutomation[]
+}
+
+export interface PipelineDefinition {
+  id: string
+  name: string
+  // Lead types routed to this pipeline; an empty list marks the fallback pipeline
+  leadTypes: RealEstateLeadType[]
+  allowBackwardMoves: boolean
+  stages: PipelineStage[]
+}
+
+export interface TransitionCheck {
+  allowed: boolean
+  reason?: string
+  missingFields?: string[]
+}
+
+// Lead stage column default for leads created before pipelines existed
+export const LEGACY_DEFAULT_STAGE = 'prospect'
+
+export const DEFAULT_PIPELINES: PipelineDefinition[] = [
+  {
+    id: 'default',
+    name: 'Sales Pipeline',
+    leadTypes: [],
+    allowBackwardMoves: true,
+    stages: [
+      { key: 'new', label: 'New', status: 'new' },
+      { key: 'contacted', label: 'Contacted', status: 'contacted' },
+      { key: 'qualified', label: 'Qualified', status: 'qualified' },
+      { key: 'proposal', label: 'Proposal', status: 'proposal' },
+      { key: 'negotiation', label: 'Negotiation', status: 'negotiation' },
+      { key: 'closed_won', label: 'Closed Won', status: 'closed_won', outcome: 'won' },
+      { key: 'closed_lost', label: 'Closed Lost', status: 'closed_lost', outcome: 'lost' },
+    ],
+  },
+  {
+    id: 'seller',
+    name: 'Seller Acquisitions',
+    leadTypes: ['SELLER'],
+    allowBackwardMoves: false,
+    stages: [
+      { key: 'new_lead', label: 'New Lead', status: 'new' },
+      {
+        key: 'contacted',
+        label: 'Contacted',
+        status: 'contacted',
+        automations: [{ type: 'set_follow_up', inDays: 2 }],
+      },
+      {
+        key: 'appointment_set',
+        label: 'Appointment Set',
+        status: 'qualified',
+        requiredFields: ['motivationLevel', 'timeframe'],
+        automations: [{ type: 'create_task', subject: 'Prepare property walkthrough', dueInDays: 1 }],
+      },
+      {
+        key: 'offer',
+        label: 'Offer Made',
+        status: 'proposal',
+        requiredFields: ['priceExpectation', 'propertyCondition'],
+        allowedBackTo: ['appointment_set'],
+        automations: [{ type: 'set_follow_up', inDays: 3 }],
+      },
+      { key: 'under_contract', label: 'Under Contract', status: 'negotiation', allowedBackTo: ['offer'] },
+      { key: 'closed_won', label: 'Closed', status: 'closed_won', outcome: 'won' },
+      { key: 'dead', label: 'Dead', status: 'closed_lost', outcome: 'lost' },
+    ],
+  },
+  {
+    id: 'buyer',
+    name: 'Buyers',
+    leadTypes: ['BUYER', 'INVESTOR'],
+    allowBackwardMoves: true,
+    stages: [
+      { key: 'new_lead', label: 'New Lead', status: 'new' },
+      { key: 'contacted', label: 'Contacted', status: 'contacted' },
+      { key: 'criteria_set', label: 'Buying Criteria Set', status: 'qualified', requiredFields: ['maxBudget', 'preferredAreas'] },
+      { key: 'showing', label: 'Showing', status: 'proposal' },
+      { key: 'offer_made', label: 'Offer Made', status: 'negotiation' },
+      { key: 'closed_won', label: 'Closed', status: 'closed_won', outcome: 'won' },
+      { key: 'dead', label: 'Dead', status: 'closed_lost', outcome: 'lost' },
+    ],
+  },
+  {
+    id: 'disposition',
+    name: 'Dispositions',
+    leadTypes: ['WHOLESALER', 'AGENT'],
+    allowBackwardMoves: true,
+    stages: [
+      { key: 'new_lead', label: 'New Lead', status: 'new' },
+      { key: 'qualified', label: 'Qualified Buyer', status: 'qualified', requiredFields: ['maxBudget'] },
+      {
+        key: 'deal_sent',
+        label: 'Deal Sent',
+        status: 'proposal',
+        automations: [{ type: 'set_follow_up', inDays: 1 }],
+      },
+      {
+        key: 'assignment_signed',
+        label: 'Assignment Signed',
+        status: 'negotiation',
+        automations: [{ type: 'create_task', subject: 'Collect earnest money deposit', dueInDays: 2 }],
+      },
+      { key: 'closed_won', label: 'Closed', status: 'closed_won', outcome: 'won' },
+      { key: 'dead', label: 'Dead', status: 'closed_lost', outcome: 'lost' },
+    ],
+  },
+]
+
+const isBlank = (value: any): boolean =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+
+// Read a required-field path (plain field, "address.<key>" or "customFields.<key>") from a lead
+const readLeadField = (lead: Record<string, any>, path: string): any => {
+  const [root, key] = path.split('.', 2)
+  return key ? lead[root]?.[key] : lead[root]
+}
+
+const isRequirableField = (path: string): boolean => {
+  const [root, key] = path.split('.', 2)
+  if (key) {
+    return (root === 'address' || root === 'customFields') && key.length > 0
+  }
+  return !!getLeadField(root) || root === 'address'
+}
+
+// Validate a set of pipeline definitions, returning human-readable problems
+export const validatePipelineDefinitions = (pipelines: PipelineDefinition[]): string[] => {
+  const errors: string[] = []
+  const pipelineIds = new Set<string>()
+  const claimedTypes = new Map<string, string>()
+  let fallbackCount = 0
+
+  if (!Array.isArray(pipelines) || pipelines.length === 0) {
+    return ['At least one pipeline is required']
+  }
+
+  for (const pipeline of pipelines) {
+    const label = pipeline?.id ? `Pipeline "${pipeline.id}"` : 'Pipeline'
+
+    if (!pipeline?.id || !/^[a-z0-9_-]+$/.test(pipeline.id)) {
+      errors.push(`${label}: id must contain only lowercase letters, numbers, "-" and "_"`)
+      continue
+    }
+    if (pipelineIds.has(pipeline.id)) {
+      errors.push(`${label}: duplicate pipeline id`)
+    }
+    pipelineIds.add(pipeline.id)
+
+    if (!pipeline.name) {
+      errors.push(`${label}: name is required`)
+    }
+
+    const leadTypes = pipeline.leadTypes || []
+    if (leadTypes.length === 0) {
+      fallbackCount++
+    }
+    for (const leadType of leadTypes) {
+      if (!REAL_ESTATE_LEAD_TYPES.includes(leadType)) {
+        errors.push(`${label}: unknown lead type "${leadType}"`)
+      } else if (claimedTypes.has(leadType)) {
+        errors.push(`${label}: lead type ${leadType} is already handled by "${claimedTypes.get(leadType)}"`)
+      } else {
+        claimedTypes.set(leadType, pipeline.id)
+      }
+    }
+
+    const stages = pipeline.stages || []
+    if (stages.filter(stage => !stage.outcome).length === 0) {
+      errors.push(`${label}: at least one open stage is required`)
+    }
+
+    const stageKeys = new Set<string>()
+    stages.forEach((stage, index) => {
+      const stageLabel = `${label} stage "${stage?.key}"`
+
+      if (!stage?.key || !/^[a-z0-9_]+$/.test(stage.key)) {
+        errors.push(`${label}: stage ${index + 1} key must contain only lowercase letters, numbers and "_"`)
+        return
+      }
+      if (stageKeys.has(stage.key)) {
+        errors.push(`${stageLabel}: duplicate stage key`)
+      }
+      if (!stage.label) {
+        errors.push(`${stageLabel}: label is required`)
+      }
+      if (stage.status && !LEAD_STATUSES.includes(stage.status)) {
+        errors.push(`${stageLabel}: unknown status "${stage.status}"`)
+      }
+      if (stage.outcome && !['won', 'lost'].includes(stage.outcome)) {
+        errors.push(`${stageLabel}: outcome must be "won" or "lost"`)
+      }
+      for (const field of stage.requiredFields || []) {
+        if (!isRequirableField(field)) {
+          errors.push(`${stageLabel}: unknown required field "${field}"`)
+        }
+      }
+      for (const target of stage.allowedBackTo || []) {
+        if (!stageKeys.has(target)) {
+          errors.push(`${stageLabel}: allowedBackTo must reference an earlier stage, got "${target}"`)
+        }
+      }
+      for (const automation of stage.automations || []) {
+        errors.push(...validateAutomation(automation).map(message => `${stageLabel}: ${message}`))
+      }
+
+      stageKeys.add(stage.key)
+    })
+  }
+
+  if (fallbackCount > 1) {
+    errors.push('Only one pipeline may omit leadTypes')
+  }
+
+  return errors
+}
+
+const validateAutomation = (automation: StageAutomation): string[] => {
+  if (!automation || !STAGE_AUTOMATION_TYPES.includes(automation.type)) {
+    return [`automation type must be one of: ${STAGE_AUTOMATION_TYPES.join(', ')}`]
+  }
+
+  switch (automation.type) {
+    case 'create_task':
+      return automation.subject ? [] : ['create_task automation requires a subject']
+    case 'set_follow_up':
+      return Number.isFinite(automation.inDays) && automation.inDays >= 0
+        ? []
+        : ['set_follow_up automation requires a non-negative inDays']
+    case 'add_tags':
+      return Array.isArray(automation.tags) && automation.tags.length > 0
+        ? []
+        : ['add_tags automation requires at least one tag']
+  }
+}
+
+// Pick the pipeline for a lead type, falling back to the pipeline without lead types
+export const resolvePipeline = (
+  pipelines: PipelineDefinition[],
+  leadType?: string | null
+): PipelineDefinition => {
+  const byType = leadType ? pipelines.find(p => p.leadTypes.includes(leadType as RealEstateLeadType)) : undefined
+  return byType || pipelines.find(p => p.leadTypes.length === 0) || pipelines[0]
+}
+
+export const getStage = (pipeline: PipelineDefinition, key: string): PipelineStage | undefined =>
+  pipeline.stages.find(stage => stage.key === key)
+
+export const getInitialStage = (pipeline: PipelineDefinition): PipelineStage =>
+  pipeline.stages.find(stage => !stage.outcome) || pipeline.stages[0]
+
+// Work out where a lead currently sits, mapping legacy stage values through its status
+export const resolveCurrentStage = (
+  pipeline: PipelineDefinition,
+  lead: { stage?: string | null; status?: string | null }
+): PipelineStage => {
+  if (lead.stage) {
+    const stage = getStage(pipeline, lead.stage)
+    if (stage) return stage
+  }
+
+  return pipeline.stages.find(stage => stage.status && stage.status === lead.status) || getInitialStage(pipeline)
+}
+
+// Next open (or won) stage after the current one
+export const getNextStage = (pipeline: PipelineDefinition, current: PipelineStage): PipelineStage | undefined => {
+  if (current.outcome) return undefined
+
+  const index = pipeline.stages.indexOf(current)
+  return pipeline.stages.slice(index + 1).find(stage => stage.outcome !== 'lost')
+}
+
+// Required fields of the target stage and every open stage it skips over
+export const getMissingFields = (
+  pipeline: PipelineDefinition,
+  target: PipelineStage,
+  lead: Record<string, any>
+): string[] => {
+  if (target.outcome === 'lost') return []
+
+  const targetIndex = pipeline.stages.indexOf(target)
+  const required = new Set<string>()
+  pipeline.stages.slice(0, targetIndex + 1)
+    .filter(stage => stage.outcome !== 'lost')
+    .forEach(stage => (stage.requiredFields || []).forEach(field => required.add(field)))
+
+  return [...required].filter(field => isBlank(readLeadField(lead, field)))
+}
+
+// Check whether a lead may move between two stages of a pipeline
+export const checkTransition = (
+  pipeline: PipelineDefinition,
+  from: PipelineStage,
+  to: PipelineStage,
+  lead: Record<string, any>
+): TransitionCheck => {
+  if (from.key === to.key) {
+    return { allowed: false, reason: `Lead is already in stage "${to.label}"` }
+  }
+
+  const fromIndex = pipeline.stages.indexOf(from)
+  const toIndex = pipeline.stages.indexOf(to)
+
+  // Closed leads can only be reopened where backwards moves are allowed
+  const isBackward = to.outcome !== 'lost' && (toIndex < fromIndex || !!from.outcome)
+  if (isBackward) {
+    const permitted = from.allowedBackTo ? from.allowedBackTo.includes(to.key) : pipeline.allowBackwardMoves
+    if (!permitted) {
+      return { allowed: false, reason: `Moving back from "${from.label}" to "${to.label}" is not allowed` }
+    }
+    return { allowed: true }
+  }
+
+  const missingFields = getMissingFields(pipeline, to, lead)
+  if (missingFields.length > 0) {
+    return {
+      allowed: false,
+      reason: `Stage "${to.label}" requires: ${missingFields.join(', ')}`,
+      missingFields,
+    }
+  }
+
+  return { allowed: true }
+}
@@ -0,0 +1,334 @@
+// LeadAI Pro - Pipeline Service
+// Loads organization pipelines, moves leads between stages and records stage history
+
+import { prisma } from '../database'
+import {
+  PipelineDefinition,
+  PipelineStage,
+  DEFAULT_PIPELINES,
+  resolvePipeline,
+  resolveCurrentStage,
+  getStage,
+  getNextStage,
+  getInitialStage,
+  checkTransition,
+  LEGACY_DEFAULT_STAGE,
+} from './pipelineDefinitions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface StageMoveOptions {
+  leadId: string
+  organizationId: string
+  userId: string
+  // Target stage key; omitted means "advance to the next stage"
+  toStage?: string
+  // Other lead fields written in the same update (e.g. from PUT /leads/:id)
+  data?: Record<string, any>
+}
+
+export interface StageMoveResult {
+  lead: any
+  pipeline: PipelineDefinition
+  from: PipelineStage
+  to: PipelineStage
+  automations: string[]
+}
+
+export interface StageAutomationPlan {
+  leadUpdates: Record<string, any>
+  tasks: Array<{ subject: string; description?: string; scheduledAt: Date }>
+  applied: string[]
+}
+
+export interface StageTimeSummary {
+  stage: string
+  label: string
+  exited: number
+  avgSeconds: number | null
+  maxSeconds: number | null
+  current: number
+  currentAvgAgeSeconds: number | null
+}
+
+// Error raised when a stage move breaks pipeline rules
+export class StageTransitionError extends Error {
+  constructor(message: string, public missingFields: string[] = []) {
+    super(message)
+    this.name = 'StageTransitionError'
+  }
+}
+
+// Work out the lead updates and tasks a stage's entry automations produce
+export const planStageAutomations = (
+  stage: PipelineStage,
+  lead: { tags?: string[] | null },
+  now: Date = new Date()
+): StageAutomationPlan => {
+  const plan: StageAutomationPlan = { leadUpdates: {}, tasks: [], applied: [] }
+
+  for (const automation of stage.automations || []) {
+    switch (automation.type) {
+      case 'create_task':
+        plan.tasks.push({
+          subject: automation.subject,
+          description: automation.description,
+          scheduledAt: new Date(now.getTime() + (automation.dueInDays || 0) * DAY_MS),
+        })
+        break
+      case 'set_follow_up':
+        plan.leadUpdates.nextFollowUpAt = new Date(now.getTime() + automation.inDays * DAY_MS)
+        break
+      case 'add_tags':
+        plan.leadUpdates.tags = Array.from(new Set([
+          ...(plan.leadUpdates.tags || lead.tags || []),
+          ...automation.tags,
+        ]))
+        break
+    }
+    plan.applied.push(automation.type)
+  }
+
+  return plan
+}
+
+// Pipeline Service
+export class PipelineService {
+  // Pipelines live in Organization.settings.pipelines; defaults apply until an org saves its own
+  async getPipelines(organizationId: string): Promise<PipelineDefinition[]> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const pipelines = (organization?.settings as any)?.pipelines as PipelineDefinition[] | undefined
+    return pipelines && pipelines.length > 0 ? pipelines : DEFAULT_PIPELINES
+  }
+
+  async savePipelines(organizationId: string, pipelines: PipelineDefinition[], userId: string): Promise<PipelineDefinition[]> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const settings = (organization?.settings as any) || {}
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        settings: {
+          ...settings,
+          pipelines,
+          pipelinesUpdatedAt: new Date().toISOString(),
+          pipelinesUpdatedBy: userId,
+        },
+      },
+    })
+
+    return pipelines
+  }
+
+  async getPipelineForLeadType(organizationId: string, leadType?: string | null): Promise<PipelineDefinition> {
+    return resolvePipeline(await this.getPipelines(organizationId), leadType)
+  }
+
+  // Stages that still hold leads but would disappear with the given definitions
+  async findOrphanedStages(organizationId: string, pipelines: PipelineDefinition[]): Promise<Array<{ stage: string; leads: number }>> {
+    const groups = await prisma.lead.groupBy({
+      by: ['leadType', 'stage'],
+      where: { organizationId },
+      _count: { _all: true },
+    })
+
+    return groups
+      .filter((group: any) => {
+        const pipeline = resolvePipeline(pipelines, group.leadType)
+        return group.stage !== LEGACY_DEFAULT_STAGE && !getStage(pipeline, group.stage)
+      })
+      .map((group: any) => ({ stage: group.stage, leads: group._count._all }))
+  }
+
+  // Stage a new lead should start in; throws if an explicit stage is not in its pipeline
+  async resolveInitialStage(
+    organizationId: string,
+    leadType?: string | null,
+    stage?: string | null
+  ): Promise<{ pipeline: PipelineDefinition; stage: PipelineStage }> {
+    const pipeline = await this.getPipelineForLeadType(organizationId, leadType)
+
+    if (!stage) {
+      return { pipeline, stage: getInitialStage(pipeline) }
+    }
+
+    const match = getStage(pipeline, stage)
+    if (!match) {
+      throw new StageTransitionError(
+        `Stage "${stage}" is not part of the ${pipeline.name} pipeline. Expected one of: ${pipeline.stages.map(s => s.key).join(', ')}`
+      )
+    }
+    return { pipeline, stage: match }
+  }
+
+  // Open the first stage-history entry for a newly created lead
+  async recordInitialStage(
+    lead: { id: string; organizationId: string; stage: string },
+    pipeline: PipelineDefinition,
+    userId?: string
+  ): Promise<void> {
+    await prisma.leadStageHistory.create({
+      data: {
+        leadId: lead.id,
+        organizationId: lead.organizationId,
+        pipelineId: pipeline.id,
+        fromStage: null,
+        toStage: lead.stage,
+        changedBy: userId,
+      },
+    })
+  }
+
+  // Move a lead to a stage (or the next one), enforcing pipeline rules and running entry automations
+  async moveLead(options: StageMoveOptions): Promise<StageMoveResult> {
+    const { leadId, organizationId, userId, toStage, data = {} } = options
+
+    const current = await prisma.lead.findUnique({ where: { id: leadId } })
+    if (!current) {
+      throw new StageTransitionError('Lead not found')
+    }
+
+    const merged = { ...current, ...data }
+    const pipeline = await this.getPipelineForLeadType(organizationId, merged.leadType)
+    const from = resolveCurrentStage(pipeline, current)
+
+    const to = toStage ? getStage(pipeline, toStage) : getNextStage(pipeline, from)
+    if (!to) {
+      throw new StageTransitionError(
+        toStage
+          ? `Stage "${toStage}" is not part of the ${pipeline.name} pipeline`
+          : 'Cannot advance lead stage further'
+      )
+    }
+
+    const check = checkTransition(pipeline, from, to, merged)
+    if (!check.allowed) {
+      throw new StageTransitionError(check.reason!, check.missingFields)
+    }
+
+    const now = new Date()
+    const plan = planStageAutomations(to, merged, now)
+
+    const lead = await prisma.$transaction(async (tx) => {
+      const openEntry = await tx.leadStageHistory.findFirst({
+        where: { leadId, exitedAt: null },
+        orderBy: { enteredAt: 'desc' },
+      })
+
+      if (openEntry) {
+        await tx.leadStageHistory.update({
+          where: { id: openEntry.id },
+          data: {
+            exitedAt: now,
+            durationSeconds: Math.round((now.getTime() - openEntry.enteredAt.getTime()) / 1000),
+          },
+        })
+      }
+
+      await tx.leadStageHistory.create({
+        data: {
+          leadId,
+          organizationId,
+          pipelineId: pipeline.id,
+          fromStage: from.key,
+          toStage: to.key,
+          changedBy: userId,
+          enteredAt: now,
+        },
+      })
+
+      for (const task of plan.tasks) {
+        await tx.activity.create({
+          data: {
+            leadId,
+            userId,
+            type: 'TASK',
+            subject: task.subject,
+            description: task.description,
+            scheduledAt: task.scheduledAt,
+            metadata: { automation: 'stage_entry', pipelineId: pipeline.id, stage: to.key },
+          },
+        })
+      }
+
+      return tx.lead.update({
+        where: { id: leadId },
+        data: {
+          ...data,
+          ...plan.leadUpdates,
+          stage: to.key,
+          ...(to.status && { status: to.status }),
+          updatedAt: now,
+        },
+        include: {
+          assignedUser: {
+            select: { id: true, fullName: true, email: true, avatarUrl: true }
+          },
+          team: {
+            select: { id: true, name: true }
+          }
+        }
+      })
+    })
+
+    return { lead, pipeline, from, to, automations: plan.applied }
+  }
+
+  async getStageHistory(leadId: string) {
+    return prisma.leadStageHistory.findMany({
+      where: { leadId },
+      orderBy: { enteredAt: 'asc' },
+    })
+  }
+
+  // Average time leads spend in each stage of a pipeline
+  async getTimeInStage(organizationId: string, pipeline: PipelineDefinition, since?: Date): Promise<StageTimeSummary[]> {
+    const where = {
+      organizationId,
+      pipelineId: pipeline.id,
+      ...(since && { enteredAt: { gte: since } }),
+    }
+
+    const [exited, open] = await Promise.all([
+      prisma.leadStageHistory.groupBy({
+        by: ['toStage'],
+        where: { ...where, exitedAt: { not: null } },
+        _count: { _all: true },
+        _avg: { durationSeconds: true },
+        _max: { durationSeconds: true },
+      }),
+      prisma.leadStageHistory.findMany({
+        where: { ...where, exitedAt: null },
+        select: { toStage: true, enteredAt: true },
+      }),
+    ])
+
+    const now = Date.now()
+
+    return pipeline.stages.map(stage => {
+      const closed = exited.find((group: any) => group.toStage === stage.key)
+      const current = open.filter((entry: any) => entry.toStage === stage.key)
+      const totalAge = current.reduce((sum: number, entry: any) => sum + (now - entry.enteredAt.getTime()) / 1000, 0)
+
+      return {
+        stage: stage.key,
+        label: stage.label,
+        exited: closed?._count._all || 0,
+        avgSeconds: closed?._avg.durationSeconds != null ? Math.round(closed._avg.durationSeconds) : null,
+        maxSeconds: closed?._max.durationSeconds ?? null,
+        current: current.length,
+        currentAvgAgeSeconds: current.length > 0 ? Math.round(totalAge / current.length) : null,
+      }
+    })
+  }
+}
+
+export const pipelineService = new PipelineService()
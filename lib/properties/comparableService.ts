@@ -0,0 +1,276 @@
+// LeadAI Pro - Comparable Service
+// Stores comps (PropStream or entered by hand), applies analyst inclusions and saves ARV analyses
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import { PropStreamAPI, PropStreamProperty } from '../integrations/propstream'
+import {
+  CompCriteria,
+  CompSale,
+  ArvEstimate,
+  ComparableInclusionValue,
+  PropertyTypeValue,
+  PROPERTY_TYPES,
+  resolveCompCriteria,
+  estimateArv,
+  toPropertyType,
+} from './comparables'
+
+export interface ComparableInput {
+  streetAddress: string
+  city: string
+  state: string
+  zipCode: string
+  propertyType: PropertyTypeValue
+  bedrooms?: number | null
+  bathrooms?: number | null
+  squareFootage?: number | null
+  lotSize?: number | null
+  yearBuilt?: number | null
+  salePrice: number
+  saleDate: string | Date
+  distance?: number | null
+}
+
+export type PropStreamComparables = Pick<PropStreamAPI, 'getComparables'>
+
+// Error raised for missing properties or comps, or comps that cannot be fetched
+export class ComparableError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state', public resource: string = 'Property') {
+    super(message)
+    this.name = 'ComparableError'
+  }
+}
+
+const isDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value as string).getTime())
+
+const isCount = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+export const validateComparableInput = (input: Partial<ComparableInput>): string[] => {
+  const errors: string[] = []
+
+  for (const key of ['streetAddress', 'city', 'state', 'zipCode'] as const) {
+    if (typeof input[key] !== 'string' || !input[key]!.trim()) errors.push(`${key} is required`)
+  }
+  if (!PROPERTY_TYPES.includes(input.propertyType as PropertyTypeValue)) {
+    errors.push(`propertyType must be one of: ${PROPERTY_TYPES.join(', ')}`)
+  }
+  if (!(typeof input.salePrice === 'number' && input.salePrice > 0)) {
+    errors.push('salePrice must be a positive amount')
+  }
+  if (!isDate(input.saleDate)) {
+    errors.push('saleDate must be a date')
+  }
+  for (const key of ['bedrooms', 'bathrooms', 'squareFootage', 'lotSize', 'yearBuilt', 'distance'] as const) {
+    if (input[key] !== undefined && input[key] !== null && !isCount(input[key])) errors.push(`${key} must be a non-negative number`)
+  }
+
+  return errors
+}
+
+// PropStream client from PROPSTREAM_API_KEY; comps cannot be fetched without one
+export const propStreamFromEnv = (): PropStreamComparables => {
+  if (!process.env.PROPSTREAM_API_KEY) {
+    throw new ComparableError('PropStream is not configured (PROPSTREAM_API_KEY)', 'invalid_state')
+  }
+  return new PropStreamAPI({
+    apiKey: process.env.PROPSTREAM_API_KEY,
+    baseUrl: process.env.PROPSTREAM_BASE_URL || 'https://api.propstream.com/v1',
+    timeout: 30000,
+    retries: 3,
+  })
+}
+
+// Comparable columns from a PropStream comp; comps without a recorded sale are of no use
+const fromPropStream = (comp: PropStreamProperty): Record<string, any> | null => {
+  const { valuation, propertyDetails: details } = comp
+  if (!valuation.lastSalePrice || !isDate(valuation.lastSaleDate)) return null
+
+  return {
+    streetAddress: comp.address.street,
+    city: comp.address.city,
+    state: comp.address.state,
+    zipCode: comp.address.zipCode,
+    propertyType: toPropertyType(details.propertyType),
+    // PropStream reports unknown details as 0
+    bedrooms: details.bedrooms || null,
+    bathrooms: details.bathrooms || null,
+    squareFootage: details.squareFootage || null,
+    lotSize: details.lotSize || null,
+    yearBuilt: details.yearBuilt || null,
+    salePrice: valuation.lastSalePrice,
+    saleDate: new Date(valuation.lastSaleDate),
+    distance: comp.distance ?? null,
+    rawData: comp as any,
+  }
+}
+
+export class ComparableService {
+  constructor(
+    private clock: Clock = systemClock,
+    private propStream: () => PropStreamComparables = propStreamFromEnv
+  ) {}
+
+  async list(organizationId: string, propertyId: string): Promise<any[]> {
+    await this.requireProperty(organizationId, propertyId)
+    return prisma.comparable.findMany({
+      where: { propertyId },
+      orderBy: [{ selected: 'desc' }, { weight: 'desc' }, { saleDate: 'desc' }],
+    })
+  }
+
+  // Fetch comps from PropStream, refresh the ones already stored (keeping analyst inclusions)
+  // and re-run the analysis
+  async importFromPropStream(
+    organizationId: string,
+    propertyId: string,
+    userId: string,
+    options: { radius?: number } = {}
+  ): Promise<{ imported: number; skipped: number; analysis: any }> {
+    const property = await this.requireProperty(organizationId, propertyId)
+    if (!property.propStreamId) {
+      throw new ComparableError('Property has no PropStream ID to fetch comps for', 'invalid_state')
+    }
+
+    let comps: PropStreamProperty[]
+    try {
+      comps = await this.propStream().getComparables(property.propStreamId, options.radius)
+    } catch (error) {
+      if (error instanceof ComparableError) throw error
+      throw new ComparableError('Could not fetch comps from PropStream; try again later', 'invalid_state')
+    }
+
+    let imported = 0
+    for (const comp of comps) {
+      const data = fromPropStream(comp)
+      if (!data || comp.id === property.propStreamId) continue
+
+      await prisma.comparable.upsert({
+        where: { propertyId_dataSource_externalId: { propertyId, dataSource: 'PROPSTREAM', externalId: comp.id } },
+        create: { ...data, propertyId, dataSource: 'PROPSTREAM' as any, externalId: comp.id },
+        update: data,
+      })
+      imported++
+    }
+
+    const { analysis } = await this.analyze(organizationId, propertyId, userId)
+    return { imported, skipped: comps.length - imported, analysis }
+  }
+
+  async create(organizationId: string, propertyId: string, input: ComparableInput): Promise<any> {
+    await this.requireProperty(organizationId, propertyId)
+    return prisma.comparable.create({
+      data: {
+        propertyId,
+        streetAddress: input.streetAddress,
+        city: input.city,
+        state: input.state,
+        zipCode: input.zipCode,
+        propertyType: input.propertyType as any,
+        bedrooms: input.bedrooms,
+        bathrooms: input.bathrooms,
+        squareFootage: input.squareFootage,
+        lotSize: input.lotSize,
+        yearBuilt: input.yearBuilt,
+        salePrice: input.salePrice,
+        saleDate: new Date(input.saleDate),
+        distance: input.distance,
+      },
+    })
+  }
+
+  async delete(organizationId: string, propertyId: string, comparableId: string): Promise<void> {
+    await this.requireProperty(organizationId, propertyId)
+    const { count } = await prisma.comparable.deleteMany({ where: { id: comparableId, propertyId } })
+    if (count === 0) {
+      throw new ComparableError('Comparable not found', 'not_found', 'Comparable')
+    }
+  }
+
+  // Force a comp into or out of the analysis (AUTO hands it back to the criteria) and recompute
+  async setInclusion(
+    organizationId: string,
+    propertyId: string,
+    comparableId: string,
+    inclusion: ComparableInclusionValue,
+    userId: string
+  ): Promise<any> {
+    await this.requireProperty(organizationId, propertyId)
+    const { count } = await prisma.comparable.updateMany({
+      where: { id: comparableId, propertyId },
+      data: { inclusion: inclusion as any },
+    })
+    if (count === 0) {
+      throw new ComparableError('Comparable not found', 'not_found', 'Comparable')
+    }
+    return (await this.analyze(organizationId, propertyId, userId)).analysis
+  }
+
+  // Run the comps against the criteria. Criteria given here are layered over the ones the
+  // last analysis used. Saving records the analysis, each comp's result and the property's ARV.
+  async analyze(
+    organizationId: string,
+    propertyId: string,
+    userId: string,
+    criteria: CompCriteria = {},
+    options: { save?: boolean } = {}
+  ): Promise<{ estimate: ArvEstimate; analysis: any | null }> {
+    const property = await this.requireProperty(organizationId, propertyId)
+    const [comps, last] = await Promise.all([
+      prisma.comparable.findMany({ where: { propertyId } }),
+      prisma.propertyAnalysis.findFirst({ where: { propertyId }, orderBy: { createdAt: 'desc' }, select: { criteria: true } }),
+    ])
+
+    const resolved = resolveCompCriteria(last?.criteria as CompCriteria | null, criteria)
+    const estimate = estimateArv(property, comps as CompSale[], resolved, this.clock.now())
+    if (options.save === false) {
+      return { estimate, analysis: null }
+    }
+
+    await Promise.all(estimate.comparables.map(comp => prisma.comparable.update({
+      where: { id: comp.id },
+      data: {
+        selected: comp.selected,
+        adjustedPrice: comp.adjustedPrice,
+        adjustments: comp.adjustments as any,
+        weight: comp.weight,
+        rejectionReasons: comp.rejectionReasons,
+      },
+    })))
+
+    const { comparables, ...valuation } = estimate
+    const analysis = await prisma.propertyAnalysis.create({
+      data: {
+        ...valuation,
+        criteria: resolved as any,
+        comparables: comparables as any,
+        propertyId,
+        userId,
+      },
+    })
+    if (estimate.arv !== null) {
+      await prisma.property.update({ where: { id: propertyId }, data: { arv: estimate.arv } })
+    }
+
+    return { estimate, analysis }
+  }
+
+  async latestAnalysis(organizationId: string, propertyId: string): Promise<any | null> {
+    await this.requireProperty(organizationId, propertyId)
+    return prisma.propertyAnalysis.findFirst({ where: { propertyId }, orderBy: { createdAt: 'desc' } })
+  }
+
+  private async requireProperty(organizationId: string, propertyId: string): Promise<any> {
+    const property = await prisma.property.findFirst({
+      where: { id: propertyId, organizationId },
+      select: { id: true, propertyType: true, bedrooms: true, bathrooms: true, squareFootage: true, yearBuilt: true, propStreamId: true },
+    })
+    if (!property) {
+      throw new ComparableError('Property not found', 'not_found')
+    }
+    return property
+  }
+}
+
+export const comparableService = new ComparableService()
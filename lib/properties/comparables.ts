@@ -0,0 +1,291 @@
+// LeadAI Pro - Comparable Sales
+// Comp selection by distance, recency and similarity, feature adjustments and a weighted ARV with a confidence range
+
+export const PROPERTY_TYPES = [
+  'SINGLE_FAMILY', 'MULTI_FAMILY', 'CONDO', 'TOWNHOUSE', 'MOBILE_HOME', 'LAND', 'COMMERCIAL', 'MIXED_USE', 'OTHER',
+] as const
+export type PropertyTypeValue = typeof PROPERTY_TYPES[number]
+
+// AUTO leaves the comp to the selection criteria; analysts can force one in or out
+export const COMPARABLE_INCLUSIONS = ['AUTO', 'INCLUDED', 'EXCLUDED'] as const
+export type ComparableInclusionValue = typeof COMPARABLE_INCLUSIONS[number]
+
+export interface CompCriteria {
+  maxDistanceMiles?: number
+  maxAgeMonths?: number
+  // Allowed difference from the subject
+  bedroomTolerance?: number
+  bathroomTolerance?: number
+  squareFootageTolerancePercent?: number
+  requireSamePropertyType?: boolean
+  // Most comps to use, best weighted first
+  maxComps?: number
+  // Fewer selected comps than this widens the range and lowers confidence
+  minComps?: number
+  // Dollar adjustments per unit of difference from the subject
+  perBedroom?: number
+  perBathroom?: number
+  perSquareFoot?: number
+  perYearBuilt?: number
+  // Market movement since the sale, applied per month of age
+  monthlyAppreciationPercent?: number
+}
+
+export const DEFAULT_COMP_CRITERIA = {
+  maxDistanceMiles: 1,
+  maxAgeMonths: 6,
+  bedroomTolerance: 1,
+  bathroomTolerance: 1,
+  squareFootageTolerancePercent: 20,
+  requireSamePropertyType: true,
+  maxComps: 6,
+  minComps: 3,
+  perBedroom: 10000,
+  perBathroom: 7500,
+  perSquareFoot: 50,
+  perYearBuilt: 500,
+  monthlyAppreciationPercent: 0,
+}
+
+export type ResolvedCompCriteria = CompCriteria & typeof DEFAULT_COMP_CRITERIA
+
+export interface CompSubject {
+  propertyType: PropertyTypeValue
+  bedrooms?: number | null
+  bathrooms?: number | null
+  squareFootage?: number | null
+  yearBuilt?: number | null
+}
+
+export interface CompSale extends CompSubject {
+  id: string
+  salePrice: number
+  saleDate: Date
+  distance?: number | null
+  inclusion?: ComparableInclusionValue
+}
+
+export interface CompAdjustments {
+  bedrooms?: number
+  bathrooms?: number
+  squareFootage?: number
+  yearBuilt?: number
+  time?: number
+}
+
+export interface CompEvaluation {
+  id: string
+  selected: boolean
+  inclusion: ComparableInclusionValue
+  // Why the criteria rule the comp out; kept on manually included comps for reference
+  rejectionReasons: string[]
+  adjustments: CompAdjustments
+  adjustedPrice: number
+  // Share of the ARV, 0-1; zero when not selected
+  weight: number
+}
+
+export interface ArvEstimate {
+  arv: number | null
+  arvLow: number | null
+  arvHigh: number | null
+  // 0-100 from the number of comps and how closely their adjusted prices agree
+  confidence: number
+  compCount: number
+  pricePerSquareFoot: number | null
+  comparables: CompEvaluation[]
+}
+
+const MONTH_MS = 30.4375 * 24 * 60 * 60 * 1000
+
+// The range never narrows below this share of the ARV, however well comps agree
+const MIN_RANGE_PERCENT = 2.5
+
+const round = (value: number): number => Math.round(value)
+
+const NON_NEGATIVE_CRITERIA = [
+  'maxDistanceMiles', 'maxAgeMonths', 'bedroomTolerance', 'bathroomTolerance', 'squareFootageTolerancePercent',
+  'perBedroom', 'perBathroom', 'perSquareFoot', 'perYearBuilt',
+] as const
+
+export const validateCompCriteria = (criteria: Record<string, any>): string[] => {
+  const errors: string[] = []
+  const known = Object.keys(DEFAULT_COMP_CRITERIA)
+
+  for (const [key, value] of Object.entries(criteria)) {
+    if (!known.includes(key)) {
+      errors.push(`Unknown comp criterion: ${key}`)
+    } else if (key === 'requireSamePropertyType') {
+      if (typeof value !== 'boolean') errors.push('requireSamePropertyType must be true or false')
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a number`)
+    }
+  }
+
+  for (const key of NON_NEGATIVE_CRITERIA) {
+    if (typeof criteria[key] === 'number' && criteria[key] < 0) errors.push(`${key} cannot be negative`)
+  }
+  for (const key of ['maxComps', 'minComps'] as const) {
+    const value = criteria[key]
+    if (typeof value === 'number' && !(Number.isInteger(value) && value >= 1)) errors.push(`${key} must be a whole number of at least 1`)
+  }
+  if (typeof criteria.monthlyAppreciationPercent === 'number' && Math.abs(criteria.monthlyAppreciationPercent) > 10) {
+    errors.push('monthlyAppreciationPercent must be between -10 and 10')
+  }
+
+  return errors
+}
+
+// Later sources override earlier ones; undefined values are ignored
+export const resolveCompCriteria = (...sources: Array<CompCriteria | null | undefined>): ResolvedCompCriteria => {
+  const resolved: Record<string, any> = { ...DEFAULT_COMP_CRITERIA }
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (value !== undefined && value !== null) resolved[key] = value
+    }
+  }
+  return resolved as ResolvedCompCriteria
+}
+
+// PropStream and MLS type labels ("Single Family Residence", "Condominium", "Duplex") as a PropertyType
+export const toPropertyType = (label: string | null | undefined): PropertyTypeValue => {
+  const normalized = (label || '').trim().toUpperCase().replace(/[\s-]+/g, '_')
+  const aliases: Record<string, PropertyTypeValue> = {
+    SFR: 'SINGLE_FAMILY',
+    DUPLEX: 'MULTI_FAMILY',
+    TRIPLEX: 'MULTI_FAMILY',
+    QUADPLEX: 'MULTI_FAMILY',
+    MANUFACTURED: 'MOBILE_HOME',
+    MOBILE: 'MOBILE_HOME',
+    VACANT_LAND: 'LAND',
+  }
+  const alias = Object.keys(aliases).find(key => normalized.startsWith(key))
+  if (alias) return aliases[alias]
+  return PROPERTY_TYPES.find(type => normalized.startsWith(type)) || 'OTHER'
+}
+
+const difference = (subject: number | null | undefined, comp: number | null | undefined): number | null =>
+  subject === null || subject === undefined || comp === null || comp === undefined ? null : subject - comp
+
+const ageInMonths = (saleDate: Date, now: Date): number => Math.max(0, (now.getTime() - saleDate.getTime()) / MONTH_MS)
+
+// Reasons the comp falls outside the criteria
+export const compRejectionReasons = (subject: CompSubject, comp: CompSale, criteria: ResolvedCompCriteria, now: Date): string[] => {
+  const reasons: string[] = []
+
+  if (comp.distance === null || comp.distance === undefined) {
+    reasons.push('Distance unknown')
+  } else if (comp.distance > criteria.maxDistanceMiles) {
+    reasons.push(`${comp.distance} miles away (max ${criteria.maxDistanceMiles})`)
+  }
+  const age = ageInMonths(comp.saleDate, now)
+  if (age > criteria.maxAgeMonths) {
+    reasons.push(`Sold ${Math.floor(age)} months ago (max ${criteria.maxAgeMonths})`)
+  }
+  if (criteria.requireSamePropertyType && comp.propertyType !== subject.propertyType) {
+    reasons.push(`${comp.propertyType} is not ${subject.propertyType}`)
+  }
+
+  const bedrooms = difference(subject.bedrooms, comp.bedrooms)
+  if (bedrooms !== null && Math.abs(bedrooms) > criteria.bedroomTolerance) {
+    reasons.push(`${comp.bedrooms} bedrooms against ${subject.bedrooms}`)
+  }
+  const bathrooms = difference(subject.bathrooms, comp.bathrooms)
+  if (bathrooms !== null && Math.abs(bathrooms) > criteria.bathroomTolerance) {
+    reasons.push(`${comp.bathrooms} bathrooms against ${subject.bathrooms}`)
+  }
+  const squareFootage = difference(subject.squareFootage, comp.squareFootage)
+  if (squareFootage !== null && subject.squareFootage! > 0 &&
+    Math.abs(squareFootage) / subject.squareFootage! * 100 > criteria.squareFootageTolerancePercent) {
+    reasons.push(`${comp.squareFootage} sq ft against ${subject.squareFootage}`)
+  }
+
+  return reasons
+}
+
+// Dollar adjustments bringing the comp's sale price to the subject: a comp with one bedroom
+// fewer than the subject is adjusted up by perBedroom, and so on
+export const compAdjustments = (subject: CompSubject, comp: CompSale, criteria: ResolvedCompCriteria, now: Date): CompAdjustments => {
+  const adjustments: CompAdjustments = {}
+  const apply = (key: keyof CompAdjustments, diff: number | null, rate: number) => {
+    if (diff !== null && diff !== 0 && rate !== 0) adjustments[key] = round(diff * rate)
+  }
+
+  apply('bedrooms', difference(subject.bedrooms, comp.bedrooms), criteria.perBedroom)
+  apply('bathrooms', difference(subject.bathrooms, comp.bathrooms), criteria.perBathroom)
+  apply('squareFootage', difference(subject.squareFootage, comp.squareFootage), criteria.perSquareFoot)
+  apply('yearBuilt', difference(subject.yearBuilt, comp.yearBuilt), criteria.perYearBuilt)
+  apply('time', ageInMonths(comp.saleDate, now), comp.salePrice * criteria.monthlyAppreciationPercent / 100)
+
+  return adjustments
+}
+
+// Closer, more recent and less adjusted comps count for more. Each factor runs from 1 down to
+// 0.5 at the criteria limit; adjustments totalling half the sale price halve the weight.
+const compWeight = (comp: CompSale, adjustments: CompAdjustments, criteria: ResolvedCompCriteria, now: Date): number => {
+  const limitFactor = (value: number, limit: number) => limit > 0 ? Math.max(0.1, 1 - 0.5 * value / limit) : 1
+  const gross = Object.values(adjustments).reduce((sum, value) => sum + Math.abs(value || 0), 0)
+
+  return limitFactor(comp.distance ?? criteria.maxDistanceMiles, criteria.maxDistanceMiles) *
+    limitFactor(ageInMonths(comp.saleDate, now), criteria.maxAgeMonths) *
+    limitFactor(gross / comp.salePrice, 0.5)
+}
+
+// Select comps, adjust them to the subject and weight their adjusted prices into an ARV.
+// The range is one weighted standard deviation either side, widened when comps are few.
+export const estimateArv = (subject: CompSubject, comps: CompSale[], criteria: ResolvedCompCriteria, now: Date): ArvEstimate => {
+  const evaluated = comps.map(comp => {
+    const adjustments = compAdjustments(subject, comp, criteria, now)
+    const adjustedPrice = comp.salePrice + Object.values(adjustments).reduce((sum, value) => sum + (value || 0), 0)
+    return {
+      comp,
+      inclusion: comp.inclusion || 'AUTO',
+      rejectionReasons: compRejectionReasons(subject, comp, criteria, now),
+      adjustments,
+      adjustedPrice: round(adjustedPrice),
+      rawWeight: compWeight(comp, adjustments, criteria, now),
+    }
+  })
+
+  const forced = evaluated.filter(e => e.inclusion === 'INCLUDED')
+  const candidates = evaluated
+    .filter(e => e.inclusion === 'AUTO' && e.rejectionReasons.length === 0)
+    .sort((a, b) => b.rawWeight - a.rawWeight)
+    .slice(0, Math.max(0, criteria.maxComps - forced.length))
+  const selected = new Set([...forced, ...candidates])
+
+  const totalWeight = [...selected].reduce((sum, e) => sum + e.rawWeight, 0)
+  const comparables: CompEvaluation[] = evaluated.map(e => ({
+    id: e.comp.id,
+    selected: selected.has(e),
+    inclusion: e.inclusion,
+    rejectionReasons: e.rejectionReasons,
+    adjustments: e.adjustments,
+    adjustedPrice: e.adjustedPrice,
+    weight: selected.has(e) && totalWeight > 0 ? Math.round(e.rawWeight / totalWeight * 10000) / 10000 : 0,
+  }))
+
+  if (selected.size === 0) {
+    return { arv: null, arvLow: null, arvHigh: null, confidence: 0, compCount: 0, pricePerSquareFoot: null, comparables }
+  }
+
+  const picked = [...selected]
+  const arv = picked.reduce((sum, e) => sum + e.adjustedPrice * e.rawWeight, 0) / totalWeight
+  const variance = picked.reduce((sum, e) => sum + e.rawWeight * (e.adjustedPrice - arv) ** 2, 0) / totalWeight
+  const spread = Math.max(Math.sqrt(variance), arv * MIN_RANGE_PERCENT / 100) *
+    (picked.length < criteria.minComps ? criteria.minComps / picked.length : 1)
+
+  // Full marks need minComps comps agreeing within about 2.5%; confidence falls to zero at a 25% spread
+  const countFactor = Math.min(1, picked.length / criteria.minComps)
+  const agreement = Math.max(0, 1 - (Math.sqrt(variance) / arv - MIN_RANGE_PERCENT / 100) / 0.225)
+
+  return {
+    arv: round(arv),
+    arvLow: round(arv - spread),
+    arvHigh: round(arv + spread),
+    confidence: Math.round(100 * countFactor * Math.min(1, agreement)),
+    compCount: picked.length,
+    pricePerSquareFoot: subject.squareFootage ? Math.round(arv / subject.squareFootage * 100) / 100 : null,
+    comparables,
+  }
+}
@@ -0,0 +1,107 @@
+// LeadAI Pro - Property Market
+// Distances and bounding boxes for nearby lookups, and market statistics over a set of properties
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export interface MarketProperty {
+  listPrice: number | null
+  marketValue: number | null
+  monthlyRent: number | null
+  squareFootage: number | null
+  equityPercent: number | null
+  status: string
+  propertyType: string
+  occupancyStatus: string
+}
+
+export interface MarketInsights {
+  propertyCount: number
+  // Asking price, or market value for properties not listed, as in search
+  medianPrice: number | null
+  medianMarketValue: number | null
+  averagePricePerSquareFoot: number | null
+  medianMonthlyRent: number | null
+  // Median annual rent as a percentage of median price
+  grossRentYield: number | null
+  averageEquityPercent: number | null
+  vacantCount: number
+  byStatus: Record<string, number>
+  byPropertyType: Record<string, number>
+}
+
+const EARTH_RADIUS_MILES = 3958.8
+// Slightly under the true figure, so boxes err on the large side
+const MILES_PER_DEGREE = 69
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180
+
+const round = (value: number): number => Math.round(value * 100) / 100
+
+const known = (values: Array<number | null>): number[] => values.filter((value): value is number => value !== null && value !== undefined)
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+const average = (values: number[]): number | null =>
+  values.length === 0 ? null : round(values.reduce((sum, value) => sum + value, 0) / values.length)
+
+const countBy = (properties: MarketProperty[], key: 'status' | 'propertyType'): Record<string, number> => {
+  const counts: Record<string, number> = {}
+  for (const property of properties) {
+    counts[property[key]] = (counts[property[key]] || 0) + 1
+  }
+  return counts
+}
+
+// Great-circle distance in miles, to two decimals
+export const distanceMiles = (from: GeoPoint, to: GeoPoint): number => {
+  const latitudeDelta = toRadians(to.latitude - from.latitude)
+  const longitudeDelta = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(longitudeDelta / 2) ** 2
+  return round(2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a))))
+}
+
+// Coordinate ranges holding every point within radiusMiles of the center, so the database can
+// narrow candidates before exact distances are measured. Boxes are not split at the antimeridian.
+export const boundingBox = (center: GeoPoint, radiusMiles: number): { latitude: { gte: number; lte: number }; longitude: { gte: number; lte: number } } => {
+  const latitudeDelta = radiusMiles / MILES_PER_DEGREE
+  const cosine = Math.cos(toRadians(center.latitude))
+  const longitudeDelta = cosine > 0.000001 ? radiusMiles / (MILES_PER_DEGREE * cosine) : 180
+
+  return {
+    latitude: { gte: Math.max(-90, center.latitude - latitudeDelta), lte: Math.min(90, center.latitude + latitudeDelta) },
+    longitude: { gte: Math.max(-180, center.longitude - longitudeDelta), lte: Math.min(180, center.longitude + longitudeDelta) },
+  }
+}
+
+// Prices, rents, equity and mix of the given properties; figures with no data are null
+export const buildMarketInsights = (properties: MarketProperty[]): MarketInsights => {
+  const prices = known(properties.map(property => property.listPrice ?? property.marketValue))
+  const medianPrice = median(prices)
+  const medianMonthlyRent = median(known(properties.map(property => property.monthlyRent)))
+  const pricesPerSquareFoot = known(properties.map(property => {
+    const price = property.listPrice ?? property.marketValue
+    return price !== null && property.squareFootage ? price / property.squareFootage : null
+  }))
+
+  return {
+    propertyCount: properties.length,
+    medianPrice,
+    medianMarketValue: median(known(properties.map(property => property.marketValue))),
+    averagePricePerSquareFoot: average(pricesPerSquareFoot),
+    medianMonthlyRent,
+    grossRentYield: medianPrice && medianMonthlyRent !== null ? round(medianMonthlyRent * 12 / medianPrice * 100) : null,
+    averageEquityPercent: average(known(properties.map(property => property.equityPercent))),
+    vacantCount: properties.filter(property => property.occupancyStatus === 'VACANT').length,
+    byStatus: countBy(properties, 'status'),
+    byPropertyType: countBy(properties, 'propertyType'),
+  }
+}
@@ -0,0 +1,314 @@
+// LeadAI Pro - Property Search
+// Property and owner validation, equity, and the where clause, sort and facets for property search
+
+import { PROPERTY_TYPES, PropertyTypeValue } from './comparables'
+
+export const PROPERTY_STATUSES = [
+  'AVAILABLE', 'UNDER_CONTRACT', 'SOLD', 'OFF_MARKET', 'FORECLOSURE', 'PRE_FORECLOSURE', 'AUCTION', 'REO', 'WHOLESALE',
+] as const
+export type PropertyStatusValue = typeof PROPERTY_STATUSES[number]
+
+export const OCCUPANCY_STATUSES = ['OWNER_OCCUPIED', 'TENANT_OCCUPIED', 'VACANT', 'UNKNOWN'] as const
+export type OccupancyStatusValue = typeof OCCUPANCY_STATUSES[number]
+
+export const LISTING_STATUSES = ['ACTIVE', 'PENDING', 'SOLD', 'EXPIRED', 'WITHDRAWN', 'COMING_SOON'] as const
+
+export const PROPERTY_DATA_SOURCES = [
+  'MANUAL', 'PROPSTREAM', 'MLS', 'PUBLIC_RECORDS', 'DRIVING_FOR_DOLLARS', 'BIRD_DOG', 'WHOLESALER', 'AGENT_REFERRAL',
+] as const
+
+export const OWNER_TYPES = ['INDIVIDUAL', 'CORPORATION', 'LLC', 'TRUST', 'PARTNERSHIP', 'GOVERNMENT', 'OTHER'] as const
+export const OWNERSHIP_TYPES = ['FEE_SIMPLE', 'LIFE_ESTATE', 'LEASEHOLD', 'EASEMENT', 'OTHER'] as const
+
+export const PROPERTY_SORT_FIELDS = [
+  'updatedAt', 'createdAt', 'listPrice', 'marketValue', 'equity', 'equityPercent', 'bedrooms', 'bathrooms', 'squareFootage', 'yearBuilt',
+] as const
+export type PropertySortField = typeof PROPERTY_SORT_FIELDS[number]
+
+// Enum columns search results are counted by
+export const PROPERTY_FACETS = ['propertyType', 'status', 'occupancyStatus'] as const
+export type PropertyFacet = typeof PROPERTY_FACETS[number]
+
+export interface PropertyInput {
+  streetAddress: string
+  city: string
+  state: string
+  zipCode: string
+  county?: string | null
+  // Both or neither; nearby and reverse lookups only see properties that have them
+  latitude?: number | null
+  longitude?: number | null
+  propertyType: PropertyTypeValue
+  bedrooms?: number | null
+  bathrooms?: number | null
+  squareFootage?: number | null
+  lotSize?: number | null
+  yearBuilt?: number | null
+  listPrice?: number | null
+  marketValue?: number | null
+  taxAssessedValue?: number | null
+  annualTaxes?: number | null
+  monthlyRent?: number | null
+  mortgageBalance?: number | null
+  arv?: number | null
+  repairCosts?: number | null
+  acquisitionCosts?: number | null
+  holdingCosts?: number | null
+  status?: PropertyStatusValue
+  listingStatus?: typeof LISTING_STATUSES[number] | null
+  occupancyStatus?: OccupancyStatusValue
+  mls?: string | null
+  apn?: string | null
+  propStreamId?: string | null
+  dataSource?: typeof PROPERTY_DATA_SOURCES[number]
+}
+
+export interface PropertyOwnerInput {
+  firstName?: string | null
+  lastName?: string | null
+  companyName?: string | null
+  ownerType?: typeof OWNER_TYPES[number]
+  email?: string | null
+  phone?: string | null
+  mailingAddress?: string | null
+  mailingCity?: string | null
+  mailingState?: string | null
+  mailingZip?: string | null
+  ownershipType?: typeof OWNERSHIP_TYPES[number]
+  ownershipPercent?: number
+  acquisitionDate?: string | Date | null
+  acquisitionPrice?: number | null
+}
+
+export interface PropertySearchFilters {
+  // Matches street address, city, ZIP code, APN or MLS number
+  search?: string
+  city?: string
+  state?: string
+  zipCode?: string
+  // Asking price, or market value for properties not listed
+  minPrice?: number
+  maxPrice?: number
+  minBeds?: number
+  maxBeds?: number
+  minBaths?: number
+  minSquareFootage?: number
+  maxSquareFootage?: number
+  propertyTypes?: PropertyTypeValue[]
+  statuses?: PropertyStatusValue[]
+  occupancyStatuses?: OccupancyStatusValue[]
+  minEquity?: number
+  minEquityPercent?: number
+  hasEquity?: boolean
+}
+
+export const PROPERTY_MONEY_FIELDS = [
+  'listPrice', 'marketValue', 'taxAssessedValue', 'annualTaxes', 'monthlyRent', 'mortgageBalance', 'arv', 'repairCosts', 'acquisitionCosts', 'holdingCosts',
+] as const
+const COUNT_FIELDS = ['bedrooms', 'bathrooms', 'squareFootage', 'lotSize'] as const
+const TEXT_FIELDS = ['county', 'mls', 'apn', 'propStreamId'] as const
+
+const isAmount = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const isDate = (value: unknown): boolean =>
+  (typeof value === 'string' || value instanceof Date) && !Number.isNaN(new Date(value as string).getTime())
+
+// Validate a property; partial checks only the fields present (updates)
+export const validatePropertyInput = (input: Partial<PropertyInput>, partial: boolean = false): string[] => {
+  const errors: string[] = []
+
+  for (const key of ['streetAddress', 'city', 'state', 'zipCode'] as const) {
+    if ((!partial || input[key] !== undefined) && (typeof input[key] !== 'string' || !input[key]!.trim() || input[key]!.length > 255)) {
+      errors.push(`${key} is required (at most 255 characters)`)
+    }
+  }
+  if ((!partial || input.propertyType !== undefined) && !PROPERTY_TYPES.includes(input.propertyType as PropertyTypeValue)) {
+    errors.push(`propertyType must be one of: ${PROPERTY_TYPES.join(', ')}`)
+  }
+  if (input.status !== undefined && !PROPERTY_STATUSES.includes(input.status)) {
+    errors.push(`status must be one of: ${PROPERTY_STATUSES.join(', ')}`)
+  }
+  if (input.occupancyStatus !== undefined && !OCCUPANCY_STATUSES.includes(input.occupancyStatus)) {
+    errors.push(`occupancyStatus must be one of: ${OCCUPANCY_STATUSES.join(', ')}`)
+  }
+  if (input.listingStatus !== undefined && input.listingStatus !== null && !LISTING_STATUSES.includes(input.listingStatus)) {
+    errors.push(`listingStatus must be one of: ${LISTING_STATUSES.join(', ')}`)
+  }
+  if (input.dataSource !== undefined && !PROPERTY_DATA_SOURCES.includes(input.dataSource)) {
+    errors.push(`dataSource must be one of: ${PROPERTY_DATA_SOURCES.join(', ')}`)
+  }
+
+  for (const key of [...PROPERTY_MONEY_FIELDS, ...COUNT_FIELDS]) {
+    if (input[key] !== undefined && input[key] !== null && !isAmount(input[key])) {
+      errors.push(`${key} must be a non-negative number`)
+    }
+  }
+  if (input.yearBuilt !== undefined && input.yearBuilt !== null &&
+    !(Number.isInteger(input.yearBuilt) && input.yearBuilt >= 1600 && input.yearBuilt <= 2100)) {
+    errors.push('yearBuilt must be a year')
+  }
+  for (const [key, limit] of [['latitude', 90], ['longitude', 180]] as const) {
+    const value = input[key]
+    if (value !== undefined && value !== null && !(typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit)) {
+      errors.push(`${key} must be between -${limit} and ${limit}`)
+    }
+  }
+  if ((input.latitude === undefined || input.latitude === null) !== (input.longitude === undefined || input.longitude === null)) {
+    errors.push('latitude and longitude must be given together')
+  }
+  for (const key of TEXT_FIELDS) {
+    const value = input[key]
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > 255)) {
+      errors.push(`${key} must be text of at most 255 characters`)
+    }
+  }
+
+  return errors
+}
+
+export const validatePropertyOwnerInput = (input: Partial<PropertyOwnerInput>, partial: boolean = false): string[] => {
+  const errors: string[] = []
+
+  const named = [input.firstName, input.lastName, input.companyName].some(value => typeof value === 'string' && value.trim())
+  if (!partial && !named) {
+    errors.push('An owner needs a first name, last name or company name')
+  }
+  if (input.ownerType !== undefined && !OWNER_TYPES.includes(input.ownerType)) {
+    errors.push(`ownerType must be one of: ${OWNER_TYPES.join(', ')}`)
+  }
+  if (input.ownershipType !== undefined && !OWNERSHIP_TYPES.includes(input.ownershipType)) {
+    errors.push(`ownershipType must be one of: ${OWNERSHIP_TYPES.join(', ')}`)
+  }
+  if (input.ownershipPercent !== undefined &&
+    !(typeof input.ownershipPercent === 'number' && input.ownershipPercent > 0 && input.ownershipPercent <= 100)) {
+    errors.push('ownershipPercent must be between 0 and 100')
+  }
+  if (input.acquisitionPrice !== undefined && input.acquisitionPrice !== null && !isAmount(input.acquisitionPrice)) {
+    errors.push('acquisitionPrice must be a non-negative amount')
+  }
+  if (input.acquisitionDate !== undefined && input.acquisitionDate !== null && !isDate(input.acquisitionDate)) {
+    errors.push('acquisitionDate must be a date')
+  }
+  if (input.email !== undefined && input.email !== null && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+    errors.push('email must be an email address')
+  }
+
+  return errors
+}
+
+// Equity from market value and open loans; unknown unless both are known
+export const propertyEquity = (
+  marketValue: number | null | undefined,
+  mortgageBalance: number | null | undefined
+): { equity: number | null; equityPercent: number | null } => {
+  if (marketValue === null || marketValue === undefined || mortgageBalance === null || mortgageBalance === undefined) {
+    return { equity: null, equityPercent: null }
+  }
+  const equity = marketValue - mortgageBalance
+  return {
+    equity,
+    equityPercent: marketValue > 0 ? Math.round(equity / marketValue * 10000) / 100 : null,
+  }
+}
+
+const range = (min?: number, max?: number) =>
+  min === undefined && max === undefined ? undefined : { ...(min !== undefined && { gte: min }), ...(max !== undefined && { lte: max }) }
+
+// Prisma where clause for the organization's properties. Leaving out one facet gives the
+// clause its counts are taken under, so a selected type still shows the other types' counts.
+export const buildPropertyWhere = (organizationId: string, filters: PropertySearchFilters, without?: PropertyFacet): any => {
+  const and: any[] = []
+
+  if (filters.search) {
+    const contains = { contains: filters.search, mode: 'insensitive' }
+    and.push({
+      OR: [
+        { streetAddress: contains },
+        { city: contains },
+        { zipCode: { startsWith: filters.search } },
+        { apn: contains },
+        { mls: contains },
+      ],
+    })
+  }
+
+  const price = range(filters.minPrice, filters.maxPrice)
+  if (price) {
+    and.push({ OR: [{ listPrice: price }, { listPrice: null, marketValue: price }] })
+  }
+
+  const equity = [
+    filters.hasEquity && { equity: { gt: 0 } },
+    filters.minEquity !== undefined && { equity: { gte: filters.minEquity } },
+    filters.minEquityPercent !== undefined && { equityPercent: { gte: filters.minEquityPercent } },
+  ].filter(Boolean)
+
+  return {
+    organizationId,
+    ...(filters.city && { city: { equals: filters.city, mode: 'insensitive' } }),
+    ...(filters.state && { state: { equals: filters.state, mode: 'insensitive' } }),
+    ...(filters.zipCode && { zipCode: filters.zipCode }),
+    ...(range(filters.minBeds, filters.maxBeds) && { bedrooms: range(filters.minBeds, filters.maxBeds) }),
+    ...(filters.minBaths !== undefined && { bathrooms: { gte: filters.minBaths } }),
+    ...(range(filters.minSquareFootage, filters.maxSquareFootage) && {
+      squareFootage: range(filters.minSquareFootage, filters.maxSquareFootage),
+    }),
+    ...(without !== 'propertyType' && filters.propertyTypes?.length && { propertyType: { in: filters.propertyTypes } }),
+    ...(without !== 'status' && filters.statuses?.length && { status: { in: filters.statuses } }),
+    ...(without !== 'occupancyStatus' && filters.occupancyStatuses?.length && { occupancyStatus: { in: filters.occupancyStatuses } }),
+    ...((and.length > 0 || equity.length > 0) && { AND: [...and, ...equity] }),
+  }
+}
+
+// Order for a sort field; properties missing the value sort last either way
+export const buildPropertyOrderBy = (sortBy: PropertySortField = 'updatedAt', sortOrder: 'asc' | 'desc' = 'desc'): any[] => {
+  const required = sortBy === 'updatedAt' || sortBy === 'createdAt'
+  return [
+    required ? { [sortBy]: sortOrder } : { [sortBy]: { sort: sortOrder, nulls: 'last' } },
+    { id: 'asc' },
+  ]
+}
+
+// Facet counts keyed by value, every value listed even when zero
+export const buildFacetCounts = (facet: PropertyFacet, groups: Array<Record<string, any>>): Record<string, number> => {
+  const values: readonly string[] = facet === 'propertyType' ? PROPERTY_TYPES : facet === 'status' ? PROPERTY_STATUSES : OCCUPANCY_STATUSES
+  const counts: Record<string, number> = Object.fromEntries(values.map(value => [value, 0]))
+  for (const group of groups) {
+    counts[group[facet]] = group._count._all
+  }
+  return counts
+}
+
+const NUMBER_FILTERS = [
+  'minPrice', 'maxPrice', 'minBeds', 'maxBeds', 'minBaths', 'minSquareFootage', 'maxSquareFootage', 'minEquity', 'minEquityPercent',
+] as const
+
+export const validatePropertySearchFilters = (filters: Record<string, any>): string[] => {
+  const errors: string[] = []
+
+  for (const key of NUMBER_FILTERS) {
+    if (filters[key] !== undefined && !(typeof filters[key] === 'number' && Number.isFinite(filters[key]))) {
+      errors.push(`${key} must be a number`)
+    }
+  }
+  for (const key of ['search', 'city', 'state', 'zipCode'] as const) {
+    if (filters[key] !== undefined && typeof filters[key] !== 'string') errors.push(`${key} must be text`)
+  }
+  if (filters.hasEquity !== undefined && typeof filters.hasEquity !== 'boolean') {
+    errors.push('hasEquity must be true or false')
+  }
+
+  const lists: Array<[string, readonly string[]]> = [
+    ['propertyTypes', PROPERTY_TYPES],
+    ['statuses', PROPERTY_STATUSES],
+    ['occupancyStatuses', OCCUPANCY_STATUSES],
+  ]
+  for (const [key, allowed] of lists) {
+    const value = filters[key]
+    if (value !== undefined && !(Array.isArray(value) && value.every(item => allowed.includes(item)))) {
+      errors.push(`${key} must be a list of: ${allowed.join(', ')}`)
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,407 @@
+// LeadAI Pro - Property Service
+// Organization property records: CRUD, faceted search, owners, lead links, location lookups and market figures
+
+import { prisma } from '../database'
+import { Clock, systemClock } from '../followUps/followUpSchedule'
+import {
+  PropertyInput,
+  PropertyOwnerInput,
+  PropertySearchFilters,
+  PropertySortField,
+  PropertyFacet,
+  PROPERTY_FACETS,
+  PROPERTY_MONEY_FIELDS,
+  buildPropertyWhere,
+  buildPropertyOrderBy,
+  buildFacetCounts,
+  propertyEquity,
+} from './propertySearch'
+import { GeoPoint, MarketInsights, boundingBox, buildMarketInsights, distanceMiles } from './propertyMarket'
+
+export interface PropertySearchOptions {
+  page?: number
+  limit?: number
+  sortBy?: PropertySortField
+  sortOrder?: 'asc' | 'desc'
+}
+
+export interface LocationCount {
+  type: 'city' | 'zipCode'
+  name: string
+  city: string
+  state: string
+  propertyCount: number
+}
+
+export interface MarketArea {
+  city?: string
+  state?: string
+  zipCode?: string
+}
+
+// Error raised for requests on missing properties, owners or leads
+export class PropertyError extends Error {
+  constructor(message: string, public code: 'not_found' | 'invalid_state', public resource: string = 'Property') {
+    super(message)
+    this.name = 'PropertyError'
+  }
+}
+
+const PROPERTY_FIELDS = [
+  'streetAddress', 'city', 'state', 'zipCode', 'county', 'latitude', 'longitude', 'propertyType', 'bedrooms', 'bathrooms', 'squareFootage', 'lotSize', 'yearBuilt',
+  'status', 'listingStatus', 'occupancyStatus', 'mls', 'apn', 'propStreamId', 'dataSource', ...PROPERTY_MONEY_FIELDS,
+] as const
+
+const OWNER_FIELDS = [
+  'firstName', 'lastName', 'companyName', 'ownerType', 'email', 'phone', 'mailingAddress', 'mailingCity', 'mailingState', 'mailingZip',
+  'ownershipType', 'ownershipPercent', 'acquisitionPrice',
+] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Most candidates read from a bounding box before distances are measured
+const NEARBY_SCAN_LIMIT = 2000
+// Most properties market figures are computed over, most recently updated first
+const MARKET_SAMPLE_LIMIT = 5000
+
+const MARKET_FIELDS = {
+  listPrice: true, marketValue: true, monthlyRent: true, squareFootage: true, equityPercent: true, status: true, propertyType: true, occupancyStatus: true,
+}
+
+const LEAD_SUMMARY = { id: true, firstName: true, lastName: true, email: true, phone: true, status: true, propertyOwnerId: true }
+
+// Property columns from input, leaving out what was not given
+const propertyData = (input: Partial<PropertyInput>): Record<string, any> => {
+  const data: Record<string, any> = {}
+  for (const key of PROPERTY_FIELDS) {
+    if (input[key] !== undefined) data[key] = input[key]
+  }
+  return data
+}
+
+const ownerData = (input: Partial<PropertyOwnerInput>): Record<string, any> => {
+  const data: Record<string, any> = {}
+  for (const key of OWNER_FIELDS) {
+    if (input[key] !== undefined) data[key] = input[key]
+  }
+  if (input.acquisitionDate !== undefined) {
+    data.acquisitionDate = input.acquisitionDate === null ? null : new Date(input.acquisitionDate)
+  }
+  return data
+}
+
+export class PropertyService {
+  constructor(private clock: Clock = systemClock) {}
+
+  // One page of matching properties with counts per type, status and occupancy
+  async search(
+    organizationId: string,
+    filters: PropertySearchFilters = {},
+    options: PropertySearchOptions = {}
+  ): Promise<{ properties: any[]; pagination: { page: number; limit: number; total: number; pages: number }; facets: Record<PropertyFacet, Record<string, number>> }> {
+    const page = options.page || 1
+    const limit = Math.min(options.limit || 20, 100)
+    const where = buildPropertyWhere(organizationId, filters)
+
+    const [properties, total, ...facetGroups] = await Promise.all([
+      prisma.property.findMany({
+        where,
+        include: {
+          owners: { select: { id: true, firstName: true, lastName: true, companyName: true, ownerType: true } },
+          _count: { select: { leads: true, deals: true } },
+        },
+        orderBy: buildPropertyOrderBy(options.sortBy, options.sortOrder),
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.property.count({ where }),
+      ...PROPERTY_FACETS.map(facet => prisma.property.groupBy({
+        by: [facet],
+        where: buildPropertyWhere(organizationId, filters, facet),
+        _count: { _all: true },
+      })),
+    ])
+
+    const facets = Object.fromEntries(
+      PROPERTY_FACETS.map((facet, index) => [facet, buildFacetCounts(facet, facetGroups[index] as any[])])
+    ) as Record<PropertyFacet, Record<string, number>>
+
+    return { properties, pagination: { page, limit, total, pages: Math.ceil(total / limit) }, facets }
+  }
+
+  // Property with its owners, leads, deals and latest valuation
+  async get(organizationId: string, id: string): Promise<any | null> {
+    return prisma.property.findFirst({
+      where: { id, organizationId },
+      include: {
+        owners: { orderBy: { createdAt: 'asc' } },
+        leads: { select: LEAD_SUMMARY },
+        deals: { select: { id: true, dealName: true, dealType: true, status: true, purchasePrice: true, netProfit: true } },
+        propertyAnalysis: { orderBy: { createdAt: 'desc' }, take: 1 },
+        _count: { select: { comparables: true } },
+      },
+    })
+  }
+
+  // Create a property, optionally with its owners
+  async create(organizationId: string, input: PropertyInput & { owners?: PropertyOwnerInput[] }): Promise<any> {
+    const data = propertyData(input)
+    return prisma.property.create({
+      data: {
+        ...data,
+        ...propertyEquity(data.marketValue, data.mortgageBalance),
+        organizationId,
+        ...(input.owners?.length && { owners: { create: input.owners.map(ownerData) } }),
+      } as any,
+      include: { owners: true },
+    })
+  }
+
+  // Equity is recomputed whenever market value or mortgage balance changes
+  async update(organizationId: string, id: string, input: Partial<PropertyInput>): Promise<any> {
+    const property = await prisma.property.findFirst({
+      where: { id, organizationId },
+      select: { id: true, marketValue: true, mortgageBalance: true },
+    })
+    if (!property) {
+      throw new PropertyError('Property not found', 'not_found')
+    }
+
+    const data = propertyData(input)
+    const valueChanged = data.marketValue !== undefined || data.mortgageBalance !== undefined
+    return prisma.property.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(valueChanged && propertyEquity(
+          data.marketValue !== undefined ? data.marketValue : property.marketValue,
+          data.mortgageBalance !== undefined ? data.mortgageBalance : property.mortgageBalance
+        )),
+        lastUpdated: new Date(),
+      },
+    })
+  }
+
+  // Deleting a property takes its deals (and their ledgers) with it, so one with deals is refused
+  async delete(organizationId: string, id: string): Promise<void> {
+    const property = await prisma.property.findFirst({
+      where: { id, organizationId },
+      select: { id: true, _count: { select: { deals: true } } },
+    })
+    if (!property) {
+      throw new PropertyError('Property not found', 'not_found')
+    }
+    if (property._count.deals > 0) {
+      throw new PropertyError('Property has deals; delete or move them first', 'invalid_state')
+    }
+    await prisma.property.delete({ where: { id } })
+  }
+
+  async addOwner(organizationId: string, propertyId: string, input: PropertyOwnerInput): Promise<any> {
+    await this.requireProperty(organizationId, propertyId)
+    return prisma.propertyOwner.create({ data: { ...ownerData(input), propertyId } as any })
+  }
+
+  async updateOwner(organizationId: string, propertyId: string, ownerId: string, input: Partial<PropertyOwnerInput>): Promise<any> {
+    await this.requireOwner(organizationId, propertyId, ownerId)
+    return prisma.propertyOwner.update({ where: { id: ownerId }, data: ownerData(input) })
+  }
+
+  async removeOwner(organizationId: string, propertyId: string, ownerId: string): Promise<void> {
+    await this.requireOwner(organizationId, propertyId, ownerId)
+    await prisma.propertyOwner.delete({ where: { id: ownerId } })
+  }
+
+  // Tie a lead to the property and, when given, to the owner it represents
+  async linkLead(organizationId: string, propertyId: string, leadId: string, ownerId?: string | null): Promise<any> {
+    await this.requireProperty(organizationId, propertyId)
+    if (ownerId) {
+      await this.requireOwner(organizationId, propertyId, ownerId)
+    }
+
+    const { count } = await prisma.lead.updateMany({
+      where: { id: leadId, organizationId },
+      data: { propertyId, propertyOwnerId: ownerId || null },
+    })
+    if (count === 0) {
+      throw new PropertyError('Lead not found', 'not_found', 'Lead')
+    }
+    return prisma.lead.findUnique({ where: { id: leadId }, select: LEAD_SUMMARY })
+  }
+
+  async unlinkLead(organizationId: string, propertyId: string, leadId: string): Promise<void> {
+    const { count } = await prisma.lead.updateMany({
+      where: { id: leadId, organizationId, propertyId },
+      data: { propertyId: null, propertyOwnerId: null },
+    })
+    if (count === 0) {
+      throw new PropertyError('Lead is not linked to this property', 'not_found', 'Lead')
+    }
+  }
+
+  // Cities and ZIP codes of the organization's properties matching a query, busiest first
+  async searchLocations(organizationId: string, query: string, limit: number = 10): Promise<LocationCount[]> {
+    const [cities, zipCodes] = await Promise.all([
+      prisma.property.groupBy({
+        by: ['city', 'state'],
+        where: {
+          organizationId,
+          OR: [{ city: { startsWith: query, mode: 'insensitive' } }, { state: { equals: query, mode: 'insensitive' } }],
+        },
+        _count: { _all: true },
+      }),
+      prisma.property.groupBy({
+        by: ['zipCode', 'city', 'state'],
+        where: { organizationId, zipCode: { startsWith: query } },
+        _count: { _all: true },
+      }),
+    ])
+
+    return [
+      ...(cities as any[]).map(group => ({ type: 'city' as const, name: group.city, city: group.city, state: group.state, propertyCount: group._count._all })),
+      ...(zipCodes as any[]).map(group => ({ type: 'zipCode' as const, name: group.zipCode, city: group.city, state: group.state, propertyCount: group._count._all })),
+    ]
+      .sort((a, b) => b.propertyCount - a.propertyCount)
+      .slice(0, limit)
+  }
+
+  // Property counts by state, by city within a state, or by ZIP code within a city
+  async locationBreakdown(organizationId: string, scope: { state?: string; city?: string } = {}, limit: number = 20): Promise<Array<{ name: string; propertyCount: number }>> {
+    const level = scope.city ? 'zipCode' : scope.state ? 'city' : 'state'
+    const groups = await prisma.property.groupBy({
+      by: [level],
+      where: {
+        organizationId,
+        ...(scope.state && { state: { equals: scope.state, mode: 'insensitive' } }),
+        ...(scope.city && { city: { equals: scope.city, mode: 'insensitive' } }),
+      },
+      _count: { _all: true },
+    })
+
+    return (groups as any[])
+      .map(group => ({ name: group[level], propertyCount: group._count._all }))
+      .sort((a, b) => b.propertyCount - a.propertyCount || a.name.localeCompare(b.name))
+      .slice(0, limit)
+  }
+
+  async popularCities(organizationId: string, limit: number = 20): Promise<LocationCount[]> {
+    const groups = await prisma.property.groupBy({
+      by: ['city', 'state'],
+      where: { organizationId },
+      _count: { _all: true },
+    })
+
+    return (groups as any[])
+      .map(group => ({ type: 'city' as const, name: group.city, city: group.city, state: group.state, propertyCount: group._count._all }))
+      .sort((a, b) => b.propertyCount - a.propertyCount || a.name.localeCompare(b.name))
+      .slice(0, limit)
+  }
+
+  // Properties with coordinates within radiusMiles of a point, nearest first, each with its distance
+  async nearby(
+    organizationId: string,
+    center: GeoPoint,
+    radiusMiles: number,
+    filters: PropertySearchFilters = {},
+    limit: number = 20
+  ): Promise<any[]> {
+    const candidates = await prisma.property.findMany({
+      where: { ...buildPropertyWhere(organizationId, filters), ...boundingBox(center, radiusMiles) },
+      include: { owners: { select: { id: true, firstName: true, lastName: true, companyName: true, ownerType: true } } },
+      take: NEARBY_SCAN_LIMIT,
+    })
+
+    return (candidates as any[])
+      .map(property => ({ ...property, distance: distanceMiles(center, property) }))
+      .filter(property => property.distance <= radiusMiles)
+      .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+      .slice(0, Math.min(limit, 50))
+  }
+
+  // Cities with properties within radiusMiles of a point, nearest first
+  async nearbyLocations(organizationId: string, center: GeoPoint, radiusMiles: number, limit: number = 10): Promise<Array<LocationCount & { distance: number }>> {
+    const candidates = await prisma.property.findMany({
+      where: { organizationId, ...boundingBox(center, radiusMiles) },
+      select: { city: true, state: true, latitude: true, longitude: true },
+      take: NEARBY_SCAN_LIMIT,
+    })
+
+    const cities = new Map<string, LocationCount & { distance: number }>()
+    for (const property of candidates as any[]) {
+      const distance = distanceMiles(center, property)
+      if (distance > radiusMiles) continue
+
+      const key = `${property.city}|${property.state}`
+      const city = cities.get(key)
+      if (city) {
+        city.propertyCount++
+        city.distance = Math.min(city.distance, distance)
+      } else {
+        cities.set(key, { type: 'city', name: property.city, city: property.city, state: property.state, propertyCount: 1, distance })
+      }
+    }
+
+    return [...cities.values()]
+      .sort((a, b) => a.distance - b.distance || b.propertyCount - a.propertyCount)
+      .slice(0, limit)
+  }
+
+  // Address of the organization's property nearest a point, if one is within radiusMiles
+  async reverseLocation(organizationId: string, point: GeoPoint, radiusMiles: number = 1): Promise<any | null> {
+    const [nearest] = await this.nearby(organizationId, point, radiusMiles, {}, 1)
+    if (!nearest) return null
+
+    return {
+      propertyId: nearest.id,
+      streetAddress: nearest.streetAddress,
+      city: nearest.city,
+      state: nearest.state,
+      zipCode: nearest.zipCode,
+      county: nearest.county,
+      distance: nearest.distance,
+    }
+  }
+
+  // Prices, rents, equity and mix of the properties in a city, state or ZIP code
+  async marketInsights(organizationId: string, area: MarketArea): Promise<MarketInsights & { totalProperties: number }> {
+    const where = buildPropertyWhere(organizationId, area)
+    const [properties, totalProperties] = await Promise.all([
+      prisma.property.findMany({ where, select: MARKET_FIELDS, orderBy: { updatedAt: 'desc' }, take: MARKET_SAMPLE_LIMIT }),
+      prisma.property.count({ where }),
+    ])
+
+    return { ...buildMarketInsights(properties as any[]), totalProperties }
+  }
+
+  // Properties added in the last `days` that carry equity, largest equity share first
+  async trending(organizationId: string, days: number = 30, limit: number = 20): Promise<any[]> {
+    return prisma.property.findMany({
+      where: {
+        ...buildPropertyWhere(organizationId, { hasEquity: true }),
+        createdAt: { gte: new Date(this.clock.now().getTime() - days * DAY_MS) },
+      },
+      include: { owners: { select: { id: true, firstName: true, lastName: true, companyName: true, ownerType: true } } },
+      orderBy: buildPropertyOrderBy('equityPercent', 'desc'),
+      take: Math.min(limit, 50),
+    })
+  }
+
+  private async requireProperty(organizationId: string, propertyId: string): Promise<void> {
+    const property = await prisma.property.findFirst({ where: { id: propertyId, organizationId }, select: { id: true } })
+    if (!property) {
+      throw new PropertyError('Property not found', 'not_found')
+    }
+  }
+
+  private async requireOwner(organizationId: string, propertyId: string, ownerId: string): Promise<void> {
+    const owner = await prisma.propertyOwner.findFirst({
+      where: { id: ownerId, propertyId, property: { organizationId } },
+      select: { id: true },
+    })
+    if (!owner) {
+      throw new PropertyError('Property owner not found', 'not_found', 'Property owner')
+    }
+  }
+}
+
+export const propertyService = new PropertyService()
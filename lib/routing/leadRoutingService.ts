@@ -0,0 +1,282 @@
+// LeadAI Pro - Lead Routing Service
+// Auto-assigns new and imported leads by organization routing rules and logs each decision
+
+import { prisma } from '../database'
+import { IntelligentRoutingEngine, SalesRepProfile } from '../ai/routingEngine'
+import { buildSalesRepProfiles, countOpenLeads } from './repProfiles'
+import {
+  RoutingConfig,
+  RoutingCandidate,
+  RoutingStrategy,
+  RoutableLead,
+  DEFAULT_ROUTING_CONFIG,
+  planRouting,
+  pickRoundRobin,
+  pickWeighted,
+} from './routingRules'
+
+// Weighted routing balances assignments made within this window
+const WEIGHTING_WINDOW_DAYS = 30
+
+export type AssignmentTrigger = 'create' | 'import' | 'manual' | 'reassign'
+
+export interface AssignmentDecision {
+  assignedTo: string | null
+  ruleId: string | null
+  strategy: RoutingStrategy | 'default' | 'manual'
+  reasons: string[]
+}
+
+export interface AssignmentLogEntry {
+  leadId: string
+  organizationId: string
+  decision: AssignmentDecision
+  trigger: AssignmentTrigger
+  previousAssignee?: string | null
+  assignedBy?: string | null
+}
+
+export interface AssignmentLogQuery {
+  leadId?: string
+  userId?: string
+  limit?: number
+}
+
+const engine = new IntelligentRoutingEngine()
+
+// Routing state for one organization, kept current across several decisions (e.g. an import)
+export class RoutingSession {
+  private profiles: SalesRepProfile[] | null = null
+
+  constructor(
+    private organizationId: string,
+    public readonly config: RoutingConfig,
+    private candidates: RoutingCandidate[]
+  ) {}
+
+  async decide(
+    lead: RoutableLead & { predictedValue?: any },
+    defaultAssignee: string | null = null
+  ): Promise<AssignmentDecision> {
+    const { step, reasons } = planRouting(lead, this.config, this.candidates)
+
+    if (!step) {
+      return {
+        assignedTo: defaultAssignee,
+        ruleId: null,
+        strategy: 'default',
+        reasons: [
+          ...(reasons.length > 0 ? reasons : ['No routing rule matched']),
+          defaultAssignee ? 'Assigned to the default owner' : 'Left unassigned',
+        ],
+      }
+    }
+
+    let chosen: RoutingCandidate
+    const decisionReasons = [...step.reasons]
+
+    switch (step.strategy) {
+      case 'weighted':
+        chosen = pickWeighted(step.eligible)
+        decisionReasons.push(`Weighted: ${chosen.name} had ${chosen.recentAssignments} recent leads at weight ${chosen.weight}`)
+        break
+      case 'best_match': {
+        const profiles = await this.getProfiles(step.eligible)
+        const recommendation = await engine.findOptimalAssignment(lead as any, profiles, {
+          leadProfile: {
+            source: lead.source || undefined,
+            dealSize: lead.predictedValue ? Number(lead.predictedValue) : undefined,
+          },
+          constraints: {},
+        })
+        chosen = step.eligible.find(c => c.userId === recommendation.primaryAssignment.repId) || pickRoundRobin(step.eligible)
+        decisionReasons.push(`Best match: ${chosen.name}`, ...recommendation.primaryAssignment.reasoning)
+        break
+      }
+      default:
+        chosen = pickRoundRobin(step.eligible)
+        decisionReasons.push(`Round robin: ${chosen.name} was next in turn`)
+    }
+
+    // Later decisions in this session see the new assignment
+    chosen.openLeads++
+    chosen.recentAssignments++
+    chosen.lastAssignedAt = new Date()
+
+    return {
+      assignedTo: chosen.userId,
+      ruleId: step.rule?.id || null,
+      strategy: step.strategy,
+      reasons: decisionReasons,
+    }
+  }
+
+  // Rep profiles are loaded once per session; workload follows the session's counts
+  private async getProfiles(eligible: RoutingCandidate[]): Promise<SalesRepProfile[]> {
+    if (!this.profiles) {
+      this.profiles = await buildSalesRepProfiles(
+        this.organizationId,
+        this.config,
+        this.candidates.map(c => c.userId)
+      )
+    }
+
+    return this.profiles
+      .filter(profile => eligible.some(c => c.userId === profile.user.id))
+      .map(profile => {
+        const candidate = eligible.find(c => c.userId === profile.user.id)!
+        return { ...profile, workload: { ...profile.workload, currentLeads: candidate.openLeads } }
+      })
+  }
+}
+
+export class LeadRoutingService {
+  async getConfig(organizationId: string): Promise<RoutingConfig> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const stored = (organization?.settings as any)?.routing
+    return stored ? { ...DEFAULT_ROUTING_CONFIG, ...stored } : DEFAULT_ROUTING_CONFIG
+  }
+
+  async saveConfig(organizationId: string, config: RoutingConfig, userId: string): Promise<RoutingConfig> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    })
+
+    const settings = (organization?.settings as any) || {}
+    const stored: RoutingConfig = {
+      enabled: config.enabled,
+      rules: config.rules || [],
+      fallback: config.fallback || null,
+      defaultCapacity: config.defaultCapacity,
+      reps: config.reps || {},
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { settings: { ...settings, routing: stored } },
+    })
+
+    return stored
+  }
+
+  // Current routing state for every user in the organization
+  async loadCandidates(organizationId: string, config: RoutingConfig): Promise<RoutingCandidate[]> {
+    const windowStart = new Date(Date.now() - WEIGHTING_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+    const [users, openLeads, recent] = await Promise.all([
+      prisma.user.findMany({
+        where: { organizationId },
+        select: { id: true, fullName: true, role: true },
+      }),
+      countOpenLeads(organizationId),
+      prisma.leadAssignmentLog.groupBy({
+        by: ['assignedTo'],
+        where: { organizationId, assignedTo: { not: null }, createdAt: { gte: windowStart } },
+        _count: { _all: true },
+        _max: { createdAt: true },
+      }),
+    ])
+
+    return (users as any[]).map(user => {
+      const settings = config.reps[user.id] || {}
+      const history = (recent as any[]).find(r => r.assignedTo === user.id)
+
+      return {
+        userId: user.id,
+        name: user.fullName,
+        isSalesRep: user.role === 'sales_rep',
+        openLeads: openLeads.get(user.id) || 0,
+        capacity: settings.capacity ?? config.defaultCapacity,
+        weight: settings.weight ?? 1,
+        paused: settings.paused ?? false,
+        lastAssignedAt: history?._max.createdAt || null,
+        recentAssignments: history?._count._all || 0,
+      }
+    })
+  }
+
+  // Start routing for an organization; null when auto-assignment is turned off
+  async startSession(organizationId: string): Promise<RoutingSession | null> {
+    const config = await this.getConfig(organizationId)
+    if (!config.enabled) {
+      return null
+    }
+
+    return new RoutingSession(organizationId, config, await this.loadCandidates(organizationId, config))
+  }
+
+  async recordAssignment(entry: AssignmentLogEntry) {
+    return prisma.leadAssignmentLog.create({
+      data: {
+        leadId: entry.leadId,
+        organizationId: entry.organizationId,
+        assignedTo: entry.decision.assignedTo,
+        previousAssignee: entry.previousAssignee ?? null,
+        trigger: entry.trigger,
+        ruleId: entry.decision.ruleId,
+        strategy: entry.decision.strategy,
+        reasons: entry.decision.reasons,
+        assignedBy: entry.assignedBy ?? null,
+      },
+    })
+  }
+
+  // Run an existing lead through the routing rules again; null when routing is off
+  async reassignLead(leadId: string, organizationId: string, userId: string) {
+    const lead = await prisma.lead.findUnique({
+      where: { id: leadId },
+      select: { id: true, assignedTo: true, leadType: true, source: true, address: true, predictedValue: true },
+    })
+    if (!lead) {
+      return null
+    }
+
+    const session = await this.startSession(organizationId)
+    if (!session) {
+      return null
+    }
+
+    const decision = await session.decide(lead as any, lead.assignedTo)
+    const updated = await prisma.lead.update({
+      where: { id: leadId },
+      data: { assignedTo: decision.assignedTo, updatedAt: new Date() },
+      include: {
+        assignedUser: {
+          select: { id: true, fullName: true, email: true, avatarUrl: true }
+        }
+      }
+    })
+
+    await this.recordAssignment({
+      leadId,
+      organizationId,
+      decision,
+      trigger: 'reassign',
+      previousAssignee: lead.assignedTo,
+      assignedBy: userId,
+    })
+
+    return { lead: updated, decision }
+  }
+
+  async getAssignmentLog(organizationId: string, query: AssignmentLogQuery = {}) {
+    return prisma.leadAssignmentLog.findMany({
+      where: {
+        organizationId,
+        ...(query.leadId && { leadId: query.leadId }),
+        ...(query.userId && { assignedTo: query.userId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(query.limit || 50, 200),
+    })
+  }
+}
+
+export const leadRoutingService = new LeadRoutingService()
@@ -0,0 +1,132 @@
+// LeadAI Pro - Sales Rep Profiles
+// Builds routing engine rep profiles from users, their leads and their activities
+
+import { prisma } from '../database'
+import { SalesRepProfile } from '../ai/routingEngine'
+import { RoutingConfig, DEFAULT_ROUTING_CONFIG } from './routingRules'
+
+// Performance is measured over this window
+const PERFORMANCE_WINDOW_DAYS = 90
+
+// Leads sampled per organization for first-response times
+const RESPONSE_SAMPLE_SIZE = 500
+
+// Nothing records customer satisfaction yet, so every rep gets the same neutral value
+const NEUTRAL_SATISFACTION = 0.75
+
+const OPEN_LEAD_FILTER = { notIn: ['closed_won', 'closed_lost', 'unqualified'] as any }
+
+const round = (value: number, places: number = 2): number => {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+// Open (not closed or unqualified) leads per assigned rep
+export const countOpenLeads = async (organizationId: string): Promise<Map<string, number>> => {
+  const groups = await prisma.lead.groupBy({
+    by: ['assignedTo'],
+    where: { organizationId, assignedTo: { not: null }, status: OPEN_LEAD_FILTER },
+    _count: { _all: true },
+  })
+
+  return new Map((groups as any[]).map(g => [g.assignedTo, g._count._all]))
+}
+
+export const buildSalesRepProfiles = async (
+  organizationId: string,
+  config: RoutingConfig = DEFAULT_ROUTING_CONFIG,
+  userIds?: string[]
+): Promise<SalesRepProfile[]> => {
+  const since = new Date(Date.now() - PERFORMANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId,
+      ...(userIds ? { id: { in: userIds } } : { role: 'sales_rep' as any }),
+    },
+  })
+  const ids = users.map(u => u.id)
+
+  const [openLeads, closed, wonByType, wonBySource, recentLeads] = await Promise.all([
+    countOpenLeads(organizationId),
+    prisma.lead.groupBy({
+      by: ['assignedTo', 'status'],
+      where: {
+        organizationId,
+        assignedTo: { in: ids },
+        status: { in: ['closed_won', 'closed_lost'] as any },
+        updatedAt: { gte: since },
+      },
+      _count: { _all: true },
+      _avg: { predictedValue: true },
+    }),
+    prisma.lead.groupBy({
+      by: ['assignedTo', 'leadType'],
+      where: { organizationId, assignedTo: { in: ids }, status: 'closed_won' as any },
+      _count: { _all: true },
+    }),
+    prisma.lead.groupBy({
+      by: ['assignedTo', 'source'],
+      where: { organizationId, assignedTo: { in: ids }, status: 'closed_won' as any },
+      _count: { _all: true },
+    }),
+    // First activity on each recently created lead approximates response time
+    prisma.lead.findMany({
+      where: { organizationId, assignedTo: { in: ids }, createdAt: { gte: since } },
+      orderBy: { createdAt: 'desc' },
+      take: RESPONSE_SAMPLE_SIZE,
+      select: {
+        assignedTo: true,
+        createdAt: true,
+        activities: { orderBy: { createdAt: 'asc' }, take: 1, select: { createdAt: true } },
+      },
+    }),
+  ])
+
+  return users.map(user => {
+    const settings = config.reps[user.id] || {}
+    const preferences = (user.preferences as any) || {}
+
+    const won = (closed as any[]).find(g => g.assignedTo === user.id && g.status === 'closed_won')
+    const lost = (closed as any[]).find(g => g.assignedTo === user.id && g.status === 'closed_lost')
+    const wonCount = won?._count._all || 0
+    const closedCount = wonCount + (lost?._count._all || 0)
+
+    const responseHours = (recentLeads as any[])
+      .filter(l => l.assignedTo === user.id && l.activities.length > 0)
+      .map(l => (l.activities[0].createdAt.getTime() - l.createdAt.getTime()) / (60 * 60 * 1000))
+    const responseTime = responseHours.length > 0
+      ? responseHours.reduce((sum, h) => sum + h, 0) / responseHours.length
+      : 24
+
+    const topBy = (groups: any[], key: string): string[] => groups
+      .filter(g => g.assignedTo === user.id && g[key])
+      .sort((a, b) => b._count._all - a._count._all)
+      .slice(0, 3)
+      .map(g => g[key])
+
+    const currentLeads = openLeads.get(user.id) || 0
+    const capacity = settings.capacity ?? config.defaultCapacity
+
+    return {
+      user,
+      expertise: [...new Set([...topBy(wonByType as any[], 'leadType'), ...(preferences.expertise || [])])],
+      performance: {
+        conversionRate: closedCount > 0 ? round(wonCount / closedCount) : 0,
+        averageDealSize: Number(won?._avg.predictedValue || 0),
+        responseTime: round(responseTime, 1),
+        customerSatisfaction: NEUTRAL_SATISFACTION,
+      },
+      workload: {
+        currentLeads,
+        capacity,
+        availability: settings.paused ? 'unavailable' : currentLeads >= capacity ? 'busy' : 'available',
+      },
+      preferences: {
+        industries: preferences.industries || [],
+        leadSources: [...new Set([...topBy(wonBySource as any[], 'source'), ...(preferences.leadSources || [])])],
+        dealSizes: preferences.dealSizes || [],
+      },
+    }
+  })
+}
@@ -0,0 +1,274 @@
+// LeadAI Pro - Lead Routing Rules
+// Organization auto-assignment rules stored in Organization.settings.routing
+
+import { REAL_ESTATE_LEAD_TYPES } from '../leads/leadFields'
+
+export type RoutingStrategy = 'round_robin' | 'weighted' | 'best_match'
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = ['round_robin', 'weighted', 'best_match']
+
+// Every condition that is set has to match; an empty condition list matches every lead
+export interface RoutingConditions {
+  leadTypes?: string[]
+  // Five-digit ZIP codes, or prefixes ending in "*" ("303*")
+  zipCodes?: string[]
+  counties?: string[]
+  states?: string[]
+  sources?: string[]
+}
+
+export interface RoutingRule {
+  id: string
+  name: string
+  conditions: RoutingConditions
+  // Reps this rule assigns to; empty means every sales rep in the organization
+  userIds: string[]
+  strategy: RoutingStrategy
+}
+
+export interface RepRoutingSettings {
+  // Relative share of leads under the weighted strategy
+  weight?: number
+  // Open leads the rep can hold before routing skips them
+  capacity?: number
+  paused?: boolean
+}
+
+export interface RoutingConfig {
+  enabled: boolean
+  // Checked in order; the first matching rule with an eligible rep wins
+  rules: RoutingRule[]
+  // Used when no rule matches or every matching rule's reps are at capacity
+  fallback: { strategy: RoutingStrategy; userIds: string[] } | null
+  defaultCapacity: number
+  reps: Record<string, RepRoutingSettings>
+  updatedAt?: string
+  updatedBy?: string
+}
+
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  enabled: false,
+  rules: [],
+  fallback: null,
+  defaultCapacity: 50,
+  reps: {},
+}
+
+// A rep's routing state at the time of a decision
+export interface RoutingCandidate {
+  userId: string
+  name: string
+  isSalesRep: boolean
+  openLeads: number
+  capacity: number
+  weight: number
+  paused: boolean
+  lastAssignedAt: Date | null
+  // Leads routed to the rep within the weighting window
+  recentAssignments: number
+}
+
+export interface RoutableLead {
+  leadType?: string | null
+  source?: string | null
+  address?: any
+}
+
+export interface RoutingStep {
+  rule: RoutingRule | null
+  strategy: RoutingStrategy
+  eligible: RoutingCandidate[]
+  reasons: string[]
+}
+
+const normalizeZip = (zip: unknown): string => String(zip ?? '').replace(/\D/g, '').slice(0, 5)
+
+const normalizeText = (value: unknown): string => String(value ?? '').trim().toLowerCase()
+
+// Match a lead against a rule, returning why it matched or null when it does not
+export const matchRoutingRule = (rule: RoutingRule, lead: RoutableLead): string[] | null => {
+  const { leadTypes, zipCodes, counties, states, sources } = rule.conditions || {}
+  const address = lead.address && typeof lead.address === 'object' ? lead.address : {}
+  const reasons: string[] = []
+
+  if (leadTypes?.length) {
+    if (!lead.leadType || !leadTypes.includes(lead.leadType)) return null
+    reasons.push(`lead type ${lead.leadType}`)
+  }
+
+  if (zipCodes?.length) {
+    const zip = normalizeZip(address.zipCode)
+    const match = zip && zipCodes.find(pattern =>
+      pattern.endsWith('*') ? zip.startsWith(pattern.slice(0, -1)) : zip === normalizeZip(pattern)
+    )
+    if (!match) return null
+    reasons.push(`ZIP ${zip} matches ${match}`)
+  }
+
+  if (counties?.length) {
+    const county = normalizeText(address.county).replace(/\s+county$/, '')
+    if (!county || !counties.some(c => normalizeText(c).replace(/\s+county$/, '') === county)) return null
+    reasons.push(`county ${address.county}`)
+  }
+
+  if (states?.length) {
+    const state = normalizeText(address.state)
+    if (!state || !states.some(s => normalizeText(s) === state)) return null
+    reasons.push(`state ${address.state}`)
+  }
+
+  if (sources?.length) {
+    const source = normalizeText(lead.source)
+    if (!source || !sources.some(s => normalizeText(s) === source)) return null
+    reasons.push(`source ${lead.source}`)
+  }
+
+  return reasons.length > 0 ? reasons : ['matches every lead']
+}
+
+// Split a rule's reps into those who can take a lead and those skipped (with why)
+export const filterEligible = (
+  userIds: string[],
+  candidates: RoutingCandidate[]
+): { eligible: RoutingCandidate[]; skipped: string[] } => {
+  const pool = userIds.length > 0
+    ? userIds.map(id => candidates.find(c => c.userId === id)).filter((c): c is RoutingCandidate => !!c)
+    : candidates.filter(c => c.isSalesRep)
+
+  const eligible: RoutingCandidate[] = []
+  const skipped: string[] = []
+
+  for (const candidate of pool) {
+    if (candidate.paused) {
+      skipped.push(`${candidate.name} is paused`)
+    } else if (candidate.openLeads >= candidate.capacity) {
+      skipped.push(`${candidate.name} is at capacity (${candidate.openLeads}/${candidate.capacity})`)
+    } else {
+      eligible.push(candidate)
+    }
+  }
+
+  return { eligible, skipped }
+}
+
+// Find the first rule (or the fallback) that matches the lead and has an eligible rep
+export const planRouting = (
+  lead: RoutableLead,
+  config: RoutingConfig,
+  candidates: RoutingCandidate[]
+): { step: RoutingStep | null; reasons: string[] } => {
+  const reasons: string[] = []
+
+  for (const rule of config.rules) {
+    const matched = matchRoutingRule(rule, lead)
+    if (!matched) continue
+
+    const { eligible, skipped } = filterEligible(rule.userIds, candidates)
+    if (eligible.length === 0) {
+      reasons.push(`Rule "${rule.name}" matched but no rep was eligible${skipped.length ? `: ${skipped.join('; ')}` : ''}`)
+      continue
+    }
+
+    reasons.push(`Rule "${rule.name}" matched on ${matched.join(', ')}`, ...skipped)
+    return { step: { rule, strategy: rule.strategy, eligible, reasons }, reasons }
+  }
+
+  if (config.fallback) {
+    const { eligible, skipped } = filterEligible(config.fallback.userIds, candidates)
+    if (eligible.length > 0) {
+      reasons.push(config.rules.length > 0 ? 'No rule could assign the lead; used the fallback' : 'Used the fallback', ...skipped)
+      return { step: { rule: null, strategy: config.fallback.strategy, eligible, reasons }, reasons }
+    }
+    reasons.push(`Fallback had no eligible rep${skipped.length ? `: ${skipped.join('; ')}` : ''}`)
+  }
+
+  return { step: null, reasons }
+}
+
+// Next rep in turn: whoever has gone longest without a lead
+export const pickRoundRobin = (eligible: RoutingCandidate[]): RoutingCandidate => {
+  return [...eligible].sort((a, b) => {
+    const aTime = a.lastAssignedAt?.getTime() ?? 0
+    const bTime = b.lastAssignedAt?.getTime() ?? 0
+    return aTime - bTime || a.userId.localeCompare(b.userId)
+  })[0]
+}
+
+// Rep furthest below their weighted share of recent leads
+export const pickWeighted = (eligible: RoutingCandidate[]): RoutingCandidate => {
+  const share = (c: RoutingCandidate) => c.recentAssignments / Math.max(c.weight, 0.01)
+
+  return [...eligible].sort((a, b) =>
+    share(a) - share(b) || b.weight - a.weight || a.userId.localeCompare(b.userId)
+  )[0]
+}
+
+// Validate a routing config, returning human-readable problems
+export const validateRoutingConfig = (config: RoutingConfig, userIds: string[]): string[] => {
+  const errors: string[] = []
+  const known = new Set(userIds)
+  const ruleIds = new Set<string>()
+
+  if (typeof config.defaultCapacity !== 'number' || config.defaultCapacity < 1) {
+    errors.push('defaultCapacity must be a positive number')
+  }
+
+  const checkUsers = (label: string, ids: unknown) => {
+    if (!Array.isArray(ids)) {
+      errors.push(`${label}: userIds must be a list`)
+      return
+    }
+    for (const id of ids) {
+      if (!known.has(id)) errors.push(`${label}: unknown user "${id}"`)
+    }
+  }
+
+  ;(config.rules || []).forEach((rule, index) => {
+    const label = `rules[${index}]`
+
+    if (!rule.id) {
+      errors.push(`${label}: id is required`)
+    } else if (ruleIds.has(rule.id)) {
+      errors.push(`${label}: duplicate rule id "${rule.id}"`)
+    } else {
+      ruleIds.add(rule.id)
+    }
+    if (!rule.name) {
+      errors.push(`${label}: name is required`)
+    }
+    if (!ROUTING_STRATEGIES.includes(rule.strategy)) {
+      errors.push(`${label}: strategy must be one of: ${ROUTING_STRATEGIES.join(', ')}`)
+    }
+    checkUsers(label, rule.userIds)
+
+    const invalidTypes = (rule.conditions?.leadTypes || []).filter(t => !(REAL_ESTATE_LEAD_TYPES as readonly string[]).includes(t))
+    if (invalidTypes.length > 0) {
+      errors.push(`${label}: unknown lead types ${invalidTypes.join(', ')}`)
+    }
+    const invalidZips = (rule.conditions?.zipCodes || []).filter(z => !/^\d{1,5}\*$|^\d{5}$/.test(z))
+    if (invalidZips.length > 0) {
+      errors.push(`${label}: ZIP codes must be 5 digits or a prefix ending in * (${invalidZips.join(', ')})`)
+    }
+  })
+
+  if (config.fallback) {
+    if (!ROUTING_STRATEGIES.includes(config.fallback.strategy)) {
+      errors.push(`fallback: strategy must be one of: ${ROUTING_STRATEGIES.join(', ')}`)
+    }
+    checkUsers('fallback', config.fallback.userIds)
+  }
+
+  for (const [userId, settings] of Object.entries(config.reps || {})) {
+    if (!known.has(userId)) {
+      errors.push(`reps: unknown user "${userId}"`)
+    }
+    if (settings.weight !== undefined && (typeof settings.weight !== 'number' || settings.weight <= 0)) {
+      errors.push(`reps.${userId}: weight must be a positive number`)
+    }
+    if (settings.capacity !== undefined && (typeof settings.capacity !== 'number' || settings.capacity < 0)) {
+      errors.push(`reps.${userId}: capacity must be zero or more`)
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,268 @@
+// LeadAI Pro - Lead Scoring Service
+// Builds lead profiles, persists explainable LeadScore rows and rescoring batches
+
+import { prisma } from '../database'
+import {
+  leadScoringEngine,
+  ScoringFactors,
+  ScoringResult,
+  LeadProfile,
+  AppliedScoringRule,
+  DEFAULT_SCORING_WEIGHTS,
+  SCORING_MODEL_VERSION,
+} from '../ai/leadScoring'
+import { getScoringProfile, StoredScoringProfile } from './scoringProfiles'
+
+// How much history feeds a score
+const PROFILE_ACTIVITY_LIMIT = 100
+const PROFILE_CONVERSATION_LIMIT = 50
+
+// Leads in these statuses are left out of batch rescoring
+const CLOSED_STATUSES = ['closed_won', 'closed_lost', 'unqualified']
+
+const RESCORE_BATCH_SIZE = 100
+
+export type ScoreTrigger = 'manual' | 'batch' | 'activity' | 'import'
+
+export interface FactorBreakdown {
+  factor: keyof ScoringFactors
+  score: number
+  weight: number
+  contribution: number
+  previousScore: number | null
+  delta: number | null
+}
+
+export interface LeadScoreOutcome {
+  leadId: string
+  scoreId: string
+  score: number
+  confidence: number
+  modelVersion: string
+  previousScore: number | null
+  delta: number | null
+  factors: FactorBreakdown[]
+  appliedRules: AppliedScoringRule[]
+  explanation: string[]
+  recommendations: string[]
+  riskFactors: string[]
+  nextBestActions: string[]
+  scoredAt: Date
+}
+
+export interface RescoreOptions {
+  // Only rescore leads whose latest score is older than this
+  staleAfterHours?: number
+  batchSize?: number
+}
+
+export interface RescoreSummary {
+  organizationId: string
+  scored: number
+  failed: number
+  changed: number
+  averageDelta: number
+  failures: Array<{ leadId: string; error: string }>
+  startedAt: Date
+  finishedAt: Date
+}
+
+const FACTOR_COLUMNS: Record<keyof ScoringFactors, string> = {
+  demographic: 'demographicScore',
+  behavioral: 'behavioralScore',
+  temporal: 'temporalScore',
+  conversational: 'conversationalScore',
+}
+
+// Break a result into weighted factor contributions, compared with the previous LeadScore row
+export const buildFactorBreakdown = (
+  factors: ScoringFactors,
+  previous?: Record<string, any> | null,
+  weights: ScoringFactors = DEFAULT_SCORING_WEIGHTS
+): FactorBreakdown[] => {
+  return (Object.keys(FACTOR_COLUMNS) as Array<keyof ScoringFactors>).map(factor => {
+    const score = Math.round(factors[factor])
+    const previousScore = previous?.[FACTOR_COLUMNS[factor]] ?? null
+
+    return {
+      factor,
+      score,
+      weight: weights[factor],
+      contribution: Math.round(score * weights[factor] * 10) / 10,
+      previousScore,
+      delta: previousScore === null ? null : score - previousScore,
+    }
+  })
+}
+
+// Lead Scoring Service
+export class LeadScoringService {
+  // Load a lead with the activity and conversation history the engine scores on
+  async buildProfile(leadId: string): Promise<LeadProfile | null> {
+    const lead = await prisma.lead.findUnique({
+      where: { id: leadId },
+      include: {
+        activities: {
+          orderBy: { createdAt: 'desc' },
+          take: PROFILE_ACTIVITY_LIMIT,
+        },
+        conversations: {
+          orderBy: { createdAt: 'desc' },
+          take: PROFILE_CONVERSATION_LIMIT,
+        },
+      },
+    })
+
+    if (!lead) return null
+
+    const { activities = [], conversations = [], ...leadFields } = lead as any
+    return { lead: leadFields, activities, conversations }
+  }
+
+  // Score a lead with its organization's scoring profile, persist the LeadScore row and
+  // update the lead's current score
+  async scoreLead(
+    leadId: string,
+    trigger: ScoreTrigger = 'manual',
+    scoringProfile?: StoredScoringProfile
+  ): Promise<LeadScoreOutcome | null> {
+    const profile = await this.buildProfile(leadId)
+    if (!profile) return null
+
+    profile.scoringProfile = scoringProfile || await getScoringProfile(profile.lead.organizationId)
+
+    const result = await leadScoringEngine.calculateScore(profile)
+    const previous = await prisma.leadScore.findFirst({
+      where: { leadId },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return this.persist(leadId, result, previous, trigger, profile.scoringProfile)
+  }
+
+  // Rescore every open lead in an organization, in batches
+  async rescoreOrganization(organizationId: string, options: RescoreOptions = {}): Promise<RescoreSummary> {
+    const batchSize = options.batchSize || RESCORE_BATCH_SIZE
+    const staleBefore = options.staleAfterHours
+      ? new Date(Date.now() - options.staleAfterHours * 60 * 60 * 1000)
+      : null
+
+    const summary: RescoreSummary = {
+      organizationId,
+      scored: 0,
+      failed: 0,
+      changed: 0,
+      averageDelta: 0,
+      failures: [],
+      startedAt: new Date(),
+      finishedAt: new Date(),
+    }
+
+    const scoringProfile = await getScoringProfile(organizationId)
+    let totalDelta = 0
+    let cursor: string | undefined
+
+    // Page by id rather than a Prisma cursor: rescored leads drop out of the stale filter,
+    // so the previous batch's last lead is no longer there to skip past
+    for (;;) {
+      const leads = await prisma.lead.findMany({
+        where: {
+          organizationId,
+          status: { notIn: CLOSED_STATUSES as any },
+          ...(staleBefore && { NOT: { scores: { some: { createdAt: { gte: staleBefore } } } } }),
+          ...(cursor && { id: { gt: cursor } }),
+        },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+      })
+
+      for (const lead of leads) {
+        try {
+          const outcome = await this.scoreLead(lead.id, 'batch', scoringProfile)
+          if (!outcome) continue
+
+          summary.scored++
+          if (outcome.delta) {
+            summary.changed++
+            totalDelta += outcome.delta
+          }
+        } catch (error) {
+          summary.failed++
+          summary.failures.push({ leadId: lead.id, error: (error as Error).message })
+        }
+      }
+
+      if (leads.length < batchSize) break
+      cursor = leads[leads.length - 1].id
+    }
+
+    summary.averageDelta = summary.changed > 0 ? Math.round((totalDelta / summary.changed) * 10) / 10 : 0
+    summary.finishedAt = new Date()
+    return summary
+  }
+
+  private async persist(
+    leadId: string,
+    result: ScoringResult,
+    previous: Record<string, any> | null,
+    trigger: ScoreTrigger,
+    scoringProfile: StoredScoringProfile
+  ): Promise<LeadScoreOutcome> {
+    const factors = buildFactorBreakdown(result.factors, previous, scoringProfile.weights)
+    const confidence = Math.round(result.confidence * 100) / 100
+    const previousScore: number | null = previous?.score ?? null
+
+    const [leadScore] = await prisma.$transaction([
+      prisma.leadScore.create({
+        data: {
+          leadId,
+          score: result.score,
+          confidence,
+          modelVersion: SCORING_MODEL_VERSION,
+          demographicScore: Math.round(result.factors.demographic),
+          behavioralScore: Math.round(result.factors.behavioral),
+          temporalScore: Math.round(result.factors.temporal),
+          conversationalScore: Math.round(result.factors.conversational),
+          explanation: {
+            summary: result.explanation,
+            factors,
+            appliedRules: result.appliedRules,
+            profileUpdatedAt: scoringProfile.updatedAt || null,
+            riskFactors: result.riskFactors,
+            nextBestActions: result.nextBestActions,
+            trigger,
+          } as any,
+          recommendations: result.recommendations,
+        },
+      }),
+      prisma.lead.update({
+        where: { id: leadId },
+        data: {
+          currentScore: result.score,
+          scoreConfidence: confidence,
+          updatedAt: new Date(),
+        },
+      }),
+    ])
+
+    return {
+      leadId,
+      scoreId: leadScore.id,
+      score: result.score,
+      confidence,
+      modelVersion: SCORING_MODEL_VERSION,
+      previousScore,
+      delta: previousScore === null ? null : result.score - previousScore,
+      factors,
+      appliedRules: result.appliedRules,
+      explanation: result.explanation,
+      recommendations: result.recommendations,
+      riskFactors: result.riskFactors,
+      nextBestActions: result.nextBestActions,
+      scoredAt: leadScore.createdAt,
+    }
+  }
+}
+
+export const leadScoringService = new LeadScoringService()
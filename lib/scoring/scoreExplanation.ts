@@ -0,0 +1,14 @@
+// LeadAI Pro - Score Explanation
+// Readable text for a stored LeadScore explanation, in either of the shapes it has been saved in
+
+// Scores saved by the scoring service keep the explanation lines under `summary` next to the factor
+// breakdown; older scores stored the lines as a bare array
+export const scoreExplanationText = (explanation: unknown): string | undefined => {
+  const lines = Array.isArray(explanation)
+    ? explanation
+    : explanation && typeof explanation === 'object' ? (explanation as { summary?: unknown }).summary : undefined
+  if (Array.isArray(lines)) {
+    return lines.length > 0 ? lines.join('; ') : undefined
+  }
+  return typeof lines === 'string' && lines ? lines : undefined
+}
@@ -0,0 +1,243 @@
+// LeadAI Pro - Scoring Calibration
+// Compares predicted lead scores with closed outcomes and suggests new factor weights
+
+import { prisma } from '../database'
+import { ScoringFactors } from '../ai/leadScoring'
+import { SCORING_FACTORS } from './scoringProfiles'
+
+// Below this many closed leads the suggested weights would mostly be noise
+export const MIN_CALIBRATION_SAMPLES = 30
+
+const SCORE_BUCKETS = [0, 20, 40, 60, 80, 101]
+
+// Suggested weights never drop a factor entirely
+const MIN_SUGGESTED_WEIGHT = 0.05
+
+export interface CalibrationSample {
+  score: number
+  factors: ScoringFactors
+  won: boolean
+}
+
+export interface CalibrationBucket {
+  range: string
+  leads: number
+  won: number
+  winRate: number | null
+  averageScore: number | null
+}
+
+export interface FactorCalibration {
+  factor: keyof ScoringFactors
+  currentWeight: number
+  averageWon: number | null
+  averageLost: number | null
+  correlation: number
+}
+
+export interface CalibrationReport {
+  sampleSize: number
+  won: number
+  lost: number
+  unscored: number
+  winRate: number | null
+  averageScore: { won: number | null; lost: number | null }
+  // Mean squared error of score/100 as a win probability (lower is better)
+  brierScore: number | null
+  buckets: CalibrationBucket[]
+  factors: FactorCalibration[]
+  suggestedWeights: ScoringFactors | null
+  notes: string[]
+}
+
+const round = (value: number, places: number = 2): number => {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null
+
+// Pearson correlation between a factor and the won (1) / lost (0) outcome
+const correlation = (xs: number[], ys: number[]): number => {
+  const meanX = average(xs)!
+  const meanY = average(ys)!
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY)
+    varianceX += Math.pow(xs[i] - meanX, 2)
+    varianceY += Math.pow(ys[i] - meanY, 2)
+  }
+
+  return varianceX === 0 || varianceY === 0 ? 0 : covariance / Math.sqrt(varianceX * varianceY)
+}
+
+// Normalize weights to sum to exactly 1 at two decimal places
+const normalizeWeights = (raw: ScoringFactors): ScoringFactors => {
+  const total = SCORING_FACTORS.reduce((sum, f) => sum + raw[f], 0)
+  const weights = {} as ScoringFactors
+  for (const factor of SCORING_FACTORS) {
+    weights[factor] = round(raw[factor] / total)
+  }
+
+  // Put any rounding remainder on the largest weight
+  const remainder = round(1 - SCORING_FACTORS.reduce((sum, f) => sum + weights[f], 0))
+  const largest = SCORING_FACTORS.reduce((a, b) => (weights[a] >= weights[b] ? a : b))
+  weights[largest] = round(weights[largest] + remainder)
+
+  return weights
+}
+
+// Build a calibration report from scored, closed leads
+export const buildCalibrationReport = (
+  samples: CalibrationSample[],
+  currentWeights: ScoringFactors,
+  unscored: number = 0
+): CalibrationReport => {
+  const won = samples.filter(s => s.won)
+  const lost = samples.filter(s => !s.won)
+  const outcomes = samples.map(s => (s.won ? 1 : 0))
+  const notes: string[] = []
+
+  const buckets = SCORE_BUCKETS.slice(0, -1).map((min, i) => {
+    const max = SCORE_BUCKETS[i + 1]
+    const inBucket = samples.filter(s => s.score >= min && s.score < max)
+    const bucketWon = inBucket.filter(s => s.won).length
+    const averageScore = average(inBucket.map(s => s.score))
+
+    return {
+      range: `${min}-${Math.min(max - 1, 100)}`,
+      leads: inBucket.length,
+      won: bucketWon,
+      winRate: inBucket.length > 0 ? round((bucketWon / inBucket.length) * 100, 1) : null,
+      averageScore: averageScore === null ? null : round(averageScore, 1),
+    }
+  })
+
+  const factors = SCORING_FACTORS.map(factor => {
+    const averageWon = average(won.map(s => s.factors[factor]))
+    const averageLost = average(lost.map(s => s.factors[factor]))
+
+    return {
+      factor,
+      currentWeight: currentWeights[factor],
+      averageWon: averageWon === null ? null : round(averageWon, 1),
+      averageLost: averageLost === null ? null : round(averageLost, 1),
+      correlation: samples.length > 1 ? round(correlation(samples.map(s => s.factors[factor]), outcomes), 3) : 0,
+    }
+  })
+
+  let suggestedWeights: ScoringFactors | null = null
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    notes.push(`At least ${MIN_CALIBRATION_SAMPLES} scored, closed leads are needed to suggest weights (found ${samples.length})`)
+  } else if (won.length === 0 || lost.length === 0) {
+    notes.push('Both won and lost leads are needed to suggest weights')
+  } else {
+    // Weight factors by how well they separate won from lost leads, blended with the current
+    // weights so a single period of outcomes cannot swing the model completely
+    const raw = {} as ScoringFactors
+    for (const { factor, correlation: r } of factors) {
+      raw[factor] = Math.max(MIN_SUGGESTED_WEIGHT, r)
+    }
+    const evidence = normalizeWeights(raw)
+
+    const blended = {} as ScoringFactors
+    for (const factor of SCORING_FACTORS) {
+      blended[factor] = (evidence[factor] + currentWeights[factor]) / 2
+    }
+    suggestedWeights = normalizeWeights(blended)
+
+    for (const { factor, correlation: r } of factors) {
+      if (r < 0) {
+        notes.push(`Higher ${factor} scores were associated with lost leads; review its rules`)
+      }
+    }
+  }
+
+  const averageWon = average(won.map(s => s.score))
+  const averageLost = average(lost.map(s => s.score))
+  const brier = average(samples.map(s => Math.pow(s.score / 100 - (s.won ? 1 : 0), 2)))
+
+  if (averageWon !== null && averageLost !== null && averageWon <= averageLost) {
+    notes.push('Won leads did not score higher than lost leads on average')
+  }
+
+  return {
+    sampleSize: samples.length,
+    won: won.length,
+    lost: lost.length,
+    unscored,
+    winRate: samples.length > 0 ? round((won.length / samples.length) * 100, 1) : null,
+    averageScore: {
+      won: averageWon === null ? null : round(averageWon, 1),
+      lost: averageLost === null ? null : round(averageLost, 1),
+    },
+    brierScore: brier === null ? null : round(brier, 4),
+    buckets,
+    factors,
+    suggestedWeights,
+    notes,
+  }
+}
+
+// Load closed leads with the last score they had before closing
+export const loadCalibrationSamples = async (
+  organizationId: string,
+  since?: Date
+): Promise<{ samples: CalibrationSample[]; unscored: number }> => {
+  const leads = await prisma.lead.findMany({
+    where: {
+      organizationId,
+      status: { in: ['closed_won', 'closed_lost'] as any },
+      ...(since && { updatedAt: { gte: since } }),
+    },
+    select: {
+      id: true,
+      status: true,
+      updatedAt: true,
+      // The latest stage move is the one that closed the lead
+      stageHistory: { orderBy: { enteredAt: 'desc' }, take: 1, select: { enteredAt: true } },
+      scores: {
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        select: {
+          score: true,
+          demographicScore: true,
+          behavioralScore: true,
+          temporalScore: true,
+          conversationalScore: true,
+          createdAt: true,
+        },
+      },
+    },
+  })
+
+  const samples: CalibrationSample[] = []
+  let unscored = 0
+
+  for (const lead of leads as any[]) {
+    const closedAt: Date = lead.stageHistory[0]?.enteredAt || lead.updatedAt
+    const prediction = lead.scores.find((s: any) => s.createdAt <= closedAt)
+
+    if (!prediction || prediction.demographicScore === null) {
+      unscored++
+      continue
+    }
+
+    samples.push({
+      score: prediction.score,
+      factors: {
+        demographic: prediction.demographicScore,
+        behavioral: prediction.behavioralScore ?? 0,
+        temporal: prediction.temporalScore ?? 0,
+        conversational: prediction.conversationalScore ?? 0,
+      },
+      won: lead.status === 'closed_won',
+    })
+  }
+
+  return { samples, unscored }
+}
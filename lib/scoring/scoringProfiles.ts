@@ -0,0 +1,155 @@
+// LeadAI Pro - Scoring Profiles
+// Organization scoring weights and factor rules stored in Organization.aiConfig
+
+import { prisma } from '../database'
+import {
+  ScoringProfile,
+  ScoringFactors,
+  ScoringRuleOperator,
+  DEFAULT_SCORING_PROFILE,
+} from '../ai/leadScoring'
+import { getLeadField } from '../leads/leadFields'
+
+export const SCORING_FACTORS: Array<keyof ScoringFactors> = ['demographic', 'behavioral', 'temporal', 'conversational']
+export const SCORING_RULE_OPERATORS: ScoringRuleOperator[] = ['equals', 'in', 'gte', 'lte', 'contains', 'exists']
+
+export interface StoredScoringProfile extends ScoringProfile {
+  preset?: string
+  updatedAt?: string
+  updatedBy?: string
+}
+
+// Starting points an organization can copy and adjust
+export const SCORING_PRESETS: Record<string, ScoringProfile> = {
+  default: DEFAULT_SCORING_PROFILE,
+  real_estate: {
+    weights: { demographic: 0.4, behavioral: 0.25, temporal: 0.2, conversational: 0.15 },
+    industryKeywords: [],
+    titleKeywords: [],
+    rules: [
+      { id: 'motivation-urgent', label: 'Urgent motivation', field: 'motivationLevel', operator: 'equals', value: 'URGENT', factor: 'demographic', points: 25 },
+      { id: 'motivation-high', label: 'High motivation', field: 'motivationLevel', operator: 'equals', value: 'HIGH', factor: 'demographic', points: 15 },
+      { id: 'timeframe-asap', label: 'Wants to sell ASAP', field: 'timeframe', operator: 'in', value: ['ASAP', 'WITHIN_30_DAYS'], factor: 'temporal', points: 20 },
+      { id: 'timeframe-no-rush', label: 'No rush to sell', field: 'timeframe', operator: 'in', value: ['WITHIN_1_YEAR', 'NO_RUSH'], factor: 'temporal', points: -15 },
+      { id: 'reason-distress', label: 'Financial distress', field: 'sellingReason', operator: 'equals', value: 'FINANCIAL_DISTRESS', factor: 'demographic', points: 20 },
+      { id: 'reason-life-event', label: 'Inheritance, divorce or relocation', field: 'sellingReason', operator: 'in', value: ['INHERITANCE', 'DIVORCE', 'RELOCATION'], factor: 'demographic', points: 15 },
+      { id: 'condition-distressed', label: 'Distressed property', field: 'propertyCondition', operator: 'in', value: ['POOR', 'NEEDS_MAJOR_REPAIRS', 'TEAR_DOWN'], factor: 'demographic', points: 10 },
+      { id: 'equity-high', label: 'High equity (40%+)', field: 'customFields.equityPercent', operator: 'gte', value: 40, factor: 'demographic', points: 15 },
+    ],
+  },
+}
+
+const isRuleField = (path: string): boolean => {
+  const [root, key] = path.split('.', 2)
+  if (key) {
+    return (root === 'address' || root === 'customFields') && key.length > 0
+  }
+  return !!getLeadField(root)
+}
+
+// Validate a scoring profile, returning human-readable problems
+export const validateScoringProfile = (profile: ScoringProfile): string[] => {
+  const errors: string[] = []
+
+  if (!profile?.weights) {
+    return ['weights are required']
+  }
+
+  for (const factor of SCORING_FACTORS) {
+    const weight = profile.weights[factor]
+    if (typeof weight !== 'number' || weight < 0 || weight > 1) {
+      errors.push(`weights.${factor} must be a number between 0 and 1`)
+    }
+  }
+
+  const total = SCORING_FACTORS.reduce((sum, factor) => sum + (Number(profile.weights[factor]) || 0), 0)
+  if (Math.abs(total - 1) > 0.01) {
+    errors.push(`weights must add up to 1 (got ${Math.round(total * 100) / 100})`)
+  }
+
+  const ruleIds = new Set<string>()
+  ;(profile.rules || []).forEach((rule, index) => {
+    const label = `rules[${index}]`
+
+    if (!rule.id) {
+      errors.push(`${label}: id is required`)
+    } else if (ruleIds.has(rule.id)) {
+      errors.push(`${label}: duplicate rule id "${rule.id}"`)
+    } else {
+      ruleIds.add(rule.id)
+    }
+    if (!rule.label) {
+      errors.push(`${label}: label is required`)
+    }
+    if (!rule.field || !isRuleField(rule.field)) {
+      errors.push(`${label}: unknown field "${rule.field}"`)
+    }
+    if (!SCORING_RULE_OPERATORS.includes(rule.operator)) {
+      errors.push(`${label}: operator must be one of: ${SCORING_RULE_OPERATORS.join(', ')}`)
+    }
+    if (rule.operator === 'in' && !Array.isArray(rule.value)) {
+      errors.push(`${label}: "in" rules need an array value`)
+    }
+    if (rule.operator !== 'exists' && (rule.value === undefined || rule.value === null)) {
+      errors.push(`${label}: value is required`)
+    }
+    if (!SCORING_FACTORS.includes(rule.factor)) {
+      errors.push(`${label}: factor must be one of: ${SCORING_FACTORS.join(', ')}`)
+    }
+    if (typeof rule.points !== 'number' || Math.abs(rule.points) > 100) {
+      errors.push(`${label}: points must be a number between -100 and 100`)
+    }
+  })
+
+  if (profile.industryKeywords && !Array.isArray(profile.industryKeywords)) {
+    errors.push('industryKeywords must be a list')
+  }
+  for (const [index, tier] of (profile.titleKeywords || []).entries()) {
+    if (!Array.isArray(tier.keywords) || typeof tier.points !== 'number') {
+      errors.push(`titleKeywords[${index}]: keywords list and numeric points are required`)
+    }
+  }
+
+  return errors
+}
+
+// Load an organization's scoring profile, falling back to the default weights
+export const getScoringProfile = async (organizationId: string): Promise<StoredScoringProfile> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiConfig: true },
+  })
+
+  return ((organization?.aiConfig as any)?.scoringProfile as StoredScoringProfile) || DEFAULT_SCORING_PROFILE
+}
+
+export const saveScoringProfile = async (
+  organizationId: string,
+  profile: ScoringProfile & { preset?: string },
+  userId: string
+): Promise<StoredScoringProfile> => {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { aiConfig: true },
+  })
+
+  const aiConfig = (organization?.aiConfig as any) || {}
+  const stored: StoredScoringProfile = {
+    weights: profile.weights,
+    rules: profile.rules || [],
+    ...(profile.industryKeywords && { industryKeywords: profile.industryKeywords }),
+    ...(profile.titleKeywords && { titleKeywords: profile.titleKeywords }),
+    ...(profile.preset && { preset: profile.preset }),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  }
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: {
+      aiConfig: { ...aiConfig, scoringProfile: stored },
+    },
+  })
+
+  return stored
+}
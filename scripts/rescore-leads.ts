@@ -0,0 +1,42 @@
+// LeadAI Pro - Nightly Lead Rescoring
+// Rescores open leads for one organization (--org <id>) or every organization
+
+import { prisma, disconnectDatabase } from '../lib/database'
+import { leadScoringService } from '../lib/scoring/leadScoringService'
+
+// Leads scored within this window are skipped, so reruns after a failure are cheap
+const STALE_AFTER_HOURS = Number(process.env.RESCORE_STALE_AFTER_HOURS) || 20
+
+async function main() {
+  const orgFlag = process.argv.indexOf('--org')
+  const organizationIds = orgFlag > -1
+    ? [process.argv[orgFlag + 1]]
+    : (await prisma.organization.findMany({ select: { id: true } })).map(org => org.id)
+
+  let failed = 0
+
+  for (const organizationId of organizationIds) {
+    const summary = await leadScoringService.rescoreOrganization(organizationId, {
+      staleAfterHours: STALE_AFTER_HOURS,
+    })
+    failed += summary.failed
+
+    console.log(`[SCORING] ${organizationId}: scored ${summary.scored}, changed ${summary.changed}, failed ${summary.failed}, average delta ${summary.averageDelta}`)
+    for (const failure of summary.failures) {
+      console.error(`[SCORING]   ${failure.leadId}: ${failure.error}`)
+    }
+  }
+
+  if (failed > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[SCORING] Rescoring failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDatabase()
+  })
@@ -0,0 +1,50 @@
+// LeadAI Pro - Follow-up Worker
+// Fires due follow-up steps once, or every FOLLOW_UP_POLL_SECONDS with --watch
+
+import { disconnectDatabase } from '../lib/database'
+import { followUpScheduler } from '../lib/followUps/followUpScheduler'
+
+const POLL_SECONDS = Number(process.env.FOLLOW_UP_POLL_SECONDS) || 60
+const BATCH_SIZE = Number(process.env.FOLLOW_UP_BATCH_SIZE) || 100
+
+async function runOnce(): Promise<number> {
+  let total = 0
+
+  // Keep draining while full batches come back
+  while (true) {
+    const summary = await followUpScheduler.runDueSteps(BATCH_SIZE)
+    total += summary.processed
+
+    if (summary.processed > 0) {
+      console.log(`[FOLLOW-UPS] processed ${summary.processed}: executed ${summary.executed}, skipped ${summary.skipped}, failed ${summary.failed}, retried ${summary.retried}, awaiting approval ${summary.awaitingApproval}, stopped ${summary.stopped}`)
+    }
+    if (summary.processed < BATCH_SIZE) {
+      return total
+    }
+  }
+}
+
+async function main() {
+  if (!process.argv.includes('--watch')) {
+    await runOnce()
+    return
+  }
+
+  let stopping = false
+  process.on('SIGINT', () => { stopping = true })
+  process.on('SIGTERM', () => { stopping = true })
+
+  while (!stopping) {
+    await runOnce()
+    await new Promise(resolve => setTimeout(resolve, POLL_SECONDS * 1000))
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('[FOLLOW-UPS] Worker failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDatabase()
+  })
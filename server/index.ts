@@ -22,6 +22,17 @@ import analyticsRoutes from './routes/analytics'
 import aiRoutes from './routes/ai'
 import propertyRoutes from './routes/properties'
 import geolocationRoutes from './routes/geolocation'
+import pipelineRoutes from './routes/pipelines'
+import routingRoutes from './routes/routing'
+import followUpRoutes from './routes/followUps'
+import jobRoutes from './routes/jobs'
+import emailEventRoutes from './routes/emailEvents'
+import smsWebhookRoutes from './routes/smsWebhooks'
+import callWebhookRoutes from './routes/callWebhooks'
+import callRoutes from './routes/calls'
+import complianceRoutes from './routes/compliance'
+import dealRoutes from './routes/deals'
+import comparableRoutes from './routes/comparables'
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler'
@@ -96,6 +107,11 @@ app.get('/health', async (req, res) => {
   }
 })
 
+// Email tracking and provider webhooks, inbound SMS and call callbacks: public, and outside /api so the rate limit doesn't drop them
+app.use('/email', emailEventRoutes)
+app.use('/sms', smsWebhookRoutes)
+app.use('/calls', callWebhookRoutes)
+
 // API routes
 app.use('/api/auth', authRoutes)
 app.use('/api/leads', authMiddleware, leadRoutes)
@@ -103,9 +119,17 @@ app.use('/api/users', authMiddleware, userRoutes)
 app.use('/api/organizations', authMiddleware, organizationRoutes)
 app.use('/api/activities', authMiddleware, activityRoutes)
 app.use('/api/analytics', authMiddleware, analyticsRoutes)
+app.use('/api/pipelines', authMiddleware, pipelineRoutes)
+app.use('/api/routing', authMiddleware, routingRoutes)
+app.use('/api/follow-ups', authMiddleware, followUpRoutes)
+app.use('/api/jobs', authMiddleware, jobRoutes)
+app.use('/api/compliance', authMiddleware, complianceRoutes)
+app.use('/api/calls', authMiddleware, callRoutes)
+app.use('/api/deals', authMiddleware, dealRoutes)
 app.use('/api/ai', authMiddleware, aiRoutes)
-app.use('/api/properties', propertyRoutes)
-app.use('/api/geolocation', geolocationRoutes)
+app.use('/api/properties/:id/comparables', authMiddleware, comparableRoutes)
+app.use('/api/properties', authMiddleware, propertyRoutes)
+app.use('/api/geolocation', authMiddleware, geolocationRoutes)
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
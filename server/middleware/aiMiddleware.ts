@@ -4,6 +4,7 @@
 import { Request, Response, NextFunction } from 'express'
 import { getAIServiceManager, getAIHealthStatus, getAIMetrics } from '../../lib/ai'
 import { prisma } from '../../lib/database'
+import { LLMProviderError, LLMOutputError, AIBudgetExceededError } from '../../lib/llm/types'
 
 // Extend Request interface to include AI context
 declare global {
@@ -196,7 +197,15 @@ export const handleAIError = (error: any, req: Request, res: Response, next: Nex
   }
 
   // Determine error type and response
-  if (error.name === 'OpenAIError') {
+  if (error instanceof LLMProviderError && error.status === 429) {
+    return res.status(429).json({
+      error: 'Rate limit exceeded',
+      message: 'The AI provider is rate limiting requests. Please try again later.',
+      retryAfter: 60
+    })
+  }
+
+  if (error instanceof LLMProviderError) {
     return res.status(502).json({
       error: 'AI service error',
       message: 'The AI service is temporarily unavailable. Please try again.',
@@ -204,6 +213,25 @@ export const handleAIError = (error: any, req: Request, res: Response, next: Nex
     })
   }
 
+  if (error instanceof AIBudgetExceededError) {
+    return res.status(error.scope === 'organization' ? 402 : 429).json({
+      error: 'AI budget exceeded',
+      message: error.message,
+      code: error.scope === 'organization' ? 'AI_BUDGET_EXCEEDED' : 'AI_USER_BUDGET_EXCEEDED',
+      resetAt: error.resetAt
+    })
+  }
+
+  if (error instanceof LLMOutputError) {
+    return res.status(502).json({
+      error: 'AI response invalid',
+      message: 'The AI service returned a response in an unexpected format. Please try again.',
+      code: 'AI_INVALID_OUTPUT',
+      feature: error.feature,
+      issues: error.issues
+    })
+  }
+
   if (error.message?.includes('rate limit')) {
     return res.status(429).json({
       error: 'Rate limit exceeded',
@@ -6,6 +6,7 @@ import jwt from 'jsonwebtoken'
 import { createClient } from '@supabase/supabase-js'
 import { prisma } from '../../lib/database'
 import { AuthenticationError, AuthorizationError } from './errorHandler'
+import { runWithAIContext } from '../../lib/llm/aiContext'
 
 // Extend Request interface to include user
 declare global {
@@ -95,7 +96,17 @@ export const authMiddleware = async (
       teamId: user.teamId || undefined
     }
 
-    next()
+    // AI calls made while handling the request use the organization's AI settings
+    // and budget; nearing the budget is flagged on the response
+    runWithAIContext({
+      organizationId: user.organizationId,
+      userId: user.id,
+      onBudgetWarning: status => {
+        if (!res.headersSent) {
+          res.set('X-AI-Budget-Warning', status.message!)
+        }
+      },
+    }, () => next())
   } catch (error) {
     next(error)
   }
@@ -3,6 +3,7 @@
 
 import { Request, Response, NextFunction } from 'express'
 import { Prisma } from '@prisma/client'
+import { LLMOutputError, AIBudgetExceededError } from '../../lib/llm/types'
 
 export interface ApiError extends Error {
   statusCode?: number
@@ -122,6 +123,22 @@ export const errorHandler = (
     appError = handlePrismaError(error)
   } else if (error instanceof Prisma.PrismaClientValidationError) {
     appError = new ValidationError('Invalid data provided')
+  } else if (error instanceof LLMOutputError) {
+    // The raw replies are logged below and only returned in development
+    appError = new AppError(
+      'The AI service returned a response in an unexpected format',
+      502,
+      'AI_INVALID_OUTPUT',
+      { feature: error.feature, issues: error.issues, rawText: error.rawText, attempts: error.attempts.length }
+    )
+  } else if (error instanceof AIBudgetExceededError) {
+    // The organization must raise its budget; a single user waits for the reset
+    appError = error.scope === 'organization'
+      ? new AppError(error.message, 402, 'AI_BUDGET_EXCEEDED', { scope: error.scope, resetAt: error.resetAt })
+      : new AppError(error.message, 429, 'AI_USER_BUDGET_EXCEEDED', { scope: error.scope, resetAt: error.resetAt })
+    if (appError.statusCode === 429) {
+      res.set('Retry-After', String(Math.max(0, Math.ceil((error.resetAt.getTime() - Date.now()) / 1000))))
+    }
   } else if (error.name === 'JsonWebTokenError') {
     appError = new AuthenticationError('Invalid token')
   } else if (error.name === 'TokenExpiredError') {
@@ -144,6 +161,8 @@ export const errorHandler = (
   if (appError.statusCode >= 500) {
     console.error('Server Error:', {
       message: appError.message,
+      code: appError.code,
+      details: appError.details,
       stack: appError.stack,
       url: req.url,
       method: req.method,
@@ -0,0 +1,21 @@
+// LeadAI Pro - Twilio Webhook Middleware
+// Rejects webhook requests that are not signed with TWILIO_AUTH_TOKEN
+
+import { Request, Response, NextFunction } from 'express'
+import { verifyTwilioSignature } from '../../lib/calls/telephony'
+import { AuthenticationError } from './errorHandler'
+
+// Behind a proxy the URL Twilio called differs from the one we see, so it can be configured
+const webhookUrl = (req: Request): string =>
+  process.env.TWILIO_WEBHOOK_BASE_URL
+    ? process.env.TWILIO_WEBHOOK_BASE_URL.replace(/\/+$/, '') + req.originalUrl
+    : `${req.protocol}://${req.get('host')}${req.originalUrl}`
+
+export const requireTwilioSignature = (req: Request, res: Response, next: NextFunction) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const given = String(req.get('x-twilio-signature') || '')
+  if (!authToken || !verifyTwilioSignature(webhookUrl(req), req.body || {}, given, authToken)) {
+    return next(new AuthenticationError('Invalid webhook signature'))
+  }
+  next()
+}
@@ -2,29 +2,270 @@
 // Lead activities and timeline management
 
 import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { prisma, db, decodeTimelineCursor, TIMELINE_KINDS, TimelineKind } from '../../lib/database'
+import { ACTIVITY_TYPES, ACTIVITY_OUTCOMES, getLeadContactUpdates } from '../../lib/activities/activityTypes'
+import { followUpScheduler } from '../../lib/followUps/followUpScheduler'
 import { requireLeadAccess } from '../middleware/auth'
-import { asyncHandler } from '../middleware/errorHandler'
+import { asyncHandler, ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler'
+import { businessLogger } from '../middleware/logger'
 
 const router = express.Router()
 
+// Validation rules
+const createActivityValidation = [
+  body('leadId').isUUID().withMessage('Valid lead ID is required'),
+  body('type').isIn(ACTIVITY_TYPES).withMessage(`Type must be one of: ${ACTIVITY_TYPES.join(', ')}`),
+  body('outcome').optional().isIn(ACTIVITY_OUTCOMES).withMessage(`Outcome must be one of: ${ACTIVITY_OUTCOMES.join(', ')}`),
+  body('subject').optional().isLength({ min: 1, max: 500 }),
+  body('description').optional().isString(),
+  body('scheduledAt').optional().isISO8601(),
+  body('completedAt').optional().isISO8601(),
+  body('durationMinutes').optional().isInt({ min: 0 }),
+  body('nextFollowUpAt').optional({ values: 'null' }).isISO8601(),
+  body('metadata').optional().isObject(),
+]
+
+const updateActivityValidation = [
+  body('type').optional().isIn(ACTIVITY_TYPES).withMessage(`Type must be one of: ${ACTIVITY_TYPES.join(', ')}`),
+  body('outcome').optional({ values: 'null' }).isIn(ACTIVITY_OUTCOMES).withMessage(`Outcome must be one of: ${ACTIVITY_OUTCOMES.join(', ')}`),
+  body('subject').optional().isLength({ min: 1, max: 500 }),
+  body('description').optional().isString(),
+  body('scheduledAt').optional({ values: 'null' }).isISO8601(),
+  body('completedAt').optional({ values: 'null' }).isISO8601(),
+  body('durationMinutes').optional().isInt({ min: 0 }),
+  body('metadata').optional().isObject(),
+]
+
+const toDate = (value: any) => (value ? new Date(value) : value)
+
+// Pick editable activity fields from the request body
+const activityFields = (input: any) => {
+  const data: any = {}
+  for (const key of ['type', 'outcome', 'subject', 'description', 'durationMinutes', 'metadata']) {
+    if (input[key] !== undefined) data[key] = input[key]
+  }
+  for (const key of ['scheduledAt', 'completedAt']) {
+    if (input[key] !== undefined) data[key] = toDate(input[key])
+  }
+  return data
+}
+
+// Load an activity and make sure the user may see its lead
+const findAccessibleActivity = async (id: string, user: Express.Request['user']) => {
+  const activity = await prisma.activity.findUnique({
+    where: { id },
+    include: {
+      lead: { select: { id: true, organizationId: true, assignedTo: true, lastContactedAt: true, nextFollowUpAt: true } },
+      user: { select: { fullName: true, avatarUrl: true } }
+    }
+  })
+
+  if (!activity || activity.lead.organizationId !== user!.organizationId) {
+    throw new NotFoundError('Activity')
+  }
+
+  if (user!.role === 'sales_rep' && activity.lead.assignedTo !== user!.id) {
+    throw new AuthorizationError('Access denied to this activity')
+  }
+
+  return activity
+}
+
 // Get activities for a lead
-router.get('/lead/:leadId', requireLeadAccess, asyncHandler(async (req, res) => {
-  res.json({ message: 'Lead activities endpoint - Coming soon' })
+router.get('/lead/:leadId', requireLeadAccess, [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('type').optional().isIn(ACTIVITY_TYPES),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { leadId } = req.params
+  const { page = 1, limit = 20, type } = req.query
+  const whereClause: any = { leadId }
+
+  if (type) {
+    whereClause.type = type
+  }
+
+  const [activities, totalCount] = await Promise.all([
+    prisma.activity.findMany({
+      where: whereClause,
+      include: {
+        user: { select: { fullName: true, avatarUrl: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (Number(page) - 1) * Number(limit),
+      take: Number(limit),
+    }),
+    prisma.activity.count({ where: whereClause })
+  ])
+
+  res.json({
+    activities,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total: totalCount,
+      pages: Math.ceil(totalCount / Number(limit)),
+    }
+  })
+}))
+
+// Get merged timeline for a lead (activities, conversations, calls, scores, journey events)
+router.get('/lead/:leadId/timeline', requireLeadAccess, [
+  query('cursor').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('kinds').optional().isString(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { leadId } = req.params
+  const cursor = req.query.cursor as string | undefined
+  const kinds = req.query.kinds
+    ? (req.query.kinds as string).split(',').map(k => k.trim()) as TimelineKind[]
+    : undefined
+
+  const unknownKinds = kinds?.filter(k => !TIMELINE_KINDS.includes(k)) || []
+  if (unknownKinds.length > 0) {
+    throw new ValidationError(`Unknown timeline kinds: ${unknownKinds.join(', ')}`)
+  }
+
+  if (cursor) {
+    try {
+      decodeTimelineCursor(cursor)
+    } catch (error) {
+      throw new ValidationError('Invalid timeline cursor')
+    }
+  }
+
+  const timeline = await db.activity.getLeadTimeline(leadId, {
+    cursor,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    kinds,
+  })
+
+  res.json(timeline)
+}))
+
+// Get single activity
+router.get('/:id', asyncHandler(async (req, res) => {
+  const activity = await findAccessibleActivity(req.params.id, req.user)
+
+  res.json({ activity })
 }))
 
 // Create new activity
-router.post('/', asyncHandler(async (req, res) => {
-  res.json({ message: 'Create activity endpoint - Coming soon' })
+router.post('/', createActivityValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { leadId, nextFollowUpAt } = req.body
+
+  const lead = await prisma.lead.findUnique({
+    where: { id: leadId },
+    select: { organizationId: true, assignedTo: true }
+  })
+
+  if (!lead || lead.organizationId !== req.user!.organizationId) {
+    throw new NotFoundError('Lead')
+  }
+
+  if (req.user!.role === 'sales_rep' && lead.assignedTo !== req.user!.id) {
+    throw new AuthorizationError('Access denied to this lead')
+  }
+
+  const activity = await db.activity.createWithAnalysis(
+    {
+      ...activityFields(req.body),
+      leadId,
+      userId: req.user!.id,
+    },
+    { nextFollowUpAt: nextFollowUpAt === undefined ? undefined : toDate(nextFollowUpAt) }
+  )
+
+  // Booked meetings end sequences that stop on them; completed ones can start new sequences
+  if (activity.type === 'MEETING') {
+    await followUpScheduler.handleLeadEvent(leadId, 'meeting')
+    if (activity.outcome === 'COMPLETED') {
+      await followUpScheduler.enroll(leadId, 'MEETING_COMPLETED')
+    }
+  }
+
+  businessLogger.trackLeadActivity(leadId, `activity_${activity.type.toLowerCase()}`, req.user!.id, req.user!.organizationId)
+
+  res.status(201).json({
+    message: 'Activity created successfully',
+    activity,
+  })
 }))
 
 // Update activity
-router.put('/:id', asyncHandler(async (req, res) => {
-  res.json({ message: 'Update activity endpoint - Coming soon' })
+router.put('/:id', updateActivityValidation, asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const current = await findAccessibleActivity(req.params.id, req.user)
+
+  if (current.userId !== req.user!.id && !['admin', 'manager'].includes(req.user!.role)) {
+    throw new AuthorizationError('Only the activity owner or a manager can edit it')
+  }
+
+  const activity = await prisma.activity.update({
+    where: { id: current.id },
+    data: {
+      ...activityFields(req.body),
+      updatedAt: new Date(),
+    },
+    include: {
+      user: { select: { fullName: true, avatarUrl: true } }
+    }
+  })
+
+  // Completing or rescheduling an activity can move the lead's contact dates
+  const leadUpdates = getLeadContactUpdates(activity, current.lead)
+  if (Object.keys(leadUpdates).length > 0) {
+    await prisma.lead.update({
+      where: { id: current.leadId },
+      data: leadUpdates
+    })
+  }
+
+  businessLogger.trackLeadActivity(current.leadId, 'activity_updated', req.user!.id, req.user!.organizationId)
+
+  res.json({
+    message: 'Activity updated successfully',
+    activity,
+  })
 }))
 
 // Delete activity
 router.delete('/:id', asyncHandler(async (req, res) => {
-  res.json({ message: 'Delete activity endpoint - Coming soon' })
+  const activity = await findAccessibleActivity(req.params.id, req.user)
+
+  if (activity.userId !== req.user!.id && !['admin', 'manager'].includes(req.user!.role)) {
+    throw new AuthorizationError('Only the activity owner or a manager can delete it')
+  }
+
+  await prisma.activity.delete({
+    where: { id: activity.id }
+  })
+
+  businessLogger.trackLeadActivity(activity.leadId, 'activity_deleted', req.user!.id, req.user!.organizationId)
+
+  res.json({
+    message: 'Activity deleted successfully',
+  })
 }))
 
 export default router
@@ -2,9 +2,22 @@
 // AI-powered features and insights
 
 import express from 'express'
-import { requireSubscriptionTier } from '../middleware/auth'
-import { asyncHandler } from '../middleware/errorHandler'
+import { requireSubscriptionTier, requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError } from '../middleware/errorHandler'
 import { prisma } from '../../lib/database'
+import { leadScoringService } from '../../lib/scoring/leadScoringService'
+import { getScoringProfile, saveScoringProfile, validateScoringProfile, SCORING_PRESETS } from '../../lib/scoring/scoringProfiles'
+import { buildCalibrationReport, loadCalibrationSamples } from '../../lib/scoring/scoringCalibration'
+import { getLLMConfig, saveLLMConfig, validateLLMConfig, defaultProvider, defaultModel, LLM_PROVIDERS } from '../../lib/llm/llmConfig'
+import { AI_FEATURES } from '../../lib/llm/features'
+import { llm } from '../../lib/llm/llmClient'
+import { LLMOutputError } from '../../lib/llm/types'
+import { aiUsage } from '../../lib/llm/aiUsage'
+import { getAIBudget, saveAIBudget, validateAIBudget, TIER_AI_BUDGETS } from '../../lib/llm/aiBudgets'
+import { analyticsCache } from '../../lib/analytics/analyticsCache'
+import { followUpScheduler } from '../../lib/followUps/followUpScheduler'
+import { leadRoutingService } from '../../lib/routing/leadRoutingService'
+import { buildSalesRepProfiles } from '../../lib/routing/repProfiles'
 import { AdvancedLeadScoringEngine } from '../../lib/ai/leadScoring'
 import { ConversationIntelligenceEngine } from '../../lib/ai/conversationIntelligence'
 import { BehavioralAnalysisEngine } from '../../lib/ai/behavioralAnalysis'
@@ -87,47 +100,162 @@ router.get('/insights/:leadId', asyncHandler(async (req, res) => {
 router.post('/score/:leadId', asyncHandler(async (req, res) => {
   const { leadId } = req.params
 
-  const lead = await prisma.lead.findUnique({
-    where: { id: leadId },
-    include: {
-      activities: true,
-      conversations: true
-    }
-  })
+  const outcome = await leadScoringService.scoreLead(leadId, 'manual')
 
-  if (!lead) {
+  if (!outcome) {
     return res.status(404).json({ error: 'Lead not found' })
   }
 
-  const scoringResult = await scoringEngine.calculateScore({
-    lead,
-    activities: lead.activities,
-    conversations: lead.conversations
+  res.json(outcome)
+}))
+
+// Rescore all open leads in the organization in the background
+router.post('/rescore', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const organizationId = req.user!.organizationId
+  const staleAfterHours = req.body?.staleAfterHours ? Number(req.body.staleAfterHours) : undefined
+
+  leadScoringService.rescoreOrganization(organizationId, { staleAfterHours })
+    .then(summary => {
+      analyticsCache.invalidate(organizationId)
+      console.log('[SCORING] Organization rescored', summary)
+    })
+    .catch(error => console.error('[SCORING] Organization rescore failed', { organizationId, error }))
+
+  res.status(202).json({
+    message: 'Lead rescoring started',
+    organizationId,
   })
+}))
 
-  // Update lead score in database
-  await prisma.lead.update({
-    where: { id: leadId },
-    data: {
-      currentScore: scoringResult.score,
-      scoreConfidence: scoringResult.confidence,
-      lastScoredAt: new Date()
-    }
+// Get the organization's scoring profile and available presets
+router.get('/scoring-profile', asyncHandler(async (req, res) => {
+  const profile = await getScoringProfile(req.user!.organizationId)
+
+  res.json({
+    profile,
+    presets: SCORING_PRESETS,
   })
+}))
 
-  // Create score history record
-  await prisma.leadScore.create({
-    data: {
-      leadId,
-      score: scoringResult.score,
-      confidence: scoringResult.confidence,
-      factors: scoringResult.factors as any,
-      explanation: scoringResult.explanation,
-      recommendations: scoringResult.recommendations
+// Replace the organization's scoring profile (or start from a preset)
+router.put('/scoring-profile', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const { preset, ...custom } = req.body || {}
+
+  if (preset && !SCORING_PRESETS[preset]) {
+    throw new ValidationError(`Unknown scoring preset. Expected one of: ${Object.keys(SCORING_PRESETS).join(', ')}`)
+  }
+
+  const profile = preset ? { ...SCORING_PRESETS[preset], ...custom, preset } : custom
+  const errors = validateScoringProfile(profile)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid scoring profile', errors)
+  }
+
+  const saved = await saveScoringProfile(req.user!.organizationId, profile, req.user!.id)
+
+  res.json({
+    message: 'Scoring profile updated successfully',
+    profile: saved,
+  })
+}))
+
+// Get the organization's model settings and the features they apply to
+router.get('/llm-config', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const config = await getLLMConfig(req.user!.organizationId)
+  const provider = defaultProvider()
+
+  res.json({
+    config,
+    providers: LLM_PROVIDERS,
+    defaults: { provider, model: defaultModel(provider) },
+    features: AI_FEATURES,
+  })
+}))
+
+// Replace the organization's model settings
+router.put('/llm-config', requireRole(['admin']), asyncHandler(async (req, res) => {
+  const config = req.body || {}
+  const errors = validateLLMConfig(config)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid LLM configuration', errors)
+  }
+
+  const saved = await saveLLMConfig(req.user!.organizationId, config, req.user!.id)
+  llm.invalidateConfig(req.user!.organizationId)
+
+  res.json({
+    message: 'LLM configuration updated successfully',
+    config: saved,
+  })
+}))
+
+// AI usage and estimated cost by user, feature and model (current month by default)
+router.get('/usage', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const parseDate = (name: string): Date | undefined => {
+    if (!req.query[name]) return undefined
+    const date = new Date(req.query[name] as string)
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${name} must be a valid date`)
     }
+    return date
+  }
+
+  const from = parseDate('from')
+  const to = parseDate('to')
+  if (from && to && from >= to) {
+    throw new ValidationError('from must be before to')
+  }
+
+  const report = await aiUsage.getUsageReport(req.user!.organizationId, { from, to })
+  res.json(report)
+}))
+
+// The organization's monthly AI budget, its tier defaults and current standing
+router.get('/usage/budget', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const organizationId = req.user!.organizationId
+  const [{ tier, budget, overrides }, status] = await Promise.all([
+    getAIBudget(organizationId),
+    aiUsage.getBudgetStatus(organizationId),
+  ])
+
+  res.json({ tier, budget, overrides, tierDefaults: TIER_AI_BUDGETS[tier], status })
+}))
+
+// Override the tier's AI budget; null removes a limit
+router.put('/usage/budget', requireRole(['admin']), asyncHandler(async (req, res) => {
+  const overrides = req.body || {}
+  const errors = validateAIBudget(overrides)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid AI budget', errors)
+  }
+
+  const saved = await saveAIBudget(req.user!.organizationId, overrides, req.user!.id)
+  aiUsage.invalidate(req.user!.organizationId)
+
+  res.json({
+    message: 'AI budget updated successfully',
+    overrides: saved,
   })
+}))
+
+// Compare predicted scores with closed outcomes and suggest new weights
+router.get('/scoring-profile/calibration', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const since = req.query.since ? new Date(req.query.since as string) : undefined
+  if (since && isNaN(since.getTime())) {
+    throw new ValidationError('since must be a valid date')
+  }
 
-  res.json(scoringResult)
+  const organizationId = req.user!.organizationId
+  const [profile, { samples, unscored }] = await Promise.all([
+    getScoringProfile(organizationId),
+    loadCalibrationSamples(organizationId, since),
+  ])
+
+  res.json({
+    since: since?.toISOString() || null,
+    currentWeights: profile.weights,
+    ...buildCalibrationReport(samples, profile.weights, unscored),
+  })
 }))
 
 // Analyze conversation
@@ -153,6 +281,11 @@ router.post('/analyze-conversation', requireSubscriptionTier('professional'), as
         channel: type || 'email'
       }
     })
+
+    // A message from the lead ends sequences that stop on a reply
+    if (leadId) {
+      await followUpScheduler.handleLeadEvent(leadId, 'replied')
+    }
   }
 
   if (!conversation) {
@@ -217,40 +350,17 @@ router.post('/route-lead', requireSubscriptionTier('professional'), asyncHandler
     return res.status(404).json({ error: 'Lead not found' })
   }
 
-  // Get available sales reps (mock data for now)
-  const availableReps = await prisma.user.findMany({
-    where: {
-      role: 'sales_rep',
-      organizationId: lead.organizationId
-    }
-  })
-
-  // Convert to SalesRepProfile format (simplified)
-  const repProfiles = availableReps.map(user => ({
-    user,
-    expertise: ['general'], // Would come from user profile
-    performance: {
-      conversionRate: 0.25,
-      averageDealSize: 50000,
-      responseTime: 4,
-      customerSatisfaction: 0.85
-    },
-    workload: {
-      currentLeads: 15,
-      capacity: 25,
-      availability: 'available' as const
-    },
-    preferences: {
-      industries: ['technology'],
-      leadSources: ['website'],
-      dealSizes: ['medium']
-    }
-  }))
+  // Rep profiles come from each rep's leads, activities and routing settings
+  const routingConfig = await leadRoutingService.getConfig(lead.organizationId)
+  const repProfiles = await buildSalesRepProfiles(lead.organizationId, routingConfig)
 
   const routingRecommendation = await routingEngine.findOptimalAssignment(
     lead,
     repProfiles,
-    criteria || {}
+    {
+      leadProfile: criteria?.leadProfile || {},
+      constraints: criteria?.constraints || {},
+    }
   )
 
   res.json(routingRecommendation)
@@ -640,6 +750,7 @@ router.post('/voice/command', requireAuth, asyncHandler(async (req, res) => {
     })
   } catch (error) {
     console.error('Voice command processing failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to process voice command' })
   }
 }))
@@ -690,6 +801,7 @@ router.post('/voice/coaching', requireAuth, requireSubscriptionTier('professiona
     res.json(coaching)
   } catch (error) {
     console.error('Conversation coaching failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to provide conversation coaching' })
   }
 }))
@@ -732,6 +844,7 @@ router.post('/social/research-lead', requireAuth, requireSubscriptionTier('profe
     res.json(socialInsight)
   } catch (error) {
     console.error('Social media research failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to research lead on social media' })
   }
 }))
@@ -790,6 +903,7 @@ router.post('/analytics/predict-lead', requireAuth, requireSubscriptionTier('pro
     res.json(prediction)
   } catch (error) {
     console.error('Lead prediction failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to generate lead prediction' })
   }
 }))
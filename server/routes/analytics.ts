@@ -2,29 +2,121 @@
 // Advanced analytics and reporting endpoints
 
 import express from 'express'
+import { query, validationResult } from 'express-validator'
+import { prisma, db } from '../../lib/database'
+import { pipelineAnalytics, resolveDateRange, ANALYTICS_RANGES, AnalyticsScope } from '../../lib/analytics/pipelineAnalytics'
+import { analyticsCache } from '../../lib/analytics/analyticsCache'
 import { requireRole } from '../middleware/auth'
-import { asyncHandler } from '../middleware/errorHandler'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+import { metricsLogger } from '../middleware/logger'
 
 const router = express.Router()
 
+// Shared period validation
+const periodValidation = [
+  query('range').optional().isIn(ANALYTICS_RANGES),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601(),
+]
+
+// Validate the request and resolve scope + period
+const resolveRequest = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { range, startDate, endDate } = req.query as Record<string, string | undefined>
+  if (!!startDate !== !!endDate) {
+    throw new ValidationError('startDate and endDate must be provided together')
+  }
+
+  const period = resolveDateRange(range, startDate, endDate)
+  if (period.start >= period.end) {
+    throw new ValidationError('startDate must be before endDate')
+  }
+
+  // Sales reps only see numbers for their own leads
+  const scope: AnalyticsScope = {
+    organizationId: req.user!.organizationId,
+    ...(req.user!.role === 'sales_rep' && { userId: req.user!.id }),
+  }
+
+  // Named ranges are cached by name so "month" stays cacheable as time moves
+  const cacheParams = { scope: scope.userId || 'org', range: range || null, startDate, endDate }
+
+  return { scope, period, cacheParams }
+}
+
 // Get dashboard analytics
-router.get('/dashboard', asyncHandler(async (req, res) => {
-  res.json({ message: 'Dashboard analytics endpoint - Coming soon' })
+router.get('/dashboard', periodValidation, asyncHandler(async (req, res) => {
+  const { scope, period, cacheParams } = resolveRequest(req)
+
+  const { data, hit } = await analyticsCache.wrap(scope.organizationId, 'dashboard', cacheParams, () =>
+    pipelineAnalytics.getDashboard(scope, period)
+  )
+
+  metricsLogger.trackEndpoint('/api/analytics/dashboard', 'GET', req.user!.id)
+
+  res.set('X-Cache-Status', hit ? 'HIT' : 'MISS')
+  res.json(data)
 }))
 
 // Get lead metrics
-router.get('/leads', asyncHandler(async (req, res) => {
-  res.json({ message: 'Lead metrics endpoint - Coming soon' })
+router.get('/leads', periodValidation, asyncHandler(async (req, res) => {
+  const { scope, period, cacheParams } = resolveRequest(req)
+
+  const { data, hit } = await analyticsCache.wrap(scope.organizationId, 'leads', cacheParams, () =>
+    pipelineAnalytics.getLeadAnalytics(scope, period)
+  )
+
+  metricsLogger.trackEndpoint('/api/analytics/leads', 'GET', req.user!.id)
+
+  res.set('X-Cache-Status', hit ? 'HIT' : 'MISS')
+  res.json(data)
 }))
 
 // Get user performance
-router.get('/performance', asyncHandler(async (req, res) => {
-  res.json({ message: 'Performance analytics endpoint - Coming soon' })
+router.get('/performance', [
+  ...periodValidation,
+  query('userId').optional().isUUID(),
+], asyncHandler(async (req, res) => {
+  const { scope, period, cacheParams } = resolveRequest(req)
+  const userId = scope.userId || (req.query.userId as string | undefined)
+
+  if (userId && !scope.userId) {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, organizationId: scope.organizationId },
+      select: { id: true }
+    })
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+  }
+
+  const { data, hit } = await analyticsCache.wrap(scope.organizationId, 'performance', { ...cacheParams, userId }, async () => ({
+    ...(await pipelineAnalytics.getPerformance(scope, period)),
+    ...(userId && { user: { userId, ...(await db.analytics.getUserPerformance(userId, period)) } }),
+  }))
+
+  metricsLogger.trackEndpoint('/api/analytics/performance', 'GET', req.user!.id)
+
+  res.set('X-Cache-Status', hit ? 'HIT' : 'MISS')
+  res.json(data)
 }))
 
 // Get forecasting data
-router.get('/forecast', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
-  res.json({ message: 'Forecasting endpoint - Coming soon' })
+router.get('/forecast', requireRole(['admin', 'manager']), periodValidation, asyncHandler(async (req, res) => {
+  const { scope, period, cacheParams } = resolveRequest(req)
+
+  const { data, hit } = await analyticsCache.wrap(scope.organizationId, 'forecast', cacheParams, () =>
+    pipelineAnalytics.getForecast(scope, period)
+  )
+
+  metricsLogger.trackEndpoint('/api/analytics/forecast', 'GET', req.user!.id)
+
+  res.set('X-Cache-Status', hit ? 'HIT' : 'MISS')
+  res.json(data)
 }))
 
 export default router
@@ -0,0 +1,51 @@
+// LeadAI Pro - Call Webhook Routes
+// Public Twilio callbacks: call status changes and finished recordings
+
+import express from 'express'
+import { callSessionService, CALL_STATUS_BY_DIAL } from '../../lib/calls/callSessionService'
+import { parseTwilioCallStatus } from '../../lib/calls/telephony'
+import { jobQueue } from '../../lib/jobs/jobQueue'
+import { prisma } from '../../lib/database'
+import { requireTwilioSignature } from '../middleware/twilio'
+import { asyncHandler } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+router.use(requireTwilioSignature)
+
+// StatusCallback: initiated, ringing, answered and completed
+router.post('/status', asyncHandler(async (req, res) => {
+  const status = parseTwilioCallStatus(req.body?.CallStatus)
+  const session = req.body?.CallSid ? await callSessionService.findByProviderCallId(String(req.body.CallSid)) : null
+
+  // Unknown calls are acknowledged too, or Twilio keeps retrying them
+  if (session && status) {
+    const duration = Number(req.body.CallDuration)
+    await callSessionService.updateStatus(session.id, CALL_STATUS_BY_DIAL[status], {
+      ...(Number.isFinite(duration) && req.body.CallDuration !== undefined && { durationSeconds: duration }),
+      ...(status === 'failed' && req.body.ErrorMessage && { reason: String(req.body.ErrorMessage) }),
+    })
+  }
+
+  res.status(204).end()
+}))
+
+// RecordingStatusCallback: the recording is transcribed and analyzed in the background
+router.post('/recording', asyncHandler(async (req, res) => {
+  const session = req.body?.CallSid ? await callSessionService.findByProviderCallId(String(req.body.CallSid)) : null
+
+  if (session && req.body.RecordingStatus === 'completed' && req.body.RecordingUrl) {
+    const recordingUrl = String(req.body.RecordingUrl)
+    await callSessionService.setRecording(session.id, recordingUrl)
+
+    const lead = await prisma.lead.findUnique({ where: { id: session.leadId }, select: { organizationId: true } })
+    await jobQueue.enqueue('calls.ingestRecording', { callSessionId: session.id, recordingUrl }, {
+      organizationId: lead?.organizationId,
+      userId: session.userId,
+    })
+  }
+
+  res.status(204).end()
+}))
+
+export default router
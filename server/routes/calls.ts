@@ -0,0 +1,147 @@
+// LeadAI Pro - Call Routes
+// Placing calls, call history, the post-call disposition form and recording uploads
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { prisma } from '../../lib/database'
+import { AICallingSystem } from '../../lib/ai/callingSystem'
+import { CALL_STATUSES, CallSessionError, callSessionService, validateDisposition } from '../../lib/calls/callSessionService'
+import { jobQueue } from '../../lib/jobs/jobQueue'
+import { asyncHandler, ValidationError, NotFoundError, AuthorizationError } from '../middleware/errorHandler'
+
+const router = express.Router()
+const callingSystem = new AICallingSystem()
+
+const callError = (error: unknown) => {
+  if (error instanceof CallSessionError) {
+    return error.code === 'not_found' ? new NotFoundError('Call') : new ValidationError(error.message)
+  }
+  return error
+}
+
+// Reps only see and log their own calls
+const repScope = (req: express.Request): string | undefined =>
+  req.user!.role === 'sales_rep' ? req.user!.id : undefined
+
+const findCall = async (req: express.Request) => {
+  const session = await callSessionService.get(req.user!.organizationId, req.params.id)
+  const scope = repScope(req)
+  if (!session || (scope && session.userId !== scope)) {
+    throw new NotFoundError('Call')
+  }
+  return session
+}
+
+// List calls, newest first
+router.get('/', [
+  query('status').optional().isIn(CALL_STATUSES),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  query('offset').optional().isInt({ min: 0 }),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { sessions, total } = await callSessionService.list(req.user!.organizationId, {
+    leadId: req.query.leadId as string | undefined,
+    userId: repScope(req) || (req.query.userId as string | undefined),
+    status: req.query.status as any,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    offset: req.query.offset ? Number(req.query.offset) : undefined,
+  })
+
+  res.json({ calls: sessions, total })
+}))
+
+router.get('/:id', asyncHandler(async (req, res) => {
+  res.json({ call: await findCall(req) })
+}))
+
+// Call a lead. A call the compliance check stops is saved as BLOCKED with the reason.
+router.post('/', [
+  body('leadId').isString().withMessage('leadId is required'),
+  body('phoneNumber').optional().isString(),
+  body('scriptId').optional().isString(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const lead = await prisma.lead.findUnique({
+    where: { id: req.body.leadId },
+    select: { organizationId: true, assignedTo: true },
+  })
+  if (!lead || lead.organizationId !== req.user!.organizationId) {
+    throw new NotFoundError('Lead')
+  }
+  if (req.user!.role === 'sales_rep' && lead.assignedTo !== req.user!.id) {
+    throw new AuthorizationError('Access denied to this lead')
+  }
+
+  try {
+    const call = await callingSystem.placeCall(req.user!.organizationId, req.user!.id, {
+      leadId: req.body.leadId,
+      phoneNumber: req.body.phoneNumber,
+      scriptId: req.body.scriptId,
+    })
+    res.status(201).json({ call })
+  } catch (error) {
+    throw callError(error)
+  }
+}))
+
+// Disposition form: outcome, notes and an optional follow-up; logs the call as an activity
+router.post('/:id/disposition', asyncHandler(async (req, res) => {
+  const dispositionErrors = validateDisposition(req.body)
+  if (dispositionErrors.length > 0) {
+    throw new ValidationError('Invalid disposition', dispositionErrors)
+  }
+
+  const session = await findCall(req)
+  try {
+    const call = await callSessionService.recordDisposition(req.user!.organizationId, session.id, {
+      outcome: req.body.outcome,
+      notes: req.body.notes,
+      followUpAt: req.body.followUpAt,
+      durationSeconds: req.body.durationSeconds,
+    }, req.user!.id)
+
+    res.json({ message: 'Call disposition recorded', call })
+  } catch (error) {
+    throw callError(error)
+  }
+}))
+
+// Add a recording or transcript (e.g. a call made outside the dialer); analyzed in the background
+router.post('/:id/recording', [
+  body('recordingUrl').optional().isURL({ protocols: ['https'], require_protocol: true }).withMessage('recordingUrl must be an https URL'),
+  body('transcript').optional().isString().isLength({ min: 1, max: 200000 }),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+  if (!req.body.recordingUrl && !req.body.transcript) {
+    throw new ValidationError('recordingUrl or transcript is required')
+  }
+
+  const session = await findCall(req)
+  if (session.status === 'BLOCKED') {
+    throw new ValidationError('Call was not placed')
+  }
+
+  const job = await jobQueue.enqueue('calls.ingestRecording', {
+    callSessionId: session.id,
+    recordingUrl: req.body.recordingUrl,
+    transcript: req.body.transcript,
+  }, {
+    organizationId: req.user!.organizationId,
+    userId: req.user!.id,
+  })
+
+  res.status(202).json({ message: 'Recording queued for analysis', jobId: job.id })
+}))
+
+export default router
@@ -0,0 +1,131 @@
+// LeadAI Pro - Comparable Routes
+// Comparable sales for a property: PropStream import, manual comps, include/exclude and ARV analyses
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { comparableService, ComparableError, validateComparableInput } from '../../lib/properties/comparableService'
+import { COMPARABLE_INCLUSIONS, validateCompCriteria } from '../../lib/properties/comparables'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+// Mounted at /api/properties/:id/comparables
+const router = express.Router({ mergeParams: true })
+
+const comparableError = (error: unknown) => {
+  if (error instanceof ComparableError) {
+    return error.code === 'not_found' ? new NotFoundError(error.resource) : new ValidationError(error.message)
+  }
+  return error
+}
+
+const checkValidation = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+}
+
+router.get('/', asyncHandler(async (req, res) => {
+  try {
+    const [comparables, analysis] = await Promise.all([
+      comparableService.list(req.user!.organizationId, req.params.id),
+      comparableService.latestAnalysis(req.user!.organizationId, req.params.id),
+    ])
+    res.json({ comparables, analysis })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+// Add a comp by hand; it counts from the next analysis
+router.post('/', asyncHandler(async (req, res) => {
+  const comparableErrors = validateComparableInput(req.body)
+  if (comparableErrors.length > 0) {
+    throw new ValidationError('Invalid comparable', comparableErrors)
+  }
+
+  try {
+    const comparable = await comparableService.create(req.user!.organizationId, req.params.id, req.body)
+    res.status(201).json({ comparable })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+// Fetch sold comps from PropStream within radius miles and re-run the analysis
+router.post('/import', [
+  body('radius').optional().isFloat({ min: 0.1, max: 10 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  try {
+    const result = await comparableService.importFromPropStream(req.user!.organizationId, req.params.id, req.user!.id, {
+      radius: req.body.radius,
+    })
+    res.json(result)
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+router.get('/analysis', asyncHandler(async (req, res) => {
+  try {
+    const analysis = await comparableService.latestAnalysis(req.user!.organizationId, req.params.id)
+    res.json({ analysis })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+// Re-run the ARV. Criteria given are kept for later runs; ?preview=true saves nothing.
+router.post('/analysis', [
+  query('preview').optional().isBoolean(),
+  body('criteria').optional().isObject(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const criteria = req.body.criteria || {}
+  const criteriaErrors = validateCompCriteria(criteria)
+  if (criteriaErrors.length > 0) {
+    throw new ValidationError('Invalid comp criteria', criteriaErrors)
+  }
+
+  try {
+    const { estimate, analysis } = await comparableService.analyze(req.user!.organizationId, req.params.id, req.user!.id, criteria, {
+      save: req.query.preview !== 'true',
+    })
+    res.json({ estimate, analysis })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+// Include or exclude a comp (AUTO returns it to the criteria); responds with the recomputed analysis
+router.put('/:comparableId', [
+  body('inclusion').isIn(COMPARABLE_INCLUSIONS).withMessage(`inclusion must be one of: ${COMPARABLE_INCLUSIONS.join(', ')}`),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  try {
+    const analysis = await comparableService.setInclusion(
+      req.user!.organizationId,
+      req.params.id,
+      req.params.comparableId,
+      req.body.inclusion,
+      req.user!.id
+    )
+    res.json({ analysis })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+router.delete('/:comparableId', asyncHandler(async (req, res) => {
+  try {
+    await comparableService.delete(req.user!.organizationId, req.params.id, req.params.comparableId)
+    res.json({ message: 'Comparable deleted successfully' })
+  } catch (error) {
+    throw comparableError(error)
+  }
+}))
+
+export default router
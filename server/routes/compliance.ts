@@ -0,0 +1,205 @@
+// LeadAI Pro - Compliance Routes
+// Suppression list, DNC imports, consent records and quiet-hours settings
+
+import express from 'express'
+import multer from 'multer'
+import { body, query, validationResult } from 'express-validator'
+import { SUPPRESSION_CHANNELS, SuppressionChannel, SuppressionError, suppressionList } from '../../lib/compliance/suppressionList'
+import { consentLedger, validateConsentInput } from '../../lib/compliance/consentLedger'
+import { complianceGuard, validateComplianceSettings } from '../../lib/compliance/complianceGuard'
+import { MAX_DNC_FILE_BYTES, parseDncFile } from '../../lib/compliance/dncImport'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+const dncUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_DNC_FILE_BYTES,
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|txt)$/i.test(file.originalname)) {
+      cb(null, true)
+    } else {
+      cb(new ValidationError('Only .csv and .txt files can be imported'))
+    }
+  }
+})
+
+const checkValidation = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+}
+
+// List suppressed addresses and numbers
+router.get('/suppressions', [
+  query('channel').optional().isIn(SUPPRESSION_CHANNELS),
+  query('limit').optional().isInt({ min: 1, max: 500 }),
+  query('offset').optional().isInt({ min: 0 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const { entries, total } = await suppressionList.list(req.user!.organizationId, {
+    channel: req.query.channel as SuppressionChannel | undefined,
+    reason: req.query.reason as string | undefined,
+    search: req.query.search as string | undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    offset: req.query.offset ? Number(req.query.offset) : undefined,
+  })
+
+  res.json({ suppressions: entries, total })
+}))
+
+// Put a contact on the internal do-not-contact list
+router.post('/suppressions', [
+  body('channel').isIn(SUPPRESSION_CHANNELS).withMessage(`channel must be one of: ${SUPPRESSION_CHANNELS.join(', ')}`),
+  body('value').isString().isLength({ min: 3, max: 255 }).withMessage('value is required'),
+  body('note').optional().isString().isLength({ max: 500 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const { channel, value, note } = req.body
+  await suppressionList.add(req.user!.organizationId, channel, value, 'internal_dnc', {
+    source: 'manual',
+    note,
+    createdById: req.user!.id,
+  })
+
+  res.status(201).json({
+    message: 'Contact suppressed',
+    suppression: await suppressionList.find(req.user!.organizationId, channel, value),
+  })
+}))
+
+// Take a DNC entry off the list; opt-outs, bounces and complaints stay
+router.delete('/suppressions/:id', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  try {
+    const entry = await suppressionList.remove(req.user!.organizationId, req.params.id)
+    if (!entry) {
+      throw new NotFoundError('Suppression')
+    }
+    res.json({ message: 'Suppression removed', suppression: entry })
+  } catch (error) {
+    if (error instanceof SuppressionError) {
+      throw new ValidationError(error.message)
+    }
+    throw error
+  }
+}))
+
+// Import a DNC list: one number per line, or registry "AAA,NNNNNNN" lines
+router.post('/dnc/import', requireRole(['admin', 'manager']), dncUpload.single('file'), [
+  body('listName').isString().isLength({ min: 1, max: 100 }).withMessage('listName is required'),
+  body('reason').optional().isIn(['internal_dnc', 'dnc_registry']),
+  body('channels').optional().isString(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  if (!req.file) {
+    throw new ValidationError('A .csv or .txt file is required')
+  }
+
+  // Comma-separated; a number on a DNC list may be neither called nor texted by default
+  const channels = String(req.body.channels || 'call,sms').split(',').map(channel => channel.trim())
+  if (channels.some(channel => channel !== 'call' && channel !== 'sms')) {
+    throw new ValidationError('channels must be call and/or sms')
+  }
+
+  const { numbers, invalidLines } = parseDncFile(req.file.buffer.toString('utf8'))
+  if (numbers.length === 0) {
+    throw new ValidationError('No phone numbers found in the file')
+  }
+
+  const results: Record<string, { added: number; existing: number }> = {}
+  for (const channel of channels as SuppressionChannel[]) {
+    results[channel] = await suppressionList.addMany(req.user!.organizationId, channel, numbers, req.body.reason || 'dnc_registry', {
+      source: 'import',
+      listName: req.body.listName,
+      createdById: req.user!.id,
+    })
+  }
+
+  res.status(201).json({
+    message: 'DNC list imported',
+    numbers: numbers.length,
+    invalidLines,
+    results,
+  })
+}))
+
+// Consent history for an address, number or lead
+router.get('/consent', [
+  query('channel').optional().isIn(SUPPRESSION_CHANNELS),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  if (!req.query.leadId && !(req.query.channel && req.query.value)) {
+    throw new ValidationError('leadId, or channel and value, is required')
+  }
+
+  const records = await consentLedger.history(req.user!.organizationId, {
+    channel: req.query.channel as SuppressionChannel | undefined,
+    value: req.query.value as string | undefined,
+    leadId: req.query.leadId as string | undefined,
+  })
+
+  res.json({ records })
+}))
+
+// Record consent given or withdrawn outside the product (signed form, phone call)
+router.post('/consent', asyncHandler(async (req, res) => {
+  const errors = validateConsentInput(req.body)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid consent record', errors)
+  }
+
+  const { channel, value, status, source, leadId, evidence, recordedAt } = req.body
+  const record = await consentLedger.record(req.user!.organizationId, {
+    channel, value, status, source, leadId, evidence, recordedAt,
+    recordedById: req.user!.id,
+  })
+
+  res.status(201).json({ message: 'Consent recorded', record })
+}))
+
+// Whether a contact may be reached on a channel right now, and why not
+router.post('/check', [
+  body('channel').isIn(SUPPRESSION_CHANNELS),
+  body('to').isString().isLength({ min: 3 }),
+  body('leadId').optional().isString(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const { channel, to, leadId } = req.body
+  const decision = await complianceGuard.check(req.user!.organizationId, { channel, to, leadId })
+
+  res.json({ decision })
+}))
+
+router.get('/settings', asyncHandler(async (req, res) => {
+  res.json({ settings: await complianceGuard.getSettings(req.user!.organizationId) })
+}))
+
+router.put('/settings', requireRole(['admin']), asyncHandler(async (req, res) => {
+  const { requireConsent, quietHours, fallbackTimeZones, postalAddress } = req.body
+  const changes = {
+    ...(requireConsent !== undefined && { requireConsent }),
+    ...(quietHours !== undefined && { quietHours }),
+    ...(fallbackTimeZones !== undefined && { fallbackTimeZones }),
+    ...(postalAddress !== undefined && { postalAddress }),
+  }
+
+  const errors = validateComplianceSettings(changes)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid compliance settings', errors)
+  }
+
+  const settings = await complianceGuard.saveSettings(req.user!.organizationId, changes, req.user!.id)
+
+  res.json({ message: 'Compliance settings updated successfully', settings })
+}))
+
+export default router
@@ -0,0 +1,404 @@
+// LeadAI Pro - Deal Routes
+// Investment deals: CRUD, the kanban board, status moves, due-diligence activities, underwriting and expenses
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { prisma } from '../../lib/database'
+import { dealService, DealError, validateDealInput, validateDealActivityInput } from '../../lib/deals/dealService'
+import { DEAL_STATUSES, DEAL_ACTIVITY_STATUSES } from '../../lib/deals/dealPipeline'
+import { dealUnderwritingService, DealUnderwritingError } from '../../lib/deals/underwritingService'
+import { DEAL_TYPES, validateUnderwritingAssumptions } from '../../lib/deals/underwriting'
+import { dealExpenseService, DealExpenseError } from '../../lib/deals/expenseService'
+import { EXPENSE_CATEGORIES, LEDGER_ENTRY_TYPES, validateExpenseInput, validateExpenseBudget } from '../../lib/deals/expenseLedger'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+const dealError = (error: unknown) => {
+  if (error instanceof DealError) {
+    return error.code === 'not_found' ? new NotFoundError(error.resource) : new ValidationError(error.message)
+  }
+  if (error instanceof DealExpenseError) {
+    return error.code === 'not_found' ? new NotFoundError(error.resource) : new ValidationError(error.message)
+  }
+  if (error instanceof DealUnderwritingError) {
+    return error.code === 'not_found'
+      ? new NotFoundError('Deal')
+      : new ValidationError(error.message, error.missingInputs.length > 0 ? { missingInputs: error.missingInputs } : undefined)
+  }
+  return error
+}
+
+// Reps only see and work the deals assigned to them
+const repScope = (req: express.Request): string | undefined =>
+  req.user!.role === 'sales_rep' ? req.user!.id : undefined
+
+const checkValidation = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+}
+
+// 404s deals outside the organization or, for reps, not assigned to them
+const requireDealAccess = asyncHandler(async (req, res, next) => {
+  const deal = await prisma.deal.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+    select: { assignedToId: true },
+  })
+  const scope = repScope(req)
+  if (!deal || (scope && deal.assignedToId !== scope)) {
+    throw new NotFoundError('Deal')
+  }
+  next()
+})
+
+const sendCsv = (res: express.Response, fileName: string, csv: string) => {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`)
+  res.send(csv)
+}
+
+const dateRange = [
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+]
+
+// List deals
+router.get('/', [
+  query('status').optional().isIn(DEAL_STATUSES),
+  query('dealType').optional().isIn(DEAL_TYPES),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+  query('offset').optional().isInt({ min: 0 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const { deals, total } = await dealService.list(req.user!.organizationId, {
+    status: req.query.status as any,
+    dealType: req.query.dealType as any,
+    assignedToId: repScope(req) || (req.query.assignedToId as string | undefined),
+    propertyId: req.query.propertyId as string | undefined,
+    leadId: req.query.leadId as string | undefined,
+    search: req.query.search as string | undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    offset: req.query.offset ? Number(req.query.offset) : undefined,
+  })
+
+  res.json({ deals, total })
+}))
+
+// Kanban board grouped by status, with counts and price, ARV and profit totals per column
+router.get('/board', [
+  query('dealType').optional().isIn(DEAL_TYPES),
+  query('includeClosed').optional().isBoolean(),
+  query('limitPerColumn').optional().isInt({ min: 1, max: 200 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const board = await dealService.board(req.user!.organizationId, {
+    dealType: req.query.dealType as any,
+    assignedToId: repScope(req) || (req.query.assignedToId as string | undefined),
+    includeClosed: req.query.includeClosed === 'true',
+    limitPerColumn: req.query.limitPerColumn ? Number(req.query.limitPerColumn) : undefined,
+  })
+
+  res.json(board)
+}))
+
+// Organization spending by category and month (last twelve months by default)
+router.get('/expenses/rollup', requireRole(['admin', 'manager']), dateRange, asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const rollup = await dealExpenseService.rollup(req.user!.organizationId, {
+    from: req.query.from ? new Date(req.query.from as string) : undefined,
+    to: req.query.to ? new Date(req.query.to as string) : undefined,
+  })
+  res.json(rollup)
+}))
+
+// Every deal's ledger as CSV, for the accountant
+router.get('/expenses/export', requireRole(['admin', 'manager']), [
+  ...dateRange,
+  query('category').optional().isIn(EXPENSE_CATEGORIES),
+  query('entryType').optional().isIn(LEDGER_ENTRY_TYPES),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const csv = await dealExpenseService.exportOrganization(req.user!.organizationId, {
+    from: req.query.from ? new Date(req.query.from as string) : undefined,
+    to: req.query.to ? new Date(req.query.to as string) : undefined,
+    category: req.query.category as any,
+    entryType: req.query.entryType as any,
+  })
+  sendCsv(res, `deal-expenses-${new Date().toISOString().slice(0, 10)}.csv`, csv)
+}))
+
+// Create a deal
+router.post('/', asyncHandler(async (req, res) => {
+  const dealErrors = validateDealInput(req.body)
+  if (dealErrors.length > 0) {
+    throw new ValidationError('Invalid deal', dealErrors)
+  }
+
+  try {
+    const deal = await dealService.create(req.user!.organizationId, req.user!.id, {
+      ...req.body,
+      // Reps create deals for themselves
+      ...(repScope(req) && { assignedToId: req.user!.id }),
+    })
+    res.status(201).json({ message: 'Deal created successfully', deal })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Deal with its property, lead, assignee and activities
+router.get('/:id', requireDealAccess, asyncHandler(async (req, res) => {
+  const deal = await dealService.get(req.user!.organizationId, req.params.id)
+  if (!deal) {
+    throw new NotFoundError('Deal')
+  }
+  res.json({ deal })
+}))
+
+// Update deal details; status changes go through POST /:id/status
+router.put('/:id', requireDealAccess, asyncHandler(async (req, res) => {
+  const { status, ...input } = req.body || {}
+  if (status !== undefined) {
+    throw new ValidationError('Change the status with POST /deals/:id/status')
+  }
+
+  const dealErrors = validateDealInput(input, true)
+  if (dealErrors.length > 0) {
+    throw new ValidationError('Invalid deal', dealErrors)
+  }
+  if (repScope(req) && input.assignedToId !== undefined && input.assignedToId !== req.user!.id) {
+    throw new ValidationError('Sales reps cannot reassign deals')
+  }
+
+  try {
+    const deal = await dealService.update(req.user!.organizationId, req.params.id, input)
+    res.json({ message: 'Deal updated successfully', deal })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.delete('/:id', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  try {
+    await dealService.delete(req.user!.organizationId, req.params.id)
+    res.json({ message: 'Deal deleted successfully' })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Move a deal along the pipeline. Going under contract creates the due-diligence
+// checklist unless checklist is false.
+router.post('/:id/status', requireDealAccess, [
+  body('status').isIn(DEAL_STATUSES).withMessage(`status must be one of: ${DEAL_STATUSES.join(', ')}`),
+  body('checklist').optional().isBoolean(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  try {
+    const { deal, checklist } = await dealService.changeStatus(
+      req.user!.organizationId,
+      req.params.id,
+      req.body.status,
+      req.user!.id,
+      { checklist: req.body.checklist }
+    )
+    res.json({ deal, checklist })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Add the deal type's due-diligence items the deal does not have yet
+router.post('/:id/checklist', requireDealAccess, asyncHandler(async (req, res) => {
+  try {
+    const activities = await dealService.generateChecklist(req.user!.organizationId, req.params.id, req.user!.id)
+    res.status(201).json({ activities })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.get('/:id/activities', requireDealAccess, [
+  query('status').optional().isIn(DEAL_ACTIVITY_STATUSES),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  try {
+    const activities = await dealService.listActivities(req.user!.organizationId, req.params.id, req.query.status as any)
+    res.json({ activities })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.post('/:id/activities', requireDealAccess, asyncHandler(async (req, res) => {
+  const activityErrors = validateDealActivityInput(req.body)
+  if (activityErrors.length > 0) {
+    throw new ValidationError('Invalid deal activity', activityErrors)
+  }
+
+  try {
+    const activity = await dealService.createActivity(req.user!.organizationId, req.params.id, req.user!.id, req.body)
+    res.status(201).json({ activity })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.put('/:id/activities/:activityId', requireDealAccess, asyncHandler(async (req, res) => {
+  const activityErrors = validateDealActivityInput(req.body, true)
+  if (activityErrors.length > 0) {
+    throw new ValidationError('Invalid deal activity', activityErrors)
+  }
+
+  try {
+    const activity = await dealService.updateActivity(req.user!.organizationId, req.params.id, req.params.activityId, req.body)
+    res.json({ activity })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Last saved underwriting for a deal
+router.get('/:id/underwrite', requireDealAccess, asyncHandler(async (req, res) => {
+  try {
+    const { underwriting, underwrittenAt } = await dealUnderwritingService.getUnderwriting(req.user!.organizationId, req.params.id)
+    res.json({ underwriting: underwriting?.result || null, assumptions: underwriting?.overrides || {}, underwrittenAt })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Underwrite a deal. Assumptions given here are saved for the next run; deal numbers among
+// them (price, ARV, repairs, loan) are written to the deal. ?preview=true saves nothing.
+router.post('/:id/underwrite', requireDealAccess, [
+  query('preview').optional().isBoolean(),
+  body('assumptions').optional().isObject(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const assumptions = req.body.assumptions || {}
+  const assumptionErrors = validateUnderwritingAssumptions(assumptions)
+  if (assumptionErrors.length > 0) {
+    throw new ValidationError('Invalid underwriting assumptions', assumptionErrors)
+  }
+
+  try {
+    const preview = req.query.preview === 'true'
+    const { deal, underwriting } = await dealUnderwritingService.underwrite(req.user!.organizationId, req.params.id, assumptions, {
+      save: !preview,
+      userId: req.user!.id,
+    })
+
+    res.json({
+      underwriting,
+      ...(!preview && { deal: { id: deal.id, underwrittenAt: deal.underwrittenAt } }),
+    })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.get('/:id/expenses', requireDealAccess, [
+  query('category').optional().isIn(EXPENSE_CATEGORIES),
+  query('entryType').optional().isIn(LEDGER_ENTRY_TYPES),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  try {
+    const expenses = await dealExpenseService.list(req.user!.organizationId, req.params.id, {
+      category: req.query.category as any,
+      entryType: req.query.entryType as any,
+    })
+    res.json({ expenses })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Record an expense or a draw; documentId links an uploaded receipt
+router.post('/:id/expenses', requireDealAccess, asyncHandler(async (req, res) => {
+  const expenseErrors = validateExpenseInput(req.body)
+  if (expenseErrors.length > 0) {
+    throw new ValidationError('Invalid deal expense', expenseErrors)
+  }
+
+  try {
+    const expense = await dealExpenseService.create(req.user!.organizationId, req.params.id, req.user!.id, req.body)
+    res.status(201).json({ expense })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Budget against actuals, running cost basis and profit against the underwriting
+router.get('/:id/expenses/report', requireDealAccess, asyncHandler(async (req, res) => {
+  try {
+    const report = await dealExpenseService.report(req.user!.organizationId, req.params.id)
+    res.json(report)
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.get('/:id/expenses/export', requireDealAccess, asyncHandler(async (req, res) => {
+  try {
+    const csv = await dealExpenseService.exportDeal(req.user!.organizationId, req.params.id)
+    sendCsv(res, `deal-${req.params.id}-expenses.csv`, csv)
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.put('/:id/expenses/:expenseId', requireDealAccess, asyncHandler(async (req, res) => {
+  const expenseErrors = validateExpenseInput(req.body, true)
+  if (expenseErrors.length > 0) {
+    throw new ValidationError('Invalid deal expense', expenseErrors)
+  }
+
+  try {
+    const expense = await dealExpenseService.update(req.user!.organizationId, req.params.id, req.params.expenseId, req.body)
+    res.json({ expense })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+router.delete('/:id/expenses/:expenseId', requireDealAccess, asyncHandler(async (req, res) => {
+  try {
+    await dealExpenseService.delete(req.user!.organizationId, req.params.id, req.params.expenseId)
+    res.json({ message: 'Deal expense deleted successfully' })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+// Set the budget per expense category, e.g. { "budget": { "REPAIR": 40000 } }. Categories
+// left out or null use the underwritten repair, holding and selling costs.
+router.put('/:id/budget', requireDealAccess, [
+  body('budget').isObject(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
+
+  const budgetErrors = validateExpenseBudget(req.body.budget)
+  if (budgetErrors.length > 0) {
+    throw new ValidationError('Invalid expense budget', budgetErrors)
+  }
+
+  try {
+    const budget = await dealExpenseService.setBudget(req.user!.organizationId, req.params.id, req.body.budget)
+    res.json({ budget })
+  } catch (error) {
+    throw dealError(error)
+  }
+}))
+
+export default router
@@ -7,10 +7,14 @@ import { DocumentProcessingEngine } from '../../lib/ai/documentProcessor'
 import { asyncHandler } from '../middleware/asyncHandler'
 import { requireAuth } from '../middleware/auth'
 import { prisma } from '../../lib/database'
+import { LLMOutputError } from '../../lib/llm/types'
+import { jobQueue } from '../../lib/jobs/jobQueue'
 
 const router = Router()
 const documentProcessor = new DocumentProcessingEngine()
 
+const MAX_BATCH_BYTES = 25 * 1024 * 1024
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -62,6 +66,7 @@ router.post('/scan-business-card', requireAuth, upload.single('image'), asyncHan
     res.json(businessCardData)
   } catch (error) {
     console.error('Business card scanning failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to process business card' })
   }
 }))
@@ -148,74 +153,40 @@ router.post('/analyze', requireAuth, upload.single('document'), asyncHandler(asy
     res.json(processedDocument)
   } catch (error) {
     console.error('Document analysis failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to analyze document' })
   }
 }))
 
-// Batch document processing
+// Batch document processing. Analysis runs in the job worker; poll /api/jobs/:jobId for
+// progress and results.
 router.post('/batch-analyze', requireAuth, upload.array('documents', 10), asyncHandler(async (req, res) => {
   if (!req.files || req.files.length === 0) {
     return res.status(400).json({ error: 'No documents provided' })
   }
 
-  const { organizationId } = req.user as any
+  const { organizationId, id: userId } = req.user as any
   const files = req.files as Express.Multer.File[]
 
-  try {
-    const results = []
-
-    for (const file of files) {
-      try {
-        const extractedText = await documentProcessor.extractTextFromFile(
-          file.buffer, 
-          file.mimetype
-        )
-
-        const analysis = await documentProcessor.analyzeDocument(extractedText, file.originalname)
-        const crmCategory = await documentProcessor.categorizeForCRM(analysis)
-
-        results.push({
-          fileName: file.originalname,
-          success: true,
-          analysis: {
-            ...analysis,
-            crmCategory
-          }
-        })
-      } catch (error) {
-        results.push({
-          fileName: file.originalname,
-          success: false,
-          error: 'Processing failed'
-        })
-      }
-    }
-
-    // Log batch processing
-    await prisma.journeyEvent.create({
-      data: {
-        leadId: 'system',
-        eventType: 'batch_document_analysis',
-        eventName: 'Batch Document Analysis',
-        description: `Processed ${files.length} documents`,
-        properties: {
-          totalDocuments: files.length,
-          successfulProcessing: results.filter(r => r.success).length,
-          failedProcessing: results.filter(r => !r.success).length
-        }
-      }
-    })
-
-    res.json({
-      totalProcessed: files.length,
-      successful: results.filter(r => r.success).length,
-      failed: results.filter(r => !r.success).length,
-      results
-    })
-  } catch (error) {
-    console.error('Batch document processing failed:', error)
-    res.status(500).json({ error: 'Failed to process documents' })
+  // Files travel to the worker inside the job
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0)
+  if (totalBytes > MAX_BATCH_BYTES) {
+    return res.status(413).json({ error: `Batches are limited to ${MAX_BATCH_BYTES / (1024 * 1024)}MB in total` })
   }
+
+  const job = await jobQueue.enqueue('documents.batchAnalyze', {
+    files: files.map(file => ({
+      name: file.originalname,
+      mimeType: file.mimetype,
+      content: file.buffer.toString('base64'),
+    })),
+  }, { organizationId, userId })
+
+  res.status(202).json({
+    jobId: job.id,
+    status: 'queued',
+    totalDocuments: files.length
+  })
 }))
 
 // Get document analysis history
@@ -0,0 +1,96 @@
+// LeadAI Pro - Email Event Routes
+// Public open-pixel, click-redirect and unsubscribe endpoints, and provider webhooks for delivery, bounces and complaints
+
+import express from 'express'
+import { timingSafeEqual } from 'crypto'
+import { emailEvents } from '../../lib/email/emailEvents'
+import { TRACKING_PIXEL, trackingOptions, verifyTrackingToken } from '../../lib/email/emailTracking'
+import { WEBHOOK_PROVIDERS, WebhookProvider, parseWebhookEvents } from '../../lib/email/emailWebhooks'
+import { asyncHandler, ValidationError, AuthenticationError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+// Tracking must never break the email, so failures are only logged
+const recordQuietly = (event: Parameters<typeof emailEvents.record>[0]) =>
+  emailEvents.record(event).catch(error => console.error('Failed to record email event:', { type: event.type, error }))
+
+// Open pixel
+router.get('/o/:token.gif', asyncHandler(async (req, res) => {
+  const secret = trackingOptions().secret
+  const token = secret ? verifyTrackingToken(req.params.token, secret) : null
+  if (token) {
+    await recordQuietly({ type: 'open', recipientId: token.recipientId, ipAddress: req.ip, userAgent: req.get('user-agent') })
+  }
+
+  // Webmail loads the pixel from its own origin
+  res.set({ 'Content-Type': 'image/gif', 'Cache-Control': 'no-store, max-age=0', 'Cross-Origin-Resource-Policy': 'cross-origin' })
+  res.send(TRACKING_PIXEL)
+}))
+
+// Click redirect. Only signed links are followed, so this cannot be used as an open redirect.
+router.get('/c/:token', asyncHandler(async (req, res) => {
+  const secret = trackingOptions().secret
+  const token = secret ? verifyTrackingToken(req.params.token, secret) : null
+  if (!token?.url) {
+    throw new ValidationError('Invalid tracking link')
+  }
+
+  await recordQuietly({ type: 'click', recipientId: token.recipientId, url: token.url, ipAddress: req.ip, userAgent: req.get('user-agent') })
+  res.redirect(302, token.url)
+}))
+
+const unsubscribeToken = (value: string) => {
+  const secret = trackingOptions().secret
+  const token = secret ? verifyTrackingToken(value, secret) : null
+  if (token?.purpose !== 'unsubscribe') {
+    throw new ValidationError('Invalid unsubscribe link')
+  }
+  return token
+}
+
+const page = (title: string, body: string) =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${title}</title></head>` +
+  `<body style="font-family:sans-serif;max-width:480px;margin:48px auto;text-align:center">${body}</body></html>`
+
+// Unsubscribe link. Link scanners follow GETs, so the opt-out itself needs the POST below.
+router.get('/u/:token', asyncHandler(async (req, res) => {
+  unsubscribeToken(req.params.token)
+  res.set('Cache-Control', 'no-store')
+  res.send(page('Unsubscribe',
+    '<p>Stop receiving these emails?</p>' +
+    `<form method="post" action="${req.baseUrl}/u/${encodeURIComponent(req.params.token)}"><button type="submit">Unsubscribe</button></form>`))
+}))
+
+// The confirmation form, and one-click unsubscribe from the mail client (RFC 8058)
+router.post('/u/:token', asyncHandler(async (req, res) => {
+  const token = unsubscribeToken(req.params.token)
+  await emailEvents.record({ type: 'unsubscribe', recipientId: token.recipientId, source: 'link' })
+
+  res.set('Cache-Control', 'no-store')
+  res.send(page('Unsubscribed', '<p>You have been unsubscribed and will not receive these emails again.</p>'))
+}))
+
+// Provider callbacks, authenticated with EMAIL_WEBHOOK_SECRET as ?token= or X-Webhook-Token
+router.post('/webhooks/:provider', asyncHandler(async (req, res) => {
+  const secret = process.env.EMAIL_WEBHOOK_SECRET
+  const given = String(req.get('x-webhook-token') || req.query.token || '')
+  if (!secret || given.length !== secret.length || !timingSafeEqual(Buffer.from(given), Buffer.from(secret))) {
+    throw new AuthenticationError('Invalid webhook token')
+  }
+
+  const provider = req.params.provider as WebhookProvider
+  if (!WEBHOOK_PROVIDERS.includes(provider)) {
+    throw new ValidationError(`provider must be one of: ${WEBHOOK_PROVIDERS.join(', ')}`)
+  }
+
+  const events = parseWebhookEvents(provider, req.body)
+  let matched = 0
+  for (const event of events) {
+    if (await emailEvents.record(event)) matched++
+  }
+
+  // Unknown messages are acknowledged too, or the provider keeps retrying them
+  res.json({ received: events.length, matched })
+}))
+
+export default router
@@ -0,0 +1,254 @@
+// LeadAI Pro - Follow-up Routes
+// Sequence templates, lead enrollments and the rep approval queue
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { prisma } from '../../lib/database'
+import { followUpScheduler, FollowUpStepError } from '../../lib/followUps/followUpScheduler'
+import { sequenceTemplateService, validateSequenceTemplate, TRIGGER_EVENTS } from '../../lib/followUps/sequenceTemplates'
+import { requireRole, requireLeadAccess } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+const stepError = (error: unknown, resource: string = 'Follow-up step') => {
+  if (error instanceof FollowUpStepError) {
+    return error.code === 'not_found' ? new NotFoundError(resource) : new ValidationError(error.message)
+  }
+  return error
+}
+
+// Reps only act on steps and enrollments for their own leads
+const repScope = (req: express.Request): string | undefined =>
+  req.user!.role === 'sales_rep' ? req.user!.id : undefined
+
+const templateValidation = [
+  body('name').isString().isLength({ min: 1, max: 255 }).withMessage('name is required'),
+  body('description').optional({ values: 'null' }).isString(),
+  body('triggerEvent').isIn(TRIGGER_EVENTS).withMessage(`triggerEvent must be one of: ${TRIGGER_EVENTS.join(', ')}`),
+  body('leadTypes').optional().isArray(),
+  body('isActive').optional().isBoolean(),
+  body('stopOnReply').isBoolean(),
+  body('stopOnMeeting').isBoolean(),
+  body('maxDuration').isInt({ min: 1, max: 365 }),
+  body('steps').isArray({ min: 1 }).withMessage('at least one step is required'),
+]
+
+const checkTemplate = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const templateErrors = validateSequenceTemplate({ leadTypes: [], ...req.body })
+  if (templateErrors.length > 0) {
+    throw new ValidationError('Invalid follow-up sequence', templateErrors)
+  }
+}
+
+// Find an enrollment the user can act on
+const findEnrollment = async (req: express.Request) => {
+  const enrollment = await prisma.followUpEnrollment.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, sequenceId: true, status: true, organizationId: true, lead: { select: { assignedTo: true } } },
+  })
+
+  const scope = repScope(req)
+  if (!enrollment || enrollment.organizationId !== req.user!.organizationId || (scope && enrollment.lead.assignedTo !== scope)) {
+    throw new NotFoundError('Follow-up enrollment')
+  }
+
+  return enrollment
+}
+
+// List sequence templates for organization
+router.get('/templates', [
+  query('includeInactive').optional().isBoolean(),
+], asyncHandler(async (req, res) => {
+  const templates = await sequenceTemplateService.list(
+    req.user!.organizationId,
+    req.query.includeInactive === 'true'
+  )
+
+  res.json({ templates })
+}))
+
+// Get a template with all of its versions
+router.get('/templates/:id', asyncHandler(async (req, res) => {
+  const template = await sequenceTemplateService.get(req.user!.organizationId, req.params.id)
+  if (!template) {
+    throw new NotFoundError('Follow-up sequence')
+  }
+
+  res.json({ template })
+}))
+
+// Per-version and per-step conversion stats across all enrollments
+router.get('/templates/:id/stats', asyncHandler(async (req, res) => {
+  const versions = await sequenceTemplateService.getStats(req.user!.organizationId, req.params.id)
+  if (!versions) {
+    throw new NotFoundError('Follow-up sequence')
+  }
+
+  res.json({ versions })
+}))
+
+// Create sequence template
+router.post('/templates', requireRole(['admin', 'manager']), templateValidation, asyncHandler(async (req, res) => {
+  checkTemplate(req)
+
+  const template = await sequenceTemplateService.create(req.user!.organizationId, req.body, req.user!.id)
+
+  res.status(201).json({
+    message: 'Follow-up sequence created successfully',
+    template,
+  })
+}))
+
+// Update sequence template; step or setting changes publish a new version and
+// leads already enrolled finish on the version they started
+router.put('/templates/:id', requireRole(['admin', 'manager']), templateValidation, asyncHandler(async (req, res) => {
+  checkTemplate(req)
+
+  const updated = await sequenceTemplateService.update(req.user!.organizationId, req.params.id, req.body, req.user!.id)
+  if (!updated) {
+    throw new NotFoundError('Follow-up sequence')
+  }
+
+  res.json({
+    message: updated.newVersion
+      ? `Follow-up sequence updated to version ${updated.newVersion}`
+      : 'Follow-up sequence updated successfully',
+    template: updated.sequence,
+  })
+}))
+
+// Deactivate sequence template; existing enrollments keep running
+router.delete('/templates/:id', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const deactivated = await sequenceTemplateService.deactivate(req.user!.organizationId, req.params.id)
+  if (!deactivated) {
+    throw new NotFoundError('Follow-up sequence')
+  }
+
+  res.json({ message: 'Follow-up sequence deactivated' })
+}))
+
+// Report a trigger event for a lead (e.g. PROPOSAL_SENT) and enroll it in matching templates
+router.post('/lead/:leadId/events', requireLeadAccess, [
+  body('event').isIn(TRIGGER_EVENTS).withMessage(`event must be one of: ${TRIGGER_EVENTS.join(', ')}`),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const enrolled = await followUpScheduler.enroll(req.params.leadId, req.body.event)
+
+  res.status(enrolled.length > 0 ? 201 : 200).json({ enrolled })
+}))
+
+// Enroll a lead in a template by hand
+router.post('/lead/:leadId/enrollments', requireLeadAccess, [
+  body('sequenceId').isString().notEmpty().withMessage('sequenceId is required'),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const enrollment = await followUpScheduler
+    .enrollInSequence(req.params.leadId, req.body.sequenceId, req.user!.id)
+    .catch(error => { throw stepError(error, 'Follow-up sequence') })
+
+  res.status(201).json({ enrollment })
+}))
+
+// Get a lead's enrollments and step statuses
+router.get('/lead/:leadId', requireLeadAccess, asyncHandler(async (req, res) => {
+  const enrollments = await followUpScheduler.getLeadEnrollments(req.params.leadId)
+
+  res.json({ enrollments })
+}))
+
+// Pause a lead's enrollment
+router.post('/enrollments/:id/pause', asyncHandler(async (req, res) => {
+  const enrollment = await findEnrollment(req)
+
+  await followUpScheduler.pauseEnrollment(enrollment.id).catch(error => { throw stepError(error) })
+
+  res.json({ message: 'Follow-up enrollment paused' })
+}))
+
+// Resume a paused enrollment
+router.post('/enrollments/:id/resume', asyncHandler(async (req, res) => {
+  const enrollment = await findEnrollment(req)
+
+  await followUpScheduler.resumeEnrollment(enrollment.id).catch(error => { throw stepError(error) })
+
+  res.json({ message: 'Follow-up enrollment resumed' })
+}))
+
+// Take a lead out of a sequence early
+router.post('/enrollments/:id/unenroll', [
+  body('reason').optional().isString().isLength({ max: 255 }),
+], asyncHandler(async (req, res) => {
+  const enrollment = await findEnrollment(req)
+  if (!['ACTIVE', 'PAUSED'].includes(enrollment.status as string)) {
+    throw new ValidationError('Only active or paused enrollments can be ended')
+  }
+
+  await followUpScheduler.unenroll(enrollment, req.body.reason)
+
+  res.json({ message: 'Lead unenrolled from follow-up sequence' })
+}))
+
+// Steps waiting for approval (reps see their own leads; managers can filter by rep)
+router.get('/queue', [
+  query('userId').optional().isUUID(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const steps = await followUpScheduler.getApprovalQueue(
+    req.user!.organizationId,
+    repScope(req) || (req.query.userId as string | undefined)
+  )
+
+  res.json({ steps })
+}))
+
+// Approve a queued step and run it
+router.post('/steps/:id/approve', [
+  body('title').optional().isString().isLength({ min: 1, max: 255 }),
+  body('content').optional().isString().isLength({ min: 1 }),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { title, content } = req.body
+  const outcome = await followUpScheduler
+    .approveStep(req.params.id, req.user!.organizationId, req.user!.id, {
+      ...(title && { title }),
+      ...(content && { content }),
+    }, repScope(req))
+    .catch(error => { throw stepError(error) })
+
+  res.json({ message: 'Follow-up step approved', outcome })
+}))
+
+// Reject a queued step; the sequence moves on to the next step
+router.post('/steps/:id/reject', [
+  body('reason').optional().isString().isLength({ max: 255 }),
+], asyncHandler(async (req, res) => {
+  await followUpScheduler
+    .rejectStep(req.params.id, req.user!.organizationId, req.user!.id, req.body.reason, repScope(req))
+    .catch(error => { throw stepError(error) })
+
+  res.json({ message: 'Follow-up step rejected' })
+}))
+
+export default router
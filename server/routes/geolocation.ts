@@ -1,272 +1,104 @@
-// LeadFlow AI - Geolocation API Routes
-// Location search, reverse geocoding, and geographic data endpoints
+// LeadAI Pro - Geolocation Routes
+// Location search, drill-down and nearby lookups over the cities, states and ZIP codes of the organization's properties
 
-import { Router } from 'express'
+import express from 'express'
 import { body, query, validationResult } from 'express-validator'
-import { asyncHandler } from '../middleware/errorHandler'
-import { GeographicSearchService } from '../../frontend/src/data/usGeographicData'
+import { propertyService } from '../../lib/properties/propertyService'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
 
-const router = Router()
+const router = express.Router()
 
-// Search locations by query
-router.post('/search', [
-  body('query').isString().isLength({ min: 1 }),
-  body('limit').optional().isInt({ min: 1, max: 50 })
-], asyncHandler(async (req, res) => {
+const checkValidation = (req: express.Request) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
-  }
-
-  const { query, limit = 10 } = req.body
-
-  try {
-    const results = GeographicSearchService.searchLocations(query, limit)
-    
-    res.json({
-      results,
-      query,
-      totalCount: results.length
-    })
-  } catch (error) {
-    console.error('Location search error:', error)
-    res.status(500).json({ error: 'Failed to search locations' })
+    throw new ValidationError('Validation failed', errors.array())
   }
-}))
+}
 
-// Get nearby locations
-router.post('/nearby', [
-  body('lat').isFloat({ min: -90, max: 90 }),
-  body('lng').isFloat({ min: -180, max: 180 }),
-  body('radius').optional().isFloat({ min: 1, max: 100 })
+// Cities (by name or state code) and ZIP codes matching the query, with property counts
+router.post('/search', [
+  body('query').isString().trim().isLength({ min: 1 }),
+  body('limit').optional().isInt({ min: 1, max: 50 }),
 ], asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
-  }
+  checkValidation(req)
 
-  const { lat, lng, radius = 25 } = req.body
+  const { query: text, limit = 10 } = req.body
+  const results = await propertyService.searchLocations(req.user!.organizationId, text, limit)
 
-  try {
-    const nearbyLocations = GeographicSearchService.getNearbyLocations(lat, lng, radius)
-    
-    res.json({
-      results: nearbyLocations,
-      center: { lat, lng },
-      radius,
-      totalCount: nearbyLocations.length
-    })
-  } catch (error) {
-    console.error('Nearby locations error:', error)
-    res.status(500).json({ error: 'Failed to get nearby locations' })
-  }
+  res.json({ results, query: text, totalCount: results.length })
 }))
 
-// Reverse geocoding
-router.post('/reverse', [
-  body('lat').isFloat({ min: -90, max: 90 }),
-  body('lng').isFloat({ min: -180, max: 180 })
+// Property counts by state; by city with ?state=; by ZIP code with ?state=&city=
+router.get('/hierarchy', [
+  query('state').optional().isString().isLength({ min: 1 }),
+  query('city').optional().isString().isLength({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
 ], asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
-  }
-
-  const { lat, lng } = req.body
+  checkValidation(req)
 
-  try {
-    // Enhanced reverse geocoding with US geographic data
-    const address = reverseGeocode(lat, lng)
-    const nearbyLocations = GeographicSearchService.getNearbyLocations(lat, lng, 5)
-    
-    res.json({
-      address,
-      coordinates: { lat, lng },
-      nearbyLocations: nearbyLocations.slice(0, 3)
-    })
-  } catch (error) {
-    console.error('Reverse geocoding error:', error)
-    res.status(500).json({ error: 'Failed to reverse geocode coordinates' })
+  const state = req.query.state as string | undefined
+  const city = req.query.city as string | undefined
+  if (city && !state) {
+    throw new ValidationError('city needs a state')
   }
-}))
-
-// Get location hierarchy
-router.get('/hierarchy/:locationId', asyncHandler(async (req, res) => {
-  const { locationId } = req.params
 
-  try {
-    const hierarchy = GeographicSearchService.getLocationHierarchy(locationId)
-    
-    res.json({
-      locationId,
-      hierarchy
-    })
-  } catch (error) {
-    console.error('Location hierarchy error:', error)
-    res.status(500).json({ error: 'Failed to get location hierarchy' })
-  }
+  const results = await propertyService.locationBreakdown(
+    req.user!.organizationId,
+    { state, city },
+    req.query.limit ? Number(req.query.limit) : undefined
+  )
+  res.json({ level: city ? 'zipCode' : state ? 'city' : 'state', state, city, results })
 }))
 
-// Get popular locations
+// Cities or states with the most properties
 router.get('/popular', [
-  query('type').optional().isIn(['city', 'state', 'neighborhood', 'all']),
-  query('limit').optional().isInt({ min: 1, max: 50 })
+  query('type').optional().isIn(['city', 'state']),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
 ], asyncHandler(async (req, res) => {
-  const { type = 'all', limit = 20 } = req.query
-
-  try {
-    const popularLocations = getPopularLocations(type as string, Number(limit))
-    
-    res.json({
-      results: popularLocations,
-      type,
-      totalCount: popularLocations.length
-    })
-  } catch (error) {
-    console.error('Popular locations error:', error)
-    res.status(500).json({ error: 'Failed to get popular locations' })
-  }
-}))
-
-// Get location statistics
-router.get('/stats/:locationId', asyncHandler(async (req, res) => {
-  const { locationId } = req.params
+  checkValidation(req)
 
-  try {
-    const location = GeographicSearchService.getLocationById(locationId)
-    
-    if (!location) {
-      return res.status(404).json({ error: 'Location not found' })
-    }
+  const type = (req.query.type as string) || 'city'
+  const limit = req.query.limit ? Number(req.query.limit) : 20
+  const results = type === 'state'
+    ? await propertyService.locationBreakdown(req.user!.organizationId, {}, limit)
+    : await propertyService.popularCities(req.user!.organizationId, limit)
 
-    // Generate location statistics
-    const stats = {
-      location,
-      population: Math.floor(Math.random() * 1000000) + 50000,
-      medianIncome: Math.floor(Math.random() * 50000) + 40000,
-      unemploymentRate: Math.random() * 8 + 2,
-      crimeRate: Math.random() * 5 + 1,
-      schoolRating: Math.floor(Math.random() * 5) + 5,
-      walkScore: Math.floor(Math.random() * 50) + 50,
-      transitScore: Math.floor(Math.random() * 40) + 30,
-      bikeScore: Math.floor(Math.random() * 60) + 20,
-      nearbyAmenities: {
-        schools: Math.floor(Math.random() * 20) + 5,
-        hospitals: Math.floor(Math.random() * 5) + 1,
-        shoppingCenters: Math.floor(Math.random() * 10) + 2,
-        restaurants: Math.floor(Math.random() * 50) + 10,
-        parks: Math.floor(Math.random() * 15) + 3
-      }
-    }
-    
-    res.json(stats)
-  } catch (error) {
-    console.error('Location stats error:', error)
-    res.status(500).json({ error: 'Failed to get location statistics' })
-  }
+  res.json({ results, type, totalCount: results.length })
 }))
 
-// Enhanced reverse geocoding function
-function reverseGeocode(lat: number, lng: number): string {
-  // New York City area detection
-  if (lat >= 40.4774 && lat <= 40.9176 && lng >= -74.2591 && lng <= -73.7004) {
-    if (lat >= 40.7831 && lng >= -73.9712) {
-      return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, Manhattan, NY 10001`
-    } else if (lat >= 40.6782 && lng >= -73.9442) {
-      return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, Brooklyn, NY 11201`
-    } else if (lat >= 40.7282 && lng >= -73.7949) {
-      return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, Queens, NY 11101`
-    } else if (lat >= 40.8448 && lng >= -73.8648) {
-      return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, Bronx, NY 10451`
-    } else {
-      return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, Staten Island, NY 10301`
-    }
-  }
-  // Los Angeles area
-  else if (lat >= 33.7037 && lat <= 34.3373 && lng >= -118.6681 && lng <= -118.1553) {
-    return `${Math.floor(Math.random() * 9999) + 1} ${getRandomStreetName()}, Los Angeles, CA 90210`
-  }
-  // San Francisco area
-  else if (lat >= 37.7079 && lat <= 37.8324 && lng >= -122.5143 && lng <= -122.3482) {
-    return `${Math.floor(Math.random() * 999) + 1} ${getRandomStreetName()}, San Francisco, CA 94102`
-  }
-  // Default fallback
-  else {
-    return `Property at ${lat.toFixed(6)}, ${lng.toFixed(6)}`
-  }
-}
-
-// Get random street name for realistic addresses
-function getRandomStreetName(): string {
-  const streetNames = [
-    'Main St', 'Oak Ave', 'Park Blvd', 'First St', 'Second Ave', 'Broadway',
-    'Washington St', 'Lincoln Ave', 'Madison St', 'Jefferson Ave', 'Adams St',
-    'Jackson Ave', 'Monroe St', 'Roosevelt Ave', 'Wilson St', 'Johnson Ave',
-    'Williams St', 'Brown Ave', 'Davis St', 'Miller Ave', 'Wilson St',
-    'Moore Ave', 'Taylor St', 'Anderson Ave', 'Thomas St', 'Jackson Ave'
-  ]
-  return streetNames[Math.floor(Math.random() * streetNames.length)]
-}
+// Cities with properties within a radius (miles) of a point, nearest first
+router.post('/nearby', [
+  body('lat').isFloat({ min: -90, max: 90 }).toFloat(),
+  body('lng').isFloat({ min: -180, max: 180 }).toFloat(),
+  body('radius').optional().isFloat({ min: 0.1, max: 100 }).toFloat(),
+  body('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-// Get popular locations by type
-function getPopularLocations(type: string, limit: number) {
-  const popularCities = [
-    { id: 'nyc', name: 'New York City', state: 'NY', type: 'city', popularity: 100 },
-    { id: 'la', name: 'Los Angeles', state: 'CA', type: 'city', popularity: 95 },
-    { id: 'chicago', name: 'Chicago', state: 'IL', type: 'city', popularity: 90 },
-    { id: 'houston', name: 'Houston', state: 'TX', type: 'city', popularity: 85 },
-    { id: 'phoenix', name: 'Phoenix', state: 'AZ', type: 'city', popularity: 80 },
-    { id: 'philadelphia', name: 'Philadelphia', state: 'PA', type: 'city', popularity: 75 },
-    { id: 'san-antonio', name: 'San Antonio', state: 'TX', type: 'city', popularity: 70 },
-    { id: 'san-diego', name: 'San Diego', state: 'CA', type: 'city', popularity: 65 },
-    { id: 'dallas', name: 'Dallas', state: 'TX', type: 'city', popularity: 60 },
-    { id: 'san-jose', name: 'San Jose', state: 'CA', type: 'city', popularity: 55 }
-  ]
+  const { lat, lng, radius = 25, limit = 10 } = req.body
+  const results = await propertyService.nearbyLocations(req.user!.organizationId, { latitude: lat, longitude: lng }, radius, limit)
 
-  const popularStates = [
-    { id: 'ny', name: 'New York', type: 'state', popularity: 100 },
-    { id: 'ca', name: 'California', type: 'state', popularity: 95 },
-    { id: 'tx', name: 'Texas', type: 'state', popularity: 90 },
-    { id: 'fl', name: 'Florida', type: 'state', popularity: 85 },
-    { id: 'il', name: 'Illinois', type: 'state', popularity: 80 }
-  ]
+  res.json({ results, center: { lat, lng }, radius, totalCount: results.length })
+}))
 
-  const popularNeighborhoods = [
-    { id: 'manhattan', name: 'Manhattan', city: 'New York City', state: 'NY', type: 'neighborhood', popularity: 100 },
-    { id: 'brooklyn', name: 'Brooklyn', city: 'New York City', state: 'NY', type: 'neighborhood', popularity: 95 },
-    { id: 'hollywood', name: 'Hollywood', city: 'Los Angeles', state: 'CA', type: 'neighborhood', popularity: 90 },
-    { id: 'beverly-hills', name: 'Beverly Hills', city: 'Los Angeles', state: 'CA', type: 'neighborhood', popularity: 85 },
-    { id: 'queens', name: 'Queens', city: 'New York City', state: 'NY', type: 'neighborhood', popularity: 80 }
-  ]
+// Address of the organization's property nearest a point (within a mile), with the closest cities
+router.post('/reverse', [
+  body('lat').isFloat({ min: -90, max: 90 }).toFloat(),
+  body('lng').isFloat({ min: -180, max: 180 }).toFloat(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-  let results = []
-  
-  switch (type) {
-    case 'city':
-      results = popularCities
-      break
-    case 'state':
-      results = popularStates
-      break
-    case 'neighborhood':
-      results = popularNeighborhoods
-      break
-    default:
-      results = [...popularCities, ...popularStates, ...popularNeighborhoods]
+  const { lat, lng } = req.body
+  const point = { latitude: lat, longitude: lng }
+  const [address, nearbyLocations] = await Promise.all([
+    propertyService.reverseLocation(req.user!.organizationId, point),
+    propertyService.nearbyLocations(req.user!.organizationId, point, 25, 3),
+  ])
+  if (!address) {
+    throw new NotFoundError('Address')
   }
 
-  return results
-    .sort((a, b) => b.popularity - a.popularity)
-    .slice(0, limit)
-}
+  res.json({ address, coordinates: { lat, lng }, nearbyLocations })
+}))
 
 export default router
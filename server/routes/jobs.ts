@@ -0,0 +1,79 @@
+// LeadAI Pro - Job Routes
+// Status, cancellation and retry of background jobs started by the organization
+
+import express from 'express'
+import { query, validationResult } from 'express-validator'
+import { jobQueue } from '../../lib/jobs/jobQueue'
+import { JOB_TYPES, JOB_STATUSES, JobStatusValue } from '../../lib/jobs/jobTypes'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+// Reps only see the jobs they started
+const ownerScope = (req: express.Request): string | undefined =>
+  req.user!.role === 'sales_rep' ? req.user!.id : undefined
+
+// List recent jobs
+router.get('/', [
+  query('status').optional().isIn(JOB_STATUSES),
+  query('type').optional().isIn(Object.keys(JOB_TYPES)),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const jobs = await jobQueue.list(req.user!.organizationId, {
+    status: req.query.status as JobStatusValue | undefined,
+    type: req.query.type as string | undefined,
+    userId: ownerScope(req),
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+  })
+
+  res.json({ jobs })
+}))
+
+// Job status, progress and result
+router.get('/:id', asyncHandler(async (req, res) => {
+  const job = await jobQueue.get(req.params.id, req.user!.organizationId, ownerScope(req))
+  if (!job) {
+    throw new NotFoundError('Job')
+  }
+
+  res.json({ job })
+}))
+
+// Cancel a queued job, or ask a running one to stop
+router.post('/:id/cancel', asyncHandler(async (req, res) => {
+  const job = await jobQueue.cancel(req.params.id, req.user!.organizationId, ownerScope(req))
+  if (!job) {
+    throw new NotFoundError('Job')
+  }
+  if (job.status === 'SUCCEEDED' || job.status === 'DEAD') {
+    throw new ValidationError(`Job already finished (${job.status})`)
+  }
+
+  res.json({
+    message: job.status === 'CANCELLED' ? 'Job cancelled' : 'Cancellation requested',
+    job,
+  })
+}))
+
+// Run a dead-lettered or cancelled job again
+router.post('/:id/retry', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const existing = await jobQueue.get(req.params.id, req.user!.organizationId)
+  if (!existing) {
+    throw new NotFoundError('Job')
+  }
+
+  const job = await jobQueue.retry(req.params.id, req.user!.organizationId)
+  if (!job) {
+    throw new ValidationError(`Only dead-lettered or cancelled jobs can be retried (job is ${existing.status})`)
+  }
+
+  res.json({ message: 'Job queued', job })
+}))
+
+export default router
@@ -9,6 +9,17 @@ import { IntelligentResponseAutomation } from '../../lib/ai/responseAutomation'
 import { asyncHandler } from '../middleware/asyncHandler'
 import { requireAuth, requireSubscriptionTier } from '../middleware/auth'
 import { prisma } from '../../lib/database'
+import { LLMOutputError } from '../../lib/llm/types'
+import { jobQueue } from '../../lib/jobs/jobQueue'
+import {
+  emailCampaignService,
+  validateCampaignInput,
+  EmailCampaignError,
+  TEMPLATE_CATEGORIES
+} from '../../lib/email/campaignService'
+import { abTestService } from '../../lib/email/abTestService'
+import { winnerDecisionTime } from '../../lib/email/abTesting'
+import { ValidationError, NotFoundError } from '../middleware/errorHandler'
 
 const router = Router()
 
@@ -47,6 +58,7 @@ router.post('/prospects/search', requireAuth, requireSubscriptionTier('professio
     res.json(searchResult)
   } catch (error) {
     console.error('Prospect search failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to search for prospects' })
   }
 }))
@@ -62,6 +74,7 @@ router.post('/prospects/:prospectId/enrich', requireAuth, asyncHandler(async (re
     res.json(enrichedProspect)
   } catch (error) {
     console.error('Prospect enrichment failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to enrich prospect data' })
   }
 }))
@@ -79,6 +92,7 @@ router.post('/prospects/batch-enrich', requireAuth, requireSubscriptionTier('pro
     })
   } catch (error) {
     console.error('Batch enrichment failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to enrich prospects' })
   }
 }))
@@ -93,117 +107,172 @@ router.post('/prospects/search-suggestions', requireAuth, asyncHandler(async (re
     res.json(suggestions)
   } catch (error) {
     console.error('Search suggestions failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to generate search suggestions' })
   }
 }))
 
 // EMAIL MARKETING ROUTES
 
+// Email templates
+router.get('/email/templates', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
+  const templates = await emailCampaignService.listTemplates(organizationId, req.query.category as string | undefined)
+
+  res.json({ templates })
+}))
+
+// Save a hand-written email template
+router.post('/email/templates', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId, id: userId } = req.user as any
+  const { name, category, subject, htmlContent, textContent, variables } = req.body
+
+  if (!name || !subject || !htmlContent) {
+    throw new ValidationError('name, subject and htmlContent are required')
+  }
+  if (category && !(TEMPLATE_CATEGORIES as readonly string[]).includes(category)) {
+    throw new ValidationError(`category must be one of: ${TEMPLATE_CATEGORIES.join(', ')}`)
+  }
+
+  const template = await emailCampaignService.createTemplate(organizationId, {
+    name, category, subject, htmlContent, textContent, variables
+  }, userId)
+
+  res.status(201).json(template)
+}))
+
 // Generate email template
 router.post('/email/templates/generate', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId, id: userId } = req.user as any
   const { purpose, targetAudience, tone, industry } = req.body
 
   try {
-    const template = await emailEngine.generateEmailTemplate(purpose, targetAudience, tone, industry)
-    
-    // Save template to database
-    await prisma.aiInsight.create({
-      data: {
-        leadId: 'system',
-        insightType: 'email_template',
-        title: template.name,
-        description: `AI-generated email template for ${purpose}`,
-        confidence: 0.85,
-        priority: 'medium',
-        data: {
-          template: template,
-          aiGenerated: true
-        }
-      }
-    })
+    const generated = await emailEngine.generateEmailTemplate(purpose, targetAudience, tone, industry)
+    const template = await emailCampaignService.createTemplate(organizationId, generated, userId)
 
     res.json(template)
   } catch (error) {
     console.error('Email template generation failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to generate email template' })
   }
 }))
 
 // Create A/B test variants
 router.post('/email/templates/:templateId/ab-variants', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
   const { templateId } = req.params
   const { testType, variantCount = 2 } = req.body
 
   try {
-    // Get template from database
-    const templateInsight = await prisma.aiInsight.findFirst({
-      where: {
-        insightType: 'email_template',
-        data: {
-          path: ['template', 'id'],
-          equals: templateId
-        }
-      }
-    })
-
-    if (!templateInsight) {
+    const template = await emailCampaignService.getTemplate(organizationId, templateId)
+    if (!template) {
       return res.status(404).json({ error: 'Template not found' })
     }
 
-    const template = (templateInsight.data as any).template
     const variants = await emailEngine.createABTestVariants(template, testType, variantCount)
     
     res.json(variants)
   } catch (error) {
     console.error('A/B variant creation failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to create A/B test variants' })
   }
 }))
 
-// Send email campaign
+// Create and send an email campaign. Sending runs in the job worker, at scheduledFor when
+// given; poll /api/jobs/:jobId for progress. An A/B test with a holdout also schedules choosing
+// the winner, which is then sent to the holdout.
 router.post('/email/campaigns', requireAuth, requireSubscriptionTier('professional'), asyncHandler(async (req, res) => {
-  const { organizationId } = req.user as any
-  const campaignData = req.body
+  const { organizationId, id: userId } = req.user as any
 
-  try {
-    // Create campaign in database
-    const campaign = await prisma.journeyEvent.create({
-      data: {
-        leadId: 'system',
-        eventType: 'email_campaign',
-        eventName: campaignData.name,
-        description: `Email campaign with ${campaignData.recipients.length} recipients`,
-        properties: {
-          campaignData: campaignData,
-          status: 'created'
-        }
-      }
+  const errors = validateCampaignInput(req.body)
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid campaign', errors)
+  }
+
+  const campaign = await emailCampaignService.createCampaign(organizationId, req.body, userId).catch(error => {
+    if (error instanceof EmailCampaignError) {
+      throw error.code === 'not_found' ? new NotFoundError('Email template') : new ValidationError(error.message)
+    }
+    throw error
+  })
+
+  const job = await jobQueue.enqueue('email.sendCampaign', { campaignId: campaign.id }, {
+    organizationId,
+    userId,
+    runAt: campaign.schedule.sendAt
+  })
+
+  const abTest = campaign.abTest
+  const holdout = campaign.recipients.filter(recipient => recipient.holdout).length
+  const winnerJob = abTest && holdout > 0
+    ? await jobQueue.enqueue('email.selectWinner', { campaignId: campaign.id }, {
+      organizationId,
+      userId,
+      runAt: winnerDecisionTime(campaign.schedule.sendAt || campaign.createdAt, abTest.variants, abTest.testDurationHours)
     })
+    : null
+
+  res.status(202).json({
+    campaignId: campaign.id,
+    jobId: job.id,
+    status: campaign.status,
+    scheduledFor: campaign.schedule.sendAt || null,
+    recipients: campaign.recipients.length,
+    ...(winnerJob && { holdout, winnerJobId: winnerJob.id, winnerDecidedAt: winnerJob.runAt })
+  })
+}))
 
-    // Send campaign
-    await emailEngine.sendCampaign(campaignData)
+// Recent campaigns with their totals
+router.get('/email/campaigns', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
+  const campaigns = await emailCampaignService.listCampaigns(organizationId, {
+    status: (req.query.status as string | undefined)?.toUpperCase(),
+    limit: req.query.limit ? Number(req.query.limit) : undefined
+  })
 
-    res.json({
-      campaignId: campaign.id,
-      status: 'sent',
-      recipients: campaignData.recipients.length
-    })
-  } catch (error) {
-    console.error('Email campaign failed:', error)
-    res.status(500).json({ error: 'Failed to send email campaign' })
+  res.json({ campaigns })
+}))
+
+// A campaign with every recipient's delivery status
+router.get('/email/campaigns/:campaignId', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
+  const campaign = await emailCampaignService.getCampaign(organizationId, req.params.campaignId)
+  if (!campaign) {
+    return res.status(404).json({ error: 'Campaign not found' })
   }
+
+  res.json(campaign)
+}))
+
+// A/B test results: each arm's rate with its confidence interval, the leader and whether it is significant
+router.get('/email/campaigns/:campaignId/ab-test', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
+
+  const results = await abTestService.getResults(organizationId, req.params.campaignId).catch(error => {
+    if (error instanceof EmailCampaignError) throw new ValidationError(error.message)
+    throw error
+  })
+  if (!results) {
+    throw new NotFoundError('Campaign')
+  }
+
+  res.json(results)
 }))
 
 // Analyze campaign performance
 router.get('/email/campaigns/:campaignId/analytics', requireAuth, asyncHandler(async (req, res) => {
+  const { organizationId } = req.user as any
   const { campaignId } = req.params
 
   try {
-    const analytics = await emailEngine.analyzeCampaignPerformance(campaignId)
+    const analytics = await emailEngine.analyzeCampaignPerformance(campaignId, organizationId)
     
     res.json(analytics)
   } catch (error) {
     console.error('Campaign analytics failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to analyze campaign performance' })
   }
 }))
@@ -236,6 +305,7 @@ router.post('/calling/scripts/generate', requireAuth, asyncHandler(async (req, r
     res.json(script)
   } catch (error) {
     console.error('Call script generation failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to generate call script' })
   }
 }))
@@ -270,6 +340,7 @@ router.post('/calling/campaigns', requireAuth, requireSubscriptionTier('professi
     })
   } catch (error) {
     console.error('Call campaign scheduling failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to schedule call campaign' })
   }
 }))
@@ -295,6 +366,7 @@ router.post('/calling/sessions/:sessionId/coaching', requireAuth, asyncHandler(a
     res.json({ suggestions: coaching })
   } catch (error) {
     console.error('Real-time coaching failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to provide coaching' })
   }
 }))
@@ -309,6 +381,7 @@ router.get('/calling/campaigns/:campaignId/analytics', requireAuth, asyncHandler
     res.json(analytics)
   } catch (error) {
     console.error('Call analytics failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to analyze call performance' })
   }
 }))
@@ -317,7 +390,8 @@ router.get('/calling/campaigns/:campaignId/analytics', requireAuth, asyncHandler
 
 // Process incoming inquiry
 router.post('/responses/inquiries', asyncHandler(async (req, res) => {
-  const inquiryData = req.body
+  const { organizationId } = req.user as any
+  const inquiryData = { ...req.body, organizationId }
 
   try {
     // Classify inquiry
@@ -367,6 +441,7 @@ router.post('/responses/inquiries', asyncHandler(async (req, res) => {
     })
   } catch (error) {
     console.error('Inquiry processing failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to process inquiry' })
   }
 }))
@@ -410,6 +485,7 @@ router.post('/responses/generate', requireAuth, asyncHandler(async (req, res) =>
     res.json(response)
   } catch (error) {
     console.error('Response generation failed:', error)
+    if (error instanceof LLMOutputError) throw error
     res.status(500).json({ error: 'Failed to generate response' })
   }
 }))
@@ -2,8 +2,35 @@
 // CRUD operations for lead management with AI integration
 
 import express from 'express'
+import multer from 'multer'
 import { body, query, validationResult } from 'express-validator'
 import { prisma, db } from '../../lib/database'
+import { leadImporter, readImportFile, validateColumnMapping, MAX_IMPORT_ROWS } from '../../lib/leads/leadImporter'
+import { buildLeadWhereClause } from '../../lib/leads/leadFilters'
+import { analyticsCache } from '../../lib/analytics/analyticsCache'
+import { aiResponseCache } from '../../lib/llm/responseCache'
+import { jobQueue } from '../../lib/jobs/jobQueue'
+import { pipelineService, StageTransitionError } from '../../lib/pipelines/pipelineService'
+import { leadScoringService } from '../../lib/scoring/leadScoringService'
+import { leadRoutingService } from '../../lib/routing/leadRoutingService'
+import { followUpScheduler } from '../../lib/followUps/followUpScheduler'
+import { isValidTimeZone } from '../../lib/followUps/followUpSchedule'
+import { LEGACY_DEFAULT_STAGE } from '../../lib/pipelines/pipelineDefinitions'
+import {
+  REAL_ESTATE_LEAD_TYPES,
+  MOTIVATION_LEVELS,
+  SELLING_TIMEFRAMES,
+  SELLING_REASONS,
+  PROPERTY_CONDITIONS,
+} from '../../lib/leads/leadFields'
+import {
+  streamLeadExport,
+  resolveExportColumns,
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  ExportAbortedError,
+  ExportFormat,
+} from '../../lib/leads/leadExporter'
 import { requireRole, requireLeadAccess } from '../middleware/auth'
 import { ValidationError, NotFoundError } from '../middleware/errorHandler'
 import { asyncHandler } from '../middleware/errorHandler'
@@ -11,6 +38,21 @@ import { businessLogger, metricsLogger } from '../middleware/logger'
 
 const router = express.Router()
 
+// Spreadsheet uploads for lead import
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true)
+    } else {
+      cb(new ValidationError('Only .csv and .xlsx files can be imported'))
+    }
+  }
+})
+
 // Validation rules
 const createLeadValidation = [
   body('firstName').isLength({ min: 1 }).withMessage('First name is required'),
@@ -21,6 +63,9 @@ const createLeadValidation = [
   body('jobTitle').optional().isLength({ min: 1 }),
   body('source').optional().isLength({ min: 1 }),
   body('campaign').optional().isLength({ min: 1 }),
+  body('leadType').optional().isIn(REAL_ESTATE_LEAD_TYPES),
+  body('stage').optional().isString(),
+  body('timezone').optional().custom(isValidTimeZone).withMessage('timezone must be an IANA time zone'),
 ]
 
 const updateLeadValidation = [
@@ -29,8 +74,19 @@ const updateLeadValidation = [
   body('email').optional().isEmail().normalizeEmail(),
   body('phone').optional().isMobilePhone('any'),
   body('status').optional().isIn(['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost', 'nurturing', 'unqualified']),
+  body('leadType').optional({ values: 'null' }).isIn(REAL_ESTATE_LEAD_TYPES),
+  body('stage').optional().isString(),
+  body('timezone').optional({ values: 'null' }).custom(isValidTimeZone).withMessage('timezone must be an IANA time zone'),
 ]
 
+// Surface pipeline rule violations as validation errors
+const stageError = (error: unknown) => {
+  if (error instanceof StageTransitionError) {
+    return new ValidationError(error.message, error.missingFields.length > 0 ? { missingFields: error.missingFields } : undefined)
+  }
+  return error
+}
+
 // Get all leads for organization
 router.get('/', [
   query('page').optional().isInt({ min: 1 }),
@@ -39,6 +95,7 @@ router.get('/', [
   query('status').optional().isIn(['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost', 'nurturing', 'unqualified']),
   query('assignedTo').optional().isUUID(),
   query('minScore').optional().isInt({ min: 0, max: 100 }),
+  query('tags').optional().isString(),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
@@ -52,43 +109,14 @@ router.get('/', [
     status,
     assignedTo,
     minScore,
+    tags,
     sortBy = 'updatedAt',
     sortOrder = 'desc'
   } = req.query
 
   const skip = (Number(page) - 1) * Number(limit)
 
-  // Build where clause
-  const whereClause: any = {
-    organizationId: req.user!.organizationId,
-  }
-
-  // Apply filters
-  if (search) {
-    whereClause.OR = [
-      { firstName: { contains: search as string, mode: 'insensitive' } },
-      { lastName: { contains: search as string, mode: 'insensitive' } },
-      { email: { contains: search as string, mode: 'insensitive' } },
-      { company: { contains: search as string, mode: 'insensitive' } },
-    ]
-  }
-
-  if (status) {
-    whereClause.status = status
-  }
-
-  if (assignedTo) {
-    whereClause.assignedTo = assignedTo
-  }
-
-  if (minScore) {
-    whereClause.currentScore = { gte: Number(minScore) }
-  }
-
-  // For sales reps, only show their assigned leads
-  if (req.user!.role === 'sales_rep') {
-    whereClause.assignedTo = req.user!.id
-  }
+  const whereClause = buildLeadWhereClause(req.user!, req.query as any)
 
   // Get leads with pagination
   const [leads, totalCount] = await Promise.all([
@@ -137,10 +165,55 @@ router.get('/', [
       status,
       assignedTo,
       minScore,
+      tags,
     }
   })
 }))
 
+// Export leads (streams CSV, XLSX or JSONL)
+router.get('/export', [
+  query('format').optional().isIn(EXPORT_FORMATS),
+  query('columns').optional().isString(),
+  query('search').optional().isLength({ min: 1 }),
+  query('status').optional().isIn(['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost', 'nurturing', 'unqualified']),
+  query('assignedTo').optional().isUUID(),
+  query('minScore').optional().isInt({ min: 0, max: 100 }),
+  query('tags').optional().isString(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const format = (req.query.format as ExportFormat) || 'csv'
+  const requestedColumns = req.query.columns
+    ? (req.query.columns as string).split(',').map(c => c.trim()).filter(Boolean)
+    : undefined
+
+  const { columns, unknown } = resolveExportColumns(requestedColumns)
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown export columns: ${unknown.join(', ')}`)
+  }
+
+  const whereClause = buildLeadWhereClause(req.user!, req.query as any)
+  const fileName = `leads-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format])
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`)
+
+  let exported: number
+  try {
+    exported = await streamLeadExport(res, whereClause, format, columns)
+  } catch (error) {
+    // The client went away; there is no one left to send an error to
+    if (error instanceof ExportAbortedError) return
+    throw error
+  }
+
+  metricsLogger.trackEndpoint('/api/leads/export', 'GET', req.user!.id)
+  businessLogger.trackLeadActivity('bulk', `exported:${exported}`, req.user!.id, req.user!.organizationId)
+}))
+
 // Get single lead by ID
 router.get('/:id', requireLeadAccess, asyncHandler(async (req, res) => {
   const { id } = req.params
@@ -161,10 +234,21 @@ router.post('/', createLeadValidation, asyncHandler(async (req, res) => {
     throw new ValidationError('Validation failed', errors.array())
   }
 
+  // New leads start in the first stage of their pipeline unless a valid stage is given
+  const { pipeline, stage } = await pipelineService
+    .resolveInitialStage(req.user!.organizationId, req.body.leadType, req.body.stage)
+    .catch(error => { throw stageError(error) })
+
+  // Without an explicit assignee the organization's routing rules pick one (or the creator)
+  const routing = req.body.assignedTo ? null : await leadRoutingService.startSession(req.user!.organizationId)
+  const assignment = routing ? await routing.decide(req.body, req.user!.id) : null
+
   const leadData = {
     ...req.body,
+    stage: stage.key,
+    ...(stage.status && !req.body.status && { status: stage.status }),
     organizationId: req.user!.organizationId,
-    assignedTo: req.body.assignedTo || req.user!.id, // Default to current user
+    assignedTo: req.body.assignedTo || (assignment ? assignment.assignedTo : req.user!.id), // Default to current user
     teamId: req.user!.teamId,
   }
 
@@ -181,6 +265,19 @@ router.post('/', createLeadValidation, asyncHandler(async (req, res) => {
     }
   })
 
+  await pipelineService.recordInitialStage(lead, pipeline, req.user!.id)
+  if (assignment) {
+    await leadRoutingService.recordAssignment({
+      leadId: lead.id,
+      organizationId: lead.organizationId,
+      decision: assignment,
+      trigger: 'create',
+      assignedBy: req.user!.id,
+    })
+  }
+
+  await followUpScheduler.enroll(lead.id, 'LEAD_CREATED')
+
   // Log business activity
   businessLogger.trackLeadActivity(lead.id, 'created', req.user!.id, req.user!.organizationId)
 
@@ -201,34 +298,60 @@ router.put('/:id', requireLeadAccess, updateLeadValidation, asyncHandler(async (
   }
 
   const { id } = req.params
-  const updateData = req.body
+  const { stage, ...updateData } = req.body
 
   // Get current lead for comparison
   const currentLead = await prisma.lead.findUnique({
     where: { id },
-    select: { status: true }
+    select: { status: true, stage: true, leadType: true }
   })
 
   if (!currentLead) {
     throw new NotFoundError('Lead')
   }
 
-  // Update lead
-  const updatedLead = await prisma.lead.update({
-    where: { id },
-    data: {
-      ...updateData,
-      updatedAt: new Date(),
-    },
-    include: {
-      assignedUser: {
-        select: { id: true, fullName: true, email: true, avatarUrl: true }
+  let updatedLead
+
+  if (stage !== undefined && stage !== currentLead.stage) {
+    // Stage changes go through the pipeline so rules, automations and history apply
+    const move = await pipelineService.moveLead({
+      leadId: id,
+      organizationId: req.user!.organizationId,
+      userId: req.user!.id,
+      toStage: stage,
+      data: updateData,
+    }).catch(error => { throw stageError(error) })
+
+    updatedLead = move.lead
+    businessLogger.trackConversion(id, move.from.key, move.to.key, req.user!.id)
+  } else {
+    // A new lead type may mean a different pipeline; the current stage has to exist there too
+    if (updateData.leadType !== undefined && updateData.leadType !== currentLead.leadType && currentLead.stage !== LEGACY_DEFAULT_STAGE) {
+      await pipelineService
+        .resolveInitialStage(req.user!.organizationId, updateData.leadType, currentLead.stage)
+        .catch(error => { throw stageError(error) })
+    }
+
+    // Update lead
+    updatedLead = await prisma.lead.update({
+      where: { id },
+      data: {
+        ...updateData,
+        updatedAt: new Date(),
       },
-      team: {
-        select: { id: true, name: true }
+      include: {
+        assignedUser: {
+          select: { id: true, fullName: true, email: true, avatarUrl: true }
+        },
+        team: {
+          select: { id: true, name: true }
+        }
       }
-    }
-  })
+    })
+  }
+
+  // AI analyses of the old lead data no longer apply
+  await aiResponseCache.invalidateLead(id)
 
   // Log status change if applicable
   if (updateData.status && updateData.status !== currentLead.status) {
@@ -262,6 +385,7 @@ router.delete('/:id', requireLeadAccess, requireRole(['admin', 'manager']), asyn
   await prisma.lead.delete({
     where: { id }
   })
+  await aiResponseCache.invalidateLead(id)
 
   // Log business activity
   businessLogger.trackLeadActivity(id, 'deleted', req.user!.id, req.user!.organizationId)
@@ -271,18 +395,44 @@ router.delete('/:id', requireLeadAccess, requireRole(['admin', 'manager']), asyn
   })
 }))
 
+// Fields a bulk update may set directly. Stage moves go through the pipeline lead by lead, status
+// follows the stage, and reassignments use POST /:id/assign so routing logs them.
+const BULK_UPDATE_FIELDS = [
+  'source', 'campaign', 'tags', 'motivationLevel', 'timeframe', 'sellingReason', 'propertyCondition', 'timezone', 'nextFollowUpAt',
+]
+
 // Bulk update leads
 router.patch('/bulk', [
   body('leadIds').isArray({ min: 1 }).withMessage('Lead IDs array is required'),
   body('leadIds.*').isUUID().withMessage('Invalid lead ID format'),
   body('updates').isObject().withMessage('Updates object is required'),
+  body('updates.stage').optional().isString().isLength({ min: 1 }),
+  body('updates.tags').optional().isArray(),
+  body('updates.tags.*').isString(),
+  body('updates.motivationLevel').optional({ values: 'null' }).isIn(MOTIVATION_LEVELS),
+  body('updates.timeframe').optional({ values: 'null' }).isIn(SELLING_TIMEFRAMES),
+  body('updates.sellingReason').optional({ values: 'null' }).isIn(SELLING_REASONS),
+  body('updates.propertyCondition').optional({ values: 'null' }).isIn(PROPERTY_CONDITIONS),
+  body('updates.timezone').optional({ values: 'null' }).custom(isValidTimeZone).withMessage('timezone must be an IANA time zone'),
+  body('updates.nextFollowUpAt').optional({ values: 'null' }).isISO8601(),
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req)
   if (!errors.isEmpty()) {
     throw new ValidationError('Validation failed', errors.array())
   }
 
-  const { leadIds, updates } = req.body
+  const { leadIds } = req.body
+  const { stage, ...fields } = req.body.updates
+  const unsupported = Object.keys(fields).filter(field => !BULK_UPDATE_FIELDS.includes(field))
+  if (unsupported.length > 0) {
+    throw new ValidationError(`Cannot bulk update: ${unsupported.join(', ')}`, { allowedFields: ['stage', ...BULK_UPDATE_FIELDS] })
+  }
+  if (stage === undefined && Object.keys(fields).length === 0) {
+    throw new ValidationError('No updates given')
+  }
+  if (fields.nextFollowUpAt) {
+    fields.nextFollowUpAt = new Date(fields.nextFollowUpAt)
+  }
 
   // Verify all leads belong to user's organization
   const leads = await prisma.lead.findMany({
@@ -290,24 +440,50 @@ router.patch('/bulk', [
       id: { in: leadIds },
       organizationId: req.user!.organizationId,
     },
-    select: { id: true }
+    select: { id: true, stage: true }
   })
 
   if (leads.length !== leadIds.length) {
     throw new ValidationError('Some leads not found or access denied')
   }
 
-  // Perform bulk update
-  const result = await prisma.lead.updateMany({
-    where: {
-      id: { in: leadIds },
-      organizationId: req.user!.organizationId,
-    },
-    data: {
-      ...updates,
-      updatedAt: new Date(),
+  // Each stage move runs the pipeline's rules, history and automations for that lead, taking the
+  // other fields with it; a lead the rules refuse is reported and left unchanged
+  const moving = stage === undefined ? [] : leads.filter((lead: any) => lead.stage !== stage)
+  const failed: Array<{ leadId: string; error: string }> = []
+  let moved = 0
+  for (const lead of moving) {
+    try {
+      const move = await pipelineService.moveLead({
+        leadId: lead.id,
+        organizationId: req.user!.organizationId,
+        userId: req.user!.id,
+        toStage: stage,
+        data: fields,
+      })
+      moved++
+      businessLogger.trackConversion(lead.id, move.from.key, move.to.key, req.user!.id)
+    } catch (error) {
+      if (!(error instanceof StageTransitionError)) throw error
+      failed.push({ leadId: lead.id, error: error.message })
     }
-  })
+  }
+
+  const movingIds = new Set(moving.map((lead: any) => lead.id))
+  const result = Object.keys(fields).length > 0
+    ? await prisma.lead.updateMany({
+      where: {
+        id: { in: leadIds.filter((leadId: string) => !movingIds.has(leadId)) },
+        organizationId: req.user!.organizationId,
+      },
+      data: {
+        ...fields,
+        updatedAt: new Date(),
+      }
+    })
+    : { count: 0 }
+
+  await Promise.all(leadIds.map((leadId: string) => aiResponseCache.invalidateLead(leadId)))
 
   // Log business activity
   leadIds.forEach((leadId: string) => {
@@ -315,8 +491,39 @@ router.patch('/bulk', [
   })
 
   res.json({
-    message: `${result.count} leads updated successfully`,
-    updatedCount: result.count,
+    message: `${result.count + moved} leads updated successfully`,
+    updatedCount: result.count + moved,
+    movedCount: moved,
+    failed,
+  })
+}))
+
+// Skip trace leads in the background; poll /api/jobs/:jobId for progress
+router.post('/skip-trace', requireRole(['admin', 'manager']), [
+  body('leadIds').isArray({ min: 1, max: 1000 }).withMessage('Between 1 and 1000 lead IDs are required'),
+  body('leadIds.*').isUUID().withMessage('Invalid lead ID format'),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const leadIds: string[] = Array.from(new Set(req.body.leadIds))
+  const found = await prisma.lead.count({
+    where: { id: { in: leadIds }, organizationId: req.user!.organizationId },
+  })
+  if (found !== leadIds.length) {
+    throw new ValidationError('Some leads not found or access denied')
+  }
+
+  const job = await jobQueue.enqueue('skipTrace.batch', { leadIds }, {
+    organizationId: req.user!.organizationId,
+    userId: req.user!.id,
+  })
+
+  res.status(202).json({
+    message: `Skip trace queued for ${leadIds.length} leads`,
+    job,
   })
 }))
 
@@ -384,32 +591,162 @@ router.get('/:id/analytics', requireLeadAccess, asyncHandler(async (req, res) =>
   })
 }))
 
-// Import/Export leads
-router.post('/import', asyncHandler(async (req, res) => {
-  // TODO: Implement CSV/Excel import with validation
-  res.json({ message: 'Import endpoint - Coming soon' })
+// Import leads from CSV/XLSX
+router.post('/import', importUpload.single('file'), [
+  body('mapping').optional().isJSON().withMessage('Mapping must be a JSON object'),
+  body('mappingName').optional().isLength({ min: 1, max: 100 }),
+  body('saveMappingAs').optional().isLength({ min: 1, max: 100 }),
+  body('dryRun').optional().isBoolean(),
+  body('onDuplicate').optional().isIn(['skip', 'update', 'create']),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  if (!req.file) {
+    throw new ValidationError('A .csv or .xlsx file is required')
+  }
+
+  const { mappingName, saveMappingAs, onDuplicate } = req.body
+  const dryRun = String(req.body.dryRun) === 'true'
+  const organizationId = req.user!.organizationId
+
+  const sheet = await readImportFile(req.file.buffer, req.file.originalname)
+  if (sheet.columns.length === 0) {
+    throw new ValidationError('The uploaded file is empty')
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Imports are limited to ${MAX_IMPORT_ROWS} rows per file`)
+  }
+
+  // Resolve mapping: explicit JSON, then saved mapping, then auto-detected
+  let mapping = req.body.mapping ? JSON.parse(req.body.mapping) : undefined
+  if (!mapping && mappingName) {
+    const saved = await leadImporter.getSavedMappings(organizationId)
+    if (!saved[mappingName]) {
+      throw new NotFoundError('Import mapping')
+    }
+    mapping = saved[mappingName].mapping
+  }
+
+  if (mapping) {
+    const problems = validateColumnMapping(mapping)
+    if (problems.length > 0) {
+      throw new ValidationError('Invalid column mapping', problems)
+    }
+  }
+
+  const report = await leadImporter.run(sheet, {
+    organizationId,
+    userId: req.user!.id,
+    teamId: req.user!.teamId,
+    mapping,
+    dryRun,
+    onDuplicate,
+  })
+
+  if (saveMappingAs && !dryRun) {
+    await leadImporter.saveMapping(organizationId, saveMappingAs, report.mapping, req.user!.id)
+  }
+
+  if (!dryRun) {
+    analyticsCache.invalidate(organizationId)
+    businessLogger.trackLeadActivity('bulk', `imported:${report.imported}`, req.user!.id, organizationId)
+  }
+
+  res.status(dryRun ? 200 : 201).json({
+    message: dryRun
+      ? `Preview: ${report.imported} leads would be imported`
+      : `${report.imported} leads imported successfully`,
+    ...report,
+  })
+}))
+
+// Saved import mappings
+router.get('/import/mappings', asyncHandler(async (req, res) => {
+  const mappings = await leadImporter.getSavedMappings(req.user!.organizationId)
+
+  res.json({ mappings })
 }))
 
-router.get('/export', asyncHandler(async (req, res) => {
-  // TODO: Implement CSV/Excel export
-  res.json({ message: 'Export endpoint - Coming soon' })
+router.put('/import/mappings/:name', requireRole(['admin', 'manager']), [
+  body('mapping').isObject().withMessage('Mapping object is required'),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const problems = validateColumnMapping(req.body.mapping)
+  if (problems.length > 0) {
+    throw new ValidationError('Invalid column mapping', problems)
+  }
+
+  const saved = await leadImporter.saveMapping(req.user!.organizationId, req.params.name, req.body.mapping, req.user!.id)
+
+  res.json({
+    message: 'Import mapping saved successfully',
+    name: req.params.name,
+    ...saved,
+  })
 }))
 
 // Lead scoring trigger
 router.post('/:id/score', requireLeadAccess, asyncHandler(async (req, res) => {
   const { id } = req.params
 
-  // TODO: Trigger AI scoring
+  const outcome = await leadScoringService.scoreLead(id, 'manual')
+
+  if (!outcome) {
+    throw new NotFoundError('Lead')
+  }
+
+  businessLogger.trackLeadActivity(id, 'scored', req.user!.id, req.user!.organizationId)
+
   res.json({
-    message: 'Lead scoring triggered',
-    leadId: id
+    message: 'Lead scored successfully',
+    ...outcome,
   })
 }))
 
 // Lead assignment
-router.post('/:id/assign', requireLeadAccess, requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+router.post('/:id/assign', requireLeadAccess, requireRole(['admin', 'manager']), [
+  body('assignedTo').optional({ values: 'null' }).isUUID(),
+  body('auto').optional().isBoolean(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
   const { id } = req.params
-  const { assignedTo } = req.body
+  const { assignedTo, auto } = req.body
+
+  // auto: run the lead through the routing rules instead of naming an assignee
+  if (auto) {
+    const result = await leadRoutingService.reassignLead(id, req.user!.organizationId, req.user!.id)
+    if (!result) {
+      throw new ValidationError('Auto-assignment is not enabled for this organization')
+    }
+
+    businessLogger.trackLeadActivity(id, 'assigned', req.user!.id, req.user!.organizationId)
+
+    return res.json({
+      message: 'Lead assigned successfully',
+      lead: result.lead,
+      assignment: result.decision,
+    })
+  }
+
+  const current = await prisma.lead.findUnique({
+    where: { id },
+    select: { assignedTo: true }
+  })
+
+  if (!current) {
+    throw new NotFoundError('Lead')
+  }
 
   const updatedLead = await prisma.lead.update({
     where: { id },
@@ -424,6 +761,15 @@ router.post('/:id/assign', requireLeadAccess, requireRole(['admin', 'manager']),
     }
   })
 
+  await leadRoutingService.recordAssignment({
+    leadId: id,
+    organizationId: req.user!.organizationId,
+    decision: { assignedTo: assignedTo || null, ruleId: null, strategy: 'manual', reasons: ['Assigned manually'] },
+    trigger: 'manual',
+    previousAssignee: current.assignedTo,
+    assignedBy: req.user!.id,
+  })
+
   businessLogger.trackLeadActivity(id, 'assigned', req.user!.id, req.user!.organizationId)
 
   res.json({
@@ -432,8 +778,22 @@ router.post('/:id/assign', requireLeadAccess, requireRole(['admin', 'manager']),
   })
 }))
 
+// Why a lead is assigned to whom
+router.get('/:id/assignment-history', requireLeadAccess, asyncHandler(async (req, res) => {
+  const history = await leadRoutingService.getAssignmentLog(req.user!.organizationId, { leadId: req.params.id })
+
+  res.json({ history })
+}))
+
 // Lead status progression
-router.post('/:id/advance-stage', requireLeadAccess, asyncHandler(async (req, res) => {
+router.post('/:id/advance-stage', requireLeadAccess, [
+  body('toStage').optional().isString(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
   const { id } = req.params
 
   const lead = await prisma.lead.findUnique({
@@ -445,41 +805,34 @@ router.post('/:id/advance-stage', requireLeadAccess, asyncHandler(async (req, re
     throw new NotFoundError('Lead')
   }
 
-  // Define status progression
-  const statusProgression: Record<string, string> = {
-    'new': 'contacted',
-    'contacted': 'qualified',
-    'qualified': 'proposal',
-    'proposal': 'negotiation',
-    'negotiation': 'closed_won',
-  }
-
-  const nextStatus = statusProgression[lead.status]
-  if (!nextStatus) {
-    throw new ValidationError('Cannot advance lead stage further')
-  }
-
-  const updatedLead = await prisma.lead.update({
-    where: { id },
-    data: {
-      status: nextStatus as any,
-      updatedAt: new Date(),
-    },
-    include: {
-      assignedUser: {
-        select: { id: true, fullName: true, email: true, avatarUrl: true }
-      }
-    }
-  })
+  // Without toStage the lead moves to the next stage of its pipeline
+  const move = await pipelineService.moveLead({
+    leadId: id,
+    organizationId: req.user!.organizationId,
+    userId: req.user!.id,
+    toStage: req.body.toStage,
+  }).catch(error => { throw stageError(error) })
 
-  businessLogger.trackConversion(id, lead.status, nextStatus, req.user!.id)
+  await aiResponseCache.invalidateLead(id)
+  businessLogger.trackConversion(id, move.from.key, move.to.key, req.user!.id)
 
   res.json({
     message: 'Lead stage advanced successfully',
-    lead: updatedLead,
+    lead: move.lead,
+    pipelineId: move.pipeline.id,
+    previousStage: move.from.key,
+    newStage: move.to.key,
     previousStatus: lead.status,
-    newStatus: nextStatus,
+    newStatus: move.lead.status,
+    automations: move.automations,
   })
 }))
 
+// Get stage history for a lead
+router.get('/:id/stage-history', requireLeadAccess, asyncHandler(async (req, res) => {
+  const history = await pipelineService.getStageHistory(req.params.id)
+
+  res.json({ history })
+}))
+
 export default router
@@ -0,0 +1,77 @@
+// LeadAI Pro - Pipelines Routes
+// Organization pipeline definitions and time-in-stage reporting
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { pipelineService } from '../../lib/pipelines/pipelineService'
+import { validatePipelineDefinitions, DEFAULT_PIPELINES } from '../../lib/pipelines/pipelineDefinitions'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+// Get pipelines for organization
+router.get('/', asyncHandler(async (req, res) => {
+  const pipelines = await pipelineService.getPipelines(req.user!.organizationId)
+
+  res.json({
+    pipelines,
+    isDefault: pipelines === DEFAULT_PIPELINES,
+  })
+}))
+
+// Replace organization pipelines
+router.put('/', requireRole(['admin', 'manager']), [
+  body('pipelines').isArray({ min: 1 }).withMessage('pipelines must be a non-empty array'),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const { pipelines } = req.body
+  const definitionErrors = validatePipelineDefinitions(pipelines)
+  if (definitionErrors.length > 0) {
+    throw new ValidationError('Invalid pipeline definitions', definitionErrors)
+  }
+
+  // Refuse to strand leads in stages that no longer exist
+  const orphaned = await pipelineService.findOrphanedStages(req.user!.organizationId, pipelines)
+  if (orphaned.length > 0) {
+    throw new ValidationError('Some stages still contain leads; move them before removing the stage', orphaned)
+  }
+
+  const saved = await pipelineService.savePipelines(req.user!.organizationId, pipelines, req.user!.id)
+
+  res.json({
+    message: 'Pipelines updated successfully',
+    pipelines: saved,
+  })
+}))
+
+// Get average time in each stage of a pipeline
+router.get('/:id/time-in-stage', [
+  query('since').optional().isISO8601(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const pipelines = await pipelineService.getPipelines(req.user!.organizationId)
+  const pipeline = pipelines.find(p => p.id === req.params.id)
+  if (!pipeline) {
+    throw new NotFoundError('Pipeline')
+  }
+
+  const since = req.query.since ? new Date(req.query.since as string) : undefined
+  const stages = await pipelineService.getTimeInStage(req.user!.organizationId, pipeline, since)
+
+  res.json({
+    pipelineId: pipeline.id,
+    since: since?.toISOString() || null,
+    stages,
+  })
+}))
+
+export default router
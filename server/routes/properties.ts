@@ -1,280 +1,227 @@
-// LeadFlow AI - Property Search API Routes
-// Real estate property search, filtering, and market analysis endpoints
+// LeadAI Pro - Property Routes
+// Organization property records: CRUD, faceted and nearby search, market figures, owners and the leads tied to each property
 
-import { Router } from 'express'
+import express from 'express'
 import { body, query, validationResult } from 'express-validator'
-import { asyncHandler } from '../middleware/errorHandler'
-import { requireAuth } from '../middleware/auth'
-import { nationalProperties, searchProperties, getPropertiesByState, getPropertiesByCity } from '../../frontend/src/data/nationalPropertyDatabase'
-import { nationalMarketData, getStateMarketData, getCityMarketData } from '../../frontend/src/data/nationalMarketData'
+import { propertyService, PropertyError } from '../../lib/properties/propertyService'
+import {
+  PROPERTY_SORT_FIELDS,
+  validatePropertyInput,
+  validatePropertyOwnerInput,
+  validatePropertySearchFilters,
+} from '../../lib/properties/propertySearch'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError, NotFoundError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+const propertyError = (error: unknown) => {
+  if (error instanceof PropertyError) {
+    return error.code === 'not_found' ? new NotFoundError(error.resource) : new ValidationError(error.message)
+  }
+  return error
+}
 
-const router = Router()
+const checkValidation = (req: express.Request) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+}
 
-// Property search with filters
+// Search properties by location, price, beds and baths, type, status, occupancy and equity.
+// Facets count matches per type, status and occupancy, ignoring that facet's own filter.
 router.post('/search', [
   body('filters').optional().isObject(),
   body('page').optional().isInt({ min: 1 }),
-  body('pageSize').optional().isInt({ min: 1, max: 100 })
+  body('pageSize').optional().isInt({ min: 1, max: 100 }),
+  body('sortBy').optional().isIn(PROPERTY_SORT_FIELDS),
+  body('sortOrder').optional().isIn(['asc', 'desc']),
 ], asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
+  checkValidation(req)
+
+  const { filters = {}, page = 1, pageSize = 20, sortBy, sortOrder } = req.body
+  const filterErrors = validatePropertySearchFilters(filters)
+  if (filterErrors.length > 0) {
+    throw new ValidationError('Invalid property filters', filterErrors)
   }
 
-  const { filters = {}, page = 1, pageSize = 20 } = req.body
-  const startTime = Date.now()
+  const { properties, pagination, facets } = await propertyService.search(req.user!.organizationId, filters, {
+    page,
+    limit: pageSize,
+    sortBy,
+    sortOrder,
+  })
+
+  res.json({
+    results: properties,
+    totalCount: pagination.total,
+    page: pagination.page,
+    pageSize: pagination.limit,
+    pages: pagination.pages,
+    facets,
+    filters,
+  })
+}))
 
-  try {
-    // Use national property database for search
-    let results = [...nationalProperties]
+// Properties with coordinates within a radius (miles) of a point, nearest first, with the search filters
+router.post('/near', [
+  body('lat').isFloat({ min: -90, max: 90 }).toFloat(),
+  body('lng').isFloat({ min: -180, max: 180 }).toFloat(),
+  body('radius').optional().isFloat({ min: 0.1, max: 100 }).toFloat(),
+  body('filters').optional().isObject(),
+  body('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-    // Apply location filter
-    if (filters.location) {
-      results = searchProperties(filters.location)
-    }
+  const { lat, lng, radius = 5, filters = {}, limit = 20 } = req.body
+  const filterErrors = validatePropertySearchFilters(filters)
+  if (filterErrors.length > 0) {
+    throw new ValidationError('Invalid property filters', filterErrors)
+  }
 
-    // Apply price filters
-    if (filters.minPrice) {
-      results = results.filter(p => p.listPrice >= filters.minPrice)
-    }
-    if (filters.maxPrice) {
-      results = results.filter(p => p.listPrice <= filters.maxPrice)
-    }
+  const results = await propertyService.nearby(req.user!.organizationId, { latitude: lat, longitude: lng }, radius, filters, limit)
+  res.json({ results, center: { lat, lng }, radius, totalCount: results.length })
+}))
 
-    // Apply bedroom/bathroom filters
-    if (filters.minBeds) {
-      results = results.filter(p => p.bedrooms >= filters.minBeds)
-    }
-    if (filters.minBaths) {
-      results = results.filter(p => p.bathrooms >= filters.minBaths)
-    }
+// Prices, rents, equity and property mix for a city, state or ZIP code
+router.post('/market-insights', [
+  body('location').isObject(),
+  body('location.city').optional().isString().trim().isLength({ min: 1 }),
+  body('location.state').optional().isString().trim().isLength({ min: 1 }),
+  body('location.zipCode').optional().isString().trim().isLength({ min: 1 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-    // Apply property type filter
-    if (filters.propertyType && filters.propertyType !== 'All') {
-      results = results.filter(p => p.propertyType === filters.propertyType)
-    }
+  const { city, state, zipCode } = req.body.location
+  if (!city && !state && !zipCode) {
+    throw new ValidationError('location needs a city, state or zipCode')
+  }
 
-    // Apply investment strategy filter
-    if (filters.investmentStrategy && filters.investmentStrategy !== 'All') {
-      results = results.filter(p => p.investmentStrategy === filters.investmentStrategy)
-    }
+  const insights = await propertyService.marketInsights(req.user!.organizationId, { city, state, zipCode })
+  if (insights.totalProperties === 0) {
+    throw new NotFoundError('Market data')
+  }
+  res.json({ location: { city, state, zipCode }, insights })
+}))
 
-    // Apply AI score filter
-    if (filters.minAIScore) {
-      results = results.filter(p => p.aiScore >= filters.minAIScore)
-    }
+// Properties added recently that carry equity, largest equity share first
+router.get('/trending', [
+  query('days').optional().isInt({ min: 1, max: 365 }),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-    // Apply days on market filter
-    if (filters.maxDaysOnMarket) {
-      results = results.filter(p => p.daysOnMarket <= filters.maxDaysOnMarket)
-    }
+  const days = req.query.days ? Number(req.query.days) : 30
+  const results = await propertyService.trending(req.user!.organizationId, days, req.query.limit ? Number(req.query.limit) : 20)
+  res.json({ results, totalCount: results.length, criteria: { addedWithinDays: days, hasEquity: true } })
+}))
 
-    // Apply condition filter
-    if (filters.condition && filters.condition !== 'All') {
-      results = results.filter(p => p.condition === filters.condition)
-    }
+router.post('/', asyncHandler(async (req, res) => {
+  const { owners = [], ...input } = req.body || {}
+  const propertyErrors = [
+    ...validatePropertyInput(input),
+    ...(Array.isArray(owners) ? owners.flatMap((owner: any) => validatePropertyOwnerInput(owner)) : ['owners must be a list']),
+  ]
+  if (propertyErrors.length > 0) {
+    throw new ValidationError('Invalid property', propertyErrors)
+  }
 
-    // Apply equity filter
-    if (filters.hasEquity) {
-      results = results.filter(p => p.equity > 0)
-    }
+  const property = await propertyService.create(req.user!.organizationId, { ...input, owners })
+  res.status(201).json({ message: 'Property created successfully', property })
+}))
 
-    // Pagination
-    const startIndex = (page - 1) * pageSize
-    const endIndex = startIndex + pageSize
-    const paginatedResults = results.slice(startIndex, endIndex)
+// Property with owners, linked leads, deals and its latest comp valuation
+router.get('/:id', asyncHandler(async (req, res) => {
+  const property = await propertyService.get(req.user!.organizationId, req.params.id)
+  if (!property) {
+    throw new NotFoundError('Property')
+  }
+  res.json({ property })
+}))
 
-    const searchTime = Date.now() - startTime
+router.put('/:id', asyncHandler(async (req, res) => {
+  const propertyErrors = validatePropertyInput(req.body || {}, true)
+  if (propertyErrors.length > 0) {
+    throw new ValidationError('Invalid property', propertyErrors)
+  }
 
-    res.json({
-      results: paginatedResults,
-      totalCount: results.length,
-      page,
-      pageSize,
-      searchTime,
-      filters
-    })
+  try {
+    const property = await propertyService.update(req.user!.organizationId, req.params.id, req.body)
+    res.json({ message: 'Property updated successfully', property })
   } catch (error) {
-    console.error('Property search error:', error)
-    res.status(500).json({ error: 'Failed to search properties' })
+    throw propertyError(error)
   }
 }))
 
-// Get property details by ID
-router.get('/:id', asyncHandler(async (req, res) => {
-  const { id } = req.params
-
+router.delete('/:id', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
   try {
-    const property = nationalProperties.find(p => p.id === id)
-    
-    if (!property) {
-      return res.status(404).json({ error: 'Property not found' })
-    }
-
-    // Add additional details for single property view
-    const propertyDetails = {
-      ...property,
-      ownerInfo: {
-        name: `Owner ${property.id}`,
-        motivation: Math.random() > 0.5 ? 'High' : 'Medium',
-        ownerOccupied: Math.random() > 0.5
-      },
-      marketTrends: {
-        priceAppreciation: Math.random() * 10 - 2,
-        rentGrowth: Math.random() * 8 + 2,
-        marketHeat: property.marketTrend === 'Rising' ? 'Hot' : 'Warm',
-        competitionLevel: 'Medium'
-      },
-      nearbyComps: nationalProperties
-        .filter(p => p.city === property.city && p.id !== property.id)
-        .slice(0, 5)
-    }
-
-    res.json(propertyDetails)
+    await propertyService.delete(req.user!.organizationId, req.params.id)
+    res.json({ message: 'Property deleted successfully' })
   } catch (error) {
-    console.error('Get property details error:', error)
-    res.status(500).json({ error: 'Failed to get property details' })
+    throw propertyError(error)
   }
 }))
 
-// Search properties near coordinates
-router.post('/near', [
-  body('lat').isFloat({ min: -90, max: 90 }),
-  body('lng').isFloat({ min: -180, max: 180 }),
-  body('radius').optional().isFloat({ min: 1, max: 100 })
-], asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
+router.post('/:id/owners', asyncHandler(async (req, res) => {
+  const ownerErrors = validatePropertyOwnerInput(req.body || {})
+  if (ownerErrors.length > 0) {
+    throw new ValidationError('Invalid property owner', ownerErrors)
   }
 
-  const { lat, lng, radius = 5, filters = {} } = req.body
-
   try {
-    // Calculate distance and filter properties
-    const nearbyProperties = nationalProperties
-      .map(property => {
-        const distance = calculateDistance(lat, lng, property.coordinates.lat, property.coordinates.lng)
-        return { ...property, distance }
-      })
-      .filter(property => property.distance <= radius * 1609.34) // Convert miles to meters
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, 50) // Limit to 50 nearest properties
-
-    res.json({
-      results: nearbyProperties,
-      center: { lat, lng },
-      radius,
-      totalCount: nearbyProperties.length
-    })
+    const owner = await propertyService.addOwner(req.user!.organizationId, req.params.id, req.body)
+    res.status(201).json({ owner })
   } catch (error) {
-    console.error('Nearby properties search error:', error)
-    res.status(500).json({ error: 'Failed to search nearby properties' })
+    throw propertyError(error)
   }
 }))
 
-// Get market insights for location
-router.post('/market-insights', [
-  body('location').isString().isLength({ min: 1 })
-], asyncHandler(async (req, res) => {
-  const errors = validationResult(req)
-  if (!errors.isEmpty()) {
-    return res.status(400).json({ 
-      error: 'Validation failed', 
-      details: errors.array() 
-    })
+router.put('/:id/owners/:ownerId', asyncHandler(async (req, res) => {
+  const ownerErrors = validatePropertyOwnerInput(req.body || {}, true)
+  if (ownerErrors.length > 0) {
+    throw new ValidationError('Invalid property owner', ownerErrors)
   }
 
-  const { location } = req.body
-
   try {
-    // Get market data for location
-    const marketData = nationalMarketData.find(m => 
-      m.location.toLowerCase().includes(location.toLowerCase()) ||
-      location.toLowerCase().includes(m.location.toLowerCase())
-    )
-
-    if (!marketData) {
-      return res.status(404).json({ error: 'Market data not found for location' })
-    }
-
-    // Get properties in the area for additional insights
-    const areaProperties = searchProperties(location)
-    
-    const insights = {
-      location: marketData.location,
-      medianPrice: marketData.medianPrice,
-      priceChange: marketData.priceChange,
-      medianRent: marketData.medianRent,
-      rentYield: marketData.rentYield,
-      daysOnMarket: marketData.daysOnMarket,
-      inventoryLevel: marketData.inventoryLevel,
-      marketTrend: marketData.marketTrend,
-      investmentOpportunity: marketData.investmentOpportunity,
-      competitionLevel: marketData.competitionLevel,
-      totalProperties: areaProperties.length,
-      averageAIScore: areaProperties.reduce((sum, p) => sum + p.aiScore, 0) / areaProperties.length || 0,
-      hotDeals: areaProperties.filter(p => p.aiScore >= 90).length,
-      recommendations: [
-        'Focus on fix and flip opportunities',
-        'Consider BRRRR strategy for cash flow',
-        'Monitor market trends closely',
-        'Target properties with high equity potential'
-      ]
-    }
-
-    res.json(insights)
+    const owner = await propertyService.updateOwner(req.user!.organizationId, req.params.id, req.params.ownerId, req.body)
+    res.json({ owner })
   } catch (error) {
-    console.error('Market insights error:', error)
-    res.status(500).json({ error: 'Failed to get market insights' })
+    throw propertyError(error)
   }
 }))
 
-// Get trending properties
-router.get('/trending', asyncHandler(async (req, res) => {
-  const { limit = 10 } = req.query
-
+router.delete('/:id/owners/:ownerId', asyncHandler(async (req, res) => {
   try {
-    const trendingProperties = nationalProperties
-      .filter(p => p.aiScore >= 85 && p.daysOnMarket <= 30 && p.equity > 0)
-      .sort((a, b) => b.aiScore - a.aiScore)
-      .slice(0, Number(limit))
-
-    res.json({
-      results: trendingProperties,
-      totalCount: trendingProperties.length,
-      criteria: {
-        minAIScore: 85,
-        maxDaysOnMarket: 30,
-        hasEquity: true
-      }
-    })
+    await propertyService.removeOwner(req.user!.organizationId, req.params.id, req.params.ownerId)
+    res.json({ message: 'Property owner removed successfully' })
   } catch (error) {
-    console.error('Trending properties error:', error)
-    res.status(500).json({ error: 'Failed to get trending properties' })
+    throw propertyError(error)
   }
 }))
 
-// Calculate distance between two coordinates (Haversine formula)
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371e3 // Earth's radius in meters
-  const φ1 = lat1 * Math.PI / 180
-  const φ2 = lat2 * Math.PI / 180
-  const Δφ = (lat2 - lat1) * Math.PI / 180
-  const Δλ = (lng2 - lng1) * Math.PI / 180
+// Link a lead to the property, optionally as one of its owners
+router.post('/:id/leads', [
+  body('leadId').isString().notEmpty(),
+  body('ownerId').optional({ values: 'null' }).isString(),
+], asyncHandler(async (req, res) => {
+  checkValidation(req)
 
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-            Math.cos(φ1) * Math.cos(φ2) *
-            Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  try {
+    const lead = await propertyService.linkLead(req.user!.organizationId, req.params.id, req.body.leadId, req.body.ownerId)
+    res.json({ lead })
+  } catch (error) {
+    throw propertyError(error)
+  }
+}))
 
-  return R * c
-}
+router.delete('/:id/leads/:leadId', asyncHandler(async (req, res) => {
+  try {
+    await propertyService.unlinkLead(req.user!.organizationId, req.params.id, req.params.leadId)
+    res.json({ message: 'Lead unlinked successfully' })
+  } catch (error) {
+    throw propertyError(error)
+  }
+}))
 
 export default router
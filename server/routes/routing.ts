@@ -0,0 +1,110 @@
+// LeadAI Pro - Lead Routing Routes
+// Auto-assignment rules, rep workloads and the assignment audit log
+
+import express from 'express'
+import { body, query, validationResult } from 'express-validator'
+import { prisma } from '../../lib/database'
+import { leadRoutingService } from '../../lib/routing/leadRoutingService'
+import { buildSalesRepProfiles } from '../../lib/routing/repProfiles'
+import { validateRoutingConfig, DEFAULT_ROUTING_CONFIG } from '../../lib/routing/routingRules'
+import { IntelligentRoutingEngine } from '../../lib/ai/routingEngine'
+import { requireRole } from '../middleware/auth'
+import { asyncHandler, ValidationError } from '../middleware/errorHandler'
+
+const router = express.Router()
+const routingEngine = new IntelligentRoutingEngine()
+
+// Get routing rules for organization
+router.get('/config', asyncHandler(async (req, res) => {
+  const config = await leadRoutingService.getConfig(req.user!.organizationId)
+
+  res.json({
+    config,
+    isDefault: config === DEFAULT_ROUTING_CONFIG,
+  })
+}))
+
+// Replace routing rules
+router.put('/config', requireRole(['admin', 'manager']), [
+  body('enabled').isBoolean(),
+  body('rules').optional().isArray(),
+  body('defaultCapacity').optional().isInt({ min: 1 }),
+  body('reps').optional().isObject(),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const config = {
+    ...DEFAULT_ROUTING_CONFIG,
+    ...req.body,
+  }
+
+  const users = await prisma.user.findMany({
+    where: { organizationId: req.user!.organizationId },
+    select: { id: true },
+  })
+  const configErrors = validateRoutingConfig(config, users.map(u => u.id))
+  if (configErrors.length > 0) {
+    throw new ValidationError('Invalid routing rules', configErrors)
+  }
+
+  const saved = await leadRoutingService.saveConfig(req.user!.organizationId, config, req.user!.id)
+
+  res.json({
+    message: 'Routing rules updated successfully',
+    config: saved,
+  })
+}))
+
+// Rep profiles (performance and workload) as the routing engine sees them
+router.get('/reps', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const config = await leadRoutingService.getConfig(req.user!.organizationId)
+  const profiles = await buildSalesRepProfiles(req.user!.organizationId, config)
+
+  res.json({
+    reps: profiles.map(({ user, ...profile }) => ({
+      user: { id: user.id, fullName: (user as any).fullName, email: user.email },
+      ...profile,
+    })),
+  })
+}))
+
+// Workload rebalancing recommendations
+router.get('/workload', requireRole(['admin', 'manager']), asyncHandler(async (req, res) => {
+  const config = await leadRoutingService.getConfig(req.user!.organizationId)
+  const profiles = await buildSalesRepProfiles(req.user!.organizationId, config)
+  const { recommendations } = await routingEngine.rebalanceWorkloads(profiles)
+
+  res.json({
+    reps: profiles.map(profile => ({
+      userId: profile.user.id,
+      fullName: (profile.user as any).fullName,
+      ...profile.workload,
+    })),
+    recommendations,
+  })
+}))
+
+// Assignment audit log
+router.get('/log', requireRole(['admin', 'manager']), [
+  query('leadId').optional().isUUID(),
+  query('userId').optional().isUUID(),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req)
+  if (!errors.isEmpty()) {
+    throw new ValidationError('Validation failed', errors.array())
+  }
+
+  const entries = await leadRoutingService.getAssignmentLog(req.user!.organizationId, {
+    leadId: req.query.leadId as string | undefined,
+    userId: req.query.userId as string | undefined,
+    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+  })
+
+  res.json({ entries })
+}))
+
+export default router
@@ -0,0 +1,69 @@
+// LeadAI Pro - SMS Webhook Routes
+// Public inbound-message webhook: STOP and START keywords update the organization's opt-outs,
+// and messages from known leads are logged as replies
+
+import express from 'express'
+import { prisma } from '../../lib/database'
+import { complianceGuard } from '../../lib/compliance/complianceGuard'
+import { followUpScheduler } from '../../lib/followUps/followUpScheduler'
+import { normalizePhone } from '../../lib/compliance/suppressionList'
+import { parseSmsKeyword } from '../../lib/compliance/smsKeywords'
+import { requireTwilioSignature } from '../middleware/twilio'
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler'
+
+const router = express.Router()
+
+// Inbound message, authenticated with X-Twilio-Signature
+router.post('/inbound/:organizationId', requireTwilioSignature, asyncHandler(async (req, res) => {
+  const from = String(req.body?.From || '')
+  if (!from) {
+    throw new ValidationError('From is required')
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: req.params.organizationId },
+    select: { id: true },
+  })
+  if (!organization) {
+    throw new NotFoundError('Organization')
+  }
+
+  const lead = await prisma.lead.findFirst({
+    where: { organizationId: organization.id, phone: { in: [from, normalizePhone(from)] } },
+    select: { id: true },
+  })
+
+  const keyword = parseSmsKeyword(req.body?.Body)
+  if (keyword === 'stop' || keyword === 'start') {
+    const evidence = { messageSid: req.body?.MessageSid, body: String(req.body?.Body || '').slice(0, 160), to: req.body?.To }
+
+    if (keyword === 'stop') {
+      // Revoking consent by text covers calls to the number as well
+      for (const channel of ['sms', 'call'] as const) {
+        await complianceGuard.optOut(organization.id, { channel, to: from, leadId: lead?.id }, 'sms_keyword', evidence)
+      }
+    } else {
+      // START only answers for texts; call consent has to be given separately
+      await complianceGuard.optIn(organization.id, { channel: 'sms', to: from, leadId: lead?.id }, 'sms_keyword', evidence)
+    }
+  }
+
+  // Any text back from a lead is a reply, and ends sequences that stop on one
+  if (lead) {
+    await prisma.conversation.create({
+      data: {
+        leadId: lead.id,
+        direction: 'inbound',
+        channel: 'sms',
+        content: String(req.body?.Body || ''),
+        externalId: req.body?.MessageSid,
+      },
+    })
+    await followUpScheduler.handleLeadEvent(lead.id, 'replied')
+  }
+
+  // Twilio sends its own confirmation for STOP, START and HELP
+  res.type('text/xml').send('<?xml version="1.0" encoding="UTF-8"?><Response></Response>')
+}))
+
+export default router
@@ -105,9 +105,9 @@ app.post('/api/geolocation/nearby', (req, res) => {
   const { lat, lng, radius = 25 } = req.body
   
   const mockNearby = [
-    { id: 'loc_1', name: 'Manhattan', distance: 2.5, type: 'neighborhood' },
-    { id: 'loc_2', name: 'Brooklyn', distance: 8.3, type: 'neighborhood' },
-    { id: 'loc_3', name: 'Queens', distance: 12.1, type: 'neighborhood' }
+    { type: 'city', name: 'Manhattan', city: 'Manhattan', state: 'NY', propertyCount: 12, distance: 2.5 },
+    { type: 'city', name: 'Brooklyn', city: 'Brooklyn', state: 'NY', propertyCount: 8, distance: 8.3 },
+    { type: 'city', name: 'Queens', city: 'Queens', state: 'NY', propertyCount: 5, distance: 12.1 }
   ]
 
   res.json({
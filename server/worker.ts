@@ -0,0 +1,44 @@
+// LeadAI Pro - Job Worker Process
+// Runs queued background jobs (campaigns, skip traces, document batches) next to the API server
+
+import dotenv from 'dotenv'
+import { disconnectDatabase } from '../lib/database'
+import { JobWorker } from '../lib/jobs/jobWorker'
+import { jobHandlers } from '../lib/jobs/jobHandlers'
+import { isJobType, JobType } from '../lib/jobs/jobTypes'
+
+dotenv.config()
+
+const POLL_MS = (Number(process.env.JOB_POLL_SECONDS) || 5) * 1000
+const LOCK_SECONDS = Number(process.env.JOB_LOCK_SECONDS) || 120
+
+// JOB_TYPES=email.sendCampaign,skipTrace.batch dedicates a worker to some job types
+const types = process.env.JOB_TYPES
+  ? process.env.JOB_TYPES.split(',').map(type => type.trim()).filter(Boolean)
+  : undefined
+
+async function main() {
+  const unknown = (types || []).filter(type => !isJobType(type))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown job types in JOB_TYPES: ${unknown.join(', ')}`)
+  }
+
+  const worker = new JobWorker(jobHandlers, { lockSeconds: LOCK_SECONDS, types: types as JobType[] | undefined })
+
+  // Let the current job finish; anything left is picked up by the next worker
+  process.on('SIGINT', () => worker.stop())
+  process.on('SIGTERM', () => worker.stop())
+
+  console.log(`[JOBS] Worker ${worker.workerId} started${types ? ` for ${types.join(', ')}` : ''}`)
+  await worker.start(POLL_MS)
+  console.log(`[JOBS] Worker ${worker.workerId} stopped`)
+}
+
+main()
+  .catch((e) => {
+    console.error('[JOBS] Worker failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await disconnectDatabase()
+  })
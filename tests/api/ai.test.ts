@@ -33,11 +33,17 @@ jest.mock('../../lib/database', () => ({
     lead: {
       findUnique: jest.fn(),
       update: jest.fn(),
-      findMany: jest.fn()
+      findMany: jest.fn(),
+      groupBy: jest.fn()
     },
     leadScore: {
-      create: jest.fn()
+      create: jest.fn(),
+      findFirst: jest.fn()
     },
+    organization: {
+      findUnique: jest.fn()
+    },
+    $transaction: jest.fn((operations: Promise<any>[]) => Promise.all(operations)),
     conversation: {
       findUnique: jest.fn(),
       create: jest.fn(),
@@ -145,11 +151,18 @@ describe('AI API Endpoints', () => {
     it('should calculate and update lead score', async () => {
       ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue(mockLead)
       ;(prisma.lead.update as jest.Mock).mockResolvedValue({ ...mockLead, currentScore: 80 })
+      ;(prisma.leadScore.findFirst as jest.Mock).mockResolvedValue({
+        id: 'score-1',
+        leadId: 'lead-1',
+        score: 75,
+        demographicScore: 60
+      })
       ;(prisma.leadScore.create as jest.Mock).mockResolvedValue({
         id: 'score-2',
         leadId: 'lead-1',
         score: 80,
-        confidence: 0.9
+        confidence: 0.9,
+        createdAt: new Date()
       })
 
       const response = await request(app)
@@ -161,13 +174,14 @@ describe('AI API Endpoints', () => {
       expect(response.body).toHaveProperty('factors')
       expect(response.body).toHaveProperty('explanation')
       expect(response.body).toHaveProperty('recommendations')
+      expect(response.body).toHaveProperty('previousScore', 75)
+      expect(response.body.delta).toBe(response.body.score - 75)
 
       expect(prisma.lead.update).toHaveBeenCalledWith({
         where: { id: 'lead-1' },
         data: expect.objectContaining({
           currentScore: expect.any(Number),
-          scoreConfidence: expect.any(Number),
-          lastScoredAt: expect.any(Date)
+          scoreConfidence: expect.any(Number)
         })
       })
 
@@ -175,7 +189,9 @@ describe('AI API Endpoints', () => {
         data: expect.objectContaining({
           leadId: 'lead-1',
           score: expect.any(Number),
-          confidence: expect.any(Number)
+          confidence: expect.any(Number),
+          modelVersion: expect.any(String),
+          demographicScore: expect.any(Number)
         })
       })
     })
@@ -315,6 +331,8 @@ describe('AI API Endpoints', () => {
     it('should provide routing recommendations', async () => {
       ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue(mockLead)
       ;(prisma.user.findMany as jest.Mock).mockResolvedValue(mockUsers)
+      ;(prisma.lead.groupBy as jest.Mock).mockResolvedValue([])
+      ;(prisma.lead.findMany as jest.Mock).mockResolvedValue([])
 
       const response = await request(app)
         .post('/api/ai/route-lead')
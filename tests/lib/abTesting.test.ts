@@ -0,0 +1,149 @@
+// LeadAI Pro - A/B Testing Tests
+// Tests for cohort assignment, significance testing and rolling the winner out to the holdout
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  assignArm,
+  evaluateExperiment,
+  normalCdf,
+  twoProportionPValue,
+  validateABTestSettings,
+  wilsonInterval,
+  winnerDecisionTime,
+} from '../../lib/email/abTesting'
+import { ABTestService } from '../../lib/email/abTestService'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    emailCampaign: { findFirst: jest.fn(), update: jest.fn() },
+    emailCampaignRecipient: { groupBy: jest.fn(), count: jest.fn(), updateMany: jest.fn() },
+  }
+}))
+
+const settings = { winnerCriteria: 'open_rate' as const, confidenceLevel: 0.95, minSampleSize: 100 }
+
+describe('assignArm', () => {
+  it('should hold out the audience outside the test cohort, the same way every time', () => {
+    const variants = [{ id: 'a', percentage: 50 }, { id: 'b', percentage: 50 }]
+    const emails = Array.from({ length: 1000 }, (_, i) => `owner${i}@example.com`)
+    const arms = emails.map(email => assignArm(email, variants, 'campaign-1', 20))
+
+    const tested = arms.filter(arm => !arm.holdout)
+    expect(tested.length).toBeGreaterThan(150)
+    expect(tested.length).toBeLessThan(250)
+    expect(tested.every(arm => arm.variant)).toBe(true)
+    expect(tested.filter(arm => arm.variant?.id === 'a').length).toBeGreaterThan(60)
+    expect(arms.filter(arm => arm.holdout).every(arm => arm.variant === null)).toBe(true)
+
+    expect(assignArm('Owner5@Example.com', variants, 'campaign-1', 20)).toEqual(arms[5])
+    const otherCampaign = emails.map(email => assignArm(email, variants, 'campaign-2', 20))
+    expect(otherCampaign.filter((arm, i) => arm.holdout !== arms[i].holdout).length).toBeGreaterThan(100)
+  })
+})
+
+describe('significance', () => {
+  it('should compute Wilson intervals and two-proportion p-values', () => {
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4)
+
+    const interval = wilsonInterval(50, 100)
+    expect(interval.lower).toBeCloseTo(0.4038, 3)
+    expect(interval.upper).toBeCloseTo(0.5962, 3)
+    expect(wilsonInterval(0, 10).lower).toBe(0)
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 0 })
+
+    expect(twoProportionPValue(60, 200, 40, 200)).toBeCloseTo(0.0209, 3)
+    expect(twoProportionPValue(0, 50, 0, 50)).toBe(1)
+  })
+
+  it('should call a clear leader significant against every other arm', () => {
+    const result = evaluateExperiment([
+      { variantId: 'a', name: 'A', sent: 300, opened: 90, clicked: 10, replied: 1 },
+      { variantId: 'b', name: 'B', sent: 300, opened: 60, clicked: 12, replied: 2 },
+      { variantId: null, name: 'Control', sent: 300, opened: 60, clicked: 9, replied: 0 },
+    ], settings)
+
+    expect(result.leader?.variantId).toBe('a')
+    expect(result.significant).toBe(true)
+    expect(result.arms[0]).toMatchObject({ rate: 30, lift: 50, pValue: null })
+    expect(result.arms[0].interval.lower).toBeLessThan(30)
+    expect(result.arms[1].pValue).toBeLessThan(0.025)
+  })
+
+  it('should not call small or close tests', () => {
+    const close = [
+      { variantId: 'a', name: 'A', sent: 300, opened: 66, clicked: 0, replied: 0 },
+      { variantId: 'b', name: 'B', sent: 300, opened: 60, clicked: 0, replied: 0 },
+    ]
+
+    expect(evaluateExperiment(close, settings).reason).toBe('not_significant')
+    expect(evaluateExperiment(close, { ...settings, minSampleSize: 500 }).reason).toBe('insufficient_sample')
+    expect(evaluateExperiment(close, { ...settings, winnerCriteria: 'reply_rate' })).toMatchObject({ leader: null, reason: 'no_data' })
+  })
+
+  it('should validate experiment settings', () => {
+    expect(validateABTestSettings({ testPercentage: 0, winnerCriteria: 'bounce_rate' as any, confidenceLevel: 0.8, minSampleSize: 1.5 })).toEqual([
+      'abTest.testPercentage must be between 0 and 100',
+      'abTest.winnerCriteria must be one of: open_rate, click_rate, reply_rate',
+      'abTest.confidenceLevel must be one of: 0.9, 0.95, 0.99',
+      'abTest.minSampleSize must be a positive whole number',
+    ])
+    expect(validateABTestSettings({ testPercentage: 20, testDurationHours: 6 })).toEqual([])
+  })
+
+  it('should decide after the last send-time variant has had the test duration', () => {
+    const start = new Date('2026-05-01T09:00:00Z')
+    expect(winnerDecisionTime(start, [{ sendAt: null }, { sendAt: new Date('2026-05-01T18:00:00Z') }], 4))
+      .toEqual(new Date('2026-05-01T22:00:00Z'))
+  })
+})
+
+describe('ABTestService.selectWinner', () => {
+  let service: ABTestService
+  let campaign: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new ABTestService({ now: () => new Date('2026-05-02T09:00:00Z') } as any)
+    campaign = {
+      id: 'c-1',
+      status: 'SENDING',
+      isABTest: true,
+      createdAt: new Date('2026-05-01T09:00:00Z'),
+      scheduledFor: null,
+      abTestConfig: { testPercentage: 20, winnerCriteria: 'click_rate', minSampleSize: 50 },
+      variants: [{ id: 'a', name: 'Short subject', percentage: 50 }, { id: 'b', name: 'Long subject', percentage: 50 }],
+    }
+    ;(prisma.emailCampaign.findFirst as jest.Mock).mockImplementation(async () => campaign)
+    ;(prisma.emailCampaignRecipient.groupBy as jest.Mock).mockResolvedValue([
+      { variantId: 'a', _count: { _all: 100, openedAt: 40, clickedAt: 5, repliedAt: 0 } },
+      { variantId: 'b', _count: { _all: 100, openedAt: 30, clickedAt: 20, repliedAt: 1 } },
+    ])
+    ;(prisma.emailCampaignRecipient.count as jest.Mock).mockResolvedValue(0)
+    ;(prisma.emailCampaignRecipient.updateMany as jest.Mock).mockResolvedValue({ count: 800 })
+  })
+
+  it('should roll the leader out to the pending holdout and store it', async () => {
+    const winner = await service.selectWinner('c-1')
+
+    expect(winner).toMatchObject({ variantId: 'b', name: 'Long subject', metric: 'click_rate', rate: 20, significant: true, rolledOut: 800 })
+    expect(prisma.emailCampaignRecipient.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'c-1', holdout: true, status: 'PENDING' },
+      data: { variantId: 'b' },
+    })
+    expect(prisma.emailCampaign.update).toHaveBeenCalledWith({
+      where: { id: 'c-1' },
+      data: { abTestConfig: { ...campaign.abTestConfig, winner } },
+    })
+  })
+
+  it('should wait for the test cohort and not decide twice', async () => {
+    ;(prisma.emailCampaignRecipient.count as jest.Mock).mockResolvedValueOnce(12)
+    await expect(service.selectWinner('c-1')).rejects.toThrow('12 test recipients have not been sent yet')
+    expect(prisma.emailCampaignRecipient.updateMany).not.toHaveBeenCalled()
+
+    campaign.abTestConfig.winner = { variantId: 'a', rolledOut: 3 }
+    expect(await service.selectWinner('c-1')).toEqual({ variantId: 'a', rolledOut: 3 })
+    expect(prisma.emailCampaignRecipient.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,169 @@
+// LeadAI Pro - AI Usage Tests
+// Tests for cost estimates, monthly budgets and the usage ledger around completions
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { estimateCost } from '../../lib/llm/pricing'
+import { evaluateBudget, TIER_AI_BUDGETS, validateAIBudget } from '../../lib/llm/aiBudgets'
+import { AIUsageService } from '../../lib/llm/aiUsage'
+import { LLMClient } from '../../lib/llm/llmClient'
+import { runWithAIContext } from '../../lib/llm/aiContext'
+import { AIBudgetExceededError, LLMProvider } from '../../lib/llm/types'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    organization: {
+      findUnique: jest.fn()
+    },
+    aiUsageRecord: {
+      create: jest.fn(),
+      aggregate: jest.fn()
+    }
+  }
+}))
+
+const now = new Date('2026-03-18T12:00:00Z')
+const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+
+describe('estimateCost', () => {
+  it('should price by model family and treat self-hosted models as free', () => {
+    expect(estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBe(0.00045)
+    expect(estimateCost('openai', 'gpt-4o', usage)).toBe(0.0075)
+    expect(estimateCost('anthropic', 'claude-3-5-haiku-latest', usage)).toBe(0.0028)
+    // Unlisted hosted models use the provider's mainstream price rather than zero
+    expect(estimateCost('openai', 'o3-preview', usage)).toBe(0.0075)
+    expect(estimateCost('local', 'llama3.1', usage)).toBe(0)
+  })
+})
+
+describe('evaluateBudget', () => {
+  const budget = TIER_AI_BUDGETS.PROFESSIONAL
+
+  it('should report usage against the monthly limits', () => {
+    const status = evaluateBudget(budget, { tokens: 1_000_000, costUsd: 35 }, { tokens: 250_000, costUsd: 9 }, now)
+
+    expect(status).toMatchObject({
+      state: 'ok',
+      periodStart: new Date('2026-03-01T00:00:00Z'),
+      resetAt: new Date('2026-04-01T00:00:00Z'),
+      organization: { percentUsed: 35 },
+      user: { percentUsed: 25 },
+    })
+  })
+
+  it('should warn past the soft limit and stop at the hard limit, organization first', () => {
+    expect(evaluateBudget(budget, { tokens: 4_100_000, costUsd: 20 }, undefined, now)).toMatchObject({
+      state: 'warning',
+      scope: 'organization',
+      message: 'Your organization has used 82% of its monthly AI budget.',
+    })
+    expect(evaluateBudget(budget, { tokens: 2_000_000, costUsd: 100.5 }, { tokens: 1_200_000, costUsd: 60 }, now)).toMatchObject({
+      state: 'exceeded',
+      scope: 'organization',
+      message: 'Your organization has used its monthly AI budget of $100. It resets on 2026-04-01.',
+    })
+    expect(evaluateBudget(budget, { tokens: 2_000_000, costUsd: 40 }, { tokens: 1_000_000, costUsd: 20 }, now)).toMatchObject({
+      state: 'exceeded',
+      scope: 'user',
+      message: 'You have used your monthly AI allowance of 1,000,000 tokens. It resets on 2026-04-01.',
+    })
+    expect(evaluateBudget(TIER_AI_BUDGETS.CUSTOM, { tokens: 9e9, costUsd: 9e6 }, undefined, now).state).toBe('ok')
+  })
+
+  it('should validate budget overrides', () => {
+    expect(validateAIBudget({ monthlyTokens: 2_000_000, monthlyCostUsd: null, softLimitPercent: 75 })).toEqual([])
+    expect(validateAIBudget({ monthlyTokens: 1.5, monthlyCostUsd: -1, softLimitPercent: 0 })).toEqual([
+      'monthlyTokens must be a whole number of tokens or null for unlimited',
+      'monthlyCostUsd must be a non-negative amount or null for unlimited',
+      'softLimitPercent must be between 1 and 100',
+    ])
+  })
+})
+
+describe('AIUsageService', () => {
+  let service: AIUsageService
+  let client: LLMClient
+  let provider: LLMProvider & { complete: jest.Mock }
+
+  const monthTotals = (organization: { tokens: number; costUsd: number }, user = { tokens: 0, costUsd: 0 }) => {
+    ;(prisma.aiUsageRecord.aggregate as jest.Mock).mockImplementation(async (args: any) => {
+      const totals = args.where.userId ? user : organization
+      return { _sum: { totalTokens: totals.tokens, costUsd: totals.costUsd } }
+    })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({ subscriptionTier: 'STARTER', aiConfig: {} })
+    ;(prisma.aiUsageRecord.create as jest.Mock).mockResolvedValue({})
+    provider = {
+      name: 'openai',
+      complete: jest.fn(async () => ({ content: 'ok', provider: 'openai', model: 'gpt-4o', usage })),
+    } as any
+    service = new AIUsageService()
+    client = new LLMClient(() => provider, service)
+  })
+
+  it('should record each completion with its user, feature and estimated cost', async () => {
+    monthTotals({ tokens: 1000, costUsd: 0.01 })
+
+    await runWithAIContext({ organizationId: 'org-1', userId: 'user-1' }, () =>
+      client.complete({ feature: 'email.template', messages: [{ role: 'user', content: 'Write one.' }] })
+    )
+
+    expect(prisma.aiUsageRecord.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: 'org-1',
+        userId: 'user-1',
+        feature: 'email.template',
+        model: 'gpt-4o',
+        totalTokens: 1500,
+        costUsd: 0.0075,
+      }),
+    })
+
+    // Cached month-to-date totals include the new call without another query
+    const status = await service.getBudgetStatus('org-1', 'user-1')
+    expect(status.organization.tokens).toBe(2500)
+    expect(prisma.aiUsageRecord.aggregate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refuse completions once the budget is used up', async () => {
+    monthTotals({ tokens: 500_000, costUsd: 4 })
+
+    const attempt = runWithAIContext({ organizationId: 'org-1', userId: 'user-1' }, () =>
+      client.complete({ feature: 'email.template', messages: [{ role: 'user', content: 'Write one.' }] })
+    )
+
+    await expect(attempt).rejects.toBeInstanceOf(AIBudgetExceededError)
+    await expect(attempt).rejects.toMatchObject({ scope: 'organization' })
+    expect(provider.complete).not.toHaveBeenCalled()
+    expect(prisma.aiUsageRecord.create).not.toHaveBeenCalled()
+  })
+
+  it('should apply organization overrides and report soft-limit warnings to the request', async () => {
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+      subscriptionTier: 'STARTER',
+      aiConfig: { budget: { monthlyTokens: 1_000_000, monthlyCostUsd: null } },
+    })
+    monthTotals({ tokens: 850_000, costUsd: 40 })
+    const onBudgetWarning = jest.fn()
+
+    await runWithAIContext({ organizationId: 'org-1', onBudgetWarning }, () =>
+      client.complete({ feature: 'email.template', messages: [{ role: 'user', content: 'Write one.' }] })
+    )
+
+    expect(provider.complete).toHaveBeenCalled()
+    expect(onBudgetWarning).toHaveBeenCalledWith(expect.objectContaining({
+      state: 'warning',
+      message: 'Your organization has used 85% of its monthly AI budget.',
+    }))
+  })
+
+  it('should allow requests when usage cannot be loaded', async () => {
+    ;(prisma.aiUsageRecord.aggregate as jest.Mock).mockRejectedValue(new Error('connection refused'))
+
+    await expect(client.complete({ feature: 'email.template', messages: [], organizationId: 'org-2' }))
+      .resolves.toMatchObject({ content: 'ok' })
+  })
+})
@@ -0,0 +1,331 @@
+// LeadAI Pro - Call Session Tests
+// Tests for the call status lifecycle, dispositions, dialing through a simulated provider and recording analysis
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma, db } from '../../lib/database'
+import { llm } from '../../lib/llm/llmClient'
+import { AICallingSystem } from '../../lib/ai/callingSystem'
+import { CallSessionService, canTransition, validateDisposition } from '../../lib/calls/callSessionService'
+import { SimulatedTelephonyProvider, parseTwilioCallStatus, twilioSignature, verifyTwilioSignature } from '../../lib/calls/telephony'
+import { Transcriber } from '../../lib/calls/transcription'
+import { ComplianceGuard } from '../../lib/compliance/complianceGuard'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+
+jest.mock('../../lib/database', () => {
+  const prisma: any = {
+    lead: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn()
+    },
+    callSession: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+  // Interactive transactions run against the same mocks
+  prisma.$transaction = jest.fn((run: any) => run(prisma))
+  return {
+    prisma,
+    db: {
+      activity: {
+        createWithAnalysis: jest.fn()
+      }
+    }
+  }
+})
+
+jest.mock('../../lib/llm/llmClient', () => ({
+  llm: {
+    completeJSON: jest.fn()
+  }
+}))
+
+const mockPrisma = prisma as any
+const mockDb = db as any
+const mockLLM = llm as any
+
+const now = new Date('2025-06-10T15:00:00Z')
+const clock: Clock = { now: () => now }
+
+const session = (overrides: Record<string, any> = {}) => ({
+  id: 'call-1',
+  leadId: 'lead-1',
+  userId: 'user-1',
+  phoneNumber: '+15555550100',
+  direction: 'OUTBOUND',
+  status: 'INITIATED',
+  statusReason: null,
+  outcome: null,
+  scriptId: null,
+  provider: null,
+  providerCallId: null,
+  startedAt: null,
+  endedAt: null,
+  duration: null,
+  recordingUrl: null,
+  transcript: null,
+  sentiment: null,
+  coachingScore: null,
+  keyMoments: [],
+  actionItems: [],
+  analyzedAt: null,
+  notes: null,
+  followUpRequired: false,
+  dispositionedAt: null,
+  activityId: null,
+  createdAt: new Date('2025-06-10T14:50:00Z'),
+  updatedAt: new Date('2025-06-10T14:50:00Z'),
+  ...overrides
+})
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  mockPrisma.callSession.update.mockImplementation(async ({ data }: any) => session(data))
+  mockPrisma.callSession.updateMany.mockResolvedValue({ count: 1 })
+  mockDb.activity.createWithAnalysis.mockImplementation(async (data: any) => ({ id: data.type === 'CALL' ? 'activity-1' : 'task-1', ...data }))
+})
+
+describe('call status lifecycle', () => {
+  it('should only move a call forward', () => {
+    expect(canTransition('INITIATED', 'RINGING')).toBe(true)
+    expect(canTransition('RINGING', 'COMPLETED')).toBe(true)
+    expect(canTransition('CONNECTED', 'RINGING')).toBe(false)
+    expect(canTransition('COMPLETED', 'FAILED')).toBe(false)
+    expect(canTransition('BLOCKED', 'RINGING')).toBe(false)
+  })
+
+  it('should ignore a callback that arrives after the call ended', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findUnique.mockResolvedValue({ status: 'COMPLETED', startedAt: now })
+
+    expect(await service.updateStatus('call-1', 'RINGING')).toBe(false)
+    expect(mockPrisma.callSession.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('should back-date the start of a call first reported as completed', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findUnique.mockResolvedValue({ status: 'RINGING', startedAt: null })
+
+    expect(await service.updateStatus('call-1', 'COMPLETED', { durationSeconds: 90 })).toBe(true)
+    expect(mockPrisma.callSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call-1', status: 'RINGING' },
+      data: {
+        status: 'COMPLETED',
+        startedAt: new Date('2025-06-10T14:58:30Z'),
+        endedAt: now,
+        duration: 90
+      }
+    })
+  })
+
+  it('should map Twilio call statuses', () => {
+    expect(parseTwilioCallStatus('in-progress')).toBe('in_progress')
+    expect(parseTwilioCallStatus('no-answer')).toBe('no_answer')
+    expect(parseTwilioCallStatus('canceled')).toBe('failed')
+    expect(parseTwilioCallStatus('unknown')).toBeNull()
+  })
+
+  it('should verify Twilio webhook signatures', () => {
+    const url = 'https://api.example.com/calls/status'
+    const params = { CallSid: 'CA123', CallStatus: 'completed' }
+    const signature = twilioSignature(url, params, 'token')
+
+    expect(verifyTwilioSignature(url, params, signature, 'token')).toBe(true)
+    expect(verifyTwilioSignature(url, { ...params, CallStatus: 'busy' }, signature, 'token')).toBe(false)
+  })
+})
+
+describe('call dispositions', () => {
+  it('should validate the disposition form', () => {
+    expect(validateDisposition({ outcome: 'INTERESTED', followUpAt: '2025-06-12T15:00:00Z' })).toEqual([])
+    expect(validateDisposition({ outcome: 'MAYBE' as any, followUpAt: 'soon', durationSeconds: -1 })).toHaveLength(3)
+  })
+
+  it('should log the call as an activity and schedule the call back', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({
+      status: 'COMPLETED',
+      startedAt: new Date('2025-06-10T14:55:00Z'),
+      endedAt: new Date('2025-06-10T14:58:00Z'),
+      duration: 180
+    }))
+
+    const result = await service.recordDisposition('org-1', 'call-1', {
+      outcome: 'CALLBACK_REQUESTED',
+      notes: 'Call back after the inspection',
+      followUpAt: '2025-06-12T15:00:00Z'
+    }, 'user-1')
+
+    expect(mockDb.activity.createWithAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+      leadId: 'lead-1',
+      type: 'CALL',
+      outcome: 'RESCHEDULED',
+      durationMinutes: 3,
+      metadata: { callSessionId: 'call-1', callOutcome: 'CALLBACK_REQUESTED' }
+    }), { tx: mockPrisma })
+    expect(mockDb.activity.createWithAnalysis).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'TASK',
+      scheduledAt: new Date('2025-06-12T15:00:00Z')
+    }), { tx: mockPrisma })
+    expect(result).toMatchObject({ outcome: 'CALLBACK_REQUESTED', followUpRequired: true, activityId: 'activity-1', dispositionedAt: now })
+  })
+
+  it('should end a call the provider never reported finished', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({ status: 'RINGING' }))
+
+    await service.recordDisposition('org-1', 'call-1', { outcome: 'NO_ANSWER' }, 'user-1')
+
+    expect(mockPrisma.callSession.update).toHaveBeenCalledWith({
+      where: { id: 'call-1' },
+      data: expect.objectContaining({ status: 'NO_ANSWER', endedAt: now, followUpRequired: false })
+    })
+  })
+
+  it('should not record a second disposition', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({ status: 'COMPLETED', dispositionedAt: now }))
+    // A dispositioned call no longer matches the claim
+    mockPrisma.callSession.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(service.recordDisposition('org-1', 'call-1', { outcome: 'SUCCESSFUL' }, 'user-1'))
+      .rejects.toMatchObject({ code: 'invalid_state' })
+    expect(mockDb.activity.createWithAnalysis).not.toHaveBeenCalled()
+  })
+
+  it('should log a double-submitted disposition only once', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({ status: 'COMPLETED' }))
+    mockPrisma.callSession.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+    const input = { outcome: 'CALLBACK_REQUESTED' as const, followUpAt: '2025-06-12T15:00:00Z' }
+
+    const results = await Promise.allSettled([
+      service.recordDisposition('org-1', 'call-1', input, 'user-1'),
+      service.recordDisposition('org-1', 'call-1', input, 'user-1'),
+    ])
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected'])
+    expect(mockPrisma.callSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call-1', dispositionedAt: null },
+      data: { dispositionedAt: now },
+    })
+    expect(mockDb.activity.createWithAnalysis).toHaveBeenCalledTimes(2)
+    expect(mockDb.activity.createWithAnalysis.mock.calls.map((call: any) => call[0].type)).toEqual(['CALL', 'TASK'])
+  })
+
+  it('should claim and log in one transaction so a failed write leaves nothing behind', async () => {
+    const service = new CallSessionService(clock)
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({ status: 'COMPLETED' }))
+    mockDb.activity.createWithAnalysis.mockResolvedValueOnce({ id: 'activity-1' }).mockRejectedValueOnce(new Error('connection reset'))
+
+    await expect(service.recordDisposition('org-1', 'call-1', {
+      outcome: 'CALLBACK_REQUESTED',
+      followUpAt: '2025-06-12T15:00:00Z'
+    }, 'user-1')).rejects.toThrow('connection reset')
+
+    // The claim, the call activity and the call-back task all ran inside the one transaction
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+    expect(mockDb.activity.createWithAnalysis.mock.calls.map((call: any) => call[1])).toEqual([{ tx: mockPrisma }, { tx: mockPrisma }])
+    expect(mockPrisma.callSession.updateMany).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.callSession.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('AICallingSystem', () => {
+  const lead = { id: 'lead-1', organizationId: 'org-1', phone: '+15555550100', timezone: 'America/New_York' }
+  let telephony: SimulatedTelephonyProvider
+  let compliance: { check: jest.Mock }
+  let transcriber: Transcriber & { transcribe: jest.Mock }
+  let calling: AICallingSystem
+
+  beforeEach(() => {
+    telephony = new SimulatedTelephonyProvider(() => ({ providerCallId: 'sim-1', durationSeconds: 120 }))
+    compliance = { check: jest.fn(async () => ({ allowed: true })) }
+    transcriber = { name: 'openai', transcribe: jest.fn(async () => ({ text: 'Rep: Hi. Lead: Send me the offer.' })) }
+    calling = new AICallingSystem(telephony, new CallSessionService(clock), compliance as unknown as ComplianceGuard, transcriber)
+
+    mockPrisma.lead.findFirst.mockResolvedValue({ id: 'lead-1', phone: lead.phone })
+    mockPrisma.lead.findUnique.mockResolvedValue(lead)
+    mockPrisma.callSession.create.mockImplementation(async ({ data }: any) => session(data))
+    mockPrisma.callSession.findUnique.mockResolvedValue({ status: 'INITIATED', startedAt: null })
+    mockPrisma.callSession.findFirst.mockResolvedValue(session({ status: 'COMPLETED' }))
+  })
+
+  it('should dial the lead and record the provider call', async () => {
+    await calling.placeCall('org-1', 'user-1', { leadId: 'lead-1' })
+
+    expect(compliance.check).toHaveBeenCalledWith('org-1', expect.objectContaining({ channel: 'call', to: lead.phone }))
+    expect(telephony.dialed).toEqual([expect.objectContaining({ sessionId: 'call-1', to: lead.phone, record: true })])
+    expect(mockPrisma.callSession.update).toHaveBeenCalledWith({
+      where: { id: 'call-1' },
+      data: { provider: 'simulated', providerCallId: 'sim-1' }
+    })
+    expect(mockPrisma.callSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call-1', status: 'INITIATED' },
+      data: expect.objectContaining({ status: 'COMPLETED', duration: 120 })
+    })
+  })
+
+  it('should block a call the compliance check refuses without dialing', async () => {
+    compliance.check.mockResolvedValue({ allowed: false, reason: 'quiet_hours', detail: 'Quiet hours in America/New_York' })
+
+    await calling.placeCall('org-1', 'user-1', { leadId: 'lead-1' })
+
+    expect(telephony.dialed).toHaveLength(0)
+    expect(mockPrisma.callSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'call-1', status: 'INITIATED' },
+      data: expect.objectContaining({ status: 'BLOCKED', statusReason: 'Quiet hours in America/New_York' })
+    })
+  })
+
+  it('should transcribe and analyze a recording', async () => {
+    mockPrisma.callSession.findUnique.mockResolvedValue(session({ status: 'COMPLETED', duration: 120 }))
+    mockLLM.completeJSON.mockResolvedValue({
+      data: {
+        overallPerformance: 8,
+        keyMoments: [{ timestamp: 40, type: 'buying_signal', content: 'Send me the offer', aiSuggestion: '', handled: true }],
+        strengths: [],
+        improvements: [],
+        nextSteps: ['Email the offer'],
+        sentiment: 0.6,
+        interestLevel: 'high',
+        objections: [],
+        buyingSignals: ['Send me the offer']
+      }
+    })
+
+    await calling.ingestRecording('call-1', { recordingUrl: 'https://api.twilio.com/recordings/RE1' })
+
+    expect(transcriber.transcribe).toHaveBeenCalledWith('https://api.twilio.com/recordings/RE1')
+    expect(mockPrisma.callSession.update).toHaveBeenCalledWith({
+      where: { id: 'call-1' },
+      data: expect.objectContaining({
+        recordingUrl: 'https://api.twilio.com/recordings/RE1',
+        transcript: 'Rep: Hi. Lead: Send me the offer.',
+        sentiment: 0.6,
+        coachingScore: 80,
+        keyMoments: [expect.objectContaining({ type: 'buying_signal' })],
+        actionItems: ['Email the offer'],
+        analyzedAt: now
+      })
+    })
+  })
+
+  it('should keep a supplied transcript when the analysis fails', async () => {
+    mockPrisma.callSession.findUnique.mockResolvedValue(session({ status: 'COMPLETED' }))
+    mockLLM.completeJSON.mockRejectedValue(new Error('LLM unavailable'))
+
+    await calling.ingestRecording('call-1', { transcript: 'Lead: Not interested.' })
+
+    expect(transcriber.transcribe).not.toHaveBeenCalled()
+    expect(mockPrisma.callSession.update).toHaveBeenCalledWith({
+      where: { id: 'call-1' },
+      data: { transcript: 'Lead: Not interested.', analyzedAt: now }
+    })
+  })
+})
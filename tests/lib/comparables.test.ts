@@ -0,0 +1,207 @@
+// LeadAI Pro - Comparable Sales Tests
+// Tests for comp selection, adjustments, the weighted ARV and storing PropStream comps
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  CompSale,
+  CompSubject,
+  DEFAULT_COMP_CRITERIA,
+  compAdjustments,
+  estimateArv,
+  resolveCompCriteria,
+  toPropertyType,
+  validateCompCriteria,
+} from '../../lib/properties/comparables'
+import { ComparableService } from '../../lib/properties/comparableService'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    property: {
+      findFirst: jest.fn(),
+      update: jest.fn()
+    },
+    comparable: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    propertyAnalysis: {
+      findFirst: jest.fn(),
+      create: jest.fn()
+    }
+  }
+}))
+
+// The HTTP client is replaced per test through the service's PropStream factory
+jest.mock('../../lib/integrations/propstream', () => ({
+  PropStreamAPI: jest.fn()
+}))
+
+const mockPrisma = prisma as any
+
+const now = new Date('2025-06-10T15:00:00Z')
+const clock: Clock = { now: () => now }
+const criteria = resolveCompCriteria()
+
+const subject: CompSubject = { propertyType: 'SINGLE_FAMILY', bedrooms: 3, bathrooms: 2, squareFootage: 1500, yearBuilt: 1990 }
+
+const sale = (id: string, overrides: Partial<CompSale>): CompSale => ({
+  id,
+  propertyType: 'SINGLE_FAMILY',
+  bedrooms: 3,
+  bathrooms: 2,
+  squareFootage: 1500,
+  yearBuilt: 1990,
+  salePrice: 300000,
+  saleDate: new Date('2025-05-01'),
+  distance: 0.3,
+  ...overrides
+})
+
+const comps = [
+  sale('same', {}),
+  sale('bigger', { bedrooms: 4, squareFootage: 1600, yearBuilt: 1995, salePrice: 320000, saleDate: new Date('2025-04-01'), distance: 0.5 }),
+  sale('smaller', { bathrooms: 1, squareFootage: 1450, yearBuilt: 1985, salePrice: 290000, saleDate: new Date('2025-02-15'), distance: 0.8 }),
+  sale('far', { distance: 2.5 }),
+  sale('condo', { propertyType: 'CONDO' }),
+  sale('stale', { saleDate: new Date('2024-06-01') })
+]
+
+describe('comp criteria', () => {
+  it('should reject unknown and out-of-range criteria', () => {
+    expect(validateCompCriteria({ maxDistanceMiles: 0.5, requireSamePropertyType: false })).toEqual([])
+    expect(validateCompCriteria({ radius: 1, maxComps: 0, perBedroom: -1, requireSamePropertyType: 'yes' })).toEqual([
+      'Unknown comp criterion: radius',
+      'requireSamePropertyType must be true or false',
+      'perBedroom cannot be negative',
+      'maxComps must be a whole number of at least 1'
+    ])
+  })
+
+  it('should map data provider type labels to property types', () => {
+    expect(toPropertyType('Single Family Residence')).toBe('SINGLE_FAMILY')
+    expect(toPropertyType('Condominium')).toBe('CONDO')
+    expect(toPropertyType('Duplex')).toBe('MULTI_FAMILY')
+    expect(toPropertyType('Unknown')).toBe('OTHER')
+  })
+})
+
+describe('compAdjustments', () => {
+  it('should adjust the sale price toward the subject per feature difference', () => {
+    expect(compAdjustments(subject, comps[1], criteria, now)).toEqual({ bedrooms: -10000, squareFootage: -5000, yearBuilt: -2500 })
+    expect(compAdjustments(subject, comps[2], criteria, now)).toEqual({ bathrooms: 7500, squareFootage: 2500, yearBuilt: 2500 })
+  })
+
+  it('should bring older sales up to date with market appreciation', () => {
+    const adjustments = compAdjustments(subject, sale('old', { saleDate: new Date('2025-03-10T15:00:00Z') }), resolveCompCriteria({ monthlyAppreciationPercent: 1 }), now)
+    // About three months at 1% of 300000
+    expect(adjustments.time).toBeGreaterThan(8800)
+    expect(adjustments.time).toBeLessThan(9100)
+  })
+})
+
+describe('estimateArv', () => {
+  it('should select comps within the criteria and weight their adjusted prices', () => {
+    const estimate = estimateArv(subject, comps, criteria, now)
+    const byId = Object.fromEntries(estimate.comparables.map(comp => [comp.id, comp]))
+
+    expect(estimate.compCount).toBe(3)
+    expect(estimate.arv).toBeGreaterThan(300000)
+    expect(estimate.arv).toBeLessThan(302500)
+    // Comps agree closely, so the range is the 2.5% floor either side
+    expect(estimate.arvHigh! - estimate.arv!).toBeCloseTo(estimate.arv! * 0.025, -1)
+    expect(estimate.confidence).toBe(100)
+    expect(estimate.pricePerSquareFoot).toBeCloseTo(estimate.arv! / 1500, 2)
+
+    expect(byId.same.weight).toBeGreaterThan(byId.smaller.weight)
+    expect(byId.same.weight + byId.bigger.weight + byId.smaller.weight).toBeCloseTo(1, 3)
+    expect(byId.far).toMatchObject({ selected: false, weight: 0, rejectionReasons: ['2.5 miles away (max 1)'] })
+    expect(byId.condo.rejectionReasons).toEqual(['CONDO is not SINGLE_FAMILY'])
+    expect(byId.stale.rejectionReasons).toEqual(['Sold 12 months ago (max 6)'])
+  })
+
+  it('should honor manual inclusions and widen the range with too few comps', () => {
+    const estimate = estimateArv(subject, [
+      sale('same', { inclusion: 'EXCLUDED' }),
+      sale('far', { distance: 2.5, salePrice: 280000, inclusion: 'INCLUDED' })
+    ], criteria, now)
+
+    expect(estimate.comparables.map(comp => comp.selected)).toEqual([false, true])
+    expect(estimate).toMatchObject({ arv: 280000, compCount: 1, arvLow: 280000 - 7000 * 3, arvHigh: 280000 + 7000 * 3 })
+    expect(estimate.confidence).toBe(33)
+  })
+
+  it('should report no ARV when nothing qualifies', () => {
+    expect(estimateArv(subject, [comps[3]], criteria, now)).toMatchObject({ arv: null, confidence: 0, compCount: 0 })
+  })
+})
+
+describe('ComparableService', () => {
+  let service: ComparableService
+  const getComparables = jest.fn<(...args: any[]) => Promise<any[]>>()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new ComparableService(clock, () => ({ getComparables }) as any)
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1', propStreamId: 'ps-subject', ...subject })
+    mockPrisma.comparable.findMany.mockResolvedValue([])
+    mockPrisma.propertyAnalysis.findFirst.mockResolvedValue(null)
+    mockPrisma.propertyAnalysis.create.mockImplementation(async ({ data }: any) => ({ id: 'analysis-1', ...data }))
+  })
+
+  const propStreamComp = (id: string, valuation: any) => ({
+    id,
+    address: { street: '12 Elm St', city: 'Austin', state: 'TX', zipCode: '78701' },
+    propertyDetails: { propertyType: 'Single Family Residence', bedrooms: 3, bathrooms: 2, squareFootage: 0, lotSize: 0, yearBuilt: 1990 },
+    valuation,
+    distance: 0.4
+  })
+
+  it('should store PropStream comps with a recorded sale and skip the rest', async () => {
+    getComparables.mockResolvedValue([
+      propStreamComp('ps-1', { lastSalePrice: 310000, lastSaleDate: '2025-05-20' }),
+      propStreamComp('ps-2', { lastSalePrice: 0, lastSaleDate: '' }),
+      propStreamComp('ps-subject', { lastSalePrice: 150000, lastSaleDate: '2019-01-01' })
+    ])
+
+    const result = await service.importFromPropStream('org-1', 'property-1', 'user-1', { radius: 1 })
+
+    expect(getComparables).toHaveBeenCalledWith('ps-subject', 1)
+    expect(result).toMatchObject({ imported: 1, skipped: 2 })
+    expect(mockPrisma.comparable.upsert).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.comparable.upsert.mock.calls[0][0]).toMatchObject({
+      where: { propertyId_dataSource_externalId: { propertyId: 'property-1', dataSource: 'PROPSTREAM', externalId: 'ps-1' } },
+      create: { propertyType: 'SINGLE_FAMILY', squareFootage: null, salePrice: 310000, saleDate: new Date('2025-05-20'), distance: 0.4 }
+    })
+  })
+
+  it('should refuse properties without a PropStream ID', async () => {
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1', propStreamId: null, ...subject })
+
+    await expect(service.importFromPropStream('org-1', 'property-1', 'user-1')).rejects.toMatchObject({ code: 'invalid_state' })
+    expect(getComparables).not.toHaveBeenCalled()
+  })
+
+  it('should recompute with the last criteria and save the ARV when a comp is excluded', async () => {
+    mockPrisma.comparable.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.comparable.findMany.mockResolvedValue([sale('same', { inclusion: 'EXCLUDED' }), sale('far', { distance: 1.5 })])
+    mockPrisma.propertyAnalysis.findFirst.mockResolvedValue({ criteria: { ...DEFAULT_COMP_CRITERIA, maxDistanceMiles: 2 } })
+
+    const analysis = await service.setInclusion('org-1', 'property-1', 'same', 'EXCLUDED', 'user-1')
+
+    expect(mockPrisma.comparable.updateMany).toHaveBeenCalledWith({ where: { id: 'same', propertyId: 'property-1' }, data: { inclusion: 'EXCLUDED' } })
+    expect(analysis).toMatchObject({ arv: 300000, compCount: 1, propertyId: 'property-1', userId: 'user-1', criteria: { maxDistanceMiles: 2 } })
+    expect(mockPrisma.comparable.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'same' }, data: expect.objectContaining({ selected: false }) }))
+    expect(mockPrisma.property.update).toHaveBeenCalledWith({ where: { id: 'property-1' }, data: { arv: 300000 } })
+  })
+
+  it('should 404 comps of another property', async () => {
+    mockPrisma.comparable.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(service.setInclusion('org-1', 'property-1', 'other', 'INCLUDED', 'user-1')).rejects.toMatchObject({ code: 'not_found', resource: 'Comparable' })
+    expect(mockPrisma.propertyAnalysis.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,181 @@
+// LeadAI Pro - Compliance Tests
+// Tests for quiet hours, opt-out keywords, DNC files, unsubscribe links and the outbound compliance check
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+import { ComplianceGuard, DEFAULT_COMPLIANCE_SETTINGS, validateComplianceSettings } from '../../lib/compliance/complianceGuard'
+import { normalizePhone } from '../../lib/compliance/suppressionList'
+import { isQuietTime, nextAllowedTime } from '../../lib/compliance/quietHours'
+import { parseSmsKeyword } from '../../lib/compliance/smsKeywords'
+import { parseDncFile } from '../../lib/compliance/dncImport'
+import { addUnsubscribeFooter, unsubscribeHeaders, unsubscribeUrl, verifyTrackingToken } from '../../lib/email/emailTracking'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    organization: { findUnique: jest.fn() },
+    lead: { findUnique: jest.fn() },
+    suppression: { findUnique: jest.fn(), upsert: jest.fn(), deleteMany: jest.fn() },
+    consentRecord: { findFirst: jest.fn(), create: jest.fn() },
+  }
+}))
+
+const quietHours = { enabled: true, start: '21:00', end: '08:00' }
+
+describe('contact normalization', () => {
+  it('should store numbers in E.164, taking ten digits to be North American', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('+15551234567')
+    expect(normalizePhone('1-555-123-4567')).toBe('+15551234567')
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958')
+  })
+})
+
+describe('quiet hours', () => {
+  it('should apply windows that run past midnight in local time', () => {
+    // 22:00 in New York is 19:00 in Los Angeles
+    const at = new Date('2025-06-03T02:00:00Z')
+
+    expect(isQuietTime(at, 'America/New_York', quietHours)).toBe(true)
+    expect(isQuietTime(at, 'America/Los_Angeles', quietHours)).toBe(false)
+    expect(isQuietTime(at, 'America/New_York', { ...quietHours, enabled: false })).toBe(false)
+  })
+
+  it('should find the first time outside quiet hours in every zone', () => {
+    const at = new Date('2025-06-03T02:00:00Z')
+
+    expect(nextAllowedTime(at, ['America/New_York'], quietHours).toISOString()).toBe('2025-06-03T12:00:00.000Z')
+    // 08:00 in New York is 05:00 in Los Angeles, so the call waits for 08:00 there
+    expect(nextAllowedTime(at, ['America/New_York', 'America/Los_Angeles'], quietHours).toISOString()).toBe('2025-06-03T15:00:00.000Z')
+    expect(nextAllowedTime(new Date('2025-06-03T16:00:00Z'), ['America/New_York'], quietHours).toISOString()).toBe('2025-06-03T16:00:00.000Z')
+  })
+})
+
+describe('parseSmsKeyword', () => {
+  it('should only treat a message that is just the keyword as one', () => {
+    expect(parseSmsKeyword('STOP')).toBe('stop')
+    expect(parseSmsKeyword(' Stop all! ')).toBe('stop')
+    expect(parseSmsKeyword('unsubscribe')).toBe('stop')
+    expect(parseSmsKeyword('Start')).toBe('start')
+    expect(parseSmsKeyword('HELP')).toBe('help')
+    expect(parseSmsKeyword('Please stop texting me about the house')).toBeNull()
+    expect(parseSmsKeyword(undefined)).toBeNull()
+  })
+})
+
+describe('parseDncFile', () => {
+  it('should read registry lines, plain numbers and CSV columns, skipping the header', () => {
+    const file = [
+      'area_code,phone_number',
+      '212,5550100',
+      '(646) 555-0199',
+      'Sam Lee,"+1 718 555 0123",Brooklyn',
+      '',
+      'not a number',
+    ].join('\r\n')
+
+    expect(parseDncFile(file)).toEqual({
+      numbers: ['+12125550100', '+16465550199', '+17185550123'],
+      invalidLines: 1,
+    })
+  })
+})
+
+describe('unsubscribe links', () => {
+  const options = { baseUrl: 'https://api.leadflow.test/', secret: 'tracking-secret' }
+
+  it('should sign a link that only unsubscribes', () => {
+    const url = unsubscribeUrl('r-1', options)!
+
+    expect(url.startsWith('https://api.leadflow.test/email/u/')).toBe(true)
+    expect(verifyTrackingToken(url.split('/').pop()!, options.secret)).toEqual({ recipientId: 'r-1', purpose: 'unsubscribe' })
+    expect(unsubscribeUrl('r-1', { baseUrl: undefined, secret: 'tracking-secret' })).toBeNull()
+    expect(unsubscribeHeaders(url)).toEqual({
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    })
+  })
+
+  it('should fill the template placeholder or add a footer with the postal address', () => {
+    const url = 'https://api.leadflow.test/email/u/abc'
+
+    expect(addUnsubscribeFooter('<a href="{{unsubscribeUrl}}">Opt out</a>', url)).toBe(`<a href="${url}">Opt out</a>`)
+
+    const html = addUnsubscribeFooter('<html><body><p>Hi</p></body></html>', url, '1 Main St <Suite 2>')
+    expect(html).toContain(`1 Main St &lt;Suite 2&gt;<br><a href="${url}">Unsubscribe</a>`)
+    expect(html.endsWith('</p></body></html>')).toBe(true)
+  })
+})
+
+describe('ComplianceGuard', () => {
+  // Tuesday 02:00 UTC: 22:00 the evening before in New York
+  const now = new Date('2025-06-03T02:00:00Z')
+  const clock: Clock = { now: () => now }
+  let guard: ComplianceGuard
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    guard = new ComplianceGuard(clock)
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({ settings: {} })
+    ;(prisma.suppression.findUnique as jest.Mock).mockResolvedValue(null)
+    ;(prisma.consentRecord.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({ timezone: 'America/New_York' })
+  })
+
+  it('should block suppressed contacts before looking at consent', async () => {
+    ;(prisma.suppression.findUnique as jest.Mock).mockResolvedValue({ reason: 'dnc_registry' })
+
+    const decision = await guard.check('org-1', { channel: 'call', to: '(212) 555-0100' })
+
+    expect(decision).toEqual({ allowed: false, reason: 'suppressed', detail: 'On the suppression list (dnc_registry)' })
+    expect(prisma.suppression.findUnique).toHaveBeenCalledWith({
+      where: { organizationId_channel_value: { organizationId: 'org-1', channel: 'call', value: '+12125550100' } },
+    })
+    expect(prisma.consentRecord.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('should honour revoked consent and require consent for texts and calls', async () => {
+    ;(prisma.consentRecord.findFirst as jest.Mock).mockResolvedValueOnce({ status: 'revoked', source: 'verbal' })
+
+    expect(await guard.check('org-1', { channel: 'email', to: 'Owner@Example.com' }))
+      .toMatchObject({ allowed: false, reason: 'consent_revoked' })
+    expect(await guard.check('org-1', { channel: 'email', to: 'owner@example.com' })).toEqual({ allowed: true })
+    expect(await guard.check('org-1', { channel: 'sms', to: '2125550100' }))
+      .toEqual({ allowed: false, reason: 'no_consent', detail: 'No sms consent on record' })
+  })
+
+  it("should hold texts and calls during quiet hours in the lead's time zone", async () => {
+    ;(prisma.consentRecord.findFirst as jest.Mock).mockResolvedValue({ status: 'granted', source: 'web_form' })
+
+    const decision = await guard.check('org-1', { channel: 'sms', to: '2125550100', leadId: 'lead-1' })
+    expect(decision).toMatchObject({ allowed: false, reason: 'quiet_hours', retryAt: new Date('2025-06-03T12:00:00Z') })
+    expect(prisma.lead.findUnique).toHaveBeenCalledWith({ where: { id: 'lead-1' }, select: { timezone: true } })
+
+    // 19:00 in Los Angeles is fine
+    expect(await guard.check('org-1', { channel: 'call', to: '2125550100', timeZone: 'America/Los_Angeles' })).toEqual({ allowed: true })
+    // Unknown zone: it has to be outside quiet hours in all the fallback zones
+    expect(await guard.check('org-1', { channel: 'call', to: '2125550100' }))
+      .toMatchObject({ reason: 'quiet_hours', retryAt: new Date('2025-06-03T15:00:00Z') })
+  })
+
+  it('should suppress and record revoked consent on STOP', async () => {
+    await guard.optOut('org-1', { channel: 'sms', to: '+1 212 555 0100', leadId: 'lead-1' }, 'sms_keyword', { body: 'STOP' })
+
+    expect((prisma.suppression.upsert as jest.Mock).mock.calls[0][0]).toMatchObject({
+      create: { organizationId: 'org-1', channel: 'sms', value: '+12125550100', reason: 'stop_keyword', source: 'sms_keyword' },
+    })
+    expect(prisma.consentRecord.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        organizationId: 'org-1', leadId: 'lead-1', channel: 'sms', value: '+12125550100', status: 'revoked', source: 'sms_keyword', recordedAt: now,
+      }),
+    })
+  })
+
+  it('should validate settings', () => {
+    expect(validateComplianceSettings(DEFAULT_COMPLIANCE_SETTINGS)).toEqual([])
+    expect(validateComplianceSettings({
+      requireConsent: ['fax' as any],
+      quietHours: { enabled: true, start: '9pm', end: '08:00' },
+      fallbackTimeZones: ['Mars/Olympus'],
+    })).toHaveLength(3)
+  })
+})
@@ -0,0 +1,183 @@
+// LeadAI Pro - Deal Expense Ledger Tests
+// Tests for budget against actuals, cost basis, realized profit, rollups and the ledger export
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  LedgerEntry,
+  validateExpenseInput,
+  validateExpenseBudget,
+  resolveExpenseBudget,
+  buildBudgetReport,
+  buildCostBasis,
+  buildProfitReport,
+  buildExpenseRollup,
+} from '../../lib/deals/expenseLedger'
+import { DealExpenseService } from '../../lib/deals/expenseService'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    deal: {
+      findFirst: jest.fn()
+    },
+    dealExpense: {
+      findMany: jest.fn(),
+      create: jest.fn()
+    },
+    document: {
+      findFirst: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as any
+
+const now = new Date('2025-06-10T15:00:00Z')
+const clock: Clock = { now: () => now }
+
+const entry = (category: any, amount: number, date: string, entryType: any = 'EXPENSE'): LedgerEntry =>
+  ({ entryType, category, amount, incurredAt: new Date(date) })
+
+const ledger = [
+  entry('REPAIR', 20000, '2025-03-05'),
+  entry('TAXES', 1200, '2025-03-20'),
+  entry('REPAIR', 15000, '2025-04-02'),
+  entry('INSPECTION', 500, '2025-02-10'),
+  entry('REPAIR', 25000, '2025-04-15', 'DRAW'),
+]
+
+describe('validateExpenseInput', () => {
+  it('should require category, a positive amount and a date', () => {
+    expect(validateExpenseInput({})).toHaveLength(3)
+    expect(validateExpenseInput({ category: 'REPAIR', amount: 0, incurredAt: 'yesterday', entryType: 'REFUND' as any })).toEqual([
+      'entryType must be one of: EXPENSE, DRAW',
+      'amount must be a positive number',
+      'incurredAt must be a date'
+    ])
+    expect(validateExpenseInput({ vendor: 'Ace Roofing' }, true)).toEqual([])
+  })
+
+  it('should check budget categories and amounts', () => {
+    expect(validateExpenseBudget({ REPAIR: 40000, TAXES: null })).toEqual([])
+    expect(validateExpenseBudget({ ROOF: 5000, REPAIR: -1 })).toEqual([
+      'ROOF is not an expense category',
+      'REPAIR must be a non-negative amount'
+    ])
+  })
+})
+
+describe('buildBudgetReport', () => {
+  it('should count detailed categories against the underwritten lines', () => {
+    const budget = resolveExpenseBudget({ repairCosts: 40000, holdingCosts: 6000 }, { acquisitionCosts: 3000 })
+    const report = buildBudgetReport(budget, ledger)
+
+    expect(report).toEqual([
+      { category: 'ACQUISITION', includes: ['ACQUISITION', 'INSPECTION'], budget: 3000, actual: 500, variance: 2500, percentUsed: 16.67 },
+      { category: 'REPAIR', includes: ['REPAIR'], budget: 40000, actual: 35000, variance: 5000, percentUsed: 87.5 },
+      { category: 'HOLDING', includes: ['HOLDING', 'TAXES'], budget: 6000, actual: 1200, variance: 4800, percentUsed: 20 }
+    ])
+  })
+
+  it('should give categories with their own budget their own line', () => {
+    const budget = resolveExpenseBudget({ repairCosts: 40000, holdingCosts: 6000, expenseBudget: { TAXES: 1000, REPAIR: 45000 } })
+    const report = buildBudgetReport(budget, ledger)
+
+    expect(report.find(line => line.category === 'REPAIR')!.budget).toBe(45000)
+    expect(report.find(line => line.category === 'TAXES')).toMatchObject({ budget: 1000, actual: 1200, variance: -200 })
+    expect(report.find(line => line.category === 'HOLDING')).toMatchObject({ includes: ['HOLDING'], actual: 0 })
+  })
+})
+
+describe('cost basis and profit', () => {
+  it('should add expenses to the purchase price in date order, leaving draws out', () => {
+    expect(buildCostBasis(100000, ledger).map(point => point.costBasis)).toEqual([100500, 120500, 121700, 136700])
+  })
+
+  it('should estimate profit before a sale and realize it after', () => {
+    const budget = buildBudgetReport({ REPAIR: 40000 }, ledger)
+    const deal = { purchasePrice: 100000, loanAmount: 80000, arv: 200000, netProfit: 50000, roi: 100 }
+
+    expect(buildProfitReport(deal, ledger, budget)).toMatchObject({
+      costBasis: 136700,
+      totalDraws: 25000,
+      actualProfit: null,
+      // 200000 - 136700 - 5000 of repair budget still to spend
+      estimatedProfit: 58300,
+      profitVariance: 8300
+    })
+
+    const sold = buildProfitReport({ ...deal, salePrice: 180000 }, ledger, budget)
+    expect(sold).toMatchObject({ actualProfit: 43300, estimatedProfit: null, profitVariance: -6700, projectedRoi: 100 })
+    // 20000 down + 36700 spent - 25000 drawn
+    expect(sold.actualRoi).toBeCloseTo(43300 / 31700 * 100, 1)
+  })
+})
+
+describe('buildExpenseRollup', () => {
+  it('should total expenses by category and month', () => {
+    const rollup = buildExpenseRollup(ledger)
+
+    expect(rollup.months).toEqual(['2025-02', '2025-03', '2025-04'])
+    expect(rollup.categories.find(c => c.category === 'REPAIR')).toEqual({ category: 'REPAIR', total: 35000, byMonth: { '2025-03': 20000, '2025-04': 15000 } })
+    expect(rollup.monthTotals).toEqual({ '2025-02': 500, '2025-03': 21200, '2025-04': 15000 })
+    expect(rollup).toMatchObject({ total: 36700, draws: 25000 })
+  })
+})
+
+describe('DealExpenseService', () => {
+  let service: DealExpenseService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new DealExpenseService(clock)
+    mockPrisma.deal.findFirst.mockResolvedValue({ id: 'deal-1' })
+  })
+
+  it('should refuse receipts uploaded outside the organization', async () => {
+    mockPrisma.document.findFirst.mockResolvedValue(null)
+
+    await expect(service.create('org-1', 'deal-1', 'user-1', {
+      category: 'REPAIR', amount: 500, incurredAt: '2025-06-01', documentId: 'doc-9'
+    })).rejects.toMatchObject({ code: 'not_found', resource: 'Document' })
+    expect(mockPrisma.document.findFirst).toHaveBeenCalledWith({
+      where: { id: 'doc-9', uploadedBy: { organizationId: 'org-1' } },
+      select: { id: true }
+    })
+    expect(mockPrisma.dealExpense.create).not.toHaveBeenCalled()
+  })
+
+  it('should export the ledger with draws as negative amounts', async () => {
+    mockPrisma.dealExpense.findMany.mockResolvedValue([
+      {
+        ...entry('REPAIR', 1250.5, '2025-05-03T12:00:00Z'),
+        description: 'Roof, "full tear-off"',
+        vendor: 'Ace Roofing',
+        deal: { dealName: '12 Elm St' },
+        document: { name: 'invoice.pdf', url: 'https://files.example.com/invoice.pdf' },
+        user: { firstName: 'Sam', lastName: 'Lee' }
+      },
+      { ...entry('REPAIR', 10000, '2025-05-10T12:00:00Z', 'DRAW'), deal: { dealName: '12 Elm St' } }
+    ])
+
+    const csv = await service.exportDeal('org-1', 'deal-1')
+
+    expect(csv.split('\r\n')).toEqual([
+      'Date,Deal,Type,Category,Description,Vendor,Amount,Receipt,Entered By',
+      '2025-05-03,12 Elm St,EXPENSE,REPAIR,"Roof, ""full tear-off""",Ace Roofing,1250.50,invoice.pdf (https://files.example.com/invoice.pdf),Sam Lee',
+      '2025-05-10,12 Elm St,DRAW,REPAIR,,,-10000.00,,',
+      ''
+    ])
+  })
+
+  it('should roll up the last twelve months by default', async () => {
+    mockPrisma.dealExpense.findMany.mockResolvedValue([])
+
+    const rollup = await service.rollup('org-1')
+
+    expect(rollup.from).toEqual(new Date('2024-07-01T00:00:00Z'))
+    expect(mockPrisma.dealExpense.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 'org-1', incurredAt: { gte: new Date('2024-07-01T00:00:00Z'), lt: now } }
+    }))
+  })
+})
@@ -0,0 +1,171 @@
+// LeadAI Pro - Deal Pipeline Tests
+// Tests for deal status transitions, due-diligence checklists, overdue activities and the kanban board
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { checkDealTransition, transitionDates, buildDueDiligenceChecklist } from '../../lib/deals/dealPipeline'
+import { DealService, validateDealInput } from '../../lib/deals/dealService'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    deal: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    dealActivity: {
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    property: {
+      findFirst: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as any
+
+const now = new Date('2025-06-10T15:00:00Z')
+const clock: Clock = { now: () => now }
+
+describe('deal status transitions', () => {
+  it('should allow moving forward, stepping back while negotiating and cancelling', () => {
+    expect(checkDealTransition('FIX_AND_FLIP', 'ANALYZING', 'OFFER_MADE').allowed).toBe(true)
+    expect(checkDealTransition('FIX_AND_FLIP', 'OFFER_MADE', 'ANALYZING').allowed).toBe(true)
+    expect(checkDealTransition('FIX_AND_FLIP', 'FUNDING', 'CANCELLED').allowed).toBe(true)
+    // Cash deals skip funding
+    expect(checkDealTransition('FIX_AND_FLIP', 'UNDER_CONTRACT', 'CLOSING').allowed).toBe(true)
+  })
+
+  it('should refuse skipped, finished and type-specific moves', () => {
+    expect(checkDealTransition('FIX_AND_FLIP', 'LEAD', 'CLOSING')).toEqual({
+      allowed: false,
+      reason: 'Cannot move a deal from LEAD to CLOSING (allowed: ANALYZING, CANCELLED)'
+    })
+    expect(checkDealTransition('FIX_AND_FLIP', 'SOLD', 'MARKETING').allowed).toBe(false)
+    expect(checkDealTransition('WHOLESALE', 'CLOSING', 'REHAB')).toEqual({ allowed: false, reason: 'WHOLESALE deals are never REHAB' })
+  })
+
+  it('should stamp contract, closing and rehab dates once', () => {
+    expect(transitionDates({}, 'OFFER_MADE', 'UNDER_CONTRACT', now)).toEqual({ contractDate: now })
+    expect(transitionDates({}, 'CLOSING', 'REHAB', now)).toEqual({ closingDate: now, rehabStartDate: now })
+    expect(transitionDates({ closingDate: new Date('2025-05-01') }, 'REHAB', 'MARKETING', now)).toEqual({ rehabEndDate: now })
+    expect(transitionDates({}, 'CLOSING', 'CANCELLED', now)).toEqual({})
+  })
+})
+
+describe('buildDueDiligenceChecklist', () => {
+  const types = (items: Array<{ activityType: string }>) => items.map(item => item.activityType)
+
+  it('should add loan items for financed deals', () => {
+    const checklist = buildDueDiligenceChecklist('BUY_AND_HOLD', 'CONVENTIONAL_LOAN')
+
+    expect(types(checklist)).toEqual(expect.arrayContaining(['LOAN_APPLICATION', 'APPRAISAL', 'TENANT_SCREENING']))
+    expect(checklist.map(item => item.dueInDays)).toEqual([...checklist.map(item => item.dueInDays)].sort((a, b) => a - b))
+  })
+
+  it('should leave lender items off cash and wholesale deals', () => {
+    expect(types(buildDueDiligenceChecklist('FIX_AND_FLIP', 'CASH_PURCHASE'))).not.toContain('LOAN_APPLICATION')
+    expect(types(buildDueDiligenceChecklist('FIX_AND_FLIP', 'CASH_PURCHASE'))).toContain('CONTRACTOR_BID')
+    expect(types(buildDueDiligenceChecklist('WHOLESALE', 'HARD_MONEY'))).toEqual([
+      'PROPERTY_VISIT', 'REPAIR_ESTIMATE', 'MARKETING_PREP', 'TITLE_WORK', 'CLOSING_PREP'
+    ])
+    // BRRRRs refinance on the appraisal even when bought with cash
+    expect(types(buildDueDiligenceChecklist('BRRRR', 'CASH_PURCHASE'))).toContain('APPRAISAL')
+  })
+})
+
+describe('validateDealInput', () => {
+  it('should require the basics on create and check only given fields on update', () => {
+    expect(validateDealInput({})).toHaveLength(4)
+    expect(validateDealInput({ purchasePrice: -5, loanTerm: 1.5, closingDate: 'soon' }, true)).toEqual([
+      'purchasePrice must be a non-negative amount',
+      'loanTerm must be a whole number of months',
+      'closingDate must be a date'
+    ])
+  })
+})
+
+describe('DealService', () => {
+  let service: DealService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new DealService(clock)
+    mockPrisma.deal.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.dealActivity.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.dealActivity.create.mockImplementation(async ({ data }: any) => ({ id: `activity-${data.activityType}`, ...data }))
+  })
+
+  it('should create the checklist when a deal goes under contract', async () => {
+    mockPrisma.deal.findFirst
+      .mockResolvedValueOnce({ id: 'deal-1', dealType: 'FIX_AND_FLIP', strategy: 'CASH_PURCHASE', status: 'OFFER_MADE', contractDate: null })
+      .mockResolvedValueOnce({
+        id: 'deal-1',
+        dealType: 'FIX_AND_FLIP',
+        strategy: 'CASH_PURCHASE',
+        contractDate: now,
+        dealActivities: [{ activityType: 'PROPERTY_VISIT', status: 'COMPLETED' }]
+      })
+    mockPrisma.deal.findUnique.mockResolvedValue({ id: 'deal-1', status: 'UNDER_CONTRACT' })
+
+    const { checklist } = await service.changeStatus('org-1', 'deal-1', 'UNDER_CONTRACT', 'user-1')
+
+    expect(mockPrisma.deal.updateMany).toHaveBeenCalledWith({
+      where: { id: 'deal-1', status: 'OFFER_MADE' },
+      data: { status: 'UNDER_CONTRACT', contractDate: now }
+    })
+    // The walkthrough was already done
+    expect(checklist.map((item: any) => item.activityType)).not.toContain('PROPERTY_VISIT')
+    expect(checklist.find((item: any) => item.activityType === 'INSPECTION')).toMatchObject({
+      dealId: 'deal-1',
+      userId: 'user-1',
+      dueDate: new Date('2025-06-17T15:00:00Z')
+    })
+  })
+
+  it('should refuse a move another request already made', async () => {
+    mockPrisma.deal.findFirst.mockResolvedValue({ id: 'deal-1', dealType: 'FIX_AND_FLIP', status: 'LEAD' })
+    mockPrisma.deal.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(service.changeStatus('org-1', 'deal-1', 'ANALYZING', 'user-1')).rejects.toMatchObject({ code: 'invalid_state' })
+    expect(mockPrisma.dealActivity.create).not.toHaveBeenCalled()
+  })
+
+  it('should mark open activities past due as overdue', async () => {
+    mockPrisma.dealActivity.updateMany.mockResolvedValue({ count: 2 })
+
+    expect(await service.markOverdueActivities('org-1')).toBe(2)
+    expect(mockPrisma.dealActivity.updateMany).toHaveBeenCalledWith({
+      where: { status: { in: ['PENDING', 'IN_PROGRESS'] }, dueDate: { lt: now }, deal: { organizationId: 'org-1' } },
+      data: { status: 'OVERDUE' }
+    })
+  })
+
+  it('should group the board by status with totals', async () => {
+    mockPrisma.deal.groupBy.mockResolvedValue([
+      { status: 'ANALYZING', _count: { _all: 2 }, _sum: { purchasePrice: 300000, arv: 500000, netProfit: 60000 } },
+      { status: 'REHAB', _count: { _all: 1 }, _sum: { purchasePrice: 120000, arv: null, netProfit: null } }
+    ])
+    mockPrisma.deal.findMany.mockResolvedValue([
+      { id: 'deal-1', status: 'ANALYZING', _count: { dealActivities: 0 } },
+      { id: 'deal-2', status: 'REHAB', _count: { dealActivities: 3 } },
+      { id: 'deal-3', status: 'ANALYZING', _count: { dealActivities: 1 } }
+    ])
+
+    const board = await service.board('org-1')
+
+    expect(board.columns.map(column => column.status)).not.toContain('SOLD')
+    expect(board.columns.find(column => column.status === 'ANALYZING')).toMatchObject({
+      count: 2,
+      totals: { purchasePrice: 300000, arv: 500000, netProfit: 60000 },
+      deals: [{ id: 'deal-1', status: 'ANALYZING', overdueActivities: 0 }, { id: 'deal-3', status: 'ANALYZING', overdueActivities: 1 }]
+    })
+    expect(board.columns.find(column => column.status === 'REHAB')!.deals[0].overdueActivities).toBe(3)
+    expect(board.totals).toEqual({ count: 3, purchasePrice: 420000, arv: 500000, netProfit: 60000 })
+  })
+})
@@ -0,0 +1,205 @@
+// LeadAI Pro - Deal Underwriting Tests
+// Tests for loan math, the flip, rental, BRRRR and wholesale models, offers and saving results on the deal
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  amortizedPayment,
+  remainingBalance,
+  interestPaid,
+  resolveAssumptions,
+  underwrite,
+  validateUnderwritingAssumptions,
+  getMissingInputs,
+} from '../../lib/deals/underwriting'
+import { DealUnderwritingService } from '../../lib/deals/underwritingService'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    deal: {
+      findFirst: jest.fn(),
+      update: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as any
+
+describe('loan math', () => {
+  it('should compute level payments and balances', () => {
+    expect(amortizedPayment(200000, 6, 360)).toBeCloseTo(1199.10, 2)
+    expect(amortizedPayment(12000, 0, 12)).toBe(1000)
+    expect(remainingBalance(200000, 6, 360, 360)).toBeCloseTo(0, 4)
+    expect(remainingBalance(200000, 6, 360, 12)).toBeCloseTo(197543.98, 2)
+  })
+
+  it('should count only interest as a cost', () => {
+    const amortized = { principal: 200000, interestRate: 6, termMonths: 360, interestOnly: false }
+    expect(interestPaid(amortized, 12)).toBeCloseTo(1199.10 * 12 - (200000 - 197543.98), 0)
+    expect(interestPaid({ ...amortized, interestOnly: true }, 6)).toBe(6000)
+  })
+})
+
+describe('underwriting models', () => {
+  it('should underwrite a cash flip with holding costs over the rehab and sale', () => {
+    const result = underwrite('FIX_AND_FLIP', 'CASH_PURCHASE', resolveAssumptions({
+      purchasePrice: 150000,
+      arv: 250000,
+      repairCosts: 40000,
+      annualTaxes: 2400,
+      annualInsurance: 1200,
+      monthlyUtilities: 100
+    }))
+
+    expect(result.model).toBe('flip')
+    expect(result.costs).toEqual({
+      acquisitionCosts: 3000,
+      repairCosts: 40000,
+      holdingMonths: 6,
+      holdingCosts: 2400,
+      sellingCosts: 20000,
+      totalCost: 215400,
+      cashInvested: 195400
+    })
+    expect(result.returns).toMatchObject({ grossProfit: 60000, netProfit: 34600, roi: 17.71, annualizedRoi: 35.42 })
+    expect(result.offer.ruleOfThumb).toBe(135000)
+    // 250,000 - 40,000 - 2,400 - 20,000 - 1.02 x price must leave 37,500
+    expect(result.offer.custom).toBeCloseTo(147156, -1)
+  })
+
+  it('should compute NOI, cap rate and cash-on-cash for a financed rental', () => {
+    const result = underwrite('BUY_AND_HOLD', 'CONVENTIONAL_LOAN', resolveAssumptions({
+      purchasePrice: 200000,
+      downPayment: 50000,
+      interestRate: 6,
+      monthlyRent: 2000,
+      annualTaxes: 3000,
+      annualInsurance: 1200
+    }))
+    const payment = amortizedPayment(150000, 6, 360)
+
+    expect(result.financing).toMatchObject({ loanAmount: 150000, downPayment: 50000, monthlyPayment: Math.round(payment * 100) / 100 })
+    expect(result.rental).toMatchObject({ grossScheduledIncome: 24000, vacancyLoss: 1920, effectiveGrossIncome: 22080, operatingExpenses: 8366.4, noi: 13713.6 })
+    expect(result.returns.capRate).toBe(6.86)
+    expect(result.returns.cashOnCash).toBeCloseTo((13713.6 - payment * 12) / 54000 * 100, 1)
+    expect(result.rental!.dscr).toBeCloseTo(13713.6 / (payment * 12), 2)
+  })
+
+  it('should refinance a BRRRR and report the cash left in the deal', () => {
+    const result = underwrite('BRRRR', 'HARD_MONEY', resolveAssumptions({
+      purchasePrice: 100000,
+      loanAmount: 90000,
+      interestRate: 10,
+      repairCosts: 30000,
+      arv: 180000,
+      monthlyRent: 1600,
+      refinanceRate: 7
+    }))
+
+    expect(result.financing).toMatchObject({ interestOnly: true, monthlyPayment: 750, interestDuringHold: 3000 })
+    expect(result.costs.cashInvested).toBe(45000)
+    expect(result.refinance).toMatchObject({ loanAmount: 135000, closingCosts: 2700, payoff: 90000, cashOut: 42300, cashLeftInDeal: 2700, equity: 45000 })
+    expect(result.sensitivity.map(table => table.metric)).toEqual(['cashLeftInDeal', 'monthlyCashFlow'])
+  })
+
+  it('should price a wholesale offer below what a flipper would pay', () => {
+    const result = underwrite('WHOLESALE', 'CASH_PURCHASE', resolveAssumptions({ arv: 200000, repairCosts: 30000, assignmentFee: 15000 }))
+
+    expect(result.returns.netProfit).toBe(15000)
+    expect(result.offer.ruleOfThumb).toBe(110000)
+    // A flipper keeping 15% of ARV pays about 121,568; the assignment fee comes off that
+    expect(result.offer.custom).toBeCloseTo(106568, -1)
+  })
+
+  it('should build sensitivity tables around the current inputs', () => {
+    const result = underwrite('FIX_AND_FLIP', 'CASH_PURCHASE', resolveAssumptions({ purchasePrice: 150000, arv: 250000, repairCosts: 40000 }))
+    const [profit] = result.sensitivity
+
+    expect(profit).toMatchObject({ metric: 'netProfit', rowVariable: 'arv', columnVariable: 'repairCosts' })
+    expect(profit.rows).toEqual([225000, 237500, 250000, 262500, 275000])
+    expect(profit.values[2][2]).toBe(result.returns.netProfit)
+    // Higher ARV means more profit, higher repairs less
+    expect(profit.values[4][2]).toBeGreaterThan(profit.values[0][2]!)
+    expect(profit.values[2][4]).toBeLessThan(profit.values[2][0]!)
+  })
+})
+
+describe('validateUnderwritingAssumptions', () => {
+  it('should report invalid and unknown assumptions', () => {
+    expect(validateUnderwritingAssumptions({ purchasePrice: 100000, interestOnly: true })).toEqual([])
+    expect(validateUnderwritingAssumptions({ arv: -1, vacancyPercent: 150, rehabMonths: 2.5, roi: 10 })).toEqual([
+      'arv must be a non-negative number',
+      'vacancyPercent is a percentage and must be at most 100',
+      'rehabMonths must be a whole number of months',
+      'roi is not an underwriting assumption'
+    ])
+  })
+
+  it('should require an interest rate once a deal is financed', () => {
+    expect(getMissingInputs('rental', 'CONVENTIONAL_LOAN', { purchasePrice: 200000, loanAmount: 150000 }))
+      .toEqual(['monthlyRent', 'interestRate'])
+    expect(getMissingInputs('flip', 'CASH_PURCHASE', { purchasePrice: 100000, arv: 150000 })).toEqual([])
+  })
+})
+
+describe('DealUnderwritingService', () => {
+  const now = new Date('2025-06-10T15:00:00Z')
+  const clock: Clock = { now: () => now }
+  let service: DealUnderwritingService
+
+  const deal = (overrides: Record<string, any> = {}) => ({
+    id: 'deal-1',
+    dealType: 'FIX_AND_FLIP',
+    strategy: 'CASH_PURCHASE',
+    purchasePrice: 150000,
+    arv: null,
+    repairCosts: 40000,
+    underwriting: null,
+    property: { arv: 250000, monthlyRent: null, annualTaxes: 2400 },
+    ...overrides
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new DealUnderwritingService(clock)
+    mockPrisma.deal.update.mockImplementation(async ({ data }: any) => ({ id: 'deal-1', ...data }))
+  })
+
+  it('should fill inputs from the property and save results on the deal', async () => {
+    mockPrisma.deal.findFirst.mockResolvedValue(deal())
+
+    const { underwriting } = await service.underwrite('org-1', 'deal-1', { rehabMonths: 3, repairCosts: 45000 }, { userId: 'user-1' })
+
+    expect(underwriting.assumptions).toMatchObject({ arv: 250000, annualTaxes: 2400, rehabMonths: 3, repairCosts: 45000 })
+    expect(mockPrisma.deal.update).toHaveBeenCalledWith({
+      where: { id: 'deal-1' },
+      data: expect.objectContaining({
+        repairCosts: 45000,
+        netProfit: underwriting.returns.netProfit,
+        roi: underwriting.returns.roi,
+        holdingCosts: underwriting.costs.holdingCosts,
+        underwriting: { overrides: { rehabMonths: 3 }, result: underwriting, underwrittenBy: 'user-1' },
+        underwrittenAt: now
+      })
+    })
+  })
+
+  it('should reuse saved assumptions and save nothing on a preview', async () => {
+    mockPrisma.deal.findFirst.mockResolvedValue(deal({ underwriting: { overrides: { rehabMonths: 3 }, result: {} } }))
+
+    const { underwriting } = await service.underwrite('org-1', 'deal-1', {}, { save: false })
+
+    expect(underwriting.costs.holdingMonths).toBe(5)
+    expect(mockPrisma.deal.update).not.toHaveBeenCalled()
+  })
+
+  it('should name the inputs a model is missing', async () => {
+    mockPrisma.deal.findFirst.mockResolvedValue(deal({ dealType: 'BUY_AND_HOLD' }))
+
+    await expect(service.underwrite('org-1', 'deal-1')).rejects.toMatchObject({
+      code: 'invalid_state',
+      missingInputs: ['monthlyRent']
+    })
+  })
+})
@@ -0,0 +1,165 @@
+// LeadAI Pro - Email Event Tests
+// Tests for tracking links, provider webhook parsing and recipient event processing
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { followUpScheduler } from '../../lib/followUps/followUpScheduler'
+import { EmailEventService } from '../../lib/email/emailEvents'
+import { addTracking, signTrackingToken, verifyTrackingToken } from '../../lib/email/emailTracking'
+import { parseWebhookEvents } from '../../lib/email/emailWebhooks'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    emailCampaignRecipient: { findFirst: jest.fn(), updateMany: jest.fn() },
+    emailCampaign: { update: jest.fn() },
+    emailCampaignVariant: { update: jest.fn() },
+    journeyEvent: { create: jest.fn() },
+    suppression: { upsert: jest.fn() },
+    consentRecord: { create: jest.fn() },
+  }
+}))
+
+jest.mock('../../lib/followUps/followUpScheduler', () => ({
+  followUpScheduler: { enroll: jest.fn(async () => []), handleLeadEvent: jest.fn(async () => 0) }
+}))
+
+const secret = 'tracking-secret'
+
+describe('tracking links', () => {
+  it('should verify signed tokens and reject tampered ones', () => {
+    const token = signTrackingToken({ recipientId: 'r-1', url: 'https://leadflow.ai/offer?id=1' }, secret)
+
+    expect(verifyTrackingToken(token, secret)).toEqual({ recipientId: 'r-1', url: 'https://leadflow.ai/offer?id=1' })
+    expect(verifyTrackingToken(token, 'other-secret')).toBeNull()
+
+    const forged = Buffer.from(JSON.stringify({ r: 'r-1', u: 'https://evil.test' })).toString('base64url')
+    expect(verifyTrackingToken(`${forged}.${token.split('.')[1]}`, secret)).toBeNull()
+    expect(verifyTrackingToken('garbage', secret)).toBeNull()
+  })
+
+  it('should rewrite web links and add the open pixel', () => {
+    const html = '<body><a href="https://leadflow.ai/a?x=1&amp;y=2">Offer</a> <a href="mailto:jane@leadflow.ai">Mail</a></body>'
+
+    const tracked = addTracking(html, 'r-1', { baseUrl: 'https://api.leadflow.ai/', secret })
+
+    const clickToken = tracked.match(/https:\/\/api\.leadflow\.ai\/email\/c\/([^"]+)"/)![1]
+    expect(verifyTrackingToken(clickToken, secret)).toEqual({ recipientId: 'r-1', url: 'https://leadflow.ai/a?x=1&y=2' })
+    expect(tracked).toContain('href="mailto:jane@leadflow.ai"')
+    expect(tracked).toMatch(/<img src="https:\/\/api\.leadflow\.ai\/email\/o\/[^"]+\.gif"[^>]*><\/body>$/)
+    expect(addTracking(html, 'r-1', { secret })).toBe(html)
+  })
+})
+
+describe('parseWebhookEvents', () => {
+  it('should map SendGrid events and skip the ones we do not track', () => {
+    const events = parseWebhookEvents('sendgrid', [
+      { event: 'processed', sg_message_id: 'abc.filter1' },
+      { event: 'bounce', type: 'blocked', sg_message_id: 'abc.filter0001.1', reason: 'spam block', timestamp: 1760000000 },
+      { event: 'spamreport', recipient_id: 'r-9' },
+    ])
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'bounce', messageId: 'abc', bounceType: 'soft', occurredAt: new Date(1760000000 * 1000) }),
+      expect.objectContaining({ type: 'complaint', recipientId: 'r-9', source: 'sendgrid' }),
+    ])
+  })
+})
+
+describe('EmailEventService', () => {
+  let service: EmailEventService
+  let recipient: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new EmailEventService()
+    recipient = {
+      id: 'r-1',
+      email: 'Owner@Example.com',
+      status: 'SENT',
+      campaignId: 'c-1',
+      variantId: 'v-1',
+      leadId: 'lead-1',
+      openedAt: null,
+      campaign: { id: 'c-1', organizationId: 'org-1', name: 'Spring owners' },
+    }
+    ;(prisma.emailCampaignRecipient.findFirst as jest.Mock).mockImplementation(async () => recipient)
+    ;(prisma.emailCampaignRecipient.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+  })
+
+  it('should count the first open, log it and start EMAIL_OPENED sequences', async () => {
+    expect(await service.record({ type: 'open', recipientId: 'r-1' })).toBe(true)
+
+    expect(prisma.emailCampaignRecipient.updateMany).toHaveBeenCalledWith({
+      where: { id: 'r-1', openedAt: null },
+      data: { openedAt: expect.any(Date), status: 'OPENED' },
+    })
+    expect(prisma.emailCampaign.update).toHaveBeenCalledWith({ where: { id: 'c-1' }, data: { totalOpened: { increment: 1 } } })
+    expect(prisma.emailCampaignVariant.update).toHaveBeenCalledWith({ where: { id: 'v-1' }, data: { totalOpened: { increment: 1 } } })
+    expect(prisma.journeyEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ leadId: 'lead-1', eventType: 'email_open' }),
+    })
+    expect(followUpScheduler.enroll).toHaveBeenCalledWith('lead-1', 'EMAIL_OPENED')
+  })
+
+  it('should not count repeated opens', async () => {
+    ;(prisma.emailCampaignRecipient.updateMany as jest.Mock).mockResolvedValue({ count: 0 })
+
+    await service.record({ type: 'open', messageId: '<m@test>' })
+
+    expect(prisma.emailCampaignRecipient.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { messageId: '<m@test>' } }))
+    expect(prisma.emailCampaign.update).not.toHaveBeenCalled()
+    expect(followUpScheduler.enroll).not.toHaveBeenCalled()
+  })
+
+  it('should count a click as an open and keep the furthest status', async () => {
+    await service.record({ type: 'click', recipientId: 'r-1', url: 'https://leadflow.ai/a' })
+
+    const updates = (prisma.emailCampaignRecipient.updateMany as jest.Mock).mock.calls.map((call: any) => call[0].data)
+    expect(updates).toEqual([
+      { openedAt: expect.any(Date), status: 'OPENED' },
+      { clickedAt: expect.any(Date), status: 'CLICKED' },
+    ])
+    expect(recipient.status).toBe('CLICKED')
+
+    jest.clearAllMocks()
+    recipient.deliveredAt = null
+    await service.record({ type: 'delivered', recipientId: 'r-1' })
+    expect((prisma.emailCampaignRecipient.updateMany as jest.Mock).mock.calls[0][0]).toMatchObject({ data: { deliveredAt: expect.any(Date) } })
+    expect((prisma.emailCampaignRecipient.updateMany as jest.Mock).mock.calls[0][0].data.status).toBeUndefined()
+  })
+
+  it('should end reply-stopped sequences when the lead replies', async () => {
+    await service.record({ type: 'reply', recipientId: 'r-1' })
+
+    expect(prisma.emailCampaignRecipient.updateMany).toHaveBeenCalledWith({
+      where: { id: 'r-1', repliedAt: null },
+      data: { repliedAt: expect.any(Date), status: 'REPLIED' },
+    })
+    expect(followUpScheduler.handleLeadEvent).toHaveBeenCalledWith('lead-1', 'replied')
+  })
+
+  it('should suppress hard bounces and complaints but not soft bounces', async () => {
+    await service.record({ type: 'bounce', recipientId: 'r-1', bounceType: 'soft', source: 'sendgrid' })
+    expect(prisma.suppression.upsert).not.toHaveBeenCalled()
+    expect(recipient.status).toBe('BOUNCED')
+
+    recipient.status = 'DELIVERED'
+    await service.record({ type: 'bounce', recipientId: 'r-1', source: 'sendgrid' })
+    await service.record({ type: 'complaint', recipientId: 'r-1', source: 'sendgrid' })
+
+    expect((prisma.suppression.upsert as jest.Mock).mock.calls.map((call: any) => call[0].create)).toEqual([
+      { organizationId: 'org-1', channel: 'email', value: 'owner@example.com', reason: 'hard_bounce', source: 'sendgrid' },
+      { organizationId: 'org-1', channel: 'email', value: 'owner@example.com', reason: 'complaint', source: 'sendgrid' },
+    ])
+    expect(prisma.consentRecord.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ channel: 'email', value: 'owner@example.com', status: 'revoked', source: 'provider_report' }),
+    })
+  })
+
+  it('should ignore events for unknown messages', async () => {
+    ;(prisma.emailCampaignRecipient.findFirst as jest.Mock).mockResolvedValue(null)
+
+    expect(await service.record({ type: 'delivered', messageId: '<unknown@test>' })).toBe(false)
+    expect(await service.record({ type: 'delivered' })).toBe(false)
+  })
+})
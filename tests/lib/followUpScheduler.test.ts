@@ -0,0 +1,454 @@
+// LeadAI Pro - Follow-up Scheduler Tests
+// Tests for time-zone aware step timing, template enrollment and step runs with a fake clock
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { computeStepFireTime, Clock } from '../../lib/followUps/followUpSchedule'
+import {
+  FollowUpScheduler,
+  StepDeferredError,
+  StepExecutor,
+  StepSkippedError,
+  activityStepExecutor,
+} from '../../lib/followUps/followUpScheduler'
+import { complianceGuard } from '../../lib/compliance/complianceGuard'
+import { SequenceTemplateInput, validateSequenceTemplate, buildSequenceStats } from '../../lib/followUps/sequenceTemplates'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    lead: {
+      findUnique: jest.fn()
+    },
+    followUpSequence: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn()
+    },
+    followUpEnrollment: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn(),
+      count: jest.fn()
+    },
+    followUpStepRun: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    conversation: {
+      findFirst: jest.fn()
+    },
+    activity: {
+      findFirst: jest.fn(),
+      create: jest.fn()
+    },
+    $transaction: jest.fn((operations: Promise<any>[]) => Promise.all(operations))
+  }
+}))
+
+describe('computeStepFireTime', () => {
+  const weekdays = [1, 2, 3, 4, 5]
+
+  it('should move to the preferred local time on the next allowed weekday', () => {
+    // Friday 16:00 in New York; +24h lands on Saturday, so the step waits for Monday 10:00
+    const fireAt = computeStepFireTime(
+      new Date('2025-06-06T20:00:00Z'),
+      { delayHours: 24, preferredTime: '10:00', daysOfWeek: weekdays },
+      'America/New_York'
+    )
+
+    expect(fireAt.toISOString()).toBe('2025-06-09T14:00:00.000Z')
+  })
+
+  it('should use the next day when the preferred time has already passed', () => {
+    const fireAt = computeStepFireTime(
+      new Date('2025-06-02T18:00:00Z'),
+      { delayHours: 0, preferredTime: '10:00', daysOfWeek: weekdays },
+      'America/New_York'
+    )
+
+    expect(fireAt.toISOString()).toBe('2025-06-03T14:00:00.000Z')
+  })
+
+  it('should follow daylight saving changes in the lead time zone', () => {
+    // Clocks spring forward on 2025-03-09; 09:00 that morning is 13:00 UTC, not 14:00
+    const fireAt = computeStepFireTime(
+      new Date('2025-03-08T15:00:00Z'),
+      { delayHours: 20, preferredTime: '09:00' },
+      'America/New_York'
+    )
+
+    expect(fireAt.toISOString()).toBe('2025-03-09T13:00:00.000Z')
+  })
+
+  it('should fall back to UTC for unknown time zones', () => {
+    const fireAt = computeStepFireTime(new Date('2025-06-02T08:00:00Z'), { delayHours: 2 }, 'Mars/Olympus')
+
+    expect(fireAt.toISOString()).toBe('2025-06-02T10:00:00.000Z')
+  })
+})
+
+describe('FollowUpScheduler', () => {
+  let now: Date
+  const clock: Clock = { now: () => now }
+  const executor: StepExecutor = { execute: jest.fn() as any }
+  let scheduler: FollowUpScheduler
+
+  const template = {
+    id: 'seq-1',
+    name: 'New seller follow-up',
+    triggerEvent: 'LEAD_CREATED',
+    leadTypes: ['SELLER'],
+    isActive: true,
+    versions: [{
+      id: 'ver-2',
+      version: 2,
+      steps: [
+        { id: 'def-1', stepNumber: 1, delayHours: 0, preferredTime: null, daysOfWeek: [1, 2, 3, 4, 5] },
+        { id: 'def-2', stepNumber: 2, delayHours: 48, preferredTime: '10:00', daysOfWeek: [1, 2, 3, 4, 5] },
+      ],
+    }],
+  }
+
+  const enrollment = {
+    id: 'enr-1',
+    leadId: 'lead-1',
+    sequenceId: 'seq-1',
+    status: 'ACTIVE',
+    timezone: 'America/New_York',
+    enrolledAt: new Date('2025-06-02T12:00:00Z'),
+    version: { stopOnReply: true, stopOnMeeting: true, maxDuration: 14 },
+  }
+
+  const dueRun = (overrides: Record<string, any> = {}) => ({
+    id: 'run-1',
+    stepNumber: 1,
+    status: 'SCHEDULED',
+    scheduledFor: new Date('2025-06-02T12:00:00Z'),
+    attempts: 0,
+    approvedAt: null,
+    title: null,
+    content: null,
+    step: { id: 'def-1', type: 'EMAIL', title: 'Intro', content: 'Hi', autoExecute: true, requiresApproval: false },
+    enrollment,
+    ...overrides,
+  })
+
+  const runUpdate = (id: string) =>
+    (prisma.followUpStepRun.update as jest.Mock).mock.calls.map(call => call[0] as any).find(call => call.where.id === id)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    now = new Date('2025-06-02T13:00:00Z')
+    scheduler = new FollowUpScheduler(clock, executor)
+    ;(prisma.followUpStepRun.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.followUpEnrollment.groupBy as jest.Mock).mockResolvedValue([])
+    ;(prisma.followUpEnrollment.count as jest.Mock).mockResolvedValue(0)
+    ;(prisma.conversation.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.activity.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({ id: 'lead-1', assignedTo: 'rep-1', email: 'jane@example.com', phone: null })
+  })
+
+  it('should enroll matching leads on the current version with the first step scheduled in their time zone', async () => {
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({
+      id: 'lead-1',
+      organizationId: 'org-1',
+      leadType: 'SELLER',
+      timezone: 'America/Chicago',
+      assignedUser: { timezone: 'UTC' },
+    })
+    ;(prisma.followUpSequence.findMany as jest.Mock).mockResolvedValue([template])
+    ;(prisma.followUpEnrollment.findMany as jest.Mock).mockResolvedValue([])
+    ;(prisma.followUpEnrollment.create as jest.Mock).mockResolvedValue({ id: 'enr-1' })
+
+    const enrolled = await scheduler.enroll('lead-1', 'LEAD_CREATED')
+
+    expect(enrolled).toEqual([{ id: 'enr-1', sequenceId: 'seq-1', version: 2, firstStepAt: now }])
+    const created = (prisma.followUpEnrollment.create as jest.Mock).mock.calls[0][0] as any
+    expect(created.data).toMatchObject({ sequenceId: 'seq-1', versionId: 'ver-2', timezone: 'America/Chicago', enrolledAt: now })
+    expect(created.data.runs.create[0]).toEqual({ stepId: 'def-1', stepNumber: 1, status: 'SCHEDULED', scheduledFor: now })
+    expect(created.data.runs.create[1]).toEqual({ stepId: 'def-2', stepNumber: 2 })
+    expect(prisma.followUpSequence.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'seq-1' } }))
+  })
+
+  it('should not enroll a lead twice in the same open sequence or in templates for other lead types', async () => {
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({ id: 'lead-1', organizationId: 'org-1', leadType: 'SELLER' })
+    ;(prisma.followUpEnrollment.findMany as jest.Mock).mockResolvedValue([{ sequenceId: 'seq-1' }])
+
+    const buyerTemplate = { ...template, id: 'seq-2', leadTypes: ['BUYER'] }
+    expect(await scheduler.enroll('lead-1', 'LEAD_CREATED', [template, buyerTemplate])).toEqual([])
+    expect(prisma.followUpEnrollment.create).not.toHaveBeenCalled()
+  })
+
+  it('should execute due steps and schedule the next one from the fake clock', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([dueRun()])
+    ;(executor.execute as jest.Mock).mockResolvedValue({ activityId: 'activity-1', detail: 'Sent email' })
+    ;(prisma.followUpStepRun.findFirst as jest.Mock).mockResolvedValue({
+      id: 'run-2',
+      stepNumber: 2,
+      step: { delayHours: 48, preferredTime: '10:00', daysOfWeek: [1, 2, 3, 4, 5] },
+    })
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ processed: 1, executed: 1 })
+    expect(prisma.followUpStepRun.updateMany).toHaveBeenCalledWith({
+      where: { id: 'run-1', status: 'SCHEDULED', attempts: 0 },
+      data: { attempts: { increment: 1 } },
+    })
+    expect((executor.execute as jest.Mock).mock.calls[0][0]).toMatchObject({
+      step: { id: 'run-1', type: 'EMAIL', title: 'Intro', content: 'Hi' },
+      enrollment: { id: 'enr-1', sequenceId: 'seq-1' },
+    })
+    expect(runUpdate('run-1').data).toEqual({ status: 'EXECUTED', statusReason: 'Sent email', executedAt: now, activityId: 'activity-1' })
+    // Monday 09:00 New York + 48h is Wednesday; the step waits for 10:00 local
+    expect(runUpdate('run-2').data).toEqual({ status: 'SCHEDULED', scheduledFor: new Date('2025-06-04T14:00:00Z') })
+  })
+
+  it('should queue approval-required steps instead of running them', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([
+      dueRun({ step: { ...dueRun().step, requiresApproval: true } }),
+    ])
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ awaitingApproval: 1, executed: 0 })
+    expect(executor.execute).not.toHaveBeenCalled()
+    expect(runUpdate('run-1').data).toEqual({ status: 'AWAITING_APPROVAL', statusReason: 'Waiting for rep approval' })
+  })
+
+  it('should stop the enrollment and credit the last executed step when the lead replies', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([dueRun({ id: 'run-2', stepNumber: 2 })])
+    ;(prisma.followUpStepRun.findFirst as jest.Mock).mockResolvedValue({ stepNumber: 1 })
+    ;(prisma.conversation.findFirst as jest.Mock).mockResolvedValue({ id: 'conv-1' })
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ stopped: 1 })
+    expect(executor.execute).not.toHaveBeenCalled()
+    expect(prisma.conversation.findFirst).toHaveBeenCalledWith({
+      where: { leadId: 'lead-1', direction: 'inbound', createdAt: { gte: enrollment.enrolledAt } },
+      select: { id: true },
+    })
+    expect(prisma.followUpEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { status: 'STOPPED', stoppedReason: 'Lead replied', completedAt: now, respondedAtStep: 1 },
+    })
+  })
+
+  it('should stop enrollments that stop on reply as soon as a reply comes in', async () => {
+    ;(prisma.followUpEnrollment.findMany as jest.Mock).mockResolvedValue([{ id: 'enr-1', sequenceId: 'seq-1' }])
+    ;(prisma.followUpStepRun.findFirst as jest.Mock).mockResolvedValue({ stepNumber: 2 })
+
+    const stopped = await scheduler.handleLeadEvent('lead-1', 'replied')
+
+    expect(stopped).toBe(1)
+    expect(prisma.followUpEnrollment.findMany).toHaveBeenCalledWith({
+      where: { leadId: 'lead-1', status: { in: ['ACTIVE', 'PAUSED'] }, version: { stopOnReply: true } },
+      select: { id: true, sequenceId: true },
+    })
+    expect(prisma.followUpStepRun.updateMany).toHaveBeenCalledWith({
+      where: { enrollmentId: 'enr-1', status: { in: ['PENDING', 'SCHEDULED', 'AWAITING_APPROVAL'] } },
+      data: { status: 'SKIPPED', statusReason: 'Sequence stopped: Lead replied' },
+    })
+    expect(prisma.followUpEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { status: 'STOPPED', stoppedReason: 'Lead replied', completedAt: now, respondedAtStep: 2 },
+    })
+  })
+
+  it('should record auto-send steps handed to the rep as skipped, not executed', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([dueRun()])
+    ;(executor.execute as jest.Mock).mockResolvedValue({ activityId: 'activity-1', detail: 'Not sent: no email sender', notSent: true })
+    ;(prisma.followUpStepRun.findFirst as jest.Mock).mockResolvedValue(null)
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ processed: 1, executed: 0, skipped: 1 })
+    expect(runUpdate('run-1').data).toEqual({ status: 'SKIPPED', statusReason: 'Not sent: no email sender', activityId: 'activity-1' })
+  })
+
+  it('should hand auto-send steps to the rep as a pending task instead of logging them as sent', async () => {
+    const check = jest.spyOn(complianceGuard, 'check').mockResolvedValue({ allowed: true })
+    ;(prisma.activity.create as jest.Mock).mockResolvedValue({ id: 'activity-1' })
+
+    const result = await activityStepExecutor.execute({
+      step: { id: 'run-1', type: 'EMAIL', title: 'Intro', content: 'Hi' },
+      enrollment: { id: 'enr-1', sequenceId: 'seq-1' },
+      lead: { id: 'lead-1', organizationId: 'org-1', assignedTo: 'rep-1', email: 'jane@example.com', phone: null, timezone: null },
+      send: true,
+      now,
+    })
+
+    const data = (prisma.activity.create as jest.Mock).mock.calls[0][0] as any
+    expect(data.data).toMatchObject({ type: 'TASK', subject: 'Email: Intro', scheduledAt: now, metadata: { automated: false, autoSend: true } })
+    expect(data.data.completedAt).toBeUndefined()
+    expect(data.data.outcome).toBeUndefined()
+    expect(result).toEqual({
+      activityId: 'activity-1',
+      detail: 'Not sent: no email sender for sequences; created a task for the assigned rep',
+      notSent: true,
+    })
+
+    check.mockResolvedValue({ allowed: false, reason: 'suppressed', detail: 'On the suppression list (unsubscribed)' } as any)
+    await expect(activityStepExecutor.execute({
+      step: { id: 'run-1', type: 'EMAIL', title: 'Intro', content: 'Hi' },
+      enrollment: { id: 'enr-1', sequenceId: 'seq-1' },
+      lead: { id: 'lead-1', organizationId: 'org-1', assignedTo: 'rep-1', email: 'jane@example.com', phone: null, timezone: null },
+      send: true,
+      now,
+    })).rejects.toBeInstanceOf(StepSkippedError)
+    check.mockRestore()
+  })
+
+  it('should record skipped steps and failures with reasons', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([
+      dueRun(),
+      dueRun({ id: 'run-9', attempts: 2 }),
+    ])
+    ;(executor.execute as jest.Mock)
+      .mockRejectedValueOnce(new StepSkippedError('Lead has no email address'))
+      .mockRejectedValueOnce(new Error('SMTP timeout'))
+    ;(prisma.followUpStepRun.findFirst as jest.Mock).mockResolvedValue(null)
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ processed: 2, skipped: 1, failed: 1 })
+    expect(runUpdate('run-1').data).toEqual({ status: 'SKIPPED', statusReason: 'Lead has no email address' })
+    expect(runUpdate('run-9').data).toEqual({ status: 'FAILED', statusReason: 'Failed after 3 attempts: SMTP timeout' })
+  })
+
+  it('should retry failed steps later until attempts run out', async () => {
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([dueRun()])
+    ;(executor.execute as jest.Mock).mockRejectedValueOnce(new Error('SMTP timeout'))
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ retried: 1 })
+    expect(runUpdate('run-1').data).toEqual({
+      status: 'SCHEDULED',
+      scheduledFor: new Date(now.getTime() + 15 * 60 * 1000),
+      statusReason: 'Attempt 1 failed: SMTP timeout',
+    })
+  })
+
+  it('should defer steps blocked by quiet hours without using up an attempt', async () => {
+    const until = new Date('2025-06-03T12:00:00Z')
+    ;(prisma.followUpStepRun.findMany as jest.Mock).mockResolvedValue([dueRun()])
+    ;(executor.execute as jest.Mock).mockRejectedValueOnce(new StepDeferredError('Quiet hours (21:00-08:00 in America/New_York)', until))
+
+    const summary = await scheduler.runDueSteps()
+
+    expect(summary).toMatchObject({ retried: 1, failed: 0 })
+    expect(runUpdate('run-1').data).toEqual({
+      status: 'SCHEDULED',
+      scheduledFor: until,
+      statusReason: 'Deferred: Quiet hours (21:00-08:00 in America/New_York)',
+      attempts: { decrement: 1 },
+    })
+  })
+
+  it('should only pause active enrollments', async () => {
+    ;(prisma.followUpEnrollment.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 })
+
+    await scheduler.pauseEnrollment('enr-1')
+
+    expect(prisma.followUpEnrollment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'enr-1', status: 'ACTIVE' },
+      data: { status: 'PAUSED', pausedAt: now },
+    })
+    await expect(scheduler.pauseEnrollment('enr-1')).rejects.toThrow('Only active enrollments can be paused')
+  })
+
+  it('should move steps that came due while paused to the next allowed local time on resume', async () => {
+    now = new Date('2025-06-07T16:00:00Z') // Saturday
+    ;(prisma.followUpEnrollment.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.followUpEnrollment.findUnique as jest.Mock).mockResolvedValue({
+      ...enrollment,
+      runs: [{ id: 'run-2', step: { delayHours: 48, preferredTime: '10:00', daysOfWeek: [1, 2, 3, 4, 5] } }],
+    })
+
+    await scheduler.resumeEnrollment('enr-1')
+
+    expect(runUpdate('run-2').data).toEqual({ scheduledFor: new Date('2025-06-09T14:00:00Z') })
+  })
+
+  it('should skip the remaining steps when a lead is unenrolled', async () => {
+    await scheduler.unenroll({ id: 'enr-1', sequenceId: 'seq-1' })
+
+    expect(prisma.followUpStepRun.updateMany).toHaveBeenCalledWith({
+      where: { enrollmentId: 'enr-1', status: { in: ['PENDING', 'SCHEDULED', 'AWAITING_APPROVAL'] } },
+      data: { status: 'SKIPPED', statusReason: 'Sequence stopped: Unenrolled' },
+    })
+    expect(prisma.followUpEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { status: 'STOPPED', stoppedReason: 'Unenrolled', completedAt: now },
+    })
+  })
+})
+
+describe('sequence templates', () => {
+  const input: SequenceTemplateInput = {
+    name: 'New seller follow-up',
+    triggerEvent: 'LEAD_CREATED',
+    leadTypes: ['SELLER'],
+    stopOnReply: true,
+    stopOnMeeting: true,
+    maxDuration: 14,
+    steps: [
+      { type: 'EMAIL', title: 'Intro', content: 'Hi', delayHours: 0, autoExecute: true, requiresApproval: false },
+      { type: 'CALL', title: 'Call', content: 'Call them', delayHours: 48, preferredTime: '10:00', autoExecute: false, requiresApproval: true },
+    ],
+  }
+
+  it('should validate templates', () => {
+    expect(validateSequenceTemplate(input)).toEqual([])
+    expect(validateSequenceTemplate({
+      ...input,
+      steps: [{ ...input.steps[0], preferredTime: '9am', daysOfWeek: [7] }],
+    })).toEqual([
+      'Step 1: preferredTime must be HH:MM',
+      'Step 1: daysOfWeek must list days from 0 (Sunday) to 6 (Saturday)',
+    ])
+  })
+
+  it('should report per-step conversion for each version', () => {
+    const versions = [{
+      id: 'ver-1',
+      version: 1,
+      createdAt: new Date('2025-06-01T00:00:00Z'),
+      steps: [
+        { id: 'def-1', stepNumber: 1, type: 'EMAIL', title: 'Intro' },
+        { id: 'def-2', stepNumber: 2, type: 'CALL', title: 'Call' },
+      ],
+    }]
+
+    const [stats] = buildSequenceStats(
+      versions,
+      [
+        { versionId: 'ver-1', status: 'ACTIVE', _count: { _all: 2 } },
+        { versionId: 'ver-1', status: 'STOPPED', _count: { _all: 3 } },
+        { versionId: 'ver-1', status: 'COMPLETED', _count: { _all: 5 } },
+      ],
+      [
+        { versionId: 'ver-1', respondedAtStep: 1, _count: { _all: 2 } },
+        { versionId: 'ver-1', respondedAtStep: null, _count: { _all: 1 } },
+      ],
+      [
+        { stepId: 'def-1', status: 'EXECUTED', _count: { _all: 8 } },
+        { stepId: 'def-1', status: 'SKIPPED', _count: { _all: 2 } },
+        { stepId: 'def-2', status: 'SCHEDULED', _count: { _all: 2 } },
+        { stepId: 'def-2', status: 'EXECUTED', _count: { _all: 5 } },
+      ]
+    )
+
+    expect(stats).toMatchObject({ enrolled: 10, active: 2, completed: 5, stopped: 3, responded: 3, responseRate: 30 })
+    expect(stats.steps[0]).toMatchObject({ executed: 8, skipped: 2, responses: 2, responseRate: 25 })
+    expect(stats.steps[1]).toMatchObject({ scheduled: 2, executed: 5, responses: 0, responseRate: 0 })
+  })
+})
@@ -0,0 +1,204 @@
+// LeadAI Pro - Job Queue Tests
+// Tests for claiming, retry backoff, dead-lettering and cancellation of background jobs
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { Clock } from '../../lib/followUps/followUpSchedule'
+import { JobQueue, retryDelaySeconds } from '../../lib/jobs/jobQueue'
+import { JobWorker } from '../../lib/jobs/jobWorker'
+import { JobHandlers, JobCancelledError, PermanentJobError } from '../../lib/jobs/jobTypes'
+import { getAIContext } from '../../lib/llm/aiContext'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    job: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}))
+
+const now = new Date('2026-03-18T12:00:00Z')
+const clock: Clock = { now: () => now }
+
+const queuedJob = (overrides: Record<string, any> = {}) => ({
+  id: 'job-1',
+  type: 'skipTrace.batch',
+  payload: { leadIds: ['lead-1'] },
+  status: 'QUEUED',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  attempts: 0,
+  maxAttempts: 5,
+  checkpoint: null,
+  cancelRequestedAt: null,
+  startedAt: null,
+  ...overrides,
+})
+
+const lastUpdate = () => {
+  const calls = (prisma.job.updateMany as jest.Mock).mock.calls
+  return calls[calls.length - 1][0] as any
+}
+
+describe('retryDelaySeconds', () => {
+  it('should double the delay with each attempt up to the type maximum', () => {
+    expect(retryDelaySeconds('email.sendCampaign', 1)).toBe(60)
+    expect(retryDelaySeconds('email.sendCampaign', 3)).toBe(240)
+    expect(retryDelaySeconds('email.sendCampaign', 10)).toBe(30 * 60)
+  })
+})
+
+describe('JobQueue', () => {
+  let queue: JobQueue
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    queue = new JobQueue(clock)
+    ;(prisma.job.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+  })
+
+  it('should enqueue with the job type defaults', async () => {
+    ;(prisma.job.create as jest.Mock).mockImplementation(async (args: any) => ({ id: 'job-1', ...args.data }))
+
+    const job = await queue.enqueue('documents.batchAnalyze', { files: [] }, { organizationId: 'org-1' })
+
+    expect(prisma.job.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'documents.batchAnalyze', maxAttempts: 2, runAt: now, priority: 0 }),
+    })
+    // Payloads stay out of API responses
+    expect(job).not.toHaveProperty('payload')
+  })
+
+  it('should claim the first job no other worker took and resume abandoned ones', async () => {
+    ;(prisma.job.findMany as jest.Mock).mockResolvedValue([
+      queuedJob({ id: 'taken' }),
+      queuedJob({ id: 'abandoned', status: 'RUNNING', attempts: 2, checkpoint: { remoteJobId: 'b-1' } }),
+    ])
+    ;(prisma.job.updateMany as jest.Mock)
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 })
+
+    const job = await queue.claim('worker-a', 60)
+
+    expect(job).toMatchObject({ id: 'abandoned', attempts: 3, checkpoint: { remoteJobId: 'b-1' } })
+    expect(lastUpdate()).toEqual({
+      where: { id: 'abandoned', status: 'RUNNING', attempts: 2 },
+      data: expect.objectContaining({
+        status: 'RUNNING',
+        lockedBy: 'worker-a',
+        lockedUntil: new Date('2026-03-18T12:01:00Z'),
+      }),
+    })
+  })
+
+  it('should dead-letter abandoned jobs that are out of attempts', async () => {
+    ;(prisma.job.findMany as jest.Mock).mockResolvedValue([
+      queuedJob({ status: 'RUNNING', attempts: 5 }),
+    ])
+
+    expect(await queue.claim('worker-a', 60)).toBeNull()
+    expect(lastUpdate().data).toMatchObject({ status: 'DEAD', lastError: 'Worker stopped while running the job' })
+  })
+
+  it('should retry failures with backoff, then dead-letter them', async () => {
+    const job = { ...queuedJob(), type: 'skipTrace.batch' as const, attempts: 2 }
+
+    expect(await queue.fail(job, 'worker-a', new Error('timeout'))).toBe('retried')
+    expect(lastUpdate().data).toMatchObject({
+      status: 'QUEUED',
+      lastError: 'timeout',
+      runAt: new Date('2026-03-18T12:04:00Z'),
+    })
+
+    expect(await queue.fail({ ...job, attempts: 5 }, 'worker-a', new Error('timeout'))).toBe('dead')
+    expect(await queue.fail({ ...job, attempts: 1 }, 'worker-a', new PermanentJobError('not configured'))).toBe('dead')
+    expect(lastUpdate().data).toMatchObject({ status: 'DEAD', lastError: 'not configured' })
+  })
+
+  it('should cancel queued jobs at once and ask running ones to stop', async () => {
+    ;(prisma.job.findFirst as jest.Mock).mockResolvedValue(queuedJob({ status: 'RUNNING' }))
+    ;(prisma.job.updateMany as jest.Mock)
+      .mockResolvedValueOnce({ count: 0 })
+      .mockResolvedValueOnce({ count: 1 })
+
+    await queue.cancel('job-1', 'org-1')
+
+    expect(lastUpdate()).toEqual({
+      where: { id: 'job-1', status: 'RUNNING', cancelRequestedAt: null },
+      data: { cancelRequestedAt: now },
+    })
+  })
+})
+
+describe('JobWorker', () => {
+  let queue: JobQueue
+  let handlers: Record<keyof JobHandlers, jest.Mock>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    queue = new JobQueue(clock)
+    ;(prisma.job.updateMany as jest.Mock).mockResolvedValue({ count: 1 })
+    ;(prisma.job.findMany as jest.Mock).mockResolvedValue([queuedJob()])
+    ;(prisma.job.findUnique as jest.Mock).mockResolvedValue({ cancelRequestedAt: null })
+    handlers = {
+      'email.sendCampaign': jest.fn(),
+      'skipTrace.batch': jest.fn(),
+      'documents.batchAnalyze': jest.fn(),
+    }
+  })
+
+  it('should run the handler in the organization AI context and store its result', async () => {
+    handlers['skipTrace.batch'].mockImplementation(async (payload: any, context: any) => {
+      await context.progress({ completed: 1, total: 1 })
+      return { traced: payload.leadIds.length, organizationId: getAIContext()?.organizationId }
+    })
+
+    const worker = new JobWorker(handlers as any, { workerId: 'worker-a' }, queue)
+
+    expect(await worker.runNext()).toBe('succeeded')
+    expect(lastUpdate()).toEqual({
+      where: { id: 'job-1', lockedBy: 'worker-a' },
+      data: expect.objectContaining({ status: 'SUCCEEDED', result: { traced: 1, organizationId: 'org-1' } }),
+    })
+  })
+
+  it('should record cancellations and failures', async () => {
+    const worker = new JobWorker(handlers as any, { workerId: 'worker-a' }, queue)
+
+    handlers['skipTrace.batch'].mockRejectedValueOnce(new JobCancelledError())
+    expect(await worker.runNext()).toBe('cancelled')
+    expect(lastUpdate().data).toMatchObject({ status: 'CANCELLED' })
+
+    handlers['skipTrace.batch'].mockRejectedValueOnce(new Error('BatchSkipTrace unavailable'))
+    expect(await worker.runNext()).toBe('retried')
+    expect(lastUpdate().data).toMatchObject({ status: 'QUEUED', lastError: 'BatchSkipTrace unavailable' })
+  })
+
+  it('should stop the handler and leave the job alone once another worker takes it over', async () => {
+    // The claim is gone by the first heartbeat
+    const heartbeat = jest.spyOn(queue, 'heartbeat').mockResolvedValue(false)
+    handlers['skipTrace.batch'].mockImplementation(async (payload: any, context: any) => {
+      while (!(await context.isCancelled())) {
+        await new Promise(resolve => setTimeout(resolve, 5))
+      }
+      throw new JobCancelledError()
+    })
+    const worker = new JobWorker(handlers as any, { workerId: 'worker-a', lockSeconds: 0.03 }, queue)
+
+    expect(await worker.runNext()).toBe('lost')
+    expect(heartbeat).toHaveBeenCalledWith('job-1', 'worker-a', 0.03)
+    // Neither cancelled nor retried: the job is the new worker's now
+    expect(lastUpdate().data).not.toHaveProperty('finishedAt')
+    expect(lastUpdate().data.status).toBe('RUNNING')
+  })
+
+  it('should stay idle when nothing is due', async () => {
+    ;(prisma.job.findMany as jest.Mock).mockResolvedValue([])
+
+    expect(await new JobWorker(handlers as any, {}, queue).runNext()).toBe('idle')
+  })
+})
@@ -0,0 +1,166 @@
+// LeadAI Pro - Lead Exporter Tests
+// Tests for export filters, column selection, CSV/JSONL/XLSX output and client disconnects
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { PassThrough, Writable } from 'stream'
+import ExcelJS from 'exceljs'
+import { prisma } from '../../lib/database'
+import { parseCsv } from '../../lib/leads/csv'
+import { buildLeadWhereClause } from '../../lib/leads/leadFilters'
+import { ExportAbortedError, resolveExportColumns, streamLeadExport } from '../../lib/leads/leadExporter'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    lead: {
+      findMany: jest.fn()
+    }
+  }
+}))
+
+// Collects everything written to the stream
+const collect = (stream: PassThrough): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  stream.on('data', chunk => chunks.push(Buffer.from(chunk)))
+  return new Promise(resolve => stream.on('end', () => resolve(Buffer.concat(chunks))))
+}
+
+describe('lead export', () => {
+  const leads = [
+    {
+      id: 'lead-1',
+      firstName: 'Jane',
+      lastName: 'Seller, Sr.',
+      email: 'jane@example.com',
+      tags: ['absentee', 'vacant'],
+      address: { city: 'Atlanta', zipCode: '30309' },
+      customFields: { motivation: 'high' },
+      assignedUser: { fullName: 'Rita Rep' },
+      createdAt: new Date('2025-06-02T12:00:00Z'),
+      scores: [{ score: 82, explanation: ['Recent reply', 'High equity'] }],
+    },
+    { id: 'lead-2', firstName: 'Bob', lastName: 'Owner', email: null, tags: [], createdAt: new Date('2025-06-03T08:30:00Z') },
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.lead.findMany as jest.Mock).mockResolvedValue(leads)
+  })
+
+  describe('filters', () => {
+    it('should combine filters and limit sales reps to their own leads', () => {
+      const where = buildLeadWhereClause(
+        { id: 'rep-1', role: 'sales_rep', organizationId: 'org-1' },
+        { search: 'jane', status: 'new', assignedTo: 'rep-2', minScore: '60', tags: 'absentee, vacant,' }
+      )
+
+      expect(where).toMatchObject({
+        organizationId: 'org-1',
+        status: 'new',
+        assignedTo: 'rep-1',
+        currentScore: { gte: 60 },
+        tags: { hasSome: ['absentee', 'vacant'] },
+      })
+      expect(where.OR).toHaveLength(4)
+    })
+  })
+
+  describe('resolveExportColumns', () => {
+    it('should use the default columns and accept custom fields', () => {
+      expect(resolveExportColumns().columns[0].key).toBe('id')
+
+      const { columns, unknown } = resolveExportColumns(['email', 'customFields.motivation', 'customFields.', 'bogus'])
+      expect(columns.map(c => c.key)).toEqual(['email', 'customFields.motivation'])
+      expect(unknown).toEqual(['customFields.', 'bogus'])
+    })
+  })
+
+  describe('streamLeadExport', () => {
+    const { columns } = resolveExportColumns(['id', 'lastName', 'tags', 'address.city', 'assignedUser', 'createdAt', 'customFields.motivation'])
+
+    it('should write a CSV header and one escaped row per lead', async () => {
+      const output = new PassThrough()
+      const text = collect(output)
+
+      expect(await streamLeadExport(output, { organizationId: 'org-1' }, 'csv', columns)).toBe(2)
+
+      const rows = parseCsv((await text).toString('utf8'))
+      expect(rows[0]).toEqual(['Lead ID', 'Last Name', 'Tags', 'Address City', 'Assigned To', 'Created At', 'motivation'])
+      expect(rows[1]).toEqual(['lead-1', 'Seller, Sr.', 'absentee; vacant', 'Atlanta', 'Rita Rep', '2025-06-02T12:00:00.000Z', 'high'])
+      expect(prisma.lead.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { organizationId: 'org-1' }, orderBy: { id: 'asc' } }))
+    })
+
+    it('should write one JSON object per line with ISO dates and nulls', async () => {
+      const output = new PassThrough()
+      const text = collect(output)
+
+      await streamLeadExport(output, {}, 'jsonl', resolveExportColumns(['id', 'email', 'createdAt', 'latestScore', 'scoreExplanation']).columns)
+
+      const lines = (await text).toString('utf8').trim().split('\n').map(line => JSON.parse(line))
+      expect(lines).toEqual([
+        { id: 'lead-1', email: 'jane@example.com', createdAt: '2025-06-02T12:00:00.000Z', latestScore: 82, scoreExplanation: 'Recent reply; High equity' },
+        { id: 'lead-2', email: null, createdAt: '2025-06-03T08:30:00.000Z', latestScore: null, scoreExplanation: null },
+      ])
+      // AI columns join the latest score and open insights
+      expect((prisma.lead.findMany as jest.Mock).mock.calls[0][0]).toMatchObject({ include: { scores: expect.any(Object), insights: expect.any(Object) } })
+    })
+
+    it('should read the explanation summary from scores saved by the scoring service', async () => {
+      ;(prisma.lead.findMany as jest.Mock).mockResolvedValue([
+        { id: 'lead-3', scores: [{ score: 64, explanation: { summary: ['Strong demographic fit', 'Low engagement'], factors: {}, appliedRules: [] } }] },
+      ])
+      const output = new PassThrough()
+      const text = collect(output)
+
+      await streamLeadExport(output, {}, 'jsonl', resolveExportColumns(['id', 'scoreExplanation']).columns)
+
+      expect(JSON.parse((await text).toString('utf8'))).toEqual({ id: 'lead-3', scoreExplanation: 'Strong demographic fit; Low engagement' })
+    })
+
+    it('should write a readable XLSX sheet', async () => {
+      const output = new PassThrough()
+      const data = collect(output)
+
+      await streamLeadExport(output, {}, 'xlsx', columns)
+
+      const workbook = new ExcelJS.Workbook()
+      await workbook.xlsx.load(await data as any)
+      const sheet = workbook.getWorksheet('Leads')!
+      expect(sheet.getRow(1).getCell(2).value).toBe('Last Name')
+      expect(sheet.getRow(2).getCell(3).value).toBe('absentee; vacant')
+      expect(sheet.getRow(3).getCell(1).value).toBe('lead-2')
+    })
+
+    it('should stop reading leads when the client disconnects while waiting to drain', async () => {
+      // Accepts the header and first row, then never finishes a write, so the export waits
+      // for a drain that does not come until the client goes away
+      let accepted = 0
+      const output = new Writable({
+        highWaterMark: 1,
+        write: (_chunk, _encoding, callback) => { if (accepted++ < 2) callback() },
+      })
+      ;(prisma.lead.findMany as jest.Mock).mockImplementation(async () => {
+        setImmediate(() => output.destroy())
+        return Array.from({ length: 500 }, (_, i) => ({ id: `lead-${String(i).padStart(3, '0')}`, tags: [] }))
+      })
+
+      const exported = streamLeadExport(output, {}, 'csv', columns)
+
+      await expect(exported).rejects.toBeInstanceOf(ExportAbortedError)
+      expect(prisma.lead.findMany).toHaveBeenCalledTimes(1)
+    })
+
+    it('should wait for the output to drain between XLSX rows', async () => {
+      // Holds every write until the client goes away, so nothing the workbook sends drains
+      const output = new Writable({ highWaterMark: 1, write: () => {} })
+      ;(prisma.lead.findMany as jest.Mock).mockImplementation(async () => {
+        setTimeout(() => output.destroy(), 50)
+        return Array.from({ length: 500 }, (_, i) => ({ id: `lead-${String(i).padStart(3, '0')}`, tags: [] }))
+      })
+
+      const exported = streamLeadExport(output, {}, 'xlsx', columns)
+
+      await expect(exported).rejects.toBeInstanceOf(ExportAbortedError)
+      expect(prisma.lead.findMany).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,186 @@
+// LeadAI Pro - Lead Importer Tests
+// Tests for spreadsheet parsing, column mapping, row validation and dedupe
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { parseCsv } from '../../lib/leads/csv'
+import {
+  LeadImporter,
+  readImportFile,
+  suggestColumnMapping,
+  validateColumnMapping,
+  mapRow,
+} from '../../lib/leads/leadImporter'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    lead: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    organization: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    leadStageHistory: {
+      create: jest.fn()
+    },
+    followUpSequence: {
+      findMany: jest.fn()
+    }
+  }
+}))
+
+describe('LeadImporter', () => {
+  const csv = [
+    'Full Name,Email Address,Phone,Property Address,Zip,Motivation,Reason,Asking Price,Tags,Notes',
+    'Jane Seller,jane@example.com,(555) 123-4567,12 Oak Street,30309,high,Financial distress,"$185,000",absentee;vacant,Call after 5',
+    'Bob Owner,bob@example.com,555-987-6543,9 Pine Ave,30310,lukewarm,Divorce,abc,,',
+    'Jane Again,JANE@example.com,,,,,,,,',
+    'Sam Existing,,+1 555 000 1111,,,,,,,',
+  ].join('\n')
+
+  let importer: LeadImporter
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    importer = new LeadImporter()
+    ;(prisma.lead.findMany as jest.Mock).mockResolvedValue([
+      { id: 'existing-1', email: null, phone: '5550001111', address: null }
+    ])
+    ;(prisma.lead.create as jest.Mock).mockImplementation(async () => ({ id: 'new-lead' }))
+    ;(prisma.followUpSequence.findMany as jest.Mock).mockResolvedValue([])
+  })
+
+  describe('parseCsv', () => {
+    it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+      const rows = parseCsv('a,b\r\n"1,000","say ""hi"""\r\n')
+
+      expect(rows).toEqual([['a', 'b'], ['1,000', 'say "hi"']])
+    })
+
+    it('should detect semicolon delimiters', () => {
+      expect(parseCsv('first;last\nJane;Doe')).toEqual([['first', 'last'], ['Jane', 'Doe']])
+    })
+  })
+
+  describe('column detection', () => {
+    it('should suggest mappings from common headers', async () => {
+      const sheet = await readImportFile(Buffer.from(csv), 'list.csv')
+      const mapping = suggestColumnMapping(sheet.columns)
+
+      expect(mapping).toMatchObject({
+        'Full Name': 'fullName',
+        'Email Address': 'email',
+        'Phone': 'phone',
+        'Property Address': 'address.street',
+        'Zip': 'address.zipCode',
+        'Motivation': 'motivationLevel',
+        'Reason': 'sellingReason',
+        'Asking Price': 'priceExpectation',
+        'Tags': 'tags',
+      })
+      expect(mapping['Notes']).toBeUndefined()
+    })
+
+    it('should reject mappings without a name or with unknown fields', () => {
+      expect(validateColumnMapping({ Email: 'email' })).toHaveLength(1)
+      expect(validateColumnMapping({ Name: 'fullName', X: 'notAField' })).toHaveLength(1)
+      expect(validateColumnMapping({ Name: 'fullName', Notes: 'customFields.notes' })).toHaveLength(0)
+    })
+  })
+
+  describe('mapRow', () => {
+    it('should normalize enums, decimals, tags and custom fields', () => {
+      const columns = ['Name', 'Motivation', 'Reason', 'Price', 'Tags', 'Notes']
+      const mapping = {
+        Name: 'fullName',
+        Motivation: 'motivationLevel',
+        Reason: 'sellingReason',
+        Price: 'priceExpectation',
+        Tags: 'tags',
+        Notes: 'customFields.notes',
+      }
+
+      const { data, errors } = mapRow(
+        ['Jane Seller', 'urgent', 'job change', '$250,000', 'probate, vacant', 'Gate code 42'],
+        columns,
+        mapping,
+        2
+      )
+
+      expect(errors).toHaveLength(0)
+      expect(data).toEqual({
+        firstName: 'Jane',
+        lastName: 'Seller',
+        motivationLevel: 'URGENT',
+        sellingReason: 'JOB_CHANGE',
+        priceExpectation: 250000,
+        tags: ['probate', 'vacant'],
+        customFields: { notes: 'Gate code 42' },
+      })
+    })
+
+    it('should report invalid enum and numeric values with row and column', () => {
+      const { errors } = mapRow(['Bob Owner', 'lukewarm', 'abc'], ['Name', 'Motivation', 'Price'], {
+        Name: 'fullName',
+        Motivation: 'motivationLevel',
+        Price: 'priceExpectation',
+      }, 3)
+
+      expect(errors).toHaveLength(2)
+      expect(errors[0]).toMatchObject({ row: 3, column: 'Motivation', field: 'motivationLevel', value: 'lukewarm' })
+      expect(errors[1]).toMatchObject({ row: 3, column: 'Price', field: 'priceExpectation' })
+    })
+  })
+
+  describe('run', () => {
+    it('should produce a dry-run report without writing leads', async () => {
+      const sheet = await readImportFile(Buffer.from(csv), 'list.csv')
+      const report = await importer.run(sheet, { organizationId: 'org-1', userId: 'user-1', dryRun: true })
+
+      expect(report.dryRun).toBe(true)
+      expect(report.totalRows).toBe(4)
+      expect(report.imported).toBe(1)
+      expect(report.invalid).toBe(1)
+      expect(report.skipped).toBe(2)
+      expect(report.rows.map(r => r.status)).toEqual(['created', 'invalid', 'skipped', 'skipped'])
+      expect(report.rows[2]).toMatchObject({ duplicateOf: 'row:2', matchedOn: 'email' })
+      expect(report.rows[3]).toMatchObject({ duplicateOf: 'existing-1', matchedOn: 'phone' })
+      expect(prisma.lead.create).not.toHaveBeenCalled()
+    })
+
+    it('should create leads and update duplicates when requested', async () => {
+      ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({ tags: ['old'], customFields: { a: 1 } })
+
+      const sheet = await readImportFile(Buffer.from(csv), 'list.csv')
+      const report = await importer.run(sheet, {
+        organizationId: 'org-1',
+        userId: 'user-1',
+        onDuplicate: 'update',
+      })
+
+      expect(report.imported).toBe(1)
+      expect(report.updated).toBe(1)
+      expect(prisma.lead.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          organizationId: 'org-1',
+          assignedTo: 'user-1',
+          source: 'import',
+          email: 'jane@example.com',
+          address: { street: '12 Oak Street', zipCode: '30309' },
+          stage: 'new',
+        })
+      }))
+      expect(prisma.leadStageHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ pipelineId: 'default', fromStage: null, toStage: 'new' })
+      })
+      expect(prisma.lead.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'existing-1' },
+        data: expect.objectContaining({ tags: ['old'], customFields: { a: 1 } })
+      }))
+    })
+  })
+})
@@ -0,0 +1,159 @@
+// LeadAI Pro - Lead Routing Tests
+// Tests for routing rule matching, capacity fallbacks and rep selection
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  RoutingCandidate,
+  RoutingConfig,
+  RoutingRule,
+  DEFAULT_ROUTING_CONFIG,
+  matchRoutingRule,
+  planRouting,
+  pickRoundRobin,
+  pickWeighted,
+  validateRoutingConfig,
+} from '../../lib/routing/routingRules'
+import { RoutingSession } from '../../lib/routing/leadRoutingService'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {}
+}))
+
+describe('Lead routing', () => {
+  const candidate = (overrides: Partial<RoutingCandidate>): RoutingCandidate => ({
+    userId: 'rep-a',
+    name: 'Rep A',
+    isSalesRep: true,
+    openLeads: 0,
+    capacity: 10,
+    weight: 1,
+    paused: false,
+    lastAssignedAt: null,
+    recentAssignments: 0,
+    ...overrides,
+  })
+
+  const atlantaSellers: RoutingRule = {
+    id: 'atl-sellers',
+    name: 'Atlanta sellers',
+    conditions: { leadTypes: ['SELLER'], zipCodes: ['303*'], counties: ['Fulton'] },
+    userIds: ['rep-a', 'rep-b'],
+    strategy: 'round_robin',
+  }
+
+  const sellerLead = {
+    leadType: 'SELLER',
+    source: 'direct_mail',
+    address: { street: '12 Oak Street', zipCode: '30309-1234', county: 'Fulton County' },
+  }
+
+  describe('matchRoutingRule', () => {
+    it('should match lead type and territory and explain why', () => {
+      expect(matchRoutingRule(atlantaSellers, sellerLead)).toEqual([
+        'lead type SELLER',
+        'ZIP 30309 matches 303*',
+        'county Fulton County',
+      ])
+    })
+
+    it('should not match when any condition fails', () => {
+      expect(matchRoutingRule(atlantaSellers, { ...sellerLead, leadType: 'BUYER' })).toBeNull()
+      expect(matchRoutingRule(atlantaSellers, { ...sellerLead, address: { zipCode: '30409', county: 'Fulton' } })).toBeNull()
+      expect(matchRoutingRule(atlantaSellers, { leadType: 'SELLER' })).toBeNull()
+    })
+  })
+
+  describe('planRouting', () => {
+    const config: RoutingConfig = {
+      ...DEFAULT_ROUTING_CONFIG,
+      enabled: true,
+      rules: [atlantaSellers],
+      fallback: { strategy: 'weighted', userIds: ['rep-c'] },
+    }
+
+    it('should skip reps at capacity or paused and fall back when no one is left', () => {
+      const candidates = [
+        candidate({ userId: 'rep-a', name: 'Rep A', openLeads: 10 }),
+        candidate({ userId: 'rep-b', name: 'Rep B', paused: true }),
+        candidate({ userId: 'rep-c', name: 'Rep C' }),
+      ]
+
+      const { step, reasons } = planRouting(sellerLead, config, candidates)
+
+      expect(step!.rule).toBeNull()
+      expect(step!.strategy).toBe('weighted')
+      expect(step!.eligible.map(c => c.userId)).toEqual(['rep-c'])
+      expect(reasons[0]).toBe('Rule "Atlanta sellers" matched but no rep was eligible: Rep A is at capacity (10/10); Rep B is paused')
+    })
+
+    it('should use every sales rep when a rule names no users', () => {
+      const everyone = { ...config, rules: [{ ...atlantaSellers, userIds: [] }] }
+      const candidates = [
+        candidate({ userId: 'rep-a' }),
+        candidate({ userId: 'admin-1', isSalesRep: false }),
+      ]
+
+      const { step } = planRouting(sellerLead, everyone, candidates)
+
+      expect(step!.rule!.id).toBe('atl-sellers')
+      expect(step!.eligible.map(c => c.userId)).toEqual(['rep-a'])
+    })
+  })
+
+  describe('rep selection', () => {
+    it('should pick the rep who has waited longest for round robin', () => {
+      const picked = pickRoundRobin([
+        candidate({ userId: 'rep-a', lastAssignedAt: new Date('2025-06-02') }),
+        candidate({ userId: 'rep-b', lastAssignedAt: new Date('2025-06-01') }),
+      ])
+
+      expect(picked.userId).toBe('rep-b')
+    })
+
+    it('should pick the rep furthest below their weighted share', () => {
+      const picked = pickWeighted([
+        candidate({ userId: 'rep-a', weight: 1, recentAssignments: 3 }),
+        candidate({ userId: 'rep-b', weight: 3, recentAssignments: 6 }),
+      ])
+
+      expect(picked.userId).toBe('rep-b')
+    })
+  })
+
+  describe('RoutingSession', () => {
+    it('should rotate through reps within one session and keep capacity current', async () => {
+      const config: RoutingConfig = { ...DEFAULT_ROUTING_CONFIG, enabled: true, rules: [atlantaSellers] }
+      const session = new RoutingSession('org-1', config, [
+        candidate({ userId: 'rep-a', name: 'Rep A', capacity: 1 }),
+        candidate({ userId: 'rep-b', name: 'Rep B', capacity: 1 }),
+      ])
+
+      const first = await session.decide(sellerLead, 'creator')
+      const second = await session.decide(sellerLead, 'creator')
+      const third = await session.decide(sellerLead, 'creator')
+
+      expect([first.assignedTo, second.assignedTo]).toEqual(['rep-a', 'rep-b'])
+      expect(first).toMatchObject({ ruleId: 'atl-sellers', strategy: 'round_robin' })
+      expect(first.reasons).toContain('Round robin: Rep A was next in turn')
+      expect(third).toMatchObject({ assignedTo: 'creator', ruleId: null, strategy: 'default' })
+      expect(third.reasons[third.reasons.length - 1]).toBe('Assigned to the default owner')
+    })
+  })
+
+  describe('validateRoutingConfig', () => {
+    it('should report unknown users, lead types and malformed ZIP codes', () => {
+      const errors = validateRoutingConfig({
+        ...DEFAULT_ROUTING_CONFIG,
+        rules: [{ ...atlantaSellers, conditions: { leadTypes: ['RENTER'], zipCodes: ['3030'] }, userIds: ['rep-x'] }],
+        reps: { 'rep-a': { weight: 0 } },
+      }, ['rep-a', 'rep-b'])
+
+      expect(errors).toEqual([
+        'rules[0]: unknown user "rep-x"',
+        'rules[0]: unknown lead types RENTER',
+        'rules[0]: ZIP codes must be 5 digits or a prefix ending in * (3030)',
+        'reps.rep-a: weight must be a positive number',
+      ])
+    })
+  })
+})
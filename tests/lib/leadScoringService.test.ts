@@ -0,0 +1,172 @@
+// LeadAI Pro - Lead Scoring Service Tests
+// Tests for persisted scores, factor deltas and batch rescoring
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { LeadScoringService, buildFactorBreakdown } from '../../lib/scoring/leadScoringService'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    lead: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn()
+    },
+    leadScore: {
+      findFirst: jest.fn(),
+      create: jest.fn()
+    },
+    organization: {
+      findUnique: jest.fn()
+    },
+    $transaction: jest.fn((operations: Promise<any>[]) => Promise.all(operations))
+  }
+}))
+
+describe('LeadScoringService', () => {
+  const lead = {
+    id: 'lead-1',
+    organizationId: 'org-1',
+    firstName: 'Jane',
+    lastName: 'Seller',
+    email: 'jane@acme-software.com',
+    company: 'Acme Software',
+    jobTitle: 'Founder',
+    createdAt: new Date(),
+    lastContactedAt: new Date(),
+    activities: [
+      { id: 'a-1', type: 'MEETING', outcome: 'COMPLETED', createdAt: new Date() },
+      { id: 'a-2', type: 'EMAIL', outcome: 'responded', createdAt: new Date() },
+    ],
+    conversations: [],
+  }
+
+  let service: LeadScoringService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new LeadScoringService()
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue(lead)
+    ;(prisma.leadScore.create as jest.Mock).mockImplementation(async ({ data }: any) => ({
+      id: 'score-new',
+      createdAt: new Date(),
+      ...data,
+    }))
+  })
+
+  it('should break factors into weighted contributions with deltas', () => {
+    const breakdown = buildFactorBreakdown(
+      { demographic: 80, behavioral: 60, temporal: 40, conversational: 35 },
+      { demographicScore: 70, behavioralScore: null }
+    )
+
+    expect(breakdown[0]).toEqual({
+      factor: 'demographic',
+      score: 80,
+      weight: 0.25,
+      contribution: 20,
+      previousScore: 70,
+      delta: 10,
+    })
+    expect(breakdown[1]).toMatchObject({ factor: 'behavioral', contribution: 21, delta: null })
+  })
+
+  it('should persist the score with factor columns and return the delta', async () => {
+    ;(prisma.leadScore.findFirst as jest.Mock).mockResolvedValue({ score: 40, behavioralScore: 30 })
+
+    const outcome = await service.scoreLead('lead-1')
+
+    const created = (prisma.leadScore.create as jest.Mock).mock.calls[0][0] as any
+    expect(created.data).toMatchObject({
+      leadId: 'lead-1',
+      modelVersion: 'advanced-v1',
+      score: outcome!.score,
+      behavioralScore: expect.any(Number),
+      explanation: expect.objectContaining({ trigger: 'manual', factors: expect.any(Array) }),
+    })
+    expect(prisma.lead.update).toHaveBeenCalledWith({
+      where: { id: 'lead-1' },
+      data: expect.objectContaining({ currentScore: outcome!.score, scoreConfidence: outcome!.confidence }),
+    })
+    expect(outcome).toMatchObject({ previousScore: 40, delta: outcome!.score - 40 })
+
+    // Uppercase activity types from the database count as high-value engagement
+    const behavioral = outcome!.factors.find(f => f.factor === 'behavioral')!
+    expect(behavioral.score).toBeGreaterThan(60)
+    expect(behavioral.delta).toBe(behavioral.score - 30)
+  })
+
+  it('should apply the organization scoring profile weights and rules', async () => {
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+      aiConfig: {
+        scoringProfile: {
+          weights: { demographic: 0.7, behavioral: 0.1, temporal: 0.1, conversational: 0.1 },
+          rules: [
+            { id: 'distress', label: 'Financial distress', field: 'sellingReason', operator: 'equals', value: 'FINANCIAL_DISTRESS', factor: 'temporal', points: 20 },
+          ],
+          updatedAt: '2025-06-01T00:00:00.000Z',
+        }
+      }
+    })
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue({ ...lead, sellingReason: 'FINANCIAL_DISTRESS' })
+    ;(prisma.leadScore.findFirst as jest.Mock).mockResolvedValue(null)
+
+    const outcome = await service.scoreLead('lead-1')
+
+    expect(prisma.organization.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'org-1' } }))
+    expect(outcome!.appliedRules).toEqual([{ id: 'distress', label: 'Financial distress', factor: 'temporal', points: 20 }])
+    expect(outcome!.explanation).toContain('Financial distress (+20 temporal)')
+    expect(outcome!.factors.find(f => f.factor === 'demographic')!.weight).toBe(0.7)
+
+    const expected = Math.round(outcome!.factors.reduce((sum, f) => sum + f.score * f.weight, 0))
+    expect(outcome!.score).toBe(expected)
+  })
+
+  it('should return null for an unknown lead', async () => {
+    ;(prisma.lead.findUnique as jest.Mock).mockResolvedValue(null)
+
+    expect(await service.scoreLead('missing')).toBeNull()
+    expect(prisma.leadScore.create).not.toHaveBeenCalled()
+  })
+
+  it('should rescore an organization in batches and collect failures', async () => {
+    ;(prisma.lead.findMany as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'lead-1' }, { id: 'lead-2' }])
+      .mockResolvedValueOnce([{ id: 'lead-3' }])
+    ;(prisma.leadScore.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.lead.findUnique as jest.Mock)
+      .mockResolvedValueOnce(lead)
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(lead)
+
+    const summary = await service.rescoreOrganization('org-1', { batchSize: 2, staleAfterHours: 24 })
+
+    expect(summary).toMatchObject({ scored: 2, failed: 1, changed: 0 })
+    expect(summary.failures).toEqual([{ leadId: 'lead-2', error: 'connection reset' }])
+    expect((prisma.lead.findMany as jest.Mock).mock.calls[1][0]).toMatchObject({
+      where: { organizationId: 'org-1', id: { gt: 'lead-2' }, NOT: { scores: { some: { createdAt: { gte: expect.any(Date) } } } } },
+    })
+    expect((prisma.lead.findMany as jest.Mock).mock.calls[1][0].skip).toBeUndefined()
+  })
+
+  it('should score every stale lead across batches even as scored leads leave the filter', async () => {
+    const stale = new Set(['lead-1', 'lead-2', 'lead-3', 'lead-4', 'lead-5'])
+    // Behaves like the database: leads with a fresh score no longer match the stale filter
+    ;(prisma.lead.findMany as jest.Mock).mockImplementation(async ({ where, take }: any) => {
+      const ids = [...stale].sort().filter(id => !where.id?.gt || id > where.id.gt)
+      return ids.slice(0, take).map(id => ({ id }))
+    })
+    ;(prisma.leadScore.findFirst as jest.Mock).mockResolvedValue(null)
+    ;(prisma.leadScore.create as jest.Mock).mockImplementation(async ({ data }: any) => {
+      stale.delete(data.leadId)
+      return { id: `score-${data.leadId}`, createdAt: new Date(), ...data }
+    })
+
+    const summary = await service.rescoreOrganization('org-1', { batchSize: 2, staleAfterHours: 24 })
+
+    expect(summary).toMatchObject({ scored: 5, failed: 0 })
+    expect(stale.size).toBe(0)
+    expect((prisma.leadScore.create as jest.Mock).mock.calls.map((call: any) => call[0].data.leadId))
+      .toEqual(['lead-1', 'lead-2', 'lead-3', 'lead-4', 'lead-5'])
+  })
+})
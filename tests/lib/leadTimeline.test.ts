@@ -0,0 +1,134 @@
+// LeadAI Pro - Lead Timeline Tests
+// Tests for the merged multi-source lead timeline: ordering, cursors and pagination
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import {
+  db,
+  compareTimelineEntries,
+  encodeTimelineCursor,
+  decodeTimelineCursor,
+  TimelineEntry,
+} from '../../lib/database'
+
+// In-memory rows per model; findMany applies the timeline's where, order and take
+const mockRows: Record<string, any[]> = {}
+
+const mockMatches = (row: any, where: any): boolean => Object.entries(where).every(([field, condition]: [string, any]) => {
+  if (field === 'OR') return condition.some((branch: any) => mockMatches(row, branch))
+  const value = row[field] instanceof Date ? row[field].getTime() : row[field]
+  if (condition instanceof Date) return value === condition.getTime()
+  if (condition && typeof condition === 'object') {
+    const bound = (key: string) => condition[key] instanceof Date ? condition[key].getTime() : condition[key]
+    if ('lt' in condition && !(value < bound('lt'))) return false
+    if ('lte' in condition && !(value <= bound('lte'))) return false
+    return true
+  }
+  return value === condition
+})
+
+// A declaration, so it exists when the hoisted mock below builds the client
+function mockFindMany(model: string, timeField: string) {
+  return jest.fn(async ({ where, take }: any) =>
+    (mockRows[model] || [])
+      .filter(row => mockMatches({ leadId: 'lead-1', ...row }, where))
+      .sort((a, b) => b[timeField].getTime() - a[timeField].getTime() || (a.id < b.id ? 1 : -1))
+      .slice(0, take))
+}
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => ({
+    activity: { findMany: mockFindMany('activity', 'createdAt') },
+    conversation: { findMany: mockFindMany('conversation', 'createdAt') },
+    callSession: { findMany: mockFindMany('callSession', 'createdAt') },
+    leadScore: { findMany: mockFindMany('leadScore', 'createdAt') },
+    journeyEvent: { findMany: mockFindMany('journeyEvent', 'occurredAt') },
+  })),
+}))
+
+const at = (minute: number) => new Date(Date.UTC(2025, 5, 2, 12, minute))
+
+// Every page of the lead's timeline, following cursors to the end
+const readAllPages = async (limit: number): Promise<TimelineEntry[][]> => {
+  const pages: TimelineEntry[][] = []
+  let cursor: string | undefined
+  do {
+    const page = await db.activity.getLeadTimeline('lead-1', { limit, cursor })
+    pages.push(page.entries)
+    cursor = page.nextCursor || undefined
+  } while (cursor && pages.length < 20)
+  return pages
+}
+
+describe('lead timeline', () => {
+  beforeEach(() => {
+    for (const model of Object.keys(mockRows)) delete mockRows[model]
+  })
+
+  describe('cursors', () => {
+    it('should order newest first and break timestamp ties by kind then id', () => {
+      const entries = [
+        { id: 'b', kind: 'conversation' as const, occurredAt: at(5) },
+        { id: 'a', kind: 'activity' as const, occurredAt: at(5) },
+        { id: 'c', kind: 'activity' as const, occurredAt: at(5) },
+        { id: 'z', kind: 'score' as const, occurredAt: at(9) },
+      ]
+
+      expect(entries.sort(compareTimelineEntries).map(e => `${e.kind}:${e.id}`))
+        .toEqual(['score:z', 'activity:c', 'activity:a', 'conversation:b'])
+    })
+
+    it('should round-trip cursors and reject malformed ones', () => {
+      const position = { id: 'act-1', kind: 'journey_event' as const, occurredAt: new Date('2025-06-02T12:00:00.123Z') }
+
+      expect(decodeTimelineCursor(encodeTimelineCursor(position))).toEqual(position)
+      expect(() => decodeTimelineCursor('not-a-cursor')).toThrow('Invalid timeline cursor')
+      expect(() => decodeTimelineCursor(Buffer.from('2025-06-02T12:00:00Z|email|x').toString('base64url'))).toThrow('Invalid timeline cursor')
+    })
+  })
+
+  describe('getLeadTimeline', () => {
+    it('should merge sources into one page with score deltas', async () => {
+      mockRows.activity = [{ id: 'act-1', createdAt: at(10), type: 'CALL', subject: 'Intro call' }]
+      mockRows.conversation = [{ id: 'conv-1', createdAt: at(20), direction: 'inbound', channel: 'sms', content: 'Yes, still selling' }]
+      mockRows.leadScore = [
+        { id: 'score-1', createdAt: at(5), score: 60, explanation: ['Low engagement'] },
+        { id: 'score-2', createdAt: at(15), score: 72, explanation: { summary: ['High engagement', 'Recent reply'], factors: {} } },
+      ]
+      mockRows.journeyEvent = [{ id: 'evt-1', occurredAt: at(1), eventName: 'Email Opened' }]
+
+      const page = await db.activity.getLeadTimeline('lead-1', { limit: 3 })
+
+      expect(page.entries.map(e => `${e.kind}:${e.id}`)).toEqual(['conversation:conv-1', 'score:score-2', 'activity:act-1'])
+      expect(page.entries[1].title).toBe('Score 72 (+12)')
+      expect(page.entries[1].summary).toBe('High engagement; Recent reply')
+
+      const next = await db.activity.getLeadTimeline('lead-1', { limit: 3, cursor: page.nextCursor! })
+      expect(next.entries.map(e => `${e.kind}:${e.id}`)).toEqual(['score:score-1', 'journey_event:evt-1'])
+      // Scores saved before the factor breakdown stored the lines as a bare array
+      expect(next.entries[0].summary).toBe('Low engagement')
+      expect(next.nextCursor).toBeNull()
+    })
+
+    it('should page through entries sharing a timestamp across sources without gaps or repeats', async () => {
+      // More same-time activities than fit on a page, with other kinds at that time and later
+      mockRows.activity = Array.from({ length: 7 }, (_, i) => ({ id: `act-${i}`, createdAt: at(30), type: 'NOTE' }))
+      mockRows.conversation = [
+        { id: 'conv-1', createdAt: at(30), direction: 'inbound', channel: 'email' },
+        { id: 'conv-2', createdAt: at(10), direction: 'outbound', channel: 'email' },
+      ]
+      mockRows.callSession = [{ id: 'call-1', createdAt: at(30), direction: 'OUTBOUND', status: 'COMPLETED' }]
+      mockRows.leadScore = [{ id: 'score-1', createdAt: at(45), score: 50 }, { id: 'score-2', createdAt: at(30), score: 55 }]
+
+      const pages = await readAllPages(3)
+      const seen = pages.flat().map(e => `${e.kind}:${e.id}`)
+
+      expect(pages.map(page => page.length)).toEqual([3, 3, 3, 3])
+      expect(seen).toEqual([
+        'score:score-1',
+        'activity:act-6', 'activity:act-5', 'activity:act-4', 'activity:act-3', 'activity:act-2', 'activity:act-1', 'activity:act-0',
+        'call:call-1', 'conversation:conv-1', 'score:score-2',
+        'conversation:conv-2',
+      ])
+    })
+  })
+})
@@ -0,0 +1,313 @@
+// LeadAI Pro - LLM Client Tests
+// Tests for provider selection, per-organization settings and offline fixture replay
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import { LLMClient } from '../../lib/llm/llmClient'
+import { resolveCompletionSettings, validateLLMConfig } from '../../lib/llm/llmConfig'
+import { runWithAIContext } from '../../lib/llm/aiContext'
+import { FixtureProvider, fixtureKey } from '../../lib/llm/providers/fixtureProvider'
+import { OpenAIProvider } from '../../lib/llm/providers/openAIProvider'
+import { AnthropicProvider } from '../../lib/llm/providers/anthropicProvider'
+import { s } from '../../lib/llm/schema'
+import { RealEstateAI } from '../../lib/ai/realEstateAI'
+import { llm } from '../../lib/llm/llmClient'
+import { LLMProvider, LLMOutputError, ResolvedCompletionRequest } from '../../lib/llm/types'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    organization: {
+      findUnique: jest.fn()
+    }
+  }
+}))
+
+const prompt = [{ role: 'user' as const, content: 'Score this lead' }]
+
+describe('resolveCompletionSettings', () => {
+  it('should use the feature defaults and the environment provider', () => {
+    const resolved = resolveCompletionSettings({ feature: 'realEstate.analyzeProperty', messages: prompt })
+
+    expect(resolved).toMatchObject({ provider: 'fixture', model: 'fixture', temperature: 0.2, maxTokens: 2000 })
+  })
+
+  it('should let organization settings override feature defaults, most specific first', () => {
+    const config = {
+      defaults: { provider: 'openai' as const, model: 'gpt-4o-mini', temperature: 0.5 },
+      features: {
+        'email.template': { provider: 'anthropic' as const, maxTokens: 900 },
+        'voice.command': { model: 'gpt-4o' },
+      },
+    }
+
+    expect(resolveCompletionSettings({ feature: 'email.template', messages: prompt }, config)).toMatchObject({
+      provider: 'anthropic',
+      model: 'claude-3-5-sonnet-latest',
+      temperature: 0.5,
+      maxTokens: 900,
+    })
+    expect(resolveCompletionSettings({ feature: 'voice.command', messages: prompt }, config)).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o',
+      maxTokens: 500,
+    })
+  })
+
+  it('should validate organization settings', () => {
+    expect(validateLLMConfig({ defaults: { provider: 'local', model: 'llama3.1' } })).toEqual([])
+    expect(validateLLMConfig({
+      defaults: { provider: 'gemini' as any, temperature: 3 },
+      features: { 'nope.feature': {} } as any,
+    })).toEqual([
+      'defaults: provider must be one of: openai, anthropic, local, fixture',
+      'defaults: temperature must be between 0 and 2',
+      'unknown feature "nope.feature"',
+    ])
+  })
+})
+
+describe('FixtureProvider', () => {
+  const request = (overrides: Partial<ResolvedCompletionRequest> = {}): ResolvedCompletionRequest => ({
+    feature: 'realEstate.scoreLead',
+    messages: prompt,
+    provider: 'fixture',
+    model: 'fixture',
+    temperature: 0.3,
+    maxTokens: 1500,
+    ...overrides,
+  })
+
+  it('should prefer exact prompt matches, then text matches, then the feature catch-all', async () => {
+    const provider = new FixtureProvider({
+      fixtures: [
+        { feature: 'realEstate.scoreLead', response: { score: 10 } },
+        { feature: 'realEstate.scoreLead', match: 'lead', response: { score: 50 } },
+        { feature: 'realEstate.scoreLead', key: fixtureKey('realEstate.scoreLead', prompt), response: { score: 90 } },
+      ],
+    })
+
+    expect((await provider.complete(request())).content).toBe('{"score":90}')
+    expect((await provider.complete(request({ messages: [{ role: 'user', content: 'another lead' }] }))).content).toBe('{"score":50}')
+    expect((await provider.complete(request({ messages: [{ role: 'user', content: 'other' }] }))).content).toBe('{"score":10}')
+  })
+
+  it('should fail in strict mode when no fixture matches', async () => {
+    const provider = new FixtureProvider({ strict: true })
+
+    await expect(provider.complete(request())).rejects.toThrow('No fixture for feature "realEstate.scoreLead"')
+    expect((await new FixtureProvider().complete(request())).content).toBe('{}')
+  })
+})
+
+describe('LLMClient', () => {
+  let captured: ResolvedCompletionRequest[]
+  let client: LLMClient
+
+  const recorder = (name: 'openai' | 'anthropic'): LLMProvider => ({
+    name,
+    complete: async (request) => {
+      captured.push(request)
+      return { content: 'ok', provider: name, model: request.model, usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } }
+    },
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    captured = []
+    client = new LLMClient(name => recorder(name as 'openai' | 'anthropic'))
+  })
+
+  it('should apply the organization of the current request', async () => {
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+      aiConfig: { llm: { features: { 'calling.script': { provider: 'anthropic', model: 'claude-3-5-haiku-latest' } } } },
+    })
+
+    await runWithAIContext({ organizationId: 'org-1' }, () =>
+      client.complete({ feature: 'calling.script', messages: prompt })
+    )
+    await runWithAIContext({ organizationId: 'org-1' }, () =>
+      client.complete({ feature: 'calling.realTimeCoaching', messages: prompt })
+    )
+
+    expect(captured[0]).toMatchObject({ provider: 'anthropic', model: 'claude-3-5-haiku-latest', organizationId: 'org-1' })
+    expect(captured[1]).toMatchObject({ provider: 'fixture', temperature: 0.3, maxTokens: 500 })
+    // The organization's settings are cached between calls
+    expect(prisma.organization.findUnique).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fall back to defaults when the organization config cannot be loaded', async () => {
+    ;(prisma.organization.findUnique as jest.Mock).mockRejectedValue(new Error('connection refused'))
+    client.setProvider(new FixtureProvider({ fixtures: [{ feature: 'voice.command', response: 'done' }] }))
+
+    const result = await client.complete({ feature: 'voice.command', messages: prompt, organizationId: 'org-2' })
+
+    expect(result).toMatchObject({ content: 'done', provider: 'fixture' })
+  })
+})
+
+describe('LLMClient.completeJSON', () => {
+  const schema = s.object({ score: s.number({ min: 0, max: 100 }), reasons: s.array(s.string()) })
+
+  // Replies in order, recording what the model was sent each time
+  const scripted = (replies: string[]) => {
+    const sent: ResolvedCompletionRequest[] = []
+    const client = new LLMClient(() => ({
+      name: 'fixture',
+      complete: async (request) => {
+        sent.push(request)
+        return { content: replies[sent.length - 1], provider: 'fixture', model: 'fixture', usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } }
+      },
+    }))
+    return { client, sent }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue(null)
+  })
+
+  it('should return validated data and describe the shape to the model', async () => {
+    const { client, sent } = scripted(['```json\n{"score": "85", "reasons": ["equity"]}\n```'])
+
+    const result = await client.completeJSON({ feature: 'realEstate.scoreLead', messages: prompt, schema })
+
+    expect(result).toMatchObject({ data: { score: 85, reasons: ['equity'] }, attempts: 1 })
+    expect(sent[0].messages[0].role).toBe('system')
+    expect(sent[0].messages[0].content).toContain('"score": "number (0-100)"')
+  })
+
+  it('should send a repair prompt listing the problems and accept the corrected reply', async () => {
+    const { client, sent } = scripted(['Sure! The score is high.', '{"score": 140, "reasons": []}', '{"score": 90, "reasons": []}'])
+
+    const result = await client.completeJSON({ feature: 'realEstate.scoreLead', messages: prompt, schema, maxRepairs: 2 })
+
+    expect(result).toMatchObject({ data: { score: 90 }, attempts: 3 })
+    expect(sent[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: 'Sure! The score is high.' },
+      expect.objectContaining({ role: 'user', content: expect.stringContaining('reply is not valid JSON') }),
+    ])
+    expect(sent[2].messages[sent[2].messages.length - 1].content).toContain('- score: must be between 0 and 100')
+  })
+
+  it('should throw LLMOutputError with the raw replies when repairs run out', async () => {
+    const { client } = scripted(['{"reasons": "none"}', '{"score": null}'])
+
+    const error = await client.completeJSON({ feature: 'realEstate.scoreLead', messages: prompt, schema })
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(LLMOutputError)
+    expect(error).toMatchObject({
+      feature: 'realEstate.scoreLead',
+      issues: ['score: expected number, got null', 'reasons: expected array, got undefined'],
+      rawText: '{"score": null}',
+    })
+    expect(error.attempts.map((a: any) => a.content)).toEqual(['{"reasons": "none"}', '{"score": null}'])
+  })
+
+  it('should no longer turn a malformed deal analysis into a cash purchase', async () => {
+    const fixtures = new FixtureProvider({
+      fixtures: [{ feature: 'realEstate.dealStructure', response: { financingOptions: [], exitStrategies: [] } }],
+    })
+    llm.setProvider(fixtures)
+
+    const property = { id: 'p-1', address: { street: '12 Elm St' }, valuation: { estimatedValue: 250000 } } as any
+    const analysis = new RealEstateAI().analyzeDealStructure(property, {}, {})
+
+    await expect(analysis).rejects.toBeInstanceOf(LLMOutputError)
+    await expect(analysis).rejects.toMatchObject({
+      issues: expect.arrayContaining(['recommendedStructure: expected string, got undefined']),
+    })
+
+    fixtures.add({
+      feature: 'realEstate.dealStructure',
+      response: {
+        recommendedStructure: 'Subject-to with seller carry',
+        financingOptions: [{ type: 'seller carry', downPayment: 15000, interestRate: 5, loanTerm: 60, monthlyPayment: 1100, totalCost: 81000, pros: [], cons: [] }],
+        exitStrategies: [{ strategy: 'rental', timeline: '5 years', expectedReturn: 0.12, riskLevel: 'medium', requirements: [] }],
+        recommendations: ['Verify the existing loan balance'],
+      },
+    })
+
+    await expect(new RealEstateAI().analyzeDealStructure(property, {}, {})).resolves.toMatchObject({
+      recommendedStructure: 'Subject-to with seller carry',
+    })
+  })
+})
+
+describe('HTTP providers', () => {
+  const originalFetch = global.fetch
+  let fetchMock: jest.Mock
+
+  const request: ResolvedCompletionRequest = {
+    feature: 'email.template',
+    messages: [
+      { role: 'system', content: 'You write emails.' },
+      { role: 'user', content: 'Write one.' },
+    ],
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 1500,
+  }
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock as any
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('should call OpenAI-compatible endpoints and map usage', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'llama3.1',
+        choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      }),
+    })
+
+    const provider = new OpenAIProvider({ name: 'local', baseUrl: 'http://localhost:11434/v1/' })
+    const result = await provider.complete({ ...request, provider: 'local', model: 'llama3.1' })
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, any]
+    expect(url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(init.headers).not.toHaveProperty('Authorization')
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1', temperature: 0.7, max_tokens: 1500 })
+    expect(result).toMatchObject({ content: 'Hello', provider: 'local', usage: { totalTokens: 15 } })
+  })
+
+  it('should send system prompts separately to Anthropic and surface API errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'claude-3-5-sonnet-latest',
+          content: [{ type: 'text', text: 'Hi there' }],
+          usage: { input_tokens: 20, output_tokens: 5 },
+          stop_reason: 'end_turn',
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        json: async () => ({ error: { message: 'rate limited' } }),
+      })
+
+    const provider = new AnthropicProvider({ apiKey: 'test-key' })
+    const result = await provider.complete({ ...request, provider: 'anthropic' })
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body)
+    expect(body.system).toBe('You write emails.')
+    expect(body.messages).toEqual([{ role: 'user', content: 'Write one.' }])
+    expect(result).toMatchObject({ content: 'Hi there', usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 } })
+
+    await expect(provider.complete({ ...request, provider: 'anthropic' })).rejects.toMatchObject({
+      name: 'LLMProviderError',
+      status: 429,
+    })
+  })
+})
@@ -0,0 +1,75 @@
+// LeadAI Pro - LLM Output Schema Tests
+// Tests for schema validation of model replies and JSON extraction
+
+import { describe, it, expect } from '@jest/globals'
+import { s, validateAgainst, extractJSON } from '../../lib/llm/schema'
+
+const dealSchema = s.object({
+  recommendedStructure: s.string({ min: 1 }),
+  financingOptions: s.array(s.object({
+    type: s.string({ min: 1 }),
+    downPayment: s.number({ min: 0 }),
+  }), { min: 1 }),
+  riskLevel: s.enum(['low', 'medium', 'high'] as const),
+  notes: s.string().optional(),
+})
+
+describe('validateAgainst', () => {
+  it('should return typed values, coercing numeric strings and enum casing', () => {
+    const { value, issues } = validateAgainst(dealSchema, {
+      recommendedStructure: 'seller financing',
+      financingOptions: [{ type: 'hard money', downPayment: '20000' }],
+      riskLevel: 'Medium',
+      notes: null,
+      extra: 'dropped',
+    })
+
+    expect(issues).toEqual([])
+    expect(value).toEqual({
+      recommendedStructure: 'seller financing',
+      financingOptions: [{ type: 'hard money', downPayment: 20000 }],
+      riskLevel: 'medium',
+    })
+  })
+
+  it('should report every problem with its path', () => {
+    const { issues } = validateAgainst(dealSchema, {
+      recommendedStructure: '',
+      financingOptions: [{ type: 'cash', downPayment: -5 }, { downPayment: 'lots' }],
+      riskLevel: 'extreme',
+    })
+
+    expect(issues).toEqual([
+      'recommendedStructure: must not be empty',
+      'financingOptions[0].downPayment: must be between 0 and ∞',
+      'financingOptions[1].type: expected string, got undefined',
+      'financingOptions[1].downPayment: expected number, got string',
+      'riskLevel: expected one of low, medium, high, got "extreme"',
+    ])
+    expect(validateAgainst(dealSchema, []).issues).toEqual(['response: expected object, got array'])
+  })
+
+  it('should parse dates and describe the expected shape', () => {
+    const timing = s.object({ nextContactTime: s.date(), channel: s.string().optional() })
+
+    expect(validateAgainst(timing, { nextContactTime: '2026-03-02T15:00:00Z' }).value.nextContactTime)
+      .toEqual(new Date('2026-03-02T15:00:00Z'))
+    expect(validateAgainst(timing, { nextContactTime: 'next Tuesday' }).issues)
+      .toEqual(['nextContactTime: expected an ISO date, got "next Tuesday"'])
+    expect(timing.describe()).toEqual({ nextContactTime: 'ISO 8601 date-time string', channel: 'string (optional)' })
+  })
+})
+
+describe('extractJSON', () => {
+  it('should accept bare JSON, code fences and surrounding prose', () => {
+    expect(extractJSON('{"score": 80}')).toEqual({ score: 80 })
+    expect(extractJSON('```json\n[1, 2]\n```')).toEqual([1, 2])
+    expect(extractJSON('Here is the analysis: {"score": 80}. Let me know!')).toEqual({ score: 80 })
+    expect(extractJSON('72')).toBe(72)
+  })
+
+  it('should throw when there is no JSON', () => {
+    expect(() => extractJSON('I cannot help with that.')).toThrow('Reply does not contain JSON')
+    expect(() => extractJSON('{"score": 80')).toThrow(SyntaxError)
+  })
+})
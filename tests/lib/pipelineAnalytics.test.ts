@@ -0,0 +1,141 @@
+// LeadAI Pro - Pipeline Analytics Tests
+// Tests for period resolution, funnel conversion and source ROI
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  PipelineAnalytics,
+  resolveDateRange,
+  previousPeriod,
+  percentChange,
+  buildFunnel,
+} from '../../lib/analytics/pipelineAnalytics'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    organization: { findUnique: jest.fn() },
+    lead: { groupBy: jest.fn(), aggregate: jest.fn() }
+  }
+}))
+
+describe('PipelineAnalytics', () => {
+  const now = new Date('2025-06-30T12:00:00Z')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('periods', () => {
+    it('should resolve named ranges relative to now', () => {
+      const week = resolveDateRange('week', undefined, undefined, now)
+
+      expect(week.end).toEqual(now)
+      expect(week.start).toEqual(new Date('2025-06-23T12:00:00Z'))
+    })
+
+    it('should prefer explicit dates and default to 30 days', () => {
+      const explicit = resolveDateRange('week', '2025-01-01', '2025-02-01', now)
+      expect(explicit.start).toEqual(new Date('2025-01-01'))
+
+      const fallback = resolveDateRange(undefined, undefined, undefined, now)
+      expect(now.getTime() - fallback.start.getTime()).toBe(30 * 24 * 60 * 60 * 1000)
+    })
+
+    it('should compute the previous period of equal length', () => {
+      const previous = previousPeriod({ start: new Date('2025-06-01'), end: new Date('2025-06-11') })
+
+      expect(previous).toEqual({ start: new Date('2025-05-22'), end: new Date('2025-06-01') })
+    })
+
+    it('should compute percent change with empty baselines', () => {
+      expect(percentChange(15, 10)).toBe(50)
+      expect(percentChange(0, 0)).toBe(0)
+      expect(percentChange(5, 0)).toBeNull()
+    })
+  })
+
+  describe('buildFunnel', () => {
+    it('should count leads that reached each stage cumulatively', () => {
+      const funnel = buildFunnel({
+        new: 50,
+        contacted: 20,
+        qualified: 15,
+        proposal: 10,
+        negotiation: 3,
+        closed_won: 2,
+        closed_lost: 6,
+        nurturing: 4,
+      })
+
+      expect(funnel.stages.map(s => s.reached)).toEqual([100, 50, 30, 15, 5, 2])
+      expect(funnel.stages[1].conversionFromPrevious).toBe(50)
+      expect(funnel.stages[5].conversionFromStart).toBe(2)
+      expect(funnel.winRate).toBe(25)
+      expect(funnel.nurturing).toBe(4)
+    })
+
+    it('should handle an empty pipeline', () => {
+      const funnel = buildFunnel({})
+
+      expect(funnel.stages.every(s => s.reached === 0)).toBe(true)
+      expect(funnel.winRate).toBeNull()
+    })
+  })
+
+  describe('getSourceROI', () => {
+    it('should join conversions and configured costs per source and campaign', async () => {
+      ;(prisma.organization.findUnique as jest.Mock).mockResolvedValue({
+        settings: { analytics: { sourceCosts: { direct_mail: 1000 }, campaignCosts: { 'probate-q2': 400 } } }
+      })
+      ;(prisma.lead.groupBy as jest.Mock)
+        .mockResolvedValueOnce([
+          { source: 'direct_mail', campaign: null, _count: { _all: 40 } },
+          { source: 'direct_mail', campaign: 'probate-q2', _count: { _all: 10 } },
+          { source: null, campaign: null, _count: { _all: 5 } },
+        ])
+        .mockResolvedValueOnce([
+          { source: 'direct_mail', campaign: null, _count: { _all: 2 }, _sum: { predictedValue: 30000 } },
+        ])
+
+      const rows = await new PipelineAnalytics().getSourceROI(
+        { organizationId: 'org-1' },
+        { start: new Date('2025-06-01'), end: now }
+      )
+
+      expect(rows[0]).toMatchObject({
+        source: 'direct_mail',
+        campaign: null,
+        leads: 40,
+        converted: 2,
+        conversionRate: 5,
+        revenue: 30000,
+        cost: 1000,
+        roi: 2900,
+        costPerLead: 25,
+        costPerAcquisition: 500,
+      })
+      expect(rows.find(r => r.campaign === 'probate-q2')).toMatchObject({ cost: 400, roi: -100 })
+      expect(rows.find(r => r.source === 'unknown')).toMatchObject({ cost: null, roi: null })
+    })
+  })
+
+  describe('getLeadSummary', () => {
+    it('should count only the rep\'s own leads for a rep scope', async () => {
+      ;(prisma.lead.groupBy as jest.Mock).mockResolvedValue([
+        { status: 'new', _count: { _all: 6 } },
+        { status: 'qualified', _count: { _all: 2 } },
+        { status: 'proposal', _count: { _all: 1 } },
+        { status: 'closed_won', _count: { _all: 1 } },
+      ])
+      ;(prisma.lead.aggregate as jest.Mock).mockResolvedValue({ _avg: { currentScore: 62 } })
+      const range = { start: new Date('2025-06-01'), end: now }
+
+      const summary = await new PipelineAnalytics().getLeadSummary({ organizationId: 'org-1', userId: 'rep-1' }, range)
+
+      const where = { organizationId: 'org-1', assignedTo: 'rep-1', createdAt: { gte: range.start, lte: range.end } }
+      expect((prisma.lead.groupBy as jest.Mock).mock.calls[0][0]).toMatchObject({ where })
+      expect(prisma.lead.aggregate).toHaveBeenCalledWith({ where, _avg: { currentScore: true } })
+      expect(summary).toEqual({ totalLeads: 10, qualifiedLeads: 3, convertedLeads: 1, conversionRate: 10, averageScore: 62 })
+    })
+  })
+})
@@ -0,0 +1,137 @@
+// LeadAI Pro - Pipeline Definition Tests
+// Tests for pipeline validation, stage transitions and stage-entry automations
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  DEFAULT_PIPELINES,
+  validatePipelineDefinitions,
+  resolvePipeline,
+  resolveCurrentStage,
+  getStage,
+  getNextStage,
+  checkTransition,
+  PipelineDefinition,
+} from '../../lib/pipelines/pipelineDefinitions'
+import { planStageAutomations } from '../../lib/pipelines/pipelineService'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {}
+}))
+
+describe('Pipeline definitions', () => {
+  const seller = resolvePipeline(DEFAULT_PIPELINES, 'SELLER')
+  const stage = (pipeline: PipelineDefinition, key: string) => getStage(pipeline, key)!
+
+  describe('validatePipelineDefinitions', () => {
+    it('should accept the default pipelines', () => {
+      expect(validatePipelineDefinitions(DEFAULT_PIPELINES)).toEqual([])
+    })
+
+    it('should report bad stages, fields, lead types and automations', () => {
+      const errors = validatePipelineDefinitions([
+        {
+          id: 'sellers',
+          name: 'Sellers',
+          leadTypes: ['SELLER', 'SELLER' as any],
+          allowBackwardMoves: false,
+          stages: [
+            { key: 'new', label: 'New', allowedBackTo: ['offer'] },
+            { key: 'offer', label: 'Offer', requiredFields: ['askingPrice'], status: 'won' as any },
+            { key: 'offer', label: 'Duplicate', automations: [{ type: 'set_follow_up', inDays: -1 }] },
+          ],
+        },
+      ])
+
+      expect(errors).toEqual([
+        'Pipeline "sellers": lead type SELLER is already handled by "sellers"',
+        'Pipeline "sellers" stage "new": allowedBackTo must reference an earlier stage, got "offer"',
+        'Pipeline "sellers" stage "offer": unknown status "won"',
+        'Pipeline "sellers" stage "offer": unknown required field "askingPrice"',
+        'Pipeline "sellers" stage "offer": duplicate stage key',
+        'Pipeline "sellers" stage "offer": set_follow_up automation requires a non-negative inDays',
+      ])
+    })
+  })
+
+  describe('resolving stages', () => {
+    it('should route lead types to their pipeline and fall back to the default', () => {
+      expect(seller.id).toBe('seller')
+      expect(resolvePipeline(DEFAULT_PIPELINES, 'INVESTOR').id).toBe('buyer')
+      expect(resolvePipeline(DEFAULT_PIPELINES, 'LENDER').id).toBe('default')
+      expect(resolvePipeline(DEFAULT_PIPELINES, null).id).toBe('default')
+    })
+
+    it('should map legacy stages through the lead status', () => {
+      expect(resolveCurrentStage(seller, { stage: 'prospect', status: 'qualified' }).key).toBe('appointment_set')
+      expect(resolveCurrentStage(seller, { stage: 'prospect', status: 'nurturing' }).key).toBe('new_lead')
+      expect(resolveCurrentStage(seller, { stage: 'offer', status: 'new' }).key).toBe('offer')
+    })
+
+    it('should advance like the old status progression in the default pipeline', () => {
+      const pipeline = resolvePipeline(DEFAULT_PIPELINES)
+      const keys = ['new']
+      let current = stage(pipeline, 'new')
+      let next
+      while ((next = getNextStage(pipeline, current))) {
+        keys.push(next.key)
+        current = next
+      }
+
+      expect(keys).toEqual(['new', 'contacted', 'qualified', 'proposal', 'negotiation', 'closed_won'])
+    })
+  })
+
+  describe('checkTransition', () => {
+    it('should require fields of the target stage and any stage skipped over', () => {
+      const lead = { motivationLevel: 'HIGH', timeframe: null, priceExpectation: 185000 }
+      const check = checkTransition(seller, stage(seller, 'contacted'), stage(seller, 'under_contract'), lead)
+
+      expect(check.allowed).toBe(false)
+      expect(check.missingFields).toEqual(['timeframe', 'propertyCondition'])
+    })
+
+    it('should allow moving to a lost stage without required fields', () => {
+      expect(checkTransition(seller, stage(seller, 'contacted'), stage(seller, 'dead'), {}).allowed).toBe(true)
+    })
+
+    it('should only allow configured backwards moves', () => {
+      expect(checkTransition(seller, stage(seller, 'under_contract'), stage(seller, 'offer'), {}).allowed).toBe(true)
+      expect(checkTransition(seller, stage(seller, 'under_contract'), stage(seller, 'contacted'), {})).toMatchObject({
+        allowed: false,
+        reason: 'Moving back from "Under Contract" to "Contacted" is not allowed',
+      })
+      expect(checkTransition(seller, stage(seller, 'dead'), stage(seller, 'new_lead'), {}).allowed).toBe(false)
+
+      const buyer = resolvePipeline(DEFAULT_PIPELINES, 'BUYER')
+      expect(checkTransition(buyer, stage(buyer, 'dead'), stage(buyer, 'contacted'), {}).allowed).toBe(true)
+    })
+  })
+
+  describe('planStageAutomations', () => {
+    it('should plan tasks, follow-ups and tags relative to now', () => {
+      const now = new Date('2025-06-01T09:00:00Z')
+      const plan = planStageAutomations(
+        {
+          key: 'offer',
+          label: 'Offer',
+          automations: [
+            { type: 'create_task', subject: 'Send contract', dueInDays: 1 },
+            { type: 'set_follow_up', inDays: 3 },
+            { type: 'add_tags', tags: ['offer-sent', 'hot'] },
+          ],
+        },
+        { tags: ['hot'] },
+        now
+      )
+
+      expect(plan.tasks).toEqual([
+        { subject: 'Send contract', description: undefined, scheduledAt: new Date('2025-06-02T09:00:00Z') },
+      ])
+      expect(plan.leadUpdates).toEqual({
+        nextFollowUpAt: new Date('2025-06-04T09:00:00Z'),
+        tags: ['hot', 'offer-sent'],
+      })
+      expect(plan.applied).toEqual(['create_task', 'set_follow_up', 'add_tags'])
+    })
+  })
+})
@@ -0,0 +1,264 @@
+// LeadAI Pro - Property Records Tests
+// Tests for property search filters, facets, equity, owners, lead links, nearby lookups and market figures
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { prisma } from '../../lib/database'
+import {
+  buildPropertyWhere,
+  buildPropertyOrderBy,
+  buildFacetCounts,
+  propertyEquity,
+  validatePropertyInput,
+  validatePropertyOwnerInput,
+  validatePropertySearchFilters,
+} from '../../lib/properties/propertySearch'
+import { boundingBox, buildMarketInsights, distanceMiles } from '../../lib/properties/propertyMarket'
+import { PropertyService } from '../../lib/properties/propertyService'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    property: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn()
+    },
+    propertyOwner: {
+      findFirst: jest.fn()
+    },
+    lead: {
+      updateMany: jest.fn(),
+      findUnique: jest.fn()
+    }
+  }
+}))
+
+const mockPrisma = prisma as any
+
+describe('property validation', () => {
+  it('should require an address and type on create and check only given fields on update', () => {
+    expect(validatePropertyInput({})).toHaveLength(5)
+    expect(validatePropertyInput({ bedrooms: -1, yearBuilt: 20, status: 'LISTED' as any }, true)).toEqual([
+      'status must be one of: AVAILABLE, UNDER_CONTRACT, SOLD, OFF_MARKET, FORECLOSURE, PRE_FORECLOSURE, AUCTION, REO, WHOLESALE',
+      'bedrooms must be a non-negative number',
+      'yearBuilt must be a year'
+    ])
+  })
+
+  it('should check coordinates and require them together', () => {
+    expect(validatePropertyInput({ latitude: 95, longitude: -84.39 }, true)).toEqual(['latitude must be between -90 and 90'])
+    expect(validatePropertyInput({ latitude: 33.75 }, true)).toEqual(['latitude and longitude must be given together'])
+    expect(validatePropertyInput({ latitude: null, longitude: null }, true)).toEqual([])
+  })
+
+  it('should require an owner to be named', () => {
+    expect(validatePropertyOwnerInput({ ownershipPercent: 150 })).toEqual([
+      'An owner needs a first name, last name or company name',
+      'ownershipPercent must be between 0 and 100'
+    ])
+    expect(validatePropertyOwnerInput({ companyName: 'Elm Holdings LLC', ownerType: 'LLC' })).toEqual([])
+  })
+
+  it('should check search filters', () => {
+    expect(validatePropertySearchFilters({ minPrice: '100k', propertyTypes: ['CASTLE'], hasEquity: true })).toEqual([
+      'minPrice must be a number',
+      'propertyTypes must be a list of: SINGLE_FAMILY, MULTI_FAMILY, CONDO, TOWNHOUSE, MOBILE_HOME, LAND, COMMERCIAL, MIXED_USE, OTHER'
+    ])
+  })
+})
+
+describe('propertyEquity', () => {
+  it('should need both market value and mortgage balance', () => {
+    expect(propertyEquity(250000, 100000)).toEqual({ equity: 150000, equityPercent: 60 })
+    expect(propertyEquity(250000, null)).toEqual({ equity: null, equityPercent: null })
+    expect(propertyEquity(200000, 230000)).toEqual({ equity: -30000, equityPercent: -15 })
+  })
+})
+
+describe('property market', () => {
+  const atlanta = { latitude: 33.749, longitude: -84.388 }
+  const decatur = { latitude: 33.7748, longitude: -84.2963 }
+
+  it('should measure distances in miles and box every point within the radius', () => {
+    expect(distanceMiles(atlanta, decatur)).toBeCloseTo(5.56, 1)
+    expect(distanceMiles(atlanta, atlanta)).toBe(0)
+
+    const box = boundingBox(atlanta, 6)
+    expect(decatur.latitude).toBeGreaterThanOrEqual(box.latitude.gte)
+    expect(decatur.latitude).toBeLessThanOrEqual(box.latitude.lte)
+    expect(decatur.longitude).toBeGreaterThanOrEqual(box.longitude.gte)
+    expect(decatur.longitude).toBeLessThanOrEqual(box.longitude.lte)
+    expect(boundingBox({ latitude: 89.99, longitude: 0 }, 50).latitude.lte).toBe(90)
+  })
+
+  it('should summarize prices, rents and equity, skipping missing values', () => {
+    const property = { listPrice: null, marketValue: null, monthlyRent: null, squareFootage: null, equityPercent: null, status: 'AVAILABLE', propertyType: 'SINGLE_FAMILY', occupancyStatus: 'UNKNOWN' }
+    const insights = buildMarketInsights([
+      { ...property, listPrice: 200000, marketValue: 210000, squareFootage: 1000, monthlyRent: 1500, equityPercent: 40 },
+      { ...property, marketValue: 300000, squareFootage: 1500, monthlyRent: 2500, occupancyStatus: 'VACANT' },
+      { ...property, listPrice: 250000, equityPercent: 20, status: 'SOLD', propertyType: 'CONDO' },
+    ])
+
+    expect(insights).toEqual({
+      propertyCount: 3,
+      medianPrice: 250000,
+      medianMarketValue: 255000,
+      averagePricePerSquareFoot: 200,
+      medianMonthlyRent: 2000,
+      grossRentYield: 9.6,
+      averageEquityPercent: 30,
+      vacantCount: 1,
+      byStatus: { AVAILABLE: 2, SOLD: 1 },
+      byPropertyType: { SINGLE_FAMILY: 2, CONDO: 1 },
+    })
+    expect(buildMarketInsights([]).medianPrice).toBeNull()
+  })
+})
+
+describe('buildPropertyWhere', () => {
+  const filters = {
+    minPrice: 100000,
+    maxPrice: 300000,
+    minBeds: 3,
+    minBaths: 2,
+    propertyTypes: ['SINGLE_FAMILY' as const],
+    statuses: ['AVAILABLE' as const],
+    hasEquity: true,
+    minEquityPercent: 30
+  }
+
+  it('should scope to the organization and combine filters', () => {
+    expect(buildPropertyWhere('org-1', filters)).toEqual({
+      organizationId: 'org-1',
+      bedrooms: { gte: 3 },
+      bathrooms: { gte: 2 },
+      propertyType: { in: ['SINGLE_FAMILY'] },
+      status: { in: ['AVAILABLE'] },
+      AND: [
+        // Unlisted properties match on market value
+        { OR: [{ listPrice: { gte: 100000, lte: 300000 } }, { listPrice: null, marketValue: { gte: 100000, lte: 300000 } }] },
+        { equity: { gt: 0 } },
+        { equityPercent: { gte: 30 } }
+      ]
+    })
+  })
+
+  it('should drop the counted facet from its own clause', () => {
+    const where = buildPropertyWhere('org-1', filters, 'propertyType')
+
+    expect(where.propertyType).toBeUndefined()
+    expect(where.status).toEqual({ in: ['AVAILABLE'] })
+  })
+
+  it('should sort missing values last and list every facet value', () => {
+    expect(buildPropertyOrderBy('listPrice', 'asc')).toEqual([{ listPrice: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }])
+    expect(buildPropertyOrderBy()).toEqual([{ updatedAt: 'desc' }, { id: 'asc' }])
+    expect(buildFacetCounts('occupancyStatus', [{ occupancyStatus: 'VACANT', _count: { _all: 4 } }])).toEqual({
+      OWNER_OCCUPIED: 0, TENANT_OCCUPIED: 0, VACANT: 4, UNKNOWN: 0
+    })
+  })
+})
+
+describe('PropertyService', () => {
+  let service: PropertyService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new PropertyService()
+  })
+
+  it('should return a page of results with facet counts', async () => {
+    mockPrisma.property.findMany.mockResolvedValue([{ id: 'property-1' }])
+    mockPrisma.property.count.mockResolvedValue(41)
+    mockPrisma.property.groupBy.mockImplementation(async ({ by }: any) =>
+      by[0] === 'propertyType' ? [{ propertyType: 'SINGLE_FAMILY', _count: { _all: 30 } }, { propertyType: 'CONDO', _count: { _all: 11 } }] : [])
+
+    const result = await service.search('org-1', { propertyTypes: ['CONDO'] }, { page: 3, limit: 20, sortBy: 'equity' })
+
+    expect(mockPrisma.property.findMany).toHaveBeenCalledWith(expect.objectContaining({ skip: 40, take: 20 }))
+    expect(result.pagination).toEqual({ page: 3, limit: 20, total: 41, pages: 3 })
+    // The type facet ignores the type filter so other types still show counts
+    expect(mockPrisma.property.groupBy.mock.calls[0][0].where.propertyType).toBeUndefined()
+    expect(result.facets.propertyType).toMatchObject({ SINGLE_FAMILY: 30, CONDO: 11, LAND: 0 })
+  })
+
+  it('should recompute equity when market value changes', async () => {
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1', marketValue: 200000, mortgageBalance: 50000 })
+
+    await service.update('org-1', 'property-1', { marketValue: 250000 })
+
+    expect(mockPrisma.property.update.mock.calls[0][0].data).toMatchObject({ marketValue: 250000, equity: 200000, equityPercent: 80 })
+  })
+
+  it('should refuse to delete a property that has deals', async () => {
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1', _count: { deals: 2 } })
+
+    await expect(service.delete('org-1', 'property-1')).rejects.toMatchObject({ code: 'invalid_state' })
+    expect(mockPrisma.property.delete).not.toHaveBeenCalled()
+  })
+
+  it('should link a lead in the organization to the property and owner', async () => {
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1' })
+    mockPrisma.propertyOwner.findFirst.mockResolvedValue({ id: 'owner-1' })
+    mockPrisma.lead.updateMany.mockResolvedValue({ count: 1 })
+
+    await service.linkLead('org-1', 'property-1', 'lead-1', 'owner-1')
+
+    expect(mockPrisma.propertyOwner.findFirst).toHaveBeenCalledWith({
+      where: { id: 'owner-1', propertyId: 'property-1', property: { organizationId: 'org-1' } },
+      select: { id: true }
+    })
+    expect(mockPrisma.lead.updateMany).toHaveBeenCalledWith({
+      where: { id: 'lead-1', organizationId: 'org-1' },
+      data: { propertyId: 'property-1', propertyOwnerId: 'owner-1' }
+    })
+  })
+
+  it('should return properties within the radius nearest first', async () => {
+    mockPrisma.property.findMany.mockResolvedValue([
+      { id: 'far', latitude: 33.95, longitude: -84.55 },
+      { id: 'decatur', latitude: 33.7748, longitude: -84.2963 },
+      { id: 'downtown', latitude: 33.7537, longitude: -84.3863 },
+    ])
+
+    const results = await service.nearby('org-1', { latitude: 33.749, longitude: -84.388 }, 10, { minBeds: 3 })
+
+    expect(results.map(property => property.id)).toEqual(['downtown', 'decatur'])
+    expect(results[0].distance).toBeLessThan(1)
+    const where = mockPrisma.property.findMany.mock.calls[0][0].where
+    expect(where).toMatchObject({ organizationId: 'org-1', bedrooms: { gte: 3 }, latitude: expect.any(Object), longitude: expect.any(Object) })
+  })
+
+  it('should group nearby properties by city', async () => {
+    mockPrisma.property.findMany.mockResolvedValue([
+      { city: 'Decatur', state: 'GA', latitude: 33.7748, longitude: -84.2963 },
+      { city: 'Atlanta', state: 'GA', latitude: 33.76, longitude: -84.39 },
+      { city: 'Atlanta', state: 'GA', latitude: 33.7537, longitude: -84.3863 },
+    ])
+
+    const cities = await service.nearbyLocations('org-1', { latitude: 33.749, longitude: -84.388 }, 25)
+
+    expect(cities.map(city => [city.name, city.propertyCount])).toEqual([['Atlanta', 2], ['Decatur', 1]])
+  })
+
+  it('should only list recent properties with equity as trending', async () => {
+    const clock = { now: () => new Date('2025-06-30T00:00:00Z') }
+    mockPrisma.property.findMany.mockResolvedValue([])
+
+    await new PropertyService(clock).trending('org-1', 30)
+
+    expect(mockPrisma.property.findMany.mock.calls[0][0]).toMatchObject({
+      where: { organizationId: 'org-1', AND: [{ equity: { gt: 0 } }], createdAt: { gte: new Date('2025-05-31T00:00:00Z') } },
+      orderBy: [{ equityPercent: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+    })
+  })
+
+  it('should 404 leads outside the organization', async () => {
+    mockPrisma.property.findFirst.mockResolvedValue({ id: 'property-1' })
+    mockPrisma.lead.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(service.linkLead('org-1', 'property-1', 'lead-9')).rejects.toMatchObject({ code: 'not_found', resource: 'Lead' })
+  })
+})
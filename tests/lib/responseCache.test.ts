@@ -0,0 +1,240 @@
+// LeadAI Pro - AI Response Cache Tests
+// Tests for cache backends, semantic cache keys and reuse of model replies
+
+import net from 'net'
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals'
+import { MemoryCacheBackend, hashInput } from '../../lib/cache/cacheBackend'
+import { RedisCacheBackend } from '../../lib/cache/redisCacheBackend'
+import { AIResponseCache, cacheTags } from '../../lib/llm/responseCache'
+import { LLMClient } from '../../lib/llm/llmClient'
+import { s } from '../../lib/llm/schema'
+import { LLMProvider, UsageMeter } from '../../lib/llm/types'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {
+    organization: {
+      findUnique: jest.fn(async () => ({ aiConfig: {} }))
+    }
+  }
+}))
+
+// Local stand-in for Redis: the commands the backend uses, over the real protocol
+const startRedisStandIn = (password: string) => {
+  const strings = new Map<string, string>()
+  const sets = new Map<string, Set<string>>()
+  const commands: string[][] = []
+
+  const bulk = (value: string | null) => value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  const answer = (args: string[], authed: boolean): string => {
+    const [name, ...rest] = args
+    if (name === 'AUTH') return rest[rest.length - 1] === password ? '+OK\r\n' : '-WRONGPASS invalid password\r\n'
+    if (!authed) return '-NOAUTH Authentication required.\r\n'
+
+    switch (name) {
+      case 'SELECT':
+        return '+OK\r\n'
+      case 'GET':
+        return bulk(strings.get(rest[0]) ?? null)
+      case 'SET':
+        strings.set(rest[0], rest[1])
+        return '+OK\r\n'
+      case 'DEL': {
+        const deleted = rest.filter(key => strings.delete(key) || sets.delete(key)).length
+        return `:${deleted}\r\n`
+      }
+      case 'SADD':
+        if (!sets.has(rest[0])) sets.set(rest[0], new Set())
+        rest.slice(1).forEach(member => sets.get(rest[0])!.add(member))
+        return ':1\r\n'
+      case 'SMEMBERS': {
+        const members = [...(sets.get(rest[0]) || [])]
+        return `*${members.length}\r\n` + members.map(bulk).join('')
+      }
+      case 'EXPIRE':
+        return ':1\r\n'
+      default:
+        return `-ERR unknown command '${name}'\r\n`
+    }
+  }
+
+  const server = net.createServer(socket => {
+    let authed = false
+    let buffer = ''
+    socket.on('data', chunk => {
+      buffer += chunk.toString()
+      // Requests are arrays of bulk strings: *<n>, then $<len> and the value for each
+      while (buffer.startsWith('*')) {
+        const lines = buffer.split('\r\n')
+        const count = Number(lines[0].slice(1))
+        if (lines.length < 1 + count * 2 + 1) return
+        const args = Array.from({ length: count }, (_, i) => lines[2 + i * 2])
+        buffer = lines.slice(1 + count * 2).join('\r\n')
+
+        commands.push(args)
+        if (args[0] === 'AUTH' && args[args.length - 1] === password) authed = true
+        socket.write(answer(args, authed))
+      }
+    })
+  })
+
+  return { server, strings, commands }
+}
+
+describe('MemoryCacheBackend', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should expire entries after their TTL', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-18T12:00:00Z') })
+    const cache = new MemoryCacheBackend()
+
+    await cache.set('a', 'one', 60)
+    expect(await cache.get('a')).toBe('one')
+
+    jest.setSystemTime(new Date('2026-03-18T12:01:01Z'))
+    expect(await cache.get('a')).toBeNull()
+    expect(cache.size).toBe(0)
+  })
+
+  it('should drop tagged entries together and evict the oldest when full', async () => {
+    const cache = new MemoryCacheBackend(2)
+
+    await cache.set('a', 'one', 60, ['lead:1'])
+    await cache.set('b', 'two', 60, ['lead:1', 'lead:2'])
+    expect(await cache.invalidateTag('lead:1')).toBe(2)
+    expect(await cache.get('b')).toBeNull()
+
+    await cache.set('c', 'three', 60)
+    await cache.set('d', 'four', 60)
+    await cache.set('e', 'five', 60)
+    expect(await cache.get('c')).toBeNull()
+    expect(await cache.get('e')).toBe('five')
+  })
+})
+
+describe('hashInput', () => {
+  it('should ignore key order, surrounding whitespace and undefined fields', () => {
+    expect(hashInput({ city: ' Austin ', beds: 3, notes: 'two  car\ngarage', extra: undefined }))
+      .toBe(hashInput({ notes: 'two car garage', beds: 3, city: 'Austin' }))
+    expect(hashInput({ beds: 3 })).not.toBe(hashInput({ beds: 4 }))
+  })
+})
+
+describe('RedisCacheBackend', () => {
+  const standIn = startRedisStandIn('redispassword')
+  let backend: RedisCacheBackend
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => standIn.server.listen(0, '127.0.0.1', resolve))
+    const { port } = standIn.server.address() as net.AddressInfo
+    backend = new RedisCacheBackend(`redis://:redispassword@127.0.0.1:${port}/2`)
+  })
+
+  afterAll(async () => {
+    backend.close()
+    await new Promise(resolve => standIn.server.close(resolve))
+  })
+
+  it('should authenticate, store entries with their TTL and read them back', async () => {
+    await backend.set('ai:org-1:x', '{"content":"ok"}', 3600, ['lead:1'])
+
+    expect(await backend.get('ai:org-1:x')).toBe('{"content":"ok"}')
+    expect(await backend.get('ai:org-1:missing')).toBeNull()
+    expect(standIn.commands.slice(0, 3)).toEqual([
+      ['AUTH', 'redispassword'],
+      ['SELECT', '2'],
+      ['SET', 'leadai:ai:org-1:x', '{"content":"ok"}', 'EX', '3600'],
+    ])
+  })
+
+  it('should invalidate every entry stored under a tag', async () => {
+    await backend.set('ai:org-1:y', 'y', 60, ['lead:1'])
+    await backend.set('ai:org-1:z', 'z', 60, ['lead:2'])
+
+    expect(await backend.invalidateTag('lead:1')).toBe(2)
+    expect(await backend.get('ai:org-1:y')).toBeNull()
+    expect(await backend.get('ai:org-1:z')).toBe('z')
+  })
+
+  it('should surface server errors', async () => {
+    const wrongPassword = new RedisCacheBackend(`redis://:nope@127.0.0.1:${(standIn.server.address() as net.AddressInfo).port}`)
+
+    await expect(wrongPassword.get('a')).rejects.toThrow('WRONGPASS')
+    wrongPassword.close()
+  })
+})
+
+describe('LLMClient response caching', () => {
+  let backend: MemoryCacheBackend
+  let client: LLMClient
+  let provider: LLMProvider & { complete: jest.Mock }
+  let meter: UsageMeter & { check: jest.Mock; record: jest.Mock }
+
+  const analysis = '{"investmentScore": 72}'
+  const analysisSchema = s.object({ investmentScore: s.number() })
+  const analyze = (property: Record<string, unknown>, extra: object = {}) => client.completeJSON({
+    feature: 'realEstate.analyzeProperty',
+    messages: [{ role: 'user', content: `Analyze ${JSON.stringify(property)}` }],
+    schema: analysisSchema,
+    organizationId: 'org-1',
+    cache: { input: { property }, tags: [cacheTags.property(String(property.id)), cacheTags.lead('lead-1')] },
+    ...extra,
+  })
+
+  beforeEach(() => {
+    provider = {
+      name: 'fixture',
+      complete: jest.fn(async () => ({
+        content: analysis,
+        provider: 'fixture',
+        model: 'fixture',
+        usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+      })),
+    } as any
+    meter = { check: jest.fn(async () => undefined), record: jest.fn(async () => undefined) }
+    backend = new MemoryCacheBackend()
+    client = new LLMClient(() => provider, meter, new AIResponseCache(backend, true))
+  })
+
+  it('should reuse a reply for the same normalized input without metering it', async () => {
+    const first = await analyze({ id: 'p1', beds: 3, city: 'Austin' })
+    const second = await analyze({ city: ' Austin', beds: 3, id: 'p1' })
+
+    expect(first).toMatchObject({ data: { investmentScore: 72 }, attempts: 1 })
+    expect(second).toMatchObject({ data: { investmentScore: 72 }, attempts: 0, result: { cached: true } })
+    expect(provider.complete).toHaveBeenCalledTimes(1)
+    expect(meter.record).toHaveBeenCalledTimes(1)
+  })
+
+  it('should key replies by organization, model and input', async () => {
+    await analyze({ id: 'p1', beds: 3 })
+    await analyze({ id: 'p1', beds: 4 })
+    await analyze({ id: 'p1', beds: 3 }, { organizationId: 'org-2' })
+    await analyze({ id: 'p1', beds: 3 }, { temperature: 0.9 })
+
+    expect(provider.complete).toHaveBeenCalledTimes(4)
+  })
+
+  it('should drop replies when a lead or property they used changes', async () => {
+    await analyze({ id: 'p1', beds: 3 })
+    await new AIResponseCache(backend, true).invalidateLead('lead-1')
+    await analyze({ id: 'p1', beds: 3 })
+
+    expect(provider.complete).toHaveBeenCalledTimes(2)
+  })
+
+  it('should only cache replies that match the schema, and only for cacheable features', async () => {
+    provider.complete
+      .mockResolvedValueOnce({ content: 'not json', provider: 'fixture', model: 'fixture', usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } })
+    await analyze({ id: 'p1', beds: 3 })
+    expect(backend.size).toBe(1)
+
+    await client.complete({ feature: 'email.template', messages: [{ role: 'user', content: 'Write one.' }] })
+    await client.complete({ feature: 'email.template', messages: [{ role: 'user', content: 'Write one.' }] })
+    await analyze({ id: 'p2' }, { cache: false })
+
+    expect(backend.size).toBe(1)
+    expect(provider.complete).toHaveBeenCalledTimes(5)
+  })
+})
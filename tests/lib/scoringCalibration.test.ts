@@ -0,0 +1,115 @@
+// LeadAI Pro - Scoring Profile & Calibration Tests
+// Tests for scoring rules, profile validation and weight suggestions
+
+import { describe, it, expect } from '@jest/globals'
+import { matchesScoringRule, DEFAULT_SCORING_WEIGHTS, ScoringRule } from '../../lib/ai/leadScoring'
+import { validateScoringProfile, SCORING_PRESETS } from '../../lib/scoring/scoringProfiles'
+import { buildCalibrationReport, CalibrationSample, MIN_CALIBRATION_SAMPLES } from '../../lib/scoring/scoringCalibration'
+
+jest.mock('../../lib/database', () => ({
+  prisma: {}
+}))
+
+describe('Scoring profiles', () => {
+  const rule = (overrides: Partial<ScoringRule>): ScoringRule => ({
+    id: 'rule',
+    label: 'Rule',
+    field: 'sellingReason',
+    operator: 'equals',
+    value: 'FINANCIAL_DISTRESS',
+    factor: 'demographic',
+    points: 20,
+    ...overrides,
+  })
+
+  describe('matchesScoringRule', () => {
+    const lead = {
+      sellingReason: 'FINANCIAL_DISTRESS',
+      timeframe: 'ASAP',
+      priceExpectation: 185000,
+      tags: ['absentee', 'vacant'],
+      customFields: { equityPercent: '55' },
+      email: null,
+    }
+
+    it('should match each operator against lead fields', () => {
+      expect(matchesScoringRule(rule({}), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ value: 'financial_distress' }), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ field: 'timeframe', operator: 'in', value: ['ASAP', 'WITHIN_30_DAYS'] }), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ field: 'priceExpectation', operator: 'lte', value: 200000 }), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ field: 'customFields.equityPercent', operator: 'gte', value: 40 }), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ field: 'tags', operator: 'contains', value: 'vacant' }), lead)).toBe(true)
+      expect(matchesScoringRule(rule({ field: 'email', operator: 'exists' }), lead)).toBe(false)
+      expect(matchesScoringRule(rule({ field: 'customFields.missing', operator: 'gte', value: 0 }), lead)).toBe(false)
+    })
+  })
+
+  describe('validateScoringProfile', () => {
+    it('should accept the presets', () => {
+      for (const preset of Object.values(SCORING_PRESETS)) {
+        expect(validateScoringProfile(preset)).toEqual([])
+      }
+    })
+
+    it('should reject weights that do not add up and malformed rules', () => {
+      const errors = validateScoringProfile({
+        weights: { demographic: 0.5, behavioral: 0.5, temporal: 0.2, conversational: 0 },
+        rules: [
+          rule({ field: 'equity' }),
+          rule({ operator: 'in', value: 'ASAP', factor: 'motivation' as any }),
+        ],
+      })
+
+      expect(errors).toEqual([
+        'weights must add up to 1 (got 1.2)',
+        'rules[0]: unknown field "equity"',
+        'rules[1]: duplicate rule id "rule"',
+        'rules[1]: "in" rules need an array value',
+        'rules[1]: factor must be one of: demographic, behavioral, temporal, conversational',
+      ])
+    })
+  })
+})
+
+describe('buildCalibrationReport', () => {
+  // Won leads have strong demographic scores; behavioral scores carry no signal
+  const samples: CalibrationSample[] = Array.from({ length: 40 }, (_, i) => {
+    const won = i % 4 === 0
+    const demographic = won ? 80 + (i % 10) : 40 + (i % 10)
+    const behavioral = 50 + ((i * 7) % 20)
+
+    return {
+      won,
+      score: Math.round(demographic * 0.25 + behavioral * 0.35 + 50 * 0.4),
+      factors: { demographic, behavioral, temporal: 50, conversational: 50 },
+    }
+  })
+
+  it('should bucket scores and compare won and lost averages', () => {
+    const report = buildCalibrationReport(samples, DEFAULT_SCORING_WEIGHTS, 3)
+
+    expect(report).toMatchObject({ sampleSize: 40, won: 10, lost: 30, unscored: 3, winRate: 25 })
+    expect(report.buckets.map(b => b.range)).toEqual(['0-19', '20-39', '40-59', '60-79', '80-100'])
+    expect(report.buckets.reduce((sum, b) => sum + b.leads, 0)).toBe(40)
+    expect(report.averageScore.won!).toBeGreaterThan(report.averageScore.lost!)
+    expect(report.brierScore).toBeGreaterThan(0)
+  })
+
+  it('should shift suggested weight towards factors that predict wins', () => {
+    const report = buildCalibrationReport(samples, DEFAULT_SCORING_WEIGHTS)
+    const weights = report.suggestedWeights!
+
+    const demographic = report.factors.find(f => f.factor === 'demographic')!
+    expect(demographic.correlation).toBeGreaterThan(0.9)
+    expect(weights.demographic).toBeGreaterThan(DEFAULT_SCORING_WEIGHTS.demographic)
+    expect(weights.behavioral).toBeLessThan(DEFAULT_SCORING_WEIGHTS.behavioral)
+    expect(Object.values(weights).reduce((sum, w) => sum + w, 0)).toBeCloseTo(1, 5)
+  })
+
+  it('should not suggest weights from too few closed leads', () => {
+    const report = buildCalibrationReport(samples.slice(0, MIN_CALIBRATION_SAMPLES - 1), DEFAULT_SCORING_WEIGHTS)
+
+    expect(report.suggestedWeights).toBeNull()
+    expect(report.notes[0]).toContain(`At least ${MIN_CALIBRATION_SAMPLES}`)
+  })
+})